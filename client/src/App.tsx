@@ -37,8 +37,10 @@ import ProjectManagerDashboard from "@/pages/project-manager-dashboard";
 import AdminImageGallery from "@/pages/AdminImageGallery";
 import DesignProposalsPage from "@/pages/design-proposals";
 import PublicDesignProposalPage from "@/pages/public-design-proposal";
+import CustomerChangeOrderPage from "@/pages/customer-change-order";
 import CreateQuotePage from "@/pages/create-quote";
 import EditQuotePage from "@/pages/edit-quote";
+import CostCatalogPage from "@/pages/cost-catalog";
 import AnalyticsPage from "@/pages/analytics";
 
 import { ProtectedRoute } from "./lib/protected-route";
@@ -81,6 +83,7 @@ function Router() {
         <ProtectedRoute path="/selections" component={Selections} />
         <ProtectedRoute path="/quotes" component={Quotes} adminOnly />
         <ProtectedRoute path="/quotes/create" component={CreateQuotePage} adminOnly />
+        <ProtectedRoute path="/quotes/catalog" component={CostCatalogPage} adminOnly />
         <ProtectedRoute path="/quotes/:id/edit" component={EditQuotePage} adminOnly />
         <ProtectedRoute path="/invoices" component={ClientInvoices} />
         <ProtectedRoute path="/project-details/:projectId/invoices" component={ClientInvoices} />
@@ -99,6 +102,9 @@ function Router() {
         <Route path="/quote/:token" component={CustomerQuote} />
         <Route path="/customer/quote/:token" component={CustomerQuote} />
         <Route path="/quote-payment/:token" component={QuotePaymentPage} />
+
+        {/* Public change order approval route */}
+        <Route path="/change-order/:token" component={CustomerChangeOrderPage} />
         
         {/* Public payment route */}
         <Route path="/payment/:clientSecret" component={PaymentPage} />
@@ -0,0 +1,293 @@
+// client/src/components/WorkCalendarCard.tsx
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import type { CalendarException, WorkCalendarWithExceptions } from "@shared/schema";
+import type { WorkCalendarRules } from "@shared/work-calendar";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarDays, CloudRain, Loader2, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+const EXCEPTION_LABELS: Record<string, string> = {
+  holiday: "Holiday",
+  rain_day: "Rain day",
+  shutdown: "Shutdown",
+};
+
+// Response shapes of GET /api/projects/:projectId/calendar and GET /api/calendars/company
+type ProjectCalendarResponse = {
+  projectCalendar: WorkCalendarWithExceptions | null;
+  companyCalendar: WorkCalendarWithExceptions | null;
+  rules: WorkCalendarRules;
+};
+type CompanyCalendarResponse = {
+  calendar: WorkCalendarWithExceptions | null;
+  rules: WorkCalendarRules;
+};
+
+interface WorkCalendarCardProps {
+  // Omit for the company calendar
+  projectId?: number;
+  canEdit: boolean;
+}
+
+// Dates are stored as YYYY-MM-DD; format them without shifting into the local timezone
+const formatCalendarDate = (date: string) => formatDate(`${date}T12:00:00`, "EEE, MMM d, yyyy");
+
+export function WorkCalendarCard({ projectId, canEdit }: WorkCalendarCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isProject = projectId !== undefined;
+  const baseUrl = isProject ? `/api/projects/${projectId}/calendar` : "/api/calendars/company";
+
+  const { data, isLoading } = useQuery<ProjectCalendarResponse | CompanyCalendarResponse>({
+    queryKey: [baseUrl],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const ownCalendar = data ? ("calendar" in data ? data.calendar : data.projectCalendar) : null;
+  const companyCalendar = data && "companyCalendar" in data ? data.companyCalendar : null;
+  const rules = data?.rules;
+
+  const [workDays, setWorkDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [hoursPerDay, setHoursPerDay] = useState("8");
+  const [newDate, setNewDate] = useState("");
+  const [newType, setNewType] = useState<string>(isProject ? "rain_day" : "holiday");
+  const [newDescription, setNewDescription] = useState("");
+
+  useEffect(() => {
+    if (rules) {
+      setWorkDays(rules.workDays);
+      setHoursPerDay(String(rules.hoursPerDay));
+    }
+  }, [rules?.workDays.join(","), rules?.hoursPerDay]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [baseUrl] });
+    if (isProject) {
+      // Working days feed the critical path analysis
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks/schedule`] });
+    }
+  };
+
+  const onError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", baseUrl, { workDays, hoursPerDay: parseFloat(hoursPerDay) });
+    },
+    onSuccess: () => {
+      toast({ title: "Calendar Saved", description: "Schedules now use these working days." });
+      invalidate();
+    },
+    onError: onError("Failed to Save Calendar"),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", baseUrl);
+    },
+    onSuccess: () => {
+      toast({ title: "Calendar Reset", description: "This project now follows the company calendar." });
+      invalidate();
+    },
+    onError: onError("Failed to Reset Calendar"),
+  });
+
+  const addExceptionMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `${baseUrl}/exceptions`, {
+        date: newDate,
+        type: newType,
+        description: newDescription || null,
+      });
+    },
+    onSuccess: () => {
+      setNewDate("");
+      setNewDescription("");
+      invalidate();
+    },
+    onError: onError("Failed to Add Non-Working Day"),
+  });
+
+  const removeExceptionMutation = useMutation({
+    mutationFn: async (exceptionId: number) => {
+      await apiRequest("DELETE", `${baseUrl}/exceptions/${exceptionId}`);
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to Remove Non-Working Day"),
+  });
+
+  const toggleWorkDay = (day: number, checked: boolean) => {
+    setWorkDays(current => checked ? [...current, day] : current.filter(d => d !== day));
+  };
+
+  // Project calendars also show the company holidays they inherit
+  const exceptions: (CalendarException & { inherited: boolean })[] = [
+    ...(companyCalendar?.exceptions ?? []).map(e => ({ ...e, inherited: true })),
+    ...(ownCalendar?.exceptions ?? []).map(e => ({ ...e, inherited: false })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              {isProject ? "Work Calendar" : "Company Work Calendar"}
+            </CardTitle>
+            <CardDescription>
+              {isProject
+                ? ownCalendar
+                  ? "This project has its own workdays. Company holidays still apply."
+                  : "This project follows the company calendar. Adding a rain day gives it its own."
+                : "Default workdays and holidays for every project. Projects can override them."}
+            </CardDescription>
+          </div>
+          {isProject && ownCalendar && canEdit && (
+            <Button variant="ghost" size="sm" onClick={() => resetMutation.mutate()} disabled={resetMutation.isPending}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Use company calendar
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <Label>Workdays</Label>
+              <div className="flex flex-wrap gap-4">
+                {WEEKDAYS.map(day => (
+                  <label key={day.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={workDays.includes(day.value)}
+                      disabled={!canEdit}
+                      onCheckedChange={(checked) => toggleWorkDay(day.value, checked === true)}
+                    />
+                    {day.label}
+                  </label>
+                ))}
+              </div>
+              <div className="flex items-end gap-4">
+                <div>
+                  <Label htmlFor="hoursPerDay">Hours per day</Label>
+                  <Input
+                    id="hoursPerDay"
+                    type="number"
+                    min="1"
+                    max="24"
+                    step="0.5"
+                    className="w-28"
+                    value={hoursPerDay}
+                    disabled={!canEdit}
+                    onChange={(e) => setHoursPerDay(e.target.value)}
+                  />
+                </div>
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    onClick={() => saveMutation.mutate()}
+                    disabled={workDays.length === 0 || saveMutation.isPending}
+                  >
+                    {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save workdays
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Non-working days</Label>
+              {canEdit && (
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+                  <Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+                  <Select value={newType} onValueChange={setNewType}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(EXCEPTION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Description (optional)"
+                    value={newDescription}
+                    onChange={(e) => setNewDescription(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => addExceptionMutation.mutate()}
+                    disabled={!newDate || addExceptionMutation.isPending}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              )}
+              {exceptions.length === 0 ? (
+                <p className="text-sm text-slate-500">No holidays or rain days recorded.</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {exceptions.map(exception => (
+                    <li key={`${exception.inherited ? "c" : "p"}-${exception.id}`} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        {exception.type === "rain_day" && <CloudRain className="h-4 w-4 text-sky-600" />}
+                        <span className="font-medium">{formatCalendarDate(exception.date)}</span>
+                        <Badge variant="outline">{EXCEPTION_LABELS[exception.type] ?? exception.type}</Badge>
+                        {exception.description && <span className="text-slate-500">{exception.description}</span>}
+                        {isProject && exception.inherited && <Badge variant="secondary">Company</Badge>}
+                      </div>
+                      {canEdit && !(isProject && exception.inherited) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeExceptionMutation.mutate(exception.id)}
+                          disabled={removeExceptionMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+// client/src/components/payment/InvoiceActivityCard.tsx
+import { Link } from "wouter";
+import type { InvoiceActivity } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, BellRing, History, Receipt } from "lucide-react";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+const ACTIVITY_STYLES: Record<string, { icon: typeof BellRing; className: string }> = {
+  reminder_sent: { icon: BellRing, className: "text-blue-600 bg-blue-50" },
+  marked_overdue: { icon: AlertTriangle, className: "text-red-600 bg-red-50" },
+  late_fee_applied: { icon: Receipt, className: "text-amber-600 bg-amber-50" },
+};
+
+interface InvoiceActivityCardProps {
+  activities: InvoiceActivity[];
+}
+
+export function InvoiceActivityCard({ activities }: InvoiceActivityCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Activity
+        </CardTitle>
+        <CardDescription>
+          Payment reminders, overdue flags and late fees are handled automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {activities.length === 0 ? (
+          <p className="text-sm text-slate-500">No reminders or late fees yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {activities.map(activity => {
+              const style = ACTIVITY_STYLES[activity.type] ?? { icon: History, className: "text-slate-600 bg-slate-50" };
+              const Icon = style.icon;
+              return (
+                <li key={activity.id} className="flex items-start gap-3 text-sm">
+                  <div className={`rounded-full p-1.5 ${style.className}`}>
+                    <Icon className="h-4 w-4" />
+                  </div>
+                  <div className="space-y-0.5">
+                    <p className="text-slate-900">{activity.message}</p>
+                    <p className="text-slate-500">
+                      {formatDate(activity.createdAt, "MMM d, yyyy h:mm a")}
+                      {activity.amount && ` · ${formatCurrency(activity.amount)}`}
+                    </p>
+                    {activity.relatedInvoiceId && (
+                      <Link href={`/invoices/${activity.relatedInvoiceId}/view`} className="text-primary-600 hover:underline">
+                        View late fee invoice
+                      </Link>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,323 @@
+// client/src/components/payment/InvoicePaymentsCard.tsx
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { MANUAL_PAYMENT_METHODS, type Invoice, type Payment } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CreditCard, Loader2, Plus, Undo2 } from "lucide-react";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+const PAYMENT_STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  succeeded: { label: "Succeeded", className: "bg-green-100 text-green-800 border-green-300" },
+  test_completed: { label: "Test", className: "bg-green-100 text-green-800 border-green-300" },
+  pending: { label: "Pending", className: "bg-yellow-100 text-yellow-800 border-yellow-300" },
+  processing: { label: "Processing", className: "bg-yellow-100 text-yellow-800 border-yellow-300" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800 border-red-300" },
+  cancelled: { label: "Cancelled", className: "bg-gray-100 text-gray-800 border-gray-300" },
+  refunded: { label: "Refund", className: "bg-purple-100 text-purple-800 border-purple-300" },
+  disputed: { label: "Disputed", className: "bg-red-100 text-red-800 border-red-300" },
+  dispute_won: { label: "Dispute Won", className: "bg-blue-100 text-blue-800 border-blue-300" },
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  stripe: "Stripe",
+  ach: "ACH Bank Debit",
+  check: "Check",
+  zelle: "Zelle",
+  cash: "Cash",
+  bank_transfer: "Bank Transfer",
+};
+
+// Statuses that don't move money and are left out of the balance
+const NON_SETTLED_STATUSES = new Set(["failed", "cancelled", "pending", "processing"]);
+
+interface InvoicePaymentsCardProps {
+  invoice: Invoice & { payments?: Payment[] };
+  canRefund: boolean;
+  canRecordPayment: boolean;
+}
+
+export function InvoicePaymentsCard({ invoice, canRefund, canRecordPayment }: InvoicePaymentsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const payments = invoice.payments ?? [];
+
+  const [refundTarget, setRefundTarget] = useState<Payment | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+
+  const [isRecordOpen, setIsRecordOpen] = useState(false);
+  const [manualAmount, setManualAmount] = useState("");
+  const [manualMethod, setManualMethod] = useState<string>("check");
+  const [manualReference, setManualReference] = useState("");
+  const [manualDate, setManualDate] = useState("");
+
+  const netPaid = payments
+    .filter(payment => !NON_SETTLED_STATUSES.has(payment.status))
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const balance = Math.max(Number(invoice.amount) - netPaid, 0);
+
+  // Amount still refundable on a charge after earlier refunds and disputes
+  const refundableFor = (payment: Payment) => {
+    const returned = payments
+      .filter(p => p.stripeChargeId === payment.stripeChargeId && ["refunded", "disputed", "dispute_won"].includes(p.status))
+      .reduce((sum, p) => sum - Number(p.amount), 0);
+    const charged = Math.min(Number(payment.amount), Number(payment.amount) + Number(payment.methodAdjustment));
+    return Math.max(charged - returned, 0);
+  };
+
+  const isRefundable = (payment: Payment) =>
+    !!payment.stripeChargeId &&
+    Number(payment.amount) > 0 &&
+    (payment.status === "succeeded" || payment.status === "test_completed") &&
+    refundableFor(payment) > 0;
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(
+        "POST",
+        `/api/projects/${invoice.projectId}/invoices/${invoice.id}/payments/${refundTarget!.id}/refund`,
+        { amount: parseFloat(refundAmount), reason: refundReason || undefined }
+      );
+    },
+    onSuccess: () => {
+      toast({ title: "Refund Issued", description: `${formatCurrency(refundAmount)} is being returned to the customer.` });
+      setRefundTarget(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}/view`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${invoice.projectId}/invoices`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Refund Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/projects/${invoice.projectId}/invoices/${invoice.id}/payments`, {
+        amount: parseFloat(manualAmount),
+        paymentMethod: manualMethod,
+        reference: manualReference || undefined,
+        ...(manualDate && { paymentDate: new Date(manualDate).toISOString() }),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Payment Recorded", description: `${formatCurrency(manualAmount)} was applied to invoice #${invoice.invoiceNumber}.` });
+      setIsRecordOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}/view`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${invoice.projectId}/invoices`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to Record Payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openRecord = () => {
+    setManualAmount(balance.toFixed(2));
+    setManualMethod("check");
+    setManualReference("");
+    setManualDate("");
+    setIsRecordOpen(true);
+  };
+
+  const canRecordOnInvoice = canRecordPayment && balance > 0 && invoice.status !== "draft" && invoice.status !== "cancelled";
+
+  const openRefund = (payment: Payment) => {
+    setRefundTarget(payment);
+    setRefundAmount(refundableFor(payment).toFixed(2));
+    setRefundReason("");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            Payments
+          </CardTitle>
+          <CardDescription>
+            Net received {formatCurrency(netPaid)} · Balance due {formatCurrency(balance)}
+          </CardDescription>
+        </div>
+        {canRecordOnInvoice && (
+          <Button variant="outline" size="sm" onClick={openRecord}>
+            <Plus className="h-4 w-4 mr-1" />
+            Record Payment
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {payments.length === 0 ? (
+          <p className="text-sm text-slate-500">No payments recorded yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {payments.map(payment => {
+              const style = PAYMENT_STATUS_STYLES[payment.status] ?? { label: payment.status, className: "" };
+              const amount = Number(payment.amount);
+              return (
+                <li key={payment.id} className="flex items-start justify-between gap-4 px-4 py-3 text-sm">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`font-medium ${amount < 0 ? "text-red-700" : "text-slate-900"}`}>
+                        {formatCurrency(amount)}
+                      </span>
+                      <Badge variant="outline" className={style.className}>{style.label}</Badge>
+                    </div>
+                    <p className="text-slate-500">
+                      {formatDate(payment.paymentDate)} · {PAYMENT_METHOD_LABELS[payment.paymentMethod] ?? payment.paymentMethod}
+                      {payment.reference && ` · ${payment.reference}`}
+                    </p>
+                    {Number(payment.methodAdjustment) !== 0 && (
+                      <p className="text-slate-500">
+                        {Number(payment.methodAdjustment) > 0 ? "Surcharge" : "Discount"} of {formatCurrency(Math.abs(Number(payment.methodAdjustment)))} for the payment method
+                      </p>
+                    )}
+                    {payment.failureReason && (
+                      <p className="text-red-600">{payment.failureReason}</p>
+                    )}
+                  </div>
+                  {canRefund && isRefundable(payment) && (
+                    <Button variant="outline" size="sm" onClick={() => openRefund(payment)}>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Refund
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={isRecordOpen} onOpenChange={setIsRecordOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Apply a check, Zelle or other payment received outside Stripe.
+              Up to {formatCurrency(balance)} is still due on this invoice.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="manualAmount">Amount</Label>
+                <Input
+                  id="manualAmount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={manualAmount}
+                  onChange={(e) => setManualAmount(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="manualMethod">Method</Label>
+                <Select value={manualMethod} onValueChange={setManualMethod}>
+                  <SelectTrigger id="manualMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="manualReference">Reference (optional)</Label>
+                <Input
+                  id="manualReference"
+                  value={manualReference}
+                  onChange={(e) => setManualReference(e.target.value)}
+                  placeholder="Check # or confirmation"
+                />
+              </div>
+              <div>
+                <Label htmlFor="manualDate">Date received</Label>
+                <Input
+                  id="manualDate"
+                  type="date"
+                  value={manualDate}
+                  onChange={(e) => setManualDate(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRecordOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => recordMutation.mutate()}
+              disabled={!(parseFloat(manualAmount) > 0) || parseFloat(manualAmount) > balance + 0.005 || recordMutation.isPending}
+            >
+              {recordMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!refundTarget} onOpenChange={(open) => !open && setRefundTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Payment</DialogTitle>
+            <DialogDescription>
+              The refund is issued through Stripe to the customer's original payment method.
+              Up to {refundTarget ? formatCurrency(refundableFor(refundTarget)) : ""} can be refunded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="refundAmount">Amount</Label>
+              <Input
+                id="refundAmount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="refundReason">Reason (optional)</Label>
+              <Textarea
+                id="refundReason"
+                value={refundReason}
+                onChange={(e) => setRefundReason(e.target.value)}
+                placeholder="e.g. Scope reduced after site visit"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundTarget(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => refundMutation.mutate()}
+              disabled={!(parseFloat(refundAmount) > 0) || refundMutation.isPending}
+            >
+              {refundMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Issue Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
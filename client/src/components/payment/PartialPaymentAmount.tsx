@@ -0,0 +1,101 @@
+// client/src/components/payment/PartialPaymentAmount.tsx
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, SplitSquareHorizontal } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+
+// Response shape of POST /api/payment/:clientSecret/partial-intent
+export type PartialPaymentIntent = {
+  clientSecret: string;
+  amount: number;
+  balanceDue: number;
+};
+
+interface PartialPaymentAmountProps {
+  // Client secret of any payment intent issued for the invoice
+  clientSecret: string;
+  balanceDue: number;
+  onIntentCreated: (intent: PartialPaymentIntent) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Lets the customer choose how much of the balance to pay now. Each amount gets its own
+ * payment intent, so a balance can be settled over several payments or methods.
+ */
+export function PartialPaymentAmount({ clientSecret, balanceDue, onIntentCreated, onCancel }: PartialPaymentAmountProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState(balanceDue.toFixed(2));
+
+  const parsedAmount = parseFloat(amount);
+  const isValid = !isNaN(parsedAmount) && parsedAmount >= 0.5 && parsedAmount <= balanceDue;
+
+  const intentMutation = useMutation({
+    mutationFn: async (): Promise<PartialPaymentIntent> => {
+      return apiRequest("POST", `/api/payment/${clientSecret}/partial-intent`, { amount: parsedAmount });
+    },
+    onSuccess: (intent) => onIntentCreated(intent),
+    onError: (err: Error) => {
+      toast({ title: "Could Not Start Payment", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SplitSquareHorizontal className="h-5 w-5" />
+          Choose Payment Amount
+        </CardTitle>
+        <CardDescription>
+          Pay the full balance of {formatCurrency(balanceDue)} or part of it now and the rest later.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="partialPaymentAmount">Amount to pay now ($)</Label>
+          <Input
+            id="partialPaymentAmount"
+            type="number"
+            min="0.50"
+            max={balanceDue}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          {!isValid && amount !== "" && (
+            <p className="text-xs text-red-600 mt-1">
+              Enter an amount between $0.50 and {formatCurrency(balanceDue)}.
+            </p>
+          )}
+          {isValid && parsedAmount < balanceDue && (
+            <p className="text-xs text-slate-500 mt-1">
+              {formatCurrency(balanceDue - parsedAmount)} will remain due after this payment.
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="outline" className="flex-1" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            className="flex-1"
+            onClick={() => intentMutation.mutate()}
+            disabled={!isValid || intentMutation.isPending}
+          >
+            {intentMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Continue to Payment
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
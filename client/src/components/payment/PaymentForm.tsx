@@ -5,6 +5,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { Loader2, CreditCard } from 'lucide-react';
+import type { StripePaymentElementChangeEvent } from '@stripe/stripe-js';
+
+// Response shape of POST /api/payment/:clientSecret/payment-method
+type PaymentMethodAdjustment = {
+  paymentMethodType: string;
+  percentage: number;
+  adjustment: number;
+  total: number;
+  baseAmount: number;
+};
 
 interface PaymentFormProps {
   clientSecret: string;
@@ -25,6 +35,27 @@ export function PaymentForm({
   const elements = useElements();
   const { toast } = useToast();
   const [isProcessing, setIsProcessing] = useState(false);
+  const [methodAdjustment, setMethodAdjustment] = useState<PaymentMethodAdjustment | null>(null);
+  const [isRepricing, setIsRepricing] = useState(false);
+
+  // Card surcharges or bank payment discounts are applied to the intent before confirming
+  const handleElementChange = async (event: StripePaymentElementChangeEvent) => {
+    const paymentMethodType = event.value.type;
+    if (!elements || paymentMethodType === methodAdjustment?.paymentMethodType) return;
+
+    setIsRepricing(true);
+    try {
+      const adjustment: PaymentMethodAdjustment = await apiRequest('POST', `/api/payment/${clientSecret}/payment-method`, {
+        paymentMethodType,
+      });
+      await elements.fetchUpdates();
+      setMethodAdjustment(adjustment);
+    } catch (error) {
+      console.error('Error applying payment method adjustment:', error);
+    } finally {
+      setIsRepricing(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -52,6 +83,27 @@ export function PaymentForm({
           variant: "destructive",
         });
         onError?.(errorMessage);
+      } else if (paymentIntent && paymentIntent.status === 'processing') {
+        // Bank debits take a few business days; the webhook credits the invoice once it settles
+        try {
+          await apiRequest('POST', '/api/payment-success', {
+            paymentIntentId: paymentIntent.id,
+          });
+        } catch (backendError) {
+          console.error('Backend processing error:', backendError);
+        }
+
+        toast({
+          title: "Bank Payment Submitted",
+          description: "Your bank payment is processing and usually clears within 4 business days.",
+        });
+
+        onSuccess?.(paymentIntent);
+      } else if (paymentIntent && paymentIntent.status === 'requires_action' && paymentIntent.next_action?.type === 'verify_with_microdeposits') {
+        toast({
+          title: "Verify Your Bank Account",
+          description: "Stripe will send small deposits to your account in 1-2 business days. Follow the emailed instructions to complete the payment.",
+        });
       } else if (paymentIntent && paymentIntent.status === 'succeeded') {
         // Call our backend to handle the successful payment
         try {
@@ -111,10 +163,22 @@ export function PaymentForm({
       </CardHeader>
       <CardContent>
         <div className="mb-6">
+          {methodAdjustment && methodAdjustment.adjustment !== 0 && (
+            <div className="flex justify-between items-center px-4 pb-2 text-sm text-gray-600">
+              <span>
+                {methodAdjustment.adjustment > 0
+                  ? `Card processing fee (${methodAdjustment.percentage}%)`
+                  : `Bank payment discount (${Math.abs(methodAdjustment.percentage)}%)`}
+              </span>
+              <span>
+                {methodAdjustment.adjustment > 0 ? '+' : '-'}{formatCurrency(Math.abs(methodAdjustment.adjustment))}
+              </span>
+            </div>
+          )}
           <div className="flex justify-between items-center p-4 bg-gray-50 rounded-lg">
-            <span className="font-medium">Total Amount:</span>
+            <span className="font-medium">Payment Amount:</span>
             <span className="text-2xl font-bold text-green-600">
-              {formatCurrency(amount)}
+              {formatCurrency(methodAdjustment?.total ?? amount)}
             </span>
           </div>
         </div>
@@ -125,12 +189,13 @@ export function PaymentForm({
               options={{
                 layout: 'tabs',
               }}
+              onChange={handleElementChange}
             />
           </div>
           
           <Button 
             type="submit" 
-            disabled={!stripe || !elements || isProcessing}
+            disabled={!stripe || !elements || isProcessing || isRepricing}
             className="w-full"
             size="lg"
           >
@@ -141,7 +206,7 @@ export function PaymentForm({
               </>
             ) : (
               <>
-                Pay {formatCurrency(amount)}
+                Pay {formatCurrency(methodAdjustment?.total ?? amount)}
               </>
             )}
           </Button>
@@ -0,0 +1,244 @@
+// client/src/components/project-details/BulkActionsToolbar.tsx
+import React, { useState } from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+import { getQueryFn } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, X } from "lucide-react";
+import { useBulkActions, BulkActionType, BulkActionPayload } from "@/hooks/useBulkActions";
+
+type BulkToolbarResource = 'tasks' | 'punchListItems';
+
+interface BulkActionsToolbarProps {
+    projectId: number;
+    resourceType: BulkToolbarResource;
+    selectedIds: number[];
+    onClearSelection: () => void;
+}
+
+const ACTION_LABELS: Record<BulkActionType, string> = {
+    reassign: "Reassign",
+    update_status: "Change Status",
+    update_priority: "Change Priority",
+    shift_dates: "Shift Dates",
+    publish: "Publish",
+    unpublish: "Unpublish",
+    delete: "Delete",
+};
+
+const ACTIONS_BY_RESOURCE: Record<BulkToolbarResource, BulkActionType[]> = {
+    tasks: ['reassign', 'update_status', 'update_priority', 'shift_dates', 'publish', 'unpublish', 'delete'],
+    punchListItems: ['reassign', 'update_status', 'update_priority', 'shift_dates', 'delete'],
+};
+
+const STATUS_OPTIONS: Record<BulkToolbarResource, { value: string; label: string }[]> = {
+    tasks: [
+        { value: 'todo', label: "To Do" },
+        { value: 'in_progress', label: "In Progress" },
+        { value: 'blocked', label: "Blocked" },
+        { value: 'done', label: "Done" },
+        { value: 'cancelled', label: "Cancelled" },
+    ],
+    punchListItems: [
+        { value: 'open', label: "Open" },
+        { value: 'in_progress', label: "In Progress" },
+        { value: 'resolved', label: "Resolved" },
+        { value: 'verified', label: "Verified" },
+    ],
+};
+
+const PRIORITY_OPTIONS = [
+    { value: 'low', label: "Low" },
+    { value: 'medium', label: "Medium" },
+    { value: 'high', label: "High" },
+];
+
+const UNASSIGNED_VALUE = "unassigned";
+
+export function BulkActionsToolbar({ projectId, resourceType, selectedIds, onClearSelection }: BulkActionsToolbarProps) {
+    const [action, setAction] = useState<BulkActionType | "">("");
+    const [assigneeValue, setAssigneeValue] = useState<string>("");
+    const [status, setStatus] = useState<string>("");
+    const [priority, setPriority] = useState<string>("");
+    const [days, setDays] = useState<string>("");
+    const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = useState(false);
+
+    const bulkMutation = useBulkActions(projectId);
+
+    const { data: assignees = [] } = useQuery<User[]>({
+        queryKey: ["/api/project-managers"],
+        queryFn: getQueryFn({ on401: "throw" }),
+        enabled: action === 'reassign',
+    });
+
+    const parsedDays = parseInt(days, 10);
+    const isReady = (() => {
+        switch (action) {
+            case 'reassign': return assigneeValue !== "";
+            case 'update_status': return status !== "";
+            case 'update_priority': return priority !== "";
+            case 'shift_dates': return Number.isInteger(parsedDays) && parsedDays !== 0;
+            case 'publish':
+            case 'unpublish':
+            case 'delete': return true;
+            default: return false;
+        }
+    })();
+
+    const runAction = () => {
+        if (!action) return;
+        const payload: BulkActionPayload = { resourceType, action, resourceIds: selectedIds };
+        if (action === 'reassign') {
+            payload.data = { assigneeId: assigneeValue === UNASSIGNED_VALUE ? null : Number(assigneeValue) };
+        } else if (action === 'update_status') {
+            payload.data = { status };
+        } else if (action === 'update_priority') {
+            payload.data = { priority };
+        } else if (action === 'shift_dates') {
+            payload.data = { days: parsedDays };
+        }
+
+        bulkMutation.mutate(payload, {
+            onSuccess: (result) => {
+                if (result.success) {
+                    setAction("");
+                    onClearSelection();
+                }
+            },
+        });
+    };
+
+    const handleApply = () => {
+        if (action === 'delete') {
+            setIsConfirmDeleteOpen(true);
+            return;
+        }
+        runAction();
+    };
+
+    if (selectedIds.length === 0) return null;
+
+    return (
+        <>
+            <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-2 mb-3">
+                <span className="text-sm font-medium px-1">{selectedIds.length} selected</span>
+
+                <Select value={action} onValueChange={(value) => setAction(value as BulkActionType)}>
+                    <SelectTrigger className="w-[170px] h-8">
+                        <SelectValue placeholder="Choose action" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {ACTIONS_BY_RESOURCE[resourceType].map(option => (
+                            <SelectItem key={option} value={option}>{ACTION_LABELS[option]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+
+                {action === 'reassign' && (
+                    <Select value={assigneeValue} onValueChange={setAssigneeValue}>
+                        <SelectTrigger className="w-[190px] h-8">
+                            <SelectValue placeholder="Select assignee" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={UNASSIGNED_VALUE}>Unassigned</SelectItem>
+                            {assignees.map(user => (
+                                <SelectItem key={user.id} value={String(user.id)}>
+                                    {user.firstName} {user.lastName}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+
+                {action === 'update_status' && (
+                    <Select value={status} onValueChange={setStatus}>
+                        <SelectTrigger className="w-[160px] h-8">
+                            <SelectValue placeholder="Select status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {STATUS_OPTIONS[resourceType].map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+
+                {action === 'update_priority' && (
+                    <Select value={priority} onValueChange={setPriority}>
+                        <SelectTrigger className="w-[140px] h-8">
+                            <SelectValue placeholder="Select priority" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {PRIORITY_OPTIONS.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+
+                {action === 'shift_dates' && (
+                    <Input
+                        type="number"
+                        className="w-[140px] h-8"
+                        placeholder="Days (+/-)"
+                        value={days}
+                        onChange={(e) => setDays(e.target.value)}
+                    />
+                )}
+
+                <Button
+                    size="sm"
+                    className="h-8"
+                    variant={action === 'delete' ? "destructive" : "default"}
+                    disabled={!isReady || bulkMutation.isPending}
+                    onClick={handleApply}
+                >
+                    {bulkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Apply
+                </Button>
+                <Button size="sm" variant="ghost" className="h-8 gap-1" onClick={onClearSelection} disabled={bulkMutation.isPending}>
+                    <X className="h-4 w-4" />
+                    Clear
+                </Button>
+            </div>
+
+            <AlertDialog open={isConfirmDeleteOpen} onOpenChange={setIsConfirmDeleteOpen}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {selectedIds.length} item(s)?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            This action cannot be undone. If any selected item cannot be deleted, none of them will be.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            onClick={runAction}
+                        >
+                            Confirm Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+}
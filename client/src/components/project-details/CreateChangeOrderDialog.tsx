@@ -0,0 +1,274 @@
+// client/src/components/project-details/CreateChangeOrderDialog.tsx
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, PlusCircle, Trash2 } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import { toast } from "@/hooks/use-toast";
+import { z } from "zod";
+
+const lineItemFormSchema = z.object({
+  category: z.string().min(1, "Category is required"),
+  description: z.string().min(1, "Description is required"),
+  quantity: z.coerce.number().positive("Must be positive"),
+  unit: z.string().optional(),
+  unitPrice: z.coerce.number(),
+});
+
+const changeOrderFormSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  description: z.string().optional(),
+  reason: z.string().optional(),
+  taxRate: z.coerce.number().min(0).max(100),
+  scheduleImpactDays: z.coerce.number().int(),
+  createTasks: z.boolean(),
+  lineItems: z.array(lineItemFormSchema).min(1, "Add at least one line item"),
+});
+
+type ChangeOrderFormValues = z.infer<typeof changeOrderFormSchema>;
+
+interface CreateChangeOrderDialogProps {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  projectId: number;
+}
+
+const emptyLineItem = { category: "", description: "", quantity: 1, unit: "each", unitPrice: 0 };
+
+export function CreateChangeOrderDialog({ isOpen, setIsOpen, projectId }: CreateChangeOrderDialogProps) {
+  const queryClient = useQueryClient();
+
+  const form = useForm<ChangeOrderFormValues>({
+    resolver: zodResolver(changeOrderFormSchema),
+    defaultValues: {
+      title: "",
+      description: "",
+      reason: "",
+      taxRate: 0,
+      scheduleImpactDays: 0,
+      createTasks: false,
+      lineItems: [emptyLineItem],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "lineItems" });
+
+  const watchedLineItems = form.watch("lineItems");
+  const watchedTaxRate = form.watch("taxRate");
+  const subtotal = (watchedLineItems || []).reduce(
+    (sum, item) => sum + (Number(item.quantity) || 0) * (Number(item.unitPrice) || 0),
+    0
+  );
+  const total = subtotal + (subtotal * (Number(watchedTaxRate) || 0)) / 100;
+
+  const createMutation = useMutation({
+    mutationFn: async (values: ChangeOrderFormValues) => {
+      return apiRequest("POST", `/api/projects/${projectId}/change-orders`, values);
+    },
+    onSuccess: () => {
+      toast({ title: "Change Order Created", description: "Review it, then send it to the customer for approval." });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/change-orders`] });
+      form.reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Change Order",
+        description: error.message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Change Order</DialogTitle>
+          <DialogDescription>
+            Describe the scope change and its cost and schedule impact. Use negative prices for removed scope.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => createMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl><Input placeholder="e.g. Add recessed lighting in kitchen" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl><Textarea rows={3} {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl><Textarea rows={3} placeholder="Client request, hidden conditions, code requirement..." {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <FormLabel>Line Items</FormLabel>
+                <Button type="button" variant="outline" size="sm" onClick={() => append(emptyLineItem)}>
+                  <PlusCircle className="h-4 w-4 mr-1" /> Add Item
+                </Button>
+              </div>
+              {fields.map((item, index) => (
+                <div key={item.id} className="grid grid-cols-12 gap-2 items-start border rounded-md p-2">
+                  <FormField
+                    control={form.control}
+                    name={`lineItems.${index}.category`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-3">
+                        <FormControl><Input placeholder="Category" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lineItems.${index}.description`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-4">
+                        <FormControl><Input placeholder="Description" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lineItems.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormControl><Input type="number" step="0.01" placeholder="Qty" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lineItems.${index}.unitPrice`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormControl><Input type="number" step="0.01" placeholder="Unit price" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="col-span-1"
+                    disabled={fields.length === 1}
+                    onClick={() => remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="taxRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tax Rate (%)</FormLabel>
+                    <FormControl><Input type="number" step="0.01" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="scheduleImpactDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Schedule Impact (days)</FormLabel>
+                    <FormControl><Input type="number" step="1" {...field} /></FormControl>
+                    <FormDescription>Negative to shorten the schedule</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="createTasks"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0 pt-8">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Create a task per line item on approval</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="text-right text-sm">
+              <span className="text-muted-foreground mr-2">Estimated total:</span>
+              <span className="font-semibold">{formatCurrency(total)}</span>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={createMutation.isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Change Order
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,263 @@
+// client/src/components/project-details/CriticalPathPanel.tsx
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, GitBranch, Loader2, MoveRight } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+// Mirrors ProjectScheduleAnalysis from server/services/scheduling.service.ts (dates arrive as ISO strings)
+interface ScheduledTask {
+  taskId: number;
+  title: string;
+  status: string;
+  startDate: string;
+  dueDate: string;
+  durationDays: number;
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloatDays: number;
+  isCritical: boolean;
+  predecessorIds: number[];
+  successorIds: number[];
+}
+
+interface ScheduleConflict {
+  taskId: number;
+  predecessorId: number;
+  type: string;
+  lagDays: number;
+  currentStartDate: string;
+  requiredStartDate: string;
+  shiftDays: number;
+}
+
+interface ProjectScheduleAnalysis {
+  projectStart: string | null;
+  projectFinish: string | null;
+  tasks: ScheduledTask[];
+  criticalPath: number[];
+  conflicts: ScheduleConflict[];
+  unscheduledTaskIds: number[];
+}
+
+interface RescheduleProposal {
+  sourceTaskId: number;
+  changes: {
+    taskId: number;
+    title: string;
+    currentStartDate: string;
+    currentDueDate: string;
+    proposedStartDate: string;
+    proposedDueDate: string;
+    shiftDays: number;
+  }[];
+}
+
+interface CriticalPathPanelProps {
+  projectId: number;
+  canReschedule: boolean;
+}
+
+export function CriticalPathPanel({ projectId, canReschedule }: CriticalPathPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sourceTaskId, setSourceTaskId] = useState<number | null>(null);
+  const scheduleQueryKey = [`/api/projects/${projectId}/tasks/schedule`];
+
+  const {
+    data: schedule,
+    isLoading,
+    error,
+  } = useQuery<ProjectScheduleAnalysis>({
+    queryKey: scheduleQueryKey,
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: projectId > 0,
+  });
+
+  const {
+    data: proposal,
+    isLoading: isLoadingProposal,
+  } = useQuery<RescheduleProposal>({
+    queryKey: [`/api/projects/${projectId}/tasks/${sourceTaskId}/reschedule`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: sourceTaskId !== null,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (taskId: number) => {
+      return apiRequest("POST", `/api/projects/${projectId}/tasks/${taskId}/reschedule`);
+    },
+    onSuccess: (data) => {
+      toast({ title: "Schedule Updated", description: data.message });
+      queryClient.invalidateQueries({ queryKey: scheduleQueryKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks`] });
+      setSourceTaskId(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to Shift Tasks", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const titleFor = (taskId: number) =>
+    schedule?.tasks.find(t => t.taskId === taskId)?.title ?? `Task ${taskId}`;
+
+  // One offer per slipped predecessor, however many successors it pushes
+  const slippedPredecessorIds = Array.from(new Set((schedule?.conflicts ?? []).map(c => c.predecessorId)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Critical Path
+        </CardTitle>
+        <CardDescription>
+          {schedule?.projectFinish
+            ? `Tasks finish by ${formatDate(schedule.projectFinish)}. Critical tasks have no float: any delay moves the finish date.`
+            : "Computed from task dates and dependencies."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error instanceof Error ? error.message : "Could not compute the schedule."}</AlertDescription>
+          </Alert>
+        ) : !schedule || schedule.tasks.length === 0 ? (
+          <p className="text-sm text-slate-500">Add start and due dates to tasks to see the critical path.</p>
+        ) : (
+          <>
+            {slippedPredecessorIds.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Dependencies out of order</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 space-y-2">
+                    {slippedPredecessorIds.map(predecessorId => {
+                      const affected = schedule.conflicts.filter(c => c.predecessorId === predecessorId);
+                      return (
+                        <li key={predecessorId} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                          <span className="text-sm">
+                            "{titleFor(predecessorId)}" now ends after{" "}
+                            {affected.map(c => `"${titleFor(c.taskId)}"`).join(", ")} can start.
+                          </span>
+                          {canReschedule && (
+                            <Button size="sm" variant="outline" onClick={() => setSourceTaskId(predecessorId)}>
+                              <MoveRight className="h-4 w-4 mr-1" />
+                              Shift downstream tasks
+                            </Button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-slate-500">
+                    <th className="py-2 pr-4 font-medium">Task</th>
+                    <th className="py-2 pr-4 font-medium">Early Start</th>
+                    <th className="py-2 pr-4 font-medium">Early Finish</th>
+                    <th className="py-2 pr-4 font-medium">Late Start</th>
+                    <th className="py-2 pr-4 font-medium">Late Finish</th>
+                    <th className="py-2 font-medium text-right">Float</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedule.tasks.map(task => (
+                    <tr
+                      key={task.taskId}
+                      className={`border-b last:border-0 ${task.isCritical ? "bg-red-50" : ""}`}
+                    >
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center gap-2">
+                          <span className={task.isCritical ? "font-medium text-red-800" : "text-slate-800"}>{task.title}</span>
+                          {task.isCritical && <Badge className="bg-red-100 text-red-800">Critical</Badge>}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4">{formatDate(task.earlyStart)}</td>
+                      <td className="py-2 pr-4">{formatDate(task.earlyFinish)}</td>
+                      <td className="py-2 pr-4">{formatDate(task.lateStart)}</td>
+                      <td className="py-2 pr-4">{formatDate(task.lateFinish)}</td>
+                      <td className="py-2 text-right">{task.totalFloatDays} d</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {schedule.unscheduledTaskIds.length > 0 && (
+              <p className="text-xs text-slate-500">
+                {schedule.unscheduledTaskIds.length} task(s) without dates are not part of the schedule.
+              </p>
+            )}
+          </>
+        )}
+
+        <Dialog open={sourceTaskId !== null} onOpenChange={(open) => !open && setSourceTaskId(null)}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Shift downstream tasks</DialogTitle>
+              <DialogDescription>
+                These tasks follow "{sourceTaskId !== null ? titleFor(sourceTaskId) : ""}" and will move later to respect
+                their dependency types and lags. Durations are kept.
+              </DialogDescription>
+            </DialogHeader>
+            {isLoadingProposal ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+              </div>
+            ) : !proposal || proposal.changes.length === 0 ? (
+              <p className="text-sm text-slate-500">No tasks need to move.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {proposal.changes.map(change => (
+                  <li key={change.taskId} className="flex justify-between gap-4 border-b pb-2 last:border-0">
+                    <span className="font-medium">{change.title}</span>
+                    <span className="text-slate-600 whitespace-nowrap">
+                      {formatDate(change.currentStartDate)} → {formatDate(change.proposedStartDate)} (+{change.shiftDays} d)
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSourceTaskId(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => sourceTaskId !== null && applyMutation.mutate(sourceTaskId)}
+                disabled={applyMutation.isPending || !proposal || proposal.changes.length === 0}
+              >
+                {applyMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Shift {proposal?.changes.length ?? 0} task(s)
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+// client/src/components/project-details/ProjectChangeOrdersTab.tsx
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import type { ChangeOrderWithLineItems } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FilePlus2, Send, Trash2, AlertTriangle, Receipt, Link as LinkIcon } from "lucide-react";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { CreateChangeOrderDialog } from "./CreateChangeOrderDialog";
+
+interface ProjectChangeOrdersTabProps {
+  projectId: number;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: "bg-slate-100 text-slate-800",
+  sent: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+export function ProjectChangeOrdersTab({ projectId }: ProjectChangeOrdersTabProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ChangeOrderWithLineItems | null>(null);
+  const changeOrdersKey = [`/api/projects/${projectId}/change-orders`];
+
+  const {
+    data: changeOrders = [],
+    isLoading,
+    error,
+  } = useQuery<ChangeOrderWithLineItems[]>({
+    queryKey: changeOrdersKey,
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!projectId,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (changeOrderId: number) => {
+      return apiRequest("POST", `/api/projects/${projectId}/change-orders/${changeOrderId}/send`);
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.emailSent ? "Change Order Sent" : "Email Not Delivered",
+        description: data.message,
+        variant: data.emailSent ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: changeOrdersKey });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to Send Change Order", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (changeOrderId: number) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/change-orders/${changeOrderId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Change Order Deleted" });
+      queryClient.invalidateQueries({ queryKey: changeOrdersKey });
+      setDeleteTarget(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to Delete Change Order", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const copyApprovalLink = async (changeOrder: ChangeOrderWithLineItems) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/change-order/${changeOrder.accessToken}`);
+    toast({ title: "Link Copied", description: "The customer approval link is on your clipboard." });
+  };
+
+  const approvedTotal = changeOrders
+    .filter(co => co.status === "approved")
+    .reduce((sum, co) => sum + parseFloat(co.total), 0);
+  const pendingTotal = changeOrders
+    .filter(co => co.status === "sent")
+    .reduce((sum, co) => sum + parseFloat(co.total), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Change Orders</h2>
+          <p className="text-sm text-muted-foreground">
+            Approved: {formatCurrency(approvedTotal)} · Awaiting customer: {formatCurrency(pendingTotal)}
+          </p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <FilePlus2 className="h-4 w-4 mr-2" /> New Change Order
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>Failed to load change orders.</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      ) : changeOrders.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No change orders yet. Create one when the scope of work changes.
+          </CardContent>
+        </Card>
+      ) : (
+        changeOrders.map((changeOrder) => (
+          <Card key={changeOrder.id}>
+            <CardHeader className="pb-3">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base">
+                    {changeOrder.changeOrderNumber}: {changeOrder.title}
+                  </CardTitle>
+                  <CardDescription>
+                    {changeOrder.lineItems.length} line item{changeOrder.lineItems.length === 1 ? "" : "s"}
+                    {" · "}
+                    {changeOrder.scheduleImpactDays === 0
+                      ? "no schedule impact"
+                      : `${changeOrder.scheduleImpactDays > 0 ? "+" : ""}${changeOrder.scheduleImpactDays} days`}
+                    {changeOrder.sentAt && ` · sent ${format(new Date(changeOrder.sentAt), "MMM d, yyyy")}`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold">{formatCurrency(changeOrder.total)}</span>
+                  <Badge className={STATUS_STYLES[changeOrder.status] ?? STATUS_STYLES.draft}>
+                    {changeOrder.status.charAt(0).toUpperCase() + changeOrder.status.slice(1)}
+                  </Badge>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {changeOrder.respondedAt && (
+                <p className="text-sm text-muted-foreground">
+                  {changeOrder.status === "approved" ? "Approved" : "Declined"} by {changeOrder.respondedByName} on{" "}
+                  {format(new Date(changeOrder.respondedAt), "MMM d, yyyy")}
+                  {changeOrder.responseNotes && ` — "${changeOrder.responseNotes}"`}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {(changeOrder.status === "draft" || changeOrder.status === "sent") && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={sendMutation.isPending}
+                    onClick={() => sendMutation.mutate(changeOrder.id)}
+                  >
+                    <Send className="h-4 w-4 mr-1" />
+                    {changeOrder.status === "sent" ? "Resend" : "Send for Approval"}
+                  </Button>
+                )}
+                {changeOrder.status === "sent" && (
+                  <Button size="sm" variant="ghost" onClick={() => copyApprovalLink(changeOrder)}>
+                    <LinkIcon className="h-4 w-4 mr-1" /> Copy Link
+                  </Button>
+                )}
+                {changeOrder.invoiceId && (
+                  <Button size="sm" variant="ghost" onClick={() => window.open(`/invoices/${changeOrder.invoiceId}/view`, '_blank')}>
+                    <Receipt className="h-4 w-4 mr-1" /> View Invoice
+                  </Button>
+                )}
+                {(changeOrder.status === "draft" || changeOrder.status === "rejected") && (
+                  <Button size="sm" variant="ghost" className="text-red-600" onClick={() => setDeleteTarget(changeOrder)}>
+                    <Trash2 className="h-4 w-4 mr-1" /> Delete
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <CreateChangeOrderDialog isOpen={isCreateOpen} setIsOpen={setIsCreateOpen} projectId={projectId} />
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete change order?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.changeOrderNumber} will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -20,6 +20,8 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth-unified";
+import { RetainageCard } from "./RetainageCard";
 
 interface ProjectFinanceTabProps {
   projectId: number;
@@ -27,7 +29,9 @@ interface ProjectFinanceTabProps {
 
 export function ProjectFinanceTab({ projectId }: ProjectFinanceTabProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
+  const canManageBilling = user?.role === 'admin' || user?.role === 'project_manager';
   const [loadingMilestoneId, setLoadingMilestoneId] = useState<number | null>(null);
 
   const handleViewInvoice = (invoiceId: number) => {
@@ -121,6 +125,7 @@ export function ProjectFinanceTab({ projectId }: ProjectFinanceTabProps) {
       // Always invalidate queries to refresh the UI state
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/milestones`] });
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/invoices`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/retainage`] });
       setLoadingMilestoneId(null);
     },
     onError: (error: any) => {
@@ -282,6 +287,8 @@ export function ProjectFinanceTab({ projectId }: ProjectFinanceTabProps) {
         </CardContent>
       </Card>
 
+      <RetainageCard projectId={projectId} projectStatus={project?.status} canEdit={canManageBilling} />
+
       {/* Milestones Management */}
       <Card>
         <CardHeader>
@@ -385,6 +392,11 @@ export function ProjectFinanceTab({ projectId }: ProjectFinanceTabProps) {
                     <div className="flex items-center gap-4">
                       <div className="text-right">
                         <div className="text-xl font-bold">${parseFloat(invoice.amount).toFixed(2)}</div>
+                        {parseFloat(invoice.retainageAmount || '0') > 0 && (
+                          <div className="text-xs text-amber-700">
+                            ${parseFloat(invoice.retainageAmount).toFixed(2)} retainage held
+                          </div>
+                        )}
                         <div className="text-sm text-gray-500">{invoice.invoiceType}</div>
                       </div>
                       <div className="flex gap-2">
@@ -10,6 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
     Table,
     TableBody,
@@ -42,6 +43,7 @@ import { formatDate, cn } from "@/lib/utils";
 import { CreatePunchListItemDialog } from "./CreatePunchListItemDialog"; // Assuming dialog components exist and are imported correctly
 import { EditPunchListItemDialog } from "./EditPunchListItemDialog"; // Assuming dialog components exist and are imported correctly
 import { PhotoViewerDialog } from './PhotoViewerDialog'; // Import PhotoViewerDialog
+import { BulkActionsToolbar } from './BulkActionsToolbar';
 
 // Removed the manual type definition for PunchListItemWithDetails as it's imported from shared/schema now
 // type PunchListItemWithDetails = PunchListItem & {
@@ -87,6 +89,8 @@ export function ProjectPunchListTab({ projectId }: ProjectPunchListTabProps) {
 
   // TODO: Add state for editing item - Corrected to use the existing pattern
    const [editingItem, setEditingItem] = useState<PunchListItemWithDetails | null>(null);
+  // Selected item ids for bulk actions
+  const [selectedItemIds, setSelectedItemIds] = useState<number[]>([]);
 
   // Fetch punch list items for the project
   const punchListQueryKey = [`/api/projects/${projectId}/punch-list`]; // Kept original query key structure
@@ -150,6 +154,14 @@ export function ProjectPunchListTab({ projectId }: ProjectPunchListTabProps) {
        setIsMediaViewerOpen(true); // Open the viewer
   };
 
+  const toggleItemSelection = (itemId: number, checked: boolean) => {
+      setSelectedItemIds(prev => checked ? [...prev, itemId] : prev.filter(id => id !== itemId));
+  };
+
+  const toggleSelectAll = (checked: boolean) => {
+      setSelectedItemIds(checked ? punchListItems.map(item => item.id) : []);
+  };
+
   // Function to close the media viewer
     const handleCloseMediaViewer = () => {
         setIsMediaViewerOpen(false);
@@ -199,11 +211,25 @@ export function ProjectPunchListTab({ projectId }: ProjectPunchListTabProps) {
     }
 
     // --- Render Table of Items --- (Added Media column)
+    const allSelected = punchListItems.every(item => selectedItemIds.includes(item.id));
     return (
       <div className="overflow-x-auto mt-4">
+        <BulkActionsToolbar
+          projectId={projectId}
+          resourceType="punchListItems"
+          selectedIds={selectedItemIds.filter(id => punchListItems.some(item => item.id === id))}
+          onClearSelection={() => setSelectedItemIds([])}
+        />
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+                  aria-label="Select all punch list items"
+                />
+              </TableHead>
               <TableHead className="w-[30%]">Description</TableHead> {/* Adjusted width */}
               <TableHead>Location</TableHead>
               <TableHead>Assignee</TableHead>
@@ -215,7 +241,14 @@ export function ProjectPunchListTab({ projectId }: ProjectPunchListTabProps) {
           </TableHeader>
           <TableBody>
             {punchListItems.map((item) => (
-              <TableRow key={item.id}>
+              <TableRow key={item.id} data-state={selectedItemIds.includes(item.id) ? "selected" : undefined}>
+                <TableCell className="align-top">
+                  <Checkbox
+                    checked={selectedItemIds.includes(item.id)}
+                    onCheckedChange={(checked) => toggleItemSelection(item.id, checked === true)}
+                    aria-label={`Select punch list item ${item.id}`}
+                  />
+                </TableCell>
                 <TableCell className="font-medium align-top">{item.description}</TableCell>
                 <TableCell className="align-top">{item.location || '-'}</TableCell>
                 <TableCell className="align-top">
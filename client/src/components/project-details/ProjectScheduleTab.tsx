@@ -37,6 +37,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar, CheckCircle2, Loader2, Plus, DollarSign, Edit2 } from "lucide-react"; // Removed ClockIcon, AlertTriangle (now in utils)
 // ADDED: Import centralized helpers
 import { formatDate, getMilestoneBadge, getMilestoneVisuals } from "@/lib/utils";
+import { CriticalPathPanel } from "./CriticalPathPanel";
+import { WorkCalendarCard } from "@/components/WorkCalendarCard";
 
 interface ProjectScheduleTabProps {
   projectId: number;
@@ -358,6 +360,9 @@ export function ProjectScheduleTab({ projectId }: ProjectScheduleTabProps) {
   );
 
   return (
+    <div className="space-y-6">
+    {isAdmin && <CriticalPathPanel projectId={projectId} canReschedule={isAdmin} />}
+    {isAdmin && <WorkCalendarCard projectId={projectId} canEdit={isAdmin} />}
     <Card>
       <CardHeader>
         <div className="flex justify-between items-center">
@@ -500,5 +505,6 @@ export function ProjectScheduleTab({ projectId }: ProjectScheduleTabProps) {
         />
       </CardContent>
     </Card>
+    </div>
   );
 }
\ No newline at end of file
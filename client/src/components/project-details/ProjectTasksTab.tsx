@@ -1,12 +1,22 @@
 // client/src/components/project-details/ProjectTasksTab.tsx
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useState } from 'react';
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { getQueryFn } from "@/lib/queryClient";
 import type { Task as ApiTask, InsertTask, TaskDependency, User } from "@shared/schema";
+import type { WorkCalendarRules } from "@shared/work-calendar";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
 import {
     AlertDialog,
     AlertDialogAction,
@@ -26,6 +36,8 @@ import { Progress } from "@/components/ui/progress";
 import { CreateTaskDialog } from "./CreateTaskDialog";
 import { EditTaskDialog } from "./EditTaskDialog";
 import { TaskBillingActions } from "./TaskBillingActions";
+import { BulkActionsToolbar } from "./BulkActionsToolbar";
+import { formatDate } from "@/lib/utils";
 
 // --- NEW LIBRARY IMPORTS ---
 import { Gantt, Task, EventOption, StylingOption, ViewMode, DisplayOption } from 'gantt-task-react';
@@ -33,7 +45,7 @@ import "gantt-task-react/dist/index.css"; // Import the CSS for the new library
 // --- END NEW LIBRARY IMPORTS ---
 
 // Import the updated utility function
-import { formatTasksForGanttReact } from "@/lib/gantt-utils"; // Use the function adapted for gantt-task-react
+import { formatTasksForGanttReact, snapGanttDatesToCalendar } from "@/lib/gantt-utils"; // Use the function adapted for gantt-task-react
 
 // Import task dialogs including the import dialog
 import { ImportTasksDialog } from "./ImportTasksDialog";
@@ -51,6 +63,11 @@ interface ProjectTasksTabProps {
 // Type alias for the new library's Task type for clarity
 type GanttReactTask = Task;
 
+// Tasks endpoint joins the assignee
+type TaskWithAssignee = ApiTask & {
+  assignee?: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+};
+
 export function ProjectTasksTab({ projectId, user, project }: ProjectTasksTabProps) {
   // Fetch tasks and dependencies (remains the same)
   const tasksQueryKey = [`/api/projects/${projectId}/tasks`];
@@ -62,7 +79,10 @@ export function ProjectTasksTab({ projectId, user, project }: ProjectTasksTabPro
     error: errorTasks,
     isError: isErrorTasks,
     status: tasksStatus
-  } = useQuery<ApiTask[]>({ queryKey: tasksQueryKey, queryFn: getQueryFn({ on401: "throw" }), enabled: !!projectId });
+  } = useQuery<TaskWithAssignee[]>({ queryKey: tasksQueryKey, queryFn: getQueryFn({ on401: "throw" }), enabled: !!projectId });
+
+  // Selected task ids for bulk actions (admin/PM view)
+  const [selectedTaskIds, setSelectedTaskIds] = useState<number[]>([]);
 
   // Fetch dependencies if your formatter uses them (formatTasksForGanttReact currently uses parentId)
   const {
@@ -73,6 +93,13 @@ export function ProjectTasksTab({ projectId, user, project }: ProjectTasksTabPro
       status: depsStatus
   } = useQuery<TaskDependency[]>({ queryKey: dependenciesQueryKey, queryFn: getQueryFn({ on401: "throw" }), enabled: !!projectId && !isLoadingTasks });
 
+  // Working-day rules so dragged bars land on working days
+  const { data: calendar } = useQuery<{ rules: WorkCalendarRules }>({
+      queryKey: [`/api/projects/${projectId}/calendar`],
+      queryFn: getQueryFn({ on401: "throw" }),
+      enabled: !!projectId,
+  });
+
 
   // --- Format tasks using the NEW utility function ---
   const formattedGanttTasks: GanttReactTask[] = useMemo(
@@ -148,15 +175,16 @@ export function ProjectTasksTab({ projectId, user, project }: ProjectTasksTabPro
 
     if (originalTask && (startDateChanged || dueDateChanged)) {
         console.log(`[gantt-task-react] Dates changed for task ${task.id}. Mutating.`);
+        const snapped = snapGanttDatesToCalendar(new Date(task.start), new Date(task.end), calendar?.rules);
         updateTaskDateMutation.mutate({
             taskId: parseInt(task.id, 10), // Convert ID back to number if API expects number
-            startDate: new Date(task.start),
-            dueDate: new Date(task.end),
+            startDate: snapped.start,
+            dueDate: snapped.end,
         });
     } else {
         // console.log(`[gantt-task-react] Dates did not change for task ${task.id}. Skipping mutation.`);
     }
-  }, [tasks, updateTaskDateMutation]); // Include dependencies
+  }, [tasks, updateTaskDateMutation, calendar]); // Include dependencies
 
   /**
    * Handles task deletion triggered by the library's UI (if available).
@@ -556,6 +584,12 @@ export function ProjectTasksTab({ projectId, user, project }: ProjectTasksTabPro
 
     // For admin/PM, render the technical Gantt chart with publishing controls
     const hasPublishedTasks = tasks.some(task => task.publishedAt !== null);
+
+    // Drop selections for tasks that no longer exist (e.g. after a bulk delete)
+    const visibleSelectedTaskIds = selectedTaskIds.filter(id => tasks.some(task => task.id === id));
+    const toggleTaskSelection = (taskId: number, checked: boolean) => {
+        setSelectedTaskIds(prev => checked ? [...prev, taskId] : prev.filter(id => id !== taskId));
+    };
         
     return (
         <div className="space-y-4">
@@ -729,6 +763,70 @@ export function ProjectTasksTab({ projectId, user, project }: ProjectTasksTabPro
                      <div>🖱️ <strong>Drag</strong> task bars to adjust dates • <strong>Drag</strong> progress handles to update completion</div>
                  </div>
             </div>
+
+            {/* Bulk Edit */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Bulk Edit</CardTitle>
+                <CardDescription>
+                  Select tasks to reassign, reschedule, publish or delete them together. Changes apply to all selected tasks or none.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BulkActionsToolbar
+                  projectId={projectId}
+                  resourceType="tasks"
+                  selectedIds={visibleSelectedTaskIds}
+                  onClearSelection={() => setSelectedTaskIds([])}
+                />
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[40px]">
+                          <Checkbox
+                            checked={tasks.length > 0 && visibleSelectedTaskIds.length === tasks.length}
+                            onCheckedChange={(checked) => setSelectedTaskIds(checked === true ? tasks.map(task => task.id) : [])}
+                            aria-label="Select all tasks"
+                          />
+                        </TableHead>
+                        <TableHead>Task</TableHead>
+                        <TableHead>Assignee</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Priority</TableHead>
+                        <TableHead>Start</TableHead>
+                        <TableHead>Due</TableHead>
+                        <TableHead>Published</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {tasks.map(task => (
+                        <TableRow key={task.id} data-state={selectedTaskIds.includes(task.id) ? "selected" : undefined}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedTaskIds.includes(task.id)}
+                              onCheckedChange={(checked) => toggleTaskSelection(task.id, checked === true)}
+                              aria-label={`Select task ${task.title}`}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{task.title}</TableCell>
+                          <TableCell>
+                            {task.assignee ? `${task.assignee.firstName} ${task.assignee.lastName}` : 'Unassigned'}
+                          </TableCell>
+                          <TableCell className="capitalize">{task.status.replace('_', ' ')}</TableCell>
+                          <TableCell className="capitalize">{task.priority || '-'}</TableCell>
+                          <TableCell>{task.startDate ? formatDate(task.startDate, "P") : '-'}</TableCell>
+                          <TableCell>{task.dueDate ? formatDate(task.dueDate, "P") : '-'}</TableCell>
+                          <TableCell>
+                            {task.publishedAt ? <Eye className="h-4 w-4 text-green-600" /> : <EyeOff className="h-4 w-4 text-slate-400" />}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
         </div>
     );
   };
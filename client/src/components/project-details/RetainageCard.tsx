@@ -0,0 +1,161 @@
+// client/src/components/project-details/RetainageCard.tsx
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import type { Invoice } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, PiggyBank, Receipt, Save } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+
+// Response shape of GET /api/projects/:projectId/retainage
+type RetainageSummary = {
+  percentage: number;
+  withheld: number;
+  released: number;
+  balance: number;
+  releaseInvoices: Invoice[];
+};
+
+interface RetainageCardProps {
+  projectId: number;
+  projectStatus?: string;
+  canEdit: boolean;
+}
+
+export function RetainageCard({ projectId, projectStatus, canEdit }: RetainageCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const baseUrl = `/api/projects/${projectId}/retainage`;
+
+  const { data: summary, isLoading } = useQuery<RetainageSummary>({
+    queryKey: [baseUrl],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const [percentage, setPercentage] = useState("0");
+
+  useEffect(() => {
+    if (summary) {
+      setPercentage(String(summary.percentage));
+    }
+  }, [summary?.percentage]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", baseUrl, { percentage: parseFloat(percentage) || 0 });
+    },
+    onSuccess: () => {
+      toast({ title: "Retainage Updated", description: "New milestone invoices will withhold this percentage." });
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to Update Retainage", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `${baseUrl}/release`, {});
+    },
+    onSuccess: (invoice: Invoice) => {
+      toast({ title: "Release Invoice Created", description: `Draft invoice #${invoice.invoiceNumber} bills back the held retainage.` });
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/invoices`] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to Release Retainage", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const isCompleted = projectStatus === "completed";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PiggyBank className="h-5 w-5" />
+          Retainage
+        </CardTitle>
+        <CardDescription>
+          A share of each milestone invoice is held back and billed on a release invoice at closeout.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !summary ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="text-center p-4 bg-slate-50 rounded-lg border">
+                <div className="text-2xl font-bold text-slate-700">{formatCurrency(summary.withheld)}</div>
+                <div className="text-sm text-slate-600">Withheld to Date</div>
+              </div>
+              <div className="text-center p-4 bg-green-50 rounded-lg border">
+                <div className="text-2xl font-bold text-green-700">{formatCurrency(summary.released)}</div>
+                <div className="text-sm text-green-600">Released</div>
+              </div>
+              <div className="text-center p-4 bg-amber-50 rounded-lg border">
+                <div className="text-2xl font-bold text-amber-700">{formatCurrency(summary.balance)}</div>
+                <div className="text-sm text-amber-600">Retainage Balance</div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div className="flex items-end gap-2">
+                <div>
+                  <Label htmlFor="retainagePercentage">Retainage per invoice (%)</Label>
+                  <Input
+                    id="retainagePercentage"
+                    type="number"
+                    min="0"
+                    max="25"
+                    step="0.5"
+                    className="w-28"
+                    value={percentage}
+                    disabled={!canEdit}
+                    onChange={(e) => setPercentage(e.target.value)}
+                  />
+                </div>
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => saveMutation.mutate()}
+                    disabled={saveMutation.isPending || parseFloat(percentage) === summary.percentage}
+                  >
+                    {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save
+                  </Button>
+                )}
+              </div>
+
+              {canEdit && summary.balance > 0 && (
+                <div className="text-right space-y-1">
+                  <Button
+                    size="sm"
+                    onClick={() => releaseMutation.mutate()}
+                    disabled={!isCompleted || releaseMutation.isPending}
+                    className="gap-1"
+                  >
+                    <Receipt className="h-4 w-4" />
+                    {releaseMutation.isPending ? "Creating..." : `Release ${formatCurrency(summary.balance)}`}
+                  </Button>
+                  {!isCompleted && (
+                    <p className="text-xs text-slate-500">Available once the project is completed.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -38,6 +38,8 @@ export function PaymentStatusColumn({ project, onTriggerMilestone }: PaymentStat
   };
 
   const getNextPaymentAction = () => {
+    // Billing stops once a project is archived
+    if (project.status === 'archived') return null;
     if (paymentStatus.finalPaid) return null;
     
     if (paymentStatus.milestonePaid && !paymentStatus.finalPaid) {
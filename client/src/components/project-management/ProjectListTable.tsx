@@ -9,7 +9,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Loader2, PencilIcon, Trash2 } from "lucide-react";
+import { Archive, ArchiveRestore, Loader2, PencilIcon, Trash2 } from "lucide-react";
 // REMOVED: format import from date-fns (not used here)
 // ADDED Imports from utils
 import { getProjectStatusLabel, getProjectStatusBadgeClasses } from "@/lib/utils";
@@ -22,6 +22,8 @@ interface ProjectListTableProps {
   onEditProject: (project: Project) => void;
   onDeleteProject: (project: Project) => void;
   onTriggerMilestone?: (projectId: number, paymentType: 'milestone' | 'final') => void;
+  onArchiveProject?: (project: Project) => void;
+  onRestoreProject?: (project: Project) => void;
 }
 
 // REMOVED: Local getStatusLabel helper function
@@ -35,6 +37,8 @@ export function ProjectListTable({
   onEditProject,
   onDeleteProject,
   onTriggerMilestone,
+  onArchiveProject,
+  onRestoreProject,
 }: ProjectListTableProps) {
   if (isLoading) {
     return (
@@ -94,15 +98,42 @@ export function ProjectListTable({
                 </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end gap-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => onEditProject(project)}
-                      className="gap-1"
-                    >
-                      <PencilIcon className="h-3.5 w-3.5" />
-                      Edit
-                    </Button>
+                    {project.status === 'archived' ? (
+                      onRestoreProject && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onRestoreProject(project)}
+                          className="gap-1"
+                        >
+                          <ArchiveRestore className="h-3.5 w-3.5" />
+                          Restore
+                        </Button>
+                      )
+                    ) : (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onEditProject(project)}
+                          className="gap-1"
+                        >
+                          <PencilIcon className="h-3.5 w-3.5" />
+                          Edit
+                        </Button>
+                        {onArchiveProject && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onArchiveProject(project)}
+                            className="gap-1"
+                          >
+                            <Archive className="h-3.5 w-3.5" />
+                            Archive
+                          </Button>
+                        )}
+                      </>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
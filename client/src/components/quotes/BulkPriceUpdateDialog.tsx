@@ -0,0 +1,152 @@
+// client/src/components/quotes/BulkPriceUpdateDialog.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+const SELECTED_ITEMS = "__selected__";
+const ALL_ITEMS = "__all__";
+
+interface BulkPriceUpdateDialogProps {
+  selectedIds: number[];
+  categories: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated?: () => void;
+}
+
+/** Reprices active catalog items by a percentage and/or sets their markup in one step. */
+export function BulkPriceUpdateDialog({ selectedIds, categories, open, onOpenChange, onUpdated }: BulkPriceUpdateDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState(ALL_ITEMS);
+  const [pricePercentage, setPricePercentage] = useState("");
+  const [markupPercentage, setMarkupPercentage] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setScope(selectedIds.length > 0 ? SELECTED_ITEMS : ALL_ITEMS);
+    setPricePercentage("");
+    setMarkupPercentage("");
+  }, [open, selectedIds.length]);
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/cost-catalog/bulk-price-update", {
+        itemIds: scope === SELECTED_ITEMS ? selectedIds : undefined,
+        category: scope !== SELECTED_ITEMS && scope !== ALL_ITEMS ? scope : undefined,
+        pricePercentage: pricePercentage !== "" ? parseFloat(pricePercentage) : undefined,
+        markupPercentage: markupPercentage !== "" ? parseFloat(markupPercentage) : undefined,
+      });
+    },
+    onSuccess: (result: { updated: number }) => {
+      toast({
+        title: "Prices Updated",
+        description: `${result.updated} catalog item(s) were updated`,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/cost-catalog"),
+      });
+      onUpdated?.();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update prices",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasChange = pricePercentage !== "" || markupPercentage !== "";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Bulk Price Update</DialogTitle>
+          <DialogDescription>
+            Adjust costs by a percentage (e.g. 5 for a 5% supplier increase, -3 for a decrease) and/or set a new markup.
+            Retired items are not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Apply to</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedIds.length > 0 && (
+                  <SelectItem value={SELECTED_ITEMS}>Selected items ({selectedIds.length})</SelectItem>
+                )}
+                <SelectItem value={ALL_ITEMS}>All active items</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category} value={category}>Category: {category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-price-percentage">Cost change (%)</Label>
+              <Input
+                id="bulk-price-percentage"
+                type="number"
+                step="0.01"
+                placeholder="No change"
+                value={pricePercentage}
+                onChange={(e) => setPricePercentage(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-markup-percentage">New markup (%)</Label>
+              <Input
+                id="bulk-markup-percentage"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No change"
+                value={markupPercentage}
+                onChange={(e) => setMarkupPercentage(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => updateMutation.mutate()} disabled={!hasChange || updateMutation.isPending}>
+            {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Update Prices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
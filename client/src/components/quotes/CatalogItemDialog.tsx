@@ -0,0 +1,215 @@
+// client/src/components/quotes/CatalogItemDialog.tsx
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import type { CostCatalogItem } from "@shared/schema";
+import { catalogSellPrice } from "@shared/cost-catalog";
+
+const catalogItemFormSchema = z.object({
+  category: z.string().trim().min(1, "Category is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  unit: z.string().trim().min(1, "Unit is required"),
+  defaultUnitPrice: z.string().min(1, "Cost is required"),
+  markupPercentage: z.string().default("0"),
+});
+
+type CatalogItemForm = z.infer<typeof catalogItemFormSchema>;
+
+interface CatalogItemDialogProps {
+  item: CostCatalogItem | null; // null creates a new item
+  categories: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CatalogItemDialog({ item, categories, open, onOpenChange }: CatalogItemDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<CatalogItemForm>({
+    resolver: zodResolver(catalogItemFormSchema),
+    defaultValues: {
+      category: "",
+      description: "",
+      unit: "each",
+      defaultUnitPrice: "",
+      markupPercentage: "0",
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(item
+      ? {
+          category: item.category,
+          description: item.description,
+          unit: item.unit,
+          defaultUnitPrice: item.defaultUnitPrice,
+          markupPercentage: item.markupPercentage,
+        }
+      : { category: "", description: "", unit: "each", defaultUnitPrice: "", markupPercentage: "0" });
+  }, [open, item, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CatalogItemForm) => {
+      const body = {
+        ...data,
+        defaultUnitPrice: parseFloat(data.defaultUnitPrice),
+        markupPercentage: parseFloat(data.markupPercentage || "0"),
+      };
+      return item
+        ? await apiRequest("PATCH", `/api/cost-catalog/${item.id}`, body)
+        : await apiRequest("POST", "/api/cost-catalog", body);
+    },
+    onSuccess: () => {
+      toast({
+        title: item ? "Catalog Item Updated" : "Catalog Item Added",
+        description: "The cost catalog has been updated",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/cost-catalog"),
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save catalog item",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cost = form.watch("defaultUnitPrice");
+  const markup = form.watch("markupPercentage");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{item ? "Edit Catalog Item" : "Add Catalog Item"}</DialogTitle>
+          <DialogDescription>
+            Store your cost; the markup sets the price quoted to customers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <FormControl>
+                    <Input list="catalog-categories" placeholder="e.g., Plumbing" {...field} />
+                  </FormControl>
+                  <datalist id="catalog-categories">
+                    {categories.map((category) => (
+                      <option key={category} value={category} />
+                    ))}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Install standard toilet" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit</FormLabel>
+                    <FormControl>
+                      <Input placeholder="each" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="defaultUnitPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit Cost ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="markupPercentage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Markup (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormDescription>
+              Quoted price: {formatCurrency(catalogSellPrice(cost || 0, markup || 0))} per unit
+            </FormDescription>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {item ? "Save Changes" : "Add Item"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+// client/src/components/quotes/CatalogItemPicker.tsx
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import type { CostCatalogItem } from "@shared/schema";
+import { catalogSellPrice } from "@shared/cost-catalog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatCurrency } from "@/lib/utils";
+
+interface CatalogItemPickerProps {
+  // Receives the item and its quoted unit price (cost plus markup)
+  onSelect: (item: CostCatalogItem, unitPrice: number) => void;
+  disabled?: boolean;
+}
+
+/** Fills a line item from the company cost catalog. Renders nothing while the catalog is empty. */
+export function CatalogItemPicker({ onSelect, disabled }: CatalogItemPickerProps) {
+  const { data: items = [] } = useQuery<CostCatalogItem[]>({
+    queryKey: ["/api/cost-catalog"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  if (items.length === 0) return null;
+
+  const byCategory = items.reduce<Record<string, CostCatalogItem[]>>((groups, item) => {
+    if (!groups[item.category]) groups[item.category] = [];
+    groups[item.category].push(item);
+    return groups;
+  }, {});
+
+  return (
+    <Select
+      value=""
+      disabled={disabled}
+      onValueChange={(value) => {
+        const item = items.find((candidate) => candidate.id === Number(value));
+        if (item) onSelect(item, catalogSellPrice(item.defaultUnitPrice, item.markupPercentage));
+      }}
+    >
+      <SelectTrigger data-testid="select-catalog-item">
+        <SelectValue placeholder="Add from cost catalog..." />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(byCategory).map(([category, categoryItems]) => (
+          <SelectGroup key={category}>
+            <SelectLabel>{category}</SelectLabel>
+            {categoryItems.map((item) => (
+              <SelectItem key={item.id} value={String(item.id)}>
+                {item.description} — {formatCurrency(catalogSellPrice(item.defaultUnitPrice, item.markupPercentage))} / {item.unit}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -30,6 +30,9 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { CatalogItemPicker } from "./CatalogItemPicker";
+import { LineItemOptionFields, lineItemOptionFields, refineLineItemOptions } from "./LineItemOptionFields";
+import { LineItemCostFields, lineItemCostFields, lineItemCostPayload } from "./LineItemCostFields";
 
 const createLineItemSchema = z.object({
   category: z.string().min(1, "Category is required"),
@@ -39,7 +42,9 @@ const createLineItemSchema = z.object({
   unitPrice: z.string().min(1, "Unit price is required"),
   discountPercentage: z.string().optional().default("0"),
   discountAmount: z.string().optional().default("0"),
-});
+  ...lineItemCostFields,
+  ...lineItemOptionFields,
+}).superRefine(refineLineItemOptions);
 
 type CreateLineItemForm = z.infer<typeof createLineItemSchema>;
 
@@ -63,6 +68,11 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
       unitPrice: "",
       discountPercentage: "0",
       discountAmount: "0",
+      unitCost: "",
+      markupPercentage: "",
+      selectionType: "required",
+      optionGroup: "",
+      isDefaultSelected: true,
     },
   });
 
@@ -93,6 +103,9 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
         discountPercentage: discountPercentage.toString(),
         discountAmount: discount.toString(),
         totalPrice: totalPrice.toString(),
+        ...lineItemCostPayload(data),
+        optionGroup: data.selectionType === "required" ? null : data.optionGroup?.trim() || null,
+        isDefaultSelected: data.selectionType === "required" || data.isDefaultSelected,
       });
     },
     onSuccess: () => {
@@ -119,7 +132,7 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
     createLineItemMutation.mutate(data);
   };
 
-  const categories = [
+  const baseCategories = [
     "Materials",
     "Labor",
     "Equipment",
@@ -138,7 +151,7 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
     "Other"
   ];
 
-  const units = [
+  const baseUnits = [
     "each",
     "sq ft",
     "linear ft",
@@ -155,9 +168,17 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
     "case"
   ];
 
+  // Catalog items may use a category or unit outside the default lists
+  const selectedCategory = form.watch("category");
+  const selectedUnit = form.watch("unit");
+  const categories = selectedCategory && !baseCategories.includes(selectedCategory)
+    ? [...baseCategories, selectedCategory]
+    : baseCategories;
+  const units = selectedUnit && !baseUnits.includes(selectedUnit) ? [...baseUnits, selectedUnit] : baseUnits;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add Line Item</DialogTitle>
           <DialogDescription>
@@ -167,13 +188,24 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <CatalogItemPicker
+              onSelect={(item, unitPrice) => {
+                form.setValue("category", item.category, { shouldValidate: true });
+                form.setValue("description", item.description, { shouldValidate: true });
+                form.setValue("unit", item.unit, { shouldValidate: true });
+                form.setValue("unitPrice", unitPrice.toFixed(2), { shouldValidate: true });
+                form.setValue("unitCost", item.defaultUnitPrice);
+                form.setValue("markupPercentage", item.markupPercentage);
+              }}
+            />
+
             <FormField
               control={form.control}
               name="category"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Category</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select category" />
@@ -235,7 +267,7 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Unit</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select unit" />
@@ -274,6 +306,8 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
               )}
             />
 
+            <LineItemCostFields form={form} />
+
             {/* Discount Section */}
             <div className="space-y-4">
               <div className="text-sm font-medium text-gray-700">Discount (Optional)</div>
@@ -324,6 +358,8 @@ export function CreateLineItemDialog({ quoteId, open, onOpenChange }: CreateLine
               </div>
             </div>
 
+            <LineItemOptionFields form={form} />
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button
                 type="button"
@@ -29,7 +29,9 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { QuoteLineItem } from "@shared/schema";
+import { QuoteLineItem, type QuoteLineItemSelectionType } from "@shared/schema";
+import { LineItemOptionFields, lineItemOptionFields, refineLineItemOptions } from "./LineItemOptionFields";
+import { LineItemCostFields, lineItemCostFields, lineItemCostPayload } from "./LineItemCostFields";
 
 const editLineItemSchema = z.object({
   category: z.string().min(1, "Category is required"),
@@ -39,7 +41,9 @@ const editLineItemSchema = z.object({
   unitPrice: z.string().min(1, "Unit price is required"),
   discountPercentage: z.string().optional(),
   discountAmount: z.string().optional(),
-});
+  ...lineItemCostFields,
+  ...lineItemOptionFields,
+}).superRefine(refineLineItemOptions);
 
 type EditLineItemForm = z.infer<typeof editLineItemSchema>;
 
@@ -63,6 +67,11 @@ export function EditLineItemDialog({ lineItem, open, onOpenChange }: EditLineIte
       unitPrice: lineItem.unitPrice.toString(),
       discountPercentage: lineItem.discountPercentage?.toString() || "0",
       discountAmount: lineItem.discountAmount?.toString() || "0",
+      unitCost: lineItem.unitCost ?? "",
+      markupPercentage: lineItem.markupPercentage ?? "",
+      selectionType: (lineItem.selectionType ?? "required") as QuoteLineItemSelectionType,
+      optionGroup: lineItem.optionGroup || "",
+      isDefaultSelected: lineItem.isDefaultSelected ?? true,
     },
   });
 
@@ -93,6 +102,9 @@ export function EditLineItemDialog({ lineItem, open, onOpenChange }: EditLineIte
         discountPercentage: discountPercentage.toString(),
         discountAmount: discount.toString(),
         totalPrice: totalPrice.toString(),
+        ...lineItemCostPayload(data),
+        optionGroup: data.selectionType === "required" ? null : data.optionGroup?.trim() || null,
+        isDefaultSelected: data.selectionType === "required" || data.isDefaultSelected,
       });
     },
     onSuccess: () => {
@@ -156,7 +168,7 @@ export function EditLineItemDialog({ lineItem, open, onOpenChange }: EditLineIte
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Line Item</DialogTitle>
           <DialogDescription>
@@ -273,6 +285,8 @@ export function EditLineItemDialog({ lineItem, open, onOpenChange }: EditLineIte
               )}
             />
 
+            <LineItemCostFields form={form} />
+
             {/* Discount Section */}
             <div className="space-y-4">
               <h4 className="text-sm font-medium text-gray-700">Item Discount (Optional)</h4>
@@ -323,6 +337,8 @@ export function EditLineItemDialog({ lineItem, open, onOpenChange }: EditLineIte
               </div>
             </div>
 
+            <LineItemOptionFields form={form} />
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button
                 type="button"
@@ -0,0 +1,115 @@
+import { UseFormReturn, Path, PathValue } from "react-hook-form";
+import { z } from "zod";
+import { catalogSellPrice } from "@shared/cost-catalog";
+import { impliedMarkupPercentage } from "@shared/quote-margins";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+// Spread into a line item form schema alongside unitPrice
+export const lineItemCostFields = {
+  unitCost: z.string().optional(),
+  markupPercentage: z.string().optional(),
+};
+
+export type LineItemCostValues = {
+  unitPrice: string;
+  unitCost?: string;
+  markupPercentage?: string;
+};
+
+/**
+ * Costing sent with a line item. The markup is taken from the price actually quoted, so it stays
+ * right when the unit price is edited by hand; a blank cost leaves the item uncosted.
+ */
+export function lineItemCostPayload(values: LineItemCostValues) {
+  const unitCost = values.unitCost?.trim() ? parseFloat(values.unitCost) : null;
+  if (unitCost === null || isNaN(unitCost)) {
+    return { unitCost: null, markupPercentage: null };
+  }
+  const markup = impliedMarkupPercentage(unitCost, values.unitPrice || "0");
+  return { unitCost: unitCost.toFixed(2), markupPercentage: markup !== null ? markup.toFixed(2) : null };
+}
+
+export function LineItemCostFields<T extends LineItemCostValues>({ form }: { form: UseFormReturn<T> }) {
+  const unitCost = form.watch("unitCost" as Path<T>) as string | undefined;
+  const unitPrice = form.watch("unitPrice" as Path<T>) as string;
+
+  // Cost plus markup sets the unit price; the price can still be overridden afterwards
+  const repriceFrom = (cost: string | undefined, markup: string | undefined) => {
+    if (!cost?.trim() || isNaN(parseFloat(cost))) return;
+    const price = catalogSellPrice(cost, markup).toFixed(2);
+    form.setValue("unitPrice" as Path<T>, price as PathValue<T, Path<T>>, { shouldValidate: true });
+  };
+
+  const cost = parseFloat(unitCost || "");
+  const price = parseFloat(unitPrice || "");
+  const unitMargin = cost >= 0 && price > 0 ? ((price - cost) / price) * 100 : null;
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-3">
+      <div className="text-sm font-medium text-gray-700">Internal Costing</div>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name={"unitCost" as Path<T>}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Unit Cost ($)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Not costed"
+                  {...field}
+                  value={(field.value as string) ?? ""}
+                  onChange={(e) => {
+                    field.onChange(e);
+                    repriceFrom(e.target.value, form.getValues("markupPercentage" as Path<T>) as string | undefined);
+                  }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name={"markupPercentage" as Path<T>}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Markup (%)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0"
+                  {...field}
+                  value={(field.value as string) ?? ""}
+                  onChange={(e) => {
+                    field.onChange(e);
+                    repriceFrom(form.getValues("unitCost" as Path<T>) as string | undefined, e.target.value);
+                  }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {unitMargin !== null
+          ? `${unitMargin.toFixed(1)}% margin per unit. Never shown to the customer.`
+          : "Sets the unit price from cost plus markup. Never shown to the customer."}
+      </p>
+    </div>
+  );
+}
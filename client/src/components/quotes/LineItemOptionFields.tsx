@@ -0,0 +1,127 @@
+import { UseFormReturn, Path } from "react-hook-form";
+import { z } from "zod";
+import { QUOTE_LINE_ITEM_SELECTION_TYPES, type QuoteLineItemSelectionType } from "@shared/schema";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const SELECTION_TYPE_LABELS: Record<QuoteLineItemSelectionType, string> = {
+  required: "Required",
+  optional: "Optional add-on",
+  alternate: "Alternate",
+};
+
+// Spread into a line item form schema, then refine it with refineLineItemOptions
+export const lineItemOptionFields = {
+  selectionType: z.enum(QUOTE_LINE_ITEM_SELECTION_TYPES),
+  optionGroup: z.string().optional(),
+  isDefaultSelected: z.boolean(),
+};
+
+export type LineItemOptionValues = {
+  selectionType: QuoteLineItemSelectionType;
+  optionGroup?: string;
+  isDefaultSelected: boolean;
+};
+
+export function refineLineItemOptions(values: LineItemOptionValues, ctx: z.RefinementCtx) {
+  if (values.selectionType === "alternate" && !values.optionGroup?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["optionGroup"],
+      message: "Alternates need a group, e.g. \"Countertop\"",
+    });
+  }
+}
+
+export function LineItemOptionFields<T extends LineItemOptionValues>({ form }: { form: UseFormReturn<T> }) {
+  const selectionType = form.watch("selectionType" as Path<T>) as QuoteLineItemSelectionType;
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name={"selectionType" as Path<T>}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Customer Choice</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value as string}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {QUOTE_LINE_ITEM_SELECTION_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {SELECTION_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {selectionType !== "required" && (
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name={"optionGroup" as Path<T>}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Option Group</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder={selectionType === "alternate" ? "e.g. Countertop" : "Optional"}
+                    {...field}
+                    value={(field.value as string) ?? ""}
+                  />
+                </FormControl>
+                <FormDescription className="text-xs">
+                  {selectionType === "alternate"
+                    ? "The customer picks one item per group"
+                    : "Items in a group are added together"}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name={"isDefaultSelected" as Path<T>}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Included in Quoted Total</FormLabel>
+                <FormControl>
+                  <div className="pt-2">
+                    <Switch checked={field.value as boolean} onCheckedChange={field.onChange} />
+                  </div>
+                </FormControl>
+                <FormDescription className="text-xs">
+                  {selectionType === "alternate" ? "The default pick in its group" : "Pre-selected for the customer"}
+                </FormDescription>
+              </FormItem>
+            )}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,13 +27,18 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { formatDate, formatCurrency } from "@/lib/utils";
-import { QuoteWithDetails, QuoteLineItem } from "@shared/schema";
+import { QuoteWithDetails, QuoteLineItem, type QuoteLineItemSelectionType } from "@shared/schema";
 import { CreateLineItemDialog } from "./CreateLineItemDialog";
 import { EditLineItemDialog } from "./EditLineItemDialog";
 import { QuoteFinancialsDialog } from "./QuoteFinancialsDialog";
 import { EditQuoteDetailsDialog } from "./EditQuoteDetailsDialog";
 import { QuoteImageManager } from "./QuoteImageManager";
 import { QuotePhotoGallery } from "./QuotePhotoGallery";
+import { QuoteRevisionsCard } from "./QuoteRevisionsCard";
+import { QuoteSignatureCard } from "./QuoteSignatureCard";
+import { QuoteFollowUpsCard } from "./QuoteFollowUpsCard";
+import { SELECTION_TYPE_LABELS } from "./LineItemOptionFields";
+import { lineItemMargin } from "@shared/quote-margins";
 
 interface QuoteDetailsDialogProps {
   quote: QuoteWithDetails;
@@ -293,7 +298,26 @@ export function QuoteDetailsDialog({ quote, open, onOpenChange }: QuoteDetailsDi
                       {lineItems.map((item) => (
                         <TableRow key={item.id}>
                           <TableCell className="font-medium">{item.category}</TableCell>
-                          <TableCell>{item.description}</TableCell>
+                          <TableCell>
+                            {item.description}
+                            {item.selectionType !== "required" && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                <Badge variant="outline" className="text-xs">
+                                  {SELECTION_TYPE_LABELS[item.selectionType as QuoteLineItemSelectionType]}
+                                  {item.optionGroup ? ` · ${item.optionGroup}` : ""}
+                                </Badge>
+                                {currentQuote.selectedLineItemIds ? (
+                                  currentQuote.selectedLineItemIds.includes(item.id) ? (
+                                    <Badge className="text-xs bg-green-100 text-green-800 hover:bg-green-100">Chosen by customer</Badge>
+                                  ) : (
+                                    <Badge variant="secondary" className="text-xs">Not chosen</Badge>
+                                  )
+                                ) : !item.isDefaultSelected && (
+                                  <Badge variant="secondary" className="text-xs">Not in quoted total</Badge>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
                           <TableCell>
                             {parseFloat(item.quantity.toString())} {item.unit}
                           </TableCell>
@@ -311,7 +335,10 @@ export function QuoteDetailsDialog({ quote, open, onOpenChange }: QuoteDetailsDi
                               <span className="text-gray-400">—</span>
                             )}
                           </TableCell>
-                          <TableCell>{formatCurrency(item.totalPrice)}</TableCell>
+                          <TableCell>
+                            {formatCurrency(item.totalPrice)}
+                            <LineItemMarginNote item={item} />
+                          </TableCell>
                           <TableCell>
                             <div className="flex gap-2">
                               <Button
@@ -431,6 +458,12 @@ export function QuoteDetailsDialog({ quote, open, onOpenChange }: QuoteDetailsDi
               </CardContent>
             </Card>
 
+            <QuoteSignatureCard quoteId={currentQuote.id} />
+
+            <QuoteRevisionsCard quoteId={currentQuote.id} />
+
+            <QuoteFollowUpsCard quoteId={currentQuote.id} />
+
             {/* Quote Chat */}
             <Card>
               <CardHeader>
@@ -516,4 +549,16 @@ export function QuoteDetailsDialog({ quote, open, onOpenChange }: QuoteDetailsDi
       />
     </>
   );
-}
\ No newline at end of file
+}
+
+// Internal cost and margin under the line total; uncosted items show nothing
+function LineItemMarginNote({ item }: { item: QuoteLineItem }) {
+  const margin = lineItemMargin(item);
+  if (!margin || margin.marginPercentage === null) return null;
+
+  return (
+    <div className="text-xs text-gray-500" title="Internal; not shown to the customer">
+      Cost {formatCurrency(margin.cost)} · {margin.marginPercentage.toFixed(1)}% margin
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import React from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -24,9 +24,26 @@ import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { QuoteWithDetails } from "@shared/schema";
+import { QuoteWithDetails, QUOTE_PAYMENT_STAGE_TYPES } from "@shared/schema";
+import {
+  MAX_PAYMENT_STAGES,
+  QUOTE_PAYMENT_STAGE_LABELS,
+  paymentStagesSchema,
+  resolvePaymentStages,
+  sumStagePercentages,
+} from "@shared/quote-payment-stages";
+import { QuoteMarginSummary } from "./QuoteMarginSummary";
+import { QuoteTaxRateSource } from "./QuoteTaxRateSource";
 
 const updateFinancialsSchema = z.object({
   discountPercentage: z.string().optional(),
@@ -34,18 +51,7 @@ const updateFinancialsSchema = z.object({
   taxRate: z.string().optional(),
   taxAmount: z.string().optional(),
   isManualTax: z.boolean().optional(),
-  downPaymentPercentage: z.string().optional(),
-  milestonePaymentPercentage: z.string().optional(),
-  finalPaymentPercentage: z.string().optional(),
-}).refine((data) => {
-  const down = parseFloat(data.downPaymentPercentage || "0");
-  const milestone = parseFloat(data.milestonePaymentPercentage || "0");
-  const final = parseFloat(data.finalPaymentPercentage || "0");
-  const total = down + milestone + final;
-  return total === 100;
-}, {
-  message: "Payment percentages must add up to exactly 100%",
-  path: ["downPaymentPercentage"]
+  paymentStages: paymentStagesSchema,
 });
 
 type UpdateFinancialsForm = z.infer<typeof updateFinancialsSchema>;
@@ -69,12 +75,16 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
       taxRate: quote.taxRate?.toString() || "10.60",
       taxAmount: quote.taxAmount?.toString() || "0",
       isManualTax: quote.isManualTax || false,
-      downPaymentPercentage: quote.downPaymentPercentage?.toString() || "40",
-      milestonePaymentPercentage: quote.milestonePaymentPercentage?.toString() || "40",
-      finalPaymentPercentage: quote.finalPaymentPercentage?.toString() || "20",
+      paymentStages: resolvePaymentStages(quote),
     },
   });
 
+  const stageFields = useFieldArray({ control: form.control, name: "paymentStages" });
+  const watchedStages = form.watch("paymentStages") || [];
+  const stageTotal = sumStagePercentages(watchedStages);
+  const quoteTotal = parseFloat(quote.total?.toString() || "0");
+  const stagesError = form.formState.errors.paymentStages;
+
   // Reset form and state when dialog opens or quote changes
   React.useEffect(() => {
     if (open) {
@@ -85,9 +95,7 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
         taxRate: quote.taxRate?.toString() || "10.60",
         taxAmount: quote.taxAmount?.toString() || "0",
         isManualTax: quote.isManualTax || false,
-        downPaymentPercentage: quote.downPaymentPercentage?.toString() || "40",
-        milestonePaymentPercentage: quote.milestonePaymentPercentage?.toString() || "40",
-        finalPaymentPercentage: quote.finalPaymentPercentage?.toString() || "20",
+        paymentStages: resolvePaymentStages(quote),
       });
     }
   }, [open, quote, form]);
@@ -103,6 +111,7 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
       });
       queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
       queryClient.invalidateQueries({ queryKey: [`/api/quotes/${quote.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${quote.id}/margin`] });
       // Update the local quote object to reflect changes immediately
       queryClient.setQueryData([`/api/quotes/${quote.id}`], updatedQuote);
       onOpenChange(false);
@@ -130,8 +139,10 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
     
     // Create a separate mutation for real-time updates that doesn't close the dialog
     try {
+      // The schedule may be mid-edit, so only the tax settings are saved here
+      const { paymentStages: _stages, ...taxSettings } = form.getValues();
       const updatedQuote = await apiRequest(`/api/quotes/${quote.id}/financials`, 'PATCH', {
-        ...form.getValues(),
+        ...taxSettings,
         isManualTax: checked,
       });
       
@@ -141,6 +152,7 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
       
       // Reset form with updated values
       form.reset({
+        ...form.getValues(),
         discountPercentage: updatedQuote.discountPercentage?.toString() || "0",
         discountAmount: updatedQuote.discountAmount?.toString() || "0",
         taxRate: updatedQuote.taxRate?.toString() || "10.60",
@@ -175,7 +187,7 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Quote Financials</DialogTitle>
           <DialogDescription>
@@ -212,6 +224,8 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
             </div>
           </div>
 
+          <QuoteMarginSummary quoteId={quote.id} />
+
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               {/* Discount Section */}
@@ -268,105 +282,105 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
 
               {/* Payment Schedule Section */}
               <div className="space-y-4">
-                <h4 className="font-medium text-sm text-gray-700">Payment Schedule</h4>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-sm text-gray-700">Payment Schedule</h4>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={stageFields.fields.length >= MAX_PAYMENT_STAGES}
+                    onClick={() => stageFields.append({ label: "", description: null, stageType: "progress", percentage: 0 })}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add Stage
+                  </Button>
+                </div>
                 <p className="text-xs text-gray-500">
-                  Set the payment split. Percentages must total 100%.
+                  Start with the deposit collected on acceptance. Every later stage becomes a billable
+                  milestone when the project is created. Percentages must total 100%.
                 </p>
-                
-                <div className="grid grid-cols-3 gap-3">
-                  <FormField
-                    control={form.control}
-                    name="downPaymentPercentage"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-xs">Down Payment (%)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="1"
-                            min="0"
-                            max="100"
-                            placeholder="40"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                        <div className="text-xs text-gray-600 mt-1">
-                          {formatCurrency((parseFloat(quote.total?.toString() || "0") * parseFloat(field.value || "0")) / 100)}
-                        </div>
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={form.control}
-                    name="milestonePaymentPercentage"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-xs">Milestone (%)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="1"
-                            min="0"
-                            max="100"
-                            placeholder="40"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                        <div className="text-xs text-gray-600 mt-1">
-                          {formatCurrency((parseFloat(quote.total?.toString() || "0") * parseFloat(field.value || "0")) / 100)}
-                        </div>
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={form.control}
-                    name="finalPaymentPercentage"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-xs">Final Payment (%)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="1"
-                            min="0"
-                            max="100"
-                            placeholder="20"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                        <div className="text-xs text-gray-600 mt-1">
-                          {formatCurrency((parseFloat(quote.total?.toString() || "0") * parseFloat(field.value || "0")) / 100)}
-                        </div>
-                      </FormItem>
-                    )}
-                  />
+
+                <div className="space-y-2">
+                  {stageFields.fields.map((stageField, index) => (
+                    <div key={stageField.id} className="grid grid-cols-[1fr_8rem_5rem_auto] gap-2 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`paymentStages.${index}.label`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="e.g. Framing complete" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`paymentStages.${index}.stageType`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {QUOTE_PAYMENT_STAGE_TYPES.map(type => (
+                                  <SelectItem key={type} value={type}>{QUOTE_PAYMENT_STAGE_LABELS[type]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`paymentStages.${index}.percentage`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input type="number" step="0.01" min="0" max="100" placeholder="%" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                            <div className="text-xs text-gray-600">
+                              {formatCurrency((quoteTotal * (Number(field.value) || 0)) / 100)}
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={stageFields.fields.length <= 1}
+                        onClick={() => stageFields.remove(index)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
                 </div>
 
                 {/* Validation Message */}
-                {(() => {
-                  const down = parseFloat(form.watch("downPaymentPercentage") || "0");
-                  const milestone = parseFloat(form.watch("milestonePaymentPercentage") || "0");
-                  const final = parseFloat(form.watch("finalPaymentPercentage") || "0");
-                  const total = down + milestone + final;
-                  return total !== 100 ? (
-                    <div className="p-2 rounded bg-red-50 border border-red-200">
-                      <p className="text-xs text-red-700">
-                        Total: {total.toFixed(1)}% (must be 100%)
-                      </p>
-                    </div>
-                  ) : (
-                    <div className="p-2 rounded bg-green-50 border border-green-200">
-                      <p className="text-xs text-green-700">
-                        ✓ Payment split is valid
-                      </p>
-                    </div>
-                  );
-                })()}
+                {Math.abs(stageTotal - 100) > 0.01 ? (
+                  <div className="p-2 rounded bg-red-50 border border-red-200">
+                    <p className="text-xs text-red-700">
+                      Total: {stageTotal.toFixed(2)}% (must be 100%)
+                    </p>
+                  </div>
+                ) : stagesError?.root?.message || stagesError?.message ? (
+                  <div className="p-2 rounded bg-red-50 border border-red-200">
+                    <p className="text-xs text-red-700">{stagesError.root?.message || stagesError.message}</p>
+                  </div>
+                ) : (
+                  <div className="p-2 rounded bg-green-50 border border-green-200">
+                    <p className="text-xs text-green-700">
+                      ✓ Payment split is valid
+                    </p>
+                  </div>
+                )}
               </div>
 
               <Separator />
@@ -437,6 +451,15 @@ export function QuoteFinancialsDialog({ quote, open, onOpenChange }: QuoteFinanc
                     )}
                   />
                 )}
+
+                <QuoteTaxRateSource
+                  quote={quote}
+                  onRateApplied={(taxRate) => {
+                    setIsManualTax(false);
+                    form.setValue("isManualTax", false);
+                    form.setValue("taxRate", taxRate);
+                  }}
+                />
               </div>
 
               <div className="flex justify-end space-x-2 pt-4">
@@ -0,0 +1,65 @@
+// client/src/components/quotes/QuoteFollowUpsCard.tsx
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import type { QuoteFollowUp, QuoteFollowUpType } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { BellRing, Loader2 } from "lucide-react";
+
+const FOLLOW_UP_LABELS: Record<QuoteFollowUpType, string> = {
+  not_opened: "Not opened",
+  viewed_no_response: "No response",
+  expiring_soon: "Expiring soon",
+  expired: "Expired",
+  renewal_requested: "Renewal requested",
+};
+
+export function QuoteFollowUpsCard({ quoteId }: { quoteId: number }) {
+  const { data: followUps = [], isLoading } = useQuery<QuoteFollowUp[]>({
+    queryKey: [`/api/quotes/${quoteId}/follow-ups`],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Follow-ups
+        </CardTitle>
+        <CardDescription>Automatic reminders, expiry and renewal requests</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : followUps.length === 0 ? (
+          <p className="text-sm text-gray-500">No follow-ups yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {followUps.map((followUp) => (
+              <div key={followUp.id} className="flex items-start justify-between gap-4 text-sm border-b last:border-0 pb-3 last:pb-0">
+                <div className="space-y-1">
+                  <Badge
+                    variant={followUp.type === "renewal_requested" ? "default" : "outline"}
+                    className="text-xs"
+                  >
+                    {FOLLOW_UP_LABELS[followUp.type as QuoteFollowUpType] ?? followUp.type}
+                  </Badge>
+                  <div>{followUp.message}</div>
+                  {followUp.recipientEmail && (
+                    <div className="text-xs text-gray-500">Emailed {followUp.recipientEmail}</div>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 whitespace-nowrap">
+                  {new Date(followUp.createdAt).toLocaleString()}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+// client/src/components/quotes/QuoteMarginSummary.tsx
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth-unified";
+import { useToast } from "@/hooks/use-toast";
+import type { QuoteMarginReport } from "@shared/quote-margins";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/utils";
+
+const formatMargin = (margin: number | null) => (margin === null ? "—" : `${margin.toFixed(1)}%`);
+
+/** Internal gross profit and margin for a quote, with the owner approval for low margins. */
+export function QuoteMarginSummary({ quoteId }: { quoteId: number }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const marginKey = [`/api/quotes/${quoteId}/margin`];
+
+  // Line items are edited elsewhere, so the margin is refetched each time it is shown
+  const { data: report, isLoading } = useQuery<QuoteMarginReport>({
+    queryKey: marginKey,
+    queryFn: getQueryFn({ on401: "throw" }),
+    staleTime: 0,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/quotes/${quoteId}/margin/approve`),
+    onSuccess: (updated: QuoteMarginReport) => {
+      queryClient.setQueryData(marginKey, updated);
+      toast({
+        title: "Margin Approved",
+        description: `The quote can now be sent at ${formatMargin(updated.marginPercentage)} margin`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to approve margin",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !report) return null;
+
+  return (
+    <div className="border p-4 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm text-gray-700">Margin (internal)</h4>
+        <span className="text-xs text-gray-500">Floor {report.floorPercentage}%</span>
+      </div>
+
+      {report.marginPercentage === null ? (
+        <p className="text-sm text-gray-500">
+          Add unit costs to the line items to see the gross profit on this quote.
+        </p>
+      ) : (
+        <div className="grid grid-cols-4 gap-2 text-sm">
+          <div>
+            <div className="text-gray-500">Revenue</div>
+            <div>{formatCurrency(report.revenue)}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Cost</div>
+            <div>{formatCurrency(report.cost)}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Gross Profit</div>
+            <div className="font-medium">{formatCurrency(report.grossProfit)}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Margin</div>
+            <div className={report.belowFloor ? "font-medium text-red-600" : "font-medium text-green-700"}>
+              {formatMargin(report.marginPercentage)}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {report.uncostedItems > 0 && (
+        <p className="text-xs text-gray-500">
+          {report.uncostedItems} included item{report.uncostedItems === 1 ? " has" : "s have"} no cost and
+          {report.uncostedItems === 1 ? " is" : " are"} left out of these figures.
+        </p>
+      )}
+
+      {report.categories.some(category => category.marginPercentage !== null) && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-normal py-1">Category</th>
+              <th className="font-normal py-1 text-right">Revenue</th>
+              <th className="font-normal py-1 text-right">Cost</th>
+              <th className="font-normal py-1 text-right">Profit</th>
+              <th className="font-normal py-1 text-right">Margin</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.categories.map(category => (
+              <tr key={category.category} className="border-t">
+                <td className="py-1">{category.category}</td>
+                <td className="py-1 text-right">{formatCurrency(category.revenue)}</td>
+                <td className="py-1 text-right">{formatCurrency(category.cost)}</td>
+                <td className="py-1 text-right">{formatCurrency(category.grossProfit)}</td>
+                <td className={`py-1 text-right ${category.marginPercentage !== null && category.marginPercentage < report.floorPercentage ? "text-red-600" : ""}`}>
+                  {formatMargin(category.marginPercentage)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {report.requiresApproval ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Below the margin floor</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>
+              This quote's {formatMargin(report.marginPercentage)} margin is below the {report.floorPercentage}% floor.
+              An owner needs to approve it before it can be sent.
+              {report.approval && ` The earlier approval at ${formatMargin(report.approval.approvedMarginPercentage)} no longer covers it.`}
+            </p>
+            {user?.role === "admin" && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={approveMutation.isPending}
+                onClick={() => approveMutation.mutate()}
+              >
+                {approveMutation.isPending ? "Approving..." : `Approve at ${formatMargin(report.marginPercentage)}`}
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      ) : report.belowFloor && report.approval ? (
+        <div className="flex items-center gap-2 text-xs text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          Approved at {formatMargin(report.approval.approvedMarginPercentage)}
+          {report.approval.approvedBy ? ` by ${report.approval.approvedBy}` : ""} on{" "}
+          {new Date(report.approval.approvedAt).toLocaleDateString()}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+// client/src/components/quotes/QuoteRevisionsCard.tsx
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import type { QuoteRevisionDiff, QuoteRevisionFieldChange, QuoteRevisionItemChange, QuoteRevisionWithSender } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitCompare, History, Loader2 } from "lucide-react";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+const DRAFT = "draft";
+
+const FIELD_LABELS: Record<string, string> = {
+  customerName: "Customer Name",
+  customerEmail: "Customer Email",
+  customerPhone: "Customer Phone",
+  customerAddress: "Customer Address",
+  projectType: "Project Type",
+  discountPercentage: "Discount (%)",
+  discountAmount: "Discount",
+  discountedSubtotal: "Discounted Subtotal",
+  taxRate: "Tax Rate (%)",
+  taxAmount: "Tax",
+  isManualTax: "Manual Tax",
+  downPaymentPercentage: "Down Payment (%)",
+  milestonePaymentPercentage: "Milestone Payment (%)",
+  finalPaymentPercentage: "Final Payment (%)",
+  milestoneDescription: "Milestone Description",
+  estimatedStartDate: "Estimated Start",
+  estimatedCompletionDate: "Estimated Completion",
+  validUntil: "Valid Until",
+  projectNotes: "Project Notes",
+  scopeDescription: "Scope Description",
+  unitPrice: "Unit Price",
+  totalPrice: "Total Price",
+  stageType: "Stage Type",
+  selectionType: "Customer Choice",
+  optionGroup: "Option Group",
+  isDefaultSelected: "In Quoted Total",
+};
+
+const CURRENCY_FIELDS = new Set(["subtotal", "discountAmount", "discountedSubtotal", "taxAmount", "total", "unitPrice", "totalPrice"]);
+
+function fieldLabel(field: string) {
+  return FIELD_LABELS[field] ?? field.charAt(0).toUpperCase() + field.slice(1);
+}
+
+function formatValue(field: string, value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (CURRENCY_FIELDS.has(field)) return formatCurrency(Number(value));
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) return formatDate(value);
+  return String(value);
+}
+
+function FieldChanges({ changes }: { changes: QuoteRevisionFieldChange[] }) {
+  return (
+    <div className="space-y-1">
+      {changes.map((change) => (
+        <div key={change.field} className="grid grid-cols-3 gap-2 text-sm">
+          <span className="text-gray-500">{fieldLabel(change.field)}</span>
+          <span className="line-through text-red-600 break-words">{formatValue(change.field, change.from)}</span>
+          <span className="text-green-700 break-words">{formatValue(change.field, change.to)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ItemChanges({ title, changes }: { title: string; changes: QuoteRevisionItemChange[] }) {
+  if (changes.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">{title}</div>
+      {changes.map((item, index) => (
+        <div key={`${item.change}-${index}`} className="border rounded p-2 space-y-1">
+          <div className="flex items-center gap-2 text-sm">
+            <Badge
+              variant="outline"
+              className={
+                item.change === "added" ? "text-green-700 border-green-300"
+                  : item.change === "removed" ? "text-red-700 border-red-300"
+                  : "text-amber-700 border-amber-300"
+              }
+            >
+              {item.change}
+            </Badge>
+            <span>{item.label}</span>
+          </div>
+          {item.fields.length > 0 && <FieldChanges changes={item.fields} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface QuoteRevisionsCardProps {
+  quoteId: number;
+}
+
+/**
+ * Revisions sent to the customer, newest first, with a diff between any two of them or
+ * between a revision and the draft being edited.
+ */
+export function QuoteRevisionsCard({ quoteId }: QuoteRevisionsCardProps) {
+  const { data: revisions = [], isLoading } = useQuery<QuoteRevisionWithSender[]>({
+    queryKey: [`/api/quotes/${quoteId}/revisions`],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const [fromRevision, setFromRevision] = useState<string>("");
+  const [toRevision, setToRevision] = useState<string>(DRAFT);
+
+  // Default to what changed since the customer last saw the quote
+  useEffect(() => {
+    if (revisions.length > 0 && !fromRevision) {
+      setFromRevision(String(revisions[0].revisionNumber));
+    }
+  }, [revisions, fromRevision]);
+
+  const compareUrl = `/api/quotes/${quoteId}/revisions/compare?from=${fromRevision}${toRevision === DRAFT ? "" : `&to=${toRevision}`}`;
+  const { data: diff, isLoading: diffLoading } = useQuery<QuoteRevisionDiff>({
+    queryKey: [compareUrl],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!fromRevision && fromRevision !== toRevision,
+    staleTime: toRevision === DRAFT ? 0 : undefined, // The draft changes as it is edited
+  });
+
+  const hasChanges = !!diff && (diff.fields.length > 0 || diff.lineItems.length > 0 || diff.paymentStages.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revisions
+        </CardTitle>
+        <CardDescription>
+          Each send saves a revision. The customer sees the latest one until the quote is sent again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary-600" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">This quote has not been sent yet.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {revisions.map((revision, index) => (
+                <div key={revision.id} className="flex items-center justify-between text-sm border-b pb-2 last:border-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Revision {revision.revisionNumber}</span>
+                    {index === 0 && <Badge variant="secondary">Customer view</Badge>}
+                  </div>
+                  <div className="text-gray-500">
+                    {formatDate(revision.sentAt)}
+                    {revision.sentBy && ` by ${revision.sentBy.firstName} ${revision.sentBy.lastName}`}
+                    {" · "}
+                    <span className="text-gray-900">{formatCurrency(parseFloat(revision.total))}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3 pt-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <GitCompare className="h-4 w-4" />
+                Compare
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>From</Label>
+                  <Select value={fromRevision} onValueChange={setFromRevision}>
+                    <SelectTrigger><SelectValue placeholder="Revision" /></SelectTrigger>
+                    <SelectContent>
+                      {revisions.map((revision) => (
+                        <SelectItem key={revision.id} value={String(revision.revisionNumber)}>
+                          Revision {revision.revisionNumber}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>To</Label>
+                  <Select value={toRevision} onValueChange={setToRevision}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DRAFT}>Current draft</SelectItem>
+                      {revisions.map((revision) => (
+                        <SelectItem key={revision.id} value={String(revision.revisionNumber)}>
+                          Revision {revision.revisionNumber}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {fromRevision === toRevision ? (
+                <p className="text-sm text-gray-500">Pick two different versions to compare.</p>
+              ) : diffLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-primary-600" />
+                </div>
+              ) : diff && !hasChanges ? (
+                <p className="text-sm text-gray-500">No differences.</p>
+              ) : diff ? (
+                <div className="space-y-4">
+                  {diff.fields.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium">Quote Details</div>
+                      <FieldChanges changes={diff.fields} />
+                    </div>
+                  )}
+                  <ItemChanges title="Line Items" changes={diff.lineItems} />
+                  <ItemChanges title="Payment Schedule" changes={diff.paymentStages} />
+                </div>
+              ) : null}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+// client/src/components/quotes/QuoteSignatureCard.tsx
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import type { QuoteSignature } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, PenLine } from "lucide-react";
+
+type QuoteSignatureWithIntegrity = QuoteSignature & { documentIntact: boolean };
+
+export function QuoteSignatureCard({ quoteId }: { quoteId: number }) {
+  // Unsigned quotes answer 404, which simply hides the card
+  const { data: signature } = useQuery<QuoteSignatureWithIntegrity>({
+    queryKey: [`/api/quotes/${quoteId}/signature`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    retry: false,
+  });
+
+  if (!signature) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="h-5 w-5" />
+          Customer Signature
+        </CardTitle>
+        <CardDescription>
+          Signed {signature.signatureType === "drawn" ? "by hand" : "by typed name"}
+          {signature.revisionNumber ? ` on revision ${signature.revisionNumber}` : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="font-medium text-gray-500">Signer</div>
+            <div>{signature.signerName}</div>
+            <div className="text-gray-500">{signature.signerEmail}</div>
+          </div>
+          <div>
+            <div className="font-medium text-gray-500">Signed At</div>
+            <div>{new Date(signature.signedAt).toLocaleString()}</div>
+            <div className="text-gray-500">Initials {signature.initials}</div>
+          </div>
+          <div>
+            <div className="font-medium text-gray-500">IP Address</div>
+            <div>{signature.ipAddress || "—"}</div>
+          </div>
+          <div>
+            <div className="font-medium text-gray-500">Document</div>
+            {signature.documentIntact ? (
+              <Badge variant="outline" className="text-green-700 border-green-300">Hash verified</Badge>
+            ) : (
+              <Badge variant="destructive">Hash mismatch</Badge>
+            )}
+          </div>
+        </div>
+        <div className="text-xs text-gray-500 break-all font-mono">SHA-256 {signature.documentHash}</div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/api/quotes/${quoteId}/signature/pdf`}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Signed PDF
+          </a>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useRef } from "react";
+import { Eraser, PenLine, Type } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { QUOTE_SIGNATURE_CONSENT_TEXT, QUOTE_SIGNATURE_TERMS } from "@shared/quote-signature";
+import type { QuoteSignatureType } from "@shared/schema";
+
+export interface QuoteSignatureDraft {
+  signerName: string;
+  signatureType: QuoteSignatureType;
+  signatureData: string;
+  initials: string;
+  consent: boolean;
+}
+
+export const emptySignatureDraft = (signerName = ''): QuoteSignatureDraft => ({
+  signerName,
+  signatureType: 'typed',
+  signatureData: signerName,
+  initials: '',
+  consent: false,
+});
+
+interface QuoteSignaturePadProps {
+  value: QuoteSignatureDraft;
+  onChange: (value: QuoteSignatureDraft) => void;
+  disabled?: boolean;
+}
+
+export function QuoteSignaturePad({ value, onChange, disabled }: QuoteSignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  // Size the canvas to its rendered width so strokes land under the pointer
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || value.signatureType !== 'drawn') return;
+    canvas.width = canvas.offsetWidth;
+    canvas.height = canvas.offsetHeight;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.lineWidth = 2;
+      ctx.lineCap = 'round';
+      ctx.strokeStyle = '#1f2937';
+    }
+  }, [value.signatureType]);
+
+  const setType = (signatureType: QuoteSignatureType) => {
+    onChange({ ...value, signatureType, signatureData: signatureType === 'typed' ? value.signerName : '' });
+  };
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = pointAt(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = pointAt(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const endStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange({ ...value, signatureData: e.currentTarget.toDataURL('image/png') });
+  };
+
+  const clearDrawing = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange({ ...value, signatureData: '' });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="signer-name">Full legal name</Label>
+        <Input
+          id="signer-name"
+          value={value.signerName}
+          disabled={disabled}
+          onChange={e => onChange({
+            ...value,
+            signerName: e.target.value,
+            signatureData: value.signatureType === 'typed' ? e.target.value : value.signatureData,
+          })}
+          className="mt-1"
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <Label>Signature</Label>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              size="sm"
+              variant={value.signatureType === 'typed' ? 'default' : 'outline'}
+              onClick={() => setType('typed')}
+              disabled={disabled}
+            >
+              <Type className="h-3 w-3 mr-1" />
+              Type
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={value.signatureType === 'drawn' ? 'default' : 'outline'}
+              onClick={() => setType('drawn')}
+              disabled={disabled}
+            >
+              <PenLine className="h-3 w-3 mr-1" />
+              Draw
+            </Button>
+          </div>
+        </div>
+        {value.signatureType === 'typed' ? (
+          <div className="border rounded-lg h-24 flex items-center justify-center bg-gray-50">
+            <span className="text-3xl text-gray-800" style={{ fontFamily: "'Brush Script MT', 'Segoe Script', cursive" }}>
+              {value.signerName || 'Your name'}
+            </span>
+          </div>
+        ) : (
+          <div className="relative">
+            <canvas
+              ref={canvasRef}
+              className="border rounded-lg w-full h-32 bg-white touch-none cursor-crosshair"
+              onPointerDown={startStroke}
+              onPointerMove={continueStroke}
+              onPointerUp={endStroke}
+              onPointerLeave={endStroke}
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="absolute top-1 right-1"
+              onClick={clearDrawing}
+              disabled={disabled}
+            >
+              <Eraser className="h-3 w-3 mr-1" />
+              Clear
+            </Button>
+            {!value.signatureData && (
+              <p className="text-xs text-gray-500 mt-1">Sign with your mouse or finger</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="border rounded-lg p-4">
+        <div className="text-sm font-medium text-gray-700 mb-2">Terms</div>
+        <ol className="list-decimal pl-5 space-y-1 text-sm text-gray-600">
+          {QUOTE_SIGNATURE_TERMS.map(term => (
+            <li key={term}>{term}</li>
+          ))}
+        </ol>
+        <div className="flex items-center gap-2 mt-3">
+          <Label htmlFor="signer-initials" className="text-sm">Initials</Label>
+          <Input
+            id="signer-initials"
+            value={value.initials}
+            maxLength={10}
+            disabled={disabled}
+            onChange={e => onChange({ ...value, initials: e.target.value.toUpperCase() })}
+            className="w-24"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-start gap-2">
+        <Checkbox
+          id="signature-consent"
+          checked={value.consent}
+          disabled={disabled}
+          onCheckedChange={checked => onChange({ ...value, consent: checked === true })}
+          className="mt-0.5"
+        />
+        <Label htmlFor="signature-consent" className="text-sm font-normal text-gray-600 leading-snug">
+          {QUOTE_SIGNATURE_CONSENT_TEXT}
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+// client/src/components/quotes/QuoteTaxRateSource.tsx
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Loader2, MapPin } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { QuoteWithDetails, TaxRateSource } from "@shared/schema";
+import type { TaxRateLookupResult } from "@shared/tax-rates";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+const SOURCE_LABELS: Record<TaxRateSource, string> = {
+  dor_api: "WA DOR",
+  dor_table: "DOR rate table",
+  fallback: "Estimate",
+  manual: "Entered by hand",
+  unverified: "Not checked",
+};
+
+/** Where the quote's tax rate came from, with a fresh DOR lookup for the customer address. */
+export function QuoteTaxRateSource({ quote, onRateApplied }: {
+  quote: QuoteWithDetails;
+  onRateApplied: (taxRate: string) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const source = quote.taxRateSource as TaxRateSource | null;
+  // Neither can go out until the rate is looked up again or entered by hand
+  const needsConfirmation = (source === "fallback" || source === "unverified") && !quote.isManualTax;
+
+  const lookupMutation = useMutation({
+    mutationFn: async (): Promise<{ quote: QuoteWithDetails; lookup: TaxRateLookupResult }> =>
+      apiRequest("POST", `/api/quotes/${quote.id}/tax-rate`),
+    onSuccess: ({ quote: updatedQuote, lookup }) => {
+      queryClient.setQueryData([`/api/quotes/${quote.id}`], updatedQuote);
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      onRateApplied(updatedQuote.taxRate?.toString() ?? lookup.taxRate.toFixed(2));
+      toast({
+        title: lookup.isFallback ? "Estimated Tax Rate Applied" : "Tax Rate Updated",
+        description: lookup.warning ?? `${lookup.taxRate}% for ${lookup.jurisdiction ?? "the customer address"}`,
+        variant: lookup.isFallback ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to look up the tax rate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-gray-600">
+          <MapPin className="h-3 w-3" />
+          {quote.taxJurisdiction ? (
+            <span>
+              {quote.taxJurisdiction}
+              {quote.taxLocationCode && ` (location code ${quote.taxLocationCode})`}
+            </span>
+          ) : (
+            <span>No jurisdiction recorded</span>
+          )}
+          {source && (
+            <Badge variant={needsConfirmation ? "destructive" : "outline"} className="text-[10px]">
+              {SOURCE_LABELS[source] ?? source}
+            </Badge>
+          )}
+          {quote.taxRateCheckedAt && (
+            <span className="text-gray-400">{new Date(quote.taxRateCheckedAt).toLocaleDateString()}</span>
+          )}
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={lookupMutation.isPending || !quote.customerAddress}
+          onClick={() => lookupMutation.mutate()}
+        >
+          {lookupMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          Look up rate
+        </Button>
+      </div>
+      {needsConfirmation && (
+        <p className="flex items-start gap-1 text-red-600">
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          {source === "fallback" ? "This rate is an estimate." : "This rate hasn't been checked against DOR."}
+          {" "}Look it up again or enter the rate by hand before sending the quote.
+        </p>
+      )}
+    </div>
+  );
+}
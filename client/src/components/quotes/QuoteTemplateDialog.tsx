@@ -0,0 +1,503 @@
+// client/src/components/quotes/QuoteTemplateDialog.tsx
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { QUOTE_PAYMENT_STAGE_TYPES, type CostCatalogItem, type QuoteTemplateWithItems } from "@shared/schema";
+import { catalogSellPrice } from "@shared/cost-catalog";
+import {
+  MAX_PAYMENT_STAGES,
+  QUOTE_PAYMENT_STAGE_LABELS,
+  paymentStageSchema,
+  paymentStagesSchema,
+  stagesFromLegacyPercentages,
+  sumStagePercentages,
+} from "@shared/quote-payment-stages";
+
+// Same choices as the quote builder's project type
+const PROJECT_TYPES = ["Residential", "Commercial", "Remodel", "New Construction", "Addition", "Repair", "Other"];
+
+const CUSTOM_ITEM = "custom";
+
+const templateItemFormSchema = z.object({
+  catalogItemId: z.string(), // CUSTOM_ITEM for items outside the catalog
+  category: z.string().trim().min(1, "Required"),
+  description: z.string().trim().min(1, "Required"),
+  quantity: z.string().min(1, "Required"),
+  unit: z.string().trim().min(1, "Required"),
+  unitPrice: z.string(), // Blank uses the catalog price when the template is applied
+});
+
+const templateFormSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required"),
+  projectType: z.string().min(1, "Project type is required"),
+  description: z.string().optional(),
+  scopeDescription: z.string().optional(),
+  items: z.array(templateItemFormSchema),
+  useCustomSchedule: z.boolean(),
+  paymentStages: z.array(paymentStageSchema),
+}).superRefine((data, ctx) => {
+  data.items.forEach((item, index) => {
+    if (item.catalogItemId === CUSTOM_ITEM && item.unitPrice === "") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Required", path: ["items", index, "unitPrice"] });
+    }
+  });
+  if (data.useCustomSchedule) {
+    const stages = paymentStagesSchema.safeParse(data.paymentStages);
+    if (!stages.success) {
+      stages.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ["paymentStages", ...issue.path] }));
+    }
+  }
+});
+
+type TemplateForm = z.infer<typeof templateFormSchema>;
+
+function formValuesFor(template: QuoteTemplateWithItems | null): TemplateForm {
+  const stages = (template?.paymentStages as TemplateForm["paymentStages"] | null) ?? null;
+  return {
+    name: template?.name ?? "",
+    projectType: template?.projectType ?? "",
+    description: template?.description ?? "",
+    scopeDescription: template?.scopeDescription ?? "",
+    items: (template?.items ?? []).map(item => ({
+      catalogItemId: item.catalogItemId ? String(item.catalogItemId) : CUSTOM_ITEM,
+      category: item.category,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.unitPrice ?? "",
+    })),
+    useCustomSchedule: !!stages,
+    paymentStages: stages ?? stagesFromLegacyPercentages({}),
+  };
+}
+
+interface QuoteTemplateDialogProps {
+  template: QuoteTemplateWithItems | null; // null creates a new template
+  catalogItems: CostCatalogItem[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QuoteTemplateDialog({ template, catalogItems, open, onOpenChange }: QuoteTemplateDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<TemplateForm>({
+    resolver: zodResolver(templateFormSchema),
+    defaultValues: formValuesFor(null),
+  });
+  const itemFields = useFieldArray({ control: form.control, name: "items" });
+  const stageFields = useFieldArray({ control: form.control, name: "paymentStages" });
+
+  useEffect(() => {
+    if (open) form.reset(formValuesFor(template));
+  }, [open, template, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TemplateForm) => {
+      const body = {
+        name: data.name,
+        projectType: data.projectType,
+        description: data.description || null,
+        scopeDescription: data.scopeDescription || null,
+        paymentStages: data.useCustomSchedule ? data.paymentStages : null,
+        items: data.items.map(item => ({
+          catalogItemId: item.catalogItemId === CUSTOM_ITEM ? null : Number(item.catalogItemId),
+          category: item.category,
+          description: item.description,
+          quantity: parseFloat(item.quantity),
+          unit: item.unit,
+          unitPrice: item.unitPrice !== "" ? parseFloat(item.unitPrice) : null,
+        })),
+      };
+      return template
+        ? await apiRequest("PATCH", `/api/quote-templates/${template.id}`, body)
+        : await apiRequest("POST", "/api/quote-templates", body);
+    },
+    onSuccess: () => {
+      toast({
+        title: template ? "Template Updated" : "Template Created",
+        description: "Quote templates have been updated",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/quote-templates"),
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectCatalogItem = (index: number, value: string) => {
+    form.setValue(`items.${index}.catalogItemId`, value);
+    const catalogItem = catalogItems.find(item => String(item.id) === value);
+    if (catalogItem) {
+      form.setValue(`items.${index}.category`, catalogItem.category);
+      form.setValue(`items.${index}.description`, catalogItem.description);
+      form.setValue(`items.${index}.unit`, catalogItem.unit);
+      form.setValue(`items.${index}.unitPrice`, "");
+    }
+  };
+
+  const watchedItems = form.watch("items");
+  const useCustomSchedule = form.watch("useCustomSchedule");
+  const stageTotal = sumStagePercentages(form.watch("paymentStages") || []);
+  const stagesError = form.formState.errors.paymentStages;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Quote Template" : "New Quote Template"}</DialogTitle>
+          <DialogDescription>
+            Templates pre-fill new quotes of a project type. Catalog items without a fixed price use the
+            catalog price at the time the template is applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Template Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Standard bathroom remodel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="projectType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Project Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PROJECT_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Internal Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="When to use this template" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="scopeDescription"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Scope of Work</FormLabel>
+                  <FormControl>
+                    <Textarea className="min-h-24" placeholder="Copied into the quote's scope of work" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+
+            {/* Line Items */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-sm">Line Items</h4>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => itemFields.append({
+                    catalogItemId: CUSTOM_ITEM,
+                    category: "",
+                    description: "",
+                    quantity: "1",
+                    unit: "each",
+                    unitPrice: "",
+                  })}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Item
+                </Button>
+              </div>
+
+              {itemFields.fields.length === 0 && (
+                <p className="text-xs text-gray-500">No line items yet.</p>
+              )}
+
+              {itemFields.fields.map((itemField, index) => {
+                const catalogItem = catalogItems.find(item => String(item.id) === watchedItems[index]?.catalogItemId);
+                return (
+                  <div key={itemField.id} className="grid grid-cols-[11rem_8rem_1fr_4.5rem_5rem_6rem_auto] gap-2 items-start">
+                    <Select
+                      value={watchedItems[index]?.catalogItemId}
+                      onValueChange={(value) => selectCatalogItem(index, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={CUSTOM_ITEM}>Custom item</SelectItem>
+                        {catalogItems.map(item => (
+                          <SelectItem key={item.id} value={String(item.id)}>
+                            {item.description}{item.isActive ? "" : " (retired)"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.category`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Category" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.description`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Description" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.quantity`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="number" min="0" step="0.01" placeholder="Qty" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.unit`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Unit" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.unitPrice`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              placeholder={catalogItem
+                                ? formatCurrency(catalogSellPrice(catalogItem.defaultUnitPrice, catalogItem.markupPercentage))
+                                : "Price"}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => itemFields.remove(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <Separator />
+
+            {/* Payment Schedule */}
+            <div className="space-y-2">
+              <FormField
+                control={form.control}
+                name="useCustomSchedule"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div>
+                      <FormLabel>Custom Payment Schedule</FormLabel>
+                      <p className="text-xs text-gray-500">
+                        Off uses the standard down payment, milestone and final split.
+                      </p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              {useCustomSchedule && (
+                <>
+                  {stageFields.fields.map((stageField, index) => (
+                    <div key={stageField.id} className="grid grid-cols-[1fr_8rem_5rem_auto] gap-2 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`paymentStages.${index}.label`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="e.g. Framing complete" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`paymentStages.${index}.stageType`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {QUOTE_PAYMENT_STAGE_TYPES.map(type => (
+                                  <SelectItem key={type} value={type}>{QUOTE_PAYMENT_STAGE_LABELS[type]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`paymentStages.${index}.percentage`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input type="number" step="0.01" min="0" max="100" placeholder="%" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={stageFields.fields.length <= 1}
+                        onClick={() => stageFields.remove(index)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <p className={`text-xs ${Math.abs(stageTotal - 100) > 0.01 ? "text-red-700" : "text-gray-500"}`}>
+                      {stagesError?.root?.message || stagesError?.message || `Total: ${stageTotal.toFixed(2)}% (must be 100%)`}
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={stageFields.fields.length >= MAX_PAYMENT_STAGES}
+                      onClick={() => stageFields.append({ label: "", description: null, stageType: "progress", percentage: 0 })}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      Add Stage
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {template ? "Save Template" : "Create Template"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+// client/src/components/quotes/TaxRateTablesTab.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import { getQueryFn } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth-unified";
+import { useToast } from "@/hooks/use-toast";
+import type { TaxRateImportResult, TaxRateTableSummary } from "@shared/tax-rates";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { theme } from "@/config/theme";
+
+const TABLES_KEY = "/api/tax-rates/tables";
+
+/** Imported WA DOR quarterly rate tables, used when the DOR address lookup can't be reached. */
+export function TaxRateTablesTab() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+
+  const { data: tables = [], isLoading } = useQuery<TaxRateTableSummary[]>({
+    queryKey: [TABLES_KEY],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<TaxRateImportResult> => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      if (effectiveFrom) {
+        formData.append("effectiveFrom", effectiveFrom);
+      }
+
+      const response = await fetch("/api/tax-rates/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.message || body.error || "Failed to import the rate table");
+      }
+      return body;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Rate Table Imported",
+        description: `${result.imported} locations effective ${result.effectiveFrom.join(", ")}` +
+          (result.skipped > 0 ? `; ${result.skipped} rows skipped` : ""),
+      });
+      setFile(null);
+      setEffectiveFrom("");
+      queryClient.invalidateQueries({ queryKey: [TABLES_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const headerCell = "px-4 py-3 font-semibold";
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm" style={{ color: theme.colors.textMuted }}>
+        Quotes take their tax rate from the WA Department of Revenue address lookup. When that service is down, the
+        rate for the address's location code comes from the latest table imported here. Import the DOR local sales
+        tax rate file (CSV) each quarter.
+      </p>
+
+      {user?.role === "admin" && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="tax-rate-file">DOR rate table (CSV)</Label>
+                <Input
+                  id="tax-rate-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="tax-rate-effective">Effective from</Label>
+                <Input
+                  id="tax-rate-effective"
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={!file || importMutation.isPending}
+                className="text-white"
+                style={{ backgroundColor: theme.colors.accent }}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {importMutation.isPending ? "Importing..." : "Import"}
+              </Button>
+            </div>
+            <p className="text-xs mt-2" style={{ color: theme.colors.textMuted }}>
+              Only needed when the file has no effective date column. Importing a quarter again replaces its rates.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        {isLoading ? (
+          <CardContent className="py-10 text-center" style={{ color: theme.colors.textMuted }}>
+            Loading rate tables...
+          </CardContent>
+        ) : tables.length === 0 ? (
+          <CardContent className="py-10 text-center" style={{ color: theme.colors.textMuted }}>
+            No rate tables imported yet. Without one, an address DOR can't look up gets an estimated rate.
+          </CardContent>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr style={{ borderBottom: `1px solid ${theme.colors.border}`, backgroundColor: theme.colors.surfaceLight, color: theme.colors.textMuted }}>
+                  <th className={`${headerCell} text-left`}>Effective</th>
+                  <th className={`${headerCell} text-right`}>Locations</th>
+                  <th className={`${headerCell} text-left`}>File</th>
+                  <th className={`${headerCell} text-left`}>Imported</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tables.map(table => (
+                  <tr key={table.effectiveFrom} style={{ borderBottom: `1px solid ${theme.colors.border}` }}>
+                    <td className="px-4 py-3">
+                      {table.effectiveFrom}
+                      {table.effectiveUntil && ` to ${table.effectiveUntil}`}
+                    </td>
+                    <td className="px-4 py-3 text-right">{table.locations}</td>
+                    <td className="px-4 py-3">{table.sourceFile ?? "—"}</td>
+                    <td className="px-4 py-3">{new Date(table.importedAt).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
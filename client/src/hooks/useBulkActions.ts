@@ -0,0 +1,77 @@
+// client/src/hooks/useBulkActions.ts
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+export type BulkResourceType = 'tasks' | 'punchListItems' | 'documents';
+export type BulkActionType = 'reassign' | 'update_status' | 'update_priority' | 'shift_dates' | 'publish' | 'unpublish' | 'delete';
+
+export interface BulkActionPayload {
+    resourceType: BulkResourceType;
+    action: BulkActionType;
+    resourceIds: number[];
+    data?: {
+        assigneeId?: number | null;
+        status?: string;
+        priority?: string;
+        days?: number;
+    };
+}
+
+export interface BulkItemResult {
+    id: number;
+    status: 'succeeded' | 'failed' | 'rolled_back';
+    error?: string;
+}
+
+export interface BulkActionResponse {
+    success: boolean;
+    affectedCount: number;
+    message: string;
+    results: BulkItemResult[];
+}
+
+export function useBulkActions(projectId: number) {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    return useMutation<BulkActionResponse, Error, BulkActionPayload>({
+        // Uses fetch directly: a 422 still carries per-item results we want to show
+        mutationFn: async (payload: BulkActionPayload) => {
+            const res = await fetch(`/api/projects/${projectId}/admin/bulk-actions`, {
+                method: 'POST',
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(payload),
+                credentials: "include",
+            });
+            const body = await res.json().catch(() => ({}));
+            if (!res.ok && res.status !== 422) {
+                throw new Error(body.message || `HTTP Error ${res.status}`);
+            }
+            return body as BulkActionResponse;
+        },
+        onSuccess: (result, payload) => {
+            if (payload.resourceType === 'tasks') {
+                queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks`] });
+                queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks/dependencies`] });
+            } else if (payload.resourceType === 'punchListItems') {
+                queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/punch-list`] });
+            } else {
+                queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/documents`] });
+            }
+
+            if (result.success) {
+                toast({ title: "Bulk Update Complete", description: result.message });
+            } else {
+                const failures = result.results.filter(r => r.status === 'failed');
+                toast({
+                    title: "Bulk Update Not Applied",
+                    description: `${result.message}. ${failures.map(f => `#${f.id}: ${f.error}`).slice(0, 3).join(' ')}`,
+                    variant: "destructive",
+                });
+            }
+        },
+        onError: (err: Error) => {
+            toast({ title: "Bulk Update Failed", description: err.message, variant: "destructive" });
+        },
+    });
+}
@@ -8,7 +8,7 @@ import { Task as GanttTask } from 'gantt-task-react';
 // Define payload types (can be shared or defined here if specific to these mutations)
 type UpdateTaskDatePayload = { taskId: number; startDate: Date; dueDate: Date };
 type UpdateTaskProgressPayload = { taskId: number; progress: number };
-type CreateDependencyPayload = { predecessorId: number; successorId: number; type?: string };
+type CreateDependencyPayload = { predecessorId: number; successorId: number; type?: string; lagDays?: number };
 type ImportTasksPayload = { projectId: number; tasks: GanttTask[] };
 type ConvertToMilestonePayload = { taskId: number };
 type CompleteAndBillPayload = { taskId: number; actualHours?: number };
@@ -37,6 +37,7 @@ export function useProjectTaskMutations(projectId: number): UseProjectTaskMutati
     // Define query keys used for invalidation - using full API URLs
     const tasksQueryKey: QueryKey = [`/api/projects/${projectId}/tasks`];
     const dependenciesQueryKey: QueryKey = [`/api/projects/${projectId}/tasks/dependencies`];
+    const scheduleQueryKey: QueryKey = [`/api/projects/${projectId}/tasks/schedule`];
 
     // Create Task Mutation
     const createTaskMutation = useMutation<Task, Error, InsertTask>({
@@ -85,6 +86,8 @@ export function useProjectTaskMutations(projectId: number): UseProjectTaskMutati
             queryClient.setQueryData<Task[]>(tasksQueryKey, (oldTasks = []) =>
                 oldTasks.map(task => task.id === updatedTask.id ? updatedTask : task)
             );
+            // Moved dates may now conflict with successors; the schedule view offers to shift them
+            queryClient.invalidateQueries({ queryKey: scheduleQueryKey });
         },
         onError: (err: Error, variables) => {
             console.error(`Error updating dates for task ${variables.taskId}:`, err);
@@ -115,17 +118,18 @@ export function useProjectTaskMutations(projectId: number): UseProjectTaskMutati
 
     // Create Task Dependency Mutation
     const createDependencyMutation = useMutation<unknown, Error, CreateDependencyPayload>({
-        mutationFn: ({ predecessorId, successorId, type = "FS" }: CreateDependencyPayload) => {
+        mutationFn: ({ predecessorId, successorId, type = "FS", lagDays = 0 }: CreateDependencyPayload) => {
             console.log(`Create dependency from ${predecessorId} to ${successorId}`);
             return apiRequest(
                 'POST',
-                `/api/projects/${projectId}/tasks/${successorId}/dependencies`,
-                { predecessorId, type }
+                `/api/projects/${projectId}/tasks/dependencies`,
+                { predecessorId, successorId, type, lagDays }
             );
         },
         onSuccess: () => {
             toast({ title: "Dependency Added", description: "Task dependency created." });
             queryClient.invalidateQueries({ queryKey: dependenciesQueryKey });
+            queryClient.invalidateQueries({ queryKey: scheduleQueryKey });
         },
         onError: (err: Error) => {
             console.error("Error creating dependency:", err);
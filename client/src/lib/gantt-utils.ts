@@ -2,6 +2,7 @@
 import { Task as GanttTaskReact } from 'gantt-task-react'; // Import from the new library
 import type { Task as ApiTask } from '@shared/schema'; // Your API Task type
 import { parseISO, isValid, differenceInDays, endOfDay } from 'date-fns';
+import { nextWorkingDay, withTimeOf, type WorkCalendarRules } from '@shared/work-calendar';
 
 // Define TaskType locally since it might not be exported
 type TaskType = 'task' | 'milestone' | 'project';
@@ -320,3 +321,24 @@ export function formatTasksForGanttReact(
   return formattedTasks; // gantt-task-react typically takes tasks array directly
 }
 
+
+/**
+ * Moves a dragged Gantt bar off non-working days: the start and end both snap forward to the
+ * next working day in the project calendar, keeping their times of day.
+ * @param start - Start date reported by gantt-task-react.
+ * @param end - End date reported by gantt-task-react.
+ * @param rules - The project's working-day rules, or undefined while they are loading.
+ * @returns The snapped start and end dates (unchanged without rules).
+ */
+export function snapGanttDatesToCalendar(
+  start: Date,
+  end: Date,
+  rules: WorkCalendarRules | undefined
+): { start: Date; end: Date } {
+  if (!rules) {
+    return { start, end };
+  }
+  const snappedStart = withTimeOf(nextWorkingDay(rules, start), start);
+  const snappedEnd = withTimeOf(nextWorkingDay(rules, end), end);
+  return { start: snappedStart, end: snappedEnd < snappedStart ? snappedStart : snappedEnd };
+}
@@ -74,6 +74,7 @@ export const getProjectStatusLabel = (status: string | undefined | null): string
       case "in_progress": return "In Progress";
       case "on_hold": return "On Hold";
       case "completed": return "Completed";
+      case "archived": return "Archived";
       default: return status.charAt(0).toUpperCase() + status.slice(1);
     }
 };
@@ -88,6 +89,7 @@ export const getProjectStatusBadgeClasses = (status: string | undefined | null):
         case "in_progress": return "bg-primary/10 text-primary border-primary/30";
         case "on_hold": return "bg-yellow-100 text-yellow-800 border-yellow-300";
         case "completed": return "bg-green-100 text-green-800 border-green-300";
+        case "archived": return "bg-slate-200 text-slate-600 border-slate-400";
         default: return "bg-slate-100 text-slate-800 border-slate-300";
     }
 };
@@ -135,6 +137,7 @@ export const getInvoiceStatusLabel = (status: string | undefined | null): string
      switch (status) {
         case "draft": return "Draft";
         case "pending": return "Pending";
+        case "partially_paid": return "Partially Paid";
         case "paid": return "Paid";
         case "overdue": return "Overdue";
         case "cancelled": return "Cancelled";
@@ -150,6 +153,7 @@ export const getInvoiceStatusBadgeClasses = (status: string | undefined | null):
      switch (status) {
         case "draft": return "bg-blue-100 text-blue-800 border-blue-300";
         case "pending": return "bg-yellow-100 text-yellow-800 border-yellow-300";
+        case "partially_paid": return "bg-orange-100 text-orange-800 border-orange-300";
         case "paid": return "bg-green-100 text-green-800 border-green-300";
         case "overdue": return "bg-red-100 text-red-800 border-red-300";
         case "cancelled": return "bg-gray-100 text-gray-800 border-gray-300";
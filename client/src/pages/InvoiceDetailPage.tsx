@@ -1,7 +1,7 @@
 import { useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { getQueryFn, apiRequest } from "@/lib/queryClient";
-import { Invoice, Project } from "@shared/schema";
+import { Invoice, InvoiceActivity, InvoiceLineItem, Payment, Project } from "@shared/schema";
 import {
   Card,
   CardContent,
@@ -13,13 +13,16 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, Download, FileText, MapPin, Calendar, DollarSign, Send, Loader2 } from "lucide-react";
-import { formatDate, getInvoiceStatusLabel, getInvoiceStatusBadgeClasses } from "@/lib/utils";
+import { formatCurrency, formatDate, getInvoiceStatusLabel, getInvoiceStatusBadgeClasses } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth-unified";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { InvoicePaymentsCard } from "@/components/payment/InvoicePaymentsCard";
+import { InvoiceActivityCard } from "@/components/payment/InvoiceActivityCard";
 
 interface InvoiceDetailResponse {
-  invoice: Invoice;
+  invoice: Invoice & { payments: Payment[]; lineItems?: InvoiceLineItem[] };
+  activities: InvoiceActivity[];
   project: {
     id: number;
     name: string;
@@ -120,6 +123,8 @@ export default function InvoiceDetailPage() {
 
   const { invoice, project } = invoiceData;
   const amount = Number(invoice.amount);
+  const lineItems = invoice.lineItems ?? [];
+  const retainageAmount = Number(invoice.retainageAmount || 0);
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -241,29 +246,77 @@ export default function InvoiceDetailPage() {
               <CardContent>
                 <div className="border rounded-lg">
                   <div className="px-4 py-3 bg-slate-50 border-b">
-                    <div className="grid grid-cols-3 gap-4 text-sm font-medium text-slate-700">
-                      <span>Description</span>
+                    <div className="grid grid-cols-4 gap-4 text-sm font-medium text-slate-700">
+                      <span className="col-span-2">Description</span>
                       <span className="text-center">Quantity</span>
                       <span className="text-right">Amount</span>
                     </div>
                   </div>
-                  <div className="px-4 py-4">
-                    <div className="grid grid-cols-3 gap-4 text-sm">
-                      <div>
-                        <p className="font-medium text-slate-900">Construction Services</p>
-                        <p className="text-slate-600">Professional construction services for {project.name}</p>
-                        {invoice.description && (
-                          <p className="text-slate-500 mt-1 text-xs">{invoice.description}</p>
-                        )}
-                      </div>
-                      <div className="text-center text-slate-600">1</div>
-                      <div className="text-right font-medium text-slate-900">
-                        ${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                  {lineItems.length > 0 ? (
+                    <div className="divide-y">
+                      {lineItems.map(item => (
+                        <div key={item.id} className="px-4 py-3 grid grid-cols-4 gap-4 text-sm">
+                          <div className="col-span-2">
+                            <p className="font-medium text-slate-900">
+                              {item.description}
+                              {item.taxable && <span className="ml-1 text-xs text-slate-500">(taxable)</span>}
+                            </p>
+                            {Number(item.discountAmount) > 0 && (
+                              <p className="text-xs text-slate-500">Discount: -{formatCurrency(item.discountAmount!)}</p>
+                            )}
+                          </div>
+                          <div className="text-center text-slate-600">
+                            {Number(item.quantity)} {item.unit} × {formatCurrency(item.unitPrice)}
+                          </div>
+                          <div className="text-right font-medium text-slate-900">{formatCurrency(item.totalPrice)}</div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="px-4 py-4">
+                      <div className="grid grid-cols-4 gap-4 text-sm">
+                        <div className="col-span-2">
+                          <p className="font-medium text-slate-900">Construction Services</p>
+                          <p className="text-slate-600">Professional construction services for {project.name}</p>
+                          {invoice.description && (
+                            <p className="text-slate-500 mt-1 text-xs">{invoice.description}</p>
+                          )}
+                        </div>
+                        <div className="text-center text-slate-600">1</div>
+                        <div className="text-right font-medium text-slate-900">
+                          {formatCurrency(invoice.grossAmount ?? amount)}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  <div className="px-4 py-3 bg-slate-50 border-t">
-                    <div className="flex justify-between items-center">
+                  )}
+                  <div className="px-4 py-3 bg-slate-50 border-t space-y-1 text-sm">
+                    {lineItems.length > 0 && (
+                      <>
+                        {Number(invoice.discountAmount) > 0 && (
+                          <div className="flex justify-between text-slate-600">
+                            <span>Discounts applied</span>
+                            <span>-{formatCurrency(invoice.discountAmount)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between text-slate-600">
+                          <span>Subtotal</span>
+                          <span>{formatCurrency(invoice.subtotal ?? 0)}</span>
+                        </div>
+                        {Number(invoice.taxAmount) > 0 && (
+                          <div className="flex justify-between text-slate-600">
+                            <span>Tax ({Number(invoice.taxRate)}% on taxable items)</span>
+                            <span>{formatCurrency(invoice.taxAmount)}</span>
+                          </div>
+                        )}
+                      </>
+                    )}
+                    {retainageAmount > 0 && (
+                      <div className="flex justify-between text-slate-600">
+                        <span>Less retainage ({Number(invoice.retainagePercentage)}%)</span>
+                        <span>-{formatCurrency(retainageAmount)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center pt-1">
                       <span className="text-lg font-semibold text-slate-900">Total</span>
                       <span className="text-xl font-bold text-slate-900">
                         ${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
@@ -273,6 +326,16 @@ export default function InvoiceDetailPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Payments, refunds and disputes */}
+            {user?.role !== 'client' && (
+              <InvoicePaymentsCard invoice={invoice} canRefund={user?.role === 'admin'} canRecordPayment={user?.role === 'admin'} />
+            )}
+
+            {/* Reminders, overdue flags and late fees */}
+            {user?.role !== 'client' && (
+              <InvoiceActivityCard activities={invoiceData.activities ?? []} />
+            )}
           </div>
 
           {/* Sidebar */}
@@ -3,6 +3,8 @@ import { useRoute, useLocation } from 'wouter';
 import { Elements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
 import { PaymentForm } from '@/components/payment/PaymentForm';
+import { PartialPaymentAmount } from '@/components/payment/PartialPaymentAmount';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
@@ -21,6 +23,19 @@ interface PaymentInfo {
   customerName?: string;
   projectName?: string;
   invoiceNumber?: string;
+  invoiceStatus?: string;
+  invoiceAmount?: number;
+  amountPaid?: number;
+  amountProcessing?: number;
+  intentStatus?: string;
+  balanceDue?: number;
+  intentReusable?: boolean;
+}
+
+// The payment intent the Stripe form is confirming
+interface ActiveIntent {
+  clientSecret: string;
+  amount: number;
 }
 
 export default function PaymentPage() {
@@ -32,6 +47,9 @@ export default function PaymentPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [paymentCompleted, setPaymentCompleted] = useState(false);
+  const [activeIntent, setActiveIntent] = useState<ActiveIntent | null>(null);
+  const [lastPaidAmount, setLastPaidAmount] = useState(0);
+  const [bankPaymentProcessing, setBankPaymentProcessing] = useState(false);
 
   const clientSecret = params?.clientSecret;
 
@@ -44,9 +62,9 @@ export default function PaymentPage() {
     }
   }, [clientSecret]);
 
-  const loadPaymentInfo = async () => {
+  const loadPaymentInfo = async (refresh = false) => {
     try {
-      setIsLoading(true);
+      if (!refresh) setIsLoading(true);
       setError(null);
 
       if (!clientSecret) {
@@ -66,7 +84,12 @@ export default function PaymentPage() {
         if (response.ok) {
           const data = await response.json();
           if (data && typeof data === 'object' && 'amount' in data) {
-            setPaymentInfo(data as PaymentInfo);
+            const info = data as PaymentInfo;
+            setPaymentInfo(info);
+            // A link whose intent would overpay the remaining balance starts at the amount picker
+            if (!refresh) {
+              setActiveIntent(info.intentReusable === false ? null : { clientSecret, amount: info.amount });
+            }
             return;
           }
         }
@@ -94,12 +117,17 @@ export default function PaymentPage() {
         paymentIntentId: result.id,
       });
 
+      setLastPaidAmount(activeIntent?.amount ?? paymentInfo?.amount ?? 0);
+      setBankPaymentProcessing(result.status === 'processing');
       setPaymentCompleted(true);
+      await loadPaymentInfo(true);
       
-      toast({
-        title: "Payment Successful!",
-        description: "Your payment has been processed successfully.",
-      });
+      if (result.status !== 'processing') {
+        toast({
+          title: "Payment Successful!",
+          description: "Your payment has been processed successfully.",
+        });
+      }
     } catch (error: any) {
       console.error('Error processing payment success:', error);
       toast({
@@ -156,9 +184,13 @@ export default function PaymentPage() {
         <Card className="w-full max-w-md mx-auto">
           <CardHeader className="text-center">
             <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
-            <CardTitle className="text-2xl">Payment Successful!</CardTitle>
+            <CardTitle className="text-2xl">
+              {bankPaymentProcessing ? 'Bank Payment Submitted' : 'Payment Successful!'}
+            </CardTitle>
             <CardDescription>
-              Your payment has been processed successfully.
+              {bankPaymentProcessing
+                ? 'Your bank payment is processing and usually clears within 4 business days. We will email you once it settles.'
+                : 'Your payment has been processed successfully.'}
             </CardDescription>
           </CardHeader>
           <CardContent className="text-center space-y-4">
@@ -171,10 +203,26 @@ export default function PaymentPage() {
                   <p className="text-sm text-gray-600">{paymentInfo.projectName}</p>
                 )}
                 <p className="text-lg font-semibold text-green-600">
-                  ${paymentInfo.amount.toFixed(2)} paid
+                  ${lastPaidAmount.toFixed(2)} {bankPaymentProcessing ? 'processing' : 'paid'}
                 </p>
+                {!!paymentInfo.balanceDue && paymentInfo.balanceDue > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Remaining balance: ${paymentInfo.balanceDue.toFixed(2)}
+                  </p>
+                )}
               </div>
             )}
+            {!!paymentInfo?.balanceDue && paymentInfo.balanceDue > 0 && (
+              <Button
+                className="w-full"
+                onClick={() => {
+                  setActiveIntent(null);
+                  setPaymentCompleted(false);
+                }}
+              >
+                Pay Remaining Balance
+              </Button>
+            )}
             <div>
               <p className="text-sm text-gray-600 mb-2">What happens next:</p>
               <ul className="text-sm space-y-1 text-left">
@@ -206,6 +254,41 @@ export default function PaymentPage() {
     );
   }
 
+  const balanceDue = paymentInfo.balanceDue ?? paymentInfo.amount;
+
+  if (balanceDue <= 0 && (paymentInfo.amountProcessing ?? 0) > 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <Loader2 className="h-16 w-16 text-blue-500 mx-auto mb-4" />
+            <CardTitle className="text-2xl">Payment Processing</CardTitle>
+            <CardDescription>
+              A bank payment of ${paymentInfo.amountProcessing!.toFixed(2)} covering the balance is still clearing.
+              No further payment is needed unless it fails.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (balanceDue <= 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <CardTitle className="text-2xl">Invoice Paid in Full</CardTitle>
+            <CardDescription>
+              {paymentInfo.invoiceNumber ? `Invoice #${paymentInfo.invoiceNumber}` : 'This invoice'} has no balance left to pay.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="container mx-auto px-4 py-8">
@@ -241,11 +324,31 @@ export default function PaymentPage() {
                 <span className="text-gray-600">Description:</span>
                 <span className="font-medium">{paymentInfo.description}</span>
               </div>
-              <div className="border-t pt-4 mt-4">
+              <div className="border-t pt-4 mt-4 space-y-2">
+                {((paymentInfo.amountPaid ?? 0) > 0 || (paymentInfo.amountProcessing ?? 0) > 0) && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Invoice Total:</span>
+                      <span className="font-medium">${paymentInfo.invoiceAmount?.toFixed(2)}</span>
+                    </div>
+                    {(paymentInfo.amountPaid ?? 0) > 0 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Paid to Date:</span>
+                        <span className="font-medium">-${paymentInfo.amountPaid!.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {(paymentInfo.amountProcessing ?? 0) > 0 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Bank Payment Processing:</span>
+                        <span className="font-medium">-${paymentInfo.amountProcessing!.toFixed(2)}</span>
+                      </div>
+                    )}
+                  </>
+                )}
                 <div className="flex justify-between items-center">
-                  <span className="text-lg font-semibold">Total Amount:</span>
+                  <span className="text-lg font-semibold">Balance Due:</span>
                   <span className="text-2xl font-bold text-green-600">
-                    ${paymentInfo.amount?.toFixed?.(2) || '0.00'}
+                    ${balanceDue.toFixed(2)}
                   </span>
                 </div>
               </div>
@@ -253,28 +356,42 @@ export default function PaymentPage() {
           </Card>
 
           {/* Stripe Payment Form */}
-          {clientSecret && (
-            <Elements 
-              key={clientSecret} // Use key to prevent prop change warnings
-              stripe={stripePromise} 
-              options={{ 
-                clientSecret: clientSecret,
-                appearance: {
-                  theme: 'stripe',
-                  variables: {
-                    colorPrimary: '#10b981', // Green theme to match the design
+          {activeIntent ? (
+            <>
+              <Elements 
+                key={activeIntent.clientSecret} // Use key to prevent prop change warnings
+                stripe={stripePromise} 
+                options={{ 
+                  clientSecret: activeIntent.clientSecret,
+                  appearance: {
+                    theme: 'stripe',
+                    variables: {
+                      colorPrimary: '#10b981', // Green theme to match the design
+                    },
                   },
-                },
-              }}
-            >
-              <PaymentForm
-                clientSecret={clientSecret}
-                amount={paymentInfo.amount}
-                description={paymentInfo.description}
-                onSuccess={handlePaymentSuccess}
-                onError={handlePaymentError}
-              />
-            </Elements>
+                }}
+              >
+                <PaymentForm
+                  clientSecret={activeIntent.clientSecret}
+                  amount={activeIntent.amount}
+                  description={paymentInfo.description}
+                  onSuccess={handlePaymentSuccess}
+                  onError={handlePaymentError}
+                />
+              </Elements>
+              <div className="text-center mt-4">
+                <Button variant="link" onClick={() => setActiveIntent(null)}>
+                  Pay a different amount
+                </Button>
+              </div>
+            </>
+          ) : (
+            <PartialPaymentAmount
+              clientSecret={clientSecret}
+              balanceDue={balanceDue}
+              onIntentCreated={(intent) => setActiveIntent({ clientSecret: intent.clientSecret, amount: intent.amount })}
+              onCancel={paymentInfo.intentReusable ? () => setActiveIntent({ clientSecret, amount: paymentInfo.amount }) : undefined}
+            />
           )}
         </div>
       </div>
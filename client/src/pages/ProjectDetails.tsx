@@ -36,7 +36,8 @@ import {
   MessageSquare,
   Clock,
   Target,
-  Tag
+  Tag,
+  FileDiff
 } from "lucide-react";
 import { ProjectOverviewCard } from "@/components/project-details/ProjectOverviewCard";
 import { ProjectUpdatesTab } from "@/components/project-details/ProjectUpdatesTab";
@@ -48,6 +49,7 @@ import { ProjectTasksTab } from "@/components/project-details/ProjectTasksTab";
 import { ProjectDailyLogsTab } from "@/components/project-details/ProjectDailyLogsTab";
 import { ProjectPunchListTab } from "@/components/project-details/ProjectPunchListTab";
 import { ProjectZohoExpenseTab } from "@/components/project-details/ProjectZohoExpenseTab";
+import { ProjectChangeOrdersTab } from "@/components/project-details/ProjectChangeOrdersTab";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth-unified";
 
@@ -255,7 +257,7 @@ export default function ProjectDetails() {
           <div className="overflow-x-auto mb-6">
             <TabsList className={cn(
               "grid grid-flow-col auto-cols-max w-max sm:w-full gap-1 bg-white border border-kolmo-primary/10 p-1",
-              user?.role === 'client' ? 'sm:grid-cols-6' : 'sm:grid-cols-9'
+              user?.role === 'client' ? 'sm:grid-cols-6' : 'sm:grid-cols-10'
             )}>
               <TabsTrigger value="updates" className="data-[state=active]:bg-kolmo-accent data-[state=active]:text-white">
                 <TrendingUp className="h-4 w-4 mr-2" />
@@ -286,6 +288,12 @@ export default function ProjectDetails() {
                 <DollarSign className="h-4 w-4 mr-2" />
                 Financials
               </TabsTrigger>
+              {user?.role !== 'client' && (
+                <TabsTrigger value="changeorders" className="data-[state=active]:bg-kolmo-accent data-[state=active]:text-white">
+                  <FileDiff className="h-4 w-4 mr-2" />
+                  Change Orders
+                </TabsTrigger>
+              )}
               <TabsTrigger value="messages" className="data-[state=active]:bg-kolmo-accent data-[state=active]:text-white">
                 <MessageSquare className="h-4 w-4 mr-2" />
                 Messages
@@ -329,6 +337,11 @@ export default function ProjectDetails() {
             <TabsContent value="financials" className="mt-0 p-6">
               {activeTab === 'financials' && <ProjectFinanceTab projectId={projectId} />}
             </TabsContent>
+            {user?.role !== 'client' && (
+              <TabsContent value="changeorders" className="mt-0 p-6">
+                {activeTab === 'changeorders' && <ProjectChangeOrdersTab projectId={projectId} />}
+              </TabsContent>
+            )}
             <TabsContent value="messages" className="mt-0 p-6">
               {activeTab === 'messages' && <ProjectMessagesTab projectId={projectId} />}
             </TabsContent>
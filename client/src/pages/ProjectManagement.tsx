@@ -100,6 +100,52 @@ export default function ProjectManagement() {
     },
   });
 
+  // Archive/restore keep finished jobs out of the default list without deleting them
+  const invalidateProjectLists = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects?archived=only"] });
+  };
+
+  const archiveProjectMutation = useMutation({
+    mutationFn: async (project: Project) => {
+      return await apiRequest("POST", `/api/projects/${project.id}/admin/archive`, {});
+    },
+    onSuccess: (_, project) => {
+      invalidateProjectLists();
+      toast({
+        title: "Project archived",
+        description: `${project.name} is now read-only and hidden from the default list.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to archive project",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreProjectMutation = useMutation({
+    mutationFn: async (project: Project) => {
+      return await apiRequest("POST", `/api/projects/${project.id}/admin/restore`, {});
+    },
+    onSuccess: (_, project) => {
+      invalidateProjectLists();
+      toast({
+        title: "Project restored",
+        description: `${project.name} has been restored.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore project",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleDeleteProject = (project: Project) => {
     setProjectToDelete(project);
     setIsDeleteDialogOpen(true);
@@ -118,6 +164,9 @@ export default function ProjectManagement() {
       }
   }, [user, navigate]);
 
+  // Archived projects are only returned when explicitly requested
+  const showArchived = statusFilter === "archived";
+
   // Get all projects
   const {
     data: projects = [],
@@ -125,7 +174,7 @@ export default function ProjectManagement() {
     isError: projectsError,
     refetch: refetchProjects,
   } = useQuery<Project[], Error>({
-    queryKey: ["/api/projects"],
+    queryKey: [showArchived ? "/api/projects?archived=only" : "/api/projects"],
     queryFn: getQueryFn({ on401: "throw" }),
     enabled: user?.role === 'admin', // Ensure enabled only when appropriate
   });
@@ -142,7 +191,7 @@ export default function ProjectManagement() {
 
   // Filter projects based on status and search query
   const filteredProjects = projects.filter(project => {
-    const matchesStatus = statusFilter === "all" || project.status === statusFilter;
+    const matchesStatus = statusFilter === "all" || showArchived || project.status === statusFilter;
     const matchesSearch =
       project.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       project.address?.toLowerCase().includes(searchQuery.toLowerCase()) || // Add null checks
@@ -207,6 +256,7 @@ export default function ProjectManagement() {
                   <SelectItem value="in_progress">In Progress</SelectItem>
                   <SelectItem value="on_hold">On Hold</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="archived">Archived</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -247,7 +297,7 @@ export default function ProjectManagement() {
               </Button>
             </div>
             <CardDescription>
-              All construction and renovation projects
+              {showArchived ? "Archived projects (read-only)" : "All construction and renovation projects"}
             </CardDescription>
           </CardHeader>
           <CardContent className="px-0 sm:px-6">
@@ -260,6 +310,8 @@ export default function ProjectManagement() {
                     onEditProject={openEditDialog} // Pass handler from hook
                     onDeleteProject={handleDeleteProject}
                     onTriggerMilestone={handleTriggerMilestone}
+                    onArchiveProject={(project) => archiveProjectMutation.mutate(project)}
+                    onRestoreProject={(project) => restoreProjectMutation.mutate(project)}
                 />
                 {/* --- END MODIFIED --- */}
              </div>
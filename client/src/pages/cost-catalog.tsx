@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Home, Plus, Edit, Trash2, Percent, Package, FileText, Landmark } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { theme } from "@/config/theme";
+import { CatalogItemDialog } from "@/components/quotes/CatalogItemDialog";
+import { BulkPriceUpdateDialog } from "@/components/quotes/BulkPriceUpdateDialog";
+import { QuoteTemplateDialog } from "@/components/quotes/QuoteTemplateDialog";
+import { TaxRateTablesTab } from "@/components/quotes/TaxRateTablesTab";
+import type { CostCatalogItem, QuoteTemplateWithItems } from "@shared/schema";
+import { catalogSellPrice } from "@shared/cost-catalog";
+
+const CATALOG_KEY = "/api/cost-catalog?includeInactive=true";
+const TEMPLATES_KEY = "/api/quote-templates?includeInactive=true";
+
+export default function CostCatalogPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [editingItem, setEditingItem] = useState<CostCatalogItem | null>(null);
+  const [itemDialogOpen, setItemDialogOpen] = useState(false);
+  const [bulkDialogOpen, setBulkDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<QuoteTemplateWithItems | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+
+  const { data: catalogItems = [], isLoading: catalogLoading } = useQuery<CostCatalogItem[]>({
+    queryKey: [CATALOG_KEY],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const { data: templates = [], isLoading: templatesLoading } = useQuery<QuoteTemplateWithItems[]>({
+    queryKey: [TEMPLATES_KEY],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const categories = Array.from(new Set(catalogItems.map(item => item.category))).sort();
+
+  const toggleItemMutation = useMutation({
+    mutationFn: async (item: CostCatalogItem) => {
+      return await apiRequest("PATCH", `/api/cost-catalog/${item.id}`, { isActive: !item.isActive });
+    },
+    onSuccess: (item: CostCatalogItem) => {
+      toast({
+        title: item.isActive ? "Item Restored" : "Item Retired",
+        description: item.isActive
+          ? "The item is available in the quote builder again"
+          : "The item no longer appears in the quote builder",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/cost-catalog"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleTemplateMutation = useMutation({
+    mutationFn: async (template: QuoteTemplateWithItems) => {
+      return await apiRequest("PATCH", `/api/quote-templates/${template.id}`, { isActive: !template.isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/quote-templates"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: number) => {
+      return await apiRequest("DELETE", `/api/quote-templates/${templateId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Template Deleted", description: "The quote template has been deleted" });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/quote-templates"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleSelected = (itemId: number, checked: boolean) => {
+    setSelectedIds(current => checked ? [...current, itemId] : current.filter(id => id !== itemId));
+  };
+
+  const openItemDialog = (item: CostCatalogItem | null) => {
+    setEditingItem(item);
+    setItemDialogOpen(true);
+  };
+
+  const openTemplateDialog = (template: QuoteTemplateWithItems | null) => {
+    setEditingTemplate(template);
+    setTemplateDialogOpen(true);
+  };
+
+  const headerCell = "px-4 py-3 font-semibold";
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Navigation */}
+      <div className="flex items-center gap-4 mb-4">
+        <Link href="/quotes">
+          <Button variant="ghost" size="sm" style={{ color: theme.colors.textMuted }}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Quotes
+          </Button>
+        </Link>
+        <div className="text-sm" style={{ color: theme.colors.textMuted }}>
+          <Link href="/" className="hover:underline">
+            <Home className="h-4 w-4 inline mr-1" />
+            Dashboard
+          </Link>
+          <span className="mx-2">/</span>
+          <Link href="/quotes" className="hover:underline">Quotes</Link>
+          <span className="mx-2">/</span>
+          <span style={{ color: theme.colors.primary }}>Catalog & Templates</span>
+        </div>
+      </div>
+
+      <div>
+        <h1 className="text-3xl font-bold" style={{ color: theme.colors.primary }}>
+          Cost Catalog & Templates
+        </h1>
+        <p style={{ color: theme.colors.textMuted }}>
+          Standard costs and markups, and starting points for new quotes
+        </p>
+      </div>
+
+      <Tabs defaultValue="catalog">
+        <TabsList>
+          <TabsTrigger value="catalog">
+            <Package className="h-4 w-4 mr-2" />
+            Cost Catalog
+          </TabsTrigger>
+          <TabsTrigger value="templates">
+            <FileText className="h-4 w-4 mr-2" />
+            Quote Templates
+          </TabsTrigger>
+          <TabsTrigger value="tax-rates">
+            <Landmark className="h-4 w-4 mr-2" />
+            Tax Rates
+          </TabsTrigger>
+        </TabsList>
+
+        {/* Cost Catalog */}
+        <TabsContent value="catalog" className="space-y-4">
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setBulkDialogOpen(true)} disabled={catalogItems.length === 0}>
+              <Percent className="h-4 w-4 mr-2" />
+              Bulk Price Update
+            </Button>
+            <Button
+              onClick={() => openItemDialog(null)}
+              className="text-white"
+              style={{ backgroundColor: theme.colors.accent }}
+              data-testid="button-add-catalog-item"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Item
+            </Button>
+          </div>
+
+          <Card>
+            {catalogLoading ? (
+              <CardContent className="py-10 text-center" style={{ color: theme.colors.textMuted }}>
+                Loading catalog...
+              </CardContent>
+            ) : catalogItems.length === 0 ? (
+              <CardContent className="py-10 text-center" style={{ color: theme.colors.textMuted }}>
+                No catalog items yet. Add your standard labor, material and subcontract costs.
+              </CardContent>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr style={{ borderBottom: `1px solid ${theme.colors.border}`, backgroundColor: theme.colors.surfaceLight, color: theme.colors.textMuted }}>
+                      <th className="px-4 py-3 w-8" />
+                      <th className={`${headerCell} text-left`}>Category</th>
+                      <th className={`${headerCell} text-left`}>Description</th>
+                      <th className={`${headerCell} text-left`}>Unit</th>
+                      <th className={`${headerCell} text-right`}>Cost</th>
+                      <th className={`${headerCell} text-right`}>Markup</th>
+                      <th className={`${headerCell} text-right`}>Quoted Price</th>
+                      <th className={`${headerCell} text-left`}>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {catalogItems.map(item => (
+                      <tr
+                        key={item.id}
+                        style={{ borderBottom: `1px solid ${theme.colors.border}`, opacity: item.isActive ? 1 : 0.55 }}
+                      >
+                        <td className="px-4 py-3">
+                          <Checkbox
+                            checked={selectedIds.includes(item.id)}
+                            disabled={!item.isActive}
+                            onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                          />
+                        </td>
+                        <td className="px-4 py-3">{item.category}</td>
+                        <td className="px-4 py-3">
+                          {item.description}
+                          {!item.isActive && <Badge variant="outline" className="ml-2">Retired</Badge>}
+                        </td>
+                        <td className="px-4 py-3">{item.unit}</td>
+                        <td className="px-4 py-3 text-right">{formatCurrency(item.defaultUnitPrice)}</td>
+                        <td className="px-4 py-3 text-right">{parseFloat(item.markupPercentage)}%</td>
+                        <td className="px-4 py-3 text-right font-medium">
+                          {formatCurrency(catalogSellPrice(item.defaultUnitPrice, item.markupPercentage))}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openItemDialog(item)} title="Edit">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleItemMutation.mutate(item)}
+                              disabled={toggleItemMutation.isPending}
+                            >
+                              {item.isActive ? "Retire" : "Restore"}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </TabsContent>
+
+        {/* Quote Templates */}
+        <TabsContent value="templates" className="space-y-4">
+          <div className="flex justify-end">
+            <Button
+              onClick={() => openTemplateDialog(null)}
+              className="text-white"
+              style={{ backgroundColor: theme.colors.accent }}
+              data-testid="button-add-quote-template"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </Button>
+          </div>
+
+          <Card>
+            {templatesLoading ? (
+              <CardContent className="py-10 text-center" style={{ color: theme.colors.textMuted }}>
+                Loading templates...
+              </CardContent>
+            ) : templates.length === 0 ? (
+              <CardContent className="py-10 text-center" style={{ color: theme.colors.textMuted }}>
+                No quote templates yet. Templates are offered when a quote's project type matches.
+              </CardContent>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr style={{ borderBottom: `1px solid ${theme.colors.border}`, backgroundColor: theme.colors.surfaceLight, color: theme.colors.textMuted }}>
+                      <th className={`${headerCell} text-left`}>Template</th>
+                      <th className={`${headerCell} text-left`}>Project Type</th>
+                      <th className={`${headerCell} text-right`}>Line Items</th>
+                      <th className={`${headerCell} text-left`}>Payment Schedule</th>
+                      <th className={`${headerCell} text-left`}>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {templates.map(template => {
+                      const stages = template.paymentStages as { label: string }[] | null;
+                      return (
+                        <tr
+                          key={template.id}
+                          style={{ borderBottom: `1px solid ${theme.colors.border}`, opacity: template.isActive ? 1 : 0.55 }}
+                        >
+                          <td className="px-4 py-3">
+                            <div className="font-medium">
+                              {template.name}
+                              {!template.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                            </div>
+                            {template.description && (
+                              <div className="text-xs" style={{ color: theme.colors.textMuted }}>{template.description}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">{template.projectType}</td>
+                          <td className="px-4 py-3 text-right">{template.items.length}</td>
+                          <td className="px-4 py-3">{stages ? `${stages.length} stages` : "Standard"}</td>
+                          <td className="px-4 py-3">
+                            <div className="flex gap-1">
+                              <Button variant="ghost" size="sm" onClick={() => openTemplateDialog(template)} title="Edit">
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => toggleTemplateMutation.mutate(template)}
+                                disabled={toggleTemplateMutation.isPending}
+                              >
+                                {template.isActive ? "Deactivate" : "Activate"}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  if (confirm("Are you sure you want to delete this template?")) {
+                                    deleteTemplateMutation.mutate(template.id);
+                                  }
+                                }}
+                                disabled={deleteTemplateMutation.isPending}
+                                className="text-red-600 hover:text-red-700"
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </TabsContent>
+
+        {/* Tax Rate Tables */}
+        <TabsContent value="tax-rates">
+          <TaxRateTablesTab />
+        </TabsContent>
+      </Tabs>
+
+      <CatalogItemDialog
+        item={editingItem}
+        categories={categories}
+        open={itemDialogOpen}
+        onOpenChange={setItemDialogOpen}
+      />
+      <BulkPriceUpdateDialog
+        selectedIds={selectedIds}
+        categories={categories}
+        open={bulkDialogOpen}
+        onOpenChange={setBulkDialogOpen}
+        onUpdated={() => setSelectedIds([])}
+      />
+      <QuoteTemplateDialog
+        template={editingTemplate}
+        catalogItems={catalogItems}
+        open={templateDialogOpen}
+        onOpenChange={setTemplateDialogOpen}
+      />
+    </div>
+  );
+}
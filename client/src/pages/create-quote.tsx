@@ -1,12 +1,12 @@
 import { useState, useCallback, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { z } from "zod";
 import { 
   ArrowLeft, ArrowRight, Check, User, FileText, DollarSign, Loader2,
-  Plus, Trash2, Package, Image, Calculator, Percent, Pencil, Save, X, Search
+  Plus, Trash2, Package, Image, Calculator, Percent, Pencil, Save, X, Search, AlertTriangle
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -38,9 +38,19 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
 import { theme } from "@/config/theme";
 import { formatCurrency, formatPhoneNumber } from "@/lib/utils";
+import { CatalogItemPicker } from "@/components/quotes/CatalogItemPicker";
+import type { QuoteTemplateWithItems } from "@shared/schema";
+import type { AppliedQuoteTemplate } from "@shared/cost-catalog";
+import { impliedMarkupPercentage } from "@shared/quote-margins";
+import type { TaxRateLookupResult } from "@shared/tax-rates";
+import {
+  QUOTE_PAYMENT_STAGE_LABELS,
+  sumStagePercentages,
+  type PaymentStageValues,
+} from "@shared/quote-payment-stages";
 
 interface LineItem {
   id: string;
@@ -52,6 +62,7 @@ interface LineItem {
   discountPercentage: number;
   discountAmount: number;
   total: number;
+  unitCost?: number | null; // Internal; set when the item comes from the cost catalog
 }
 
 const createQuoteSchema = z.object({
@@ -66,6 +77,7 @@ const createQuoteSchema = z.object({
   projectType: z.string().min(1, "Project type is required"),
   location: z.string().optional(),
   description: z.string().optional(),
+  scopeDescription: z.string().optional(),
   notes: z.string().optional(),
   taxRate: z.coerce.number().min(0).max(100).default(8.5),
   discountType: z.enum(["percentage", "fixed"]).default("percentage"),
@@ -113,6 +125,18 @@ const UNITS = [
   "each",
 ];
 
+// Catalog and template items can use categories and units outside the lists above
+const withOption = (options: string[], value?: string) =>
+  value && !options.includes(value) ? [...options, value] : options;
+
+// One line, e.g. "123 Main St, Seattle, WA 98101", so the tax rate can be looked up again later
+const formatCustomerAddress = (data: Pick<CreateQuoteFormData, "customerAddress" | "customerCity" | "customerState" | "customerZip">) => {
+  const street = data.customerAddress?.trim();
+  if (!street) return null;
+  const region = [data.customerState?.trim(), data.customerZip?.trim()].filter(Boolean).join(" ");
+  return [street, data.customerCity?.trim(), region].filter(Boolean).join(", ");
+};
+
 export default function CreateQuotePage() {
   const [currentStep, setCurrentStep] = useState(1);
   const [lineItems, setLineItems] = useState<LineItem[]>([]);
@@ -132,11 +156,16 @@ export default function CreateQuotePage() {
   const queryClient = useQueryClient();
   
   // Tax rate lookup state
-  const [suggestedTaxRate, setSuggestedTaxRate] = useState<number | null>(null);
+  const [taxLookup, setTaxLookup] = useState<TaxRateLookupResult | null>(null);
   const [taxLookupLoading, setTaxLookupLoading] = useState(false);
   const [suggestedTaxAccepted, setSuggestedTaxAccepted] = useState(false);
   const [expandAddress, setExpandAddress] = useState(false);
 
+  // Quote template state; a template's payment schedule replaces the three-part one
+  const [appliedTemplateName, setAppliedTemplateName] = useState<string | null>(null);
+  const [templateLoading, setTemplateLoading] = useState(false);
+  const [paymentStages, setPaymentStages] = useState<PaymentStageValues[] | null>(null);
+
   const form = useForm<CreateQuoteFormData>({
     resolver: zodResolver(createQuoteSchema),
     defaultValues: {
@@ -151,6 +180,7 @@ export default function CreateQuotePage() {
       projectType: "",
       location: "",
       description: "",
+      scopeDescription: "",
       notes: "",
       taxRate: 8.5,
       discountType: "percentage",
@@ -183,6 +213,51 @@ export default function CreateQuotePage() {
 
   const totals = calculateTotals();
 
+  const { data: templates = [] } = useQuery<QuoteTemplateWithItems[]>({
+    queryKey: [`/api/quote-templates?projectType=${encodeURIComponent(formValues.projectType)}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!formValues.projectType,
+  });
+
+  const applyTemplate = async (templateId: string) => {
+    setTemplateLoading(true);
+    try {
+      const applied: AppliedQuoteTemplate = await apiRequest("GET", `/api/quote-templates/${templateId}/apply`);
+      const stamp = Date.now();
+      const templateItems: LineItem[] = applied.lineItems.map((item, index) => ({
+        id: `temp-${stamp}-${index}`,
+        category: item.category,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unitPrice: item.unitPrice,
+        discountPercentage: 0,
+        discountAmount: 0,
+        total: item.quantity * item.unitPrice,
+        unitCost: item.unitCost,
+      }));
+
+      setLineItems(current => [...current, ...templateItems]);
+      if (applied.scopeDescription) {
+        form.setValue("scopeDescription", applied.scopeDescription);
+      }
+      setPaymentStages(applied.paymentStages);
+      setAppliedTemplateName(applied.name);
+      toast({
+        title: "Template Applied",
+        description: `Added ${templateItems.length} line items from "${applied.name}".`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply template",
+        variant: "destructive",
+      });
+    } finally {
+      setTemplateLoading(false);
+    }
+  };
+
   const calculateLineItemTotal = (quantity: number, unitPrice: number, discountPercentage: number, discountAmount: number): number => {
     const subtotal = quantity * unitPrice;
     let discount = 0;
@@ -197,7 +272,7 @@ export default function CreateQuotePage() {
   const lookupTaxRate = useCallback(async (street: string, city: string, zip: string) => {
     if (!street || street.trim().length < 3) {
       console.log("[Tax Lookup] Address too short, clearing suggestion");
-      setSuggestedTaxRate(null);
+      setTaxLookup(null);
       return;
     }
 
@@ -205,25 +280,18 @@ export default function CreateQuotePage() {
     setTaxLookupLoading(true);
     try {
       // Call backend endpoint with separated address components
-      const response = await apiRequest("POST", "/api/quotes/lookup/tax-rate", { 
+      const response: TaxRateLookupResult = await apiRequest("POST", "/api/quotes/lookup/tax-rate", { 
         address: street.trim(),
         city: city.trim(),
         zip: zip.trim()
       });
       
       console.log("[Tax Lookup] Response received:", response);
-      
-      if (response && response.taxRate) {
-        console.log("[Tax Lookup] Setting suggested rate:", response.taxRate);
-        setSuggestedTaxRate(response.taxRate);
-      } else {
-        console.log("[Tax Lookup] No rate in response");
-        setSuggestedTaxRate(null);
-      }
+      setTaxLookup(response);
     } catch (error) {
+      // No guessed rate here: the server already answers with a flagged fallback when DOR is down
       console.error("Tax rate lookup error:", error);
-      // Don't set to null on error - keep trying to show something
-      setSuggestedTaxRate(8.5); // Default WA rate
+      setTaxLookup(null);
     } finally {
       setTaxLookupLoading(false);
     }
@@ -274,6 +342,7 @@ export default function CreateQuotePage() {
       discountPercentage: newItem.discountPercentage || 0,
       discountAmount: discountAmount,
       total: subtotal - discountAmount,
+      unitCost: newItem.unitCost ?? null,
     };
 
     setLineItems([...lineItems, item]);
@@ -348,7 +417,9 @@ export default function CreateQuotePage() {
   };
 
   const paymentTotal = Number(formValues.downPaymentPercentage || 0) + Number(formValues.milestonePaymentPercentage || 0) + Number(formValues.finalPaymentPercentage || 0);
-  const isPaymentValid = paymentTotal === 100;
+  const isPaymentValid = paymentStages
+    ? sumStagePercentages(paymentStages) === 100
+    : paymentTotal === 100;
 
   const createQuoteMutation = useMutation({
     mutationFn: async (data: CreateQuoteFormData) => {
@@ -359,10 +430,11 @@ export default function CreateQuotePage() {
         customerName: data.customerName,
         customerEmail: data.customerEmail,
         customerPhone: data.customerPhone || null,
-        customerAddress: data.customerAddress || null,
+        customerAddress: formatCustomerAddress(data),
         projectType: data.projectType,
         location: data.location || null,
         description: data.description || null,
+        scopeDescription: data.scopeDescription || null,
         notes: data.notes || null,
         subtotal,
         discountPercentage: data.discountType === "percentage" ? data.discountValue : 0,
@@ -373,6 +445,7 @@ export default function CreateQuotePage() {
         downPaymentPercentage: data.downPaymentPercentage,
         milestonePaymentPercentage: data.milestonePaymentPercentage,
         finalPaymentPercentage: data.finalPaymentPercentage,
+        ...(paymentStages ? { paymentStages } : {}),
         validUntil: new Date(Date.now() + data.validDays * 24 * 60 * 60 * 1000),
         lineItems: lineItems.map(item => ({
           category: item.category,
@@ -383,6 +456,8 @@ export default function CreateQuotePage() {
           discountPercentage: item.discountPercentage,
           discountAmount: item.discountAmount,
           total: item.total,
+          unitCost: item.unitCost ?? null,
+          markupPercentage: impliedMarkupPercentage(item.unitCost, item.unitPrice),
         })),
       });
       return response;
@@ -412,7 +487,9 @@ export default function CreateQuotePage() {
     } else if (step === 2) {
       fieldsToValidate = ["title", "projectType"];
     } else if (step === 4) {
-      fieldsToValidate = ["taxRate", "discountValue", "downPaymentPercentage", "milestonePaymentPercentage", "finalPaymentPercentage"];
+      fieldsToValidate = paymentStages
+        ? ["taxRate", "discountValue"]
+        : ["taxRate", "discountValue", "downPaymentPercentage", "milestonePaymentPercentage", "finalPaymentPercentage"];
     }
     // Step 3, 5, and 6 don't require form validation (no required fields beyond what's already filled)
 
@@ -765,6 +842,34 @@ export default function CreateQuotePage() {
                     />
                   </div>
 
+                  {templates.length > 0 && (
+                    <div
+                      className="p-3 rounded-lg space-y-2"
+                      style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.secondary, 0.1) }}
+                    >
+                      <p className="text-sm font-medium" style={{ color: theme.colors.primary }}>
+                        Start from a {formValues.projectType} template
+                      </p>
+                      <Select value="" onValueChange={applyTemplate} disabled={templateLoading}>
+                        <SelectTrigger data-testid="select-quote-template">
+                          <SelectValue placeholder={templateLoading ? "Applying template..." : "Choose a template"} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {templates.map((template) => (
+                            <SelectItem key={template.id} value={String(template.id)}>
+                              {template.name} ({template.items.length} items)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {appliedTemplateName && (
+                        <p className="text-xs" style={{ color: theme.colors.textMuted }}>
+                          Applied "{appliedTemplateName}". Line items, scope and payment schedule can still be edited.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <FormField
                     control={form.control}
                     name="description"
@@ -784,6 +889,25 @@ export default function CreateQuotePage() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="scopeDescription"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Scope of Work</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="What is included in the work, and what is not..."
+                            className="min-h-24"
+                            {...field}
+                            data-testid="input-scope-description"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="notes"
@@ -829,6 +953,18 @@ export default function CreateQuotePage() {
                       <h4 className="font-medium mb-3" style={{ color: theme.colors.primary }}>
                         Add New Item
                       </h4>
+                      <div className="mb-3">
+                        <CatalogItemPicker
+                          onSelect={(catalogItem, unitPrice) => setNewItem({
+                            ...newItem,
+                            category: catalogItem.category,
+                            description: catalogItem.description,
+                            unit: catalogItem.unit,
+                            unitPrice,
+                            unitCost: parseFloat(catalogItem.defaultUnitPrice),
+                          })}
+                        />
+                      </div>
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                         <div>
                           <label className="text-sm font-medium">Category *</label>
@@ -840,7 +976,7 @@ export default function CreateQuotePage() {
                               <SelectValue placeholder="Select category" />
                             </SelectTrigger>
                             <SelectContent>
-                              {CATEGORIES.map((cat) => (
+                              {withOption(CATEGORIES, newItem.category).map((cat) => (
                                 <SelectItem key={cat} value={cat}>{cat}</SelectItem>
                               ))}
                             </SelectContent>
@@ -876,7 +1012,7 @@ export default function CreateQuotePage() {
                               <SelectValue placeholder="Select unit" />
                             </SelectTrigger>
                             <SelectContent>
-                              {UNITS.map((unit) => (
+                              {withOption(UNITS, newItem.unit).map((unit) => (
                                 <SelectItem key={unit} value={unit}>{unit}</SelectItem>
                               ))}
                             </SelectContent>
@@ -973,7 +1109,7 @@ export default function CreateQuotePage() {
                                           <SelectValue />
                                         </SelectTrigger>
                                         <SelectContent>
-                                          {CATEGORIES.map((cat) => (
+                                          {withOption(CATEGORIES, editingItem.category).map((cat) => (
                                             <SelectItem key={cat} value={cat}>{cat}</SelectItem>
                                           ))}
                                         </SelectContent>
@@ -1003,7 +1139,7 @@ export default function CreateQuotePage() {
                                           <SelectValue />
                                         </SelectTrigger>
                                         <SelectContent>
-                                          {UNITS.map((u) => (
+                                          {withOption(UNITS, editingItem.unit).map((u) => (
                                             <SelectItem key={u} value={u}>{u}</SelectItem>
                                           ))}
                                         </SelectContent>
@@ -1228,27 +1364,44 @@ export default function CreateQuotePage() {
                                   </Button>
                                 )}
                               </div>
-                              {suggestedTaxRate !== null && !suggestedTaxAccepted && (
-                                <div className="flex items-center justify-between p-3 rounded-lg" style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.secondary, 0.1) }}>
-                                  <span className="text-sm" style={{ color: theme.colors.secondary }}>
-                                    <strong>Suggested: {suggestedTaxRate.toFixed(2)}%</strong> based on customer address
-                                  </span>
-                                  <Button
-                                    type="button"
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => {
-                                      form.setValue("taxRate", suggestedTaxRate);
-                                      setSuggestedTaxAccepted(true);
-                                    }}
-                                    className="text-xs"
-                                    style={{ color: theme.colors.secondary }}
-                                    data-testid="button-apply-suggested-tax"
-                                  >
-                                    Apply
-                                  </Button>
+                              {taxLookup && !suggestedTaxAccepted && (
+                                <div className="space-y-2 p-3 rounded-lg" style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.secondary, 0.1) }}>
+                                  <div className="flex items-center justify-between">
+                                    <span className="text-sm" style={{ color: theme.colors.secondary }}>
+                                      <strong>{taxLookup.isFallback ? "Estimated" : "Suggested"}: {taxLookup.taxRate.toFixed(2)}%</strong>
+                                      {taxLookup.jurisdiction
+                                        ? ` for ${taxLookup.jurisdiction} (location code ${taxLookup.locationCode})`
+                                        : " based on customer address"}
+                                    </span>
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => {
+                                        form.setValue("taxRate", taxLookup.taxRate);
+                                        setSuggestedTaxAccepted(true);
+                                      }}
+                                      className="text-xs"
+                                      style={{ color: theme.colors.secondary }}
+                                      data-testid="button-apply-suggested-tax"
+                                    >
+                                      Apply
+                                    </Button>
+                                  </div>
+                                  {taxLookup.warning && (
+                                    <p className={`flex items-start gap-1 text-xs ${taxLookup.isFallback ? "text-red-600" : "text-amber-700"}`}>
+                                      <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                      {taxLookup.warning}
+                                    </p>
+                                  )}
                                 </div>
                               )}
+                              {taxLookup?.isFallback && suggestedTaxAccepted && Number(formValues.taxRate) === taxLookup.taxRate && (
+                                <p className="flex items-start gap-1 text-xs text-red-600">
+                                  <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                  This rate is an estimate. Confirm it before the quote is sent.
+                                </p>
+                              )}
                             </div>
                             <FormMessage />
                           </FormItem>
@@ -1264,88 +1417,128 @@ export default function CreateQuotePage() {
                     <h4 className="font-medium mb-4" style={{ color: theme.colors.primary }}>
                       Payment Schedule
                     </h4>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="downPaymentPercentage"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Down Payment (%)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                min="0"
-                                max="100"
-                                {...field}
-                                data-testid="input-down-payment"
-                              />
-                            </FormControl>
-                            <FormDescription>
-                              {formatCurrency(totals.total * (formValues.downPaymentPercentage / 100))}
-                            </FormDescription>
-                          </FormItem>
-                        )}
-                      />
+                    {paymentStages ? (
+                      <div className="space-y-2">
+                        {paymentStages.map((stage, index) => (
+                          <div
+                            key={index}
+                            className="flex justify-between items-center p-3 rounded-lg text-sm"
+                            style={{ backgroundColor: theme.colors.surfaceLight }}
+                          >
+                            <div>
+                              <p className="font-medium">{stage.label}</p>
+                              <p className="text-xs" style={{ color: theme.colors.textMuted }}>
+                                {QUOTE_PAYMENT_STAGE_LABELS[stage.stageType]}
+                                {stage.description ? ` · ${stage.description}` : ""}
+                              </p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-medium">{formatCurrency(totals.total * (stage.percentage / 100))}</p>
+                              <p className="text-xs" style={{ color: theme.colors.textMuted }}>{stage.percentage}%</p>
+                            </div>
+                          </div>
+                        ))}
+                        <div className="flex justify-between items-center gap-4">
+                          <p className="text-xs" style={{ color: theme.colors.textMuted }}>
+                            Schedule from the quote template. Stages can be adjusted after the quote is created.
+                          </p>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPaymentStages(null)}
+                            data-testid="button-use-standard-schedule"
+                          >
+                            Use standard schedule
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="downPaymentPercentage"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Down Payment (%)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  {...field}
+                                  data-testid="input-down-payment"
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                {formatCurrency(totals.total * (formValues.downPaymentPercentage / 100))}
+                              </FormDescription>
+                            </FormItem>
+                          )}
+                        />
 
-                      <FormField
-                        control={form.control}
-                        name="milestonePaymentPercentage"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Milestone Payment (%)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                min="0"
-                                max="100"
-                                {...field}
-                                data-testid="input-milestone-payment"
-                              />
-                            </FormControl>
-                            <FormDescription>
-                              {formatCurrency(totals.total * (formValues.milestonePaymentPercentage / 100))}
-                            </FormDescription>
-                          </FormItem>
-                        )}
-                      />
+                        <FormField
+                          control={form.control}
+                          name="milestonePaymentPercentage"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Milestone Payment (%)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  {...field}
+                                  data-testid="input-milestone-payment"
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                {formatCurrency(totals.total * (formValues.milestonePaymentPercentage / 100))}
+                              </FormDescription>
+                            </FormItem>
+                          )}
+                        />
 
-                      <FormField
-                        control={form.control}
-                        name="finalPaymentPercentage"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Final Payment (%)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                min="0"
-                                max="100"
-                                {...field}
-                                data-testid="input-final-payment"
-                              />
-                            </FormControl>
-                            <FormDescription>
-                              {formatCurrency(totals.total * (formValues.finalPaymentPercentage / 100))}
-                            </FormDescription>
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    
-                    {paymentTotal !== 100 && (
-                      <div
-                        className="mt-4 p-3 rounded-lg"
-                        style={{
-                          backgroundColor: paymentTotal === 100 
-                            ? theme.getColorWithOpacity(theme.colors.secondary, 0.1)
-                            : theme.getColorWithOpacity('#ef4444', 0.1),
-                        }}
-                      >
-                        <p className="text-sm font-medium" style={{ color: paymentTotal === 100 ? theme.colors.secondary : '#ef4444' }}>
-                          Payment percentages total: {paymentTotal}% 
-                          {paymentTotal !== 100 && " (should equal 100%)"}
-                        </p>
+                        <FormField
+                          control={form.control}
+                          name="finalPaymentPercentage"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Final Payment (%)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  {...field}
+                                  data-testid="input-final-payment"
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                {formatCurrency(totals.total * (formValues.finalPaymentPercentage / 100))}
+                              </FormDescription>
+                            </FormItem>
+                          )}
+                        />
                       </div>
+
+                      {paymentTotal !== 100 && (
+                        <div
+                          className="mt-4 p-3 rounded-lg"
+                          style={{
+                            backgroundColor: paymentTotal === 100 
+                              ? theme.getColorWithOpacity(theme.colors.secondary, 0.1)
+                              : theme.getColorWithOpacity('#ef4444', 0.1),
+                          }}
+                        >
+                          <p className="text-sm font-medium" style={{ color: paymentTotal === 100 ? theme.colors.secondary : '#ef4444' }}>
+                            Payment percentages total: {paymentTotal}% 
+                            {paymentTotal !== 100 && " (should equal 100%)"}
+                          </p>
+                        </div>
+                      )}
+                      </>
                     )}
                   </div>
 
@@ -1484,6 +1677,14 @@ export default function CreateQuotePage() {
                           <p className="text-sm mt-1">{formValues.description}</p>
                         </div>
                       )}
+                      {formValues.scopeDescription && (
+                        <div className="mt-3">
+                          <span className="text-sm" style={{ color: theme.colors.textMuted }}>
+                            Scope of Work:
+                          </span>
+                          <p className="text-sm mt-1 whitespace-pre-wrap">{formValues.scopeDescription}</p>
+                        </div>
+                      )}
                     </div>
 
                     {/* Line Items Summary */}
@@ -1547,29 +1748,40 @@ export default function CreateQuotePage() {
 
                       <Separator className="my-4" />
 
-                      <div className="grid grid-cols-3 gap-2 text-sm">
-                        <div className="text-center p-2 rounded" style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.primary, 0.1) }}>
-                          <div className="font-medium">Down Payment</div>
-                          <div className="text-lg font-bold" style={{ color: theme.colors.primary }}>
-                            {formatCurrency(totals.total * (formValues.downPaymentPercentage / 100))}
-                          </div>
-                          <div className="text-xs" style={{ color: theme.colors.textMuted }}>{formValues.downPaymentPercentage}%</div>
+                      {paymentStages ? (
+                        <div className="space-y-1 text-sm">
+                          {paymentStages.map((stage, index) => (
+                            <div key={index} className="flex justify-between">
+                              <span>{stage.label} ({stage.percentage}%)</span>
+                              <span className="font-medium">{formatCurrency(totals.total * (stage.percentage / 100))}</span>
+                            </div>
+                          ))}
                         </div>
-                        <div className="text-center p-2 rounded" style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.secondary, 0.1) }}>
-                          <div className="font-medium">Milestone</div>
-                          <div className="text-lg font-bold" style={{ color: theme.colors.secondary }}>
-                            {formatCurrency(totals.total * (formValues.milestonePaymentPercentage / 100))}
+                      ) : (
+                        <div className="grid grid-cols-3 gap-2 text-sm">
+                          <div className="text-center p-2 rounded" style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.primary, 0.1) }}>
+                            <div className="font-medium">Down Payment</div>
+                            <div className="text-lg font-bold" style={{ color: theme.colors.primary }}>
+                              {formatCurrency(totals.total * (formValues.downPaymentPercentage / 100))}
+                            </div>
+                            <div className="text-xs" style={{ color: theme.colors.textMuted }}>{formValues.downPaymentPercentage}%</div>
                           </div>
-                          <div className="text-xs" style={{ color: theme.colors.textMuted }}>{formValues.milestonePaymentPercentage}%</div>
-                        </div>
-                        <div className="text-center p-2 rounded" style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.accent, 0.1) }}>
-                          <div className="font-medium">Final</div>
-                          <div className="text-lg font-bold" style={{ color: theme.colors.accent }}>
-                            {formatCurrency(totals.total * (formValues.finalPaymentPercentage / 100))}
+                          <div className="text-center p-2 rounded" style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.secondary, 0.1) }}>
+                            <div className="font-medium">Milestone</div>
+                            <div className="text-lg font-bold" style={{ color: theme.colors.secondary }}>
+                              {formatCurrency(totals.total * (formValues.milestonePaymentPercentage / 100))}
+                            </div>
+                            <div className="text-xs" style={{ color: theme.colors.textMuted }}>{formValues.milestonePaymentPercentage}%</div>
+                          </div>
+                          <div className="text-center p-2 rounded" style={{ backgroundColor: theme.getColorWithOpacity(theme.colors.accent, 0.1) }}>
+                            <div className="font-medium">Final</div>
+                            <div className="text-lg font-bold" style={{ color: theme.colors.accent }}>
+                              {formatCurrency(totals.total * (formValues.finalPaymentPercentage / 100))}
+                            </div>
+                            <div className="text-xs" style={{ color: theme.colors.textMuted }}>{formValues.finalPaymentPercentage}%</div>
                           </div>
-                          <div className="text-xs" style={{ color: theme.colors.textMuted }}>{formValues.finalPaymentPercentage}%</div>
                         </div>
-                      </div>
+                      )}
                     </div>
 
                     <div className="text-sm" style={{ color: theme.colors.textMuted }}>
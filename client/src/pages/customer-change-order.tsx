@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import type { ChangeOrder, ChangeOrderLineItem } from "@shared/schema";
+import { format } from "date-fns";
+import { CheckCircle2, XCircle, Clock, Loader2, FileText } from "lucide-react";
+import kolmoLogo from "@assets/kolmo-logo (1).png";
+
+type PublicChangeOrder = Omit<ChangeOrder, "accessToken" | "createdById"> & {
+  lineItems: ChangeOrderLineItem[];
+  project: { name: string; address: string | null } | null;
+};
+
+const formatScheduleImpact = (days: number) => {
+  if (days === 0) return "No change to the schedule";
+  const count = Math.abs(days);
+  return `${count} day${count === 1 ? "" : "s"} ${days > 0 ? "added to" : "removed from"} the schedule`;
+};
+
+export default function CustomerChangeOrderPage() {
+  const [, params] = useRoute("/change-order/:token");
+  const token = params?.token;
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [agreed, setAgreed] = useState(false);
+
+  const queryKey = [`/api/change-orders/public/${token}`];
+  const { data: changeOrder, isLoading, error } = useQuery<PublicChangeOrder>({
+    queryKey,
+    enabled: !!token,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async (action: "approve" | "reject") => {
+      return apiRequest("POST", `/api/change-orders/public/${token}/respond`, {
+        action,
+        name,
+        notes: notes || null,
+      });
+    },
+    onSuccess: (_data, action) => {
+      toast({
+        title: action === "approve" ? "Change Order Approved" : "Change Order Declined",
+        description: action === "approve"
+          ? "Thank you. Your project team has been notified."
+          : "Your project team has been notified and will follow up with you.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Unable to Submit Response",
+        description: err.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!token || error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{backgroundColor: '#f5f5f5'}}>
+        <Card className="max-w-md shadow-xl">
+          <CardHeader>
+            <CardTitle style={{color: '#3d4552'}}>Change Order Not Found</CardTitle>
+            <CardDescription>
+              This change order link is invalid or no longer available.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !changeOrder) {
+    return (
+      <div className="min-h-screen" style={{backgroundColor: '#f5f5f5'}}>
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 py-12 space-y-6">
+          <Skeleton className="h-16 w-64" />
+          <Skeleton className="h-64 w-full rounded-2xl" />
+          <Skeleton className="h-48 w-full rounded-2xl" />
+        </div>
+      </div>
+    );
+  }
+
+  const total = parseFloat(changeOrder.total);
+  const isPending = changeOrder.status === "sent";
+
+  return (
+    <div className="min-h-screen" style={{backgroundColor: '#f5f5f5'}}>
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 flex items-center gap-4">
+          <img src={kolmoLogo} alt="Kolmo Construction" className="h-14 w-14 object-contain" />
+          <div>
+            <h1 className="text-2xl font-bold" style={{color: '#3d4552'}}>Change Order {changeOrder.changeOrderNumber}</h1>
+            {changeOrder.project && (
+              <p className="text-sm text-gray-600">
+                {changeOrder.project.name}{changeOrder.project.address ? ` · ${changeOrder.project.address}` : ""}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <Card className="shadow-sm">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle style={{color: '#3d4552'}}>{changeOrder.title}</CardTitle>
+                {changeOrder.description && (
+                  <CardDescription className="mt-2 whitespace-pre-wrap">{changeOrder.description}</CardDescription>
+                )}
+              </div>
+              {changeOrder.status === "approved" && (
+                <Badge className="bg-green-100 text-green-800"><CheckCircle2 className="h-3 w-3 mr-1" />Approved</Badge>
+              )}
+              {changeOrder.status === "rejected" && (
+                <Badge className="bg-red-100 text-red-800"><XCircle className="h-3 w-3 mr-1" />Declined</Badge>
+              )}
+              {isPending && (
+                <Badge className="bg-yellow-100 text-yellow-800"><Clock className="h-3 w-3 mr-1" />Awaiting approval</Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {changeOrder.reason && (
+              <div>
+                <p className="text-sm text-gray-500 mb-1">Reason for change</p>
+                <p className="text-gray-800 whitespace-pre-wrap">{changeOrder.reason}</p>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Item</th>
+                    <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                    <th className="py-2 pr-4 font-medium text-right">Unit Price</th>
+                    <th className="py-2 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changeOrder.lineItems.map((item) => (
+                    <tr key={item.id} className="border-b last:border-0">
+                      <td className="py-3 pr-4">
+                        <p className="font-medium text-gray-900">{item.description}</p>
+                        <p className="text-xs text-gray-500">{item.category}</p>
+                      </td>
+                      <td className="py-3 pr-4 text-right">{parseFloat(item.quantity)} {item.unit}</td>
+                      <td className="py-3 pr-4 text-right">{formatCurrency(item.unitPrice)}</td>
+                      <td className="py-3 text-right">{formatCurrency(item.totalPrice)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <Separator />
+
+            <div className="ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between"><span className="text-gray-500">Subtotal</span><span>{formatCurrency(changeOrder.subtotal)}</span></div>
+              {parseFloat(changeOrder.taxAmount) !== 0 && (
+                <div className="flex justify-between"><span className="text-gray-500">Tax ({parseFloat(changeOrder.taxRate)}%)</span><span>{formatCurrency(changeOrder.taxAmount)}</span></div>
+              )}
+              <div className="flex justify-between text-base font-semibold pt-1" style={{color: '#3d4552'}}>
+                <span>{total < 0 ? "Credit" : "Cost impact"}</span>
+                <span>{formatCurrency(total)}</span>
+              </div>
+              <p className="text-gray-600 pt-2">{formatScheduleImpact(changeOrder.scheduleImpactDays)}</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isPending ? (
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg" style={{color: '#3d4552'}}>Your Approval</CardTitle>
+              <CardDescription>
+                Approving adds this work and its cost to your contract{total > 0 ? " and an invoice will be issued for the amount above" : ""}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="co-name">Full name</Label>
+                <Input id="co-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Your full name" />
+              </div>
+              <div>
+                <Label htmlFor="co-notes">Notes (optional)</Label>
+                <Textarea id="co-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+              </div>
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={agreed}
+                  onChange={(e) => setAgreed(e.target.checked)}
+                />
+                I have reviewed this change order and I am authorized to approve changes to this project.
+              </label>
+              <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                <Button
+                  className="flex-1 text-white"
+                  style={{backgroundColor: '#db973c'}}
+                  disabled={!name.trim() || !agreed || respondMutation.isPending}
+                  onClick={() => respondMutation.mutate("approve")}
+                >
+                  {respondMutation.isPending && respondMutation.variables === "approve" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                  )}
+                  Approve Change Order
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  disabled={!name.trim() || respondMutation.isPending}
+                  onClick={() => respondMutation.mutate("reject")}
+                >
+                  {respondMutation.isPending && respondMutation.variables === "reject" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mr-2" />
+                  )}
+                  Decline
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          changeOrder.respondedAt && (
+            <Card className="shadow-sm">
+              <CardContent className="py-6 flex items-center gap-3 text-sm text-gray-700">
+                <FileText className="h-5 w-5 text-gray-400" />
+                {changeOrder.status === "approved" ? "Approved" : "Declined"} by {changeOrder.respondedByName} on {format(new Date(changeOrder.respondedAt), "MMM d, yyyy 'at' h:mm a")}
+              </CardContent>
+            </Card>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { formatCurrency } from "@/lib/utils";
 import kolmoLogo from "@assets/kolmo-logo (1).png";
 import {
@@ -24,6 +24,18 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { QuoteChatWidget } from "@/components/chat/QuoteChatWidget";
 import { ChatProvider } from "@/contexts/ChatContext";
+import { resolvePaymentStages } from "@shared/quote-payment-stages";
+import type { QuotePaymentStageType } from "@shared/schema";
+import { quoteSignatureInputSchema } from "@shared/quote-signature";
+import { optionGroupKey, selectionTypeOf } from "@shared/quote-options";
+import { QuoteSignaturePad, emptySignatureDraft, type QuoteSignatureDraft } from "@/components/quotes/QuoteSignaturePad";
+
+const STAGE_DISPLAY: Record<QuotePaymentStageType, { description: string; color: string }> = {
+  deposit: { description: 'To secure your project start date', color: '#3d4552' },
+  progress: { description: 'At project milestone completion', color: '#4a6670' },
+  retainage: { description: 'Held until final walkthrough and sign-off', color: '#4a6670' },
+  final: { description: 'Upon project completion', color: '#db973c' },
+};
 
 interface QuoteMedia {
   id: number;
@@ -59,6 +71,14 @@ interface QuoteResponse {
   milestonePaymentPercentage: number;
   finalPaymentPercentage: number;
   milestoneDescription?: string;
+  paymentStages?: Array<{
+    id: number;
+    label: string;
+    description?: string | null;
+    stageType: QuotePaymentStageType;
+    percentage: string;
+    sortOrder: number;
+  }>;
   estimatedStartDate?: string;
   estimatedCompletionDate?: string;
   validUntil: string;
@@ -79,7 +99,11 @@ interface QuoteResponse {
     discountPercentage?: string;
     discountAmount?: string;
     totalPrice: string;
+    selectionType?: string;
+    optionGroup?: string | null;
+    isDefaultSelected?: boolean;
   }>;
+  includedLineItemIds?: number[];
   responses?: Array<{
     id: number;
     action: string;
@@ -88,6 +112,13 @@ interface QuoteResponse {
     message?: string;
     createdAt: string;
   }>;
+  signature?: {
+    signerName: string;
+    signatureType: string;
+    revisionNumber: number | null;
+    documentHash: string;
+    signedAt: string;
+  } | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -130,6 +161,9 @@ export default function CustomerQuotePage() {
   const [customerName, setCustomerName] = useState("");
   const [customerEmail, setCustomerEmail] = useState("");
   const [message, setMessage] = useState("");
+  const [signatureDraft, setSignatureDraft] = useState<QuoteSignatureDraft>(emptySignatureDraft());
+  const [renewalMessage, setRenewalMessage] = useState("");
+  const [renewalRequested, setRenewalRequested] = useState(false);
   const [showBeforeAfter, setShowBeforeAfter] = useState(true);
   const { toast } = useToast();
   const analyticsRef = useRef<QuoteAnalytics | null>(null);
@@ -257,6 +291,126 @@ export default function CustomerQuotePage() {
     },
   });
 
+  // The server reprices the quote for the chosen options and returns the updated customer view
+  const optionsMutation = useMutation({
+    mutationFn: async (lineItemIds: number[]) => {
+      const res = await fetch(`/api/quotes/public/${token}/options`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lineItemIds }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || `Failed to update options: ${res.statusText}`);
+      }
+
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([`/api/quotes/public/${token}`], data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Update Options",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renewalMutation = useMutation({
+    mutationFn: async (renewalNote: string) => {
+      const res = await fetch(`/api/quotes/public/${token}/request-renewal`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ message: renewalNote }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || `Failed to request renewal: ${res.statusText}`);
+      }
+
+      return await res.json();
+    },
+    onSuccess: () => {
+      setRenewalRequested(true);
+      toast({
+        title: "Request Sent",
+        description: "We'll review the proposal and send you an updated version.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async (draft: QuoteSignatureDraft) => {
+      const quoteData = quote as QuoteResponse;
+      if (analyticsRef.current) {
+        analyticsRef.current.trackFormSubmission('quote_response', { action: 'accepted' });
+      }
+
+      const res = await fetch(`/api/quotes/public/${token}/respond`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'accepted',
+          customerName: draft.signerName,
+          customerEmail: quoteData?.customerEmail,
+          message: '',
+          signature: draft,
+        }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || `Failed to sign proposal: ${res.statusText}`);
+      }
+
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Proposal Signed",
+        description: "Thank you! Your signed copy is available to download from this page.",
+      });
+      setLocation(`/quote-payment/${token}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Sign",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSign = () => {
+    const parsed = quoteSignatureInputSchema.safeParse(signatureDraft);
+    if (!parsed.success) {
+      toast({
+        title: "Signature Incomplete",
+        description: parsed.error.errors[0]?.message ?? "Please complete the signature",
+        variant: "destructive",
+      });
+      return;
+    }
+    signMutation.mutate(signatureDraft);
+  };
+
   const handleAccept = () => {
     const quoteData = quote as QuoteResponse;
     
@@ -279,6 +433,7 @@ export default function CustomerQuotePage() {
     }
 
     // Show accept summary modal instead of redirecting immediately
+    setSignatureDraft(emptySignatureDraft(finalCustomerName));
     setShowAcceptSummary(true);
     setShowResponse(false);
   };
@@ -396,7 +551,7 @@ export default function CustomerQuotePage() {
   }
 
   const quoteData = quote as QuoteResponse;
-  const isExpired = quoteData && new Date() > new Date(quoteData.validUntil);
+  const isExpired = quoteData && (quoteData.status === 'expired' || new Date() > new Date(quoteData.validUntil));
   const hasResponded = quoteData?.responses && quoteData.responses.length > 0;
   
   // Check for specific response types
@@ -405,6 +560,42 @@ export default function CustomerQuotePage() {
   const hasAccepted = !!acceptedResponse;
   const hasDeclined = !!declinedResponse;
 
+  // Optional add-ons and alternates, grouped the way the customer chooses between them
+  const lineItems = quoteData?.lineItems ?? [];
+  const includedIds = new Set(quoteData?.includedLineItemIds ?? lineItems.map(item => item.id));
+  const requiredItems = lineItems.filter(item => selectionTypeOf(item) === 'required');
+  const optionGroups: Array<{ key: string; type: string; label: string | null; items: typeof lineItems }> = [];
+  for (const item of lineItems.filter(item => selectionTypeOf(item) !== 'required')) {
+    const key = `${selectionTypeOf(item)}:${optionGroupKey(item)}`;
+    const group = optionGroups.find(g => g.key === key);
+    if (group) {
+      group.items.push(item);
+    } else {
+      optionGroups.push({ key, type: selectionTypeOf(item), label: item.optionGroup?.trim() || null, items: [item] });
+    }
+  }
+  const canChooseOptions = !hasAccepted && !hasDeclined && !isExpired && !quoteData?.signature;
+
+  const toggleOption = (groupKey: string, itemId: number) => {
+    const group = optionGroups.find(g => g.key === groupKey);
+    if (!group || !canChooseOptions) return;
+
+    const next = new Set(includedIds);
+    if (group.type === 'alternate') {
+      group.items.forEach(item => next.delete(item.id));
+      next.add(itemId);
+    } else if (next.has(itemId)) {
+      group.items.forEach(item => next.delete(item.id));
+    } else {
+      group.items.forEach(item => next.add(item.id));
+    }
+
+    if (analyticsRef.current) {
+      analyticsRef.current.trackButtonClick('toggle_option', { quoteId: quoteData.id, lineItemId: itemId });
+    }
+    optionsMutation.mutate(Array.from(next));
+  };
+
   return (
     <ChatProvider 
       isCustomer={true}
@@ -548,6 +739,43 @@ export default function CustomerQuotePage() {
           </div>
         )}
 
+        {/* Expired - offer a renewal instead of a response */}
+        {isExpired && !hasAccepted && !hasDeclined && (
+          <div id="section-expired" className="rounded-2xl shadow-lg text-white p-6" style={{backgroundColor: '#3d4552'}}>
+            <div className="text-center">
+              <Clock className="h-12 w-12 mx-auto mb-4" style={{color: '#db973c'}} />
+              <h3 className="text-2xl font-bold mb-2">This Proposal Has Expired</h3>
+              <p className="text-white/80 mb-6 max-w-2xl mx-auto">
+                The pricing in this proposal was valid until {formatDate(quoteData.validUntil)}. Material and labor
+                costs change over time, so we'll review it and send you an updated version.
+              </p>
+              {renewalRequested ? (
+                <p className="text-white/90 font-medium">
+                  Thank you! Your request has been received and we'll be in touch shortly.
+                </p>
+              ) : (
+                <div className="max-w-md mx-auto space-y-3">
+                  <Textarea
+                    value={renewalMessage}
+                    onChange={(e) => setRenewalMessage(e.target.value)}
+                    placeholder="Anything you'd like us to change? (optional)"
+                    className="min-h-[80px] bg-white text-gray-900"
+                  />
+                  <Button
+                    onClick={() => renewalMutation.mutate(renewalMessage)}
+                    disabled={renewalMutation.isPending}
+                    className="px-8 py-3 text-lg font-semibold text-white"
+                    style={{backgroundColor: '#db973c'}}
+                    size="lg"
+                  >
+                    {renewalMutation.isPending ? 'Sending...' : 'Request Updated Proposal'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Quote Accepted Status */}
         {hasAccepted && (
           <div className="rounded-2xl shadow-lg text-white p-6" style={{backgroundColor: '#16a34a'}}>
@@ -566,7 +794,33 @@ export default function CustomerQuotePage() {
                     <strong>By:</strong> {acceptedResponse.customerName}
                   </p>
                 )}
+                {quoteData.signature && (
+                  <p className="text-sm text-white/90 mt-1">
+                    <strong>Signed electronically:</strong> {new Date(quoteData.signature.signedAt).toLocaleString()}
+                  </p>
+                )}
               </div>
+              {quoteData.signature && (
+                <div className="flex flex-col sm:flex-row gap-3 justify-center mt-4">
+                  <Button
+                    asChild
+                    variant="outline"
+                    className="text-white border-white/40"
+                    style={{backgroundColor: 'rgba(255,255,255,0.1)'}}
+                  >
+                    <a href={`/api/quotes/public/${token}/signed-agreement`} target="_blank" rel="noopener noreferrer">
+                      <FileText className="h-4 w-4 mr-2" />
+                      Download Signed Agreement
+                    </a>
+                  </Button>
+                  {quoteData.status !== 'accepted' && (
+                    <Button onClick={handleContinueToPayment} className="bg-white text-green-700 hover:bg-white/90">
+                      <CreditCard className="h-4 w-4 mr-2" />
+                      Continue to Payment
+                    </Button>
+                  )}
+                </div>
+              )}
               <p className="text-white/70 text-sm mt-4">
                 Our team will be in touch shortly to schedule your project kickoff.
               </p>
@@ -671,7 +925,7 @@ export default function CustomerQuotePage() {
         </div>
 
         {/* Project Breakdown */}
-        {quoteData.lineItems && quoteData.lineItems.length > 0 && (
+        {lineItems.length > 0 && (
           <div id="section-investment-breakdown" className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
             <div className="px-6 py-4 border-b border-gray-200" style={{backgroundColor: '#f5f5f5'}}>
               <div className="flex items-center gap-3">
@@ -684,7 +938,7 @@ export default function CustomerQuotePage() {
             </div>
             <div className="p-6">
               <div className="space-y-4">
-                {quoteData.lineItems.map((item, index) => (
+                {requiredItems.map((item, index) => (
                   <div key={item.id} className="group hover:bg-gray-50 rounded-xl p-4 transition-colors border border-gray-100">
                     <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                       <div className="flex-1">
@@ -726,6 +980,59 @@ export default function CustomerQuotePage() {
                   </div>
                 ))}
               </div>
+
+              {optionGroups.length > 0 && (
+                <div id="section-options" className="mt-6 space-y-4">
+                  <div>
+                    <h4 className="font-semibold" style={{color: '#1a1a1a'}}>Options & Upgrades</h4>
+                    <p className="text-sm" style={{color: '#4a6670'}}>
+                      {canChooseOptions
+                        ? 'Choose what to include. Your total and payment schedule update as you go.'
+                        : 'The options included in your project'}
+                    </p>
+                  </div>
+                  {optionGroups.map(group => (
+                    <div key={group.key} className="border border-gray-100 rounded-xl p-4 space-y-2">
+                      <div className="text-sm font-medium" style={{color: '#4a6670'}}>
+                        {group.type === 'alternate'
+                          ? `Choose one${group.label ? `: ${group.label}` : ''}`
+                          : group.label || 'Optional add-on'}
+                      </div>
+                      {group.items.map(item => {
+                        const included = includedIds.has(item.id);
+                        return (
+                          <label
+                            key={item.id}
+                            className={`flex items-center justify-between gap-4 rounded-lg p-3 border transition-colors ${canChooseOptions ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                            style={{borderColor: included ? '#db973c' : '#f3f4f6', backgroundColor: included ? '#fdf6ec' : undefined}}
+                          >
+                            <div className="flex items-center gap-3">
+                              <input
+                                type={group.type === 'alternate' ? 'radio' : 'checkbox'}
+                                name={group.key}
+                                checked={included}
+                                disabled={!canChooseOptions || optionsMutation.isPending}
+                                onChange={() => toggleOption(group.key, item.id)}
+                                className="h-4 w-4"
+                                style={{accentColor: '#db973c'}}
+                              />
+                              <div>
+                                <div className="font-semibold" style={{color: '#1a1a1a'}}>{item.description}</div>
+                                <div className="text-sm" style={{color: '#4a6670'}}>
+                                  {item.category} • {parseFloat(item.quantity)} {item.unit} × {formatCurrency(item.unitPrice)}
+                                </div>
+                              </div>
+                            </div>
+                            <div className="text-lg font-bold whitespace-nowrap" style={{color: included ? '#1a1a1a' : '#9ca3af'}}>
+                              {group.type === 'optional' ? '+' : ''}{formatCurrency(item.totalPrice)}
+                            </div>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -1033,11 +1340,12 @@ export default function CustomerQuotePage() {
           </div>
           <div className="p-6">
             {(() => {
-              const payments = [
-                { label: 'Down Payment', percentage: quoteData.downPaymentPercentage, description: 'To secure your project start date', color: '#3d4552', number: 1 },
-                { label: 'Progress Payment', percentage: quoteData.milestonePaymentPercentage, description: 'At project milestone completion', color: '#4a6670', number: 2 },
-                { label: 'Final Payment', percentage: quoteData.finalPaymentPercentage, description: 'Upon project completion', color: '#db973c', number: 3 }
-              ].filter(p => p.percentage > 0);
+              const payments = resolvePaymentStages(quoteData).map(stage => ({
+                label: stage.label,
+                percentage: stage.percentage,
+                description: stage.description || STAGE_DISPLAY[stage.stageType].description,
+                color: STAGE_DISPLAY[stage.stageType].color,
+              })).filter(p => p.percentage > 0);
 
               const gridColsClass = payments.length === 1 ? 'grid-cols-1' : payments.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-3';
 
@@ -1058,7 +1366,7 @@ export default function CustomerQuotePage() {
               );
             })()}
             
-            {quoteData.milestoneDescription && (
+            {!quoteData.paymentStages?.length && quoteData.milestoneDescription && (
               <div className="mt-6 p-4 rounded-xl border border-gray-200" style={{backgroundColor: '#f5f5f5'}}>
                 <h5 className="font-semibold mb-2" style={{color: '#1a1a1a'}}>Progress Milestone Details:</h5>
                 <p style={{color: '#4a6670'}}>{quoteData.milestoneDescription}</p>
@@ -1317,14 +1625,14 @@ export default function CustomerQuotePage() {
       {/* Accept Summary Modal */}
       {showAcceptSummary && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <Card className="max-w-lg w-full">
+          <Card className="max-w-lg w-full max-h-[90vh] overflow-y-auto">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Check className="h-6 w-6 text-green-600" />
-                Accept Quote & Continue to Payment
+                Sign & Accept Quote
               </CardTitle>
               <CardDescription>
-                Review your quote summary before proceeding to secure payment
+                Review your quote summary and sign before proceeding to secure payment
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1359,28 +1667,29 @@ export default function CustomerQuotePage() {
                 <div className="border rounded-lg p-4">
                   <div className="text-sm font-medium text-gray-700 mb-3">Payment Schedule:</div>
                   <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span>Down Payment ({quoteData?.downPaymentPercentage || 30}%):</span>
-                      <span className="font-semibold">
-                        {formatCurrency(((parseFloat(quoteData?.total || '0') * (quoteData?.downPaymentPercentage || 30)) / 100).toString())}
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Progress Payment ({quoteData?.milestonePaymentPercentage || 40}%):</span>
-                      <span>{formatCurrency(((parseFloat(quoteData?.total || '0') * (quoteData?.milestonePaymentPercentage || 40)) / 100).toString())}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Final Payment ({quoteData?.finalPaymentPercentage || 30}%):</span>
-                      <span>{formatCurrency(((parseFloat(quoteData?.total || '0') * (quoteData?.finalPaymentPercentage || 30)) / 100).toString())}</span>
-                    </div>
+                    {quoteData && resolvePaymentStages(quoteData).map((stage, index) => (
+                      <div key={index} className="flex justify-between">
+                        <span>{stage.label} ({stage.percentage}%):</span>
+                        <span className={stage.stageType === 'deposit' ? 'font-semibold' : undefined}>
+                          {formatCurrency(((parseFloat(quoteData.total || '0') * stage.percentage) / 100).toString())}
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
+                {/* Signature */}
+                <QuoteSignaturePad
+                  value={signatureDraft}
+                  onChange={setSignatureDraft}
+                  disabled={signMutation.isPending}
+                />
+
                 {/* Next Steps */}
                 <div className="bg-blue-50 p-4 rounded-lg">
                   <div className="text-sm font-medium text-blue-800 mb-1">Next Steps:</div>
                   <div className="text-sm text-blue-700">
-                    You'll be taken to a secure payment page to process your down payment and finalize project details.
+                    A signed PDF of this proposal is saved for your records. You'll then be taken to a secure payment page to process your down payment and finalize project details.
                   </div>
                 </div>
               </div>
@@ -1393,11 +1702,12 @@ export default function CustomerQuotePage() {
                 Back to Quote
               </Button>
               <Button
-                onClick={handleContinueToPayment}
+                onClick={handleSign}
+                disabled={signMutation.isPending}
                 className="bg-green-600 hover:bg-green-700"
               >
                 <CreditCard className="h-4 w-4 mr-2" />
-                Continue to Payment
+                {signMutation.isPending ? 'Signing...' : 'Sign & Continue to Payment'}
               </Button>
             </div>
           </Card>
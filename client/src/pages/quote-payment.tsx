@@ -3,6 +3,7 @@ import { useLocation, useRoute } from 'wouter';
 import { Elements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
 import { PaymentForm } from '@/components/payment/PaymentForm';
+import { PartialPaymentAmount, type PartialPaymentIntent } from '@/components/payment/PartialPaymentAmount';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -30,6 +31,7 @@ interface Quote {
   customerName: string;
   customerEmail: string;
   customerPhone?: string;
+  signature?: { signerName: string; signedAt: string } | null;
 }
 
 interface PaymentData {
@@ -55,6 +57,9 @@ export default function QuotePaymentPage() {
   const [isCreatingPayment, setIsCreatingPayment] = useState(false);
   const [paymentCompleted, setPaymentCompleted] = useState(false);
   const [showPaymentForm, setShowPaymentForm] = useState(false);
+  // Set when the customer pays only part of the down payment now
+  const [partialIntent, setPartialIntent] = useState<PartialPaymentIntent | null>(null);
+  const [choosingAmount, setChoosingAmount] = useState(false);
 
   const quoteToken = params?.token;
 
@@ -99,6 +104,16 @@ export default function QuotePaymentPage() {
         setLocation('/');
         return;
       }
+
+      // The proposal is signed on the quote page before the deposit can be paid
+      if (!quoteData.signature) {
+        toast({
+          title: "Signature Required",
+          description: "Please review and sign the proposal before paying the deposit.",
+        });
+        setLocation(`/customer/quote/${quoteToken}`);
+        return;
+      }
     } catch (error) {
       console.error('Error loading quote:', error);
       toast({
@@ -193,6 +208,8 @@ export default function QuotePaymentPage() {
     );
   }
 
+  const remainingDownPayment = partialIntent ? Math.max(partialIntent.balanceDue - partialIntent.amount, 0) : 0;
+
   if (paymentCompleted) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -209,6 +226,16 @@ export default function QuotePaymentPage() {
               <p className="font-medium">Quote #{quote.quoteNumber}</p>
               <p className="text-sm text-gray-600">{quote.title}</p>
             </div>
+            {remainingDownPayment > 0 && paymentData && (
+              <div className="bg-amber-50 p-4 rounded-lg space-y-2">
+                <p className="text-sm text-amber-800">
+                  {formatCurrency(remainingDownPayment)} of the down payment is still due.
+                </p>
+                <Button variant="outline" className="w-full" onClick={() => setLocation(`/payment/${paymentData.clientSecret}`)}>
+                  Pay Remaining Down Payment
+                </Button>
+              </div>
+            )}
             <div>
               <p className="text-sm text-gray-600 mb-2">What happens next:</p>
               <ul className="text-sm space-y-1 text-left">
@@ -387,23 +414,43 @@ export default function QuotePaymentPage() {
               </Card>
             ) : (
               paymentData && (
-                <Elements 
-                  stripe={stripePromise} 
-                  options={{ 
-                    clientSecret: paymentData.clientSecret,
-                    appearance: {
-                      theme: 'stripe',
-                    },
-                  }}
-                >
-                  <PaymentForm
+                choosingAmount ? (
+                  <PartialPaymentAmount
                     clientSecret={paymentData.clientSecret}
-                    amount={paymentData.amount}
-                    description={`Down payment for ${quote.title}`}
-                    onSuccess={handlePaymentSuccess}
-                    onError={handlePaymentError}
+                    balanceDue={paymentData.amount}
+                    onIntentCreated={(intent) => {
+                      setPartialIntent(intent);
+                      setChoosingAmount(false);
+                    }}
+                    onCancel={() => setChoosingAmount(false)}
                   />
-                </Elements>
+                ) : (
+                  <>
+                    <Elements 
+                      key={partialIntent?.clientSecret ?? paymentData.clientSecret}
+                      stripe={stripePromise} 
+                      options={{ 
+                        clientSecret: partialIntent?.clientSecret ?? paymentData.clientSecret,
+                        appearance: {
+                          theme: 'stripe',
+                        },
+                      }}
+                    >
+                      <PaymentForm
+                        clientSecret={partialIntent?.clientSecret ?? paymentData.clientSecret}
+                        amount={partialIntent?.amount ?? paymentData.amount}
+                        description={`Down payment for ${quote.title}`}
+                        onSuccess={handlePaymentSuccess}
+                        onError={handlePaymentError}
+                      />
+                    </Elements>
+                    <div className="text-center">
+                      <Button variant="link" onClick={() => setChoosingAmount(true)}>
+                        Pay part of the down payment now
+                      </Button>
+                    </div>
+                  </>
+                )
               )
             )}
           </div>
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, FileText, Send, Edit, Trash2, Eye, ArrowLeft, Home, BarChart3 } from "lucide-react";
+import { Plus, FileText, Send, Edit, Trash2, Eye, ArrowLeft, Home, BarChart3, Package } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -26,17 +26,21 @@ export default function QuotesPage() {
     mutationFn: async (quoteId: number) => {
       return await apiRequest("POST", `/api/quotes/${quoteId}/send`);
     },
-    onSuccess: () => {
+    onSuccess: (result: { revisionNumber?: number }, quoteId) => {
       toast({
         title: "Quote Sent",
-        description: "Quote has been sent to customer successfully",
+        description: result?.revisionNumber
+          ? `Revision ${result.revisionNumber} has been sent to the customer`
+          : "Quote has been sent to customer successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${quoteId}/revisions`] });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      // Includes the margin floor message when an owner still has to approve the quote
       toast({
         title: "Error",
-        description: "Failed to send quote",
+        description: error.message || "Failed to send quote",
         variant: "destructive",
       });
     },
@@ -148,15 +152,25 @@ export default function QuotesPage() {
             Manage project quotes and proposals
           </p>
         </div>
-        <Button
-          onClick={() => navigate("/quotes/create")}
-          className="text-white"
-          style={{ backgroundColor: theme.colors.accent }}
-          data-testid="button-create-quote"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Create New Quote
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/quotes/catalog")}
+            data-testid="button-cost-catalog"
+          >
+            <Package className="h-4 w-4 mr-2" />
+            Catalog & Templates
+          </Button>
+          <Button
+            onClick={() => navigate("/quotes/create")}
+            className="text-white"
+            style={{ backgroundColor: theme.colors.accent }}
+            data-testid="button-create-quote"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create New Quote
+          </Button>
+        </div>
       </div>
 
       {/* Quotes List - Compact Table View */}
@@ -6,7 +6,7 @@ import { apiRequest } from "@/lib/queryClient";
 import TopNavBar from "@/components/TopNavBar";
 import Sidebar from "@/components/Sidebar";
 import ApprovalItem from "@/components/ApprovalItem";
-import { Selection, Project } from "@shared/schema";
+import { SelectionWithUsers, SelectionOption, Project } from "@shared/schema";
 import {
   Card,
   CardContent,
@@ -29,7 +29,11 @@ import {
   CheckSquare,
   Loader2,
   Calendar,
-  Filter
+  Filter,
+  Clock,
+  Store,
+  ShieldCheck,
+  FileText
 } from "lucide-react";
 import {
   Dialog,
@@ -48,14 +52,23 @@ import {
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { format } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+
+// Price difference against the allowance; positive when the chosen option is over budget
+const getAllowanceDelta = (selection: SelectionWithUsers, price: number | null) => {
+  if (selection.allowance === null || price === null) return null;
+  return price - parseFloat(selection.allowance);
+};
 
 export default function Selections() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [projectFilter, setProjectFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [selectedSelection, setSelectedSelection] = useState<Selection | null>(null);
+  const [selectedSelection, setSelectedSelection] = useState<SelectionWithUsers | null>(null);
   const [selectedOption, setSelectedOption] = useState<string>("");
   const { toast } = useToast();
+  const { user } = useAuth();
+  const isStaff = user?.role === "admin" || user?.role === "projectManager";
 
   // Fetch projects
   const { 
@@ -69,7 +82,7 @@ export default function Selections() {
   const { 
     data: allSelections = [],
     isLoading: isLoadingSelections 
-  } = useQuery<Selection[]>({
+  } = useQuery<SelectionWithUsers[]>({
     queryKey: ["/api/selections"],
     enabled: projects.length > 0,
   });
@@ -81,13 +94,13 @@ export default function Selections() {
     return matchesProject && matchesStatus;
   });
 
-  // Update selection choice mutation
+  // Record the client's choice
   const updateSelectionMutation = useMutation({
     mutationFn: async (data: { id: number, selection: string }) => {
       const res = await apiRequest(
-        "PUT", 
-        `/api/projects/${selectedSelection?.projectId}/selections/${data.id}`, 
-        { selectedOption: data.selection }
+        "POST", 
+        `/api/projects/${selectedSelection?.projectId}/selections/${data.id}/choose`, 
+        { optionId: data.selection }
       );
       return res.json();
     },
@@ -108,6 +121,56 @@ export default function Selections() {
     },
   });
 
+  // PM approval of the client's choice
+  const approveSelectionMutation = useMutation({
+    mutationFn: async (selection: SelectionWithUsers) => {
+      return apiRequest(
+        "POST",
+        `/api/projects/${selection.projectId}/selections/${selection.id}/approve`
+      );
+    },
+    onSuccess: () => {
+      toast({
+        title: "Selection Approved",
+        description: "The selection has been approved and locked.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/selections"] });
+      setSelectedSelection(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Approve Selection",
+        description: error.message || "There was an error approving the selection. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Bill the amount over the allowance as a change order
+  const changeOrderInvoiceMutation = useMutation({
+    mutationFn: async (selection: SelectionWithUsers) => {
+      return apiRequest(
+        "POST",
+        `/api/projects/${selection.projectId}/selections/${selection.id}/change-order-invoice`
+      );
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Change Order Invoice Created",
+        description: `Draft invoice ${data.invoice?.invoiceNumber ?? ""} was created for the allowance overage.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/selections"] });
+      setSelectedSelection(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Create Invoice",
+        description: error.message || "There was an error creating the change order invoice.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle opening the selection review dialog
   const handleReviewSelection = (id: number) => {
     const selection = allSelections.find(s => s.id === id);
@@ -220,30 +283,80 @@ export default function Selections() {
                   </div>
                 )}
                 
+                {selectedSelection.allowance !== null && (
+                  <div className="mb-4">
+                    <p className="text-sm text-slate-500 mb-1">Allowance</p>
+                    <p className="font-medium">{formatCurrency(selectedSelection.allowance)}</p>
+                  </div>
+                )}
+
+                {selectedSelection.selectedAt && (
+                  <div className="mb-2 text-sm text-slate-600">
+                    Chosen by {selectedSelection.selectedBy ? `${selectedSelection.selectedBy.firstName} ${selectedSelection.selectedBy.lastName}` : "a former user"} on {formatDate(selectedSelection.selectedAt)}
+                  </div>
+                )}
+                {selectedSelection.approvedAt && (
+                  <div className="mb-4 flex items-center gap-2 text-sm text-green-700">
+                    <ShieldCheck className="h-4 w-4" />
+                    Approved by {selectedSelection.approvedBy ? `${selectedSelection.approvedBy.firstName} ${selectedSelection.approvedBy.lastName}` : "a former user"} on {formatDate(selectedSelection.approvedAt)}
+                  </div>
+                )}
+                
                 <div className="mt-4">
                   <h4 className="font-medium mb-2">Options:</h4>
                   
-                  {selectedSelection.options && (
-                    <RadioGroup value={selectedOption} onValueChange={setSelectedOption}>
+                  {Array.isArray(selectedSelection.options) && (
+                    <RadioGroup
+                      value={selectedOption}
+                      onValueChange={setSelectedOption}
+                      disabled={selectedSelection.status === "approved"}
+                    >
                       <div className="space-y-3">
-                        {Object.entries(selectedSelection.options as Record<string, any>).map(([key, option]) => (
-                          <div key={key} className="flex items-start space-x-2 border p-3 rounded-md hover:bg-slate-50">
-                            <RadioGroupItem value={key} id={`option-${key}`} className="mt-1" />
-                            <div className="flex-1">
-                              <Label htmlFor={`option-${key}`} className="font-medium">
-                                {option.name || key}
-                              </Label>
-                              {option.description && (
-                                <p className="text-sm text-slate-500 mt-1">{option.description}</p>
-                              )}
-                              {option.price && (
-                                <p className="text-sm text-slate-700 mt-1">
-                                  <span className="font-medium">Price:</span> ${option.price}
-                                </p>
+                        {(selectedSelection.options as SelectionOption[]).map((option) => {
+                          const delta = getAllowanceDelta(selectedSelection, option.price);
+                          return (
+                            <div key={option.id} className="flex items-start space-x-3 border p-3 rounded-md hover:bg-slate-50">
+                              <RadioGroupItem value={option.id} id={`option-${option.id}`} className="mt-1" />
+                              {option.imageUrl && (
+                                <img
+                                  src={option.imageUrl}
+                                  alt={option.name}
+                                  className="h-16 w-16 rounded object-cover flex-shrink-0"
+                                />
                               )}
+                              <div className="flex-1">
+                                <Label htmlFor={`option-${option.id}`} className="font-medium">
+                                  {option.name}
+                                </Label>
+                                {option.description && (
+                                  <p className="text-sm text-slate-500 mt-1">{option.description}</p>
+                                )}
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-slate-700">
+                                  <span><span className="font-medium">Price:</span> {formatCurrency(option.price)}</span>
+                                  {option.vendor && (
+                                    <span className="flex items-center gap-1">
+                                      <Store className="h-3 w-3 text-slate-500" />
+                                      {option.vendor}
+                                    </span>
+                                  )}
+                                  {option.leadTimeDays != null && (
+                                    <span className="flex items-center gap-1">
+                                      <Clock className="h-3 w-3 text-slate-500" />
+                                      {option.leadTimeDays} day lead time
+                                    </span>
+                                  )}
+                                </div>
+                                {delta !== null && delta !== 0 && (
+                                  <p className={`text-xs mt-1 ${delta > 0 ? "text-amber-700" : "text-green-700"}`}>
+                                    {delta > 0
+                                      ? `${formatCurrency(delta)} over allowance`
+                                      : `${formatCurrency(Math.abs(delta))} under allowance`}
+                                  </p>
+                                )}
+                              </div>
                             </div>
-                          </div>
-                        ))}
+                          );
+                        })}
                       </div>
                     </RadioGroup>
                   )}
@@ -258,6 +371,36 @@ export default function Selections() {
                 >
                   Cancel
                 </Button>
+                {isStaff && selectedSelection.status === "selected" && (
+                  <Button
+                    variant="secondary"
+                    onClick={() => approveSelectionMutation.mutate(selectedSelection)}
+                    disabled={approveSelectionMutation.isPending || selectedOption !== selectedSelection.selectedOption}
+                  >
+                    {approveSelectionMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                    )}
+                    Approve
+                  </Button>
+                )}
+                {isStaff && selectedSelection.status === "approved" && !selectedSelection.changeOrderInvoiceId &&
+                  (getAllowanceDelta(selectedSelection, selectedSelection.selectedPrice !== null ? parseFloat(selectedSelection.selectedPrice) : null) ?? 0) > 0 && (
+                  <Button
+                    variant="secondary"
+                    onClick={() => changeOrderInvoiceMutation.mutate(selectedSelection)}
+                    disabled={changeOrderInvoiceMutation.isPending}
+                  >
+                    {changeOrderInvoiceMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <FileText className="mr-2 h-4 w-4" />
+                    )}
+                    Bill Overage
+                  </Button>
+                )}
+                {selectedSelection.status !== "approved" && (
                 <Button 
                   onClick={handleSaveSelection}
                   disabled={!selectedOption || updateSelectionMutation.isPending}
@@ -271,6 +414,7 @@ export default function Selections() {
                     "Save Selection"
                   )}
                 </Button>
+                )}
               </DialogFooter>
             </DialogContent>
           </Dialog>
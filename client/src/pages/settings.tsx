@@ -45,8 +45,10 @@ import {
   Loader2,
   Save,
   Eye,
-  EyeOff
+  EyeOff,
+  CalendarDays
 } from "lucide-react";
+import { WorkCalendarCard } from "@/components/WorkCalendarCard";
 
 // Profile form schema
 const profileFormSchema = z.object({
@@ -219,7 +221,7 @@ export default function Settings() {
         </div>
 
         <Tabs defaultValue="profile" className="space-y-6">
-          <TabsList className="grid grid-cols-3 w-full max-w-md">
+          <TabsList className={`grid ${user?.role === 'admin' ? 'grid-cols-4' : 'grid-cols-3'} w-full max-w-md`}>
             <TabsTrigger value="profile" className="flex items-center gap-2">
               <User className="h-4 w-4" />
               <span className="hidden sm:inline">Profile</span>
@@ -232,6 +234,12 @@ export default function Settings() {
               <Bell className="h-4 w-4" />
               <span className="hidden sm:inline">Notifications</span>
             </TabsTrigger>
+            {user?.role === 'admin' && (
+              <TabsTrigger value="calendar" className="flex items-center gap-2">
+                <CalendarDays className="h-4 w-4" />
+                <span className="hidden sm:inline">Calendar</span>
+              </TabsTrigger>
+            )}
           </TabsList>
           
           {/* Profile Tab */}
@@ -657,6 +665,13 @@ export default function Settings() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Work Calendar Tab */}
+          {user?.role === 'admin' && (
+            <TabsContent value="calendar">
+              <WorkCalendarCard canEdit />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
     </div>
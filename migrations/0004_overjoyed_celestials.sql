@@ -0,0 +1,19 @@
+CREATE TABLE "project_exports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"requested_by_id" integer,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"format" text DEFAULT 'json' NOT NULL,
+	"include_media" boolean DEFAULT false NOT NULL,
+	"storage_key" text,
+	"file_size" integer,
+	"summary" jsonb,
+	"error" text,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_exports" ADD CONSTRAINT "project_exports_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_exports" ADD CONSTRAINT "project_exports_requested_by_id_users_id_fk" FOREIGN KEY ("requested_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "projects" ADD COLUMN "archived_at" timestamp;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "archived_by_id" integer;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "archive_reason" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "status_before_archive" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_archived_by_id_users_id_fk" FOREIGN KEY ("archived_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE "selections" ADD COLUMN "allowance" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "selections" ADD COLUMN "selected_price" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "selections" ADD COLUMN "selected_by_id" integer;--> statement-breakpoint
+ALTER TABLE "selections" ADD COLUMN "selected_at" timestamp;--> statement-breakpoint
+ALTER TABLE "selections" ADD COLUMN "approved_by_id" integer;--> statement-breakpoint
+ALTER TABLE "selections" ADD COLUMN "approved_at" timestamp;--> statement-breakpoint
+ALTER TABLE "selections" ADD COLUMN "reminder_sent_at" timestamp;--> statement-breakpoint
+ALTER TABLE "selections" ADD COLUMN "change_order_invoice_id" integer;--> statement-breakpoint
+ALTER TABLE "selections" ADD COLUMN "created_by_id" integer;--> statement-breakpoint
+ALTER TABLE "selections" ADD CONSTRAINT "selections_selected_by_id_users_id_fk" FOREIGN KEY ("selected_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "selections" ADD CONSTRAINT "selections_approved_by_id_users_id_fk" FOREIGN KEY ("approved_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "selections" ADD CONSTRAINT "selections_change_order_invoice_id_invoices_id_fk" FOREIGN KEY ("change_order_invoice_id") REFERENCES "public"."invoices"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "selections" ADD CONSTRAINT "selections_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,49 @@
+CREATE TABLE "change_order_line_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"change_order_id" integer NOT NULL,
+	"category" text NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2) DEFAULT '1' NOT NULL,
+	"unit" text DEFAULT 'each',
+	"unit_price" numeric(10, 2) NOT NULL,
+	"discount_percentage" numeric(5, 2) DEFAULT '0',
+	"discount_amount" numeric(10, 2) DEFAULT '0',
+	"total_price" numeric(10, 2) NOT NULL,
+	"sort_order" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "change_orders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"change_order_number" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"reason" text,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"subtotal" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"tax_rate" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"total" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"schedule_impact_days" integer DEFAULT 0 NOT NULL,
+	"create_tasks" boolean DEFAULT false NOT NULL,
+	"access_token" text NOT NULL,
+	"sent_at" timestamp,
+	"responded_at" timestamp,
+	"responded_by_name" text,
+	"response_notes" text,
+	"quote_id" integer,
+	"invoice_id" integer,
+	"created_by_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "change_orders_change_order_number_unique" UNIQUE("change_order_number"),
+	CONSTRAINT "change_orders_access_token_unique" UNIQUE("access_token")
+);
+--> statement-breakpoint
+ALTER TABLE "change_order_line_items" ADD CONSTRAINT "change_order_line_items_change_order_id_change_orders_id_fk" FOREIGN KEY ("change_order_id") REFERENCES "public"."change_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "change_orders" ADD CONSTRAINT "change_orders_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "change_orders" ADD CONSTRAINT "change_orders_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "change_orders" ADD CONSTRAINT "change_orders_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "change_orders" ADD CONSTRAINT "change_orders_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
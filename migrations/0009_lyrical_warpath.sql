@@ -0,0 +1 @@
+ALTER TABLE "task_dependencies" ADD COLUMN "lag_days" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "calendar_exceptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"calendar_id" integer NOT NULL,
+	"date" date NOT NULL,
+	"type" text DEFAULT 'holiday' NOT NULL,
+	"description" text,
+	"created_by_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "calendar_exceptions_calendar_date_unique" UNIQUE("calendar_id","date")
+);
+--> statement-breakpoint
+CREATE TABLE "work_calendars" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer,
+	"name" text NOT NULL,
+	"work_days" jsonb DEFAULT '[1,2,3,4,5]'::jsonb NOT NULL,
+	"hours_per_day" numeric(4, 2) DEFAULT '8' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "work_calendars_project_id_unique" UNIQUE("project_id")
+);
+--> statement-breakpoint
+ALTER TABLE "calendar_exceptions" ADD CONSTRAINT "calendar_exceptions_calendar_id_work_calendars_id_fk" FOREIGN KEY ("calendar_id") REFERENCES "public"."work_calendars"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calendar_exceptions" ADD CONSTRAINT "calendar_exceptions_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "work_calendars" ADD CONSTRAINT "work_calendars_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
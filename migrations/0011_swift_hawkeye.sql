@@ -0,0 +1,21 @@
+CREATE TABLE "webhook_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"provider" text DEFAULT 'stripe' NOT NULL,
+	"event_id" text NOT NULL,
+	"type" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" text DEFAULT 'processing' NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"last_error" text,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"processed_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "webhook_events_event_id_unique" UNIQUE("event_id")
+);
+--> statement-breakpoint
+-- Payment intents already recorded more than once would block the index below: the first row stays settled, later ones are marked duplicate
+UPDATE "payments" SET "status" = 'duplicate', "failure_reason" = 'Duplicate settlement of payment intent ' || "stripe_payment_intent_id", "updated_at" = now()
+WHERE "status" in ('succeeded', 'test_completed') AND "stripe_payment_intent_id" IS NOT NULL AND "id" NOT IN (
+	SELECT min("id") FROM "payments" WHERE "status" in ('succeeded', 'test_completed') AND "stripe_payment_intent_id" IS NOT NULL GROUP BY "stripe_payment_intent_id"
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "payments_settled_payment_intent_unique" ON "payments" USING btree ("stripe_payment_intent_id") WHERE "payments"."status" in ('succeeded', 'test_completed');
\ No newline at end of file
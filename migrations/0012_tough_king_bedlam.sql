@@ -0,0 +1,12 @@
+CREATE TABLE "quote_payment_stages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer NOT NULL,
+	"label" text NOT NULL,
+	"description" text,
+	"stage_type" text DEFAULT 'progress' NOT NULL,
+	"percentage" numeric(5, 2) NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quote_payment_stages" ADD CONSTRAINT "quote_payment_stages_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
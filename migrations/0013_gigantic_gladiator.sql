@@ -0,0 +1,5 @@
+ALTER TYPE "public"."invoice_type" ADD VALUE 'retainage_release';--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "gross_amount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "retainage_percentage" numeric(5, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "retainage_amount" numeric(10, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "retainage_percentage" numeric(5, 2) DEFAULT '0.00' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,16 @@
+ALTER TYPE "public"."invoice_type" ADD VALUE 'late_fee';--> statement-breakpoint
+CREATE TABLE "invoice_activities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"invoice_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"event_key" text,
+	"message" text NOT NULL,
+	"amount" numeric(10, 2),
+	"related_invoice_id" integer,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "invoice_activities_invoice_event_unique" UNIQUE("invoice_id","event_key")
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_activities" ADD CONSTRAINT "invoice_activities_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_activities" ADD CONSTRAINT "invoice_activities_related_invoice_id_invoices_id_fk" FOREIGN KEY ("related_invoice_id") REFERENCES "public"."invoices"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
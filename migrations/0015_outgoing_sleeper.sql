@@ -0,0 +1,20 @@
+CREATE TABLE "invoice_line_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"invoice_id" integer NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2) DEFAULT '1' NOT NULL,
+	"unit" text DEFAULT 'each',
+	"unit_price" numeric(10, 2) NOT NULL,
+	"discount_percentage" numeric(5, 2) DEFAULT '0',
+	"discount_amount" numeric(10, 2) DEFAULT '0',
+	"taxable" boolean DEFAULT false NOT NULL,
+	"total_price" numeric(10, 2) NOT NULL,
+	"sort_order" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "subtotal" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "discount_amount" numeric(10, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "tax_rate" numeric(5, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoice_line_items" ADD CONSTRAINT "invoice_line_items_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
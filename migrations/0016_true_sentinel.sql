@@ -0,0 +1,2 @@
+ALTER TABLE "payments" ADD COLUMN "method_adjustment" numeric(10, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "payments_processing_payment_intent_unique" ON "payments" USING btree ("stripe_payment_intent_id") WHERE "payments"."status" = 'processing';
\ No newline at end of file
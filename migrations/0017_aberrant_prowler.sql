@@ -0,0 +1,14 @@
+CREATE TABLE "quote_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer NOT NULL,
+	"revision_number" integer NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"subtotal" numeric(10, 2) NOT NULL,
+	"total" numeric(10, 2) NOT NULL,
+	"sent_by_id" integer,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "quote_revisions_quote_revision_unique" UNIQUE("quote_id","revision_number")
+);
+--> statement-breakpoint
+ALTER TABLE "quote_revisions" ADD CONSTRAINT "quote_revisions_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote_revisions" ADD CONSTRAINT "quote_revisions_sent_by_id_users_id_fk" FOREIGN KEY ("sent_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,42 @@
+CREATE TABLE "cost_catalog_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"category" text NOT NULL,
+	"description" text NOT NULL,
+	"unit" text DEFAULT 'each' NOT NULL,
+	"default_unit_price" numeric(10, 2) NOT NULL,
+	"markup_percentage" numeric(6, 2) DEFAULT '0' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "quote_template_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"template_id" integer NOT NULL,
+	"catalog_item_id" integer,
+	"category" text NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2) DEFAULT '1' NOT NULL,
+	"unit" text DEFAULT 'each' NOT NULL,
+	"unit_price" numeric(10, 2),
+	"sort_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "quote_templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"project_type" text NOT NULL,
+	"description" text,
+	"scope_description" text,
+	"payment_stages" jsonb,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cost_catalog_items" ADD CONSTRAINT "cost_catalog_items_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote_template_items" ADD CONSTRAINT "quote_template_items_template_id_quote_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."quote_templates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote_template_items" ADD CONSTRAINT "quote_template_items_catalog_item_id_cost_catalog_items_id_fk" FOREIGN KEY ("catalog_item_id") REFERENCES "public"."cost_catalog_items"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote_templates" ADD CONSTRAINT "quote_templates_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "quote_signatures" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer NOT NULL,
+	"response_id" integer,
+	"revision_number" integer,
+	"signer_name" text NOT NULL,
+	"signer_email" text NOT NULL,
+	"signature_type" text NOT NULL,
+	"signature_data" text NOT NULL,
+	"initials" text NOT NULL,
+	"consent_text" text NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"content_hash" text NOT NULL,
+	"document_hash" text NOT NULL,
+	"document_url" text NOT NULL,
+	"document_size" integer NOT NULL,
+	"project_document_id" integer,
+	"signed_at" timestamp NOT NULL,
+	CONSTRAINT "quote_signatures_quote_id_unique" UNIQUE("quote_id")
+);
+--> statement-breakpoint
+ALTER TABLE "quote_signatures" ADD CONSTRAINT "quote_signatures_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote_signatures" ADD CONSTRAINT "quote_signatures_response_id_quote_responses_id_fk" FOREIGN KEY ("response_id") REFERENCES "public"."quote_responses"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote_signatures" ADD CONSTRAINT "quote_signatures_project_document_id_documents_id_fk" FOREIGN KEY ("project_document_id") REFERENCES "public"."documents"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "quote_line_items" ADD COLUMN "selection_type" text DEFAULT 'required' NOT NULL;--> statement-breakpoint
+ALTER TABLE "quote_line_items" ADD COLUMN "option_group" text;--> statement-breakpoint
+ALTER TABLE "quote_line_items" ADD COLUMN "is_default_selected" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "selected_line_item_ids" jsonb;--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "selection_revision_number" integer;--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "options_locked_at" timestamp;
\ No newline at end of file
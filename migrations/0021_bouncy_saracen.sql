@@ -0,0 +1,13 @@
+CREATE TABLE "quote_follow_ups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"event_key" text NOT NULL,
+	"recipient_email" text,
+	"message" text NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "quote_follow_ups_quote_event_unique" UNIQUE("quote_id","event_key")
+);
+--> statement-breakpoint
+ALTER TABLE "quote_follow_ups" ADD CONSTRAINT "quote_follow_ups_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "quote_line_items" ADD COLUMN "unit_cost" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "quote_line_items" ADD COLUMN "markup_percentage" numeric(6, 2);--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "margin_approved_at" timestamp;--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "margin_approved_by_id" integer;--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "approved_margin_percentage" numeric(6, 2);--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_margin_approved_by_id_users_id_fk" FOREIGN KEY ("margin_approved_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
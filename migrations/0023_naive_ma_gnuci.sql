@@ -0,0 +1,36 @@
+CREATE TABLE "tax_jurisdiction_rates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"location_code" text NOT NULL,
+	"jurisdiction" text NOT NULL,
+	"county" text,
+	"state_rate" numeric(6, 3),
+	"local_rate" numeric(6, 3),
+	"combined_rate" numeric(6, 3) NOT NULL,
+	"effective_from" date NOT NULL,
+	"effective_until" date,
+	"source_file" text,
+	"imported_by_id" integer,
+	"imported_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tax_jurisdiction_rates_code_effective_unique" UNIQUE("location_code","effective_from")
+);
+--> statement-breakpoint
+CREATE TABLE "tax_rate_lookups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"address_key" text NOT NULL,
+	"address" text NOT NULL,
+	"city" text,
+	"zip" text,
+	"location_code" text NOT NULL,
+	"jurisdiction" text,
+	"rate" numeric(6, 3) NOT NULL,
+	"match_level" text NOT NULL,
+	"looked_up_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	CONSTRAINT "tax_rate_lookups_address_key_unique" UNIQUE("address_key")
+);
+--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "tax_location_code" text;--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "tax_jurisdiction" text;--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "tax_rate_source" text;--> statement-breakpoint
+ALTER TABLE "quotes" ADD COLUMN "tax_rate_checked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "tax_jurisdiction_rates" ADD CONSTRAINT "tax_jurisdiction_rates_imported_by_id_users_id_fk" FOREIGN KEY ("imported_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
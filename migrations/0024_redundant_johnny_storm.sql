@@ -0,0 +1 @@
+ALTER TABLE "selections" ADD COLUMN "change_order_claimed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Refunds already recorded more than once would block the index below: the first row stays, later ones are marked duplicate
+UPDATE "payments" SET "status" = 'duplicate', "failure_reason" = 'Duplicate recording of refund ' || "reference", "updated_at" = now()
+WHERE "status" = 'refunded' AND "reference" IS NOT NULL AND "id" NOT IN (
+	SELECT min("id") FROM "payments" WHERE "status" = 'refunded' AND "reference" IS NOT NULL GROUP BY "reference"
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "payments_refund_reference_unique" ON "payments" USING btree ("reference") WHERE "payments"."status" = 'refunded';
\ No newline at end of file
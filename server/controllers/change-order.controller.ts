@@ -0,0 +1,135 @@
+// server/controllers/change-order.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { User } from '@shared/schema';
+import { HttpError } from '../errors';
+import {
+  changeOrderInputSchema,
+  changeOrderUpdateSchema,
+  changeOrderResponseSchema,
+  getProjectChangeOrders,
+  getChangeOrder,
+  createChangeOrder as createChangeOrderRecord,
+  updateChangeOrder as updateChangeOrderRecord,
+  deleteChangeOrder as deleteChangeOrderRecord,
+  sendChangeOrder as sendChangeOrderRecord,
+  getChangeOrderByToken,
+  respondToChangeOrder as respondToChangeOrderRecord,
+} from '../services/change-order.service';
+
+function parseIds(req: Request): { projectId: number; changeOrderId: number } {
+  const projectId = parseInt(req.params.projectId, 10);
+  const changeOrderId = parseInt(req.params.changeOrderId, 10);
+  if (isNaN(changeOrderId)) {
+    throw new HttpError(400, 'Invalid change order ID.');
+  }
+  return { projectId, changeOrderId };
+}
+
+// GET /api/projects/:projectId/change-orders
+export const getChangeOrdersForProject = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const changeOrders = await getProjectChangeOrders(projectId);
+    res.status(200).json(changeOrders);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/change-orders/:changeOrderId
+export const getChangeOrderById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, changeOrderId } = parseIds(req);
+    const changeOrder = await getChangeOrder(projectId, changeOrderId);
+    res.status(200).json(changeOrder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/change-orders
+export const createChangeOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const validation = changeOrderInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid change order data.', validation.error.flatten());
+    }
+
+    const changeOrder = await createChangeOrderRecord(projectId, (req.user as User).id, validation.data);
+    res.status(201).json(changeOrder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PATCH /api/projects/:projectId/change-orders/:changeOrderId
+export const updateChangeOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, changeOrderId } = parseIds(req);
+    const validation = changeOrderUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid change order data.', validation.error.flatten());
+    }
+    if (Object.keys(validation.data).length === 0) {
+      throw new HttpError(400, 'No update data provided.');
+    }
+
+    const changeOrder = await updateChangeOrderRecord(projectId, changeOrderId, (req.user as User).id, validation.data);
+    res.status(200).json(changeOrder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/projects/:projectId/change-orders/:changeOrderId
+export const deleteChangeOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, changeOrderId } = parseIds(req);
+    await deleteChangeOrderRecord(projectId, changeOrderId, (req.user as User).id);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/change-orders/:changeOrderId/send
+export const sendChangeOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, changeOrderId } = parseIds(req);
+    const result = await sendChangeOrderRecord(projectId, changeOrderId, (req.user as User).id);
+    res.status(200).json({
+      ...result,
+      message: result.emailSent
+        ? 'Change order sent to the customer for approval'
+        : 'Change order marked as sent but email delivery failed',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/change-orders/public/:token
+export const getPublicChangeOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const changeOrder = await getChangeOrderByToken(req.params.token);
+    res.status(200).json(changeOrder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/change-orders/public/:token/respond
+export const respondToChangeOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const validation = changeOrderResponseSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid response.', validation.error.flatten());
+    }
+
+    const changeOrder = await respondToChangeOrderRecord(req.params.token, validation.data);
+    res.status(200).json(changeOrder);
+  } catch (error) {
+    next(error);
+  }
+};
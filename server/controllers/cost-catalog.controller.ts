@@ -0,0 +1,158 @@
+// server/controllers/cost-catalog.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { User } from '@shared/schema';
+import { HttpError } from '../errors';
+import {
+  catalogItemInputSchema,
+  catalogItemUpdateSchema,
+  bulkPriceUpdateSchema,
+  quoteTemplateInputSchema,
+  quoteTemplateUpdateSchema,
+  getCatalogItems as getCatalogItemRecords,
+  createCatalogItem as createCatalogItemRecord,
+  updateCatalogItem as updateCatalogItemRecord,
+  bulkUpdateCatalogPrices,
+  getQuoteTemplates as getQuoteTemplateRecords,
+  createQuoteTemplate as createQuoteTemplateRecord,
+  updateQuoteTemplate as updateQuoteTemplateRecord,
+  deleteQuoteTemplate as deleteQuoteTemplateRecord,
+  applyQuoteTemplate as applyQuoteTemplateRecord,
+} from '../services/cost-catalog.service';
+
+function parseId(req: Request, param: string, label: string): number {
+  const id = parseInt(req.params[param], 10);
+  if (isNaN(id)) {
+    throw new HttpError(400, `Invalid ${label} ID.`);
+  }
+  return id;
+}
+
+function requireAdmin(req: Request): User {
+  const user = req.user as User;
+  if (user?.role !== 'admin') {
+    throw new HttpError(403, 'Only administrators can change the cost catalog and quote templates.');
+  }
+  return user;
+}
+
+// GET /api/cost-catalog?includeInactive=true
+export const getCatalogItems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const items = await getCatalogItemRecords(req.query.includeInactive === 'true');
+    res.status(200).json(items);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/cost-catalog
+export const createCatalogItem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const admin = requireAdmin(req);
+    const validation = catalogItemInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid catalog item data.', validation.error.flatten());
+    }
+
+    const item = await createCatalogItemRecord(admin.id, validation.data);
+    res.status(201).json(item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PATCH /api/cost-catalog/:itemId
+export const updateCatalogItem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    requireAdmin(req);
+    const validation = catalogItemUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid catalog item data.', validation.error.flatten());
+    }
+
+    const item = await updateCatalogItemRecord(parseId(req, 'itemId', 'catalog item'), validation.data);
+    res.status(200).json(item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/cost-catalog/bulk-price-update
+export const bulkUpdatePrices = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const admin = requireAdmin(req);
+    const validation = bulkPriceUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid price update.', validation.error.flatten());
+    }
+
+    const items = await bulkUpdateCatalogPrices(admin.id, validation.data);
+    res.status(200).json({ updated: items.length, items });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/quote-templates?projectType=Remodel&includeInactive=true
+export const getQuoteTemplates = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectType = typeof req.query.projectType === 'string' && req.query.projectType ? req.query.projectType : undefined;
+    const templates = await getQuoteTemplateRecords(projectType, req.query.includeInactive === 'true');
+    res.status(200).json(templates);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/quote-templates
+export const createQuoteTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const admin = requireAdmin(req);
+    const validation = quoteTemplateInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid quote template data.', validation.error.flatten());
+    }
+
+    const template = await createQuoteTemplateRecord(admin.id, validation.data);
+    res.status(201).json(template);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PATCH /api/quote-templates/:templateId
+export const updateQuoteTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    requireAdmin(req);
+    const validation = quoteTemplateUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid quote template data.', validation.error.flatten());
+    }
+
+    const template = await updateQuoteTemplateRecord(parseId(req, 'templateId', 'quote template'), validation.data);
+    res.status(200).json(template);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/quote-templates/:templateId
+export const deleteQuoteTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    requireAdmin(req);
+    await deleteQuoteTemplateRecord(parseId(req, 'templateId', 'quote template'));
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/quote-templates/:templateId/apply
+export const applyQuoteTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const applied = await applyQuoteTemplateRecord(parseId(req, 'templateId', 'quote template'));
+    res.status(200).json(applied);
+  } catch (error) {
+    next(error);
+  }
+};
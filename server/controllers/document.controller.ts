@@ -10,6 +10,7 @@ import { insertDocumentSchema, User } from '../../shared/schema'; // Keep User t
 import { HttpError } from '../errors';
 // R2 functions are separate from the storage repository
 import { uploadToR2, deleteFromR2, getR2DownloadUrl } from '../r2-upload';
+import { recordAuditEvent } from '../services/audit.service';
 
 // --- Zod Schema for potential additional form fields (Unchanged) ---
 const documentUploadMetaSchema = z.object({
@@ -126,6 +127,15 @@ export const uploadDocument = async (
          throw new HttpError(500, 'Failed to save document record to database.');
     }
 
+    await recordAuditEvent({
+      projectId: projectIdNum,
+      actorId: user.id,
+      entityType: 'document',
+      entityId: createdDocument.id,
+      action: 'created',
+      after: createdDocument,
+    });
+
     // Consider fetching the document with uploader details if needed for the response
     res.status(201).json(createdDocument); // Return the basic document record
 
@@ -223,6 +233,16 @@ export const deleteDocument = async (
        throw new HttpError(404, 'Document not found for deletion in database.');
     }
 
+    await recordAuditEvent({
+      projectId: projectIdNum,
+      actorId: user.id,
+      entityType: 'document',
+      entityId: documentIdNum,
+      action: 'deleted',
+      before: document,
+      metadata: { name: document.name },
+    });
+
     res.status(204).send(); // Successfully deleted
 
   } catch (error) {
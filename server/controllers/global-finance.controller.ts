@@ -78,8 +78,12 @@ export async function getInvoiceForView(req: Request, res: Response) {
       return res.status(404).json({ error: "Associated project not found" });
     }
 
+    // Reminders, overdue flags and late fees from the collections job
+    const activities = await storage.invoiceActivities.getActivitiesForInvoice(invoiceId);
+
     res.json({
       invoice,
+      activities,
       project: {
         id: project.id,
         name: project.name,
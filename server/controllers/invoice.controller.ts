@@ -6,10 +6,13 @@ import { storage } from '../storage/index';
 import { InvoiceWithPayments } from '../storage/types';
 import {
   insertInvoiceSchema,
-  insertPaymentSchema,
+  MANUAL_PAYMENT_METHODS,
   User, // Keep User type for req.user casting
 } from '../../shared/schema';
 import { HttpError } from '../errors';
+import { recordAuditEvent } from '../services/audit.service';
+import { withRetainage } from '../services/retainage.service';
+import { buildInvoiceLineItems, computeInvoiceTotals, invoiceLineItemsSchema } from '../services/invoice-line-item.service';
 // import Big from 'big.js'; // Keep if using Big.js
 
 // --- Zod Schemas for API Input Validation (Unchanged) ---
@@ -22,19 +25,45 @@ const positiveNumericString = z.string().refine(
   { message: "Amount must be a positive number with at most 2 decimal places." }
 );
 
-const invoiceCreateSchema = insertInvoiceSchema.omit({ /* ... */ }).extend({
+const invoiceBaseSchema = insertInvoiceSchema.omit({
+  // Retainage is calculated from the project setting
+  grossAmount: true,
+  retainagePercentage: true,
+  retainageAmount: true,
+  // Itemized totals are calculated from the line items
+  subtotal: true,
+  discountAmount: true,
+  taxAmount: true,
+}).extend({
   amount: positiveNumericString,
   dueDate: z.string().datetime({ message: 'Invalid due date format.' }),
+  invoiceType: insertInvoiceSchema.shape.invoiceType.refine(
+    (type) => type !== 'retainage_release',
+    { message: 'Use the retainage release action to bill back retainage.' }
+  ),
+  taxRate: z.coerce.number().min(0).max(100).optional(),
+  lineItems: invoiceLineItemsSchema.optional(),
 });
 
-const invoiceUpdateSchema = invoiceCreateSchema.partial().extend({
+// Itemized invoices take their amount from the line items
+const invoiceCreateSchema = invoiceBaseSchema.extend({
+  amount: positiveNumericString.optional(),
+}).refine(
+  (data) => !!data.amount || !!data.lineItems,
+  { message: 'Provide an amount or line items.', path: ['amount'] }
+);
+
+const invoiceUpdateSchema = invoiceBaseSchema.partial().extend({
   status: z.enum(['pending', 'paid', 'overdue']).optional(),
   amount: positiveNumericString.optional(),
   dueDate: z.string().datetime({ message: 'Invalid due date format.' }).optional(),
 });
 
-const paymentRecordSchema = insertPaymentSchema.omit({ /* ... */ }).extend({
-  amount: positiveNumericString,
+// Checks, Zelle and other payments received outside Stripe
+const paymentRecordSchema = z.object({
+  amount: z.coerce.number().positive().multipleOf(0.01),
+  paymentMethod: z.enum(MANUAL_PAYMENT_METHODS),
+  reference: z.string().trim().max(200).optional().nullable(), // Check number or transfer confirmation
   paymentDate: z.string().datetime({ message: 'Invalid payment date format.' }).optional(),
 });
 
@@ -134,18 +163,41 @@ export const createInvoice = async (
     if (!validationResult.success) {
       throw new HttpError(400, 'Invalid invoice data.', validationResult.error.flatten());
     }
-    const validatedData = validationResult.data;
+    const { lineItems: lineItemInput, taxRate, ...validatedData } = validationResult.data;
+
+    const lineItems = lineItemInput ? buildInvoiceLineItems(lineItemInput) : [];
+    const { total, ...itemizedTotals } = lineItems.length > 0
+      ? computeInvoiceTotals(lineItems, taxRate ?? 0)
+      : { total: validatedData.amount! };
+    if (parseFloat(total) <= 0) { throw new HttpError(400, 'Invoice total must be greater than zero.'); }
+
+    // Milestone invoices have the project's retainage withheld from the invoice total
+    const project = await storage.projects.getProject(projectIdNum);
+    if (!project) { throw new HttpError(404, 'Project not found.'); }
+    const amounts = validatedData.invoiceType === 'milestone'
+      ? withRetainage(project, parseFloat(total))
+      : { amount: total }; // Pass string/number as handled by repo
 
     const invoiceData = {
         ...validatedData,
         projectId: projectIdNum,
-        amount: validatedData.amount, // Pass string/number as handled by repo
+        ...itemizedTotals,
+        ...amounts,
         dueDate: new Date(validatedData.dueDate),
         // status: handled by repo/default
     };
 
     // Use the nested repository: storage.invoices
-    const createdInvoice = await storage.invoices.createInvoice(invoiceData);
+    const createdInvoice = await storage.invoices.createInvoice(invoiceData, lineItems);
+    if (!createdInvoice) { throw new HttpError(500, 'Failed to create invoice.'); }
+    await recordAuditEvent({
+      projectId: projectIdNum,
+      actorId: (req.user as User | undefined)?.id,
+      entityType: 'invoice',
+      entityId: createdInvoice.id,
+      action: 'created',
+      after: createdInvoice,
+    });
     res.status(201).json(createdInvoice);
   } catch (error) {
     next(error);
@@ -207,8 +259,8 @@ export const updateInvoice = async (
     if (!validationResult.success) {
       throw new HttpError(400, 'Invalid invoice data.', validationResult.error.flatten());
     }
-    const validatedData = validationResult.data;
-    if (Object.keys(validatedData).length === 0) { throw new HttpError(400, 'No update data provided.'); }
+    const { lineItems: lineItemInput, taxRate, ...validatedData } = validationResult.data;
+    if (Object.keys(validationResult.data).length === 0) { throw new HttpError(400, 'No update data provided.'); }
 
      const updateData: any = {
         ...validatedData,
@@ -219,11 +271,50 @@ export const updateInvoice = async (
       updateData.dueDate = new Date(validatedData.dueDate);
     }
 
-    // Use the nested repository: storage.invoices
-    const updatedInvoice = await storage.invoices.updateInvoice(invoiceIdNum, updateData);
+    const existingInvoice = await storage.invoices.getInvoiceById(invoiceIdNum);
+    if (!existingInvoice) { throw new HttpError(404, 'Invoice not found.'); }
+
+    let updatedInvoice;
+    if (lineItemInput || taxRate !== undefined) {
+      // Re-itemizing recalculates the amount, so it is only allowed before the invoice is sent
+      if (existingInvoice.status !== 'draft') {
+        throw new HttpError(409, 'Only draft invoices can have their line items changed.');
+      }
+      if (!lineItemInput && existingInvoice.lineItems.length === 0) {
+        throw new HttpError(400, 'Add line items to apply a tax rate.');
+      }
+
+      const lineItems = lineItemInput
+        ? buildInvoiceLineItems(lineItemInput)
+        : existingInvoice.lineItems.map(({ id, invoiceId, createdAt, ...item }) => item);
+      const { total, ...itemizedTotals } = computeInvoiceTotals(lineItems, taxRate ?? Number(existingInvoice.taxRate));
+      if (parseFloat(total) <= 0) { throw new HttpError(400, 'Invoice total must be greater than zero.'); }
+
+      const invoiceType = validatedData.invoiceType ?? existingInvoice.invoiceType;
+      const project = invoiceType === 'milestone' ? await storage.projects.getProject(existingInvoice.projectId!) : null;
+      const amounts = project ? withRetainage(project, parseFloat(total)) : { amount: total };
+
+      updatedInvoice = await storage.invoices.replaceLineItems(invoiceIdNum, { ...updateData, ...itemizedTotals, ...amounts }, lineItems);
+    } else {
+      if (validatedData.amount && existingInvoice.lineItems.length > 0) {
+        throw new HttpError(400, 'This invoice is itemized; update its line items instead of the amount.');
+      }
+      // Use the nested repository: storage.invoices
+      updatedInvoice = await storage.invoices.updateInvoice(invoiceIdNum, updateData);
+    }
 
     if (!updatedInvoice) { throw new HttpError(404, 'Invoice not found or update failed.'); }
 
+    await recordAuditEvent({
+      projectId: updatedInvoice.projectId,
+      actorId: (req.user as User | undefined)?.id,
+      entityType: 'invoice',
+      entityId: invoiceIdNum,
+      action: 'updated',
+      before: existingInvoice,
+      after: updatedInvoice,
+    });
+
     res.status(200).json(updatedInvoice);
   } catch (error) {
     next(error);
@@ -250,12 +341,24 @@ export const sendInvoice = async (
     const { PaymentService } = await import('../services/payment.service');
     const paymentService = new PaymentService();
 
+    const draftInvoice = await storage.invoices.getInvoiceById(invoiceIdNum);
     const sentInvoice = await paymentService.sendDraftInvoice(invoiceIdNum);
 
     if (!sentInvoice) {
       throw new HttpError(404, 'Invoice not found or could not be sent.');
     }
 
+    await recordAuditEvent({
+      projectId: sentInvoice.projectId,
+      actorId: (req.user as User | undefined)?.id,
+      entityType: 'invoice',
+      entityId: invoiceIdNum,
+      action: 'sent',
+      before: draftInvoice,
+      after: sentInvoice,
+      metadata: { invoiceNumber: sentInvoice.invoiceNumber },
+    });
+
     res.status(200).json({
       message: 'Invoice sent successfully.',
       invoice: sentInvoice,
@@ -351,11 +454,25 @@ export const deleteInvoice = async (
 
     if (isNaN(invoiceIdNum)) { throw new HttpError(400, 'Invalid invoice ID parameter.'); }
 
+    const existingInvoice = await storage.invoices.getInvoiceById(invoiceIdNum);
+
     // Use the nested repository: storage.invoices
     const success = await storage.invoices.deleteInvoice(invoiceIdNum);
 
     if (!success) { throw new HttpError(404, 'Invoice not found or could not be deleted.'); }
 
+    if (existingInvoice) {
+      await recordAuditEvent({
+        projectId: existingInvoice.projectId,
+        actorId: (req.user as User | undefined)?.id,
+        entityType: 'invoice',
+        entityId: invoiceIdNum,
+        action: 'deleted',
+        before: existingInvoice,
+        metadata: { invoiceNumber: existingInvoice.invoiceNumber },
+      });
+    }
+
     res.status(204).send();
   } catch (error) {
      // Catch specific HttpError potentially thrown by repo (e.g., 409 if payments exist and no cascade)
@@ -366,7 +483,7 @@ export const deleteInvoice = async (
 
 
 /**
- * Record a payment against an invoice.
+ * Records a manual payment (check, Zelle, cash or bank transfer) against an invoice (admin only).
  */
 export const recordPayment = async (
   req: Request,
@@ -380,30 +497,69 @@ export const recordPayment = async (
 
         if (isNaN(invoiceIdNum)) { throw new HttpError(400, 'Invalid invoice ID parameter.'); }
         if (!user?.id) { throw new HttpError(401, 'Authentication required.'); }
+        if (user.role !== 'admin') { throw new HttpError(403, 'Only administrators can record payments.'); }
 
         const validationResult = paymentRecordSchema.safeParse(req.body);
         if (!validationResult.success) { throw new HttpError(400, 'Invalid payment data.', validationResult.error.flatten()); }
         const validatedData = validationResult.data;
 
-        const paymentData = {
-            ...validatedData,
-            invoiceId: invoiceIdNum,
-            recordedBy: user.id,
-            amount: validatedData.amount, // Pass string/number as handled by repo
+        const invoice = await storage.invoices.getInvoiceById(invoiceIdNum);
+        if (!invoice || invoice.projectId !== parseInt(req.params.projectId, 10)) {
+            throw new HttpError(404, 'Invoice not found.');
+        }
+
+        const { paymentService } = await import('../services/payment.service');
+        const recordedPayment = await paymentService.recordManualPayment(invoiceIdNum, user.id, {
+            amount: validatedData.amount,
+            paymentMethod: validatedData.paymentMethod,
+            reference: validatedData.reference,
             ...(validatedData.paymentDate && { paymentDate: new Date(validatedData.paymentDate) }),
-        };
+        });
 
-        // Use the nested repository: storage.invoices
-        // The repo method handles inserting the payment (and potentially updating invoice status)
-        const recordedPayment = await storage.invoices.recordPayment(paymentData);
+        res.status(201).json(recordedPayment);
 
-        if (!recordedPayment) {
-             throw new HttpError(404, 'Could not record payment. Invoice not found or invalid data.');
-        }
+    } catch(error) {
+        next(error);
+    }
+};
 
-        res.status(201).json(recordedPayment);
+const refundSchema = z.object({
+  amount: z.number().positive().multipleOf(0.01).optional(), // Omit for a full refund
+  reason: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Refunds a Stripe payment on an invoice (admin only).
+ */
+export const refundPayment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+    try {
+        const invoiceIdNum = parseInt(req.params.invoiceId, 10);
+        const paymentIdNum = parseInt(req.params.paymentId, 10);
+        const user = req.user as User;
+
+        if (isNaN(invoiceIdNum) || isNaN(paymentIdNum)) { throw new HttpError(400, 'Invalid invoice or payment ID parameter.'); }
+        if (user?.role !== 'admin') { throw new HttpError(403, 'Only administrators can issue refunds.'); }
+
+        const validationResult = refundSchema.safeParse(req.body);
+        if (!validationResult.success) { throw new HttpError(400, 'Invalid refund data.', validationResult.error.flatten()); }
 
+        const payment = await storage.payments.getPaymentById(paymentIdNum);
+        if (!payment || payment.invoiceId !== invoiceIdNum) { throw new HttpError(404, 'Payment not found on this invoice.'); }
+
+        const { paymentService } = await import('../services/payment.service');
+        const refund = await paymentService.refundPayment(
+            paymentIdNum,
+            user.id,
+            validationResult.data.amount,
+            validationResult.data.reason
+        );
+
+        res.status(201).json(refund);
     } catch(error) {
         next(error);
     }
-};
\ No newline at end of file
+};
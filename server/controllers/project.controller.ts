@@ -3,7 +3,7 @@ import { z } from 'zod';
 // Updated import path for the aggregated storage object
 import { storage } from '../storage/index';
 // Import specific types from the new types file
-import { UserProfile, ProjectWithDetails } from '../storage/types';
+import { UserProfile, ProjectWithDetails, ProjectArchiveFilter } from '../storage/types';
 import {
   insertProjectSchema,
   projectStatusEnum,
@@ -11,6 +11,7 @@ import {
 } from '../../shared/schema';
 import { HttpError } from '../errors';
 import { expensifyService } from '../services/expensify.service';
+import { recordAuditEvent } from '../services/audit.service';
 
 // Define a Zod schema for project creation/update
 const projectInputSchema = insertProjectSchema.extend({
@@ -35,13 +36,18 @@ export const getProjects = async (
   try {
     const user = req.user as User; // isAuthenticated guarantees user exists
 
+    // ?archived=include|only; archived projects are hidden by default
+    const archivedParam = req.query.archived;
+    const archived: ProjectArchiveFilter =
+      archivedParam === 'include' || archivedParam === 'only' ? archivedParam : 'exclude';
+
     let projects;
     if (user.role.toLowerCase() === 'admin') {
       // Use the nested repository: storage.projects
-      projects = await storage.projects.getAllProjects();
+      projects = await storage.projects.getAllProjects(archived);
     } else {
       // Use the nested repository: storage.projects
-      projects = await storage.projects.getProjectsForUser(String(user.id));
+      projects = await storage.projects.getProjectsForUser(String(user.id), archived);
     }
 
     res.status(200).json(projects);
@@ -189,6 +195,15 @@ export const updateProject = async (
             : projectData.totalBudget;
     }
 
+    if (updateData.status === 'archived') {
+        throw new HttpError(400, 'Use the project archive endpoint to archive a project.');
+    }
+
+    const existingProject = await storage.projects.getProjectById(id);
+    if (existingProject?.status === 'archived') {
+        throw new HttpError(409, 'Project is archived and read-only. Restore it before making changes.');
+    }
+
     // Use the nested repository: storage.projects
     // Pass clientIds only if they were included in the request body (clientIds !== undefined)
     const updatedProject = await storage.projects.updateProjectDetailsAndClients(
@@ -203,6 +218,17 @@ export const updateProject = async (
       throw new HttpError(404, 'Project not found or update failed.');
     }
 
+    await recordAuditEvent({
+      projectId: id,
+      actorId: (req.user as User | undefined)?.id,
+      entityType: 'project',
+      entityId: id,
+      action: 'updated',
+      before: existingProject,
+      after: updatedProject,
+      metadata: clientIds ? { clientIds } : undefined,
+    });
+
     res.status(200).json(updatedProject);
 
   } catch(error) {
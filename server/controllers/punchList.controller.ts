@@ -8,6 +8,7 @@ import { log as logger } from '../vite';
 import { storage } from '../storage';
 // *** ADDED: Import R2 upload function (adjust path if necessary) ***
 import { uploadToR2 } from '../r2-upload';
+import { recordAuditEvent } from '../services/audit.service';
 
 // Define request type interfaces
 interface TypedRequestParams<T> extends Request {
@@ -146,6 +147,14 @@ export class PunchListController {
             }
 
             logger(`Punch list item ${newPunchListItem.id} created successfully.`, 'PunchListController');
+            await recordAuditEvent({
+                projectId,
+                actorId: userId,
+                entityType: 'punch_list_item',
+                entityId: newPunchListItem.id,
+                action: 'created',
+                after: newPunchListItem,
+            });
             // Fetch the created item with details (if repository doesn't return full details)
             const createdItemWithDetails = await this.punchListRepo.getPunchListItemById(newPunchListItem.id);
 
@@ -247,6 +256,15 @@ export class PunchListController {
             }
 
             logger(`Punch list item ${itemId} updated successfully in DB.`, 'PunchListController');
+            await recordAuditEvent({
+                projectId: existingItem.projectId,
+                actorId: req.user.id,
+                entityType: 'punch_list_item',
+                entityId: itemId,
+                action: 'updated',
+                before: existingItem,
+                after: updatedPunchListItem,
+            });
 
             // 5. Cleanup old R2 photo if replaced or removed
             // import { deleteFromR2 } from '../r2-upload'; // Adjust path
@@ -290,10 +308,22 @@ export class PunchListController {
         }
         // Optional: Add authorization check
         try {
+            const existingItem = await this.punchListRepo.getPunchListItemById(itemId);
             const success = await this.punchListRepo.deletePunchListItem(itemId);
             if (!success) {
                  return next(new HttpError(404, 'Punch list item not found.'));
             }
+            if (existingItem) {
+                await recordAuditEvent({
+                    projectId: existingItem.projectId,
+                    actorId: req.user.id,
+                    entityType: 'punch_list_item',
+                    entityId: itemId,
+                    action: 'deleted',
+                    before: existingItem,
+                    metadata: { description: existingItem.description },
+                });
+            }
             res.status(200).json({ message: 'Punch list item deleted successfully.' });
         } catch (error) {
             logger(`Error deleting punch list item ${itemId}: ${error instanceof Error ? error.message : error}`, 'PunchListController');
@@ -1,12 +1,25 @@
 import { Request, Response } from "express";
 import { QuoteRepository } from "../storage/repositories/quote.repository";
 import { QuoteAnalyticsRepository } from "../storage/repositories/quote-analytics.repository";
+import { quoteRevisionRepository } from "../storage/repositories/quoteRevision.repository";
+import { quoteSignatureRepository } from "../storage/repositories/quoteSignature.repository";
 import { createInsertSchema } from "drizzle-zod";
-import { quotes, quoteLineItems, quoteResponses } from "@shared/schema";
+import { quotes, quoteLineItems, quoteResponses, QUOTE_LINE_ITEM_SELECTION_TYPES } from "@shared/schema";
 import { uploadToR2, deleteFromR2 } from "../r2-upload";
 import { z } from "zod";
+import { paymentStagesSchema } from "@shared/quote-payment-stages";
+import { quoteSignatureInputSchema } from "@shared/quote-signature";
 import { sendEmail } from "../email";
 import { initializeQuoteChat } from "../stream-chat";
+import { HttpError } from "../errors";
+import { snapshotQuoteRevision, getCustomerQuoteByToken, diffQuoteRevisions } from "../services/quote-revision.service";
+import { selectQuoteOptions } from "../services/quote-options.service";
+import { isQuoteExpired, requestQuoteRenewal } from "../services/quote-follow-up.service";
+import { quoteFollowUpRepository } from "../storage/repositories/quoteFollowUp.repository";
+import { signQuote, summarizeSignature, getSignedQuotePdf } from "../services/quote-signature.service";
+import { approveQuoteMargin, getQuoteMarginReport, requireMarginApproval } from "../services/quote-margin.service";
+import { lookupTaxRate, refreshQuoteTaxRate, requireConfirmedTaxRate, resolveQuoteTaxRateOrigin, taxRateLookupSchema } from "../services/tax-rate.service";
+import { withoutInternalCosts } from "@shared/quote-margins";
 import fs from 'fs';
 import path from 'path';
 
@@ -19,8 +32,14 @@ const lineItemForCreateSchema = z.object({
   discountPercentage: z.union([z.string(), z.number()]).optional(),
   discountAmount: z.union([z.string(), z.number()]).optional(),
   total: z.union([z.string(), z.number()]),
+  unitCost: z.union([z.string(), z.number()]).nullable().optional(),
+  markupPercentage: z.union([z.string(), z.number()]).nullable().optional(),
 });
 
+// Internal costing: blank clears the value, so the item counts as uncosted
+const optionalDecimal = z.union([z.string(), z.number()]).nullable().optional()
+  .transform(val => val === undefined ? undefined : val === null || val === "" ? null : String(val));
+
 const createQuoteSchema = createInsertSchema(quotes).omit({
   id: true,
   quoteNumber: true,
@@ -28,6 +47,11 @@ const createQuoteSchema = createInsertSchema(quotes).omit({
   createdById: true,
   createdAt: true,
   updatedAt: true,
+  // Where the tax rate came from is worked out on the server, see resolveQuoteTaxRateOrigin
+  taxLocationCode: true,
+  taxJurisdiction: true,
+  taxRateSource: true,
+  taxRateCheckedAt: true,
 }).extend({
   // Override date fields to accept strings/null and convert them to Date objects
   validUntil: z.string().transform((str) => new Date(str)),
@@ -62,10 +86,15 @@ const createQuoteSchema = createInsertSchema(quotes).omit({
   total: z.union([z.number(), z.string()]).optional().transform((val) => val !== undefined ? val.toString() : undefined),
   // Add lineItems array to the schema
   lineItems: z.array(lineItemForCreateSchema).optional(),
+  // Staged schedule, e.g. from a quote template; replaces the three percentages above
+  paymentStages: paymentStagesSchema.optional(),
 });
 
 const createLineItemSchema = z.object({
   category: z.string().min(1, "Category is required"),
+  selectionType: z.enum(QUOTE_LINE_ITEM_SELECTION_TYPES).optional(),
+  optionGroup: z.string().trim().max(100).nullable().optional().transform(val => val === undefined ? undefined : val || null),
+  isDefaultSelected: z.boolean().optional(),
   description: z.string().min(1, "Description is required"),
   quantity: z.union([z.string(), z.number()]).transform(val => String(val)),
   unit: z.string().optional().default(""),
@@ -73,6 +102,8 @@ const createLineItemSchema = z.object({
   discountPercentage: z.union([z.string(), z.number()]).optional().default("0").transform(val => String(val || "0")),
   discountAmount: z.union([z.string(), z.number()]).optional().default("0").transform(val => String(val || "0")),
   totalPrice: z.union([z.string(), z.number()]).optional().transform(val => val ? String(val) : "0"),
+  unitCost: optionalDecimal,
+  markupPercentage: optionalDecimal,
   sortOrder: z.number().optional().default(0),
 });
 
@@ -82,6 +113,12 @@ const createResponseSchema = createInsertSchema(quoteResponses).omit({
   createdAt: true,
 });
 
+// Portal clients can sign in too; internal costing is only for staff
+function isStaff(req: Request): boolean {
+  const role = req.user?.role;
+  return role === 'admin' || role === 'projectManager';
+}
+
 export class QuoteController {
   private quoteRepository: QuoteRepository;
   private analyticsRepository: QuoteAnalyticsRepository;
@@ -113,7 +150,7 @@ export class QuoteController {
         return res.status(404).json({ error: "Quote not found" });
       }
 
-      res.json(quote);
+      res.json(isStaff(req) ? quote : { ...quote, lineItems: quote.lineItems?.map(withoutInternalCosts) });
     } catch (error) {
       console.error("Error fetching quote:", error);
       res.status(500).json({ error: "Failed to fetch quote" });
@@ -134,7 +171,10 @@ export class QuoteController {
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      const quote = await this.quoteRepository.createQuote(validatedData, userId);
+      const taxOrigin = validatedData.taxRate !== undefined
+        ? await resolveQuoteTaxRateOrigin({ ...validatedData, taxRate: validatedData.taxRate }, true)
+        : {};
+      const quote = await this.quoteRepository.createQuote({ ...validatedData, ...taxOrigin }, userId);
       res.status(201).json(quote);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -157,8 +197,26 @@ export class QuoteController {
       console.log("UPDATE QUOTE - Parsing with schema...");
       const validatedData = createQuoteSchema.partial().parse(req.body);
       console.log("UPDATE QUOTE - Validated data:", JSON.stringify(validatedData, null, 2));
-      
-      const quote = await this.quoteRepository.updateQuote(quoteId, validatedData);
+
+      const existing = await this.quoteRepository.getQuoteById(quoteId);
+      if (!existing) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+
+      // A new address or rate means the recorded jurisdiction may no longer apply
+      const addressChanged = validatedData.customerAddress !== undefined &&
+        (validatedData.customerAddress ?? "") !== (existing.customerAddress ?? "");
+      const taxRateChanged = validatedData.taxRate !== undefined &&
+        parseFloat(validatedData.taxRate || "0") !== parseFloat(existing.taxRate ?? "0");
+      const taxOrigin = addressChanged || taxRateChanged
+        ? await resolveQuoteTaxRateOrigin({
+            customerAddress: validatedData.customerAddress !== undefined ? validatedData.customerAddress : existing.customerAddress,
+            taxRate: validatedData.taxRate ?? existing.taxRate ?? "0",
+            isManualTax: validatedData.isManualTax ?? existing.isManualTax,
+          }, taxRateChanged)
+        : {};
+
+      const quote = await this.quoteRepository.updateQuote(quoteId, { ...validatedData, ...taxOrigin });
       
       if (!quote) {
         return res.status(404).json({ error: "Quote not found" });
@@ -236,6 +294,15 @@ export class QuoteController {
         });
       }
 
+      // Low-margin quotes wait for an owner's approval
+      await requireMarginApproval(quoteDetails);
+      // ...and a fallback tax rate has to be confirmed first
+      requireConfirmedTaxRate(quoteDetails);
+
+      // Freeze what the customer is about to see; later edits stay in the draft until the next send
+      const revision = await snapshotQuoteRevision(quoteDetails, (req.user as any)?.id ?? null);
+      console.log(`[QuoteController] Saved revision ${revision.revisionNumber} for quote ${quoteDetails.quoteNumber}`);
+
       // Update quote status to 'sent'
       const quote = await this.quoteRepository.sendQuote(quoteId);
       if (!quote) {
@@ -253,7 +320,8 @@ export class QuoteController {
           eventData: {
             quoteNumber: quoteDetails.quoteNumber,
             customerName: quoteDetails.customerName,
-            customerEmail: quoteDetails.customerEmail
+            customerEmail: quoteDetails.customerEmail,
+            revisionNumber: revision.revisionNumber
           }
         });
         console.log(`[QuoteController] Analytics record created for quote ${quoteDetails.quoteNumber}`);
@@ -287,6 +355,7 @@ export class QuoteController {
         return res.json({ 
           message: "Quote sent successfully but email delivery failed", 
           quote,
+          revisionNumber: revision.revisionNumber,
           emailSent: false 
         });
       }
@@ -295,9 +364,13 @@ export class QuoteController {
       res.json({ 
         message: "Quote sent successfully via email", 
         quote,
+        revisionNumber: revision.revisionNumber,
         emailSent: true 
       });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       console.error("[QuoteController] Error sending quote:", error);
       res.status(500).json({ error: "Failed to send quote" });
     }
@@ -1044,7 +1117,7 @@ This email was sent to ${quote.customerEmail}. All quotes are confidential and p
       }
 
       const lineItems = await this.quoteRepository.getQuoteLineItems(quoteId);
-      res.json(lineItems);
+      res.json(isStaff(req) ? lineItems : lineItems.map(withoutInternalCosts));
     } catch (error) {
       console.error("Error fetching line items:", error);
       res.status(500).json({ error: "Failed to fetch line items" });
@@ -1397,18 +1470,37 @@ This email was sent to ${quote.customerEmail}. All quotes are confidential and p
         return res.status(400).json({ error: "Token is required" });
       }
 
-      const quote = await this.quoteRepository.getQuoteByAccessToken(token);
+      // Customers see the latest sent revision, never the draft being edited
+      const quote = await getCustomerQuoteByToken(token);
       if (!quote) {
         return res.status(404).json({ error: "Quote not found or expired" });
       }
 
-      res.json(quote);
+      const signature = await quoteSignatureRepository.getSignatureForQuote(quote.id);
+      res.json({ ...quote, signature: signature ? summarizeSignature(signature) : null });
     } catch (error) {
       console.error("Error fetching quote by token:", error);
       res.status(500).json({ error: "Failed to fetch quote" });
     }
   }
 
+  async updateQuoteOptions(req: Request, res: Response) {
+    try {
+      const { lineItemIds } = z.object({ lineItemIds: z.array(z.number().int()) }).parse(req.body);
+      const quote = await selectQuoteOptions(req.params.token, lineItemIds);
+      res.json({ ...quote, signature: null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error selecting quote options:", error);
+      res.status(500).json({ error: "Failed to update quote options" });
+    }
+  }
+
   async respondToQuote(req: Request, res: Response) {
     try {
       const { token } = req.params;
@@ -1416,25 +1508,255 @@ This email was sent to ${quote.customerEmail}. All quotes are confidential and p
         return res.status(400).json({ error: "Token is required" });
       }
 
-      // First get the quote to get its ID
-      const quote = await this.quoteRepository.getQuoteByAccessToken(token);
+      // The sent revision decides expiry, as it is what the customer is answering
+      const quote = await getCustomerQuoteByToken(token);
       if (!quote) {
         return res.status(404).json({ error: "Quote not found or expired" });
       }
+      if (isQuoteExpired(quote)) {
+        return res.status(400).json({
+          error: "This quote has expired. You can request an updated proposal instead.",
+          canRequestRenewal: true,
+        });
+      }
+
+      // Recorded from the request itself, never trusted from the body
+      const context = {
+        ipAddress: req.ip || null,
+        userAgent: req.headers['user-agent'] || null,
+      };
+
+      // Accepting is a contract signature, so it goes through the signing flow
+      if (req.body?.action === 'accepted') {
+        const input = quoteSignatureInputSchema.parse(req.body.signature);
+        const signature = await signQuote(token, input, context);
+        return res.status(201).json(summarizeSignature(signature));
+      }
 
       const validatedData = createResponseSchema.parse(req.body);
-      const response = await this.quoteRepository.createQuoteResponse(quote.id, validatedData);
+      const response = await this.quoteRepository.createQuoteResponse(quote.id, { ...validatedData, ...context });
       
       res.status(201).json(response);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       console.error("Error creating quote response:", error);
       res.status(500).json({ error: "Failed to create response" });
     }
   }
 
+  async requestRenewal(req: Request, res: Response) {
+    try {
+      const { message } = z.object({ message: z.string().trim().max(2000).optional() }).parse(req.body ?? {});
+      const result = await requestQuoteRenewal(req.params.token, message || null);
+      res.status(result.alreadyRequested ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error requesting quote renewal:", error);
+      res.status(500).json({ error: "Failed to request renewal" });
+    }
+  }
+
+  async getQuoteFollowUps(req: Request, res: Response) {
+    try {
+      const quoteId = parseInt(req.params.id);
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      const followUps = await quoteFollowUpRepository.getFollowUpsForQuote(quoteId);
+      res.json(followUps);
+    } catch (error) {
+      console.error("Error fetching quote follow-ups:", error);
+      res.status(500).json({ error: "Failed to fetch quote follow-ups" });
+    }
+  }
+
+  async downloadSignedAgreement(req: Request, res: Response) {
+    try {
+      const quote = await this.quoteRepository.getQuoteByAccessToken(req.params.token);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found or expired" });
+      }
+      return this.sendSignedPdf(res, quote.id, quote.quoteNumber);
+    } catch (error) {
+      console.error("Error downloading signed agreement:", error);
+      res.status(500).json({ error: "Failed to download signed agreement" });
+    }
+  }
+
+  async getQuoteSignature(req: Request, res: Response) {
+    try {
+      const quoteId = parseInt(req.params.id);
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      const signature = await quoteSignatureRepository.getSignatureForQuote(quoteId);
+      if (!signature) {
+        return res.status(404).json({ error: "This quote has not been signed" });
+      }
+
+      // Re-hash the stored PDF so tampering or a lost file shows up here
+      const { intact } = await getSignedQuotePdf(signature).catch(() => ({ intact: false }));
+      res.json({ ...signature, documentIntact: intact });
+    } catch (error) {
+      console.error("Error fetching quote signature:", error);
+      res.status(500).json({ error: "Failed to fetch quote signature" });
+    }
+  }
+
+  async downloadQuoteSignaturePdf(req: Request, res: Response) {
+    try {
+      const quoteId = parseInt(req.params.id);
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      const quote = await this.quoteRepository.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      return this.sendSignedPdf(res, quote.id, quote.quoteNumber);
+    } catch (error) {
+      console.error("Error downloading signed quote PDF:", error);
+      res.status(500).json({ error: "Failed to download signed quote" });
+    }
+  }
+
+  private async sendSignedPdf(res: Response, quoteId: number, quoteNumber: string) {
+    const signature = await quoteSignatureRepository.getSignatureForQuote(quoteId);
+    if (!signature) {
+      return res.status(404).json({ error: "This quote has not been signed" });
+    }
+
+    const { pdf } = await getSignedQuotePdf(signature);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="Quote-${quoteNumber}-signed.pdf"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  }
+
+  async getQuoteRevisions(req: Request, res: Response) {
+    try {
+      const quoteId = parseInt(req.params.id);
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      const revisions = await quoteRevisionRepository.getRevisionsForQuote(quoteId);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching quote revisions:", error);
+      res.status(500).json({ error: "Failed to fetch quote revisions" });
+    }
+  }
+
+  async compareQuoteRevisions(req: Request, res: Response) {
+    try {
+      const quoteId = parseInt(req.params.id);
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      // Omitting `to` compares the revision against the current draft
+      const { from, to } = z.object({
+        from: z.coerce.number().int().positive(),
+        to: z.coerce.number().int().positive().optional(),
+      }).parse(req.query);
+
+      const diff = await diffQuoteRevisions(quoteId, from, to ?? null);
+      res.json(diff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error comparing quote revisions:", error);
+      res.status(500).json({ error: "Failed to compare quote revisions" });
+    }
+  }
+
+  async getQuoteMargin(req: Request, res: Response) {
+    try {
+      const quoteId = parseInt(req.params.id);
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      const report = await getQuoteMarginReport(quoteId);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error fetching quote margin:", error);
+      res.status(500).json({ error: "Failed to fetch quote margin" });
+    }
+  }
+
+  async approveQuoteMargin(req: Request, res: Response) {
+    try {
+      const quoteId = parseInt(req.params.id);
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      const user = req.user as any;
+      const report = await approveQuoteMargin(quoteId, user.id);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error approving quote margin:", error);
+      res.status(500).json({ error: "Failed to approve quote margin" });
+    }
+  }
+
+  async lookupTaxRate(req: Request, res: Response) {
+    try {
+      const input = taxRateLookupSchema.parse(req.body);
+      const result = await lookupTaxRate(input);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message ?? "Invalid data", details: error.errors });
+      }
+      console.error("Error looking up tax rate:", error);
+      res.status(500).json({ error: "Failed to look up tax rate" });
+    }
+  }
+
+  async refreshQuoteTaxRate(req: Request, res: Response) {
+    try {
+      const quoteId = parseInt(req.params.id);
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      const result = await refreshQuoteTaxRate(quoteId);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error refreshing quote tax rate:", error);
+      res.status(500).json({ error: "Failed to refresh quote tax rate" });
+    }
+  }
+
   async updateQuoteFinancials(req: Request, res: Response) {
     try {
       const quoteId = parseInt(req.params.id);
@@ -1451,9 +1773,21 @@ This email was sent to ${quote.customerEmail}. All quotes are confidential and p
         downPaymentPercentage: z.string().optional(),
         milestonePaymentPercentage: z.string().optional(),
         finalPaymentPercentage: z.string().optional(),
+        paymentStages: paymentStagesSchema.optional(),
       }).parse(req.body);
 
-      const updatedQuote = await this.quoteRepository.updateQuoteFinancials(quoteId, validatedData);
+      const existing = await this.quoteRepository.getQuoteById(quoteId);
+      if (!existing) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+
+      // A rate typed over the looked-up one is the estimator's call, not DOR's
+      const taxRateChanged = validatedData.taxRate !== undefined &&
+        parseFloat(validatedData.taxRate || "0") !== parseFloat(existing.taxRate ?? "0");
+      const updatedQuote = await this.quoteRepository.updateQuoteFinancials(quoteId, {
+        ...validatedData,
+        ...(taxRateChanged || validatedData.isManualTax ? { taxRateSource: 'manual' as const } : {}),
+      });
       
       if (!updatedQuote) {
         return res.status(404).json({ error: "Quote not found" });
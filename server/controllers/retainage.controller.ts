@@ -0,0 +1,64 @@
+// server/controllers/retainage.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { User } from '@shared/schema';
+import { HttpError } from '../errors';
+import {
+  retainageSettingsSchema,
+  retainageReleaseSchema,
+  getRetainageSummary,
+  updateRetainagePercentage,
+} from '../services/retainage.service';
+import { paymentService } from '../services/payment.service';
+import { recordAuditEvent } from '../services/audit.service';
+
+// GET /api/projects/:projectId/retainage
+export const getRetainage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const summary = await getRetainageSummary(projectId);
+    res.status(200).json(summary);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PUT /api/projects/:projectId/retainage
+export const updateRetainage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const validation = retainageSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid retainage data.', validation.error.flatten());
+    }
+
+    await updateRetainagePercentage(projectId, (req.user as User).id, validation.data);
+    res.status(200).json(await getRetainageSummary(projectId));
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/retainage/release
+export const releaseRetainage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const validation = retainageReleaseSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid retainage release data.', validation.error.flatten());
+    }
+
+    const invoice = await paymentService.createRetainageReleaseInvoice(projectId, validation.data.amount);
+    await recordAuditEvent({
+      projectId,
+      actorId: (req.user as User).id,
+      entityType: 'invoice',
+      entityId: invoice.id,
+      action: 'created',
+      after: invoice,
+      metadata: { source: 'retainage_release' },
+    });
+    res.status(201).json(invoice);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,154 @@
+// server/controllers/selection.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { User } from '@shared/schema';
+import { HttpError } from '../errors';
+import type { ProjectManagerPermissions } from '../middleware/enhanced-permissions.middleware';
+import {
+  selectionInputSchema,
+  selectionUpdateSchema,
+  chooseSelectionSchema,
+  getProjectSelections,
+  getSelection,
+  getSelectionsForUser,
+  createSelection as createSelectionRecord,
+  updateSelection as updateSelectionRecord,
+  deleteSelection as deleteSelectionRecord,
+  chooseSelectionOption,
+  approveSelection as approveSelectionRecord,
+  createSelectionChangeOrderInvoice,
+} from '../services/selection.service';
+
+function parseIds(req: Request): { projectId: number; selectionId: number } {
+  const projectId = parseInt(req.params.projectId, 10);
+  const selectionId = parseInt(req.params.selectionId, 10);
+  if (isNaN(selectionId)) {
+    throw new HttpError(400, 'Invalid selection ID.');
+  }
+  return { projectId, selectionId };
+}
+
+// GET /api/selections
+export const getAllAccessibleSelections = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const selections = await getSelectionsForUser(req.user as User);
+    res.status(200).json(selections);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/selections
+export const getSelectionsForProject = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const selections = await getProjectSelections(projectId);
+    res.status(200).json(selections);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/selections/:selectionId
+export const getSelectionById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, selectionId } = parseIds(req);
+    const selection = await getSelection(projectId, selectionId);
+    res.status(200).json(selection);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/selections
+export const createSelection = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const validation = selectionInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid selection data.', validation.error.flatten());
+    }
+
+    const selection = await createSelectionRecord(projectId, (req.user as User).id, validation.data);
+    res.status(201).json(selection);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PATCH /api/projects/:projectId/selections/:selectionId
+export const updateSelection = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, selectionId } = parseIds(req);
+    const validation = selectionUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid selection data.', validation.error.flatten());
+    }
+    if (Object.keys(validation.data).length === 0) {
+      throw new HttpError(400, 'No update data provided.');
+    }
+
+    const selection = await updateSelectionRecord(projectId, selectionId, (req.user as User).id, validation.data);
+    res.status(200).json(selection);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/projects/:projectId/selections/:selectionId
+export const deleteSelection = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, selectionId } = parseIds(req);
+    await deleteSelectionRecord(projectId, selectionId, (req.user as User).id);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/selections/:selectionId/choose
+// Clients choose from the portal; staff who can edit the project may record a choice on their behalf
+export const chooseSelection = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, selectionId } = parseIds(req);
+    const user = req.user as User;
+    const permissions = (req as any).projectPermissions as ProjectManagerPermissions | undefined;
+
+    const canChoose = permissions?.canEditProject || await storage.clientHasProjectAccess(user.id, projectId);
+    if (!canChoose) {
+      throw new HttpError(403, 'Only the project client or project staff can make selections.');
+    }
+
+    const validation = chooseSelectionSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'An option must be chosen.', validation.error.flatten());
+    }
+
+    const selection = await chooseSelectionOption(projectId, selectionId, user.id, validation.data.optionId);
+    res.status(200).json(selection);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/selections/:selectionId/approve
+export const approveSelection = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, selectionId } = parseIds(req);
+    const selection = await approveSelectionRecord(projectId, selectionId, (req.user as User).id);
+    res.status(200).json(selection);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/selections/:selectionId/change-order-invoice
+export const createChangeOrderInvoice = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, selectionId } = parseIds(req);
+    const result = await createSelectionChangeOrderInvoice(projectId, selectionId, (req.user as User).id);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -8,6 +8,7 @@ import {
   insertTaskSchema,
   updateTaskSchema,
   insertTaskDependencySchema,
+  TASK_DEPENDENCY_TYPES,
   User, // Keep User type for req.user casting
   InsertTask, // Type for creating tasks
   TaskDependency // Type for dependency data
@@ -19,6 +20,13 @@ const taskPriorityEnum = z.enum(['low', 'medium', 'high']);
 import { HttpError } from '../errors';
 import { log as logger } from '@server/vite'; // Use logger from vite.ts
 import { BillingValidator } from '../utils/billing-validation';
+import { recordAuditEvent } from '../services/audit.service';
+import {
+  assertDependencyIsAcyclic,
+  getProjectSchedule as getProjectScheduleAnalysis,
+  previewDownstreamShift,
+  applyDownstreamShift,
+} from '../services/scheduling.service';
 
 // --- Zod Schemas ---
 // Use the schemas directly from shared/schema.ts
@@ -31,6 +39,12 @@ const taskDependencySchema = z.object({
     successorId: z.number().int().positive("Successor ID must be a positive integer."),
 });
 
+// Creation additionally accepts the link type and lag (negative lag = lead)
+const taskDependencyCreateSchema = taskDependencySchema.extend({
+    type: z.enum(TASK_DEPENDENCY_TYPES).default('FS'),
+    lagDays: z.number().int().min(-365).max(365).default(0),
+});
+
 // Define AuthenticatedRequest locally if not exported globally or from auth middleware
 interface AuthenticatedRequest extends Request {
     user: User; // Use the imported User type
@@ -188,6 +202,15 @@ export const createTask = async (
          throw new HttpError(500, 'Failed to create task in repository.');
     }
 
+    await recordAuditEvent({
+        projectId: projectIdNum,
+        actorId: user?.id,
+        entityType: 'task',
+        entityId: createdTask.id,
+        action: 'created',
+        after: createdTask,
+    });
+
     // Return the newly created task (repository should return TaskWithAssignee)
     res.status(201).json(createdTask);
   } catch (error) {
@@ -270,6 +293,16 @@ export const updateTask = async (
 
     // Check if this is a billable task being completed
     const isBeingCompleted = validatedData.status === 'done' && currentTask.status !== 'done';
+
+    await recordAuditEvent({
+        projectId: currentTask.projectId,
+        actorId: (req.user as User | undefined)?.id,
+        entityType: 'task',
+        entityId: taskIdNum,
+        action: isBeingCompleted ? 'completed' : 'updated',
+        before: currentTask,
+        after: updatedTask,
+    });
     const isBillableTask = currentTask.isBillable;
     
     if (isBeingCompleted && isBillableTask) {
@@ -315,6 +348,9 @@ export const deleteTask = async (
 
     // TODO: Add authorization check: Does the authenticated user have permission to delete tasks in this project?
 
+    // Capture the task before deletion for the audit trail
+    const existingTask = await storage.tasks.getTaskById(taskIdNum);
+
     logger(`[deleteTask] Calling repository to delete taskId: ${taskIdNum}`, 'TaskController');
     const success = await storage.tasks.deleteTask(taskIdNum); // Repo handles dependency deletion
     logger(`[deleteTask] Repository returned success: ${success}`, 'TaskController');
@@ -324,6 +360,18 @@ export const deleteTask = async (
         throw new HttpError(404, 'Task not found or could not be deleted.');
     }
 
+    if (existingTask) {
+        await recordAuditEvent({
+            projectId: existingTask.projectId,
+            actorId: (req.user as User | undefined)?.id,
+            entityType: 'task',
+            entityId: taskIdNum,
+            action: 'deleted',
+            before: existingTask,
+            metadata: { title: existingTask.title },
+        });
+    }
+
     // Standard success response for DELETE
     res.status(204).send();
   } catch (error) {
@@ -350,17 +398,25 @@ export const createTaskDependency = async (
         }
 
         // Validate the request body
-        const validationResult = taskDependencySchema.safeParse(req.body);
+        const validationResult = taskDependencyCreateSchema.safeParse(req.body);
         if (!validationResult.success) {
              throw new HttpError(400, 'Invalid dependency data.', validationResult.error.flatten());
         }
-        const { predecessorId, successorId } = validationResult.data;
+        const { predecessorId, successorId, type, lagDays } = validationResult.data;
+
+        // Both tasks must belong to this project, otherwise the link could cross projects
+        const [predecessor, successor] = await Promise.all([
+            storage.tasks.getTaskById(predecessorId),
+            storage.tasks.getTaskById(successorId),
+        ]);
+        if (!predecessor || !successor || predecessor.projectId !== projectIdNum || successor.projectId !== projectIdNum) {
+            throw new HttpError(404, 'One or both tasks do not exist in this project.');
+        }
 
-        // TODO: Add authorization check: Does user have permission to modify tasks in this project?
-        // Optional: Verify both predecessorId and successorId belong to projectIdNum before calling repo
+        await assertDependencyIsAcyclic(projectIdNum, predecessorId, successorId);
 
-        logger(`[createTaskDependency] Calling repository for ${predecessorId} -> ${successorId}`, 'TaskController');
-        const dependency = await storage.tasks.addTaskDependency(predecessorId, successorId);
+        logger(`[createTaskDependency] Calling repository for ${predecessorId} -> ${successorId} (${type}, lag ${lagDays})`, 'TaskController');
+        const dependency = await storage.tasks.addTaskDependency(predecessorId, successorId, type, lagDays);
         logger(`[createTaskDependency] Repository returned dependency: ${dependency?.id}`, 'TaskController');
 
         // addTaskDependency throws HttpError on known issues (404, 409)
@@ -425,6 +481,88 @@ export const deleteTaskDependency = async (
     }
 };
 
+/**
+ * Get the critical path analysis for a project's tasks: early/late dates, total float,
+ * the critical path itself and any tasks scheduled before their predecessors allow.
+ * Assumes projectId is validated by middleware.
+ */
+export const getProjectSchedule = async (
+    req: Request, // projectId is validated by middleware
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    logger(`[getProjectSchedule] Handler reached for projectId: ${req.params.projectId}`, 'TaskController');
+    try {
+        const projectIdNum = (req as any).projectIdNum;
+        if (isNaN(projectIdNum)) {
+            throw new HttpError(400, 'Invalid project ID parameter.');
+        }
+
+        const schedule = await getProjectScheduleAnalysis(projectIdNum);
+        logger(`[getProjectSchedule] ${schedule.criticalPath.length} critical task(s), ${schedule.conflicts.length} conflict(s)`, 'TaskController');
+
+        res.status(200).json(schedule);
+    } catch (error) {
+        logger(`[getProjectSchedule] Error occurred: ${error instanceof Error ? error.message : String(error)}`, 'TaskController');
+        next(error);
+    }
+};
+
+/**
+ * Preview how downstream tasks would move to respect a task's current dates.
+ * Assumes projectId and taskId are validated by middleware.
+ */
+export const previewTaskReschedule = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    logger(`[previewTaskReschedule] Handler reached for taskId: ${req.params.taskId}`, 'TaskController');
+    try {
+        const projectIdNum = (req as any).projectIdNum;
+        const taskIdNum = (req as any).taskIdNum;
+        if (isNaN(projectIdNum) || isNaN(taskIdNum)) {
+            throw new HttpError(400, 'Invalid project or task ID parameter.');
+        }
+
+        const proposal = await previewDownstreamShift(projectIdNum, taskIdNum);
+        res.status(200).json(proposal);
+    } catch (error) {
+        logger(`[previewTaskReschedule] Error occurred: ${error instanceof Error ? error.message : String(error)}`, 'TaskController');
+        next(error);
+    }
+};
+
+/**
+ * Shift downstream tasks so none of them starts before its dependencies allow.
+ * Assumes projectId and taskId are validated by middleware and user is authenticated.
+ */
+export const applyTaskReschedule = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    logger(`[applyTaskReschedule] Handler reached for taskId: ${req.params.taskId}`, 'TaskController');
+    try {
+        const projectIdNum = (req as any).projectIdNum;
+        const taskIdNum = (req as any).taskIdNum;
+        if (isNaN(projectIdNum) || isNaN(taskIdNum)) {
+            throw new HttpError(400, 'Invalid project or task ID parameter.');
+        }
+
+        const proposal = await applyDownstreamShift(projectIdNum, taskIdNum, (req.user as User).id);
+        res.status(200).json({
+            ...proposal,
+            message: proposal.changes.length > 0
+                ? `Shifted ${proposal.changes.length} downstream task(s).`
+                : 'No downstream tasks needed to move.',
+        });
+    } catch (error) {
+        logger(`[applyTaskReschedule] Error occurred: ${error instanceof Error ? error.message : String(error)}`, 'TaskController');
+        next(error);
+    }
+};
+
 /**
  * Publish all tasks for a project, making them visible to clients.
  * Assumes projectId is validated and user is authenticated.
@@ -0,0 +1,41 @@
+// server/controllers/tax-rate.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { User } from '@shared/schema';
+import { HttpError } from '../errors';
+import {
+  taxRateImportSchema,
+  importDorRateTable,
+  getRateTables as getRateTableSummaries,
+} from '../services/tax-rate.service';
+
+// GET /api/tax-rates/tables
+export const getRateTables = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const tables = await getRateTableSummaries();
+    res.status(200).json(tables);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/tax-rates/import (multipart: file, effectiveFrom?)
+export const importRateTable = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const admin = req.user as User;
+    if (!req.file) {
+      throw new HttpError(400, 'Choose a DOR rate table file to import.');
+    }
+    const validation = taxRateImportSchema.safeParse({
+      fileName: req.file.originalname,
+      effectiveFrom: req.body.effectiveFrom || undefined,
+    });
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid import options.', validation.error.flatten());
+    }
+
+    const result = await importDorRateTable(req.file.buffer.toString('utf8'), validation.data, admin.id);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,42 @@
+// server/controllers/webhook-event.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { User, WEBHOOK_EVENT_STATUSES } from '@shared/schema';
+import { HttpError } from '../errors';
+import { listWebhookEvents, replayWebhookEvent } from '../services/stripe-webhook.service';
+
+const webhookEventQuerySchema = z.object({
+  status: z.enum(WEBHOOK_EVENT_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// GET /api/admin/webhook-events?status=failed
+export const getWebhookEvents = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const validation = webhookEventQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid webhook event query.', validation.error.flatten());
+    }
+
+    const events = await listWebhookEvents(validation.data.status, validation.data.limit);
+    res.status(200).json(events);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/admin/webhook-events/:eventId/replay
+export const replayEvent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const admin = req.user as User;
+    const eventId = parseInt(req.params.eventId, 10);
+    if (isNaN(eventId)) {
+      throw new HttpError(400, 'Invalid webhook event ID.');
+    }
+
+    const event = await replayWebhookEvent(eventId, admin.id);
+    res.status(200).json(event);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,151 @@
+// server/controllers/work-calendar.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { User } from '@shared/schema';
+import { HttpError } from '../errors';
+import {
+  calendarSettingsSchema,
+  calendarExceptionSchema,
+  getProjectCalendarView,
+  getCompanyCalendar as getCompanyCalendarView,
+  saveProjectCalendar,
+  saveCompanyCalendar,
+  resetProjectCalendar as resetProjectCalendarRecord,
+  addProjectNonWorkingDay as addProjectNonWorkingDayRecord,
+  removeProjectNonWorkingDay as removeProjectNonWorkingDayRecord,
+  addCompanyNonWorkingDay as addCompanyNonWorkingDayRecord,
+  removeCompanyNonWorkingDay as removeCompanyNonWorkingDayRecord,
+} from '../services/work-calendar.service';
+
+function parseExceptionId(req: Request): number {
+  const exceptionId = parseInt(req.params.exceptionId, 10);
+  if (isNaN(exceptionId)) {
+    throw new HttpError(400, 'Invalid non-working day ID.');
+  }
+  return exceptionId;
+}
+
+function requireAdmin(req: Request): User {
+  const user = req.user as User;
+  if (user?.role !== 'admin') {
+    throw new HttpError(403, 'Only administrators can change the company calendar.');
+  }
+  return user;
+}
+
+// GET /api/projects/:projectId/calendar
+export const getProjectCalendar = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const calendar = await getProjectCalendarView(projectId);
+    res.status(200).json(calendar);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PUT /api/projects/:projectId/calendar
+export const updateProjectCalendar = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const validation = calendarSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid calendar data.', validation.error.flatten());
+    }
+
+    const calendar = await saveProjectCalendar(projectId, (req.user as User).id, validation.data);
+    res.status(200).json(calendar);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/projects/:projectId/calendar
+export const resetProjectCalendar = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    await resetProjectCalendarRecord(projectId, (req.user as User).id);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/calendar/exceptions
+export const addProjectNonWorkingDay = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const validation = calendarExceptionSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid non-working day data.', validation.error.flatten());
+    }
+
+    const exception = await addProjectNonWorkingDayRecord(projectId, (req.user as User).id, validation.data);
+    res.status(201).json(exception);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/projects/:projectId/calendar/exceptions/:exceptionId
+export const removeProjectNonWorkingDay = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    await removeProjectNonWorkingDayRecord(projectId, (req.user as User).id, parseExceptionId(req));
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/calendars/company
+export const getCompanyCalendar = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const calendar = await getCompanyCalendarView();
+    res.status(200).json(calendar);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PUT /api/calendars/company
+export const updateCompanyCalendar = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const admin = requireAdmin(req);
+    const validation = calendarSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid calendar data.', validation.error.flatten());
+    }
+
+    const calendar = await saveCompanyCalendar(admin.id, validation.data);
+    res.status(200).json(calendar);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/calendars/company/exceptions
+export const addCompanyNonWorkingDay = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const admin = requireAdmin(req);
+    const validation = calendarExceptionSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new HttpError(400, 'Invalid non-working day data.', validation.error.flatten());
+    }
+
+    const exception = await addCompanyNonWorkingDayRecord(admin.id, validation.data);
+    res.status(201).json(exception);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/calendars/company/exceptions/:exceptionId
+export const removeCompanyNonWorkingDay = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    requireAdmin(req);
+    await removeCompanyNonWorkingDayRecord(parseExceptionId(req));
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
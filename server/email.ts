@@ -470,3 +470,429 @@ export async function sendNewMessageNotificationEmail({
     fromName: DEFAULT_FROM_NAME
   });
 }
+
+/**
+ * Send a reminder that selections on a project are due (or past due)
+ */
+export async function sendSelectionDeadlineReminderEmail({
+  recipientEmail,
+  recipientFirstName,
+  projectName,
+  selections,
+  overdue
+}: {
+  recipientEmail: string;
+  recipientFirstName: string;
+  projectName: string;
+  selections: { title: string; category: string; deadline: Date }[];
+  overdue: boolean;
+}): Promise<boolean> {
+  const baseUrl = getBaseUrl();
+  const selectionsUrl = `${baseUrl}/selections`;
+
+  const selectionRows = selections.map(selection => `
+                              <tr>
+                                  <td style="padding: 8px 0; border-bottom: 1px solid #eee;"><strong>${selection.title}</strong><br><span style="color: #666; font-size: 13px;">${selection.category}</span></td>
+                                  <td style="padding: 8px 0; border-bottom: 1px solid #eee; text-align: right;">${selection.deadline.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</td>
+                              </tr>`).join('');
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Selections Due</title>
+</head>
+<body style="font-family: 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.6; color: #3d4552;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5;">
+        <tr>
+            <td style="padding: 20px 0;">
+                <table width="680" cellpadding="0" cellspacing="0" style="margin: 0 auto; background-color: #ffffff; border-radius: 12px; box-shadow: 0 8px 32px rgba(61, 69, 82, 0.1);">
+                    <tr>
+                        <td style="background: linear-gradient(135deg, #3d4552 0%, #4a6670 100%); color: #ffffff; padding: 40px 30px; text-align: center; border-bottom: 4px solid #db973c;">
+                            <h1 style="margin: 0; font-size: 28px; font-weight: 700;">Kolmo Construction</h1>
+                            <p style="margin: 8px 0 0 0; font-size: 16px; opacity: 0.9;">${overdue ? 'Selections Past Due' : 'Selections Due Soon'}</p>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="padding: 45px 35px;">
+                            <h2 style="color: #1a1a1a; margin-top: 0;">Hello ${recipientFirstName},</h2>
+                            <p>${overdue
+                              ? `The following selections for <strong>${projectName}</strong> are past their deadline. Late selections can delay ordering and the project schedule.`
+                              : `The following selections for <strong>${projectName}</strong> are due soon:`}</p>
+                            <table width="100%" cellpadding="0" cellspacing="0" style="margin: 20px 0;">${selectionRows}
+                            </table>
+                            <div style="text-align: center; margin: 30px 0;">
+                                <a href="${selectionsUrl}" style="background-color: #db973c; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block;">
+                                    Review Selections
+                                </a>
+                            </div>
+                            <p style="color: #999; font-size: 12px; margin-top: 30px; border-top: 1px solid #eee; padding-top: 20px;">
+                                This is an automated message. Please do not reply to this email.
+                            </p>
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+`;
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: `${overdue ? 'Past due' : 'Reminder'}: selections needed for ${projectName}`,
+    html: emailHtml,
+    from: DEFAULT_FROM_EMAIL,
+    fromName: DEFAULT_FROM_NAME
+  });
+}
+
+/**
+ * Send a change order to the customer for e-approval
+ */
+export async function sendChangeOrderEmail({
+  recipientEmail,
+  recipientName,
+  projectName,
+  changeOrderNumber,
+  title,
+  total,
+  scheduleImpactDays,
+  accessToken
+}: {
+  recipientEmail: string;
+  recipientName: string;
+  projectName: string;
+  changeOrderNumber: string;
+  title: string;
+  total: number;
+  scheduleImpactDays: number;
+  accessToken: string;
+}): Promise<boolean> {
+  const baseUrl = getBaseUrl();
+  const changeOrderUrl = `${baseUrl}/change-order/${accessToken}`;
+  const formattedTotal = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(total);
+  const scheduleText = scheduleImpactDays === 0
+    ? 'No change to the schedule'
+    : `${Math.abs(scheduleImpactDays)} day${Math.abs(scheduleImpactDays) === 1 ? '' : 's'} ${scheduleImpactDays > 0 ? 'added to' : 'removed from'} the schedule`;
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Change Order ${changeOrderNumber}</title>
+</head>
+<body style="font-family: 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.6; color: #3d4552;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5;">
+        <tr>
+            <td style="padding: 20px 0;">
+                <table width="680" cellpadding="0" cellspacing="0" style="margin: 0 auto; background-color: #ffffff; border-radius: 12px; box-shadow: 0 8px 32px rgba(61, 69, 82, 0.1);">
+                    <tr>
+                        <td style="background: linear-gradient(135deg, #3d4552 0%, #4a6670 100%); color: #ffffff; padding: 40px 30px; text-align: center; border-bottom: 4px solid #db973c;">
+                            <h1 style="margin: 0; font-size: 28px; font-weight: 700;">Kolmo Construction</h1>
+                            <p style="margin: 8px 0 0 0; font-size: 16px; opacity: 0.9;">Change Order ${changeOrderNumber}</p>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="padding: 45px 35px;">
+                            <h2 style="color: #1a1a1a; margin-top: 0;">Hello ${recipientName},</h2>
+                            <p>A change order for <strong>${projectName}</strong> needs your review and approval:</p>
+                            <p style="background-color: #f5f5f5; padding: 15px; border-left: 4px solid #db973c; border-radius: 4px;">
+                              <strong>${title}</strong><br>
+                              Cost impact: <strong>${formattedTotal}</strong><br>
+                              ${scheduleText}
+                            </p>
+                            <div style="text-align: center; margin: 30px 0;">
+                                <a href="${changeOrderUrl}" style="background-color: #db973c; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block;">
+                                    Review Change Order
+                                </a>
+                            </div>
+                            <p style="color: #999; font-size: 12px; margin-top: 30px; border-top: 1px solid #eee; padding-top: 20px;">
+                                This is an automated message. Please do not reply to this email.
+                            </p>
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+`;
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: `Change Order ${changeOrderNumber} for ${projectName} - Approval Requested`,
+    html: emailHtml,
+    from: DEFAULT_FROM_EMAIL,
+    fromName: DEFAULT_FROM_NAME
+  });
+}
+
+/**
+ * Send a payment reminder for an unpaid invoice, before it is due, on the due date, or once it is overdue
+ */
+export async function sendInvoiceReminderEmail({
+  recipientEmail,
+  recipientName,
+  invoiceNumber,
+  projectName,
+  amountDue,
+  dueDate,
+  paymentLink,
+  stage,
+  lateFeePercentage
+}: {
+  recipientEmail: string;
+  recipientName: string;
+  invoiceNumber: string;
+  projectName: string;
+  amountDue: number;
+  dueDate: Date;
+  paymentLink: string;
+  stage: 'before_due' | 'due' | 'overdue';
+  lateFeePercentage?: number;
+}): Promise<boolean> {
+  const formattedAmount = amountDue.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+  const formattedDueDate = dueDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+  const headline = stage === 'overdue' ? 'Payment Past Due'
+    : stage === 'due' ? 'Payment Due Today'
+    : 'Upcoming Payment';
+  const intro = stage === 'overdue'
+    ? `Invoice <strong>#${invoiceNumber}</strong> for <strong>${projectName}</strong> was due on ${formattedDueDate} and has not been paid in full.`
+    : stage === 'due'
+      ? `Invoice <strong>#${invoiceNumber}</strong> for <strong>${projectName}</strong> is due today.`
+      : `Invoice <strong>#${invoiceNumber}</strong> for <strong>${projectName}</strong> is due on ${formattedDueDate}.`;
+  const lateFeeNote = lateFeePercentage && lateFeePercentage > 0
+    ? `<p style="color: #666; font-size: 14px;">A late fee of ${lateFeePercentage}% of the unpaid balance applies once the grace period after the due date ends.</p>`
+    : '';
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>${headline}</title>
+</head>
+<body style="font-family: 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.6; color: #3d4552;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5;">
+        <tr>
+            <td style="padding: 20px 0;">
+                <table width="680" cellpadding="0" cellspacing="0" style="margin: 0 auto; background-color: #ffffff; border-radius: 12px; box-shadow: 0 8px 32px rgba(61, 69, 82, 0.1);">
+                    <tr>
+                        <td style="background: linear-gradient(135deg, #3d4552 0%, #4a6670 100%); color: #ffffff; padding: 40px 30px; text-align: center; border-bottom: 4px solid #db973c;">
+                            <h1 style="margin: 0; font-size: 28px; font-weight: 700;">Kolmo Construction</h1>
+                            <p style="margin: 8px 0 0 0; font-size: 16px; opacity: 0.9;">${headline}</p>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="padding: 45px 35px;">
+                            <h2 style="color: #1a1a1a; margin-top: 0;">Hello ${recipientName},</h2>
+                            <p>${intro}</p>
+                            <table width="100%" cellpadding="0" cellspacing="0" style="margin: 20px 0; background-color: #f8f9fa; border-radius: 8px;">
+                                <tr>
+                                    <td style="padding: 16px 20px;"><strong>Balance due</strong></td>
+                                    <td style="padding: 16px 20px; text-align: right; font-size: 20px; font-weight: 700; color: ${stage === 'overdue' ? '#c0392b' : '#3d4552'};">${formattedAmount}</td>
+                                </tr>
+                                <tr>
+                                    <td style="padding: 0 20px 16px 20px; color: #666;">Due date</td>
+                                    <td style="padding: 0 20px 16px 20px; text-align: right; color: #666;">${formattedDueDate}</td>
+                                </tr>
+                            </table>
+                            ${lateFeeNote}
+                            <div style="text-align: center; margin: 30px 0;">
+                                <a href="${paymentLink}" style="background-color: #db973c; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block;">
+                                    Pay Now
+                                </a>
+                            </div>
+                            <p style="color: #666; font-size: 14px;">If you have already sent this payment, thank you, and please disregard this reminder.</p>
+                            <p style="color: #999; font-size: 12px; margin-top: 30px; border-top: 1px solid #eee; padding-top: 20px;">
+                                This is an automated message. Please do not reply to this email.
+                            </p>
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+`;
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: stage === 'overdue'
+      ? `Past due: invoice #${invoiceNumber} for ${projectName}`
+      : `Payment reminder: invoice #${invoiceNumber} for ${projectName}`,
+    html: emailHtml,
+    from: DEFAULT_FROM_EMAIL,
+    fromName: DEFAULT_FROM_NAME
+  });
+}
+
+/**
+ * Send a follow-up on a quote the customer has not responded to, or a notice that it expired
+ */
+export async function sendQuoteFollowUpEmail({
+  recipientEmail,
+  recipientName,
+  quoteNumber,
+  title,
+  quoteUrl,
+  validUntil,
+  stage
+}: {
+  recipientEmail: string;
+  recipientName: string;
+  quoteNumber: string;
+  title: string;
+  quoteUrl: string;
+  validUntil: Date;
+  stage: 'not_opened' | 'viewed_no_response' | 'expiring_soon' | 'expired';
+}): Promise<boolean> {
+  const formattedValidUntil = validUntil.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+  const headline = stage === 'expired' ? 'Your Proposal Has Expired'
+    : stage === 'expiring_soon' ? 'Your Proposal Expires Soon'
+    : 'Your Proposal Is Waiting';
+  const intro = stage === 'expired'
+    ? `Our proposal <strong>#${quoteNumber}</strong> for <strong>${title}</strong> expired on ${formattedValidUntil}. Prices and availability may have changed, but we'd be glad to prepare an updated proposal.`
+    : stage === 'expiring_soon'
+      ? `Our proposal <strong>#${quoteNumber}</strong> for <strong>${title}</strong> is valid until ${formattedValidUntil}. Accept it before then to lock in the quoted price.`
+      : stage === 'viewed_no_response'
+        ? `Thanks for taking a look at our proposal <strong>#${quoteNumber}</strong> for <strong>${title}</strong>. If you have any questions about the scope, pricing or schedule, just reply through the proposal page and we'll help.`
+        : `We sent you proposal <strong>#${quoteNumber}</strong> for <strong>${title}</strong> and wanted to make sure it reached you. It is valid until ${formattedValidUntil}.`;
+  const buttonLabel = stage === 'expired' ? 'Request an Updated Proposal' : 'View Your Proposal';
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>${headline}</title>
+</head>
+<body style="font-family: 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.6; color: #3d4552;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5;">
+        <tr>
+            <td style="padding: 20px 0;">
+                <table width="680" cellpadding="0" cellspacing="0" style="margin: 0 auto; background-color: #ffffff; border-radius: 12px; box-shadow: 0 8px 32px rgba(61, 69, 82, 0.1);">
+                    <tr>
+                        <td style="background: linear-gradient(135deg, #3d4552 0%, #4a6670 100%); color: #ffffff; padding: 40px 30px; text-align: center; border-bottom: 4px solid #db973c;">
+                            <h1 style="margin: 0; font-size: 28px; font-weight: 700;">Kolmo Construction</h1>
+                            <p style="margin: 8px 0 0 0; font-size: 16px; opacity: 0.9;">${headline}</p>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="padding: 45px 35px;">
+                            <h2 style="color: #1a1a1a; margin-top: 0;">Hello ${recipientName},</h2>
+                            <p>${intro}</p>
+                            <div style="text-align: center; margin: 30px 0;">
+                                <a href="${quoteUrl}" style="background-color: #db973c; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block;">
+                                    ${buttonLabel}
+                                </a>
+                            </div>
+                            <p style="color: #999; font-size: 12px; margin-top: 30px; border-top: 1px solid #eee; padding-top: 20px;">
+                                This is an automated message. Please do not reply to this email.
+                            </p>
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+`;
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: stage === 'expired'
+      ? `Proposal #${quoteNumber} has expired`
+      : stage === 'expiring_soon'
+        ? `Proposal #${quoteNumber} expires ${formattedValidUntil}`
+        : `Following up on proposal #${quoteNumber}`,
+    html: emailHtml,
+    from: DEFAULT_FROM_EMAIL,
+    fromName: DEFAULT_FROM_NAME
+  });
+}
+
+/**
+ * Tell the quote's author that the customer asked for an expired quote to be renewed
+ */
+export async function sendQuoteRenewalRequestEmail({
+  recipientEmail,
+  recipientFirstName,
+  customerName,
+  customerEmail,
+  quoteNumber,
+  title,
+  message
+}: {
+  recipientEmail: string;
+  recipientFirstName: string;
+  customerName: string;
+  customerEmail: string;
+  quoteNumber: string;
+  title: string;
+  message?: string | null;
+}): Promise<boolean> {
+  const quotesUrl = `${getBaseUrl()}/quotes`;
+  // The message is typed by the customer, so it must not be able to inject markup
+  const safeMessage = message
+    ?.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const messageBlock = safeMessage
+    ? `<p style="background-color: #f8f9fa; border-left: 4px solid #db973c; padding: 12px 16px; margin: 20px 0;">"${safeMessage}"</p>`
+    : '';
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Quote Renewal Requested</title>
+</head>
+<body style="font-family: 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.6; color: #3d4552;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5;">
+        <tr>
+            <td style="padding: 20px 0;">
+                <table width="680" cellpadding="0" cellspacing="0" style="margin: 0 auto; background-color: #ffffff; border-radius: 12px; box-shadow: 0 8px 32px rgba(61, 69, 82, 0.1);">
+                    <tr>
+                        <td style="background: linear-gradient(135deg, #3d4552 0%, #4a6670 100%); color: #ffffff; padding: 40px 30px; text-align: center; border-bottom: 4px solid #db973c;">
+                            <h1 style="margin: 0; font-size: 28px; font-weight: 700;">Kolmo Construction</h1>
+                            <p style="margin: 8px 0 0 0; font-size: 16px; opacity: 0.9;">Quote Renewal Requested</p>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="padding: 45px 35px;">
+                            <h2 style="color: #1a1a1a; margin-top: 0;">Hello ${recipientFirstName},</h2>
+                            <p><strong>${customerName}</strong> (${customerEmail}) asked for an updated version of expired quote <strong>#${quoteNumber}</strong> for <strong>${title}</strong>.</p>
+                            ${messageBlock}
+                            <p>Review the pricing, extend the valid-until date and send the quote again to renew it.</p>
+                            <div style="text-align: center; margin: 30px 0;">
+                                <a href="${quotesUrl}" style="background-color: #db973c; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block;">
+                                    Open Quotes
+                                </a>
+                            </div>
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+`;
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: `Renewal requested: quote #${quoteNumber}`,
+    html: emailHtml,
+    from: DEFAULT_FROM_EMAIL,
+    fromName: DEFAULT_FROM_NAME
+  });
+}
@@ -3,6 +3,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import { createServer } from "http"; // Import createServer
 import { registerRoutes } from "@server/routes";
 import { setupVite, serveStatic, log } from "@server/vite";
+import { startSelectionReminderScheduler } from "@server/services/selection.service";
+import { startInvoiceReminderScheduler } from "@server/services/invoice-reminder.service";
+import { startQuoteFollowUpScheduler } from "@server/services/quote-follow-up.service";
 
 const app = express();
 
@@ -105,6 +108,9 @@ app.use((req, res, next) => {
     // reusePort: true, // Consider removing if it causes issues
   }, () => {
     log(`Server listening on port ${port}`, "server-setup");
+    startSelectionReminderScheduler();
+    startInvoiceReminderScheduler();
+    startQuoteFollowUpScheduler();
   });
 
 })().catch(error => {
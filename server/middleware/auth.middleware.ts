@@ -63,7 +63,7 @@ export async function isAuthenticated(req: Request, res: Response, next: NextFun
  * Assumes previous authentication check (e.g., isAuthenticated middleware).
  * Sends a 403 Forbidden response if the user is not an admin.
  */
-export function isAdmin(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+export function isAdmin(req: Request, res: Response, next: NextFunction) {
     const requestPath = `${req.method} ${req.originalUrl}`;
     logger(`[isAdmin] Checking admin role for user ID ${req.user?.id} on: ${requestPath}`, 'AuthMiddleware');
 
@@ -1,7 +1,7 @@
 // server/middleware/enhanced-permissions.middleware.ts
 import type { Request, Response, NextFunction } from "express";
 import { storage } from "@server/storage/index";
-import { User } from "@shared/schema";
+import { User, ProjectMemberRole } from "@shared/schema";
 
 /**
  * Enhanced permissions middleware for project managers
@@ -86,6 +86,202 @@ export interface ProjectManagerPermissions {
   canExportData: boolean;
 }
 
+function projectManagerPermissions(): ProjectManagerPermissions {
+  return {
+    canViewProject: true,
+    canEditProject: true,
+    canDeleteProject: false, // Only admins can delete projects
+    canManageProjectSettings: true,
+    canViewProjectAnalytics: true,
+    
+    canCreateTasks: true,
+    canEditTasks: true,
+    canDeleteTasks: true,
+    canAssignTasks: true,
+    canViewTaskDependencies: true,
+    canManageTaskDependencies: true,
+    canPublishTasks: true,
+    canImportTasks: true,
+    
+    canUploadDocuments: true,
+    canDeleteDocuments: true,
+    canViewDocuments: true,
+    canManageDocumentCategories: true,
+    canCreateProgressUpdates: true,
+    canEditProgressUpdates: true,
+    canDeleteProgressUpdates: true,
+    canSendMessages: true,
+    canViewMessages: true,
+    canManageProjectChat: true,
+    canViewInvoices: true,
+    canCreateInvoices: true,
+    canEditInvoices: true,
+    canSendInvoices: true,
+    canViewPayments: true,
+    canProcessPayments: true,
+    canViewClients: true,
+    canCommunicateWithClients: true,
+    canManageClientAccess: true,
+    canCreateMilestones: true,
+    canEditMilestones: true,
+    canDeleteMilestones: true,
+    canCompleteMilestones: true,
+    canBillMilestones: true,
+    canCreatePunchListItems: true,
+    canEditPunchListItems: true,
+    canDeletePunchListItems: true,
+    canCompletePunchListItems: true,
+    canCreateDailyLogs: true,
+    canEditDailyLogs: true,
+    canViewDailyLogs: true,
+    canUploadMedia: true,
+    canDeleteMedia: true,
+    canViewMedia: true,
+    canAssignTeamMembers: true,
+    canViewTeamPerformance: true,
+    canGenerateReports: true,
+    canViewProjectMetrics: true,
+    canExportData: true,
+  };
+}
+
+function noProjectPermissions(): ProjectManagerPermissions {
+  return {
+    canViewProject: false,
+    canEditProject: false,
+    canDeleteProject: false,
+    canManageProjectSettings: false,
+    canViewProjectAnalytics: false,
+    canCreateTasks: false,
+    canEditTasks: false,
+    canDeleteTasks: false,
+    canAssignTasks: false,
+    canViewTaskDependencies: false,
+    canManageTaskDependencies: false,
+    canPublishTasks: false,
+    canImportTasks: false,
+    canUploadDocuments: false,
+    canDeleteDocuments: false,
+    canViewDocuments: false,
+    canManageDocumentCategories: false,
+    canCreateProgressUpdates: false,
+    canEditProgressUpdates: false,
+    canDeleteProgressUpdates: false,
+    canSendMessages: false,
+    canViewMessages: false,
+    canManageProjectChat: false,
+    canViewInvoices: false,
+    canCreateInvoices: false,
+    canEditInvoices: false,
+    canSendInvoices: false,
+    canViewPayments: false,
+    canProcessPayments: false,
+    canViewClients: false,
+    canCommunicateWithClients: false,
+    canManageClientAccess: false,
+    canCreateMilestones: false,
+    canEditMilestones: false,
+    canDeleteMilestones: false,
+    canCompleteMilestones: false,
+    canBillMilestones: false,
+    canCreatePunchListItems: false,
+    canEditPunchListItems: false,
+    canDeletePunchListItems: false,
+    canCompletePunchListItems: false,
+    canCreateDailyLogs: false,
+    canEditDailyLogs: false,
+    canViewDailyLogs: false,
+    canUploadMedia: false,
+    canDeleteMedia: false,
+    canViewMedia: false,
+    canAssignTeamMembers: false,
+    canViewTeamPerformance: false,
+    canGenerateReports: false,
+    canViewProjectMetrics: false,
+    canExportData: false,
+  };
+}
+
+/**
+ * Permission sets for per-project member roles. Superintendents run the field side of the job
+ * (schedule, logs, punch list, media) without access to billing or client management;
+ * subcontractors can report progress on their scope; viewers are read-only.
+ */
+export function getMemberRolePermissions(role: ProjectMemberRole): ProjectManagerPermissions {
+  switch (role) {
+    case 'project_manager':
+      return projectManagerPermissions();
+    case 'superintendent':
+      return {
+        ...noProjectPermissions(),
+        canViewProject: true,
+        canViewProjectAnalytics: true,
+        canCreateTasks: true,
+        canEditTasks: true,
+        canAssignTasks: true,
+        canViewTaskDependencies: true,
+        canManageTaskDependencies: true,
+        canUploadDocuments: true,
+        canViewDocuments: true,
+        canCreateProgressUpdates: true,
+        canEditProgressUpdates: true,
+        canSendMessages: true,
+        canViewMessages: true,
+        canCompleteMilestones: true,
+        canCreatePunchListItems: true,
+        canEditPunchListItems: true,
+        canDeletePunchListItems: true,
+        canCompletePunchListItems: true,
+        canCreateDailyLogs: true,
+        canEditDailyLogs: true,
+        canViewDailyLogs: true,
+        canUploadMedia: true,
+        canDeleteMedia: true,
+        canViewMedia: true,
+        canViewTeamPerformance: true,
+        canGenerateReports: true,
+        canViewProjectMetrics: true,
+      };
+    case 'subcontractor':
+      return {
+        ...noProjectPermissions(),
+        canViewProject: true,
+        canViewTaskDependencies: true,
+        canViewDocuments: true,
+        canSendMessages: true,
+        canViewMessages: true,
+        canEditPunchListItems: true,
+        canCompletePunchListItems: true,
+        canCreateDailyLogs: true,
+        canViewDailyLogs: true,
+        canUploadMedia: true,
+        canViewMedia: true,
+      };
+    case 'viewer':
+      return {
+        ...noProjectPermissions(),
+        canViewProject: true,
+        canViewTaskDependencies: true,
+        canViewDocuments: true,
+        canViewMessages: true,
+        canViewDailyLogs: true,
+        canViewMedia: true,
+      };
+    default:
+      return noProjectPermissions();
+  }
+}
+
+async function getProjectMemberRole(userId: number, projectId: number): Promise<ProjectMemberRole | null> {
+  try {
+    const membership = await storage.projectMembers.getMembership(projectId, userId);
+    return (membership?.role as ProjectMemberRole | undefined) ?? null;
+  } catch (error) {
+    console.error(`Error checking project membership for user ${userId} on project ${projectId}:`, error);
+    return null;
+  }
+}
+
 /**
  * Get permissions for a user on a specific project
  */
@@ -158,62 +354,7 @@ export async function getProjectPermissions(
   
   if (userRole.toLowerCase() === 'projectmanager' && isProjectManager) {
     // Project managers have full administrative control over their assigned projects
-    return {
-      canViewProject: true,
-      canEditProject: true,
-      canDeleteProject: false, // Only admins can delete projects
-      canManageProjectSettings: true,
-      canViewProjectAnalytics: true,
-      
-      canCreateTasks: true,
-      canEditTasks: true,
-      canDeleteTasks: true,
-      canAssignTasks: true,
-      canViewTaskDependencies: true,
-      canManageTaskDependencies: true,
-      canPublishTasks: true,
-      canImportTasks: true,
-      
-      canUploadDocuments: true,
-      canDeleteDocuments: true,
-      canViewDocuments: true,
-      canManageDocumentCategories: true,
-      canCreateProgressUpdates: true,
-      canEditProgressUpdates: true,
-      canDeleteProgressUpdates: true,
-      canSendMessages: true,
-      canViewMessages: true,
-      canManageProjectChat: true,
-      canViewInvoices: true,
-      canCreateInvoices: true,
-      canEditInvoices: true,
-      canSendInvoices: true,
-      canViewPayments: true,
-      canProcessPayments: true,
-      canViewClients: true,
-      canCommunicateWithClients: true,
-      canManageClientAccess: true,
-      canCreateMilestones: true,
-      canEditMilestones: true,
-      canDeleteMilestones: true,
-      canCompleteMilestones: true,
-      canBillMilestones: true,
-      canCreatePunchListItems: true,
-      canEditPunchListItems: true,
-      canDeletePunchListItems: true,
-      canCompletePunchListItems: true,
-      canCreateDailyLogs: true,
-      canEditDailyLogs: true,
-      canViewDailyLogs: true,
-      canUploadMedia: true,
-      canDeleteMedia: true,
-      canViewMedia: true,
-      canAssignTeamMembers: true,
-      canViewTeamPerformance: true,
-      canGenerateReports: true,
-      canViewProjectMetrics: true,
-      canExportData: true,
-    };
+    return projectManagerPermissions();
   }
   
   // Check if user is client for this project
@@ -277,61 +418,14 @@ export async function getProjectPermissions(
     };
   }
   
+  // Per-project team members (additional PMs, superintendents, subcontractors, viewers)
+  const memberRole = await getProjectMemberRole(userId, projectId);
+  if (memberRole) {
+    return getMemberRolePermissions(memberRole);
+  }
+  
   // No access by default
-  return {
-    canViewProject: false,
-    canEditProject: false,
-    canDeleteProject: false,
-    canManageProjectSettings: false,
-    canViewProjectAnalytics: false,
-    canCreateTasks: false,
-    canEditTasks: false,
-    canDeleteTasks: false,
-    canAssignTasks: false,
-    canViewTaskDependencies: false,
-    canManageTaskDependencies: false,
-    canPublishTasks: false,
-    canImportTasks: false,
-    canUploadDocuments: false,
-    canDeleteDocuments: false,
-    canViewDocuments: false,
-    canManageDocumentCategories: false,
-    canCreateProgressUpdates: false,
-    canEditProgressUpdates: false,
-    canDeleteProgressUpdates: false,
-    canSendMessages: false,
-    canViewMessages: false,
-    canManageProjectChat: false,
-    canViewInvoices: false,
-    canCreateInvoices: false,
-    canEditInvoices: false,
-    canSendInvoices: false,
-    canViewPayments: false,
-    canProcessPayments: false,
-    canViewClients: false,
-    canCommunicateWithClients: false,
-    canManageClientAccess: false,
-    canCreateMilestones: false,
-    canEditMilestones: false,
-    canDeleteMilestones: false,
-    canCompleteMilestones: false,
-    canBillMilestones: false,
-    canCreatePunchListItems: false,
-    canEditPunchListItems: false,
-    canDeletePunchListItems: false,
-    canCompletePunchListItems: false,
-    canCreateDailyLogs: false,
-    canEditDailyLogs: false,
-    canViewDailyLogs: false,
-    canUploadMedia: false,
-    canDeleteMedia: false,
-    canViewMedia: false,
-    canAssignTeamMembers: false,
-    canViewTeamPerformance: false,
-    canGenerateReports: false,
-    canViewProjectMetrics: false,
-    canExportData: false,
-  };
+  return noProjectPermissions();
 }
 
 /**
@@ -409,9 +503,9 @@ export async function canAdministerProject(userId: number, userRole: string, pro
     return true;
   }
   
-  if (userRole.toLowerCase() === 'projectmanager') {
-    return await storage.projectManagerHasProjectAccess(userId, projectId);
+  if (userRole.toLowerCase() === 'projectmanager' && await storage.projectManagerHasProjectAccess(userId, projectId)) {
+    return true;
   }
   
-  return false;
+  return (await getProjectMemberRole(userId, projectId)) === 'project_manager';
 }
\ No newline at end of file
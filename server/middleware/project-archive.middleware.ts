@@ -0,0 +1,33 @@
+// server/middleware/project-archive.middleware.ts
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { isProjectArchived } from "../services/project-archive.service";
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Rejects write requests (POST/PUT/PATCH/DELETE) against an archived project.
+ * Reads pass through so archived data stays viewable. Requires a :projectId route parameter.
+ */
+export async function blockArchivedProjectWrites(req: Request, res: Response, next: NextFunction) {
+  if (READ_ONLY_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  const projectId = parseInt(req.params.projectId, 10);
+  if (isNaN(projectId)) {
+    return next();
+  }
+
+  try {
+    const project = await storage.projects.getProject(projectId);
+    if (isProjectArchived(project)) {
+      return res.status(409).json({
+        message: 'Project is archived and read-only. Restore it before making changes.'
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
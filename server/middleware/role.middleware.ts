@@ -1,9 +1,10 @@
 // server/middleware/role.middleware.ts
-import type { Response, NextFunction } from "express";
+import type { Request, Response, NextFunction } from "express";
 import { log as logger } from '@server/vite';
 import { AuthenticatedRequest } from './auth.middleware';
 
-type Role = 'admin' | 'project_manager' | 'client';
+// Users are stored as projectManager; project_manager is the per-project member role
+type Role = 'admin' | 'projectManager' | 'project_manager' | 'client';
 
 /**
  * Express middleware to check if the authenticated user has any of the specified roles.
@@ -13,7 +14,7 @@ type Role = 'admin' | 'project_manager' | 'client';
  * @param roles - Array of roles that are allowed to access the route
  */
 export function hasRole(roles: Role[]) {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  return (req: Request, res: Response, next: NextFunction) => {
     const requestPath = `${req.method} ${req.originalUrl}`;
     logger(`[hasRole] Checking roles ${roles.join(', ')} for user ID ${req.user?.id} on: ${requestPath}`, 'RoleMiddleware');
 
@@ -204,3 +204,54 @@ export async function getR2DownloadUrl(key: string, originalFilename?: string):
     throw new HttpError(500, "Failed to generate download URL.");
   }
 }
+
+/**
+ * Downloads a file from R2 storage into memory
+ * @param key The storage key of the file
+ * @returns Promise that resolves to the file contents
+ */
+export async function downloadFromR2(key: string): Promise<Buffer> {
+  if (!bucketName || !accessKeyId || !secretAccessKey || !accountId) {
+    throw new HttpError(500, "R2 storage is not configured. Please check environment variables.");
+  }
+
+  try {
+    const command = new GetObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+    });
+
+    const response = await R2.send(command);
+    if (!response.Body) {
+      throw new Error(`Empty body returned for key ${key}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  } catch (error) {
+    console.error(`Error downloading file with key ${key} from R2:`, error);
+    if (error instanceof Error) {
+      console.error("AWS SDK Error Details:", error.message);
+    }
+    throw new HttpError(500, "Failed to download file from R2 storage.");
+  }
+}
+
+/**
+ * Derives the R2 storage key from a stored file URL
+ * Handles proxy URLs (/api/storage/proxy/{encoded-key}), direct R2 URLs and bare keys
+ * @param fileUrl The URL or key stored on the record
+ * @returns The storage key
+ */
+export function getR2KeyFromUrl(fileUrl: string): string {
+  const proxyPrefix = '/api/storage/proxy/';
+  const proxyIndex = fileUrl.indexOf(proxyPrefix);
+  if (proxyIndex !== -1) {
+    return decodeURIComponent(fileUrl.substring(proxyIndex + proxyPrefix.length));
+  }
+  if (fileUrl.includes('.com/')) {
+    return fileUrl.split('.com/').pop() || fileUrl;
+  }
+  if (fileUrl.includes('.dev/')) {
+    return fileUrl.split('.dev/').pop() || fileUrl;
+  }
+  return fileUrl;
+}
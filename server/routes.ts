@@ -6,6 +6,7 @@ import { Router } from "express"; // Keep Router for potential future use or oth
 // Import middleware
 import { isAuthenticated, isAdmin } from "@server/middleware/auth.middleware";
 import { validateProjectId } from "@server/middleware/validation.middleware";
+import { blockArchivedProjectWrites } from "@server/middleware/project-archive.middleware";
 // Import Schemas/Types if needed for other routes defined in this file
 import { User } from "@shared/schema";
 
@@ -37,12 +38,18 @@ import zohoExpenseRouter from "./routes/zoho-expense.routes"; // Zoho Expense in
 import { adminImagesRoutes } from "./routes/admin-images.routes"; // Admin image gallery router
 import driveIngestionRouter from "./routes/drive-ingestion.routes"; // Google Drive ingestion router
 import designProposalRouter from "./routes/design-proposal.routes"; // Design proposal router
+import { projectSelectionRouter, globalSelectionRouter } from "./routes/selection.routes"; // Selections & approvals router
+import { projectChangeOrderRouter, publicChangeOrderRouter } from "./routes/change-order.routes"; // Change order router
+import { projectCalendarRouter, companyCalendarRouter } from "./routes/work-calendar.routes"; // Work calendar router
+import retainageRouter from "./routes/retainage.routes"; // Retainage router
+import { webhookEventRouter } from "./routes/webhook-event.routes"; // Webhook event ledger router
+import { costCatalogRouter, quoteTemplateRouter } from "./routes/cost-catalog.routes"; // Cost catalog & quote template router
+import { taxRateRouter } from "./routes/tax-rate.routes"; // Imported WA sales tax rate tables
 
 import { storageRoutes } from "./routes/storage-routes"; // Storage/R2 router
 import chatRouter from "./routes/chat.routes"; // Stream Chat router
 // Import other routers as needed (milestones, selections, admin, etc.)
 // import milestoneRouter from "@server/routes/milestone.routes";
-// import selectionRouter from "@server/routes/selection.routes";
 // import adminRouter from "@server/routes/admin.routes";
 
 // Define interfaces for request params if needed for routes defined *in this file*
@@ -165,6 +172,7 @@ export async function registerRoutes(app: Express): Promise<void> { // Changed r
     "/api/projects/:projectId/tasks",
     isAuthenticated,      // Check authentication first
     validateProjectId,    // Then validate the ID
+    blockArchivedProjectWrites, // Archived projects are read-only
     taskRouterModule      // Then pass to the specific task router
   );
 
@@ -173,6 +181,7 @@ export async function registerRoutes(app: Express): Promise<void> { // Changed r
     "/api/projects/:projectId/daily-logs",
     isAuthenticated,
     validateProjectId,
+    blockArchivedProjectWrites, // Archived projects are read-only
     dailyLogRouter // Assuming dailyLogRouter is imported
   );
 
@@ -181,6 +190,7 @@ export async function registerRoutes(app: Express): Promise<void> { // Changed r
     "/api/projects/:projectId/punch-list",
     isAuthenticated,
     validateProjectId,
+    blockArchivedProjectWrites, // Archived projects are read-only
     punchListRouter // Assuming punchListRouter is imported
   );
 
@@ -190,6 +200,7 @@ export async function registerRoutes(app: Express): Promise<void> { // Changed r
     "/api/projects/:projectId/milestones",
     isAuthenticated,
     validateProjectId,
+    blockArchivedProjectWrites, // Archived projects are read-only
     milestoneRoutes
   );
   
@@ -204,13 +215,50 @@ export async function registerRoutes(app: Express): Promise<void> { // Changed r
     billingValidationRouter
   );
 
-  // Example: Selections
-  // app.use(
-  //   "/api/projects/:projectId/selections",
-  //   isAuthenticated,
-  //   validateProjectId,
-  //   selectionRouter // Assuming selectionRouter is imported
-  // );
+  // Selections within a project
+  app.use(
+    "/api/projects/:projectId/selections",
+    isAuthenticated,
+    validateProjectId,
+    blockArchivedProjectWrites, // Archived projects are read-only
+    projectSelectionRouter
+  );
+
+  // Selections across all of the user's projects
+  app.use("/api/selections", isAuthenticated, globalSelectionRouter);
+
+  // Change orders within a project
+  app.use(
+    "/api/projects/:projectId/change-orders",
+    isAuthenticated,
+    validateProjectId,
+    blockArchivedProjectWrites, // Archived projects are read-only
+    projectChangeOrderRouter
+  );
+
+  // Public change order approval (token-based, no login)
+  app.use("/api/change-orders", publicChangeOrderRouter);
+
+  // Work calendar for a project (workdays, holidays, rain days)
+  app.use(
+    "/api/projects/:projectId/calendar",
+    isAuthenticated,
+    validateProjectId,
+    blockArchivedProjectWrites, // Archived projects are read-only
+    projectCalendarRouter
+  );
+
+  // Retainage withheld from progress invoices and released at closeout
+  app.use(
+    "/api/projects/:projectId/retainage",
+    isAuthenticated,
+    validateProjectId,
+    blockArchivedProjectWrites, // Archived projects are read-only
+    retainageRouter
+  );
+
+  // Company-wide default work calendar
+  app.use("/api/calendars", isAuthenticated, companyCalendarRouter);
 
   // Example: Admin routes (ensure isAdmin middleware is used appropriately within adminRouter)
   // app.use("/api/admin", isAuthenticated, isAdmin, adminRouter);
@@ -221,6 +269,11 @@ export async function registerRoutes(app: Express): Promise<void> { // Changed r
   // Mount Quote system routes
   app.use("/api/quotes", quoteRouter);
 
+  // Cost catalog and quote templates used when building quotes
+  app.use("/api/cost-catalog", isAuthenticated, costCatalogRouter);
+  app.use("/api/quote-templates", isAuthenticated, quoteTemplateRouter);
+  app.use("/api/tax-rates", isAuthenticated, taxRateRouter);
+
   // Mount Quote Analytics routes (mixed auth - public tracking, admin analytics)
   app.use("/api", quoteAnalyticsRouter);
 
@@ -239,6 +292,9 @@ export async function registerRoutes(app: Express): Promise<void> { // Changed r
   // Mount Webhook routes (no authentication - Stripe handles verification)
   app.use("/api/webhooks", webhookRoutes);
 
+  // Mount Webhook event ledger routes (admin only)
+  app.use("/api/admin/webhook-events", isAuthenticated, webhookEventRouter);
+
   // Mount Global Finance routes (admin only)
   app.use("/api", globalFinanceRoutes);
 
@@ -0,0 +1,40 @@
+// server/routes/change-order.routes.ts
+import { Router } from "express";
+import * as changeOrderController from "@server/controllers/change-order.controller";
+import { isAuthenticated } from "@server/middleware/auth.middleware";
+import { requireProjectPermission } from "@server/middleware/enhanced-permissions.middleware";
+
+// This router will handle routes nested under /api/projects/:projectId/change-orders
+export const projectChangeOrderRouter = Router({ mergeParams: true });
+
+// This router will handle the public customer approval routes under /api/change-orders
+export const publicChangeOrderRouter = Router();
+
+// --- Project Specific Change Order Routes ---
+
+// GET /api/projects/:projectId/change-orders/
+projectChangeOrderRouter.get("/", isAuthenticated, requireProjectPermission('canViewProject'), changeOrderController.getChangeOrdersForProject);
+
+// GET /api/projects/:projectId/change-orders/:changeOrderId
+projectChangeOrderRouter.get("/:changeOrderId", isAuthenticated, requireProjectPermission('canViewProject'), changeOrderController.getChangeOrderById);
+
+// POST /api/projects/:projectId/change-orders/
+projectChangeOrderRouter.post("/", isAuthenticated, requireProjectPermission('canEditProject'), changeOrderController.createChangeOrder);
+
+// PATCH /api/projects/:projectId/change-orders/:changeOrderId
+projectChangeOrderRouter.patch("/:changeOrderId", isAuthenticated, requireProjectPermission('canEditProject'), changeOrderController.updateChangeOrder);
+
+// DELETE /api/projects/:projectId/change-orders/:changeOrderId
+projectChangeOrderRouter.delete("/:changeOrderId", isAuthenticated, requireProjectPermission('canEditProject'), changeOrderController.deleteChangeOrder);
+
+// POST /api/projects/:projectId/change-orders/:changeOrderId/send
+// Email the approval link to the customer
+projectChangeOrderRouter.post("/:changeOrderId/send", isAuthenticated, requireProjectPermission('canSendInvoices'), changeOrderController.sendChangeOrder);
+
+// --- Public Customer Routes (token-based, no login) ---
+
+// GET /api/change-orders/public/:token
+publicChangeOrderRouter.get("/public/:token", changeOrderController.getPublicChangeOrder);
+
+// POST /api/change-orders/public/:token/respond
+publicChangeOrderRouter.post("/public/:token/respond", changeOrderController.respondToChangeOrder);
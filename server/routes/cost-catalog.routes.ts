@@ -0,0 +1,45 @@
+// server/routes/cost-catalog.routes.ts
+import { Router } from "express";
+import * as costCatalogController from "@server/controllers/cost-catalog.controller";
+
+// This router will handle the company cost catalog under /api/cost-catalog
+export const costCatalogRouter = Router();
+
+// This router will handle quote templates under /api/quote-templates
+export const quoteTemplateRouter = Router();
+
+// Any signed-in user can read the catalog and templates; changes are limited to admins in the controller
+
+// --- Cost Catalog Routes ---
+
+// GET /api/cost-catalog
+costCatalogRouter.get("/", costCatalogController.getCatalogItems);
+
+// POST /api/cost-catalog
+costCatalogRouter.post("/", costCatalogController.createCatalogItem);
+
+// POST /api/cost-catalog/bulk-price-update
+// Reprice selected items or a whole category by a percentage, and/or reset their markup
+costCatalogRouter.post("/bulk-price-update", costCatalogController.bulkUpdatePrices);
+
+// PATCH /api/cost-catalog/:itemId
+// Also retires items (isActive: false); catalog items are never deleted
+costCatalogRouter.patch("/:itemId", costCatalogController.updateCatalogItem);
+
+// --- Quote Template Routes ---
+
+// GET /api/quote-templates
+quoteTemplateRouter.get("/", costCatalogController.getQuoteTemplates);
+
+// POST /api/quote-templates
+quoteTemplateRouter.post("/", costCatalogController.createQuoteTemplate);
+
+// GET /api/quote-templates/:templateId/apply
+// Line items priced from the current catalog, plus the template's scope and payment schedule
+quoteTemplateRouter.get("/:templateId/apply", costCatalogController.applyQuoteTemplate);
+
+// PATCH /api/quote-templates/:templateId
+quoteTemplateRouter.patch("/:templateId", costCatalogController.updateQuoteTemplate);
+
+// DELETE /api/quote-templates/:templateId
+quoteTemplateRouter.delete("/:templateId", costCatalogController.deleteQuoteTemplate);
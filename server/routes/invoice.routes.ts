@@ -42,4 +42,22 @@ router.get(
   invoiceController.getInvoiceDetails
 );
 
+// POST /api/projects/:projectId/invoices/:invoiceId/payments
+// Record a check, Zelle or other manual payment (admin only, checked in the controller)
+router.post(
+  "/:invoiceId/payments",
+  isAuthenticated,
+  requireProjectPermission('canEditInvoices'),
+  invoiceController.recordPayment
+);
+
+// POST /api/projects/:projectId/invoices/:invoiceId/payments/:paymentId/refund
+// Refund a Stripe payment (admin only, checked in the controller)
+router.post(
+  "/:invoiceId/payments/:paymentId/refund",
+  isAuthenticated,
+  requireProjectPermission('canEditInvoices'),
+  invoiceController.refundPayment
+);
+
 export default router;
\ No newline at end of file
@@ -5,6 +5,8 @@ import { HttpError } from '../errors';
 import { isAuthenticated } from '../middleware/auth.middleware';
 import { requireProjectPermission } from '../middleware/enhanced-permissions.middleware';
 import { PaymentService } from '../services/payment.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { snapToProjectWorkingDay } from '../services/work-calendar.service';
 
 const router = Router({ mergeParams: true });
 const paymentService = new PaymentService();
@@ -67,6 +69,9 @@ router.post('/', isAuthenticated, requireProjectPermission('canCreateMilestones'
       }
     }
 
+    // Planned dates never land on weekends, holidays or rain days
+    validatedData.plannedDate = await snapToProjectWorkingDay(projectId, new Date(validatedData.plannedDate));
+
     // Set order index if not provided
     if (validatedData.orderIndex === undefined || validatedData.orderIndex === null) {
       const existingMilestones = await storage.milestones.getMilestonesByProjectId(projectId);
@@ -74,6 +79,14 @@ router.post('/', isAuthenticated, requireProjectPermission('canCreateMilestones'
     }
 
     const milestone = await storage.milestones.createMilestone(validatedData);
+    await recordAuditEvent({
+      projectId,
+      actorId: req.user?.id,
+      entityType: 'milestone',
+      entityId: milestone.id,
+      action: 'created',
+      after: milestone,
+    });
     res.status(201).json(milestone);
   } catch (error) {
     next(error);
@@ -98,6 +111,9 @@ router.patch('/:milestoneId', isAuthenticated, requireProjectPermission('canEdit
 
     // Validate the update data
     const validatedData = updateMilestoneSchema.parse(req.body);
+    if (validatedData.plannedDate) {
+      validatedData.plannedDate = await snapToProjectWorkingDay(projectId, new Date(validatedData.plannedDate));
+    }
     
     // Check if milestone billing amount would exceed project budget
     if (validatedData.billingPercentage !== undefined) {
@@ -119,6 +135,15 @@ router.patch('/:milestoneId', isAuthenticated, requireProjectPermission('canEdit
     }
     
     const updatedMilestone = await storage.milestones.updateMilestone(milestoneId, validatedData);
+    await recordAuditEvent({
+      projectId,
+      actorId: req.user?.id,
+      entityType: 'milestone',
+      entityId: milestoneId,
+      action: 'updated',
+      before: milestone,
+      after: updatedMilestone,
+    });
     res.json(updatedMilestone);
   } catch (error) {
     next(error);
@@ -162,6 +187,27 @@ router.patch('/:milestoneId/complete', isAuthenticated, requireProjectPermission
     }
     // --- END MODIFICATION ---
 
+    await recordAuditEvent({
+      projectId,
+      actorId: req.user?.id,
+      entityType: 'milestone',
+      entityId: milestoneId,
+      action: 'completed',
+      before: milestone,
+      after: updatedMilestone,
+    });
+    if (draftInvoice) {
+      await recordAuditEvent({
+        projectId,
+        actorId: req.user?.id,
+        entityType: 'invoice',
+        entityId: draftInvoice.id,
+        action: 'created',
+        after: draftInvoice,
+        metadata: { source: 'milestone_completion', milestoneId },
+      });
+    }
+
     res.json({
         message: "Milestone completed successfully.",
         milestone: updatedMilestone,
@@ -214,11 +260,23 @@ router.post('/:milestoneId/bill', isAuthenticated, requireProjectPermission('can
     }
     // --- END MODIFICATION ---
 
+    const billedMilestone = await storage.milestones.getMilestoneById(milestoneId);
+    await recordAuditEvent({
+      projectId,
+      actorId: req.user?.id,
+      entityType: 'milestone',
+      entityId: milestoneId,
+      action: 'billed',
+      before: milestone,
+      after: billedMilestone,
+      metadata: draftInvoice ? { invoiceId: draftInvoice.id, invoiceNumber: draftInvoice.invoiceNumber } : undefined,
+    });
+
     // Update the response to return the draft invoice
     res.json({
       message: 'Draft invoice created successfully',
       invoice: draftInvoice,
-      milestone: await storage.milestones.getMilestoneById(milestoneId),
+      milestone: billedMilestone,
     });
   } catch (error) {
     next(error);
@@ -247,6 +305,15 @@ router.delete('/api/projects/:projectId/milestones/:milestoneId', isAuthenticate
     }
 
     await storage.milestones.deleteMilestone(milestoneId);
+    await recordAuditEvent({
+      projectId,
+      actorId: req.user?.id,
+      entityType: 'milestone',
+      entityId: milestoneId,
+      action: 'deleted',
+      before: milestone,
+      metadata: { title: milestone.title },
+    });
     res.json({ message: 'Milestone deleted successfully' });
   } catch (error) {
     next(error);
@@ -4,6 +4,9 @@ import { storage } from '../storage';
 import { HttpError } from '../errors';
 import { sendEmail } from '../email';
 import { paymentService } from '../services/payment.service';
+import { isProjectArchived } from '../services/project-archive.service';
+import { getSentQuote } from '../services/quote-revision.service';
+import { STRIPE_PAYMENT_METHOD_TYPES } from '@shared/schema';
 
 let stripe: Stripe | null = null;
 
@@ -118,12 +121,19 @@ router.post('/payment-success', async (req, res, next) => {
     const shouldProcess = paymentIntent.status === 'succeeded' || 
                          (process.env.NODE_ENV !== 'production' && paymentIntent.status === 'requires_payment_method');
 
-    if (!shouldProcess) {
+    // Bank (ACH) debits confirm as processing and settle days later through the webhook
+    const isProcessing = paymentIntent.status === 'processing';
+
+    if (!shouldProcess && !isProcessing) {
       throw new HttpError(400, `Payment status '${paymentIntent.status}' cannot be processed`);
     }
 
     // Use the same payment processing logic as the webhook
-    await paymentService.handlePaymentSuccess(paymentIntentId);
+    if (isProcessing) {
+      await paymentService.handlePaymentProcessing(paymentIntent);
+    } else {
+      await paymentService.handlePaymentSuccess(paymentIntentId);
+    }
 
     // Get the processed invoice and project details for response
     const metadata = paymentIntent.metadata;
@@ -133,7 +143,8 @@ router.post('/payment-success', async (req, res, next) => {
 
     let responseData: any = {
       success: true,
-      message: 'Payment processed successfully',
+      processing: isProcessing,
+      message: isProcessing ? 'Bank payment submitted and processing' : 'Payment processed successfully',
     };
 
     // Add additional details if available
@@ -194,15 +205,18 @@ router.post('/projects/:id/milestone-payment', async (req, res, next) => {
     if (!project || !project.originQuoteId) {
       throw new HttpError(404, 'Project or originating quote not found');
     }
+    if (isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
 
-    const quote = await storage.quotes.getQuoteById(project.originQuoteId);
+    const quote = await getSentQuote(project.originQuoteId);
     if (!quote) {
       throw new HttpError(404, 'Originating quote not found');
     }
 
     // Calculate milestone payment amount
     const total = parseFloat(quote.total?.toString() || '0');
-    const milestonePercentage = quote.milestonePaymentPercentage || 40;
+    const milestonePercentage = parseFloat(quote.milestonePaymentPercentage?.toString() || '40');
     const milestoneAmount = (total * milestonePercentage) / 100;
 
     // Create Stripe payment intent
@@ -271,8 +285,8 @@ router.get('/payment/info/:clientSecret', async (req, res, next) => {
       throw new HttpError(404, 'Payment intent not found');
     }
 
-    // Get associated invoice from database using payment intent ID
-    const invoice = await storage.invoices.getInvoiceByPaymentIntentId(paymentIntentId);
+    // Get associated invoice; partial payment intents carry it in their metadata
+    const invoice = await paymentService.findInvoiceForPaymentIntent(paymentIntent);
     
     if (!invoice) {
       throw new HttpError(404, 'Associated invoice not found');
@@ -287,12 +301,27 @@ router.get('/payment/info/:clientSecret', async (req, res, next) => {
       }
     }
 
+    const balance = await paymentService.getInvoiceBalance(invoice.id);
+    // Dollars credited to the invoice; a payment method surcharge or discount is shown separately
+    const amount = paymentIntent.metadata?.baseAmount ? parseFloat(paymentIntent.metadata.baseAmount) : paymentIntent.amount / 100;
+    const isOpen = ['requires_payment_method', 'requires_confirmation', 'requires_action'].includes(paymentIntent.status);
+    const payableBalance = Math.max(Math.round((balance.balanceDue - balance.amountProcessing) * 100) / 100, 0);
+
     const paymentInfo = {
-      amount: paymentIntent.amount / 100, // Convert from cents to dollars
+      amount,
       description: paymentIntent.description || invoice.description || 'Payment',
       customerName: invoice.customerName || undefined,
       projectName: projectName,
       invoiceNumber: invoice.invoiceNumber,
+      invoiceStatus: invoice.status,
+      invoiceAmount: balance.amount,
+      amountPaid: balance.amountPaid,
+      amountProcessing: balance.amountProcessing,
+      balanceDue: payableBalance,
+      intentStatus: paymentIntent.status,
+      paymentMethodTypes: paymentIntent.payment_method_types,
+      // After a partial payment the original intent would overcharge, so the page starts a new one
+      intentReusable: isOpen && amount <= payableBalance + 0.005,
     };
 
     res.json(paymentInfo);
@@ -302,8 +331,49 @@ router.get('/payment/info/:clientSecret', async (req, res, next) => {
 });
 
 /**
- * Send project welcome email after down payment
+ * Start a payment for part of the invoice balance - PUBLIC ENDPOINT
+ * The client secret of any intent issued for the invoice identifies it.
  */
+router.post('/payment/:clientSecret/partial-intent', async (req, res, next) => {
+  try {
+    if (!stripe) {
+      throw new HttpError(503, 'Payment processing temporarily unavailable');
+    }
+
+    const amount = Number(req.body?.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new HttpError(400, 'A positive payment amount is required');
+    }
+
+    const result = await paymentService.createPartialPaymentIntent(req.params.clientSecret, Math.round(amount * 100) / 100);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Apply the surcharge or discount for the payment method the customer selected - PUBLIC ENDPOINT
+ */
+router.post('/payment/:clientSecret/payment-method', async (req, res, next) => {
+  try {
+    if (!stripe) {
+      throw new HttpError(503, 'Payment processing temporarily unavailable');
+    }
+
+    const paymentMethodType = req.body?.paymentMethodType;
+    if (!STRIPE_PAYMENT_METHOD_TYPES.includes(paymentMethodType)) {
+      throw new HttpError(400, 'Unsupported payment method');
+    }
+
+    const result = await paymentService.applyPaymentMethodAdjustment(req.params.clientSecret, paymentMethodType);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+
 async function sendProjectWelcomeEmail(
   customerEmail: string,
   customerName: string,
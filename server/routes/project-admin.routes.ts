@@ -1,8 +1,66 @@
 // server/routes/project-admin.routes.ts
 import { Router } from "express";
 import { isAuthenticated } from "../middleware/auth.middleware";
-import { requireProjectPermission } from "../middleware/enhanced-permissions.middleware";
+import { requireProjectPermission, ProjectManagerPermissions } from "../middleware/enhanced-permissions.middleware";
 import { validateResourceId } from "../middleware/validation.middleware";
+import { z } from "zod";
+import { storage } from "../storage";
+import { HttpError } from "../errors";
+import { startProjectExport, getProjectExportStatus } from "../services/project-export.service";
+import { bulkActionRequestSchema, executeBulkAction, getBulkActionPermission } from "../services/bulk-actions.service";
+import {
+  PROJECT_REPORT_TYPES,
+  generateProjectReport,
+  projectReportToCsv,
+  getProjectReportFileName
+} from "../services/project-report.service";
+import { generateProjectReportPdf } from "../services/pdf.service";
+import { archiveProject, restoreProject } from "../services/project-archive.service";
+import { assignProjectMembers, removeProjectMember, getProjectTeam } from "../services/project-team.service";
+import { PROJECT_MEMBER_ROLES } from "@shared/schema";
+
+const exportRequestSchema = z.object({
+  format: z.enum(['json', 'csv', 'both']).default('json'),
+  includeMedia: z.boolean().default(false),
+});
+
+// A date-only endDate (YYYY-MM-DD) covers the whole of that day
+const inclusiveEndDate = z.preprocess(
+  value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value,
+  z.coerce.date()
+);
+
+const auditLogQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  // `userId` is accepted as an alias for `actorId`
+  actorId: z.coerce.number().int().positive().optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  entityType: z.enum(['task', 'milestone', 'invoice', 'payment', 'punch_list_item', 'document', 'project', 'project_member', 'selection', 'change_order']).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  action: z.string().min(1).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: inclusiveEndDate.optional(),
+});
+
+const reportQuerySchema = z.object({
+  reportType: z.enum(PROJECT_REPORT_TYPES),
+  format: z.enum(['json', 'csv', 'pdf']).default('json'),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+}).refine(
+  query => !query.startDate || !query.endDate || query.startDate <= query.endDate,
+  { message: 'startDate must be on or before endDate', path: ['startDate'] }
+);
+
+const archiveRequestSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+const teamAssignSchema = z.object({
+  userIds: z.array(z.number().int().positive()).min(1, 'At least one user is required.').max(50),
+  role: z.enum(PROJECT_MEMBER_ROLES),
+});
 
 const router = Router({ mergeParams: true });
 
@@ -87,32 +145,42 @@ router.get('/dashboard',
 );
 
 // POST /api/projects/:projectId/admin/bulk-actions
-// Perform bulk actions on project resources (tasks, documents, etc.)
+// Apply one action to many tasks, punch list items or documents in a single transaction
 router.post('/bulk-actions',
-  requireProjectPermission('canManageProjectSettings'),
+  requireProjectPermission(),
   async (req, res) => {
     try {
-      const { action, resourceType, resourceIds, data } = req.body;
       const projectId = parseInt(req.params.projectId);
-      
-      const validActions = ['delete', 'update', 'archive', 'publish', 'unpublish'];
-      const validResourceTypes = ['tasks', 'documents', 'punchListItems'];
-      
-      if (!validActions.includes(action) || !validResourceTypes.includes(resourceType)) {
-        return res.status(400).json({ message: 'Invalid action or resource type' });
+
+      const validation = bulkActionRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid bulk action request', details: validation.error.flatten() });
       }
-      
-      // This would implement bulk operations
-      const result = {
-        action,
-        resourceType,
-        affectedCount: resourceIds?.length || 0,
-        success: true,
-        message: `Successfully ${action}d ${resourceIds?.length || 0} ${resourceType}`
-      };
-      
-      res.json(result);
+      const { resourceType, action } = validation.data;
+
+      // Each action maps to the same permission flag its single-item endpoint requires
+      const requiredPermission = getBulkActionPermission(resourceType, action)!;
+      const permissions = (req as any).projectPermissions as ProjectManagerPermissions;
+      if (!permissions[requiredPermission]) {
+        return res.status(403).json({
+          message: 'Forbidden: You do not have permission to perform this action on this project.',
+          requiredPermission,
+          userRole: req.user!.role
+        });
+      }
+
+      const result = await executeBulkAction(projectId, req.user!.id, validation.data);
+
+      res.status(result.success ? 200 : 422).json({
+        ...result,
+        message: result.success
+          ? `Applied ${action} to ${result.affectedCount} ${resourceType}`
+          : 'No changes were applied because some items could not be processed'
+      });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ message: error.message, details: error.details });
+      }
       console.error('Error performing bulk action:', error);
       res.status(500).json({ message: 'Failed to perform bulk action' });
     }
@@ -120,37 +188,44 @@ router.post('/bulk-actions',
 );
 
 // GET /api/projects/:projectId/admin/reports
-// Generate comprehensive project reports
+// Generate a project report as JSON, or download it as CSV or PDF
 router.get('/reports',
   requireProjectPermission('canGenerateReports'),
   async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
-      const { reportType, startDate, endDate, format } = req.query;
-      
-      const availableReports = [
-        'project-summary',
-        'task-progress',
-        'financial-overview',
-        'timeline-analysis',
-        'resource-utilization',
-        'client-communication'
-      ];
-      
-      const reportData = {
-        projectId,
-        reportType: reportType || 'project-summary',
-        generatedAt: new Date().toISOString(),
-        dateRange: { startDate, endDate },
-        format: format || 'json',
-        availableReports,
-        data: {
-          // Report data would be populated here based on reportType
-        }
-      };
-      
-      res.json(reportData);
+
+      const validation = reportQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: 'Invalid report parameters',
+          details: validation.error.flatten(),
+          availableReports: PROJECT_REPORT_TYPES
+        });
+      }
+      const { reportType, startDate, endDate, format } = validation.data;
+
+      const report = await generateProjectReport(projectId, reportType, { startDate, endDate });
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${getProjectReportFileName(report, 'csv')}"`);
+        return res.send(projectReportToCsv(report));
+      }
+
+      if (format === 'pdf') {
+        const pdfBuffer = await generateProjectReportPdf(report);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${getProjectReportFileName(report, 'pdf')}"`);
+        res.setHeader('Content-Length', pdfBuffer.length);
+        return res.send(pdfBuffer);
+      }
+
+      res.json({ ...report, availableReports: PROJECT_REPORT_TYPES });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error generating report:', error);
       res.status(500).json({ message: 'Failed to generate report' });
     }
@@ -158,26 +233,26 @@ router.get('/reports',
 );
 
 // POST /api/projects/:projectId/admin/export
-// Export project data in various formats
+// Start a background ZIP export of the project's records (and optionally its media)
 router.post('/export',
   requireProjectPermission('canExportData'),
   async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
-      const { exportType, format, includeMedia } = req.body;
-      
-      const exportResult = {
-        projectId,
-        exportType: exportType || 'full',
-        format: format || 'json',
-        includeMedia: includeMedia || false,
-        exportId: `export_${projectId}_${Date.now()}`,
-        status: 'initiated',
-        estimatedCompletionTime: '5 minutes',
-        downloadUrl: null // Would be populated when export is complete
-      };
-      
-      res.json(exportResult);
+
+      const validation = exportRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid export options', details: validation.error.flatten() });
+      }
+
+      const exportRecord = await startProjectExport(projectId, req.user!.id, validation.data);
+
+      res.status(202).json({
+        ...exportRecord,
+        exportId: exportRecord.id,
+        statusUrl: `/api/projects/${projectId}/admin/export/${exportRecord.id}`,
+        downloadUrl: null // Available from the status endpoint once the export completes
+      });
     } catch (error) {
       console.error('Error initiating export:', error);
       res.status(500).json({ message: 'Failed to initiate export' });
@@ -185,27 +260,73 @@ router.post('/export',
   }
 );
 
+// GET /api/projects/:projectId/admin/exports
+// List previous exports for the project
+router.get('/exports',
+  requireProjectPermission('canExportData'),
+  async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const exports = await storage.projectExports.getExportsForProject(projectId);
+      res.json(exports);
+    } catch (error) {
+      console.error('Error fetching exports:', error);
+      res.status(500).json({ message: 'Failed to fetch exports' });
+    }
+  }
+);
+
+// GET /api/projects/:projectId/admin/export/:exportId
+// Poll export status; includes a signed download URL once completed
+router.get('/export/:exportId',
+  validateResourceId('exportId'),
+  requireProjectPermission('canExportData'),
+  async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const exportId = (req as any).exportIdNum;
+
+      const exportStatus = await getProjectExportStatus(projectId, exportId);
+      if (!exportStatus) {
+        return res.status(404).json({ message: 'Export not found' });
+      }
+
+      res.json(exportStatus);
+    } catch (error) {
+      console.error('Error fetching export status:', error);
+      res.status(500).json({ message: 'Failed to fetch export status' });
+    }
+  }
+);
+
 // POST /api/projects/:projectId/admin/archive
-// Archive the entire project (preserving data but marking as inactive)
+// Archive the project: data is preserved but becomes read-only and hidden from default listings
 router.post('/archive',
   requireProjectPermission('canManageProjectSettings'),
   async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
-      const { reason, archiveDate } = req.body;
-      
-      // This would update project status to archived
-      const result = {
+
+      const validation = archiveRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid archive request', details: validation.error.flatten() });
+      }
+
+      const project = await archiveProject(projectId, req.user!.id, validation.data.reason);
+
+      res.json({
         projectId,
-        status: 'archived',
-        archivedAt: archiveDate || new Date().toISOString(),
-        archivedBy: req.user!.id,
-        reason: reason || 'Project completed',
+        status: project.status,
+        archivedAt: project.archivedAt,
+        archivedBy: project.archivedById,
+        reason: project.archiveReason,
+        project,
         message: 'Project successfully archived'
-      };
-      
-      res.json(result);
+      });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error archiving project:', error);
       res.status(500).json({ message: 'Failed to archive project' });
     }
@@ -213,23 +334,27 @@ router.post('/archive',
 );
 
 // POST /api/projects/:projectId/admin/restore
-// Restore an archived project
+// Restore an archived project to its previous status
 router.post('/restore',
   requireProjectPermission('canManageProjectSettings'),
   async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
-      
-      const result = {
+
+      const project = await restoreProject(projectId, req.user!.id);
+
+      res.json({
         projectId,
-        status: 'active',
-        restoredAt: new Date().toISOString(),
+        status: project.status,
+        restoredAt: project.updatedAt,
         restoredBy: req.user!.id,
+        project,
         message: 'Project successfully restored'
-      };
-      
-      res.json(result);
+      });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error restoring project:', error);
       res.status(500).json({ message: 'Failed to restore project' });
     }
@@ -243,21 +368,36 @@ router.get('/audit-log',
   async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
-      const { limit = 50, offset = 0, startDate, endDate, action, userId } = req.query;
-      
+
+      const validation = auditLogQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid audit log filters', details: validation.error.flatten() });
+      }
+      const { limit, offset, startDate, endDate, action, entityType, entityId } = validation.data;
+      const actorId = validation.data.actorId ?? validation.data.userId;
+
+      const { entries, total } = await storage.auditEvents.getEventsForProject(projectId, {
+        actorId,
+        entityType,
+        entityId,
+        action,
+        startDate,
+        endDate,
+        limit,
+        offset,
+      });
+
       const auditLog = {
         projectId,
         pagination: {
-          limit: parseInt(limit as string),
-          offset: parseInt(offset as string),
-          total: 0
+          limit,
+          offset,
+          total
         },
-        filters: { startDate, endDate, action, userId },
-        entries: [
-          // Audit entries would be populated from database
-        ]
+        filters: { startDate, endDate, action, actorId, entityType, entityId },
+        entries
       };
-      
+
       res.json(auditLog);
     } catch (error) {
       console.error('Error fetching audit log:', error);
@@ -266,26 +406,52 @@ router.get('/audit-log',
   }
 );
 
+// GET /api/projects/:projectId/admin/team
+// List project team members and their roles
+router.get('/team',
+  requireProjectPermission('canViewProject'),
+  async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const members = await getProjectTeam(projectId);
+
+      res.json({ projectId, members });
+    } catch (error) {
+      console.error('Error fetching team members:', error);
+      res.status(500).json({ message: 'Failed to fetch team members' });
+    }
+  }
+);
+
 // POST /api/projects/:projectId/admin/team/assign
-// Assign team members to the project
+// Assign team members to the project with a per-project role
 router.post('/team/assign',
   requireProjectPermission('canAssignTeamMembers'),
   async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
-      const { userIds, roles } = req.body;
-      
-      const result = {
+
+      const validation = teamAssignSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid team assignment', details: validation.error.flatten() });
+      }
+
+      const { userIds, role } = validation.data;
+      const members = await assignProjectMembers(projectId, req.user!.id, userIds, role);
+
+      res.json({
         projectId,
-        assignedUsers: userIds,
-        roles,
+        assignedUsers: members.map(member => member.userId),
+        role,
+        members,
         assignedBy: req.user!.id,
         assignedAt: new Date().toISOString(),
-        message: `Successfully assigned ${userIds?.length || 0} team members`
-      };
-      
-      res.json(result);
+        message: `Successfully assigned ${members.length} team members`
+      });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error assigning team members:', error);
       res.status(500).json({ message: 'Failed to assign team members' });
     }
@@ -301,17 +467,21 @@ router.delete('/team/:userId',
     try {
       const projectId = parseInt(req.params.projectId);
       const userId = parseInt(req.params.userId);
-      
-      const result = {
+
+      const removed = await removeProjectMember(projectId, req.user!.id, userId);
+
+      res.json({
         projectId,
         removedUserId: userId,
+        role: removed.role,
         removedBy: req.user!.id,
         removedAt: new Date().toISOString(),
         message: 'Team member successfully removed'
-      };
-      
-      res.json(result);
+      });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error removing team member:', error);
       res.status(500).json({ message: 'Failed to remove team member' });
     }
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { storage } from '../storage';
 import { isAuthenticated } from '../middleware/auth.middleware';
+import { getSentQuote } from '../services/quote-revision.service';
 
 const router = Router();
 
@@ -16,7 +17,7 @@ router.get('/payment-summaries', isAuthenticated, async (req, res, next) => {
       if (!project.originQuoteId) continue;
 
       // Get the originating quote for payment percentages
-      const quote = await storage.quotes.getQuoteById(project.originQuoteId);
+      const quote = await getSentQuote(project.originQuoteId);
       if (!quote) continue;
 
       // Get all invoices for this project
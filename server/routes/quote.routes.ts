@@ -1,6 +1,7 @@
 import { Router } from "express";
 import multer from "multer";
-import { isAuthenticated } from "../middleware/auth.middleware";
+import { isAuthenticated, isAdmin } from "../middleware/auth.middleware";
+import { hasRole } from "../middleware/role.middleware";
 import { QuoteController } from "../controllers/quote.controller";
 
 const router = Router();
@@ -28,80 +29,14 @@ router.get("/", isAuthenticated, quoteController.getAllQuotes.bind(quoteControll
 router.post("/", isAuthenticated, quoteController.createQuote.bind(quoteController));
 
 // Tax rate lookup (static path)
-router.post("/lookup/tax-rate", isAuthenticated, async (req, res) => {
-  try {
-    const { address, city, zip } = req.body;
-    
-    let addrStr = address || "";
-    let cityStr = city || "";
-    let zipStr = zip || "";
-    
-    if (!addrStr && address) {
-      addrStr = address;
-    }
-    
-    if (!addrStr || addrStr.trim().length < 3) {
-      return res.status(400).json({ error: "Address is required" });
-    }
-
-    const params = new URLSearchParams({
-      output: "xml",
-      addr: addrStr.trim(),
-      ...(cityStr && { city: cityStr.trim() }),
-      ...(zipStr && { zip: zipStr.trim() }),
-    });
-    
-    const url = `https://webgis.dor.wa.gov/webapi/AddressRates.aspx?${params.toString()}`;
-    
-    console.log(`[Tax Lookup] Requesting: ${url}`);
-    
-    const response = await fetch(url);
-    const xmlText = await response.text();
-    
-    console.log(`[Tax Lookup] XML Response length: ${xmlText.length}, First 1000 chars: ${xmlText.substring(0, 1000)}`);
-    
-    let totalRate = 0;
-    
-    const responseMatch = xmlText.match(/<response[^>]*rate="([^"]+)"/);
-    if (responseMatch) {
-      const rateDecimal = parseFloat(responseMatch[1]);
-      totalRate = rateDecimal * 100;
-      console.log(`[Tax Lookup] Found combined rate from response: ${rateDecimal} = ${totalRate}%`);
-    }
-    
-    if (!totalRate || totalRate === 0) {
-      const stateRateMatch = xmlText.match(/staterate="([^"]+)"/);
-      const localRateMatch = xmlText.match(/localrate="([^"]+)"/);
-      
-      if (stateRateMatch && localRateMatch) {
-        const stateRateDecimal = parseFloat(stateRateMatch[1]);
-        const localRateDecimal = parseFloat(localRateMatch[1]);
-        const stateRate = stateRateDecimal * 100;
-        const localRate = localRateDecimal * 100;
-        totalRate = stateRate + localRate;
-        console.log(`[Tax Lookup] Calculated state (${stateRate}%) + local (${localRate}%) = ${totalRate}%`);
-      }
-    }
-    
-    console.log(`[Tax Lookup] Final calculated rate: ${totalRate}%`);
-
-    if (totalRate > 0 && !isNaN(totalRate)) {
-      const finalRate = Math.max(totalRate, 6.5);
-      console.log(`[Tax Lookup] Returning rate: ${finalRate}%`);
-      res.json({ taxRate: finalRate });
-    } else {
-      console.log(`[Tax Lookup] No rate found, returning default`);
-      res.json({ taxRate: 9.5 });
-    }
-  } catch (error) {
-    console.error("Tax rate lookup error:", error);
-    res.json({ taxRate: 8.5 });
-  }
-});
+router.post("/lookup/tax-rate", isAuthenticated, quoteController.lookupTaxRate.bind(quoteController));
 
 // Public customer routes (static paths with token param)
 router.get("/public/:token", quoteController.getQuoteByToken.bind(quoteController));
 router.post("/public/:token/respond", quoteController.respondToQuote.bind(quoteController));
+router.put("/public/:token/options", quoteController.updateQuoteOptions.bind(quoteController));
+router.post("/public/:token/request-renewal", quoteController.requestRenewal.bind(quoteController));
+router.get("/public/:token/signed-agreement", quoteController.downloadSignedAgreement.bind(quoteController));
 
 // ============================================================
 // 2. SPECIFIC RESOURCE ROUTES (static prefix before :id)
@@ -134,7 +69,16 @@ router.get("/:id/media", isAuthenticated, quoteController.getQuoteMedia.bind(quo
 router.post("/:id/photos", isAuthenticated, upload.single('photo'), quoteController.uploadQuotePhoto.bind(quoteController));
 
 router.post("/:id/send", isAuthenticated, quoteController.sendQuote.bind(quoteController));
+router.get("/:id/revisions", isAuthenticated, quoteController.getQuoteRevisions.bind(quoteController));
+router.get("/:id/revisions/compare", isAuthenticated, quoteController.compareQuoteRevisions.bind(quoteController));
+router.get("/:id/signature", isAuthenticated, quoteController.getQuoteSignature.bind(quoteController));
+router.get("/:id/signature/pdf", isAuthenticated, quoteController.downloadQuoteSignaturePdf.bind(quoteController));
+router.get("/:id/follow-ups", isAuthenticated, quoteController.getQuoteFollowUps.bind(quoteController));
 router.patch("/:id/financials", isAuthenticated, quoteController.updateQuoteFinancials.bind(quoteController));
+// Costs and margins are internal: staff only, and only owners sign off below the floor
+router.get("/:id/margin", isAuthenticated, hasRole(['admin', 'projectManager']), quoteController.getQuoteMargin.bind(quoteController));
+router.post("/:id/margin/approve", isAuthenticated, isAdmin, quoteController.approveQuoteMargin.bind(quoteController));
+router.post("/:id/tax-rate", isAuthenticated, quoteController.refreshQuoteTaxRate.bind(quoteController));
 
 // ============================================================
 // 4. GENERIC :id ROUTES - MUST COME LAST
@@ -0,0 +1,22 @@
+// server/routes/retainage.routes.ts
+import { Router } from "express";
+import * as retainageController from "@server/controllers/retainage.controller";
+import { isAuthenticated } from "@server/middleware/auth.middleware";
+import { requireProjectPermission } from "@server/middleware/enhanced-permissions.middleware";
+
+// This router will handle routes nested under /api/projects/:projectId/retainage
+const router = Router({ mergeParams: true });
+
+// GET /api/projects/:projectId/retainage
+// Percentage plus the withheld, released and outstanding retainage
+router.get("/", isAuthenticated, requireProjectPermission('canViewInvoices'), retainageController.getRetainage);
+
+// PUT /api/projects/:projectId/retainage
+// Applies to invoices created from now on
+router.put("/", isAuthenticated, requireProjectPermission('canManageProjectSettings'), retainageController.updateRetainage);
+
+// POST /api/projects/:projectId/retainage/release
+// Draft invoice billing back held retainage at closeout
+router.post("/release", isAuthenticated, requireProjectPermission('canCreateInvoices'), retainageController.releaseRetainage);
+
+export default router;
@@ -0,0 +1,46 @@
+// server/routes/selection.routes.ts
+import { Router } from "express";
+import * as selectionController from "@server/controllers/selection.controller";
+import { isAuthenticated } from "@server/middleware/auth.middleware";
+import { requireProjectPermission } from "@server/middleware/enhanced-permissions.middleware";
+
+// This router will handle routes nested under /api/projects/:projectId/selections
+export const projectSelectionRouter = Router({ mergeParams: true });
+
+// This router will handle global selection routes like /api/selections
+export const globalSelectionRouter = Router();
+
+// --- Project Specific Selection Routes ---
+
+// GET /api/projects/:projectId/selections/
+projectSelectionRouter.get("/", isAuthenticated, requireProjectPermission('canViewProject'), selectionController.getSelectionsForProject);
+
+// GET /api/projects/:projectId/selections/:selectionId
+projectSelectionRouter.get("/:selectionId", isAuthenticated, requireProjectPermission('canViewProject'), selectionController.getSelectionById);
+
+// POST /api/projects/:projectId/selections/
+projectSelectionRouter.post("/", isAuthenticated, requireProjectPermission('canEditProject'), selectionController.createSelection);
+
+// PATCH /api/projects/:projectId/selections/:selectionId
+projectSelectionRouter.patch("/:selectionId", isAuthenticated, requireProjectPermission('canEditProject'), selectionController.updateSelection);
+
+// DELETE /api/projects/:projectId/selections/:selectionId
+projectSelectionRouter.delete("/:selectionId", isAuthenticated, requireProjectPermission('canEditProject'), selectionController.deleteSelection);
+
+// POST /api/projects/:projectId/selections/:selectionId/choose
+// Client picks an option (who may choose is checked in the controller)
+projectSelectionRouter.post("/:selectionId/choose", isAuthenticated, requireProjectPermission('canViewProject'), selectionController.chooseSelection);
+
+// POST /api/projects/:projectId/selections/:selectionId/approve
+// PM approval of the client's choice
+projectSelectionRouter.post("/:selectionId/approve", isAuthenticated, requireProjectPermission('canEditProject'), selectionController.approveSelection);
+
+// POST /api/projects/:projectId/selections/:selectionId/change-order-invoice
+// Bill the amount over the allowance
+projectSelectionRouter.post("/:selectionId/change-order-invoice", isAuthenticated, requireProjectPermission('canCreateInvoices'), selectionController.createChangeOrderInvoice);
+
+// --- Global Selection Routes ---
+
+// GET /api/selections
+// Selections across all projects accessible by the logged-in user
+globalSelectionRouter.get("/", isAuthenticated, selectionController.getAllAccessibleSelections);
@@ -3,13 +3,15 @@ import { storage } from '../storage';
 import { insertMilestoneSchema, updateTaskSchema, updateMilestoneSchema } from '@shared/schema';
 import { HttpError } from '../errors';
 import { isAuthenticated } from '../middleware/auth.middleware';
+import { blockArchivedProjectWrites } from '../middleware/project-archive.middleware';
 import { PaymentService } from '../services/payment.service';
+import { recordAuditEvent } from '../services/audit.service';
 
 const router = Router();
 const paymentService = new PaymentService();
 
 // Convert billable task to milestone and trigger billing
-router.post('/api/projects/:projectId/tasks/:taskId/convert-to-milestone', isAuthenticated, async (req, res, next) => {
+router.post('/api/projects/:projectId/tasks/:taskId/convert-to-milestone', isAuthenticated, blockArchivedProjectWrites, async (req, res, next) => {
   try {
     const projectId = parseInt(req.params.projectId);
     const taskId = parseInt(req.params.taskId);
@@ -52,7 +54,26 @@ router.post('/api/projects/:projectId/tasks/:taskId/convert-to-milestone', isAut
       milestoneId: milestone.id,
       notes: (task.notes || '') + `\n[System] Converted to milestone ${milestone.id} for billing purposes.`
     });
-    await storage.tasks.updateTask(taskId, taskUpdateData);
+    const convertedTask = await storage.tasks.updateTask(taskId, taskUpdateData);
+
+    await recordAuditEvent({
+      projectId,
+      actorId: req.user?.id,
+      entityType: 'milestone',
+      entityId: milestone.id,
+      action: 'created',
+      after: milestone,
+      metadata: { source: 'task_conversion', taskId },
+    });
+    await recordAuditEvent({
+      projectId,
+      actorId: req.user?.id,
+      entityType: 'task',
+      entityId: taskId,
+      action: 'updated',
+      before: task,
+      after: convertedTask,
+    });
 
     res.json({
       message: 'Task successfully converted to billable milestone',
@@ -65,7 +86,7 @@ router.post('/api/projects/:projectId/tasks/:taskId/convert-to-milestone', isAut
 });
 
 // Complete task and automatically bill if it's linked to a milestone
-router.patch('/api/projects/:projectId/tasks/:taskId/complete-and-bill', isAuthenticated, async (req, res, next) => {
+router.patch('/api/projects/:projectId/tasks/:taskId/complete-and-bill', isAuthenticated, blockArchivedProjectWrites, async (req, res, next) => {
   try {
     const projectId = parseInt(req.params.projectId);
     const taskId = parseInt(req.params.taskId);
@@ -91,6 +112,15 @@ router.patch('/api/projects/:projectId/tasks/:taskId/complete-and-bill', isAuthe
       actualHours: req.body.actualHours || task.actualHours,
     });
     const completedTask = await storage.tasks.updateTask(taskId, taskCompletionData);
+    await recordAuditEvent({
+      projectId,
+      actorId: req.user?.id,
+      entityType: 'task',
+      entityId: taskId,
+      action: 'completed',
+      before: task,
+      after: completedTask,
+    });
 
     let invoice = null;
     let milestone = null;
@@ -106,7 +136,17 @@ router.patch('/api/projects/:projectId/tasks/:taskId/complete-and-bill', isAuthe
           completedById: req.user!.id,
           actualDate: new Date(),
         });
-        await storage.milestones.updateMilestone(milestone.id, milestoneUpdateData);
+        const completedMilestone = await storage.milestones.updateMilestone(milestone.id, milestoneUpdateData);
+        await recordAuditEvent({
+          projectId,
+          actorId: req.user?.id,
+          entityType: 'milestone',
+          entityId: milestone.id,
+          action: 'completed',
+          before: milestone,
+          after: completedMilestone,
+          metadata: { source: 'task_completion', taskId },
+        });
 
         // Generate DRAFT invoice if milestone is billable
         if (milestone.isBillable) {
@@ -115,6 +155,17 @@ router.patch('/api/projects/:projectId/tasks/:taskId/complete-and-bill', isAuthe
             projectId,
             milestone.id
           );
+          if (invoice) {
+            await recordAuditEvent({
+              projectId,
+              actorId: req.user?.id,
+              entityType: 'invoice',
+              entityId: invoice.id,
+              action: 'created',
+              after: invoice,
+              metadata: { source: 'task_completion', taskId, milestoneId: milestone.id },
+            });
+          }
         }
       }
     }
@@ -28,6 +28,15 @@ router.post("/dependencies", isAuthenticated, requireProjectPermission('canManag
 // DELETE /api/projects/:projectId/tasks/dependencies - Remove a dependency
 router.delete("/dependencies", isAuthenticated, requireProjectPermission('canManageTaskDependencies'), taskController.deleteTaskDependency);
 
+// GET /api/projects/:projectId/tasks/schedule - Critical path analysis (early/late dates, float)
+router.get("/schedule", isAuthenticated, requireProjectPermission('canViewTaskDependencies'), taskController.getProjectSchedule);
+
+// GET /api/projects/:projectId/tasks/:taskId/reschedule - Preview downstream shifts for a task's dates
+router.get("/:taskId/reschedule", isAuthenticated, validateResourceId('taskId'), requireProjectPermission('canViewTaskDependencies'), taskController.previewTaskReschedule);
+
+// POST /api/projects/:projectId/tasks/:taskId/reschedule - Apply downstream shifts
+router.post("/:taskId/reschedule", isAuthenticated, validateResourceId('taskId'), requireProjectPermission('canEditTasks'), taskController.applyTaskReschedule);
+
 // POST /api/projects/:projectId/tasks/publish - Publish all project tasks (make visible to clients)
 router.post("/publish", isAuthenticated, requireProjectPermission('canPublishTasks'), taskController.publishProjectTasks);
 
@@ -0,0 +1,32 @@
+// server/routes/tax-rate.routes.ts
+import { Router } from "express";
+import multer from "multer";
+import * as taxRateController from "@server/controllers/tax-rate.controller";
+import { isAdmin } from "@server/middleware/auth.middleware";
+
+// This router will handle the imported WA DOR rate tables under /api/tax-rates
+export const taxRateRouter = Router();
+
+// DOR tables are plain CSV; a full quarter is well under 1MB
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.includes('csv') || file.mimetype.startsWith('text/') || file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV files are allowed'));
+    }
+  }
+});
+
+// Address lookups themselves go through POST /api/quotes/lookup/tax-rate
+
+// GET /api/tax-rates/tables
+taxRateRouter.get("/tables", taxRateController.getRateTables);
+
+// POST /api/tax-rates/import
+// Admin only, checked before the upload is read; re-importing a quarter replaces its rates
+taxRateRouter.post("/import", isAdmin, upload.single("file"), taxRateController.importRateTable);
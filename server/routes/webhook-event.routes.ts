@@ -0,0 +1,15 @@
+// server/routes/webhook-event.routes.ts
+import { Router } from "express";
+import * as webhookEventController from "@server/controllers/webhook-event.controller";
+import { isAuthenticated, isAdmin } from "@server/middleware/auth.middleware";
+
+// This router will handle the webhook ledger under /api/admin/webhook-events (admin only)
+export const webhookEventRouter = Router();
+
+// GET /api/admin/webhook-events
+// Received webhook events, newest first; filter with ?status=failed
+webhookEventRouter.get("/", isAuthenticated, isAdmin, webhookEventController.getWebhookEvents);
+
+// POST /api/admin/webhook-events/:eventId/replay
+// Re-run a failed (or stuck) event from its stored payload
+webhookEventRouter.post("/:eventId/replay", isAuthenticated, isAdmin, webhookEventController.replayEvent);
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { stripeService } from '../services/stripe.service';
-import { paymentService } from '../services/payment.service';
+import { handleStripeEvent } from '../services/stripe-webhook.service';
 
 const router = Router();
 
@@ -20,34 +20,13 @@ router.post('/stripe', async (req, res, next) => {
     // Construct and verify the webhook event
     const event = await stripeService.constructEvent(req.body, signature);
 
-    console.log(`[Webhook] Received event: ${event.type}`);
+    console.log(`[Webhook] Received event: ${event.type} (${event.id})`);
 
-    // Handle the event
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        await paymentService.handlePaymentSuccess(event.data.object.id);
-        console.log(`[Webhook] Successfully processed payment: ${event.data.object.id}`);
-        break;
-
-      case 'payment_intent.payment_failed':
-        console.log(`[Webhook] Payment failed: ${event.data.object.id}`);
-        // TODO: Handle failed payment notification
-        break;
-
-      case 'customer.created':
-        console.log(`[Webhook] Customer created: ${event.data.object.id}`);
-        break;
-
-      case 'invoice.payment_succeeded':
-        console.log(`[Webhook] Invoice payment succeeded: ${event.data.object.id}`);
-        break;
-
-      default:
-        console.log(`[Webhook] Unhandled event type: ${event.type}`);
-    }
+    // Record the event in the ledger and handle it unless it was already processed
+    const { duplicate } = await handleStripeEvent(event);
 
     // Return a response to acknowledge receipt of the event
-    res.json({ received: true });
+    res.json({ received: true, duplicate });
   } catch (error) {
     console.error('[Webhook] Error processing webhook:', error);
     next(error);
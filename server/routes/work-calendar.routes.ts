@@ -0,0 +1,46 @@
+// server/routes/work-calendar.routes.ts
+import { Router } from "express";
+import * as workCalendarController from "@server/controllers/work-calendar.controller";
+import { isAuthenticated } from "@server/middleware/auth.middleware";
+import { requireProjectPermission } from "@server/middleware/enhanced-permissions.middleware";
+
+// This router will handle routes nested under /api/projects/:projectId/calendar
+export const projectCalendarRouter = Router({ mergeParams: true });
+
+// This router will handle the company-wide calendar under /api/calendars
+export const companyCalendarRouter = Router();
+
+// --- Project Calendar Routes ---
+
+// GET /api/projects/:projectId/calendar
+// Project and company calendars plus the merged rules scheduling uses
+projectCalendarRouter.get("/", isAuthenticated, requireProjectPermission('canViewProject'), workCalendarController.getProjectCalendar);
+
+// PUT /api/projects/:projectId/calendar
+projectCalendarRouter.put("/", isAuthenticated, requireProjectPermission('canManageProjectSettings'), workCalendarController.updateProjectCalendar);
+
+// DELETE /api/projects/:projectId/calendar
+// Fall back to the company calendar
+projectCalendarRouter.delete("/", isAuthenticated, requireProjectPermission('canManageProjectSettings'), workCalendarController.resetProjectCalendar);
+
+// POST /api/projects/:projectId/calendar/exceptions
+// Rain days and other project-only non-working days; field staff record these
+projectCalendarRouter.post("/exceptions", isAuthenticated, requireProjectPermission('canEditTasks'), workCalendarController.addProjectNonWorkingDay);
+
+// DELETE /api/projects/:projectId/calendar/exceptions/:exceptionId
+projectCalendarRouter.delete("/exceptions/:exceptionId", isAuthenticated, requireProjectPermission('canEditTasks'), workCalendarController.removeProjectNonWorkingDay);
+
+// --- Company Calendar Routes ---
+// Any signed-in user can read the company calendar; changes are limited to admins in the controller
+
+// GET /api/calendars/company
+companyCalendarRouter.get("/company", isAuthenticated, workCalendarController.getCompanyCalendar);
+
+// PUT /api/calendars/company
+companyCalendarRouter.put("/company", isAuthenticated, workCalendarController.updateCompanyCalendar);
+
+// POST /api/calendars/company/exceptions
+companyCalendarRouter.post("/company/exceptions", isAuthenticated, workCalendarController.addCompanyNonWorkingDay);
+
+// DELETE /api/calendars/company/exceptions/:exceptionId
+companyCalendarRouter.delete("/company/exceptions/:exceptionId", isAuthenticated, workCalendarController.removeCompanyNonWorkingDay);
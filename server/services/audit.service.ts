@@ -0,0 +1,101 @@
+// server/services/audit.service.ts
+import { storage } from '@server/storage/index';
+import { log as logger } from '@server/vite';
+
+export type AuditEntityType =
+    | 'task'
+    | 'milestone'
+    | 'invoice'
+    | 'payment'
+    | 'punch_list_item'
+    | 'document'
+    | 'project'
+    | 'project_member'
+    | 'selection'
+    | 'change_order';
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Fields that change on every write and would only add noise to diffs
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+function normalizeValue(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString();
+    if (value === undefined) return null;
+    return value;
+}
+
+function isComparable(value: unknown): boolean {
+    // Skip joined relations (assignee, media, payments...) - only scalar columns are diffed
+    return value === null || value === undefined || value instanceof Date || typeof value !== 'object';
+}
+
+/**
+ * Computes a field-level diff between two versions of a record.
+ * Only scalar fields present on the "after" record are compared.
+ * @param before - The record before the change (null for creations).
+ * @param after - The record after the change (null for deletions).
+ * @returns Map of changed fields to their previous and new values.
+ */
+export function diffRecords(
+    before: Record<string, any> | null | undefined,
+    after: Record<string, any> | null | undefined
+): AuditChanges {
+    const changes: AuditChanges = {};
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+    for (const key of keys) {
+        if (IGNORED_FIELDS.has(key)) continue;
+        const from = before?.[key];
+        const to = after?.[key];
+        if (!isComparable(from) || !isComparable(to)) continue;
+
+        const normalizedFrom = normalizeValue(from);
+        const normalizedTo = normalizeValue(to);
+        if (normalizedFrom !== normalizedTo) {
+            changes[key] = { from: normalizedFrom, to: normalizedTo };
+        }
+    }
+
+    return changes;
+}
+
+export interface RecordAuditEventParams {
+    projectId: number | null | undefined;
+    actorId: number | null | undefined; // null/undefined for system actions (webhooks, jobs)
+    entityType: AuditEntityType;
+    entityId: number;
+    action: string;
+    before?: Record<string, any> | null;
+    after?: Record<string, any> | null;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Records an audit event for a change to a project record.
+ * Failures are logged and swallowed so auditing never breaks the underlying operation.
+ */
+export async function recordAuditEvent(params: RecordAuditEventParams): Promise<void> {
+    const { projectId, actorId, entityType, entityId, action, before, after, metadata } = params;
+
+    try {
+        const changes = diffRecords(before, after);
+
+        // An update that touched nothing meaningful is not worth recording
+        if (action === 'updated' && Object.keys(changes).length === 0) {
+            return;
+        }
+
+        await storage.auditEvents.createEvent({
+            projectId: projectId ?? null,
+            actorId: actorId ?? null,
+            entityType,
+            entityId,
+            action,
+            changes: Object.keys(changes).length > 0 ? changes : null,
+            metadata: metadata ?? null,
+        });
+    } catch (error) {
+        logger(`[AuditService] Failed to record ${entityType}:${entityId} ${action}: ${error instanceof Error ? error.message : error}`, 'Audit');
+    }
+}
@@ -0,0 +1,334 @@
+// server/services/bulk-actions.service.ts
+import { z } from 'zod';
+import { eq, and, or, inArray } from 'drizzle-orm';
+import { db } from '@server/db';
+import * as schema from '@shared/schema';
+import { storage } from '@server/storage/index';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { deleteFromR2, getR2KeyFromUrl } from '@server/r2-upload';
+import { ProjectManagerPermissions } from '@server/middleware/enhanced-permissions.middleware';
+import { recordAuditEvent, AuditEntityType } from './audit.service';
+import { assertProjectNotArchived } from './project-archive.service';
+
+export const BULK_RESOURCE_TYPES = ['tasks', 'punchListItems', 'documents'] as const;
+export const BULK_ACTIONS = ['reassign', 'update_status', 'update_priority', 'shift_dates', 'publish', 'unpublish', 'delete'] as const;
+
+export type BulkResourceType = typeof BULK_RESOURCE_TYPES[number];
+export type BulkActionType = typeof BULK_ACTIONS[number];
+
+const TASK_STATUSES = ['todo', 'in_progress', 'blocked', 'done', 'cancelled'];
+const PUNCH_LIST_STATUSES = ['open', 'in_progress', 'resolved', 'verified'];
+const PRIORITIES = ['low', 'medium', 'high'];
+
+/**
+ * Permission flag required for each supported resource/action combination.
+ * Combinations missing from this map are not supported.
+ */
+const ACTION_PERMISSIONS: Record<BulkResourceType, Partial<Record<BulkActionType, keyof ProjectManagerPermissions>>> = {
+    tasks: {
+        reassign: 'canAssignTasks',
+        update_status: 'canEditTasks',
+        update_priority: 'canEditTasks',
+        shift_dates: 'canEditTasks',
+        publish: 'canPublishTasks',
+        unpublish: 'canPublishTasks',
+        delete: 'canDeleteTasks',
+    },
+    punchListItems: {
+        reassign: 'canEditPunchListItems',
+        update_status: 'canEditPunchListItems',
+        update_priority: 'canEditPunchListItems',
+        shift_dates: 'canEditPunchListItems',
+        delete: 'canDeletePunchListItems',
+    },
+    documents: {
+        delete: 'canDeleteDocuments',
+    },
+};
+
+export const bulkActionRequestSchema = z.object({
+    resourceType: z.enum(BULK_RESOURCE_TYPES),
+    action: z.enum(BULK_ACTIONS),
+    resourceIds: z.array(z.number().int().positive()).min(1, 'At least one resource ID is required.').max(500, 'A maximum of 500 items can be updated at once.'),
+    data: z.object({
+        assigneeId: z.number().int().positive().nullable().optional(),
+        status: z.string().optional(),
+        priority: z.string().optional(),
+        days: z.number().int().optional(),
+    }).optional().default({}),
+}).superRefine((request, ctx) => {
+    const { resourceType, action, data } = request;
+
+    if (!ACTION_PERMISSIONS[resourceType][action]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['action'], message: `Action '${action}' is not supported for ${resourceType}.` });
+        return;
+    }
+    if (action === 'reassign' && data.assigneeId === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['data', 'assigneeId'], message: 'assigneeId is required (use null to unassign).' });
+    }
+    if (action === 'update_status') {
+        const allowed = resourceType === 'tasks' ? TASK_STATUSES : PUNCH_LIST_STATUSES;
+        if (!data.status || !allowed.includes(data.status)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['data', 'status'], message: `status must be one of: ${allowed.join(', ')}.` });
+        }
+    }
+    if (action === 'update_priority' && (!data.priority || !PRIORITIES.includes(data.priority))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['data', 'priority'], message: `priority must be one of: ${PRIORITIES.join(', ')}.` });
+    }
+    if (action === 'shift_dates' && (!data.days || Math.abs(data.days) > 3650)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['data', 'days'], message: 'days must be a non-zero number of days (max 3650).' });
+    }
+});
+
+export type BulkActionRequest = z.infer<typeof bulkActionRequestSchema>;
+
+export interface BulkItemResult {
+    id: number;
+    status: 'succeeded' | 'failed' | 'rolled_back';
+    error?: string;
+}
+
+export interface BulkActionResult {
+    projectId: number;
+    resourceType: BulkResourceType;
+    action: BulkActionType;
+    success: boolean;
+    affectedCount: number;
+    results: BulkItemResult[];
+}
+
+// Thrown inside the transaction to roll back when any item fails
+class BulkActionRollback extends Error {
+    constructor() {
+        super('Bulk action rolled back');
+    }
+}
+
+/**
+ * Returns the permission flag required for a bulk action, or null if the combination is unsupported.
+ */
+export function getBulkActionPermission(resourceType: BulkResourceType, action: BulkActionType): keyof ProjectManagerPermissions | null {
+    return ACTION_PERMISSIONS[resourceType][action] ?? null;
+}
+
+function shiftDate(date: Date | null, days: number): Date | null {
+    if (!date) return null;
+    const shifted = new Date(date);
+    shifted.setDate(shifted.getDate() + days);
+    return shifted;
+}
+
+type AuditChange = { id: number; before: Record<string, any>; after: Record<string, any> | null };
+
+/**
+ * Applies one action to many tasks, punch list items or documents in a single transaction.
+ * Every item must belong to the project; if any item fails, nothing is applied and
+ * the remaining items are reported as rolled back.
+ */
+export async function executeBulkAction(
+    projectId: number,
+    actorId: number,
+    request: BulkActionRequest
+): Promise<BulkActionResult> {
+    const { resourceType, action, data } = request;
+    const resourceIds = Array.from(new Set(request.resourceIds));
+
+    // Tasks and punch lists are read-only once a project is archived
+    if (resourceType !== 'documents') {
+        await assertProjectNotArchived(projectId);
+    }
+
+    if (action === 'reassign' && data.assigneeId) {
+        const assignee = await storage.users.getUser(data.assigneeId);
+        if (!assignee) {
+            throw new HttpError(400, `User ${data.assigneeId} does not exist.`);
+        }
+    }
+
+    const results = new Map<number, BulkItemResult>();
+    const auditChanges: AuditChange[] = [];
+    const r2KeysToDelete: string[] = [];
+    const now = new Date();
+
+    try {
+        await db.transaction(async (tx) => {
+            if (resourceType === 'tasks') {
+                const rows = await tx.select().from(schema.tasks)
+                    .where(and(eq(schema.tasks.projectId, projectId), inArray(schema.tasks.id, resourceIds)));
+                const byId = new Map(rows.map(row => [row.id, row]));
+
+                const foundIds = resourceIds.filter(id => byId.has(id));
+                if (action === 'delete' && foundIds.length > 0) {
+                    await tx.delete(schema.taskDependencies).where(or(
+                        inArray(schema.taskDependencies.predecessorId, foundIds),
+                        inArray(schema.taskDependencies.successorId, foundIds)
+                    ));
+                }
+
+                for (const id of resourceIds) {
+                    const task = byId.get(id);
+                    if (!task) {
+                        results.set(id, { id, status: 'failed', error: 'Task not found in this project.' });
+                        continue;
+                    }
+
+                    if (action === 'delete') {
+                        await tx.delete(schema.tasks).where(eq(schema.tasks.id, id));
+                        auditChanges.push({ id, before: task, after: null });
+                        results.set(id, { id, status: 'succeeded' });
+                        continue;
+                    }
+
+                    const update: Partial<typeof schema.tasks.$inferInsert> = { updatedAt: now };
+                    switch (action) {
+                        case 'reassign': update.assigneeId = data.assigneeId ?? null; break;
+                        case 'update_status':
+                            update.status = data.status!;
+                            if (data.status === 'done' && task.status !== 'done') update.completedAt = now;
+                            break;
+                        case 'update_priority': update.priority = data.priority!; break;
+                        case 'shift_dates':
+                            update.startDate = shiftDate(task.startDate, data.days!);
+                            update.dueDate = shiftDate(task.dueDate, data.days!);
+                            break;
+                        case 'publish': update.publishedAt = task.publishedAt ?? now; break;
+                        case 'unpublish': update.publishedAt = null; break;
+                    }
+
+                    const [updated] = await tx.update(schema.tasks).set(update)
+                        .where(eq(schema.tasks.id, id))
+                        .returning();
+                    auditChanges.push({ id, before: task, after: updated });
+                    results.set(id, { id, status: 'succeeded' });
+                }
+            } else if (resourceType === 'punchListItems') {
+                const rows = await tx.select().from(schema.punchListItems)
+                    .where(and(eq(schema.punchListItems.projectId, projectId), inArray(schema.punchListItems.id, resourceIds)));
+                const byId = new Map(rows.map(row => [row.id, row]));
+
+                for (const id of resourceIds) {
+                    const item = byId.get(id);
+                    if (!item) {
+                        results.set(id, { id, status: 'failed', error: 'Punch list item not found in this project.' });
+                        continue;
+                    }
+
+                    if (action === 'delete') {
+                        const media = await tx.delete(schema.updateMedia)
+                            .where(eq(schema.updateMedia.punchListItemId, id))
+                            .returning({ mediaUrl: schema.updateMedia.mediaUrl });
+                        await tx.delete(schema.punchListItems).where(eq(schema.punchListItems.id, id));
+                        r2KeysToDelete.push(...media.map(m => getR2KeyFromUrl(m.mediaUrl)));
+                        auditChanges.push({ id, before: item, after: null });
+                        results.set(id, { id, status: 'succeeded' });
+                        continue;
+                    }
+
+                    const update: Partial<typeof schema.punchListItems.$inferInsert> = { updatedAt: now };
+                    switch (action) {
+                        case 'reassign': update.assigneeId = data.assigneeId ?? null; break;
+                        case 'update_status':
+                            update.status = data.status!;
+                            // Mirrors PunchListRepository.updatePunchListItem
+                            update.resolvedAt = data.status === 'resolved' || data.status === 'verified' ? (item.resolvedAt ?? now) : null;
+                            break;
+                        case 'update_priority': update.priority = data.priority!; break;
+                        case 'shift_dates': update.dueDate = shiftDate(item.dueDate, data.days!); break;
+                    }
+
+                    const [updated] = await tx.update(schema.punchListItems).set(update)
+                        .where(eq(schema.punchListItems.id, id))
+                        .returning();
+                    auditChanges.push({ id, before: item, after: updated });
+                    results.set(id, { id, status: 'succeeded' });
+                }
+            } else {
+                const rows = await tx.select().from(schema.documents)
+                    .where(and(eq(schema.documents.projectId, projectId), inArray(schema.documents.id, resourceIds)));
+                const byId = new Map(rows.map(row => [row.id, row]));
+
+                for (const id of resourceIds) {
+                    const document = byId.get(id);
+                    if (!document) {
+                        results.set(id, { id, status: 'failed', error: 'Document not found in this project.' });
+                        continue;
+                    }
+
+                    // Invoices may reference a generated document; detach before deleting
+                    await tx.update(schema.invoices).set({ documentId: null })
+                        .where(eq(schema.invoices.documentId, id));
+                    await tx.delete(schema.documents).where(eq(schema.documents.id, id));
+                    r2KeysToDelete.push(getR2KeyFromUrl(document.fileUrl));
+                    auditChanges.push({ id, before: document, after: null });
+                    results.set(id, { id, status: 'succeeded' });
+                }
+            }
+
+            if (Array.from(results.values()).some(result => result.status === 'failed')) {
+                throw new BulkActionRollback();
+            }
+        });
+    } catch (error) {
+        if (!(error instanceof BulkActionRollback)) {
+            throw error;
+        }
+
+        for (const result of results.values()) {
+            if (result.status === 'succeeded') {
+                result.status = 'rolled_back';
+                result.error = 'Not applied because other items in the request failed.';
+            }
+        }
+        logger(`[executeBulkAction] ${action} on ${resourceType} for project ${projectId} rolled back`, 'BulkActions');
+
+        return {
+            projectId,
+            resourceType,
+            action,
+            success: false,
+            affectedCount: 0,
+            results: resourceIds.map(id => results.get(id)!),
+        };
+    }
+
+    // Storage objects can only be removed once the database changes are committed
+    for (const key of r2KeysToDelete) {
+        await deleteFromR2(key).catch(error => {
+            logger(`[executeBulkAction] Failed to delete R2 object ${key}: ${error instanceof Error ? error.message : error}`, 'BulkActions');
+        });
+    }
+
+    // Task completion drives project progress, same calculation as the task controller
+    if (resourceType === 'tasks' && (action === 'update_status' || action === 'delete')) {
+        const tasks = await storage.tasks.getTasksForProject(projectId);
+        const completedTasks = tasks.filter(task => task.status === 'done' || task.status === 'completed').length;
+        const progress = tasks.length > 0 ? Math.round((completedTasks / tasks.length) * 100) : 0;
+        await storage.projects.updateProjectDetailsAndClients(projectId, { progress });
+    }
+
+    const entityType: AuditEntityType = resourceType === 'tasks' ? 'task' : resourceType === 'punchListItems' ? 'punch_list_item' : 'document';
+    for (const change of auditChanges) {
+        await recordAuditEvent({
+            projectId,
+            actorId,
+            entityType,
+            entityId: change.id,
+            action: change.after ? 'updated' : 'deleted',
+            before: change.before,
+            after: change.after,
+            metadata: { bulkAction: action },
+        });
+    }
+
+    logger(`[executeBulkAction] ${action} applied to ${auditChanges.length} ${resourceType} in project ${projectId}`, 'BulkActions');
+
+    return {
+        projectId,
+        resourceType,
+        action,
+        success: true,
+        affectedCount: auditChanges.length,
+        results: resourceIds.map(id => results.get(id)!),
+    };
+}
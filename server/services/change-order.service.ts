@@ -0,0 +1,378 @@
+// server/services/change-order.service.ts
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { storage } from '@server/storage/index';
+import { ChangeOrder, ChangeOrderWithLineItems, InsertChangeOrderLineItem } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { sendChangeOrderEmail } from '@server/email';
+import { recordAuditEvent } from './audit.service';
+import { isProjectArchived } from './project-archive.service';
+import { PaymentService } from './payment.service';
+
+const paymentService = new PaymentService();
+
+// Change orders can only be edited or deleted before the client approves them
+const EDITABLE_STATUSES = ['draft', 'rejected'];
+
+const lineItemInputSchema = z.object({
+    category: z.string().trim().min(1).max(100),
+    description: z.string().trim().min(1).max(1000),
+    quantity: z.coerce.number().positive().default(1),
+    unit: z.string().max(50).optional().default('each'),
+    unitPrice: z.coerce.number(), // Negative for removed scope
+    discountPercentage: z.coerce.number().min(0).max(100).optional().default(0),
+    discountAmount: z.coerce.number().min(0).optional().default(0),
+});
+
+export const changeOrderInputSchema = z.object({
+    title: z.string().trim().min(1).max(200),
+    description: z.string().max(5000).optional().nullable(),
+    reason: z.string().max(2000).optional().nullable(),
+    taxRate: z.coerce.number().min(0).max(100).optional().default(0),
+    scheduleImpactDays: z.coerce.number().int().min(-365).max(365).optional().default(0),
+    createTasks: z.boolean().optional().default(false),
+    lineItems: z.array(lineItemInputSchema).min(1, 'At least one line item is required.').max(200),
+});
+
+export const changeOrderUpdateSchema = changeOrderInputSchema.partial();
+
+export const changeOrderResponseSchema = z.object({
+    action: z.enum(['approve', 'reject']),
+    name: z.string().trim().min(1, 'Your name is required.').max(200),
+    notes: z.string().max(2000).optional().nullable(),
+});
+
+export type ChangeOrderInput = z.infer<typeof changeOrderInputSchema>;
+export type ChangeOrderUpdateInput = z.infer<typeof changeOrderUpdateSchema>;
+export type ChangeOrderResponse = z.infer<typeof changeOrderResponseSchema>;
+
+type LineItemInput = z.infer<typeof lineItemInputSchema>;
+
+/**
+ * Prices line items the same way quote line items are priced: a percentage discount
+ * takes precedence over a fixed discount amount.
+ */
+function buildLineItems(items: LineItemInput[]): Omit<InsertChangeOrderLineItem, 'changeOrderId'>[] {
+    return items.map((item, index) => {
+        const gross = item.quantity * item.unitPrice;
+        const discount = item.discountPercentage > 0
+            ? (Math.abs(gross) * item.discountPercentage) / 100
+            : item.discountAmount;
+        const total = gross >= 0 ? gross - discount : gross + discount;
+        return {
+            category: item.category,
+            description: item.description,
+            quantity: item.quantity.toFixed(2),
+            unit: item.unit,
+            unitPrice: item.unitPrice.toFixed(2),
+            discountPercentage: item.discountPercentage.toFixed(2),
+            discountAmount: discount.toFixed(2),
+            totalPrice: total.toFixed(2),
+            sortOrder: index,
+        };
+    });
+}
+
+function computeTotals(lineItems: { totalPrice: string }[], taxRate: number) {
+    const subtotal = lineItems.reduce((sum, item) => sum + parseFloat(item.totalPrice), 0);
+    const taxAmount = (subtotal * taxRate) / 100;
+    return {
+        subtotal: subtotal.toFixed(2),
+        taxRate: taxRate.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        total: (subtotal + taxAmount).toFixed(2),
+    };
+}
+
+async function getChangeOrderOrThrow(projectId: number, changeOrderId: number): Promise<ChangeOrderWithLineItems> {
+    const changeOrder = await storage.changeOrders.getChangeOrderById(projectId, changeOrderId);
+    if (!changeOrder) {
+        throw new HttpError(404, 'Change order not found.');
+    }
+    return changeOrder;
+}
+
+export async function getProjectChangeOrders(projectId: number): Promise<ChangeOrderWithLineItems[]> {
+    return storage.changeOrders.getChangeOrdersForProject(projectId);
+}
+
+export async function getChangeOrder(projectId: number, changeOrderId: number): Promise<ChangeOrderWithLineItems> {
+    return getChangeOrderOrThrow(projectId, changeOrderId);
+}
+
+export async function createChangeOrder(projectId: number, actorId: number, input: ChangeOrderInput): Promise<ChangeOrderWithLineItems> {
+    const project = await storage.projects.getProject(projectId);
+    if (!project) {
+        throw new HttpError(404, 'Project not found.');
+    }
+
+    const lineItems = buildLineItems(input.lineItems);
+    const sequence = (await storage.changeOrders.countChangeOrdersForProject(projectId)) + 1;
+
+    const changeOrder = await storage.changeOrders.createChangeOrder({
+        projectId,
+        changeOrderNumber: `CO-${projectId}-${String(sequence).padStart(3, '0')}`,
+        title: input.title,
+        description: input.description ?? null,
+        reason: input.reason ?? null,
+        status: 'draft',
+        ...computeTotals(lineItems, input.taxRate),
+        scheduleImpactDays: input.scheduleImpactDays,
+        createTasks: input.createTasks,
+        accessToken: uuidv4(),
+        quoteId: project.originQuoteId ?? null,
+        createdById: actorId,
+    }, lineItems);
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'change_order',
+        entityId: changeOrder.id,
+        action: 'created',
+        metadata: { changeOrderNumber: changeOrder.changeOrderNumber, total: changeOrder.total },
+    });
+
+    return changeOrder;
+}
+
+export async function updateChangeOrder(
+    projectId: number,
+    changeOrderId: number,
+    actorId: number,
+    input: ChangeOrderUpdateInput
+): Promise<ChangeOrderWithLineItems> {
+    const existing = await getChangeOrderOrThrow(projectId, changeOrderId);
+    if (!EDITABLE_STATUSES.includes(existing.status)) {
+        throw new HttpError(409, `Change orders that are ${existing.status} cannot be edited.`);
+    }
+
+    const lineItems = input.lineItems ? buildLineItems(input.lineItems) : undefined;
+    const taxRate = input.taxRate ?? parseFloat(existing.taxRate);
+
+    const updateData: Record<string, unknown> = {
+        ...computeTotals(lineItems ?? existing.lineItems, taxRate),
+        status: 'draft', // A revised rejection goes back to draft until it is re-sent
+    };
+    if (input.title !== undefined) updateData.title = input.title;
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.reason !== undefined) updateData.reason = input.reason;
+    if (input.scheduleImpactDays !== undefined) updateData.scheduleImpactDays = input.scheduleImpactDays;
+    if (input.createTasks !== undefined) updateData.createTasks = input.createTasks;
+    if (existing.status === 'rejected') {
+        Object.assign(updateData, { respondedAt: null, respondedByName: null, responseNotes: null });
+    }
+
+    const updated = await storage.changeOrders.updateChangeOrder(changeOrderId, updateData, lineItems);
+    if (!updated) {
+        throw new HttpError(404, 'Change order not found.');
+    }
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'change_order',
+        entityId: changeOrderId,
+        action: 'updated',
+        before: existing,
+        after: updated,
+    });
+
+    return updated;
+}
+
+export async function deleteChangeOrder(projectId: number, changeOrderId: number, actorId: number): Promise<void> {
+    const existing = await getChangeOrderOrThrow(projectId, changeOrderId);
+    if (!EDITABLE_STATUSES.includes(existing.status)) {
+        throw new HttpError(409, `Change orders that are ${existing.status} cannot be deleted.`);
+    }
+
+    await storage.changeOrders.deleteChangeOrder(changeOrderId);
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'change_order',
+        entityId: changeOrderId,
+        action: 'deleted',
+        metadata: { changeOrderNumber: existing.changeOrderNumber, total: existing.total },
+    });
+}
+
+/**
+ * Emails the change order's approval link to the customer. Sent change orders can be re-sent.
+ */
+export async function sendChangeOrder(
+    projectId: number,
+    changeOrderId: number,
+    actorId: number
+): Promise<{ changeOrder: ChangeOrder; emailSent: boolean }> {
+    const existing = await getChangeOrderOrThrow(projectId, changeOrderId);
+    if (!['draft', 'sent'].includes(existing.status)) {
+        throw new HttpError(409, `Change orders that are ${existing.status} cannot be sent.`);
+    }
+
+    const project = await storage.projects.getProjectById(projectId);
+    if (!project) {
+        throw new HttpError(404, 'Project not found.');
+    }
+    if (isProjectArchived(project)) {
+        throw new HttpError(409, 'Project is archived and read-only. Restore it before making changes.');
+    }
+
+    const recipient = project.customerEmail
+        ? { email: project.customerEmail, name: project.customerName || 'there' }
+        : project.clients[0]
+            ? { email: project.clients[0].email, name: project.clients[0].firstName }
+            : null;
+    if (!recipient) {
+        throw new HttpError(400, 'Project has no customer email to send the change order to.');
+    }
+
+    const changeOrder = await storage.changeOrders.transitionStatus(changeOrderId, ['draft', 'sent'], {
+        status: 'sent',
+        sentAt: new Date(),
+    });
+    if (!changeOrder) {
+        throw new HttpError(409, 'Change order was modified by someone else. Refresh and try again.');
+    }
+
+    const emailSent = await sendChangeOrderEmail({
+        recipientEmail: recipient.email,
+        recipientName: recipient.name,
+        projectName: project.name,
+        changeOrderNumber: changeOrder.changeOrderNumber,
+        title: changeOrder.title,
+        total: parseFloat(changeOrder.total),
+        scheduleImpactDays: changeOrder.scheduleImpactDays,
+        accessToken: changeOrder.accessToken,
+    });
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'change_order',
+        entityId: changeOrderId,
+        action: 'sent',
+        metadata: { recipient: recipient.email, emailSent },
+    });
+
+    return { changeOrder, emailSent };
+}
+
+/**
+ * Public view of a change order for the customer approval page.
+ */
+export async function getChangeOrderByToken(token: string) {
+    const changeOrder = await storage.changeOrders.getChangeOrderByAccessToken(token);
+    if (!changeOrder || changeOrder.status === 'draft') {
+        throw new HttpError(404, 'Change order not found.');
+    }
+
+    const project = await storage.projects.getProject(changeOrder.projectId);
+    const { createdBy, createdById, accessToken, ...publicFields } = changeOrder;
+    return {
+        ...publicFields,
+        project: project ? { name: project.name, address: project.address } : null,
+    };
+}
+
+/**
+ * Records the customer's decision. Approval bills the change order, adjusts the project
+ * budget and schedule, and optionally adds a task per line item.
+ */
+export async function respondToChangeOrder(token: string, response: ChangeOrderResponse): Promise<ChangeOrder> {
+    const existing = await storage.changeOrders.getChangeOrderByAccessToken(token);
+    if (!existing || existing.status === 'draft') {
+        throw new HttpError(404, 'Change order not found.');
+    }
+    if (existing.status !== 'sent') {
+        throw new HttpError(409, `This change order has already been ${existing.status}.`);
+    }
+
+    const project = await storage.projects.getProject(existing.projectId);
+    if (isProjectArchived(project)) {
+        throw new HttpError(409, 'This project has been closed. Please contact us about this change order.');
+    }
+
+    const responseFields = {
+        respondedAt: new Date(),
+        respondedByName: response.name,
+        responseNotes: response.notes ?? null,
+    };
+
+    if (response.action === 'reject') {
+        const rejected = await storage.changeOrders.transitionStatus(existing.id, ['sent'], { status: 'rejected', ...responseFields });
+        if (!rejected) {
+            throw new HttpError(409, 'This change order has already been answered.');
+        }
+        await recordAuditEvent({
+            projectId: existing.projectId,
+            actorId: null,
+            entityType: 'change_order',
+            entityId: existing.id,
+            action: 'rejected',
+            metadata: { respondedByName: response.name, notes: response.notes ?? null },
+        });
+        return rejected;
+    }
+
+    // The status transition doubles as a lock so a double submit can't bill twice
+    const approved = await storage.changeOrders.transitionStatus(existing.id, ['sent'], { status: 'approved', ...responseFields });
+    if (!approved) {
+        throw new HttpError(409, 'This change order has already been answered.');
+    }
+
+    const total = parseFloat(approved.total);
+    let invoiceId: number | null = null;
+    if (total > 0) {
+        try {
+            const invoice = await paymentService.createChangeOrderInvoice(
+                approved.projectId,
+                total,
+                `Change order ${approved.changeOrderNumber}: ${approved.title}`
+            );
+            invoiceId = invoice.id;
+            await storage.changeOrders.transitionStatus(approved.id, ['approved'], { invoiceId });
+        } catch (error) {
+            // Put it back so the customer can retry rather than leaving an unbilled approval
+            await storage.changeOrders.transitionStatus(approved.id, ['approved'], {
+                status: 'sent', respondedAt: null, respondedByName: null, responseNotes: null,
+            });
+            throw error;
+        }
+    }
+
+    await storage.projects.adjustBudgetAndSchedule(approved.projectId, approved.total, approved.scheduleImpactDays);
+
+    if (approved.createTasks) {
+        for (const item of existing.lineItems) {
+            await storage.tasks.createTask({
+                projectId: approved.projectId,
+                title: item.description,
+                description: `Added by change order ${approved.changeOrderNumber} (${item.category})`,
+                status: 'todo',
+                priority: 'medium',
+            });
+        }
+    }
+
+    await recordAuditEvent({
+        projectId: approved.projectId,
+        actorId: null,
+        entityType: 'change_order',
+        entityId: approved.id,
+        action: 'approved',
+        metadata: {
+            respondedByName: response.name,
+            total: approved.total,
+            scheduleImpactDays: approved.scheduleImpactDays,
+            invoiceId,
+            tasksCreated: approved.createTasks ? existing.lineItems.length : 0,
+        },
+    });
+
+    logger(`[respondToChangeOrder] Change order ${approved.changeOrderNumber} approved by ${response.name}`, 'ChangeOrders');
+    return { ...approved, invoiceId };
+}
@@ -0,0 +1,199 @@
+// server/services/cost-catalog.service.ts
+import { z } from 'zod';
+import { storage } from '@server/storage/index';
+import type { CostCatalogItem, QuoteTemplateWithItems } from '@shared/schema';
+import { paymentStagesSchema, type PaymentStageValues } from '@shared/quote-payment-stages';
+import { catalogSellPrice, type AppliedQuoteTemplate } from '@shared/cost-catalog';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+
+export const catalogItemInputSchema = z.object({
+  category: z.string().trim().min(1, 'Category is required.').max(100),
+  description: z.string().trim().min(1, 'Description is required.').max(500),
+  unit: z.string().trim().min(1).max(50).default('each'),
+  defaultUnitPrice: z.coerce.number().min(0),
+  markupPercentage: z.coerce.number().min(0).max(500).default(0),
+  isActive: z.boolean().optional(),
+});
+
+export const catalogItemUpdateSchema = catalogItemInputSchema.partial();
+
+export const bulkPriceUpdateSchema = z.object({
+  itemIds: z.array(z.number().int().positive()).max(1000).optional(),
+  category: z.string().trim().min(1).optional(),
+  pricePercentage: z.coerce.number().min(-90).max(500).optional(),
+  markupPercentage: z.coerce.number().min(0).max(500).optional(),
+}).refine(
+  input => input.pricePercentage !== undefined || input.markupPercentage !== undefined,
+  { message: 'Provide a price change, a new markup, or both.' }
+);
+
+const templateItemInputSchema = z.object({
+  catalogItemId: z.number().int().positive().nullish(),
+  category: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().min(1).max(1000).optional(),
+  quantity: z.coerce.number().positive().default(1),
+  unit: z.string().trim().min(1).max(50).optional(),
+  unitPrice: z.coerce.number().min(0).nullish(), // Overrides the catalog price
+}).refine(
+  item => !!item.catalogItemId || (!!item.category && !!item.description && item.unitPrice != null),
+  { message: 'Items not taken from the catalog need a category, description and unit price.' }
+);
+
+export const quoteTemplateInputSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required.').max(200),
+  projectType: z.string().trim().min(1, 'Project type is required.').max(100),
+  description: z.string().trim().max(1000).nullish(),
+  scopeDescription: z.string().max(10000).nullish(),
+  paymentStages: paymentStagesSchema.nullish(),
+  isActive: z.boolean().optional(),
+  items: z.array(templateItemInputSchema).max(200).default([]),
+});
+
+export const quoteTemplateUpdateSchema = quoteTemplateInputSchema.partial().extend({
+  items: z.array(templateItemInputSchema).max(200).optional(),
+});
+
+export type CatalogItemInput = z.infer<typeof catalogItemInputSchema>;
+export type CatalogItemUpdate = z.infer<typeof catalogItemUpdateSchema>;
+export type BulkPriceUpdateInput = z.infer<typeof bulkPriceUpdateSchema>;
+export type QuoteTemplateInput = z.infer<typeof quoteTemplateInputSchema>;
+export type QuoteTemplateUpdate = z.infer<typeof quoteTemplateUpdateSchema>;
+type TemplateItemInput = z.infer<typeof templateItemInputSchema>;
+
+function catalogValues(input: CatalogItemUpdate) {
+  return {
+    ...input,
+    defaultUnitPrice: input.defaultUnitPrice?.toFixed(2),
+    markupPercentage: input.markupPercentage?.toFixed(2),
+  };
+}
+
+// --- Catalog ---
+
+export async function getCatalogItems(includeInactive: boolean): Promise<CostCatalogItem[]> {
+  return storage.costCatalog.getItems(includeInactive);
+}
+
+export async function createCatalogItem(actorId: number, input: CatalogItemInput): Promise<CostCatalogItem> {
+  return storage.costCatalog.createItem({
+    ...input,
+    defaultUnitPrice: input.defaultUnitPrice.toFixed(2),
+    markupPercentage: input.markupPercentage.toFixed(2),
+    createdById: actorId,
+  });
+}
+
+/** Catalog items are retired with isActive rather than deleted, so templates keep their links. */
+export async function updateCatalogItem(itemId: number, input: CatalogItemUpdate): Promise<CostCatalogItem> {
+  const updated = await storage.costCatalog.updateItem(itemId, catalogValues(input));
+  if (!updated) {
+    throw new HttpError(404, 'Catalog item not found.');
+  }
+  return updated;
+}
+
+export async function bulkUpdateCatalogPrices(actorId: number, input: BulkPriceUpdateInput): Promise<CostCatalogItem[]> {
+  const updated = await storage.costCatalog.bulkUpdatePrices(
+    { itemIds: input.itemIds, category: input.category },
+    { pricePercentage: input.pricePercentage, markupPercentage: input.markupPercentage }
+  );
+  logger(
+    `[bulkUpdateCatalogPrices] User ${actorId} repriced ${updated.length} catalog item(s)` +
+      (input.pricePercentage !== undefined ? ` by ${input.pricePercentage}%` : '') +
+      (input.markupPercentage !== undefined ? `, markup set to ${input.markupPercentage}%` : ''),
+    'CostCatalog'
+  );
+  return updated;
+}
+
+// --- Templates ---
+
+/** Fills catalog-linked items from the catalog so the stored row is readable on its own. */
+async function buildTemplateItems(items: TemplateItemInput[]) {
+  const catalogIds = items.map(item => item.catalogItemId).filter((id): id is number => !!id);
+  const catalog = new Map((await storage.costCatalog.getItemsByIds(catalogIds)).map(item => [item.id, item]));
+
+  return items.map((item, index) => {
+    const catalogItem = item.catalogItemId ? catalog.get(item.catalogItemId) : undefined;
+    if (item.catalogItemId && !catalogItem) {
+      throw new HttpError(400, `Catalog item ${item.catalogItemId} does not exist.`);
+    }
+    return {
+      catalogItemId: catalogItem?.id ?? null,
+      category: item.category ?? catalogItem!.category,
+      description: item.description ?? catalogItem!.description,
+      quantity: item.quantity.toFixed(2),
+      unit: item.unit ?? catalogItem?.unit ?? 'each',
+      unitPrice: item.unitPrice != null ? item.unitPrice.toFixed(2) : null,
+      sortOrder: index,
+    };
+  });
+}
+
+export async function getQuoteTemplates(projectType: string | undefined, includeInactive: boolean): Promise<QuoteTemplateWithItems[]> {
+  return storage.quoteTemplates.getTemplates({ projectType, includeInactive });
+}
+
+async function requireTemplate(templateId: number): Promise<QuoteTemplateWithItems> {
+  const template = await storage.quoteTemplates.getTemplateById(templateId);
+  if (!template) {
+    throw new HttpError(404, 'Quote template not found.');
+  }
+  return template;
+}
+
+export async function createQuoteTemplate(actorId: number, input: QuoteTemplateInput): Promise<QuoteTemplateWithItems> {
+  const { items, ...template } = input;
+  return storage.quoteTemplates.createTemplate(
+    { ...template, paymentStages: template.paymentStages ?? null, createdById: actorId },
+    await buildTemplateItems(items)
+  );
+}
+
+export async function updateQuoteTemplate(templateId: number, input: QuoteTemplateUpdate): Promise<QuoteTemplateWithItems> {
+  await requireTemplate(templateId);
+  const { items, ...template } = input;
+  const updated = await storage.quoteTemplates.updateTemplate(
+    templateId,
+    template,
+    items ? await buildTemplateItems(items) : undefined
+  );
+  return updated!;
+}
+
+export async function deleteQuoteTemplate(templateId: number): Promise<void> {
+  const removed = await storage.quoteTemplates.deleteTemplate(templateId);
+  if (!removed) {
+    throw new HttpError(404, 'Quote template not found.');
+  }
+}
+
+/**
+ * Prices a template for a new quote. Catalog-linked items use the catalog's current cost plus
+ * markup unless the template fixes a price; retired catalog items are still included.
+ */
+export async function applyQuoteTemplate(templateId: number): Promise<AppliedQuoteTemplate> {
+  const template = await requireTemplate(templateId);
+
+  return {
+    templateId: template.id,
+    name: template.name,
+    projectType: template.projectType,
+    scopeDescription: template.scopeDescription,
+    paymentStages: (template.paymentStages as PaymentStageValues[] | null) ?? null,
+    lineItems: template.items.map(item => ({
+      catalogItemId: item.catalogItemId,
+      category: item.category,
+      description: item.description,
+      quantity: parseFloat(item.quantity),
+      unit: item.unit,
+      unitPrice: item.unitPrice != null
+        ? parseFloat(item.unitPrice)
+        : item.catalogItem
+          ? catalogSellPrice(item.catalogItem.defaultUnitPrice, item.catalogItem.markupPercentage)
+          : 0,
+      unitCost: item.catalogItem ? parseFloat(item.catalogItem.defaultUnitPrice) : null,
+    })),
+  };
+}
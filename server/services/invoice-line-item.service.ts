@@ -0,0 +1,74 @@
+// server/services/invoice-line-item.service.ts
+import { z } from 'zod';
+import type { InsertInvoiceLineItem } from '@shared/schema';
+
+export const invoiceLineItemInputSchema = z.object({
+    description: z.string().trim().min(1).max(1000),
+    quantity: z.coerce.number().positive().default(1),
+    unit: z.string().max(50).optional().default('each'),
+    unitPrice: z.coerce.number(), // Negative for credits
+    discountPercentage: z.coerce.number().min(0).max(100).optional().default(0),
+    discountAmount: z.coerce.number().min(0).optional().default(0),
+    taxable: z.boolean().optional().default(false),
+});
+
+export const invoiceLineItemsSchema = z.array(invoiceLineItemInputSchema)
+    .min(1, 'At least one line item is required.')
+    .max(200);
+
+export type InvoiceLineItemInput = z.input<typeof invoiceLineItemInputSchema>;
+export type InvoiceLineItemValues = Omit<InsertInvoiceLineItem, 'invoiceId'>;
+
+export interface InvoiceTotals {
+    subtotal: string;
+    discountAmount: string;
+    taxRate: string;
+    taxAmount: string;
+    total: string;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Prices invoice line items the same way quote line items are priced: a percentage discount
+ * takes precedence over a fixed discount amount.
+ */
+export function buildInvoiceLineItems(items: InvoiceLineItemInput[]): InvoiceLineItemValues[] {
+    return items.map((raw, index) => {
+        const item = invoiceLineItemInputSchema.parse(raw);
+        const gross = roundCents(item.quantity * item.unitPrice);
+        const discount = roundCents(item.discountPercentage > 0
+            ? (Math.abs(gross) * item.discountPercentage) / 100
+            : Math.min(item.discountAmount, Math.abs(gross)));
+        const total = gross >= 0 ? gross - discount : gross + discount;
+        return {
+            description: item.description,
+            quantity: item.quantity.toFixed(2),
+            unit: item.unit,
+            unitPrice: item.unitPrice.toFixed(2),
+            discountPercentage: item.discountPercentage.toFixed(2),
+            discountAmount: discount.toFixed(2),
+            taxable: item.taxable,
+            totalPrice: total.toFixed(2),
+            sortOrder: index,
+        };
+    });
+}
+
+/** Invoice totals from priced line items. Only taxable lines are taxed. */
+export function computeInvoiceTotals(lineItems: InvoiceLineItemValues[], taxRate: number): InvoiceTotals {
+    const subtotal = roundCents(lineItems.reduce((sum, item) => sum + parseFloat(item.totalPrice), 0));
+    const discountAmount = roundCents(lineItems.reduce((sum, item) => sum + parseFloat(item.discountAmount ?? '0'), 0));
+    const taxableAmount = lineItems
+        .filter(item => item.taxable)
+        .reduce((sum, item) => sum + parseFloat(item.totalPrice), 0);
+    const taxAmount = roundCents((Math.max(taxableAmount, 0) * taxRate) / 100);
+
+    return {
+        subtotal: subtotal.toFixed(2),
+        discountAmount: discountAmount.toFixed(2),
+        taxRate: taxRate.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        total: (subtotal + taxAmount).toFixed(2),
+    };
+}
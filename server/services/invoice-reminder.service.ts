@@ -0,0 +1,235 @@
+// server/services/invoice-reminder.service.ts
+import { storage } from '@server/storage/index';
+import type { Invoice, ProjectWithDetails } from '@shared/schema';
+import { log as logger } from '@server/vite';
+import { getBaseUrl } from '@server/domain.config';
+import { sendInvoiceReminderEmail } from '@server/email';
+import { recordAuditEvent } from './audit.service';
+import { isProjectArchived } from './project-archive.service';
+import { paymentService } from './payment.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+type ReminderStage = 'before_due' | 'due' | 'overdue';
+
+// Reminder sequence in days relative to the due date. Only the latest stage reached is sent,
+// so an invoice first picked up well past due gets one overdue notice rather than all three.
+const REMINDER_STAGES: { stage: ReminderStage; dayOffset: number; message: string }[] = [
+    { stage: 'before_due', dayOffset: -3, message: 'Payment reminder sent 3 days before the due date' },
+    { stage: 'due', dayOffset: 0, message: 'Payment reminder sent on the due date' },
+    { stage: 'overdue', dayOffset: 7, message: 'Overdue notice sent 7 days after the due date' },
+];
+const FIRST_REMINDER_LEAD_DAYS = -REMINDER_STAGES[0].dayOffset;
+
+export interface InvoiceReminderRunResult {
+    remindersSent: number;
+    markedOverdue: number;
+    lateFeesPosted: number;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Whole calendar days from the due date to `now`; negative before the due date
+function daysPastDue(dueDate: Date, now: Date): number {
+    return Math.round((startOfDay(now).getTime() - startOfDay(dueDate).getTime()) / DAY_MS);
+}
+
+function reminderStageFor(daysLate: number) {
+    return REMINDER_STAGES.filter(entry => daysLate >= entry.dayOffset).pop() ?? null;
+}
+
+// Bank debits still settling count as paid here, so customers aren't chased for money in flight
+async function getOutstandingBalance(invoice: Invoice): Promise<number> {
+    const { balanceDue, amountProcessing } = await paymentService.getInvoiceBalance(invoice.id);
+    return Math.round((balanceDue - amountProcessing) * 100) / 100;
+}
+
+// The invoice's billing contact, falling back to the project's customer
+function reminderRecipient(invoice: Invoice, project: ProjectWithDetails | null) {
+    if (invoice.customerEmail) {
+        return { email: invoice.customerEmail, name: invoice.customerName || 'there' };
+    }
+    if (project?.customerEmail) {
+        return { email: project.customerEmail, name: project.customerName || 'there' };
+    }
+    return null;
+}
+
+async function markInvoiceOverdue(invoice: Invoice, daysLate: number): Promise<Invoice> {
+    const updated = await storage.invoices.updateInvoice(invoice.id, { status: 'overdue' });
+    await storage.invoiceActivities.recordActivity({
+        invoiceId: invoice.id,
+        type: 'marked_overdue',
+        message: `Marked overdue ${daysLate} day(s) after the due date`,
+        metadata: { previousStatus: invoice.status, gracePeriodDays: invoice.gracePeriodDays ?? 0 },
+    });
+    await recordAuditEvent({
+        projectId: invoice.projectId,
+        actorId: null,
+        entityType: 'invoice',
+        entityId: invoice.id,
+        action: 'status_changed',
+        before: invoice,
+        after: updated,
+        metadata: { invoiceNumber: invoice.invoiceNumber, source: 'overdue_job' },
+    });
+    return updated ?? invoice;
+}
+
+async function postLateFee(invoice: Invoice, balance: number): Promise<boolean> {
+    const percentage = Number(invoice.lateFeePercentage) || 0;
+    const fee = Math.round(balance * percentage) / 100;
+    if (fee <= 0) return false;
+
+    // Claim the one-time late_fee key before billing, so an overlapping or retried run can't post a second fee
+    const claim = await storage.invoiceActivities.recordActivity({
+        invoiceId: invoice.id,
+        type: 'late_fee_applied',
+        eventKey: 'late_fee',
+        message: `Late fee of ${percentage}% on the unpaid balance`,
+        amount: fee.toFixed(2),
+        metadata: { balance: balance.toFixed(2), percentage },
+    });
+    if (!claim) return false;
+
+    let feeInvoice: Invoice;
+    try {
+        feeInvoice = await paymentService.createLateFeeInvoice(invoice, fee);
+    } catch (error) {
+        await storage.invoiceActivities.deleteActivity(claim.id);
+        throw error;
+    }
+    await storage.invoiceActivities.updateActivity(claim.id, {
+        message: `Late fee of ${percentage}% on the unpaid balance posted as invoice #${feeInvoice.invoiceNumber}`,
+        relatedInvoiceId: feeInvoice.id,
+    });
+    await recordAuditEvent({
+        projectId: invoice.projectId,
+        actorId: null,
+        entityType: 'invoice',
+        entityId: feeInvoice.id,
+        action: 'created',
+        after: feeInvoice,
+        metadata: { source: 'late_fee', overdueInvoiceId: invoice.id },
+    });
+    return true;
+}
+
+async function sendReminder(
+    invoice: Invoice,
+    project: ProjectWithDetails | null,
+    balance: number,
+    reminder: typeof REMINDER_STAGES[number]
+): Promise<boolean> {
+    const recipient = reminderRecipient(invoice, project);
+    if (!recipient) {
+        logger(`[processInvoiceReminders] Invoice ${invoice.invoiceNumber} has no customer email; skipping reminder`, 'InvoiceReminders');
+        return false;
+    }
+
+    const sent = await sendInvoiceReminderEmail({
+        recipientEmail: recipient.email,
+        recipientName: recipient.name,
+        invoiceNumber: invoice.invoiceNumber,
+        projectName: project?.name || invoice.description || 'your project',
+        amountDue: balance,
+        dueDate: invoice.dueDate,
+        paymentLink: invoice.paymentLink || `${getBaseUrl()}/invoices/${invoice.id}/view`,
+        stage: reminder.stage,
+        lateFeePercentage: Number(invoice.lateFeePercentage) || 0,
+    });
+    if (!sent) return false;
+
+    await storage.invoiceActivities.recordActivity({
+        invoiceId: invoice.id,
+        type: 'reminder_sent',
+        eventKey: `reminder:${reminder.stage}`,
+        message: reminder.message,
+        amount: balance.toFixed(2),
+        metadata: { recipient: recipient.email },
+    });
+    return true;
+}
+
+/**
+ * Works through issued, unpaid invoices: sends the reminder sequence, flags invoices overdue
+ * once their grace period has passed, and posts the invoice's late fee the first time it goes
+ * overdue. Each reminder stage and the late fee happen at most once per invoice.
+ * Archived projects are skipped.
+ */
+export async function processInvoiceReminders(now: Date = new Date()): Promise<InvoiceReminderRunResult> {
+    const result: InvoiceReminderRunResult = { remindersSent: 0, markedOverdue: 0, lateFeesPosted: 0 };
+    const invoices = await storage.invoices.getOpenInvoicesDueBy(new Date(now.getTime() + FIRST_REMINDER_LEAD_DAYS * DAY_MS));
+    if (invoices.length === 0) return result;
+
+    const eventKeys = await storage.invoiceActivities.getEventKeysForInvoices(invoices.map(invoice => invoice.id));
+    const projects = new Map<number, ProjectWithDetails | null>();
+
+    for (let invoice of invoices) {
+        try {
+            let project: ProjectWithDetails | null = null;
+            if (invoice.projectId) {
+                if (!projects.has(invoice.projectId)) {
+                    projects.set(invoice.projectId, (await storage.projects.getProjectById(invoice.projectId)) ?? null);
+                }
+                project = projects.get(invoice.projectId)!;
+                if (isProjectArchived(project)) continue;
+            }
+
+            const balance = await getOutstandingBalance(invoice);
+            if (balance <= 0) continue;
+
+            const keys = eventKeys.get(invoice.id) ?? new Set<string>();
+            const daysLate = daysPastDue(invoice.dueDate, now);
+
+            if (daysLate > (invoice.gracePeriodDays ?? 0)) {
+                if (invoice.status !== 'overdue') {
+                    invoice = await markInvoiceOverdue(invoice, daysLate);
+                    result.markedOverdue++;
+                }
+                if (invoice.invoiceType !== 'late_fee' && !keys.has('late_fee') && await postLateFee(invoice, balance)) {
+                    result.lateFeesPosted++;
+                }
+            }
+
+            const reminder = reminderStageFor(daysLate);
+            if (reminder && !keys.has(`reminder:${reminder.stage}`) && await sendReminder(invoice, project, balance, reminder)) {
+                result.remindersSent++;
+            }
+        } catch (error) {
+            logger(`[processInvoiceReminders] Invoice ${invoice.invoiceNumber} failed: ${error instanceof Error ? error.message : error}`, 'InvoiceReminders');
+        }
+    }
+
+    if (result.remindersSent > 0 || result.markedOverdue > 0 || result.lateFeesPosted > 0) {
+        logger(
+            `[processInvoiceReminders] Sent ${result.remindersSent} reminder(s), marked ${result.markedOverdue} invoice(s) overdue, posted ${result.lateFeesPosted} late fee(s)`,
+            'InvoiceReminders'
+        );
+    }
+    return result;
+}
+
+let reminderTimer: NodeJS.Timeout | null = null;
+let reminderRunInProgress = false;
+
+export function startInvoiceReminderScheduler(): void {
+    if (reminderTimer) return;
+
+    const run = async () => {
+        if (reminderRunInProgress) return;
+        reminderRunInProgress = true;
+        try {
+            await processInvoiceReminders();
+        } catch (error) {
+            logger(`[InvoiceReminders] Run failed: ${error instanceof Error ? error.message : error}`, 'InvoiceReminders');
+        } finally {
+            reminderRunInProgress = false;
+        }
+    };
+
+    reminderTimer = setInterval(run, REMINDER_INTERVAL_MS);
+    reminderTimer.unref();
+    setImmediate(() => { void run(); });
+}
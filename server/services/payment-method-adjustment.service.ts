@@ -0,0 +1,64 @@
+// server/services/payment-method-adjustment.service.ts
+import { z } from 'zod';
+import { STRIPE_PAYMENT_METHOD_TYPES, type StripePaymentMethodType } from '@shared/schema';
+import { log as logger } from '@server/vite';
+
+// Positive percentages are surcharges, negative ones discounts; maxAmount caps either
+const adjustmentRuleSchema = z.object({
+    percentage: z.number().min(-10).max(10),
+    maxAmount: z.number().positive().optional(),
+});
+
+const adjustmentRulesSchema = z.record(z.enum(STRIPE_PAYMENT_METHOD_TYPES), adjustmentRuleSchema);
+
+export type PaymentMethodAdjustmentRule = z.infer<typeof adjustmentRuleSchema>;
+
+export interface PaymentMethodAdjustment {
+    paymentMethodType: StripePaymentMethodType;
+    percentage: number;
+    adjustment: number; // Dollars added to (or taken off) the base amount
+    total: number;
+}
+
+let cachedRules: Partial<Record<StripePaymentMethodType, PaymentMethodAdjustmentRule>> | null = null;
+
+/**
+ * Rules come from PAYMENT_METHOD_ADJUSTMENTS, e.g. {"card":{"percentage":3},"us_bank_account":{"percentage":-1,"maxAmount":250}}.
+ * Methods without a rule are charged the base amount.
+ */
+export function getPaymentMethodAdjustmentRules(): Partial<Record<StripePaymentMethodType, PaymentMethodAdjustmentRule>> {
+    if (cachedRules) return cachedRules;
+
+    const raw = process.env.PAYMENT_METHOD_ADJUSTMENTS;
+    cachedRules = {};
+    if (raw) {
+        try {
+            const parsed = adjustmentRulesSchema.safeParse(JSON.parse(raw));
+            if (parsed.success) {
+                cachedRules = parsed.data;
+            } else {
+                logger(`[PaymentMethodAdjustments] Ignoring invalid PAYMENT_METHOD_ADJUSTMENTS: ${parsed.error.message}`, 'Payments');
+            }
+        } catch (error) {
+            logger(`[PaymentMethodAdjustments] PAYMENT_METHOD_ADJUSTMENTS is not valid JSON`, 'Payments');
+        }
+    }
+    return cachedRules;
+}
+
+export function calculatePaymentMethodAdjustment(baseAmount: number, paymentMethodType: StripePaymentMethodType): PaymentMethodAdjustment {
+    const rule = getPaymentMethodAdjustmentRules()[paymentMethodType];
+    const percentage = rule?.percentage ?? 0;
+
+    let adjustment = Math.round(baseAmount * percentage) / 100;
+    if (rule?.maxAmount !== undefined) {
+        adjustment = Math.sign(adjustment) * Math.min(Math.abs(adjustment), rule.maxAmount);
+    }
+
+    return {
+        paymentMethodType,
+        percentage,
+        adjustment,
+        total: Math.round((baseAmount + adjustment) * 100) / 100,
+    };
+}
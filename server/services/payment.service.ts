@@ -2,9 +2,23 @@ import { stripeService } from './stripe.service';
 import { storage } from '../storage';
 import { HttpError } from '../errors';
 import { sendEmail } from '../email';
-import { insertInvoiceSchema } from '@shared/schema';
-import type { Quote, Invoice, Project } from '@shared/schema';
+import { COLLECTED_PAYMENT_STATUSES, insertInvoiceSchema } from '@shared/schema';
+import type { Quote, QuoteWithDetails, Invoice, Project, Payment, Milestone, StripePaymentMethodType } from '@shared/schema';
+import { resolvePaymentStages, type PaymentStageValues } from '@shared/quote-payment-stages';
+import { nextWorkingDay, withTimeOf } from '@shared/work-calendar';
+import type Stripe from 'stripe';
 import { randomBytes } from 'crypto';
+import { recordAuditEvent } from './audit.service';
+import { isProjectArchived } from './project-archive.service';
+import { getProjectCalendarRules } from './work-calendar.service';
+import { summarizeRetainage, withRetainage } from './retainage.service';
+import { buildInvoiceLineItems, computeInvoiceTotals } from './invoice-line-item.service';
+import { calculatePaymentMethodAdjustment, type PaymentMethodAdjustment } from './payment-method-adjustment.service';
+import { getSentQuote } from './quote-revision.service';
+import { requireQuoteSignature, attachSignedQuoteToProject } from './quote-signature.service';
+import { lockQuoteOptions } from './quote-options.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface PaymentSchedule {
   downPayment: {
@@ -21,17 +35,25 @@ export interface PaymentSchedule {
     amount: number;
     percentage: number;
   };
+  // Full ordered schedule; the three totals above group it by deposit, progress and final/retainage
+  stages: (PaymentStageValues & { amount: number })[];
 }
 
 export class PaymentService {
   /**
    * Calculate payment schedule from quote
    */
-  calculatePaymentSchedule(quote: Quote): PaymentSchedule {
+  calculatePaymentSchedule(quote: QuoteWithDetails): PaymentSchedule {
     const total = parseFloat(quote.total?.toString() || '0');
-    const downPercent = Number(quote.downPaymentPercentage) || 30;
-    const milestonePercent = Number(quote.milestonePaymentPercentage) || 40;
-    const finalPercent = Number(quote.finalPaymentPercentage) || 30;
+    const stages = resolvePaymentStages(quote).map(stage => ({
+      ...stage,
+      amount: (total * stage.percentage) / 100,
+    }));
+    const percentOf = (...types: PaymentStageValues['stageType'][]) =>
+      stages.filter(stage => types.includes(stage.stageType)).reduce((sum, stage) => sum + stage.percentage, 0);
+    const downPercent = percentOf('deposit') || 30;
+    const milestonePercent = percentOf('progress');
+    const finalPercent = percentOf('final', 'retainage');
 
     return {
       downPayment: {
@@ -48,6 +70,7 @@ export class PaymentService {
         amount: (total * finalPercent) / 100,
         percentage: finalPercent,
       },
+      stages,
     };
   }
 
@@ -68,13 +91,19 @@ export class PaymentService {
       
       // Get quote details
       console.log(`[PaymentService] Fetching quote details for ID ${quoteId}...`);
-      const quote = await storage.quotes.getQuoteById(quoteId);
+      const quote = await getSentQuote(quoteId);
       if (!quote) {
         console.log(`[PaymentService] ERROR: Quote ${quoteId} not found`);
         throw new HttpError(404, 'Quote not found');
       }
       console.log(`[PaymentService] Quote found: ${quote.title} - $${quote.total}`);
 
+      // Only a signed quote becomes a project
+      const signature = await requireQuoteSignature(quoteId);
+
+      // The chosen options are final from here; the total below is the project budget
+      await lockQuoteOptions(quote);
+
       // Calculate payment schedule
       console.log(`[PaymentService] Calculating payment schedule...`);
       const paymentSchedule = this.calculatePaymentSchedule(quote);
@@ -85,6 +114,17 @@ export class PaymentService {
       const project = await this.createProjectFromQuote(quote, customerInfo);
       console.log(`[PaymentService] Project created with ID: ${project.id}`);
 
+      // File the signed proposal with the project; a storage hiccup must not block the deposit
+      try {
+        await attachSignedQuoteToProject(signature, project.id, quote.quoteNumber);
+      } catch (error) {
+        console.error(`[PaymentService] Failed to attach signed proposal to project ${project.id}:`, error);
+      }
+
+      // Turn the rest of the schedule into billable milestones
+      const billingMilestones = await this.createBillingMilestones(quote, project, paymentSchedule);
+      console.log(`[PaymentService] Created ${billingMilestones.length} billing milestones`);
+
       // Create down payment invoice
       console.log(`[PaymentService] Creating down payment invoice...`);
       const downPaymentInvoice = await this.createDownPaymentInvoice(
@@ -242,6 +282,51 @@ export class PaymentService {
     };
   }
 
+  /**
+   * Creates a billable milestone for every stage after the deposit, which is invoiced on acceptance.
+   * Progress draws are spread evenly between the estimated start and completion dates; final and
+   * retainage stages are planned for completion. Dates are moved onto the project's working days.
+   */
+  private async createBillingMilestones(
+    quote: Quote,
+    project: Project,
+    paymentSchedule: PaymentSchedule
+  ): Promise<Milestone[]> {
+    const stages = paymentSchedule.stages.filter(stage => stage.stageType !== 'deposit');
+    if (stages.length === 0) {
+      return [];
+    }
+
+    const start = quote.estimatedStartDate ? new Date(quote.estimatedStartDate) : new Date();
+    const completion = quote.estimatedCompletionDate
+      ? new Date(quote.estimatedCompletionDate)
+      : new Date(start.getTime() + 30 * DAY_MS);
+    const span = Math.max(completion.getTime() - start.getTime(), 0);
+    const progressCount = stages.filter(stage => stage.stageType === 'progress').length;
+    const rules = await getProjectCalendarRules(project.id);
+
+    const milestones: Milestone[] = [];
+    let progressIndex = 0;
+    for (const [index, stage] of stages.entries()) {
+      const plannedDate = stage.stageType === 'progress'
+        ? new Date(start.getTime() + (span * ++progressIndex) / (progressCount + 1))
+        : completion;
+
+      milestones.push(await storage.milestones.createMilestone({
+        projectId: project.id,
+        title: stage.label,
+        description: stage.description || `${stage.percentage}% of the contract from Quote #${quote.quoteNumber}`,
+        plannedDate: withTimeOf(nextWorkingDay(rules, plannedDate), plannedDate),
+        status: 'pending',
+        isBillable: true,
+        billingPercentage: stage.percentage,
+        orderIndex: index,
+        category: 'billing',
+      }));
+    }
+    return milestones;
+  }
+
   /**
    * Create down payment invoice
    */
@@ -282,6 +367,9 @@ export class PaymentService {
     if (!project) {
       throw new HttpError(404, 'Project not found for billing.');
     }
+    if (isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
 
     const milestone = await storage.milestones.getMilestoneById(milestoneId);
     if (!milestone || !milestone.isBillable || !milestone.billingPercentage) {
@@ -297,7 +385,7 @@ export class PaymentService {
     // Try to get total amount from quote first, then fall back to project budget
     let totalAmount = 0;
     if (project.originQuoteId) {
-      const quote = await storage.quotes.getQuoteById(project.originQuoteId);
+      const quote = await getSentQuote(project.originQuoteId);
       if (quote) {
         totalAmount = parseFloat(quote.total?.toString() || '0');
       }
@@ -317,15 +405,32 @@ export class PaymentService {
     const unroundedAmount = (totalAmount * parseFloat(milestone.billingPercentage)) / 100;
     const milestoneAmount = parseFloat(unroundedAmount.toFixed(2));
     const invoiceNumber = await this.generateInvoiceNumber();
-    
-  
+
+    // Itemize the billed share of the contract, then list the completed work it covers at no charge
+    const completedTasks = (await storage.tasks.getTasksForProject(projectId))
+      .filter(task => task.milestoneId === milestone.id && (task.status === 'done' || task.status === 'completed'));
+    const lineItems = buildInvoiceLineItems([
+      {
+        description: `${milestone.title}: ${parseFloat(milestone.billingPercentage)}% of $${totalAmount.toFixed(2)} contract total`,
+        quantity: 1,
+        unitPrice: milestoneAmount,
+      },
+      ...completedTasks.map(task => ({
+        description: `Completed: ${task.title}`,
+        quantity: 1,
+        unit: 'task',
+        unitPrice: 0,
+      })),
+    ]);
+    const { total, ...itemizedTotals } = computeInvoiceTotals(lineItems, 0);
 
     const invoiceData = {
       projectId: project.id,
       quoteId: project.originQuoteId || null, // Pass it if it exists
       milestoneId: milestone.id, // Link the invoice to the milestone
       invoiceNumber,
-      amount: milestoneAmount.toString(),
+      ...itemizedTotals,
+      ...withRetainage(project, parseFloat(total)),
       description: `Payment for completed milestone: ${milestone.title}`,
       issueDate: new Date(),
       dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // Due 14 days from now
@@ -335,7 +440,7 @@ export class PaymentService {
       customerEmail: project.customerEmail || '',
     };
 
-    const invoice = await storage.invoices.createInvoice(invoiceData);
+    const invoice = await storage.invoices.createInvoice(invoiceData, lineItems);
     if (!invoice) {
       throw new Error('Failed to create draft milestone invoice in database.');
     }
@@ -349,6 +454,126 @@ export class PaymentService {
     return invoice;
   }
 
+  /**
+   * Creates a draft change-order invoice for work added to the contract after signing
+   * (e.g. a selection priced above its allowance).
+   */
+  async createChangeOrderInvoice(projectId: number, amount: number, description: string): Promise<Invoice> {
+    const project = await storage.projects.getProjectById(projectId);
+    if (!project) {
+      throw new HttpError(404, 'Project not found for billing.');
+    }
+    if (isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
+
+    const roundedAmount = parseFloat(amount.toFixed(2));
+    if (roundedAmount <= 0) {
+      throw new HttpError(400, 'Change order amount must be greater than zero.');
+    }
+
+    const invoiceNumber = await this.generateInvoiceNumber();
+    const invoice = await storage.invoices.createInvoice({
+      projectId: project.id,
+      quoteId: project.originQuoteId || null,
+      invoiceNumber,
+      amount: roundedAmount.toString(),
+      description,
+      issueDate: new Date(),
+      dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // Due 14 days from now
+      invoiceType: 'change_order' as const,
+      customerName: project.customerName || '',
+      customerEmail: project.customerEmail || '',
+    });
+    if (!invoice) {
+      throw new Error('Failed to create change order invoice in database.');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Creates a draft invoice that bills back retainage held on earlier progress invoices.
+   * Only completed projects can release retainage; the default is the full held balance.
+   */
+  async createRetainageReleaseInvoice(projectId: number, amount?: number): Promise<Invoice> {
+    const project = await storage.projects.getProjectById(projectId);
+    if (!project) {
+      throw new HttpError(404, 'Project not found for billing.');
+    }
+    if (isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
+    if (project.status !== 'completed') {
+      throw new HttpError(409, 'Retainage can only be released once the project is completed.');
+    }
+
+    const summary = summarizeRetainage(project, await storage.invoices.getInvoicesForProject(projectId));
+    if (summary.balance <= 0) {
+      throw new HttpError(409, 'There is no retainage left to release on this project.');
+    }
+
+    const releaseAmount = amount ?? summary.balance;
+    if (releaseAmount > summary.balance) {
+      throw new HttpError(400, `Only $${summary.balance.toFixed(2)} of retainage is held on this project.`);
+    }
+
+    const invoiceNumber = await this.generateInvoiceNumber();
+    const invoice = await storage.invoices.createInvoice({
+      projectId: project.id,
+      quoteId: project.originQuoteId || null,
+      invoiceNumber,
+      amount: releaseAmount.toFixed(2),
+      description: releaseAmount < summary.balance
+        ? `Partial retainage release for ${project.name}`
+        : `Retainage release for ${project.name}`,
+      issueDate: new Date(),
+      dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // Due 14 days from now
+      invoiceType: 'retainage_release' as const,
+      customerName: project.customerName || '',
+      customerEmail: project.customerEmail || '',
+    });
+    if (!invoice) {
+      throw new Error('Failed to create retainage release invoice.');
+    }
+    return invoice;
+  }
+
+  /**
+   * Posts a late fee for an overdue invoice as a separate invoice and sends it to the customer.
+   * If the payment link cannot be created the fee is left as a draft for manual sending.
+   */
+  async createLateFeeInvoice(overdueInvoice: Invoice, feeAmount: number): Promise<Invoice> {
+    const roundedAmount = parseFloat(feeAmount.toFixed(2));
+    if (roundedAmount <= 0) {
+      throw new HttpError(400, 'Late fee amount must be greater than zero.');
+    }
+
+    const invoiceNumber = await this.generateInvoiceNumber();
+    const invoice = await storage.invoices.createInvoice({
+      projectId: overdueInvoice.projectId,
+      quoteId: overdueInvoice.quoteId,
+      invoiceNumber,
+      amount: roundedAmount.toString(),
+      description: `Late fee on invoice #${overdueInvoice.invoiceNumber}`,
+      issueDate: new Date(),
+      dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // Due 14 days from now
+      invoiceType: 'late_fee' as const,
+      customerName: overdueInvoice.customerName || '',
+      customerEmail: overdueInvoice.customerEmail || '',
+    });
+    if (!invoice) {
+      throw new Error('Failed to create late fee invoice.');
+    }
+
+    try {
+      return (await this.sendDraftInvoice(invoice.id)) ?? invoice;
+    } catch (error) {
+      console.error(`[PaymentService] Late fee invoice ${invoiceNumber} created but not sent:`, error);
+      return invoice;
+    }
+  }
+
   /**
    * Finalizes a draft invoice, generates a payment link, and sends it.
    */
@@ -421,20 +646,25 @@ export class PaymentService {
     if (!project || !project.originQuoteId) {
       throw new HttpError(404, 'Project or originating quote not found');
     }
+    if (isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
 
-    const quote = await storage.quotes.getQuoteById(project.originQuoteId);
+    const quote = await getSentQuote(project.originQuoteId);
     if (!quote) {
       throw new HttpError(404, 'Originating quote not found');
     }
 
     const paymentSchedule = this.calculatePaymentSchedule(quote);
     const invoiceNumber = await this.generateInvoiceNumber();
+    const amounts = withRetainage(project, paymentSchedule.milestonePayment.amount);
+    const amountDue = parseFloat(amounts.amount);
 
     const invoiceData = {
       projectId: project.id,
       quoteId: quote.id,
       invoiceNumber,
-      amount: paymentSchedule.milestonePayment.amount.toString(),
+      ...amounts,
       description: milestoneDescription || paymentSchedule.milestonePayment.description,
       issueDate: new Date(),
       dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days from now
@@ -450,7 +680,7 @@ export class PaymentService {
 
     // Create payment intent for milestone payment
     const paymentIntent = await stripeService.createPaymentIntent({
-      amount: Math.round(paymentSchedule.milestonePayment.amount * 100),
+      amount: Math.round(amountDue * 100),
       customerEmail: project.customerEmail || undefined,
       customerName: project.customerName || undefined,
       description: `Milestone payment for ${project.name}`,
@@ -472,7 +702,7 @@ export class PaymentService {
       await this.sendPaymentInstructions(project.customerEmail, {
         customerName: project.customerName || 'Customer',
         projectName: project.name,
-        amount: paymentSchedule.milestonePayment.amount,
+        amount: amountDue,
         paymentLink: `${process.env.BASE_URL || 'http://localhost:5000'}/payment/${paymentIntent.client_secret}`,
         dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
         paymentType: 'milestone',
@@ -490,27 +720,32 @@ export class PaymentService {
     if (!project || !project.originQuoteId) {
       throw new HttpError(404, 'Project or originating quote not found');
     }
+    if (isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
 
     const milestone = await storage.milestones.getMilestoneById(milestoneId);
     if (!milestone || !milestone.isBillable || !milestone.billingPercentage) {
       throw new HttpError(400, 'Invalid billable milestone');
     }
 
-    const quote = await storage.quotes.getQuoteById(project.originQuoteId);
+    const quote = await getSentQuote(project.originQuoteId);
     if (!quote) {
       throw new HttpError(404, 'Originating quote not found');
     }
 
     // Calculate milestone amount based on percentage
     const totalAmount = parseFloat(quote.total?.toString() || '0');
-    const milestoneAmount = (totalAmount * parseFloat(milestone.billingPercentage)) / 100;
+    const amounts = withRetainage(project, (totalAmount * parseFloat(milestone.billingPercentage)) / 100);
+    const milestoneAmount = parseFloat(amounts.amount);
     const invoiceNumber = await this.generateInvoiceNumber();
 
     const invoiceData = {
       projectId: project.id,
       quoteId: quote.id,
+      milestoneId: milestone.id,
       invoiceNumber,
-      amount: milestoneAmount.toString(),
+      ...amounts,
       description: `Milestone Payment: ${milestoneTitle}`,
       issueDate: new Date(),
       dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days from now
@@ -567,8 +802,11 @@ export class PaymentService {
     if (!project || !project.originQuoteId) {
       throw new HttpError(404, 'Project or originating quote not found');
     }
+    if (isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
 
-    const quote = await storage.quotes.getQuoteById(project.originQuoteId);
+    const quote = await getSentQuote(project.originQuoteId);
     if (!quote) {
       throw new HttpError(404, 'Originating quote not found');
     }
@@ -722,43 +960,95 @@ export class PaymentService {
       const shouldProcess = paymentIntent.status === 'succeeded' || 
                            (process.env.NODE_ENV !== 'production' && paymentIntent.status === 'requires_payment_method');
       
-      if (shouldProcess && invoice.status !== 'paid') {
-        console.log(`[PaymentService] Updating invoice ${invoiceId} to paid status`);
-        
-        // Update invoice status to paid
-        await storage.invoices.updateInvoice(invoiceId, { status: 'paid' as const });
-
-        // Record the payment
-        const paymentAmount = paymentIntent.amount / 100; // Convert from cents
+      if (shouldProcess) {
+        // Record the payment before touching the invoice. The settled payment intent index makes the
+        // insert the claim, so a concurrent webhook retry or client confirmation stops here.
+        // Invoices can be paid in parts, so each settled intent is recorded even if earlier ones covered it.
+        const paymentAmount = this.intentBaseAmount(paymentIntent); // Method surcharges/discounts aren't credited
         const paymentData = {
           invoiceId: invoiceId,
           amount: paymentAmount.toFixed(2),
           paymentDate: new Date(),
-          paymentMethod: 'stripe',
+          paymentMethod: await this.stripePaymentMethodLabel(paymentIntent),
           reference: paymentIntent.id,
           stripePaymentIntentId: paymentIntent.id,
           stripeChargeId: paymentIntent.latest_charge as string || 'test_charge',
           status: paymentIntent.status === 'succeeded' ? 'succeeded' : 'test_completed',
+          methodAdjustment: this.intentMethodAdjustment(paymentIntent).toFixed(2),
         };
-        await storage.invoices.recordPayment(paymentData);
+        let recordedPayment;
+        try {
+          // A bank debit was recorded as processing when it was submitted; settling moves that row on
+          const openPayment = (await storage.payments.getPaymentsByPaymentIntentId(paymentIntent.id))
+            .find(payment => payment.status === 'processing' || payment.status === 'pending');
+          if (openPayment) {
+            recordedPayment = await storage.payments.transitionPaymentStatus(openPayment.id, ['processing', 'pending'], paymentData);
+            if (!recordedPayment) {
+              console.log(`[PaymentService] Payment intent ${paymentIntentId} already settled. Finishing follow-up only.`);
+              await this.finishRecordedPaymentSuccess(paymentIntent.id, invoiceId);
+              return;
+            }
+          } else {
+            recordedPayment = await storage.invoices.recordPayment(paymentData);
+          }
+        } catch (error) {
+          if (error instanceof HttpError && error.statusCode === 409) {
+            console.log(`[PaymentService] Payment intent ${paymentIntentId} already recorded. Finishing follow-up only.`);
+            await this.finishRecordedPaymentSuccess(paymentIntent.id, invoiceId);
+            return;
+          }
+          throw error;
+        }
         
         console.log(`[PaymentService] Payment recorded for invoice ${invoiceId}, amount: $${paymentAmount}`);
+
+        // Another part or the full-amount link may have settled first; whatever this one overpaid goes back
+        if (recordedPayment) {
+          await this.refundOverpayment(recordedPayment);
+        }
+
+        const { payments, ...before } = invoice;
+        const balance = await this.getInvoiceBalance(invoiceId);
+        const status = balance.balanceDue <= 0.005 ? 'paid' as const : 'partially_paid' as const;
+        console.log(`[PaymentService] Updating invoice ${invoiceId} to ${status} status, balance due: $${balance.balanceDue.toFixed(2)}`);
+        const updatedInvoice = status !== invoice.status
+          ? await storage.invoices.updateInvoice(invoiceId, { status })
+          : before;
+
+        // Stripe-driven changes have no user actor
+        if (recordedPayment) {
+          await recordAuditEvent({
+            projectId: invoice.projectId,
+            actorId: null,
+            entityType: 'payment',
+            entityId: recordedPayment.id,
+            action: 'created',
+            after: recordedPayment,
+            metadata: { invoiceId, invoiceNumber: invoice.invoiceNumber, source: 'stripe', paymentIntentId },
+          });
+        }
+        await recordAuditEvent({
+          projectId: invoice.projectId,
+          actorId: null,
+          entityType: 'invoice',
+          entityId: invoiceId,
+          action: status,
+          before,
+          after: updatedInvoice,
+          metadata: { invoiceNumber: invoice.invoiceNumber, source: 'stripe', balanceDue: balance.balanceDue.toFixed(2) },
+        });
         
         // Send appropriate confirmation email
-        if (metadata.paymentType === 'down_payment' && invoice.projectId) {
-          // Send payment confirmation first, then portal access separately to prevent confusion
-          await this.sendPaymentConfirmationEmail(invoice, paymentAmount);
-          console.log(`[PaymentService] Down payment confirmation email sent for invoice ${invoice.invoiceNumber}`);
-          
+        await this.sendPaymentConfirmationEmail(invoice, paymentAmount, balance.balanceDue);
+        console.log(`[PaymentService] Payment confirmation email sent for invoice ${invoice.invoiceNumber}`);
+
+        // Portal access goes out with the first settled part of the down payment only
+        const settledCount = payments.filter(payment => payment.status === 'succeeded' || payment.status === 'test_completed').length;
+        if (metadata.paymentType === 'down_payment' && invoice.projectId && settledCount === 0) {
           // Send single portal access email to the customer email from invoice
           await this.sendSinglePortalAccessEmail(invoice.projectId, invoice.customerEmail!, invoice.customerName!);
           console.log(`[PaymentService] Portal access email sent for project ${invoice.projectId}`);
-        } else {
-          await this.sendPaymentConfirmationEmail(invoice, paymentAmount);
-          console.log(`[PaymentService] Payment confirmation email sent for invoice ${invoice.invoiceNumber}`);
         }
-      } else if (invoice.status === 'paid') {
-        console.log(`[PaymentService] Invoice ${invoiceId} already marked as paid. Skipping.`);
       } else {
         console.log(`[PaymentService] Payment intent ${paymentIntentId} status '${paymentIntent.status}' does not warrant processing`);
       }
@@ -768,6 +1058,699 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Recording the payment is the claim on a success event, so a retry after a later step failed
+   * finds it already recorded. The overpayment refund and invoice status are safe to repeat and
+   * are brought up to date here; the confirmation emails went out with the first attempt or not at all.
+   */
+  private async finishRecordedPaymentSuccess(paymentIntentId: string, invoiceId: number): Promise<void> {
+    const settled = (await storage.payments.getPaymentsByPaymentIntentId(paymentIntentId))
+      .find(payment => payment.status === 'succeeded' || payment.status === 'test_completed');
+    if (settled) {
+      await this.refundOverpayment(settled);
+    }
+    await this.syncInvoiceStatusWithPayments(invoiceId, null, 'stripe_payment');
+  }
+
+  /**
+   * Handle payment_intent.processing: bank (ACH) debits take several business days to settle, so the
+   * payment is recorded as processing and only credited to the invoice once it succeeds.
+   */
+  async handlePaymentProcessing(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    try {
+      const invoice = await this.findInvoiceForPaymentIntent(paymentIntent);
+      if (!invoice) {
+        console.error(`[PaymentService] No invoice found for processing payment intent ${paymentIntent.id}`);
+        return;
+      }
+
+      const existingPayments = await storage.payments.getPaymentsByPaymentIntentId(paymentIntent.id);
+      if (existingPayments.some(payment => ['processing', 'succeeded', 'test_completed'].includes(payment.status))) {
+        console.log(`[PaymentService] Payment intent ${paymentIntent.id} already recorded. Skipping.`);
+        return;
+      }
+
+      let processingPayment: Payment | null;
+      try {
+        processingPayment = await storage.payments.createPayment({
+          invoiceId: invoice.id,
+          amount: this.intentBaseAmount(paymentIntent).toFixed(2),
+          paymentDate: new Date(),
+          paymentMethod: await this.stripePaymentMethodLabel(paymentIntent),
+          reference: paymentIntent.id,
+          stripePaymentIntentId: paymentIntent.id,
+          stripeChargeId: typeof paymentIntent.latest_charge === 'string' ? paymentIntent.latest_charge : null,
+          status: 'processing',
+          methodAdjustment: this.intentMethodAdjustment(paymentIntent).toFixed(2),
+        });
+      } catch (error) {
+        // The open processing index rejects a concurrent duplicate; anything else is a real failure
+        const recorded = await storage.payments.getPaymentsByPaymentIntentId(paymentIntent.id);
+        if (recorded.some(payment => payment.status === 'processing')) {
+          console.log(`[PaymentService] Processing payment for ${paymentIntent.id} already recorded. Skipping.`);
+          return;
+        }
+        throw error;
+      }
+
+      if (processingPayment) {
+        await recordAuditEvent({
+          projectId: invoice.projectId,
+          actorId: null,
+          entityType: 'payment',
+          entityId: processingPayment.id,
+          action: 'created',
+          after: processingPayment,
+          metadata: { invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, source: 'stripe', paymentIntentId: paymentIntent.id },
+        });
+      }
+    } catch (error) {
+      console.error('[PaymentService] Error handling payment processing webhook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reprice an open payment intent for the payment method the customer picked, applying that
+   * method's surcharge or discount to the amount being credited to the invoice.
+   */
+  async applyPaymentMethodAdjustment(clientSecret: string, paymentMethodType: StripePaymentMethodType): Promise<PaymentMethodAdjustment & { baseAmount: number }> {
+    const paymentIntentId = clientSecret.split('_secret_')[0];
+    const paymentIntent = await stripeService.getPaymentIntent(paymentIntentId);
+    if (paymentIntent.client_secret !== clientSecret) {
+      throw new HttpError(404, 'Payment not found.');
+    }
+    if (paymentIntent.status !== 'requires_payment_method' && paymentIntent.status !== 'requires_confirmation') {
+      throw new HttpError(409, 'This payment can no longer be changed.');
+    }
+
+    const baseAmount = this.intentBaseAmount(paymentIntent);
+    const adjustment = calculatePaymentMethodAdjustment(baseAmount, paymentMethodType);
+    const restricted = paymentIntent.payment_method_types.length === 1 && paymentIntent.payment_method_types[0] === paymentMethodType;
+    if (Math.round(adjustment.total * 100) !== paymentIntent.amount || paymentIntent.metadata?.paymentMethodType !== paymentMethodType || !restricted) {
+      // The price only holds for this method, so it's the only one the intent will accept
+      await stripeService.updatePaymentIntent(paymentIntent.id, {
+        amount: Math.round(adjustment.total * 100),
+        paymentMethodTypes: [paymentMethodType],
+        metadata: {
+          ...paymentIntent.metadata,
+          baseAmount: baseAmount.toFixed(2),
+          paymentMethodType,
+          methodAdjustment: adjustment.adjustment.toFixed(2),
+        },
+      });
+    }
+
+    return { ...adjustment, baseAmount };
+  }
+
+  /**
+   * What is left to pay on an invoice after net payments (refunds and disputes are negative).
+   * Processing bank debits are reported separately and not yet credited.
+   */
+  async getInvoiceBalance(invoiceId: number): Promise<{ amount: number; amountPaid: number; amountProcessing: number; balanceDue: number }> {
+    const invoice = await storage.invoices.getInvoiceById(invoiceId);
+    if (!invoice) {
+      throw new HttpError(404, 'Invoice not found.');
+    }
+    const amount = Number(invoice.amount);
+    const amountPaid = Math.round(this.netPaid(invoice.payments) * 100) / 100;
+    // Bank debits that haven't settled yet; still part of the balance due
+    const amountProcessing = Math.round(invoice.payments
+      .filter(payment => payment.status === 'processing')
+      .reduce((sum, payment) => sum + Number(payment.amount), 0) * 100) / 100;
+    return { amount, amountPaid, amountProcessing, balanceDue: Math.max(Math.round((amount - amountPaid) * 100) / 100, 0) };
+  }
+
+  /**
+   * Start a payment for part of an invoice's balance from its public payment link. Each part gets
+   * its own payment intent, so every attempt is recorded as a separate payment.
+   * @param clientSecret - Client secret of any payment intent already issued for the invoice.
+   * @param amount - Dollars to pay now; at most the remaining balance.
+   */
+  async createPartialPaymentIntent(clientSecret: string, amount: number): Promise<{ clientSecret: string; amount: number; balanceDue: number }> {
+    const paymentIntentId = clientSecret.split('_secret_')[0];
+    const original = await stripeService.getPaymentIntent(paymentIntentId);
+    if (original.client_secret !== clientSecret) {
+      throw new HttpError(404, 'Payment not found.');
+    }
+
+    const invoice = await this.findInvoiceForPaymentIntent(original);
+    if (!invoice) {
+      throw new HttpError(404, 'Associated invoice not found');
+    }
+    if (invoice.status !== 'pending' && invoice.status !== 'partially_paid' && invoice.status !== 'overdue') {
+      throw new HttpError(409, `Invoice ${invoice.invoiceNumber} is not open for payment.`);
+    }
+    const project = invoice.projectId ? await storage.projects.getProjectById(invoice.projectId) : null;
+    if (project && isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
+
+    // Only one part is open at a time: a part started earlier (another tab, or abandoned) is cancelled
+    // so both can't be paid. One that can no longer be cancelled is already being paid.
+    let amountInFlight = 0;
+    const openParts = await stripeService.searchPaymentIntentsByMetadata({ invoiceId: invoice.id.toString(), partialPayment: 'true' });
+    for (const openPart of openParts) {
+      if (!['requires_payment_method', 'requires_confirmation', 'requires_action'].includes(openPart.status)) continue;
+      try {
+        await stripeService.cancelPaymentIntent(openPart.id);
+      } catch (error) {
+        amountInFlight += this.intentBaseAmount(openPart);
+      }
+    }
+
+    const balance = await this.getInvoiceBalance(invoice.id);
+    // Bank payments still settling can't be paid a second time
+    const balanceDue = Math.max(Math.round((balance.balanceDue - balance.amountProcessing - amountInFlight) * 100) / 100, 0);
+    if (amount < 0.5 || amount > balanceDue) {
+      throw new HttpError(400, `Payment amount must be between $0.50 and $${balanceDue.toFixed(2)}.`);
+    }
+
+    const paymentIntent = await stripeService.createPaymentIntent({
+      amount: Math.round(amount * 100),
+      description: `Partial payment for invoice ${invoice.invoiceNumber}`,
+      customerEmail: invoice.customerEmail || undefined,
+      customerName: invoice.customerName || undefined,
+      metadata: {
+        invoiceId: invoice.id.toString(),
+        projectId: invoice.projectId?.toString() || '',
+        paymentType: original.metadata?.paymentType || invoice.invoiceType,
+        partialPayment: 'true',
+      },
+    });
+
+    return { clientSecret: paymentIntent.client_secret!, amount, balanceDue };
+  }
+
+  /**
+   * Record a payment received outside Stripe (check, Zelle, cash or bank transfer) and move the
+   * invoice to partially paid or paid.
+   * @param actorId - The admin recording the payment; kept as recordedById.
+   */
+  async recordManualPayment(invoiceId: number, actorId: number, details: {
+    amount: number;
+    paymentMethod: string;
+    reference?: string | null;
+    paymentDate?: Date;
+  }): Promise<Payment> {
+    const invoice = await storage.invoices.getInvoiceById(invoiceId);
+    if (!invoice) {
+      throw new HttpError(404, 'Invoice not found.');
+    }
+    if (invoice.status === 'draft' || invoice.status === 'cancelled') {
+      throw new HttpError(409, 'Payments can only be recorded on issued invoices.');
+    }
+    const project = invoice.projectId ? await storage.projects.getProjectById(invoice.projectId) : null;
+    if (project && isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
+
+    const { balanceDue } = await this.getInvoiceBalance(invoiceId);
+    if (details.amount <= 0 || details.amount > balanceDue) {
+      throw new HttpError(400, `Payment amount must be between $0.01 and $${balanceDue.toFixed(2)}.`);
+    }
+
+    const payment = await storage.invoices.recordPayment({
+      invoiceId,
+      amount: details.amount.toFixed(2),
+      paymentDate: details.paymentDate ?? new Date(),
+      paymentMethod: details.paymentMethod,
+      reference: details.reference || null,
+      status: 'succeeded',
+      recordedById: actorId,
+    });
+    if (!payment) {
+      throw new HttpError(500, 'Payment could not be recorded.');
+    }
+
+    await recordAuditEvent({
+      projectId: invoice.projectId,
+      actorId,
+      entityType: 'payment',
+      entityId: payment.id,
+      action: 'created',
+      after: payment,
+      metadata: { invoiceId, invoiceNumber: invoice.invoiceNumber, source: 'manual' },
+    });
+    await this.syncInvoiceStatusWithPayments(invoiceId, actorId, 'manual_payment');
+    return payment;
+  }
+
+  /**
+   * Handle a failed payment attempt: mark the payment as failed with Stripe's reason and
+   * email the customer a link to retry. The payment intent stays open, so the same link works.
+   */
+  async handlePaymentFailure(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    try {
+      const failureReason = paymentIntent.last_payment_error?.message
+        || paymentIntent.last_payment_error?.decline_code
+        || 'The payment could not be completed.';
+      console.log(`[PaymentService] Processing payment failure for ${paymentIntent.id}: ${failureReason}`);
+
+      const invoice = await this.findInvoiceForPaymentIntent(paymentIntent);
+      if (!invoice) {
+        console.error(`[PaymentService] No invoice found for failed payment intent ${paymentIntent.id}`);
+        return;
+      }
+
+      const existingPayments = await storage.payments.getPaymentsByPaymentIntentId(paymentIntent.id);
+      const openPayment = existingPayments.find(payment => payment.status === 'pending' || payment.status === 'processing');
+      if (existingPayments.some(payment => payment.status === 'succeeded')) {
+        console.log(`[PaymentService] Payment intent ${paymentIntent.id} already succeeded. Ignoring failure.`);
+        return;
+      }
+
+      let failedPayment: Payment | null;
+      if (openPayment) {
+        failedPayment = await storage.payments.updatePayment(openPayment.id, { status: 'failed', failureReason });
+      } else {
+        failedPayment = await storage.payments.createPayment({
+          invoiceId: invoice.id,
+          amount: this.intentBaseAmount(paymentIntent).toFixed(2),
+          paymentDate: new Date(),
+          paymentMethod: await this.stripePaymentMethodLabel(paymentIntent),
+          reference: paymentIntent.id,
+          stripePaymentIntentId: paymentIntent.id,
+          stripeChargeId: typeof paymentIntent.latest_charge === 'string' ? paymentIntent.latest_charge : null,
+          status: 'failed',
+          failureReason,
+        });
+      }
+
+      if (failedPayment) {
+        await recordAuditEvent({
+          projectId: invoice.projectId,
+          actorId: null,
+          entityType: 'payment',
+          entityId: failedPayment.id,
+          action: 'failed',
+          after: failedPayment,
+          metadata: { invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, source: 'stripe', paymentIntentId: paymentIntent.id },
+        });
+      }
+
+      const retryLink = invoice.paymentLink
+        || (paymentIntent.client_secret ? `${process.env.BASE_URL || 'http://localhost:5000'}/payment/${paymentIntent.client_secret}` : null);
+      if (retryLink) {
+        await this.sendPaymentFailedEmail(invoice, this.intentBaseAmount(paymentIntent), failureReason, retryLink);
+      }
+    } catch (error) {
+      console.error('[PaymentService] Error handling payment failure webhook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle charge.refunded: records every Stripe refund on the charge that is not on file yet
+   * as a negative payment, then moves the invoice back to partially paid or pending.
+   * Refunds issued from the admin UI are already recorded and are skipped.
+   */
+  async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    try {
+      const original = await this.findOriginalPayment(charge.id);
+      if (!original) {
+        console.error(`[PaymentService] No payment on file for refunded charge ${charge.id}`);
+        return;
+      }
+
+      const refunds = await stripeService.listRefunds(charge.id);
+      for (const refund of refunds) {
+        if (refund.status === 'failed' || refund.status === 'canceled') continue;
+        await this.recordRefund(original, refund, null);
+      }
+
+      await this.syncInvoiceStatusWithPayments(original.invoiceId, null, 'stripe_refund');
+    } catch (error) {
+      console.error('[PaymentService] Error handling charge refunded webhook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refund part or all of a Stripe payment from the admin UI.
+   * @param paymentId - The original (positive) payment to refund.
+   * @param actorId - The admin issuing the refund.
+   * @param amount - Dollars to refund; defaults to the remaining refundable balance.
+   * @param reason - Optional note kept in the Stripe refund metadata and the audit log.
+   */
+  async refundPayment(paymentId: number, actorId: number, amount?: number, reason?: string): Promise<Payment> {
+    const payment = await storage.payments.getPaymentById(paymentId);
+    if (!payment) {
+      throw new HttpError(404, 'Payment not found.');
+    }
+    if (!payment.stripeChargeId || Number(payment.amount) <= 0 || (payment.status !== 'succeeded' && payment.status !== 'test_completed')) {
+      throw new HttpError(400, 'Only completed Stripe payments can be refunded.');
+    }
+
+    const invoice = await storage.invoices.getInvoiceById(payment.invoiceId);
+    const project = invoice?.projectId ? await storage.projects.getProjectById(invoice.projectId) : null;
+    if (project && isProjectArchived(project)) {
+      throw new HttpError(409, 'Billing is disabled for archived projects.');
+    }
+
+    const related = await storage.payments.getPaymentsByChargeId(payment.stripeChargeId);
+    const charged = this.chargedAmount(payment);
+    // Refunds and open disputes are negative; a won dispute puts its amount back. Refund rows hold
+    // the credit taken back, so they're converted back to the cash that was returned.
+    const alreadyReturned = -related
+      .filter(p => p.status === 'refunded' || p.status === 'disputed' || p.status === 'dispute_won')
+      .reduce((sum, p) => sum + (p.status === 'refunded' ? Number(p.amount) * charged / Number(payment.amount) : Number(p.amount)), 0);
+    const refundable = Math.round((charged - alreadyReturned) * 100) / 100;
+    const refundAmount = amount ?? refundable;
+
+    if (refundable <= 0) {
+      throw new HttpError(400, 'This payment has already been fully refunded.');
+    }
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new HttpError(400, `Refund amount must be between $0.01 and $${refundable.toFixed(2)}.`);
+    }
+
+    const refund = await stripeService.createRefund(payment.stripeChargeId, Math.round(refundAmount * 100), {
+      paymentId: payment.id.toString(),
+      invoiceId: payment.invoiceId.toString(),
+      ...(reason && { reason }),
+    });
+
+    const refundPayment = await this.recordRefund(payment, refund, actorId, reason);
+    await this.syncInvoiceStatusWithPayments(payment.invoiceId, actorId, 'admin_refund');
+
+    if (!refundPayment) {
+      throw new HttpError(500, 'Refund was issued in Stripe but could not be recorded.');
+    }
+    return refundPayment;
+  }
+
+  /**
+   * Handle charge.dispute.created: the disputed amount is withdrawn by Stripe, so record it
+   * as a negative payment and reopen the invoice.
+   */
+  async handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+    try {
+      const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id;
+      const original = await this.findOriginalPayment(chargeId);
+      if (!original) {
+        console.error(`[PaymentService] No payment on file for disputed charge ${chargeId}`);
+        return;
+      }
+
+      const related = await storage.payments.getPaymentsByChargeId(chargeId);
+      if (related.some(p => p.reference === dispute.id && p.status === 'disputed')) {
+        console.log(`[PaymentService] Dispute ${dispute.id} already recorded. Skipping.`);
+        return;
+      }
+
+      const disputePayment = await storage.payments.createPayment({
+        invoiceId: original.invoiceId,
+        amount: (-dispute.amount / 100).toFixed(2),
+        paymentDate: new Date(),
+        paymentMethod: original.paymentMethod,
+        reference: dispute.id,
+        stripePaymentIntentId: original.stripePaymentIntentId,
+        stripeChargeId: chargeId,
+        status: 'disputed',
+        failureReason: dispute.reason,
+      });
+
+      const invoice = await storage.invoices.getInvoiceById(original.invoiceId);
+      if (disputePayment) {
+        await recordAuditEvent({
+          projectId: invoice?.projectId,
+          actorId: null,
+          entityType: 'payment',
+          entityId: disputePayment.id,
+          action: 'disputed',
+          after: disputePayment,
+          metadata: { invoiceId: original.invoiceId, invoiceNumber: invoice?.invoiceNumber, originalPaymentId: original.id, reason: dispute.reason },
+        });
+      }
+
+      await this.syncInvoiceStatusWithPayments(original.invoiceId, null, 'stripe_dispute');
+    } catch (error) {
+      console.error('[PaymentService] Error handling dispute created webhook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle charge.dispute.closed: a won dispute returns the funds, so the withdrawal is
+   * reversed with a matching positive payment. Lost disputes leave the withdrawal in place.
+   */
+  async handleDisputeClosed(dispute: Stripe.Dispute): Promise<void> {
+    try {
+      const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id;
+      const related = await storage.payments.getPaymentsByChargeId(chargeId);
+      const disputePayment = related.find(p => p.reference === dispute.id && p.status === 'disputed');
+      if (!disputePayment) {
+        console.log(`[PaymentService] No recorded dispute ${dispute.id} to close. Skipping.`);
+        return;
+      }
+
+      const invoice = await storage.invoices.getInvoiceById(disputePayment.invoiceId);
+      await recordAuditEvent({
+        projectId: invoice?.projectId,
+        actorId: null,
+        entityType: 'payment',
+        entityId: disputePayment.id,
+        action: 'dispute_closed',
+        metadata: { invoiceId: disputePayment.invoiceId, invoiceNumber: invoice?.invoiceNumber, outcome: dispute.status },
+      });
+
+      if (dispute.status !== 'won' || related.some(p => p.reference === dispute.id && p.status === 'dispute_won')) {
+        return;
+      }
+
+      await storage.payments.createPayment({
+        invoiceId: disputePayment.invoiceId,
+        amount: Math.abs(Number(disputePayment.amount)).toFixed(2),
+        paymentDate: new Date(),
+        paymentMethod: disputePayment.paymentMethod,
+        reference: dispute.id,
+        stripePaymentIntentId: disputePayment.stripePaymentIntentId,
+        stripeChargeId: chargeId,
+        status: 'dispute_won',
+      });
+
+      await this.syncInvoiceStatusWithPayments(disputePayment.invoiceId, null, 'stripe_dispute');
+    } catch (error) {
+      console.error('[PaymentService] Error handling dispute closed webhook:', error);
+      throw error;
+    }
+  }
+
+  async findInvoiceForPaymentIntent(paymentIntent: Stripe.PaymentIntent): Promise<Invoice | null> {
+    const invoiceId = paymentIntent.metadata?.invoiceId ? parseInt(paymentIntent.metadata.invoiceId) : null;
+    if (invoiceId) {
+      const invoice = await storage.invoices.getInvoiceById(invoiceId);
+      if (invoice) return invoice;
+    }
+    return storage.invoices.getInvoiceByPaymentIntentId(paymentIntent.id);
+  }
+
+  // The positive payment a refund or dispute is taken from
+  private async findOriginalPayment(chargeId: string): Promise<Payment | null> {
+    const payments = await storage.payments.getPaymentsByChargeId(chargeId);
+    return payments.find(p => Number(p.amount) > 0 && (p.status === 'succeeded' || p.status === 'test_completed')) ?? null;
+  }
+
+  // Idempotent per Stripe refund id, so the admin path and the webhook never double count
+  private async recordRefund(original: Payment, refund: Stripe.Refund, actorId: number | null, reason?: string): Promise<Payment | null> {
+    const related = await storage.payments.getPaymentsByChargeId(original.stripeChargeId!);
+    const existing = related.find(p => p.reference === refund.id);
+    if (existing) {
+      return existing;
+    }
+
+    // A discounted payment was credited more than was charged, so a refund takes back credit in
+    // proportion; returning the last of the charge takes back whatever credit is left
+    const credited = Number(original.amount);
+    const charged = this.chargedAmount(original);
+    const creditReturned = -related
+      .filter(p => p.status === 'refunded')
+      .reduce((sum, p) => sum + Number(p.amount), 0);
+    const refundAmount = refund.amount / 100;
+    const credit = refundAmount + creditReturned * charged / credited >= charged - 0.005
+      ? credited - creditReturned
+      : refundAmount * credited / charged;
+
+    let refundPayment: Payment | null;
+    try {
+      refundPayment = await storage.payments.createPayment({
+        invoiceId: original.invoiceId,
+        amount: (-credit).toFixed(2),
+        paymentDate: new Date(),
+        paymentMethod: original.paymentMethod,
+        reference: refund.id,
+        stripePaymentIntentId: original.stripePaymentIntentId,
+        stripeChargeId: original.stripeChargeId,
+        status: 'refunded',
+        recordedById: actorId,
+      });
+    } catch (error) {
+      // The refund reference index stops a concurrent webhook or admin refund from recording it twice
+      if (error instanceof HttpError && error.statusCode === 409) {
+        const recorded = await storage.payments.getPaymentsByChargeId(original.stripeChargeId!);
+        return recorded.find(p => p.reference === refund.id && p.status === 'refunded') ?? null;
+      }
+      throw error;
+    }
+
+    if (refundPayment) {
+      const invoice = await storage.invoices.getInvoiceById(original.invoiceId);
+      await recordAuditEvent({
+        projectId: invoice?.projectId,
+        actorId,
+        entityType: 'payment',
+        entityId: refundPayment.id,
+        action: 'refunded',
+        after: refundPayment,
+        metadata: {
+          invoiceId: original.invoiceId,
+          invoiceNumber: invoice?.invoiceNumber,
+          originalPaymentId: original.id,
+          refundId: refund.id,
+          source: actorId ? 'admin' : 'stripe',
+          ...(reason && { reason }),
+        },
+      });
+    }
+    return refundPayment;
+  }
+
+  /**
+   * Refund the part of a settled Stripe payment that took the invoice past its amount. Only payments
+   * recorded before this one count, so two intents settling at once refund just the later one.
+   */
+  private async refundOverpayment(payment: Payment): Promise<void> {
+    if (payment.status !== 'succeeded' || !payment.stripeChargeId) return;
+    const invoice = await storage.invoices.getInvoiceById(payment.invoiceId);
+    if (!invoice) return;
+
+    const paidSoFar = this.netPaid(invoice.payments.filter(p => p.id <= payment.id || Number(p.amount) < 0));
+    const overpaid = Math.min(Math.round((paidSoFar - Number(invoice.amount)) * 100) / 100, Number(payment.amount));
+    if (overpaid < 0.01) return;
+
+    // The credit to take back, converted to cash for a discounted payment
+    const refundAmount = Math.round(overpaid * this.chargedAmount(payment) / Number(payment.amount) * 100) / 100;
+    console.log(`[PaymentService] Payment ${payment.id} overpaid invoice ${invoice.invoiceNumber} by $${overpaid.toFixed(2)}; refunding $${refundAmount.toFixed(2)}`);
+    // Keyed by payment so a retry after the refund went through but wasn't recorded gets the same refund back
+    const refund = await stripeService.createRefund(payment.stripeChargeId, Math.round(refundAmount * 100), {
+      paymentId: payment.id.toString(),
+      invoiceId: payment.invoiceId.toString(),
+      reason: 'overpayment',
+    }, `overpayment-refund-${payment.id}`);
+    await this.recordRefund(payment, refund, null, 'overpayment');
+  }
+
+  // Cash charged for a payment: a method discount means less than was credited; surcharges aren't refunded
+  private chargedAmount(payment: Payment): number {
+    return Math.min(Number(payment.amount), Number(payment.amount) + Number(payment.methodAdjustment));
+  }
+
+  // Net amount received; refunds and disputes are negative, see COLLECTED_PAYMENT_STATUSES
+  private netPaid(payments: Payment[]): number {
+    return payments
+      .filter(payment => (COLLECTED_PAYMENT_STATUSES as readonly string[]).includes(payment.status))
+      .reduce((sum, payment) => sum + Number(payment.amount), 0);
+  }
+
+  // Amount credited to the invoice, before any payment method surcharge or discount
+  private intentBaseAmount(paymentIntent: Stripe.PaymentIntent): number {
+    const baseAmount = parseFloat(paymentIntent.metadata?.baseAmount ?? '');
+    return isNaN(baseAmount) ? paymentIntent.amount / 100 : baseAmount;
+  }
+
+  private intentMethodAdjustment(paymentIntent: Stripe.PaymentIntent): number {
+    return Math.round((paymentIntent.amount / 100 - this.intentBaseAmount(paymentIntent)) * 100) / 100;
+  }
+
+  // Bank debits are listed as 'ach'; everything else through Stripe as 'stripe'. The method the
+  // customer was actually charged with wins over the one the intent was priced for.
+  private async stripePaymentMethodLabel(paymentIntent: Stripe.PaymentIntent): Promise<string> {
+    let type: string | null = null;
+    if (typeof paymentIntent.latest_charge === 'string') {
+      const charge = await stripeService.getCharge(paymentIntent.latest_charge);
+      type = charge.payment_method_details?.type ?? null;
+    }
+    type ??= paymentIntent.payment_method_types.length === 1 ? paymentIntent.payment_method_types[0] : null;
+    return type === 'us_bank_account' ? 'ach' : 'stripe';
+  }
+
+  /**
+   * Re-derives an issued invoice's status from its net payments (refunds and disputes are
+   * negative): fully covered is paid, anything less is partially paid, nothing is pending.
+   */
+  private async syncInvoiceStatusWithPayments(invoiceId: number, actorId: number | null, source: string): Promise<void> {
+    const invoice = await storage.invoices.getInvoiceById(invoiceId);
+    if (!invoice || invoice.status === 'draft' || invoice.status === 'cancelled') return;
+
+    const netPaid = this.netPaid(invoice.payments);
+    const amount = Number(invoice.amount);
+
+    const status = netPaid >= amount - 0.005 ? 'paid' as const
+      : netPaid > 0.005 ? 'partially_paid' as const
+      : 'pending' as const;
+    if (status === invoice.status || (status === 'pending' && invoice.status === 'overdue')) return;
+
+    const { payments, ...before } = invoice;
+    const updated = await storage.invoices.updateInvoice(invoiceId, { status });
+    await recordAuditEvent({
+      projectId: invoice.projectId,
+      actorId,
+      entityType: 'invoice',
+      entityId: invoiceId,
+      action: 'status_changed',
+      before,
+      after: updated,
+      metadata: { invoiceNumber: invoice.invoiceNumber, netPaid: netPaid.toFixed(2), source },
+    });
+  }
+
+  private async sendPaymentFailedEmail(invoice: Invoice, amount: number, failureReason: string, retryLink: string): Promise<void> {
+    if (!invoice.customerEmail) {
+      console.error(`[PaymentService] No customer email on invoice ${invoice.invoiceNumber} for failed payment notice`);
+      return;
+    }
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3d4552;">Payment Unsuccessful</h2>
+        
+        <p>Dear ${invoice.customerName || 'Customer'},</p>
+        
+        <p>We were unable to process your payment for invoice <strong>${invoice.invoiceNumber}</strong>.</p>
+        
+        <div style="background: #fef2f2; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #ef4444;">
+          <p><strong>Amount:</strong> $${amount.toFixed(2)}</p>
+          <p><strong>Reason:</strong> ${failureReason}</p>
+        </div>
+        
+        <p>No charge was made. You can try again with the same or a different payment method:</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${retryLink}" 
+             style="background: #db973c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">
+            Retry Payment
+          </a>
+        </div>
+        
+        <p>If you have any questions about this payment, please don't hesitate to contact us.</p>
+        
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #666; font-size: 12px;">
+          This is an automated message. Please do not reply directly to this email.
+        </p>
+      </div>
+    `;
+
+    await sendEmail({
+      to: invoice.customerEmail,
+      subject: `Payment Unsuccessful - Invoice ${invoice.invoiceNumber}`,
+      html,
+      fromName: 'Kolmo Construction',
+    });
+  }
+
   /**
    * Send single portal access email to specific customer after down payment
    * This prevents duplicate magic links by sending only one email per customer
@@ -1063,7 +2046,7 @@ export class PaymentService {
   /**
    * Send payment confirmation email for milestone/final payments
    */
-  private async sendPaymentConfirmationEmail(invoice: Invoice, paymentAmount: number): Promise<void> {
+  private async sendPaymentConfirmationEmail(invoice: Invoice, paymentAmount: number, balanceDue = 0): Promise<void> {
     if (!invoice.customerEmail || !invoice.customerName) {
       console.error('Customer email or name missing for payment confirmation');
       return;
@@ -1087,8 +2070,8 @@ export class PaymentService {
           <h3 style="margin: 0 0 10px 0; color: #1e40af;">Payment Details</h3>
           <p><strong>Invoice Number:</strong> ${invoice.invoiceNumber}</p>
           <p><strong>Amount Paid:</strong> $${paymentAmount.toFixed(2)}</p>
-          <p><strong>Payment Date:</strong> ${new Date().toLocaleDateString()}</p>
           <p><strong>Payment Type:</strong> ${paymentTypeText}</p>
+          ${balanceDue > 0 ? `<p><strong>Remaining Balance:</strong> $${balanceDue.toFixed(2)}</p>` : ''}
         </div>
         
         <div style="background: #f9f9f9; padding: 20px; border-radius: 8px; margin: 20px 0;">
@@ -1,6 +1,9 @@
 import puppeteer from 'puppeteer';
 import { storage } from '../storage';
-import { Invoice, Project } from '../../shared/schema';
+import { Invoice, InvoiceLineItem, Project } from '../../shared/schema';
+import type { ProjectReport, ReportColumnFormat } from './project-report.service';
+import { summarizeRetainage, type RetainageSummary } from './retainage.service';
+import type { SignedQuoteDocument } from './quote-signature.service';
 
 export async function generateInvoicePdf(invoiceId: number): Promise<Buffer> {
   const invoice = await storage.invoices.getInvoiceById(invoiceId);
@@ -14,34 +17,314 @@ export async function generateInvoicePdf(invoiceId: number): Promise<Buffer> {
     throw new Error('Project not found for invoice');
   }
 
+  // Retainage held to date is shown on progress and release invoices
+  const retainage = summarizeRetainage(project, await storage.invoices.getInvoicesForProject(project.id));
+
   // Create professional invoice HTML template
-  const htmlContent = generateInvoiceHTML(invoice, project);
+  const htmlContent = generateInvoiceHTML(invoice, project, retainage);
+
+  return renderHtmlToPdf(htmlContent);
+}
 
-  // Launch Puppeteer and create PDF
+/**
+ * Renders an HTML document to an A4 PDF with Puppeteer.
+ * The browser is always closed, even if rendering fails.
+ */
+export async function renderHtmlToPdf(htmlContent: string, options: { landscape?: boolean } = {}): Promise<Buffer> {
   const browser = await puppeteer.launch({
     headless: true,
     args: ['--no-sandbox', '--disable-setuid-sandbox']
   });
-  
-  const page = await browser.newPage();
-  await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
-  
-  const pdfBuffer = await page.pdf({ 
-    format: 'A4', 
-    printBackground: true,
-    margin: {
-      top: '20mm',
-      right: '15mm',
-      bottom: '20mm',
-      left: '15mm'
-    }
+
+  try {
+    const page = await browser.newPage();
+    await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+
+    const pdfBuffer = await page.pdf({
+      format: 'A4',
+      landscape: options.landscape ?? false,
+      printBackground: true,
+      margin: {
+        top: '20mm',
+        right: '15mm',
+        bottom: '20mm',
+        left: '15mm'
+      }
+    });
+
+    return Buffer.from(pdfBuffer);
+  } finally {
+    await browser.close();
+  }
+}
+
+export async function generateProjectReportPdf(report: ProjectReport): Promise<Buffer> {
+  const htmlContent = generateProjectReportHTML(report);
+  // Wide tables read better in landscape
+  return renderHtmlToPdf(htmlContent, { landscape: report.columns.length > 6 });
+}
+
+/**
+ * Renders the signed acceptance certificate: the quote as signed, the initialled terms, the
+ * signature and the signing evidence (time, IP, user agent and content hash).
+ */
+export async function generateSignedQuotePdf(signed: SignedQuoteDocument): Promise<Buffer> {
+  return renderHtmlToPdf(generateSignedQuoteHTML(signed));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatReportValue(value: unknown, format: ReportColumnFormat = 'text'): string {
+  if (value === null || value === undefined || value === '') return '-';
+
+  switch (format) {
+    case 'date':
+      return new Date(value as string | Date).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+      });
+    case 'currency':
+      return `$${Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'percent':
+      return `${Number(value).toLocaleString('en-US', { maximumFractionDigits: 1 })}%`;
+    case 'number':
+      return Number(value).toLocaleString('en-US');
+    default:
+      return escapeHtml(String(value).replace(/_/g, ' '));
+  }
+}
+
+function generateProjectReportHTML(report: ProjectReport): string {
+  const generatedAt = new Date(report.generatedAt).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
   });
-  
-  await browser.close();
-  return Buffer.from(pdfBuffer);
+
+  const period = report.dateRange.startDate || report.dateRange.endDate
+    ? `${report.dateRange.startDate ? formatReportValue(report.dateRange.startDate, 'date') : 'Start'} – ${report.dateRange.endDate ? formatReportValue(report.dateRange.endDate, 'date') : 'Today'}`
+    : 'Current status';
+
+  const summaryHtml = report.summary.map(item => `
+          <div class="summary-item">
+            <div class="summary-label">${escapeHtml(item.label)}</div>
+            <div class="summary-value">${formatReportValue(item.value, item.format)}</div>
+          </div>`).join('');
+
+  const headerHtml = report.columns.map(column => `
+              <th class="${column.format === 'currency' || column.format === 'number' || column.format === 'percent' ? 'numeric' : ''}">${escapeHtml(column.label)}</th>`).join('');
+
+  const rowsHtml = report.rows.length > 0
+    ? report.rows.map(row => `
+            <tr>${report.columns.map(column => `
+              <td class="${column.format === 'currency' || column.format === 'number' || column.format === 'percent' ? 'numeric' : ''}">${formatReportValue(row[column.key], column.format)}</td>`).join('')}
+            </tr>`).join('')
+    : `
+            <tr><td class="empty" colspan="${report.columns.length}">No records for this report.</td></tr>`;
+
+  const notesHtml = report.notes.length > 0
+    ? `
+        <div class="notes">
+          ${report.notes.map(note => `<div>${escapeHtml(note)}</div>`).join('')}
+        </div>`
+    : '';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${escapeHtml(report.title)} - ${escapeHtml(report.projectName)}</title>
+      <style>
+        * {
+          margin: 0;
+          padding: 0;
+          box-sizing: border-box;
+        }
+
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          line-height: 1.5;
+          color: #333;
+          background: #fff;
+          font-size: 12px;
+        }
+
+        .header {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          margin-bottom: 24px;
+          border-bottom: 3px solid #2563eb;
+          padding-bottom: 16px;
+        }
+
+        .company-name {
+          font-size: 26px;
+          font-weight: bold;
+          color: #2563eb;
+        }
+
+        .company-tagline {
+          font-size: 13px;
+          color: #64748b;
+        }
+
+        .report-title {
+          text-align: right;
+        }
+
+        .report-title h1 {
+          font-size: 24px;
+          color: #1e293b;
+        }
+
+        .report-meta {
+          font-size: 12px;
+          color: #64748b;
+        }
+
+        .summary {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 12px;
+          margin-bottom: 24px;
+        }
+
+        .summary-item {
+          flex: 1 1 140px;
+          background: #f8fafc;
+          border-left: 4px solid #2563eb;
+          border-radius: 6px;
+          padding: 10px 14px;
+        }
+
+        .summary-label {
+          font-size: 11px;
+          color: #64748b;
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+        }
+
+        .summary-value {
+          font-size: 18px;
+          font-weight: 600;
+          color: #1e293b;
+        }
+
+        .report-table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+
+        .report-table th {
+          background: #2563eb;
+          color: white;
+          padding: 8px 6px;
+          text-align: left;
+          font-weight: 600;
+          font-size: 11px;
+          text-transform: uppercase;
+        }
+
+        .report-table td {
+          padding: 7px 6px;
+          border-bottom: 1px solid #e2e8f0;
+          vertical-align: top;
+        }
+
+        .report-table tr {
+          page-break-inside: avoid;
+        }
+
+        .report-table tr:nth-child(even) td {
+          background: #f8fafc;
+        }
+
+        .numeric {
+          text-align: right !important;
+          white-space: nowrap;
+        }
+
+        .empty {
+          text-align: center;
+          color: #94a3b8;
+          padding: 24px;
+        }
+
+        .notes {
+          margin-top: 20px;
+          padding: 12px 16px;
+          background: #fef3c7;
+          border-left: 4px solid #f59e0b;
+          border-radius: 6px;
+          color: #92400e;
+        }
+
+        .footer {
+          margin-top: 30px;
+          padding-top: 12px;
+          border-top: 1px solid #e2e8f0;
+          text-align: center;
+          font-size: 11px;
+          color: #94a3b8;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div>
+          <div class="company-name">KOLMO</div>
+          <div class="company-tagline">Construction Excellence</div>
+        </div>
+        <div class="report-title">
+          <h1>${escapeHtml(report.title)}</h1>
+          <div class="report-meta">${escapeHtml(report.projectName)} (#${report.projectId})</div>
+          <div class="report-meta">${escapeHtml(report.projectAddress)}</div>
+          <div class="report-meta">Period: ${period}</div>
+        </div>
+      </div>
+
+      <div class="summary">${summaryHtml}
+      </div>
+
+      <table class="report-table">
+        <thead>
+          <tr>${headerHtml}
+          </tr>
+        </thead>
+        <tbody>${rowsHtml}
+        </tbody>
+      </table>
+      ${notesHtml}
+
+      <div class="footer">
+        Generated ${generatedAt} from the KOLMO project portal.
+      </div>
+    </body>
+    </html>
+  `;
 }
 
-function generateInvoiceHTML(invoice: Invoice, project: Project): string {
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function generateInvoiceHTML(
+  invoice: Invoice & { lineItems?: InvoiceLineItem[] },
+  project: Project,
+  retainage: RetainageSummary
+): string {
   const issueDate = new Date(invoice.issueDate).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -55,6 +338,77 @@ function generateInvoiceHTML(invoice: Invoice, project: Project): string {
   });
 
   const amount = Number(invoice.amount);
+  const retainageAmount = Number(invoice.retainageAmount || 0);
+  const grossAmount = retainageAmount > 0 ? Number(invoice.grossAmount) : amount;
+  const isRetainageRelease = invoice.invoiceType === 'retainage_release';
+
+  const lineItems = invoice.lineItems ?? [];
+  const taxAmount = Number(invoice.taxAmount || 0);
+  const discountAmount = Number(invoice.discountAmount || 0);
+
+  const itemRowsHtml = lineItems.length > 0
+    ? lineItems.map(item => {
+        const discount = Number(item.discountAmount || 0);
+        return `
+              <tr>
+                <td class="description-cell">
+                  ${item.description}${item.taxable ? ' <span style="color: #64748b; font-size: 12px;">(T)</span>' : ''}
+                  ${discount > 0 ? `<br><span style="color: #64748b; font-size: 13px;">Discount: -${formatMoney(discount)}</span>` : ''}
+                </td>
+                <td style="text-align: center;">${Number(item.quantity)} ${item.unit || ''}</td>
+                <td class="amount-cell">${formatMoney(Number(item.unitPrice))}</td>
+                <td class="amount-cell">${formatMoney(Number(item.totalPrice))}</td>
+              </tr>`;
+      }).join('')
+    : `
+              <tr>
+                <td class="description-cell">
+                  <strong>${isRetainageRelease ? 'Retainage Release' : 'Project Services'}</strong><br>
+                  <span style="color: #64748b; font-size: 13px;">
+                    Construction services for ${project.name}
+                    ${invoice.description ? `<br>${invoice.description}` : ''}
+                  </span>
+                </td>
+                <td style="text-align: center;">1</td>
+                <td class="amount-cell">${formatMoney(grossAmount)}</td>
+                <td class="amount-cell">${formatMoney(grossAmount)}</td>
+              </tr>`;
+
+  const itemizedRowsHtml = lineItems.length > 0 ? `${discountAmount > 0 ? `
+          <div class="total-row">
+            <div class="total-label">Discounts Applied:</div>
+            <div class="total-amount">-${formatMoney(discountAmount)}</div>
+          </div>` : ''}
+          <div class="total-row">
+            <div class="total-label">Subtotal:</div>
+            <div class="total-amount">${formatMoney(Number(invoice.subtotal))}</div>
+          </div>${taxAmount > 0 ? `
+          <div class="total-row">
+            <div class="total-label">Tax (${Number(invoice.taxRate)}% on items marked T):</div>
+            <div class="total-amount">${formatMoney(taxAmount)}</div>
+          </div>` : ''}` : '';
+
+  const retainageRowsHtml = retainageAmount > 0 ? `
+          <div class="total-row">
+            <div class="total-label">Work Billed:</div>
+            <div class="total-amount">${formatMoney(grossAmount)}</div>
+          </div>
+          <div class="total-row">
+            <div class="total-label">Less Retainage (${Number(invoice.retainagePercentage)}%):</div>
+            <div class="total-amount">-${formatMoney(retainageAmount)}</div>
+          </div>` : '';
+
+  const retainageNoteHtml = retainageAmount > 0 || isRetainageRelease ? `
+        <div class="payment-info">
+          <div class="payment-title">Retainage</div>
+          <div class="payment-details">
+            ${isRetainageRelease
+              ? 'This invoice releases retainage withheld from earlier progress invoices on this project.'
+              : 'Retainage is withheld from each progress invoice and billed on a release invoice at project closeout.'}
+            <br>
+            Retained to date: ${formatMoney(retainage.withheld)} · Released: ${formatMoney(retainage.released)} · Still held: ${formatMoney(retainage.balance)}
+          </div>
+        </div>` : '';
 
   return `
     <!DOCTYPE html>
@@ -374,39 +728,32 @@ function generateInvoiceHTML(invoice: Invoice, project: Project): string {
         </div>
         
         <!-- Invoice Items -->
-        <div class="invoice-items">
+        <div class="invoice-items">${lineItems.length > 0 && invoice.description ? `
+          <p style="color: #64748b; font-size: 14px; margin-bottom: 15px;">${invoice.description}</p>` : ''}
           <table class="items-table">
             <thead>
               <tr>
-                <th style="width: 60%;">Description</th>
-                <th style="width: 20%;">Quantity</th>
-                <th style="width: 20%;">Amount</th>
+                <th style="width: 50%;">Description</th>
+                <th style="width: 15%; text-align: center;">Quantity</th>
+                <th style="width: 15%; text-align: right;">Unit Price</th>
+                <th style="width: 20%; text-align: right;">Amount</th>
               </tr>
             </thead>
-            <tbody>
-              <tr>
-                <td class="description-cell">
-                  <strong>Project Services</strong><br>
-                  <span style="color: #64748b; font-size: 13px;">
-                    Construction services for ${project.name}
-                    ${invoice.description ? `<br>${invoice.description}` : ''}
-                  </span>
-                </td>
-                <td style="text-align: center;">1</td>
-                <td class="amount-cell">$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}</td>
-              </tr>
+            <tbody>${itemRowsHtml}
             </tbody>
           </table>
         </div>
         
         <!-- Total Section -->
-        <div class="total-section">
+        <div class="total-section">${itemizedRowsHtml}${retainageRowsHtml}
           <div class="total-row grand-total">
             <div class="total-label">Total Amount Due:</div>
             <div class="total-amount">$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}</div>
           </div>
         </div>
         
+        ${retainageNoteHtml}
+
         <!-- Payment Information -->
         <div class="payment-info">
           <div class="payment-title">Payment Information</div>
@@ -425,4 +772,325 @@ function generateInvoiceHTML(invoice: Invoice, project: Project): string {
     </body>
     </html>
   `;
-}
\ No newline at end of file
+}
+
+function generateSignedQuoteHTML(signed: SignedQuoteDocument): string {
+  const { content } = signed;
+  const formatDate = (value: string | null) => value
+    ? new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+    : 'To be scheduled';
+  const signedAt = signed.signedAt.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+    timeZoneName: 'short'
+  });
+
+  const itemRowsHtml = content.lineItems.map(item => `
+              <tr>
+                <td>${escapeHtml(item.category)}</td>
+                <td>${escapeHtml(item.description)}</td>
+                <td class="numeric">${Number(item.quantity)} ${escapeHtml(item.unit)}</td>
+                <td class="numeric">${formatMoney(Number(item.unitPrice))}</td>
+                <td class="numeric">${formatMoney(Number(item.totalPrice))}</td>
+              </tr>`).join('');
+
+  const stageRowsHtml = content.paymentStages.map(stage => `
+              <tr>
+                <td>${escapeHtml(stage.label)}${stage.description ? ` &ndash; ${escapeHtml(stage.description)}` : ''}</td>
+                <td class="numeric">${stage.percentage}%</td>
+                <td class="numeric">${formatMoney(Number(content.total) * stage.percentage / 100)}</td>
+              </tr>`).join('');
+
+  const termsHtml = content.terms.map((term, index) => `
+            <div class="term">
+              <div class="term-text">${index + 1}. ${escapeHtml(term)}</div>
+              <div class="initials">${escapeHtml(signed.initials)}</div>
+            </div>`).join('');
+
+  const signatureHtml = signed.signatureType === 'drawn'
+    ? `<img class="signature-image" src="${signed.signatureData}" alt="Signature">`
+    : `<div class="signature-typed">${escapeHtml(signed.signatureData)}</div>`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Signed Proposal ${escapeHtml(content.quoteNumber)}</title>
+      <style>
+        * {
+          margin: 0;
+          padding: 0;
+          box-sizing: border-box;
+        }
+
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          line-height: 1.5;
+          color: #333;
+          background: #fff;
+          font-size: 12px;
+        }
+
+        .header {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          margin-bottom: 20px;
+          border-bottom: 3px solid #2563eb;
+          padding-bottom: 14px;
+        }
+
+        .company-name {
+          font-size: 26px;
+          font-weight: bold;
+          color: #2563eb;
+        }
+
+        .company-tagline {
+          font-size: 13px;
+          color: #64748b;
+        }
+
+        .doc-title {
+          text-align: right;
+        }
+
+        .doc-title h1 {
+          font-size: 22px;
+          color: #1e293b;
+        }
+
+        .meta {
+          font-size: 12px;
+          color: #64748b;
+        }
+
+        h2 {
+          font-size: 14px;
+          color: #1e293b;
+          margin: 18px 0 8px;
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+        }
+
+        .parties {
+          display: flex;
+          gap: 24px;
+        }
+
+        .parties > div {
+          flex: 1;
+          background: #f8fafc;
+          border-left: 4px solid #2563eb;
+          border-radius: 6px;
+          padding: 10px 14px;
+        }
+
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+
+        th {
+          background: #2563eb;
+          color: white;
+          padding: 7px 6px;
+          text-align: left;
+          font-size: 11px;
+          text-transform: uppercase;
+        }
+
+        td {
+          padding: 6px;
+          border-bottom: 1px solid #e2e8f0;
+          vertical-align: top;
+        }
+
+        tr {
+          page-break-inside: avoid;
+        }
+
+        .numeric {
+          text-align: right;
+          white-space: nowrap;
+        }
+
+        .totals {
+          margin-left: auto;
+          width: 280px;
+          margin-top: 8px;
+        }
+
+        .totals div {
+          display: flex;
+          justify-content: space-between;
+          padding: 3px 0;
+        }
+
+        .totals .grand-total {
+          font-size: 15px;
+          font-weight: bold;
+          border-top: 2px solid #1e293b;
+          margin-top: 4px;
+          padding-top: 6px;
+        }
+
+        .text-block {
+          white-space: pre-wrap;
+          color: #334155;
+        }
+
+        .term {
+          display: flex;
+          gap: 16px;
+          align-items: flex-start;
+          padding: 6px 0;
+          border-bottom: 1px solid #e2e8f0;
+          page-break-inside: avoid;
+        }
+
+        .term-text {
+          flex: 1;
+        }
+
+        .initials {
+          min-width: 60px;
+          text-align: center;
+          font-weight: bold;
+          border-bottom: 1px solid #1e293b;
+        }
+
+        .signature-block {
+          margin-top: 20px;
+          padding: 14px;
+          border: 1px solid #cbd5e1;
+          border-radius: 6px;
+          page-break-inside: avoid;
+        }
+
+        .signature-typed {
+          font-family: 'Brush Script MT', 'Segoe Script', cursive;
+          font-size: 32px;
+          color: #1e293b;
+        }
+
+        .signature-image {
+          max-height: 90px;
+          max-width: 320px;
+        }
+
+        .evidence {
+          margin-top: 12px;
+          font-size: 10px;
+          color: #475569;
+        }
+
+        .evidence div {
+          word-break: break-all;
+        }
+
+        .footer {
+          margin-top: 24px;
+          padding-top: 10px;
+          border-top: 1px solid #e2e8f0;
+          text-align: center;
+          font-size: 10px;
+          color: #94a3b8;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div>
+          <div class="company-name">KOLMO</div>
+          <div class="company-tagline">Construction Excellence</div>
+        </div>
+        <div class="doc-title">
+          <h1>Signed Proposal</h1>
+          <div class="meta">Quote #${escapeHtml(content.quoteNumber)}${content.revisionNumber ? ` &middot; Revision ${content.revisionNumber}` : ''}</div>
+          <div class="meta">${escapeHtml(content.title)}</div>
+        </div>
+      </div>
+
+      <div class="parties">
+        <div>
+          <strong>Customer</strong><br>
+          ${escapeHtml(content.customerName)}<br>
+          ${escapeHtml(content.customerEmail)}${content.customerPhone ? `<br>${escapeHtml(content.customerPhone)}` : ''}${content.customerAddress ? `<br>${escapeHtml(content.customerAddress)}` : ''}
+        </div>
+        <div>
+          <strong>Project</strong><br>
+          ${escapeHtml(content.projectType)}${content.location ? ` &middot; ${escapeHtml(content.location)}` : ''}<br>
+          Estimated start: ${formatDate(content.estimatedStartDate)}<br>
+          Estimated completion: ${formatDate(content.estimatedCompletionDate)}<br>
+          Proposal valid until: ${formatDate(content.validUntil)}
+        </div>
+      </div>
+      ${content.scopeDescription ? `
+      <h2>Scope of Work</h2>
+      <div class="text-block">${escapeHtml(content.scopeDescription)}</div>` : ''}
+
+      <h2>Line Items</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Category</th>
+            <th>Description</th>
+            <th class="numeric">Quantity</th>
+            <th class="numeric">Unit Price</th>
+            <th class="numeric">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${itemRowsHtml}
+        </tbody>
+      </table>
+
+      <div class="totals">
+        <div><span>Subtotal</span><span>${formatMoney(Number(content.subtotal))}</span></div>${Number(content.discountAmount) > 0 ? `
+        <div><span>Discount</span><span>-${formatMoney(Number(content.discountAmount))}</span></div>` : ''}
+        <div><span>Tax (${Number(content.taxRate)}%)</span><span>${formatMoney(Number(content.taxAmount))}</span></div>
+        <div class="grand-total"><span>Total</span><span>${formatMoney(Number(content.total))}</span></div>
+      </div>
+
+      <h2>Payment Schedule</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Stage</th>
+            <th class="numeric">Share</th>
+            <th class="numeric">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${stageRowsHtml}
+        </tbody>
+      </table>
+
+      <h2>Terms</h2>${termsHtml}${content.projectNotes ? `
+      <div class="text-block" style="margin-top: 8px;">${escapeHtml(content.projectNotes)}</div>` : ''}
+
+      <div class="signature-block">
+        <div>${escapeHtml(content.consentText)}</div>
+        <div style="margin-top: 12px;">${signatureHtml}</div>
+        <div><strong>${escapeHtml(signed.signerName)}</strong> &lt;${escapeHtml(signed.signerEmail)}&gt;</div>
+
+        <div class="evidence">
+          <div>Signed: ${signedAt} (${signed.signedAt.toISOString()})</div>
+          <div>Signature method: ${signed.signatureType === 'drawn' ? 'Drawn' : 'Typed'}</div>
+          <div>IP address: ${escapeHtml(signed.ipAddress || 'Unknown')}</div>
+          <div>Device: ${escapeHtml(signed.userAgent || 'Unknown')}</div>
+          <div>Content SHA-256: ${signed.contentHash}</div>
+        </div>
+      </div>
+
+      <div class="footer">
+        Electronically signed through the KOLMO customer portal. The content hash above identifies the proposal exactly as signed.
+      </div>
+    </body>
+    </html>
+  `;
+}
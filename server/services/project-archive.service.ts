@@ -0,0 +1,86 @@
+// server/services/project-archive.service.ts
+import { storage } from '@server/storage/index';
+import { Project } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { recordAuditEvent } from './audit.service';
+
+export const ARCHIVED_PROJECT_STATUS = 'archived';
+
+export function isProjectArchived(project: Pick<Project, 'status'> | null | undefined): boolean {
+    return project?.status === ARCHIVED_PROJECT_STATUS;
+}
+
+/**
+ * Throws a 409 when the project is archived. Used to keep archived projects read-only
+ * and to stop billing and notifications for them.
+ */
+export async function assertProjectNotArchived(projectId: number): Promise<void> {
+    const project = await storage.projects.getProject(projectId);
+    if (isProjectArchived(project)) {
+        throw new HttpError(409, 'Project is archived and read-only. Restore it before making changes.');
+    }
+}
+
+/**
+ * Archives a project: it becomes read-only and drops out of default project listings.
+ */
+export async function archiveProject(projectId: number, actorId: number, reason?: string | null): Promise<Project> {
+    const project = await storage.projects.getProject(projectId);
+    if (!project) {
+        throw new HttpError(404, 'Project not found.');
+    }
+    if (isProjectArchived(project)) {
+        throw new HttpError(409, 'Project is already archived.');
+    }
+
+    const archivedProject = await storage.projects.archiveProject(projectId, actorId, reason);
+    if (!archivedProject) {
+        throw new HttpError(409, 'Project could not be archived. It may have been archived by someone else.');
+    }
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'project',
+        entityId: projectId,
+        action: 'archived',
+        before: project,
+        after: archivedProject,
+        metadata: reason ? { reason } : undefined,
+    });
+
+    logger(`[archiveProject] Project ${projectId} archived by user ${actorId}`, 'ProjectArchive');
+    return archivedProject;
+}
+
+/**
+ * Restores an archived project to the status it had before archiving.
+ */
+export async function restoreProject(projectId: number, actorId: number): Promise<Project> {
+    const project = await storage.projects.getProject(projectId);
+    if (!project) {
+        throw new HttpError(404, 'Project not found.');
+    }
+    if (!isProjectArchived(project)) {
+        throw new HttpError(409, 'Project is not archived.');
+    }
+
+    const restoredProject = await storage.projects.restoreProject(projectId);
+    if (!restoredProject) {
+        throw new HttpError(409, 'Project could not be restored. It may have been restored by someone else.');
+    }
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'project',
+        entityId: projectId,
+        action: 'restored',
+        before: project,
+        after: restoredProject,
+    });
+
+    logger(`[restoreProject] Project ${projectId} restored by user ${actorId}`, 'ProjectArchive');
+    return restoredProject;
+}
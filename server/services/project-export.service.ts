@@ -0,0 +1,287 @@
+// server/services/project-export.service.ts
+import JSZip from 'jszip';
+import path from 'path';
+import { storage } from '@server/storage/index';
+import { ProjectExport } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { uploadToR2, downloadFromR2, getR2DownloadUrl, getR2KeyFromUrl } from '@server/r2-upload';
+import { toCsv } from '@server/utils/csv';
+import { recordAuditEvent } from './audit.service';
+
+export type ExportFormat = 'json' | 'csv' | 'both';
+
+export interface ProjectExportOptions {
+    format: ExportFormat;
+    includeMedia: boolean;
+}
+
+interface MediaFile {
+    url: string;
+    archivePath: string;
+}
+
+// Signed download links are regenerated on every status poll
+export const EXPORT_DOWNLOAD_URL_TTL_SECONDS = 15 * 60;
+
+/**
+ * Strips joined relations (arrays) from a record so it can be written as a flat CSV row.
+ * Scalar columns, dates and jsonb objects are kept.
+ */
+function flattenRecord(record: Record<string, any>): Record<string, unknown> {
+    const flat: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+        if (Array.isArray(value)) continue;
+        if (value && typeof value === 'object' && !(value instanceof Date) && 'id' in value) {
+            // Joined user/project objects - keep a readable reference instead of the nested object
+            flat[`${key}Name`] = [value.firstName, value.lastName].filter(Boolean).join(' ') || value.name || value.id;
+            continue;
+        }
+        flat[key] = value;
+    }
+    return flat;
+}
+
+function sanitizeFileName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9._-]+/g, '_').substring(0, 100);
+}
+
+/**
+ * Gathers every dataset included in a project export.
+ */
+async function collectProjectData(projectId: number) {
+    const project = await storage.projects.getProjectById(projectId);
+    if (!project) {
+        throw new HttpError(404, 'Project not found.');
+    }
+
+    const [tasks, dependencies, milestones, invoices, dailyLogs, punchList, messages, documents] = await Promise.all([
+        storage.tasks.getTasksForProject(projectId),
+        storage.tasks.getDependenciesForProject(projectId),
+        storage.milestones.getMilestonesByProjectId(projectId),
+        storage.invoices.getInvoicesForProject(projectId),
+        storage.dailyLogs.getDailyLogsForProject(projectId),
+        storage.punchLists.getPunchListItemsForProject(projectId),
+        storage.messages.getMessagesForProject(projectId),
+        storage.documents.getDocumentsForProject(projectId),
+    ]);
+
+    const paymentsByInvoice = await Promise.all(
+        invoices.map(invoice => storage.payments.getPaymentsForInvoice(invoice.id))
+    );
+    const payments = paymentsByInvoice.flat();
+
+    return {
+        project,
+        datasets: {
+            tasks,
+            task_dependencies: dependencies,
+            milestones,
+            invoices,
+            payments,
+            daily_logs: dailyLogs,
+            daily_log_photos: dailyLogs.flatMap(log => log.photos ?? []),
+            punch_list: punchList,
+            messages,
+            documents,
+        } as Record<string, Record<string, any>[]>,
+    };
+}
+
+/**
+ * Lists the R2-backed files (documents and photos) to bundle when media is requested.
+ */
+function collectMediaFiles(datasets: Record<string, Record<string, any>[]>): MediaFile[] {
+    const files: MediaFile[] = [];
+
+    for (const document of datasets.documents) {
+        files.push({
+            url: document.fileUrl,
+            archivePath: `media/documents/${document.id}-${sanitizeFileName(document.name)}`,
+        });
+    }
+
+    for (const photo of datasets.daily_log_photos) {
+        const key = getR2KeyFromUrl(photo.photoUrl);
+        files.push({
+            url: photo.photoUrl,
+            archivePath: `media/daily-logs/${photo.dailyLogId}/${photo.id}-${sanitizeFileName(path.basename(key))}`,
+        });
+    }
+
+    for (const item of datasets.punch_list) {
+        if (item.photoUrl) {
+            const key = getR2KeyFromUrl(item.photoUrl);
+            files.push({
+                url: item.photoUrl,
+                archivePath: `media/punch-list/${item.id}/${sanitizeFileName(path.basename(key))}`,
+            });
+        }
+        for (const media of item.media ?? []) {
+            const key = getR2KeyFromUrl(media.mediaUrl);
+            files.push({
+                url: media.mediaUrl,
+                archivePath: `media/punch-list/${item.id}/${media.id}-${sanitizeFileName(path.basename(key))}`,
+            });
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Builds the ZIP archive for an export, uploads it to R2 and records the outcome.
+ * Runs detached from the request; all failures are captured on the export record.
+ */
+async function runProjectExport(exportRecord: ProjectExport): Promise<void> {
+    const { id: exportId, projectId } = exportRecord;
+    const format = exportRecord.format as ExportFormat;
+
+    try {
+        await storage.projectExports.updateExport(exportId, { status: 'processing', startedAt: new Date() });
+        logger(`[runProjectExport] Building export ${exportId} for project ${projectId}`, 'ProjectExport');
+
+        const { project, datasets } = await collectProjectData(projectId);
+        const zip = new JSZip();
+        const counts: Record<string, number> = {};
+
+        zip.file('project.json', JSON.stringify(project, null, 2));
+
+        for (const [name, rows] of Object.entries(datasets)) {
+            counts[name] = rows.length;
+            if (format === 'json' || format === 'both') {
+                zip.file(`data/${name}.json`, JSON.stringify(rows, null, 2));
+            }
+            if (format === 'csv' || format === 'both') {
+                zip.file(`data/${name}.csv`, toCsv(rows.map(flattenRecord)));
+            }
+        }
+
+        const skippedMedia: { path: string; reason: string }[] = [];
+        let mediaIncluded = 0;
+
+        if (exportRecord.includeMedia) {
+            // Download sequentially to keep memory and R2 concurrency bounded
+            for (const file of collectMediaFiles(datasets)) {
+                try {
+                    const buffer = await downloadFromR2(getR2KeyFromUrl(file.url));
+                    zip.file(file.archivePath, buffer);
+                    mediaIncluded++;
+                } catch (error) {
+                    skippedMedia.push({
+                        path: file.archivePath,
+                        reason: error instanceof Error ? error.message : String(error),
+                    });
+                }
+            }
+        }
+
+        const summary = {
+            counts,
+            mediaIncluded,
+            mediaSkipped: skippedMedia.length,
+        };
+
+        zip.file('manifest.json', JSON.stringify({
+            exportId,
+            projectId,
+            projectName: project.name,
+            generatedAt: new Date().toISOString(),
+            format,
+            includeMedia: exportRecord.includeMedia,
+            ...summary,
+            skippedMedia,
+        }, null, 2));
+
+        const archive = await zip.generateAsync({
+            type: 'nodebuffer',
+            compression: 'DEFLATE',
+            compressionOptions: { level: 6 },
+        });
+
+        const { key } = await uploadToR2({
+            fileName: `project-${projectId}-export-${exportId}.zip`,
+            buffer: archive,
+            mimetype: 'application/zip',
+            path: `projects/${projectId}/exports/`,
+        });
+
+        await storage.projectExports.updateExport(exportId, {
+            status: 'completed',
+            storageKey: key,
+            fileSize: archive.length,
+            summary,
+            completedAt: new Date(),
+        });
+
+        await recordAuditEvent({
+            projectId,
+            actorId: exportRecord.requestedById,
+            entityType: 'project',
+            entityId: projectId,
+            action: 'exported',
+            metadata: { exportId, format, includeMedia: exportRecord.includeMedia, fileSize: archive.length },
+        });
+
+        logger(`[runProjectExport] Export ${exportId} completed (${archive.length} bytes)`, 'ProjectExport');
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger(`[runProjectExport] Export ${exportId} failed: ${message}`, 'ProjectExport');
+        await storage.projectExports.updateExport(exportId, {
+            status: 'failed',
+            error: message,
+            completedAt: new Date(),
+        }).catch(updateError => {
+            logger(`[runProjectExport] Could not record failure for export ${exportId}: ${updateError}`, 'ProjectExport');
+        });
+    }
+}
+
+/**
+ * Queues a project export and starts building it in the background.
+ * @returns The pending export record, to be polled via getProjectExportStatus.
+ */
+export async function startProjectExport(
+    projectId: number,
+    requestedById: number,
+    options: ProjectExportOptions
+): Promise<ProjectExport> {
+    const exportRecord = await storage.projectExports.createExport({
+        projectId,
+        requestedById,
+        status: 'pending',
+        format: options.format,
+        includeMedia: options.includeMedia,
+    });
+
+    setImmediate(() => {
+        void runProjectExport(exportRecord);
+    });
+
+    return exportRecord;
+}
+
+/**
+ * Returns an export record with a freshly signed download URL once it has completed.
+ */
+export async function getProjectExportStatus(
+    projectId: number,
+    exportId: number
+): Promise<(ProjectExport & { downloadUrl: string | null; downloadUrlExpiresIn: number | null }) | null> {
+    const exportRecord = await storage.projectExports.getExportById(projectId, exportId);
+    if (!exportRecord) return null;
+
+    let downloadUrl: string | null = null;
+    if (exportRecord.status === 'completed' && exportRecord.storageKey) {
+        downloadUrl = await getR2DownloadUrl(
+            exportRecord.storageKey,
+            `project-${projectId}-export-${exportId}.zip`
+        );
+    }
+
+    return {
+        ...exportRecord,
+        downloadUrl,
+        downloadUrlExpiresIn: downloadUrl ? EXPORT_DOWNLOAD_URL_TTL_SECONDS : null,
+    };
+}
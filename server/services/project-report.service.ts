@@ -0,0 +1,519 @@
+// server/services/project-report.service.ts
+import { storage } from '@server/storage/index';
+import { COLLECTED_PAYMENT_STATUSES, Project } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { toCsv } from '@server/utils/csv';
+import { zohoExpenseService, ProcessedExpense } from './zoho-expense.service';
+
+export const PROJECT_REPORT_TYPES = [
+    'schedule-variance',
+    'budget-vs-actual',
+    'open-punch-list',
+    'daily-log-digest',
+    'billing-status',
+] as const;
+
+export type ProjectReportType = typeof PROJECT_REPORT_TYPES[number];
+
+export type ReportColumnFormat = 'text' | 'date' | 'currency' | 'number' | 'percent';
+
+export interface ReportColumn {
+    key: string;
+    label: string;
+    format?: ReportColumnFormat;
+}
+
+export interface ReportSummaryItem {
+    label: string;
+    value: string | number | null;
+    format?: ReportColumnFormat;
+}
+
+export interface ProjectReport {
+    projectId: number;
+    projectName: string;
+    projectAddress: string;
+    reportType: ProjectReportType;
+    title: string;
+    generatedAt: string;
+    dateRange: { startDate: string | null; endDate: string | null };
+    summary: ReportSummaryItem[];
+    columns: ReportColumn[];
+    rows: Record<string, unknown>[];
+    notes: string[];
+}
+
+export interface ReportDateRange {
+    startDate?: Date;
+    endDate?: Date;
+}
+
+const REPORT_TITLES: Record<ProjectReportType, string> = {
+    'schedule-variance': 'Schedule Variance',
+    'budget-vs-actual': 'Budget vs. Actual',
+    'open-punch-list': 'Open Punch List',
+    'daily-log-digest': 'Daily Log Digest',
+    'billing-status': 'Billing Status',
+};
+
+// Reports that cover activity over a period default to the trailing week
+const DEFAULT_PERIOD_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReportBody {
+    summary: ReportSummaryItem[];
+    columns: ReportColumn[];
+    rows: Record<string, unknown>[];
+    notes?: string[];
+}
+
+function daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// Money actually received; unsettled attempts and duplicate recordings don't count
+function isCollected(status: string): boolean {
+    return (COLLECTED_PAYMENT_STATUSES as readonly string[]).includes(status);
+}
+
+function personName(user?: { firstName?: string | null; lastName?: string | null } | null): string {
+    if (!user) return '';
+    return [user.firstName, user.lastName].filter(Boolean).join(' ');
+}
+
+function isWithinRange(date: Date | string | null | undefined, range: Required<ReportDateRange>): boolean {
+    if (!date) return false;
+    const value = new Date(date);
+    return value >= range.startDate && value <= range.endDate;
+}
+
+/**
+ * Resolves the reporting period, defaulting to the last seven days ending now.
+ */
+function resolvePeriod(range: ReportDateRange): Required<ReportDateRange> {
+    const endDate = range.endDate ?? new Date();
+    const startDate = range.startDate ?? new Date(endDate.getTime() - DEFAULT_PERIOD_DAYS * DAY_MS);
+    return { startDate, endDate };
+}
+
+/**
+ * Compares task due dates and milestone planned dates with when they actually finished.
+ * Positive variance means late; unfinished work past its date is measured against today.
+ */
+async function buildScheduleVariance(projectId: number): Promise<ReportBody> {
+    const [tasks, milestones] = await Promise.all([
+        storage.tasks.getTasksForProject(projectId),
+        storage.milestones.getMilestonesByProjectId(projectId),
+    ]);
+    const today = new Date();
+
+    const classify = (planned: Date | null, actual: Date | null, isDone: boolean) => {
+        if (!planned) return { varianceDays: null, state: 'unscheduled' };
+        if (isDone) {
+            if (!actual) return { varianceDays: null, state: 'completed' };
+            const varianceDays = daysBetween(planned, actual);
+            return { varianceDays, state: varianceDays > 0 ? 'completed_late' : 'completed_on_time' };
+        }
+        if (planned < today) return { varianceDays: daysBetween(planned, today), state: 'overdue' };
+        return { varianceDays: null, state: 'upcoming' };
+    };
+
+    const rows: Record<string, unknown>[] = [];
+
+    for (const task of tasks) {
+        if (task.status === 'cancelled') continue;
+        const planned = task.dueDate ? new Date(task.dueDate) : null;
+        const actual = task.completedAt ? new Date(task.completedAt) : null;
+        const { varianceDays, state } = classify(planned, actual, task.status === 'done');
+        rows.push({
+            type: 'Task',
+            name: task.title,
+            status: task.status,
+            plannedStart: task.startDate,
+            plannedFinish: task.dueDate,
+            actualFinish: task.completedAt,
+            varianceDays,
+            state,
+        });
+    }
+
+    for (const milestone of milestones) {
+        const planned = new Date(milestone.plannedDate);
+        const actualRaw = milestone.actualDate ?? milestone.completedAt;
+        const actual = actualRaw ? new Date(actualRaw) : null;
+        const { varianceDays, state } = classify(planned, actual, milestone.status === 'completed');
+        rows.push({
+            type: 'Milestone',
+            name: milestone.title,
+            status: milestone.status,
+            plannedStart: null,
+            plannedFinish: milestone.plannedDate,
+            actualFinish: actualRaw,
+            varianceDays,
+            state,
+        });
+    }
+
+    rows.sort((a, b) => {
+        const aTime = a.plannedFinish ? new Date(a.plannedFinish as Date).getTime() : Infinity;
+        const bTime = b.plannedFinish ? new Date(b.plannedFinish as Date).getTime() : Infinity;
+        return aTime - bTime;
+    });
+
+    const finished = rows.filter(row => row.state === 'completed_late' || row.state === 'completed_on_time');
+    const averageVariance = finished.length > 0
+        ? finished.reduce((sum, row) => sum + (row.varianceDays as number), 0) / finished.length
+        : null;
+
+    return {
+        summary: [
+            { label: 'Items tracked', value: rows.length, format: 'number' },
+            { label: 'Completed on time', value: rows.filter(row => row.state === 'completed_on_time').length, format: 'number' },
+            { label: 'Completed late', value: rows.filter(row => row.state === 'completed_late').length, format: 'number' },
+            { label: 'Overdue', value: rows.filter(row => row.state === 'overdue').length, format: 'number' },
+            { label: 'Average finish variance (days)', value: averageVariance === null ? null : Math.round(averageVariance * 10) / 10, format: 'number' },
+        ],
+        columns: [
+            { key: 'type', label: 'Type' },
+            { key: 'name', label: 'Name' },
+            { key: 'status', label: 'Status' },
+            { key: 'plannedStart', label: 'Planned Start', format: 'date' },
+            { key: 'plannedFinish', label: 'Planned Finish', format: 'date' },
+            { key: 'actualFinish', label: 'Actual Finish', format: 'date' },
+            { key: 'varianceDays', label: 'Variance (days)', format: 'number' },
+            { key: 'state', label: 'Schedule State' },
+        ],
+        rows,
+    };
+}
+
+/**
+ * Loads the project's Zoho expenses, returning a note instead of failing when Zoho is unavailable.
+ */
+async function loadProjectExpenses(project: Project): Promise<{ expenses: ProcessedExpense[]; note?: string }> {
+    if (!zohoExpenseService.isConfigured()) {
+        return { expenses: [], note: 'Zoho Expense is not configured; expenses are excluded from this report.' };
+    }
+    try {
+        await zohoExpenseService.initialize();
+        const expectedTag = zohoExpenseService.generateProjectTag(
+            project.customerName || 'Unknown',
+            new Date(project.createdAt)
+        );
+        return { expenses: await zohoExpenseService.getProjectExpenses(project.id, expectedTag) };
+    } catch (error) {
+        logger(`[buildBudgetVsActual] Could not load Zoho expenses for project ${project.id}: ${error}`, 'ProjectReport');
+        return { expenses: [], note: 'Expenses could not be loaded from Zoho Expense; expense totals are incomplete.' };
+    }
+}
+
+/**
+ * Combines the contract budget with invoiced and collected amounts and Zoho expenses.
+ * Rows break actual expenses down by category; the period filters expenses and collections only.
+ */
+async function buildBudgetVsActual(project: Project, range: ReportDateRange): Promise<ReportBody> {
+    const invoices = await storage.invoices.getInvoicesForProject(project.id);
+    const paymentsByInvoice = await Promise.all(
+        invoices.map(invoice => storage.payments.getPaymentsForInvoice(invoice.id))
+    );
+    const { expenses: allExpenses, note } = await loadProjectExpenses(project);
+
+    const inRange = (date: Date | string | null | undefined) => {
+        if (!range.startDate && !range.endDate) return true;
+        if (!date) return false;
+        const value = new Date(date);
+        return (!range.startDate || value >= range.startDate) && (!range.endDate || value <= range.endDate);
+    };
+
+    const activeInvoices = invoices.filter(invoice => invoice.status !== 'cancelled' && invoice.status !== 'draft');
+    const totalInvoiced = activeInvoices.reduce((sum, invoice) => sum + Number(invoice.amount), 0);
+    const totalCollected = paymentsByInvoice
+        .flat()
+        .filter(payment => isCollected(payment.status) && inRange(payment.paymentDate))
+        .reduce((sum, payment) => sum + Number(payment.amount), 0);
+    const expenses = allExpenses.filter(expense => inRange(expense.date));
+    const totalExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const totalBudget = Number(project.totalBudget);
+
+    const byCategory = new Map<string, { amount: number; count: number }>();
+    for (const expense of expenses) {
+        const category = expense.category || 'Uncategorized';
+        const entry = byCategory.get(category) ?? { amount: 0, count: 0 };
+        entry.amount += expense.amount;
+        entry.count += 1;
+        byCategory.set(category, entry);
+    }
+
+    const rows = Array.from(byCategory.entries())
+        .sort((a, b) => b[1].amount - a[1].amount)
+        .map(([category, { amount, count }]) => ({
+            category,
+            expenseCount: count,
+            amount: roundMoney(amount),
+            shareOfExpenses: totalExpenses > 0 ? roundMoney((amount / totalExpenses) * 100) : 0,
+            shareOfBudget: totalBudget > 0 ? roundMoney((amount / totalBudget) * 100) : 0,
+        }));
+
+    return {
+        summary: [
+            { label: 'Contract budget', value: roundMoney(totalBudget), format: 'currency' },
+            { label: 'Invoiced to date', value: roundMoney(totalInvoiced), format: 'currency' },
+            { label: 'Collected', value: roundMoney(totalCollected), format: 'currency' },
+            { label: 'Actual expenses', value: roundMoney(totalExpenses), format: 'currency' },
+            { label: 'Remaining budget', value: roundMoney(totalBudget - totalExpenses), format: 'currency' },
+            { label: 'Budget utilization', value: totalBudget > 0 ? roundMoney((totalExpenses / totalBudget) * 100) : 0, format: 'percent' },
+            { label: 'Collected less expenses', value: roundMoney(totalCollected - totalExpenses), format: 'currency' },
+        ],
+        columns: [
+            { key: 'category', label: 'Expense Category' },
+            { key: 'expenseCount', label: 'Expenses', format: 'number' },
+            { key: 'amount', label: 'Amount', format: 'currency' },
+            { key: 'shareOfExpenses', label: '% of Expenses', format: 'percent' },
+            { key: 'shareOfBudget', label: '% of Budget', format: 'percent' },
+        ],
+        rows,
+        notes: note ? [note] : [],
+    };
+}
+
+/**
+ * Lists punch list items that have not been verified, oldest due date first.
+ */
+async function buildOpenPunchList(projectId: number): Promise<ReportBody> {
+    const items = await storage.punchLists.getPunchListItemsForProject(projectId);
+    const today = new Date();
+
+    const rows = items
+        .filter(item => item.status !== 'verified')
+        .sort((a, b) => {
+            const aTime = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+            const bTime = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+            return aTime - bTime;
+        })
+        .map(item => ({
+            id: item.id,
+            description: item.description,
+            location: item.location,
+            priority: item.priority,
+            status: item.status,
+            assignee: personName(item.assignee) || 'Unassigned',
+            dueDate: item.dueDate,
+            daysOpen: daysBetween(new Date(item.createdAt), today),
+            overdue: item.dueDate && new Date(item.dueDate) < today && item.status !== 'resolved' ? 'Yes' : 'No',
+        }));
+
+    return {
+        summary: [
+            { label: 'Open items', value: rows.filter(row => row.status === 'open').length, format: 'number' },
+            { label: 'In progress', value: rows.filter(row => row.status === 'in_progress').length, format: 'number' },
+            { label: 'Awaiting verification', value: rows.filter(row => row.status === 'resolved').length, format: 'number' },
+            { label: 'Overdue', value: rows.filter(row => row.overdue === 'Yes').length, format: 'number' },
+            { label: 'High priority', value: rows.filter(row => row.priority === 'high').length, format: 'number' },
+        ],
+        columns: [
+            { key: 'id', label: '#' },
+            { key: 'description', label: 'Description' },
+            { key: 'location', label: 'Location' },
+            { key: 'priority', label: 'Priority' },
+            { key: 'status', label: 'Status' },
+            { key: 'assignee', label: 'Assignee' },
+            { key: 'dueDate', label: 'Due Date', format: 'date' },
+            { key: 'daysOpen', label: 'Days Open', format: 'number' },
+            { key: 'overdue', label: 'Overdue' },
+        ],
+        rows,
+    };
+}
+
+/**
+ * Summarizes daily logs written during the reporting period.
+ */
+async function buildDailyLogDigest(projectId: number, period: Required<ReportDateRange>): Promise<ReportBody> {
+    const logs = await storage.dailyLogs.getDailyLogsForProject(projectId);
+
+    const rows = logs
+        .filter(log => isWithinRange(log.logDate, period))
+        .sort((a, b) => new Date(a.logDate).getTime() - new Date(b.logDate).getTime())
+        .map(log => ({
+            logDate: log.logDate,
+            author: personName(log.creator),
+            weather: log.weather,
+            temperature: log.temperature,
+            crewOnSite: log.crewOnSite,
+            workPerformed: log.workPerformed,
+            issuesEncountered: log.issuesEncountered,
+            safetyObservations: log.safetyObservations,
+            photoCount: log.photos?.length ?? 0,
+        }));
+
+    return {
+        summary: [
+            { label: 'Logs submitted', value: rows.length, format: 'number' },
+            { label: 'Days with issues', value: rows.filter(row => row.issuesEncountered).length, format: 'number' },
+            { label: 'Safety observations', value: rows.filter(row => row.safetyObservations).length, format: 'number' },
+            { label: 'Photos', value: rows.reduce((sum, row) => sum + row.photoCount, 0), format: 'number' },
+        ],
+        columns: [
+            { key: 'logDate', label: 'Date', format: 'date' },
+            { key: 'author', label: 'Author' },
+            { key: 'weather', label: 'Weather' },
+            { key: 'temperature', label: 'Temp', format: 'number' },
+            { key: 'crewOnSite', label: 'Crew' },
+            { key: 'workPerformed', label: 'Work Performed' },
+            { key: 'issuesEncountered', label: 'Issues' },
+            { key: 'safetyObservations', label: 'Safety' },
+            { key: 'photoCount', label: 'Photos', format: 'number' },
+        ],
+        rows,
+    };
+}
+
+/**
+ * Shows every issued invoice with its payments and outstanding balance,
+ * plus billable milestones that have not been invoiced yet.
+ */
+async function buildBillingStatus(project: Project): Promise<ReportBody> {
+    const [invoices, milestones] = await Promise.all([
+        storage.invoices.getInvoicesForProject(project.id),
+        storage.milestones.getMilestonesByProjectId(project.id),
+    ]);
+    const paymentsByInvoice = await Promise.all(
+        invoices.map(invoice => storage.payments.getPaymentsForInvoice(invoice.id))
+    );
+    const today = new Date();
+
+    const rows = invoices.map((invoice, index) => {
+        const amount = Number(invoice.amount);
+        const paid = paymentsByInvoice[index]
+            .filter(payment => isCollected(payment.status))
+            .reduce((sum, payment) => sum + Number(payment.amount), 0);
+        const balance = invoice.status === 'cancelled' ? 0 : Math.max(amount - paid, 0);
+        const dueDate = new Date(invoice.dueDate);
+        const daysOverdue = balance > 0 && invoice.status !== 'draft' && dueDate < today ? daysBetween(dueDate, today) : 0;
+        return {
+            invoiceNumber: invoice.invoiceNumber,
+            invoiceType: invoice.invoiceType,
+            status: invoice.status,
+            issueDate: invoice.issueDate,
+            dueDate: invoice.dueDate,
+            amount: roundMoney(amount),
+            paid: roundMoney(paid),
+            balance: roundMoney(balance),
+            daysOverdue,
+        };
+    });
+
+    const issued = rows.filter(row => row.status !== 'draft' && row.status !== 'cancelled');
+    const totalBudget = Number(project.totalBudget);
+    const unbilledMilestones = milestones.filter(milestone => milestone.isBillable && !milestone.invoiceId);
+    const unbilledValue = unbilledMilestones.reduce(
+        (sum, milestone) => sum + (totalBudget * Number(milestone.billingPercentage ?? 0)) / 100,
+        0
+    );
+
+    return {
+        summary: [
+            { label: 'Total invoiced', value: roundMoney(issued.reduce((sum, row) => sum + row.amount, 0)), format: 'currency' },
+            { label: 'Total paid', value: roundMoney(issued.reduce((sum, row) => sum + row.paid, 0)), format: 'currency' },
+            { label: 'Outstanding', value: roundMoney(issued.reduce((sum, row) => sum + row.balance, 0)), format: 'currency' },
+            { label: 'Overdue', value: roundMoney(issued.filter(row => row.daysOverdue > 0).reduce((sum, row) => sum + row.balance, 0)), format: 'currency' },
+            { label: 'Draft invoices', value: rows.filter(row => row.status === 'draft').length, format: 'number' },
+            { label: 'Unbilled milestones', value: unbilledMilestones.length, format: 'number' },
+            { label: 'Unbilled milestone value', value: roundMoney(unbilledValue), format: 'currency' },
+        ],
+        columns: [
+            { key: 'invoiceNumber', label: 'Invoice #' },
+            { key: 'invoiceType', label: 'Type' },
+            { key: 'status', label: 'Status' },
+            { key: 'issueDate', label: 'Issued', format: 'date' },
+            { key: 'dueDate', label: 'Due', format: 'date' },
+            { key: 'amount', label: 'Amount', format: 'currency' },
+            { key: 'paid', label: 'Paid', format: 'currency' },
+            { key: 'balance', label: 'Balance', format: 'currency' },
+            { key: 'daysOverdue', label: 'Days Overdue', format: 'number' },
+        ],
+        rows,
+    };
+}
+
+/**
+ * Builds one of the project reports.
+ * The date range applies to the daily log digest (defaulting to the last 7 days)
+ * and to expenses and collections in the budget report; other reports reflect current state.
+ */
+export async function generateProjectReport(
+    projectId: number,
+    reportType: ProjectReportType,
+    range: ReportDateRange = {}
+): Promise<ProjectReport> {
+    const project = await storage.projects.getProjectById(projectId);
+    if (!project) {
+        throw new HttpError(404, 'Project not found.');
+    }
+
+    let body: ReportBody;
+    let dateRange: ReportDateRange = range;
+
+    switch (reportType) {
+        case 'schedule-variance':
+            body = await buildScheduleVariance(projectId);
+            break;
+        case 'budget-vs-actual':
+            body = await buildBudgetVsActual(project, range);
+            break;
+        case 'open-punch-list':
+            body = await buildOpenPunchList(projectId);
+            break;
+        case 'daily-log-digest': {
+            const period = resolvePeriod(range);
+            dateRange = period;
+            body = await buildDailyLogDigest(projectId, period);
+            break;
+        }
+        case 'billing-status':
+            body = await buildBillingStatus(project);
+            break;
+        default:
+            throw new HttpError(400, `Unknown report type: ${reportType}`);
+    }
+
+    return {
+        projectId,
+        projectName: project.name,
+        projectAddress: [project.address, project.city, project.state, project.zipCode].filter(Boolean).join(', '),
+        reportType,
+        title: REPORT_TITLES[reportType],
+        generatedAt: new Date().toISOString(),
+        dateRange: {
+            startDate: dateRange.startDate ? dateRange.startDate.toISOString() : null,
+            endDate: dateRange.endDate ? dateRange.endDate.toISOString() : null,
+        },
+        summary: body.summary,
+        columns: body.columns,
+        rows: body.rows,
+        notes: body.notes ?? [],
+    };
+}
+
+/**
+ * Serializes a report's rows to CSV using the report's column labels as headers.
+ */
+export function projectReportToCsv(report: ProjectReport): string {
+    const headers = report.columns.map(column => column.label);
+    const rows = report.rows.map(row =>
+        Object.fromEntries(report.columns.map(column => [column.label, row[column.key]]))
+    );
+    return toCsv(rows, headers);
+}
+
+/**
+ * Builds the download file name for a report, e.g. `project-12-billing-status-2024-05-01.pdf`.
+ */
+export function getProjectReportFileName(report: ProjectReport, extension: 'csv' | 'pdf'): string {
+    return `project-${report.projectId}-${report.reportType}-${report.generatedAt.substring(0, 10)}.${extension}`;
+}
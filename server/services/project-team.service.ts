@@ -0,0 +1,81 @@
+// server/services/project-team.service.ts
+import { storage } from '@server/storage/index';
+import { ProjectMember, ProjectMemberRole, ProjectMemberWithUser } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { recordAuditEvent } from './audit.service';
+
+export async function getProjectTeam(projectId: number): Promise<ProjectMemberWithUser[]> {
+    return storage.projectMembers.getMembersForProject(projectId);
+}
+
+/**
+ * Adds users to a project's team with the given role. Users who are already members
+ * have their role changed instead.
+ */
+export async function assignProjectMembers(
+    projectId: number,
+    actorId: number,
+    userIds: number[],
+    role: ProjectMemberRole
+): Promise<ProjectMember[]> {
+    const project = await storage.projects.getProject(projectId);
+    if (!project) {
+        throw new HttpError(404, 'Project not found.');
+    }
+
+    const uniqueUserIds = Array.from(new Set(userIds));
+    const users = await Promise.all(uniqueUserIds.map(id => storage.users.getUser(id)));
+    const missingUserIds = uniqueUserIds.filter((_, index) => !users[index]);
+    if (missingUserIds.length > 0) {
+        throw new HttpError(400, `Users not found: ${missingUserIds.join(', ')}`);
+    }
+
+    const members: ProjectMember[] = [];
+    for (const userId of uniqueUserIds) {
+        const existing = await storage.projectMembers.getMembership(projectId, userId);
+        if (existing?.role === role) {
+            members.push(existing);
+            continue;
+        }
+
+        const member = await storage.projectMembers.upsertMember({ projectId, userId, role, addedById: actorId });
+        members.push(member);
+
+        await recordAuditEvent({
+            projectId,
+            actorId,
+            entityType: 'project_member',
+            entityId: member.id,
+            action: existing ? 'role_changed' : 'member_added',
+            before: existing,
+            after: member,
+            metadata: { userId },
+        });
+    }
+
+    logger(`[assignProjectMembers] ${members.length} member(s) assigned as ${role} on project ${projectId} by user ${actorId}`, 'ProjectTeam');
+    return members;
+}
+
+export async function removeProjectMember(projectId: number, actorId: number, userId: number): Promise<ProjectMember> {
+    const existing = await storage.projectMembers.getMembership(projectId, userId);
+    if (!existing) {
+        throw new HttpError(404, 'User is not a member of this project.');
+    }
+
+    await storage.projectMembers.removeMember(projectId, userId);
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'project_member',
+        entityId: existing.id,
+        action: 'member_removed',
+        before: existing,
+        metadata: { userId },
+    });
+
+    logger(`[removeProjectMember] User ${userId} removed from project ${projectId} by user ${actorId}`, 'ProjectTeam');
+    return existing;
+}
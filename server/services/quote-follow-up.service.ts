@@ -0,0 +1,217 @@
+// server/services/quote-follow-up.service.ts
+import { storage } from '@server/storage/index';
+import type { Quote, QuoteFollowUpType } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { getBaseUrl } from '@server/domain.config';
+import { sendQuoteFollowUpEmail, sendQuoteRenewalRequestEmail } from '@server/email';
+import { QuoteAnalyticsRepository } from '@server/storage/repositories/quote-analytics.repository';
+import { getCustomerQuoteByToken } from './quote-revision.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FOLLOW_UP_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// Follow-up cadence, in days
+const NOT_OPENED_AFTER_DAYS = 3; // Sent but the customer never opened it
+const NO_RESPONSE_AFTER_DAYS = 2; // Opened, then no response since the last view
+const EXPIRY_WARNING_DAYS = 3; // Before the valid-until date
+
+const analyticsRepository = new QuoteAnalyticsRepository();
+
+type NudgeType = Exclude<QuoteFollowUpType, 'expired' | 'renewal_requested'>;
+
+const NUDGE_MESSAGES: Record<NudgeType, string> = {
+    not_opened: `Reminder sent: not opened ${NOT_OPENED_AFTER_DAYS} days after sending`,
+    viewed_no_response: `Follow-up sent: viewed but no response ${NO_RESPONSE_AFTER_DAYS} days after the last view`,
+    expiring_soon: `Reminder sent: expires within ${EXPIRY_WARNING_DAYS} days`,
+};
+
+export interface QuoteFollowUpRunResult {
+    expired: number;
+    followUpsSent: number;
+}
+
+export function isQuoteExpired(quote: Pick<Quote, 'status' | 'validUntil'>, now: Date = new Date()): boolean {
+    return quote.status === 'expired' || new Date(quote.validUntil) < now;
+}
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const customerQuoteUrl = (quote: Quote) => `${getBaseUrl()}/customer/quote/${quote.accessToken}`;
+
+/**
+ * The one nudge due for an open quote, if any. Keys carry the send date (or the expiry date),
+ * so a quote that is sent again starts the cadence over.
+ */
+function nudgeFor(quote: Quote, lastViewedAt: Date | null, now: Date): { type: NudgeType; eventKey: string } | null {
+    const sentAt = new Date(quote.sentAt!);
+    const validUntil = new Date(quote.validUntil);
+    if (now.getTime() - sentAt.getTime() < DAY_MS) return null;
+
+    if (validUntil.getTime() - now.getTime() <= EXPIRY_WARNING_DAYS * DAY_MS) {
+        return { type: 'expiring_soon', eventKey: `expiring_soon:${dayKey(validUntil)}` };
+    }
+
+    // A question or change request is with the team; signing also records a response
+    if (quote.status !== 'sent' || (quote.respondedAt && new Date(quote.respondedAt) >= sentAt)) return null;
+
+    const viewedSinceSent = lastViewedAt && lastViewedAt >= sentAt;
+    if (viewedSinceSent) {
+        return now.getTime() - lastViewedAt.getTime() >= NO_RESPONSE_AFTER_DAYS * DAY_MS
+            ? { type: 'viewed_no_response', eventKey: `viewed_no_response:${dayKey(sentAt)}` }
+            : null;
+    }
+    return now.getTime() - sentAt.getTime() >= NOT_OPENED_AFTER_DAYS * DAY_MS
+        ? { type: 'not_opened', eventKey: `not_opened:${dayKey(sentAt)}` }
+        : null;
+}
+
+async function expireQuote(quote: Quote): Promise<boolean> {
+    // Signed and waiting on the deposit: the customer already agreed to the quoted price
+    if (await storage.quoteSignatures.getSignatureForQuote(quote.id)) return false;
+
+    const expired = await storage.quotes.markQuoteExpired(quote.id);
+    if (!expired) return false;
+
+    const validUntil = new Date(quote.validUntil);
+    const notified = await sendQuoteFollowUpEmail({
+        recipientEmail: quote.customerEmail,
+        recipientName: quote.customerName,
+        quoteNumber: quote.quoteNumber,
+        title: quote.title,
+        quoteUrl: customerQuoteUrl(quote),
+        validUntil,
+        stage: 'expired',
+    });
+    await storage.quoteFollowUps.recordFollowUp({
+        quoteId: quote.id,
+        type: 'expired',
+        eventKey: `expired:${dayKey(validUntil)}`,
+        recipientEmail: notified ? quote.customerEmail : null,
+        message: notified ? 'Expired; customer notified and offered a renewal' : 'Expired; the customer notice could not be sent',
+        metadata: { validUntil: validUntil.toISOString(), previousStatus: quote.status },
+    });
+    return true;
+}
+
+async function sendNudge(quote: Quote, nudge: { type: NudgeType; eventKey: string }, views: number): Promise<boolean> {
+    const sent = await sendQuoteFollowUpEmail({
+        recipientEmail: quote.customerEmail,
+        recipientName: quote.customerName,
+        quoteNumber: quote.quoteNumber,
+        title: quote.title,
+        quoteUrl: customerQuoteUrl(quote),
+        validUntil: new Date(quote.validUntil),
+        stage: nudge.type,
+    });
+    if (!sent) return false;
+
+    await storage.quoteFollowUps.recordFollowUp({
+        quoteId: quote.id,
+        type: nudge.type,
+        eventKey: nudge.eventKey,
+        recipientEmail: quote.customerEmail,
+        message: NUDGE_MESSAGES[nudge.type],
+        metadata: { views },
+    });
+    return true;
+}
+
+/**
+ * Works through sent quotes still waiting on the customer: expires those past their
+ * valid-until date and sends at most one follow-up per quote per run, based on whether and
+ * when the customer viewed it. Each follow-up is logged against the quote and sent once.
+ */
+export async function processQuoteFollowUps(now: Date = new Date()): Promise<QuoteFollowUpRunResult> {
+    const result: QuoteFollowUpRunResult = { expired: 0, followUpsSent: 0 };
+    const quotes = await storage.quotes.getOpenSentQuotes();
+    if (quotes.length === 0) return result;
+
+    const quoteIds = quotes.map(quote => quote.id);
+    const eventKeys = await storage.quoteFollowUps.getEventKeysForQuotes(quoteIds);
+    const viewActivity = await analyticsRepository.getViewActivity(quoteIds);
+
+    for (const quote of quotes) {
+        try {
+            if (isQuoteExpired(quote, now)) {
+                if (await expireQuote(quote)) result.expired++;
+                continue;
+            }
+
+            const activity = viewActivity.get(quote.id);
+            const nudge = nudgeFor(quote, activity?.lastViewedAt ?? null, now);
+            if (nudge && !eventKeys.get(quote.id)?.has(nudge.eventKey) && await sendNudge(quote, nudge, activity?.views ?? 0)) {
+                result.followUpsSent++;
+            }
+        } catch (error) {
+            logger(`[processQuoteFollowUps] Quote ${quote.quoteNumber} failed: ${error instanceof Error ? error.message : error}`, 'QuoteFollowUps');
+        }
+    }
+
+    if (result.expired > 0 || result.followUpsSent > 0) {
+        logger(`[processQuoteFollowUps] Expired ${result.expired} quote(s), sent ${result.followUpsSent} follow-up(s)`, 'QuoteFollowUps');
+    }
+    return result;
+}
+
+/**
+ * Records the customer's request to renew an expired quote and lets the quote's author know.
+ * Only the first request per expiry is passed on.
+ */
+export async function requestQuoteRenewal(token: string, message: string | null): Promise<{ alreadyRequested: boolean }> {
+    const quote = await getCustomerQuoteByToken(token);
+    if (!quote) {
+        throw new HttpError(404, 'Quote not found or expired');
+    }
+    if (!isQuoteExpired(quote)) {
+        throw new HttpError(409, 'This quote is still open and can be accepted as it is.');
+    }
+
+    const author = await storage.users.getUser(quote.createdById);
+    const followUp = await storage.quoteFollowUps.recordFollowUp({
+        quoteId: quote.id,
+        type: 'renewal_requested',
+        eventKey: `renewal_requested:${dayKey(new Date(quote.validUntil))}`,
+        recipientEmail: author?.email ?? null,
+        message: message ? `Customer asked for a renewal: "${message}"` : 'Customer asked for a renewal',
+        metadata: { message },
+    });
+    if (!followUp) return { alreadyRequested: true };
+
+    if (author?.email) {
+        await sendQuoteRenewalRequestEmail({
+            recipientEmail: author.email,
+            recipientFirstName: author.firstName,
+            customerName: quote.customerName,
+            customerEmail: quote.customerEmail,
+            quoteNumber: quote.quoteNumber,
+            title: quote.title,
+            message,
+        });
+    }
+    logger(`[requestQuoteRenewal] Renewal requested for quote ${quote.quoteNumber}`, 'QuoteFollowUps');
+    return { alreadyRequested: false };
+}
+
+let followUpTimer: NodeJS.Timeout | null = null;
+let followUpRunInProgress = false;
+
+export function startQuoteFollowUpScheduler(): void {
+    if (followUpTimer) return;
+
+    const run = async () => {
+        if (followUpRunInProgress) return;
+        followUpRunInProgress = true;
+        try {
+            await processQuoteFollowUps();
+        } catch (error) {
+            logger(`[QuoteFollowUps] Run failed: ${error instanceof Error ? error.message : error}`, 'QuoteFollowUps');
+        } finally {
+            followUpRunInProgress = false;
+        }
+    };
+
+    followUpTimer = setInterval(run, FOLLOW_UP_INTERVAL_MS);
+    followUpTimer.unref();
+    setImmediate(() => { void run(); });
+}
@@ -0,0 +1,82 @@
+// server/services/quote-margin.service.ts
+import { storage } from '@server/storage/index';
+import type { QuoteWithDetails } from '@shared/schema';
+import {
+  DEFAULT_MARGIN_FLOOR_PERCENTAGE,
+  calculateQuoteMargins,
+  type QuoteMarginReport,
+} from '@shared/quote-margins';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+
+/** Lowest margin a quote may go out at without an owner's approval. */
+export function getMarginFloorPercentage(): number {
+  const configured = parseFloat(process.env.QUOTE_MARGIN_FLOOR_PERCENTAGE ?? '');
+  return Number.isFinite(configured) ? configured : DEFAULT_MARGIN_FLOOR_PERCENTAGE;
+}
+
+/**
+ * Margins on the draft quote against the floor. An approval covers the margin it was given at
+ * and anything higher, so a quote repriced further down needs approving again.
+ */
+async function buildMarginReport(quote: QuoteWithDetails): Promise<QuoteMarginReport> {
+  const summary = calculateQuoteMargins(quote, quote.lineItems ?? []);
+  const floorPercentage = getMarginFloorPercentage();
+  const belowFloor = summary.marginPercentage !== null && summary.marginPercentage < floorPercentage;
+
+  let approval: QuoteMarginReport['approval'] = null;
+  if (quote.marginApprovedAt && quote.approvedMarginPercentage != null) {
+    const approvedMarginPercentage = parseFloat(quote.approvedMarginPercentage);
+    const approver = quote.marginApprovedById ? await storage.users.getUser(quote.marginApprovedById) : null;
+    approval = {
+      approvedAt: new Date(quote.marginApprovedAt).toISOString(),
+      approvedBy: approver ? `${approver.firstName} ${approver.lastName}`.trim() : null,
+      approvedMarginPercentage,
+      coversCurrentMargin: summary.marginPercentage !== null && summary.marginPercentage >= approvedMarginPercentage,
+    };
+  }
+
+  return {
+    ...summary,
+    floorPercentage,
+    belowFloor,
+    approval,
+    requiresApproval: belowFloor && !approval?.coversCurrentMargin,
+  };
+}
+
+async function requireQuote(quoteId: number): Promise<QuoteWithDetails> {
+  const quote = await storage.quotes.getQuoteById(quoteId);
+  if (!quote) {
+    throw new HttpError(404, 'Quote not found.');
+  }
+  return quote;
+}
+
+export async function getQuoteMarginReport(quoteId: number): Promise<QuoteMarginReport> {
+  return buildMarginReport(await requireQuote(quoteId));
+}
+
+/** Owner sign-off for sending the quote at its current, below-floor margin. */
+export async function approveQuoteMargin(quoteId: number, approverId: number): Promise<QuoteMarginReport> {
+  const quote = await requireQuote(quoteId);
+  const report = await buildMarginReport(quote);
+  if (!report.requiresApproval) {
+    throw new HttpError(409, 'This quote does not need a margin approval.');
+  }
+
+  const approved = await storage.quotes.approveMargin(quoteId, approverId, report.marginPercentage!);
+  logger(`[approveQuoteMargin] Quote ${quote.quoteNumber} approved at ${report.marginPercentage}% margin by user ${approverId}`, 'QuoteMargins');
+  return buildMarginReport({ ...quote, ...approved });
+}
+
+/** Blocks sending a quote whose margin is below the floor until an owner has approved it. */
+export async function requireMarginApproval(quote: QuoteWithDetails): Promise<void> {
+  const report = await buildMarginReport(quote);
+  if (report.requiresApproval) {
+    throw new HttpError(
+      409,
+      `This quote's ${report.marginPercentage}% margin is below the ${report.floorPercentage}% floor. An owner needs to approve it before it is sent.`
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// server/services/quote-options.service.ts
+import { storage } from '@server/storage/index';
+import type { QuoteWithDetails } from '@shared/schema';
+import { resolveSelection } from '@shared/quote-options';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { applyOptionSelection, getCustomerQuoteByToken } from './quote-revision.service';
+import { isQuoteExpired } from './quote-follow-up.service';
+
+/**
+ * Saves the optional and alternate items the customer picked and returns the quote repriced for
+ * them. Choices can change until the quote is signed.
+ */
+export async function selectQuoteOptions(token: string, lineItemIds: number[]): Promise<QuoteWithDetails> {
+  const quote = await getCustomerQuoteByToken(token);
+  if (!quote) {
+    throw new HttpError(404, 'Quote not found or expired');
+  }
+  if (quote.optionsLockedAt || quote.status === 'accepted' || await storage.quoteSignatures.getSignatureForQuote(quote.id)) {
+    throw new HttpError(409, 'The options on this quote are locked in because it has been signed.');
+  }
+  if (quote.status === 'declined') {
+    throw new HttpError(409, 'This quote was declined. Please contact us for an updated proposal.');
+  }
+  if (isQuoteExpired(quote)) {
+    throw new HttpError(400, 'This quote has expired. Please contact us for an updated proposal.');
+  }
+
+  const lineItems = quote.lineItems ?? [];
+  const known = new Set(lineItems.map(item => item.id));
+  if (lineItemIds.some(id => !known.has(id))) {
+    throw new HttpError(400, 'One or more selected items are not part of this quote.');
+  }
+
+  const selected = resolveSelection(lineItems, lineItemIds);
+  const revisionNumber = quote.revisionNumber ?? null;
+  await storage.quotes.saveOptionSelection(quote.id, selected, revisionNumber);
+
+  return applyOptionSelection({ ...quote, selectedLineItemIds: selected, selectionRevisionNumber: revisionNumber });
+}
+
+/**
+ * Freezes the configuration an accepted quote is billed on. Called with the quote from
+ * getSentQuote, whose included items are the customer's choice or the quoted defaults.
+ */
+export async function lockQuoteOptions(quote: QuoteWithDetails): Promise<void> {
+  if (quote.optionsLockedAt) return;
+
+  const included = quote.includedLineItemIds ?? resolveSelection(quote.lineItems ?? []);
+  await storage.quotes.saveOptionSelection(quote.id, included, quote.revisionNumber ?? null, true);
+  logger(`[lockQuoteOptions] Quote ${quote.quoteNumber} locked with ${included.length} line items at $${quote.total}`, 'QuoteOptions');
+}
@@ -0,0 +1,220 @@
+// server/services/quote-revision.service.ts
+import { storage } from '@server/storage/index';
+import type {
+    Quote,
+    QuoteRevision,
+    QuoteRevisionDiff,
+    QuoteRevisionFieldChange,
+    QuoteRevisionItemChange,
+    QuoteRevisionSnapshot,
+    QuoteWithDetails,
+} from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { calculateQuoteTotals, hasCustomerOptions, resolveSelection } from '@shared/quote-options';
+import { withoutInternalCosts } from '@shared/quote-margins';
+
+// Quote content a customer sees. Identity, status, tracking and images stay on the live quote.
+const SNAPSHOT_FIELDS = [
+    'title', 'description',
+    'customerName', 'customerEmail', 'customerPhone', 'customerAddress',
+    'projectType', 'location',
+    'subtotal', 'discountPercentage', 'discountAmount', 'discountedSubtotal',
+    'taxRate', 'taxAmount', 'isManualTax', 'total',
+    'downPaymentPercentage', 'milestonePaymentPercentage', 'finalPaymentPercentage', 'milestoneDescription',
+    'estimatedStartDate', 'estimatedCompletionDate', 'validUntil',
+    'projectNotes', 'scopeDescription',
+] as const satisfies readonly (keyof Quote)[];
+
+const DATE_FIELDS = new Set<string>(['estimatedStartDate', 'estimatedCompletionDate', 'validUntil']);
+
+const LINE_ITEM_FIELDS = [
+    'category', 'description', 'quantity', 'unit', 'unitPrice', 'discountPercentage', 'discountAmount', 'totalPrice',
+    'selectionType', 'optionGroup', 'isDefaultSelected',
+] as const;
+const PAYMENT_STAGE_FIELDS = ['label', 'description', 'stageType', 'percentage'] as const;
+
+/**
+ * Freezes the quote as it is about to be sent. Called with the quote loaded by getQuoteById,
+ * so the snapshot carries its line items and payment stages.
+ */
+export async function snapshotQuoteRevision(quote: QuoteWithDetails, sentById: number | null): Promise<QuoteRevision> {
+    const content: Partial<Quote> = {};
+    for (const field of SNAPSHOT_FIELDS) {
+        (content as Record<string, unknown>)[field] = quote[field];
+    }
+
+    const snapshot: QuoteRevisionSnapshot = {
+        quote: content,
+        lineItems: (quote.lineItems ?? []).map(withoutInternalCosts),
+        paymentStages: quote.paymentStages ?? [],
+    };
+
+    return storage.quoteRevisions.createRevision({
+        quoteId: quote.id,
+        snapshot,
+        subtotal: quote.subtotal,
+        total: quote.total,
+        sentById,
+    });
+}
+
+function readSnapshot(revision: QuoteRevision): QuoteRevisionSnapshot {
+    const snapshot = revision.snapshot as QuoteRevisionSnapshot;
+    const content: Record<string, unknown> = { ...snapshot.quote };
+    for (const field of DATE_FIELDS) {
+        if (typeof content[field] === 'string') content[field] = new Date(content[field] as string);
+    }
+    return { ...snapshot, quote: content as Partial<Quote> };
+}
+
+/** The live quote with its sent content swapped in. */
+export function applyRevisionSnapshot<T extends QuoteWithDetails>(quote: T, revision: QuoteRevision): T {
+    const snapshot = readSnapshot(revision);
+    return {
+        ...quote,
+        ...snapshot.quote,
+        lineItems: snapshot.lineItems,
+        paymentStages: snapshot.paymentStages,
+        revisionNumber: revision.revisionNumber,
+    };
+}
+
+/**
+ * Prices the quote for the customer's chosen options. A choice made on an earlier revision no
+ * longer applies, so the quoted defaults are used until the customer chooses again.
+ */
+export function applyOptionSelection<T extends QuoteWithDetails>(quote: T): T {
+    const lineItems = quote.lineItems ?? [];
+    const choiceIsCurrent = quote.selectedLineItemIds != null &&
+        (quote.selectionRevisionNumber ?? null) === (quote.revisionNumber ?? null);
+    const includedLineItemIds = resolveSelection(lineItems, choiceIsCurrent ? quote.selectedLineItemIds : null);
+    if (!hasCustomerOptions(lineItems)) {
+        return { ...quote, includedLineItemIds };
+    }
+
+    const included = new Set(includedLineItemIds);
+    const totals = calculateQuoteTotals(quote, lineItems.filter(item => included.has(item.id)));
+    return {
+        ...quote,
+        includedLineItemIds,
+        subtotal: totals.subtotal.toFixed(2),
+        discountAmount: totals.discountAmount.toFixed(2),
+        discountedSubtotal: totals.discountedSubtotal.toFixed(2),
+        taxAmount: totals.taxAmount.toFixed(2),
+        total: totals.total.toFixed(2),
+    };
+}
+
+// Costs and margin sign-off are internal; nothing built on the sent quote carries them
+function withoutInternalFields<T extends QuoteWithDetails>(quote: T): T {
+    return {
+        ...quote,
+        lineItems: quote.lineItems?.map(withoutInternalCosts),
+        marginApprovedAt: null,
+        marginApprovedById: null,
+        approvedMarginPercentage: null,
+    };
+}
+
+// Quotes sent before revisions existed have none; their live content is what was sent
+async function withLatestRevision<T extends QuoteWithDetails>(quote: T): Promise<T> {
+    const revision = await storage.quoteRevisions.getLatestRevision(quote.id);
+    const sent = revision ? applyRevisionSnapshot(quote, revision) : { ...quote, revisionNumber: null };
+    return applyOptionSelection(withoutInternalFields(sent));
+}
+
+/** What the customer page shows: the latest sent revision, not the draft being edited. */
+export async function getCustomerQuoteByToken(token: string): Promise<QuoteWithDetails | null> {
+    const quote = await storage.quotes.getQuoteByAccessToken(token);
+    return quote ? withLatestRevision(quote) : null;
+}
+
+/** The quote as last sent and configured, used wherever an accepted quote drives project billing. */
+export async function getSentQuote(quoteId: number): Promise<QuoteWithDetails | null> {
+    const quote = await storage.quotes.getQuoteById(quoteId);
+    return quote ? withLatestRevision(quote) : null;
+}
+
+// Decimals, dates and nulls compare by their serialized form
+function normalize(value: unknown): string | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'string' && !isNaN(Date.parse(value)) && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+        return new Date(value).toISOString();
+    }
+    if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value)) return String(parseFloat(value));
+    return String(value);
+}
+
+function diffFields<F extends string>(fields: readonly F[], from: Partial<Record<F, unknown>>, to: Partial<Record<F, unknown>>): QuoteRevisionFieldChange[] {
+    return fields
+        .filter(field => normalize(from[field]) !== normalize(to[field]))
+        .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+function diffItems<T extends Record<string, any>, F extends string>(
+    fromItems: T[],
+    toItems: T[],
+    keyOf: (item: T, index: number) => string | number,
+    labelOf: (item: T) => string,
+    fields: readonly F[]
+): QuoteRevisionItemChange[] {
+    const fromByKey = new Map(fromItems.map((item, index) => [keyOf(item, index), item]));
+    const toKeys = new Set(toItems.map((item, index) => keyOf(item, index)));
+    const changes: QuoteRevisionItemChange[] = [];
+
+    fromItems.forEach((item, index) => {
+        if (!toKeys.has(keyOf(item, index))) {
+            changes.push({ change: 'removed', label: labelOf(item), fields: [] });
+        }
+    });
+    toItems.forEach((item, index) => {
+        const previous = fromByKey.get(keyOf(item, index));
+        if (!previous) {
+            changes.push({ change: 'added', label: labelOf(item), fields: [] });
+            return;
+        }
+        const fieldChanges = diffFields(fields, previous, item);
+        if (fieldChanges.length > 0) {
+            changes.push({ change: 'changed', label: labelOf(item), fields: fieldChanges });
+        }
+    });
+    return changes;
+}
+
+/**
+ * Compares two sent revisions of a quote, or a revision against the current draft when
+ * `toRevisionNumber` is null.
+ */
+export async function diffQuoteRevisions(
+    quoteId: number,
+    fromRevisionNumber: number,
+    toRevisionNumber: number | null
+): Promise<QuoteRevisionDiff> {
+    const fromRevision = await storage.quoteRevisions.getRevision(quoteId, fromRevisionNumber);
+    if (!fromRevision) {
+        throw new HttpError(404, `Revision ${fromRevisionNumber} not found for this quote.`);
+    }
+
+    let to: QuoteRevisionSnapshot;
+    if (toRevisionNumber === null) {
+        const draft: QuoteWithDetails | null = await storage.quotes.getQuoteById(quoteId);
+        if (!draft) throw new HttpError(404, 'Quote not found.');
+        to = { quote: draft, lineItems: draft.lineItems ?? [], paymentStages: draft.paymentStages ?? [] };
+    } else {
+        const toRevision = await storage.quoteRevisions.getRevision(quoteId, toRevisionNumber);
+        if (!toRevision) {
+            throw new HttpError(404, `Revision ${toRevisionNumber} not found for this quote.`);
+        }
+        to = readSnapshot(toRevision);
+    }
+    const from = readSnapshot(fromRevision);
+
+    return {
+        fromRevision: fromRevisionNumber,
+        toRevision: toRevisionNumber,
+        fields: diffFields(SNAPSHOT_FIELDS, from.quote, to.quote),
+        lineItems: diffItems(from.lineItems, to.lineItems, item => item.id, item => item.description, LINE_ITEM_FIELDS),
+        paymentStages: diffItems(from.paymentStages, to.paymentStages, (_stage, index) => index, stage => stage.label, PAYMENT_STAGE_FIELDS),
+    };
+}
@@ -0,0 +1,249 @@
+// server/services/quote-signature.service.ts
+import { createHash } from 'crypto';
+import { storage } from '@server/storage/index';
+import type { QuoteSignature, QuoteSignatureSummary, QuoteSignatureType, QuoteWithDetails } from '@shared/schema';
+import { resolvePaymentStages, type PaymentStageValues } from '@shared/quote-payment-stages';
+import {
+  QUOTE_SIGNATURE_CONSENT_TEXT,
+  QUOTE_SIGNATURE_TERMS,
+  type QuoteSignatureInput,
+} from '@shared/quote-signature';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { uploadToR2, downloadFromR2, deleteFromR2, getR2KeyFromUrl } from '@server/r2-upload';
+import { generateSignedQuotePdf } from './pdf.service';
+import { getCustomerQuoteByToken } from './quote-revision.service';
+import { isQuoteExpired } from './quote-follow-up.service';
+import { recordAuditEvent } from './audit.service';
+
+// The quote exactly as signed; its hash is printed on the PDF and stored with the signature
+export interface SignedQuoteContent {
+  quoteId: number;
+  quoteNumber: string;
+  revisionNumber: number | null;
+  title: string;
+  projectType: string;
+  location: string | null;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string | null;
+  customerAddress: string | null;
+  lineItems: { category: string; description: string; quantity: string; unit: string; unitPrice: string; totalPrice: string }[];
+  subtotal: string;
+  discountAmount: string;
+  taxRate: string;
+  taxAmount: string;
+  total: string;
+  paymentStages: PaymentStageValues[];
+  scopeDescription: string | null;
+  projectNotes: string | null;
+  estimatedStartDate: string | null;
+  estimatedCompletionDate: string | null;
+  validUntil: string;
+  terms: readonly string[];
+  consentText: string;
+}
+
+export interface SignedQuoteDocument {
+  content: SignedQuoteContent;
+  contentHash: string;
+  signerName: string;
+  signerEmail: string;
+  signatureType: QuoteSignatureType;
+  signatureData: string;
+  initials: string;
+  signedAt: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface SigningContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+const isoDate = (value: Date | string | null | undefined) => value ? new Date(value).toISOString() : null;
+
+function signedContentOf(quote: QuoteWithDetails): SignedQuoteContent {
+  return {
+    quoteId: quote.id,
+    quoteNumber: quote.quoteNumber,
+    revisionNumber: quote.revisionNumber ?? null,
+    title: quote.title,
+    projectType: quote.projectType,
+    location: quote.location ?? null,
+    customerName: quote.customerName,
+    customerEmail: quote.customerEmail,
+    customerPhone: quote.customerPhone ?? null,
+    customerAddress: quote.customerAddress ?? null,
+    lineItems: (quote.lineItems ?? []).filter(item => !quote.includedLineItemIds || quote.includedLineItemIds.includes(item.id)).map(item => ({
+      category: item.category,
+      description: item.description,
+      quantity: String(item.quantity),
+      unit: item.unit ?? 'each',
+      unitPrice: String(item.unitPrice),
+      totalPrice: String(item.totalPrice),
+    })),
+    subtotal: String(quote.subtotal ?? '0'),
+    discountAmount: String(quote.discountAmount ?? '0'),
+    taxRate: String(quote.taxRate ?? '0'),
+    taxAmount: String(quote.taxAmount ?? '0'),
+    total: String(quote.total ?? '0'),
+    paymentStages: resolvePaymentStages(quote),
+    scopeDescription: quote.scopeDescription ?? null,
+    projectNotes: quote.projectNotes ?? null,
+    estimatedStartDate: isoDate(quote.estimatedStartDate),
+    estimatedCompletionDate: isoDate(quote.estimatedCompletionDate),
+    validUntil: isoDate(quote.validUntil)!,
+    terms: QUOTE_SIGNATURE_TERMS,
+    consentText: QUOTE_SIGNATURE_CONSENT_TEXT,
+  };
+}
+
+/**
+ * Accepts a quote with the customer's signature. The signed PDF is rendered from the revision
+ * the customer is looking at, hashed, stored in R2 and recorded with the acceptance response.
+ */
+export async function signQuote(token: string, input: QuoteSignatureInput, context: SigningContext): Promise<QuoteSignature> {
+  const quote = await getCustomerQuoteByToken(token);
+  if (!quote) {
+    throw new HttpError(404, 'Quote not found or expired');
+  }
+  if (quote.status === 'accepted' || await storage.quoteSignatures.getSignatureForQuote(quote.id)) {
+    throw new HttpError(409, 'This quote has already been signed.');
+  }
+  if (quote.status === 'declined') {
+    throw new HttpError(409, 'This quote was declined. Please contact us for an updated proposal.');
+  }
+  if (isQuoteExpired(quote)) {
+    throw new HttpError(400, 'This quote has expired. Please contact us for an updated proposal.');
+  }
+
+  const content = signedContentOf(quote);
+  const signed: SignedQuoteDocument = {
+    content,
+    contentHash: sha256(JSON.stringify(content)),
+    signerName: input.signerName,
+    signerEmail: quote.customerEmail,
+    signatureType: input.signatureType,
+    signatureData: input.signatureData,
+    initials: input.initials,
+    signedAt: new Date(),
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+  };
+
+  const pdf = await generateSignedQuotePdf(signed);
+  const upload = await uploadToR2({
+    fileName: `Quote-${quote.quoteNumber}-signed.pdf`,
+    buffer: pdf,
+    mimetype: 'application/pdf',
+    path: `quotes/${quote.id}/signatures/`,
+  });
+
+  try {
+    const signature = await storage.quoteSignatures.createSignedAcceptance(
+      quote.id,
+      {
+        revisionNumber: content.revisionNumber,
+        signerName: signed.signerName,
+        signerEmail: signed.signerEmail,
+        signatureType: signed.signatureType,
+        signatureData: signed.signatureData,
+        initials: signed.initials,
+        consentText: content.consentText,
+        ipAddress: signed.ipAddress,
+        userAgent: signed.userAgent,
+        contentHash: signed.contentHash,
+        documentHash: sha256(pdf),
+        documentUrl: upload.url,
+        documentSize: pdf.length,
+        signedAt: signed.signedAt,
+      },
+      {
+        customerName: signed.signerName,
+        customerEmail: signed.signerEmail,
+        message: null,
+        ipAddress: signed.ipAddress,
+        userAgent: signed.userAgent,
+      }
+    );
+    logger(`[signQuote] Quote ${quote.quoteNumber} signed by ${signed.signerName} (content ${signed.contentHash.slice(0, 12)})`, 'QuoteSignature');
+    return signature;
+  } catch (error) {
+    // Don't leave an orphaned PDF behind when the signature could not be recorded
+    await deleteFromR2(upload.key).catch(() => undefined);
+    throw error;
+  }
+}
+
+export function summarizeSignature(signature: QuoteSignature): QuoteSignatureSummary {
+  return {
+    signerName: signature.signerName,
+    signatureType: signature.signatureType,
+    revisionNumber: signature.revisionNumber,
+    documentHash: signature.documentHash,
+    signedAt: signature.signedAt,
+  };
+}
+
+/** The stored signed PDF, checked against the hash recorded at signing. */
+export async function getSignedQuotePdf(signature: QuoteSignature): Promise<{ pdf: Buffer; intact: boolean }> {
+  const pdf = await downloadFromR2(getR2KeyFromUrl(signature.documentUrl));
+  return { pdf, intact: sha256(pdf) === signature.documentHash };
+}
+
+export async function requireQuoteSignature(quoteId: number): Promise<QuoteSignature> {
+  const signature = await storage.quoteSignatures.getSignatureForQuote(quoteId);
+  if (!signature) {
+    throw new HttpError(409, 'The quote must be signed before it can be accepted.');
+  }
+  return signature;
+}
+
+/**
+ * Files a copy of the signed PDF in the project's documents. It is a copy so that deleting the
+ * project document never removes the original signed record.
+ */
+export async function attachSignedQuoteToProject(signature: QuoteSignature, projectId: number, quoteNumber: string): Promise<void> {
+  if (signature.projectDocumentId) return;
+
+  const { pdf, intact } = await getSignedQuotePdf(signature);
+  if (!intact) {
+    throw new HttpError(500, `Signed PDF for quote ${quoteNumber} does not match its recorded hash.`);
+  }
+
+  const upload = await uploadToR2({
+    fileName: `Quote-${quoteNumber}-signed.pdf`,
+    buffer: pdf,
+    mimetype: 'application/pdf',
+    path: `projects/${projectId}/documents/`,
+  });
+
+  const document = await storage.documents.createDocument({
+    projectId,
+    name: `Signed Proposal - Quote ${quoteNumber}.pdf`,
+    description: `Signed by ${signature.signerName} on ${signature.signedAt.toISOString()}. SHA-256 ${signature.documentHash}`,
+    fileUrl: upload.url,
+    fileType: 'application/pdf',
+    fileSize: pdf.length,
+    category: 'contracts',
+    uploadedById: null,
+  });
+  if (!document) {
+    throw new HttpError(500, 'Failed to save the signed proposal to the project documents.');
+  }
+
+  await storage.quoteSignatures.linkProjectDocument(signature.id, document.id);
+  await recordAuditEvent({
+    projectId,
+    actorId: null,
+    entityType: 'document',
+    entityId: document.id,
+    action: 'created',
+    after: document,
+    metadata: { source: 'quote_signature', quoteSignatureId: signature.id },
+  });
+}
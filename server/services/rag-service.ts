@@ -26,8 +26,10 @@ import {
   InsertTaskFeedback,
   feedbackTypeEnum,
 } from '@shared/schema';
-import { eq, and, asc, desc } from 'drizzle-orm';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
 import { createNotFoundError, createBadRequestError } from '../errors';
+import { WorkCalendarRules, addWorkingDays, nextWorkingDay } from '@shared/work-calendar';
+import { getProjectCalendarRules } from './work-calendar.service';
 
 /**
  * Create a new project version
@@ -375,9 +377,54 @@ export async function getTaskFeedbackWithUserInfo(taskId: string): Promise<(Task
   }
 }
 
+/**
+ * Lays RAG tasks out on the project's working days: each task starts on the working day after
+ * all the tasks it depends on are due (finish-to-start), and the first tasks start on the
+ * project start. Due dates are inclusive, as in the scheduling service.
+ */
+function scheduleRagTasks(
+  ragTasksList: RagTask[],
+  dependencies: RagTaskDependency[],
+  projectStart: Date,
+  rules: WorkCalendarRules
+): Map<string, { startDate: Date; dueDate: Date }> {
+  const predecessors = new Map<string, string[]>();
+  for (const dep of dependencies) {
+    predecessors.set(dep.taskId, [...(predecessors.get(dep.taskId) ?? []), dep.dependsOnTaskId]);
+  }
+
+  const schedule = new Map<string, { startDate: Date; dueDate: Date }>();
+  const firstDay = nextWorkingDay(rules, projectStart);
+  let remaining = [...ragTasksList];
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(task =>
+      (predecessors.get(task.id) ?? []).every(predId => schedule.has(predId) || !ragTasksList.some(t => t.id === predId))
+    );
+    if (ready.length === 0) {
+      throw createBadRequestError('RAG task dependencies contain a cycle; fix them before converting.');
+    }
+
+    for (const task of ready) {
+      const startDate = (predecessors.get(task.id) ?? [])
+        .map(predId => schedule.get(predId)?.dueDate)
+        .filter((date): date is Date => !!date)
+        .map(dueDate => addWorkingDays(rules, dueDate, 1))
+        .reduce((latest, date) => (date > latest ? date : latest), firstDay);
+      // Partial days still occupy the crew for a whole working day
+      const workingDays = Math.max(1, Math.ceil(Number(task.durationDays)));
+      schedule.set(task.id, { startDate, dueDate: addWorkingDays(rules, startDate, workingDays - 1) });
+    }
+    remaining = remaining.filter(task => !schedule.has(task.id));
+  }
+
+  return schedule;
+}
+
 /**
  * Convert RAG tasks to regular project tasks
- * This function will create regular tasks from RAG tasks that can be used in the project's task list
+ * This function will create regular tasks from RAG tasks that can be used in the project's task list.
+ * Tasks are dated on the project's work calendar, chained from their dependencies.
  */
 export async function convertRagTasksToProjectTasks(versionId: string, projectId: number): Promise<void> {
   try {
@@ -412,6 +459,17 @@ export async function convertRagTasksToProjectTasks(versionId: string, projectId
       throw createBadRequestError('No RAG tasks found for this version');
     }
 
+    const ragDependencies: RagTaskDependency[] = await db.query.ragTaskDependencies.findMany({
+      where: inArray(ragTaskDependencies.taskId, ragTasksList.map((ragTask: RagTask) => ragTask.id)),
+    });
+
+    const rules = await getProjectCalendarRules(projectId);
+    const today = new Date();
+    const projectStart = projectExists.startDate
+      ? new Date(projectExists.startDate)
+      : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+    const ragSchedule = scheduleRagTasks(ragTasksList, ragDependencies, projectStart, rules);
+
     // Begin a transaction
     await db.transaction(async (tx) => {
       // Insert regular tasks for each RAG task
@@ -421,7 +479,9 @@ export async function convertRagTasksToProjectTasks(versionId: string, projectId
         description: ragTask.description,
         status: 'todo',
         priority: 'medium',
-        estimatedHours: String(Number(ragTask.durationDays) * 8), // Convert days to hours (8-hour days) as string
+        estimatedHours: String(Number(ragTask.durationDays) * rules.hoursPerDay), // Convert days to hours using the calendar's working day
+        startDate: ragSchedule.get(ragTask.id)!.startDate,
+        dueDate: ragSchedule.get(ragTask.id)!.dueDate,
         // Don't set publishedAt - tasks start unpublished
       }));
 
@@ -440,9 +500,7 @@ export async function convertRagTasksToProjectTasks(versionId: string, projectId
 
       // For each RAG task, get its dependencies and create regular task dependencies
       for (const ragTask of ragTasksList) {
-        const dependencies = await db.query.ragTaskDependencies.findMany({
-          where: eq(ragTaskDependencies.taskId, ragTask.id),
-        });
+        const dependencies = ragDependencies.filter(dep => dep.taskId === ragTask.id);
 
         // Skip if no dependencies
         if (dependencies.length === 0) continue;
@@ -0,0 +1,111 @@
+// server/services/retainage.service.ts
+import { z } from 'zod';
+import { storage } from '@server/storage/index';
+import type { Invoice, Project } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { recordAuditEvent } from './audit.service';
+import { isProjectArchived } from './project-archive.service';
+
+export const MAX_RETAINAGE_PERCENTAGE = 25;
+
+export const retainageSettingsSchema = z.object({
+  percentage: z.number()
+    .min(0, 'Retainage cannot be negative.')
+    .max(MAX_RETAINAGE_PERCENTAGE, `Retainage cannot exceed ${MAX_RETAINAGE_PERCENTAGE}%.`)
+    .multipleOf(0.01),
+});
+
+export const retainageReleaseSchema = z.object({
+  // Defaults to the full held balance
+  amount: z.number().positive().multipleOf(0.01).optional(),
+});
+
+export type RetainageSettingsInput = z.infer<typeof retainageSettingsSchema>;
+
+export interface RetainageSummary {
+  percentage: number;
+  withheld: number; // Held back across all progress invoices
+  released: number; // Billed back on retainage-release invoices
+  balance: number; // Still held and not yet released
+  releaseInvoices: Invoice[];
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Amount fields for a progress invoice with the project's retainage withheld. The customer is
+ * billed `amount`; the difference from `grossAmount` is added to the project's retainage balance.
+ */
+export function withRetainage(project: Pick<Project, 'retainagePercentage'>, grossAmount: number) {
+  const percentage = Number(project.retainagePercentage) || 0;
+  const gross = roundCents(grossAmount);
+  const retainage = roundCents((gross * percentage) / 100);
+
+  return {
+    amount: (gross - retainage).toFixed(2),
+    grossAmount: gross.toFixed(2),
+    retainagePercentage: percentage.toFixed(2),
+    retainageAmount: retainage.toFixed(2),
+  };
+}
+
+/** Totals retainage for a project from its invoices. Cancelled invoices hold nothing back. */
+export function summarizeRetainage(project: Pick<Project, 'retainagePercentage'>, invoices: Invoice[]): RetainageSummary {
+  const active = invoices.filter(invoice => invoice.status !== 'cancelled');
+  const releaseInvoices = active.filter(invoice => invoice.invoiceType === 'retainage_release');
+
+  const withheld = roundCents(active.reduce((sum, invoice) => sum + Number(invoice.retainageAmount || 0), 0));
+  const released = roundCents(releaseInvoices.reduce((sum, invoice) => sum + Number(invoice.amount), 0));
+
+  return {
+    percentage: Number(project.retainagePercentage) || 0,
+    withheld,
+    released,
+    balance: roundCents(withheld - released),
+    releaseInvoices,
+  };
+}
+
+async function getProjectOrThrow(projectId: number): Promise<Project> {
+  const project = await storage.projects.getProject(projectId);
+  if (!project) {
+    throw new HttpError(404, 'Project not found.');
+  }
+  return project;
+}
+
+export async function getRetainageSummary(projectId: number): Promise<RetainageSummary> {
+  const project = await getProjectOrThrow(projectId);
+  const invoices = await storage.invoices.getInvoicesForProject(projectId);
+  return summarizeRetainage(project, invoices);
+}
+
+/** Changes the percentage withheld from future invoices. Existing invoices keep their retainage. */
+export async function updateRetainagePercentage(
+  projectId: number,
+  actorId: number,
+  input: RetainageSettingsInput
+): Promise<Project> {
+  const project = await getProjectOrThrow(projectId);
+  if (isProjectArchived(project)) {
+    throw new HttpError(409, 'Billing is disabled for archived projects.');
+  }
+
+  const updated = await storage.projects.setRetainagePercentage(projectId, input.percentage.toFixed(2));
+  if (!updated) {
+    throw new HttpError(404, 'Project not found.');
+  }
+
+  await recordAuditEvent({
+    projectId,
+    actorId,
+    entityType: 'project',
+    entityId: projectId,
+    action: 'retainage_updated',
+    before: project,
+    after: updated,
+  });
+  logger(`[updateRetainagePercentage] Project ${projectId} retainage set to ${input.percentage}%`, 'Retainage');
+  return updated;
+}
@@ -0,0 +1,497 @@
+// server/services/scheduling.service.ts
+import { storage } from '@server/storage/index';
+import { Task, TaskDependency, TaskDependencyType } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import {
+    DEFAULT_CALENDAR_RULES,
+    WorkCalendarRules,
+    addWorkingDays,
+    nextWorkingDay,
+    withTimeOf,
+    workingDaysBetween,
+} from '@shared/work-calendar';
+import { recordAuditEvent } from './audit.service';
+import { getProjectCalendarRules } from './work-calendar.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduledTask {
+    taskId: number;
+    title: string;
+    status: string;
+    startDate: Date;
+    dueDate: Date;
+    durationDays: number;
+    earlyStart: Date;
+    earlyFinish: Date;
+    lateStart: Date;
+    lateFinish: Date;
+    totalFloatDays: number;
+    isCritical: boolean;
+    predecessorIds: number[];
+    successorIds: number[];
+}
+
+export interface ScheduleConflict {
+    taskId: number;
+    predecessorId: number;
+    type: TaskDependencyType;
+    lagDays: number;
+    currentStartDate: Date;
+    requiredStartDate: Date;
+    shiftDays: number;
+}
+
+export interface ProjectScheduleAnalysis {
+    projectStart: Date | null;
+    projectFinish: Date | null;
+    tasks: ScheduledTask[];
+    criticalPath: number[];
+    conflicts: ScheduleConflict[];
+    unscheduledTaskIds: number[];
+}
+
+export interface RescheduleChange {
+    taskId: number;
+    title: string;
+    currentStartDate: Date;
+    currentDueDate: Date;
+    proposedStartDate: Date;
+    proposedDueDate: Date;
+    shiftDays: number;
+}
+
+export interface RescheduleProposal {
+    sourceTaskId: number;
+    changes: RescheduleChange[];
+}
+
+// A task placed on the working-day grid: offsets count working days from the earliest task start.
+// Due dates are inclusive, so a task finishes at offset start + duration and an FS successor
+// with no lag starts on the next working day.
+interface ScheduleNode {
+    task: Task;
+    start: number;
+    duration: number;
+}
+
+interface DependencyEdge {
+    predecessorId: number;
+    successorId: number;
+    type: TaskDependencyType;
+    lagDays: number;
+}
+
+function toEdge(dependency: TaskDependency): DependencyEdge {
+    return {
+        predecessorId: dependency.predecessorId,
+        successorId: dependency.successorId,
+        type: (dependency.type ?? 'FS') as TaskDependencyType,
+        lagDays: dependency.lagDays ?? 0,
+    };
+}
+
+/**
+ * Earliest start a successor of the given duration may have, given its predecessor's
+ * start and finish offsets.
+ */
+function requiredSuccessorStart(edge: DependencyEdge, predStart: number, predFinish: number, succDuration: number): number {
+    switch (edge.type) {
+        case 'SS': return predStart + edge.lagDays;
+        case 'FF': return predFinish + edge.lagDays - succDuration;
+        case 'SF': return predStart + edge.lagDays - succDuration;
+        case 'FS':
+        default: return predFinish + edge.lagDays;
+    }
+}
+
+/**
+ * Latest finish a predecessor of the given duration may have without delaying its
+ * successor's late start or finish.
+ */
+function latestPredecessorFinish(edge: DependencyEdge, succLateStart: number, succLateFinish: number, predDuration: number): number {
+    switch (edge.type) {
+        case 'SS': return succLateStart - edge.lagDays + predDuration;
+        case 'FF': return succLateFinish - edge.lagDays;
+        case 'SF': return succLateFinish - edge.lagDays + predDuration;
+        case 'FS':
+        default: return succLateStart - edge.lagDays;
+    }
+}
+
+/**
+ * Places dated tasks on a working-day grid. Starts on non-working days count from the next
+ * working day. Every task takes at least one working day, its due day included, so tasks with
+ * only one date are one day long; tasks with no dates, and cancelled tasks, are left out of
+ * the network.
+ */
+function buildNodes(
+    tasks: Task[],
+    rules: WorkCalendarRules
+): { nodes: Map<number, ScheduleNode>; origin: Date | null; unscheduledTaskIds: number[] } {
+    const unscheduledTaskIds: number[] = [];
+    const dated: { task: Task; start: Date; finish: Date }[] = [];
+
+    for (const task of tasks) {
+        if (task.status === 'cancelled') continue;
+        const start = task.startDate ?? task.dueDate;
+        const finish = task.dueDate ?? task.startDate;
+        if (!start || !finish) {
+            unscheduledTaskIds.push(task.id);
+            continue;
+        }
+        dated.push({ task, start: nextWorkingDay(rules, new Date(start)), finish: new Date(finish) });
+    }
+
+    if (dated.length === 0) {
+        return { nodes: new Map(), origin: null, unscheduledTaskIds };
+    }
+
+    const origin = new Date(Math.min(...dated.map(d => d.start.getTime())));
+    const nodes = new Map<number, ScheduleNode>();
+    for (const { task, start, finish } of dated) {
+        nodes.set(task.id, {
+            task,
+            start: workingDaysBetween(rules, origin, start),
+            duration: Math.max(1, workingDaysBetween(rules, start, new Date(finish.getTime() + DAY_MS))),
+        });
+    }
+    return { nodes, origin, unscheduledTaskIds };
+}
+
+/**
+ * Orders task ids so every predecessor comes before its successors (Kahn's algorithm).
+ * @throws HttpError 409 if the dependencies contain a cycle.
+ */
+function topologicalOrder(taskIds: number[], edges: DependencyEdge[]): number[] {
+    const inDegree = new Map<number, number>(taskIds.map(id => [id, 0]));
+    const outgoing = new Map<number, number[]>();
+    for (const edge of edges) {
+        inDegree.set(edge.successorId, (inDegree.get(edge.successorId) ?? 0) + 1);
+        outgoing.set(edge.predecessorId, [...(outgoing.get(edge.predecessorId) ?? []), edge.successorId]);
+    }
+
+    const queue = taskIds.filter(id => inDegree.get(id) === 0);
+    const order: number[] = [];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        order.push(id);
+        for (const successorId of outgoing.get(id) ?? []) {
+            const remaining = inDegree.get(successorId)! - 1;
+            inDegree.set(successorId, remaining);
+            if (remaining === 0) queue.push(successorId);
+        }
+    }
+
+    if (order.length !== taskIds.length) {
+        const cyclicTaskIds = taskIds.filter(id => !order.includes(id));
+        throw new HttpError(409, 'Task dependencies contain a cycle. Remove one of the links to schedule this project.', { taskIds: cyclicTaskIds });
+    }
+    return order;
+}
+
+/**
+ * Returns the chain of task ids that would close a loop if predecessorId -> successorId
+ * were added, or null if the new link is safe.
+ */
+export function findDependencyCycle(
+    dependencies: Pick<TaskDependency, 'predecessorId' | 'successorId'>[],
+    predecessorId: number,
+    successorId: number
+): number[] | null {
+    if (predecessorId === successorId) return [predecessorId, successorId];
+
+    const outgoing = new Map<number, number[]>();
+    for (const dep of dependencies) {
+        outgoing.set(dep.predecessorId, [...(outgoing.get(dep.predecessorId) ?? []), dep.successorId]);
+    }
+
+    // Walk forward from the new successor; reaching the new predecessor closes a loop
+    const parent = new Map<number, number>();
+    const visited = new Set<number>([successorId]);
+    const stack = [successorId];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === predecessorId) {
+            const path = [current];
+            let node = current;
+            while (parent.has(node)) {
+                node = parent.get(node)!;
+                path.unshift(node);
+            }
+            return [predecessorId, ...path];
+        }
+        for (const next of outgoing.get(current) ?? []) {
+            if (visited.has(next)) continue;
+            visited.add(next);
+            parent.set(next, current);
+            stack.push(next);
+        }
+    }
+    return null;
+}
+
+/**
+ * Computes early/late dates, total float and the critical path for a set of tasks using
+ * the critical path method. Durations, lags and float are in working days of the given
+ * calendar. Tasks without predecessors keep their planned start.
+ */
+export function analyzeSchedule(
+    tasks: Task[],
+    dependencies: TaskDependency[],
+    rules: WorkCalendarRules = DEFAULT_CALENDAR_RULES
+): ProjectScheduleAnalysis {
+    const { nodes, origin, unscheduledTaskIds } = buildNodes(tasks, rules);
+    if (origin === null) {
+        return { projectStart: null, projectFinish: null, tasks: [], criticalPath: [], conflicts: [], unscheduledTaskIds };
+    }
+
+    const edges = dependencies
+        .map(toEdge)
+        .filter(edge => nodes.has(edge.predecessorId) && nodes.has(edge.successorId));
+    const incoming = new Map<number, DependencyEdge[]>();
+    const outgoing = new Map<number, DependencyEdge[]>();
+    for (const edge of edges) {
+        incoming.set(edge.successorId, [...(incoming.get(edge.successorId) ?? []), edge]);
+        outgoing.set(edge.predecessorId, [...(outgoing.get(edge.predecessorId) ?? []), edge]);
+    }
+
+    const order = topologicalOrder(Array.from(nodes.keys()), edges);
+
+    // Forward pass
+    const earlyStart = new Map<number, number>();
+    const earlyFinish = new Map<number, number>();
+    for (const id of order) {
+        const node = nodes.get(id)!;
+        const preds = incoming.get(id) ?? [];
+        const es = preds.length === 0
+            ? node.start
+            : Math.max(...preds.map(edge => requiredSuccessorStart(
+                edge,
+                earlyStart.get(edge.predecessorId)!,
+                earlyFinish.get(edge.predecessorId)!,
+                node.duration
+            )));
+        earlyStart.set(id, es);
+        earlyFinish.set(id, es + node.duration);
+    }
+    const finish = Math.max(...Array.from(earlyFinish.values()));
+
+    // Backward pass
+    const lateStart = new Map<number, number>();
+    const lateFinish = new Map<number, number>();
+    for (const id of [...order].reverse()) {
+        const node = nodes.get(id)!;
+        const succs = outgoing.get(id) ?? [];
+        const lf = succs.length === 0
+            ? finish
+            : Math.min(...succs.map(edge => latestPredecessorFinish(
+                edge,
+                lateStart.get(edge.successorId)!,
+                lateFinish.get(edge.successorId)!,
+                node.duration
+            )));
+        lateFinish.set(id, lf);
+        lateStart.set(id, lf - node.duration);
+    }
+
+    const toDate = (offset: number) => addWorkingDays(rules, origin, offset);
+    // Finish offsets are exclusive; the finish date is the last working day of the task
+    const toFinishDate = (offset: number) => toDate(offset - 1);
+
+    // Planned dates that start before a predecessor allows
+    const conflicts: ScheduleConflict[] = [];
+    for (const edge of edges) {
+        const pred = nodes.get(edge.predecessorId)!;
+        const succ = nodes.get(edge.successorId)!;
+        const required = requiredSuccessorStart(edge, pred.start, pred.start + pred.duration, succ.duration);
+        if (succ.start < required) {
+            conflicts.push({
+                taskId: edge.successorId,
+                predecessorId: edge.predecessorId,
+                type: edge.type,
+                lagDays: edge.lagDays,
+                currentStartDate: toDate(succ.start),
+                requiredStartDate: toDate(required),
+                shiftDays: required - succ.start,
+            });
+        }
+    }
+
+    const scheduled: ScheduledTask[] = order.map(id => {
+        const { task, duration } = nodes.get(id)!;
+        const totalFloatDays = lateStart.get(id)! - earlyStart.get(id)!;
+        return {
+            taskId: id,
+            title: task.title,
+            status: task.status,
+            startDate: new Date(task.startDate ?? task.dueDate!),
+            dueDate: new Date(task.dueDate ?? task.startDate!),
+            durationDays: duration,
+            earlyStart: toDate(earlyStart.get(id)!),
+            earlyFinish: toFinishDate(earlyFinish.get(id)!),
+            lateStart: toDate(lateStart.get(id)!),
+            lateFinish: toFinishDate(lateFinish.get(id)!),
+            totalFloatDays,
+            isCritical: totalFloatDays <= 0,
+            predecessorIds: (incoming.get(id) ?? []).map(edge => edge.predecessorId),
+            successorIds: (outgoing.get(id) ?? []).map(edge => edge.successorId),
+        };
+    }).sort((a, b) => a.earlyStart.getTime() - b.earlyStart.getTime() || a.taskId - b.taskId);
+
+    return {
+        projectStart: origin,
+        projectFinish: toFinishDate(finish),
+        tasks: scheduled,
+        criticalPath: scheduled.filter(t => t.isCritical).map(t => t.taskId),
+        conflicts,
+        unscheduledTaskIds,
+    };
+}
+
+/**
+ * Works out how far each task downstream of sourceTaskId has to move so that no
+ * dependency is violated by the source task's current dates. Tasks are only pushed
+ * later, never pulled earlier, and keep their duration in working days.
+ */
+export function planDownstreamShift(
+    tasks: Task[],
+    dependencies: TaskDependency[],
+    sourceTaskId: number,
+    rules: WorkCalendarRules = DEFAULT_CALENDAR_RULES
+): RescheduleProposal {
+    const { nodes, origin } = buildNodes(tasks, rules);
+    if (origin === null || !nodes.has(sourceTaskId)) {
+        return { sourceTaskId, changes: [] };
+    }
+
+    const edges = dependencies
+        .map(toEdge)
+        .filter(edge => nodes.has(edge.predecessorId) && nodes.has(edge.successorId));
+    const incoming = new Map<number, DependencyEdge[]>();
+    const outgoing = new Map<number, DependencyEdge[]>();
+    for (const edge of edges) {
+        incoming.set(edge.successorId, [...(incoming.get(edge.successorId) ?? []), edge]);
+        outgoing.set(edge.predecessorId, [...(outgoing.get(edge.predecessorId) ?? []), edge]);
+    }
+
+    // Only tasks reachable from the source can be affected by its dates
+    const downstream = new Set<number>();
+    const stack = [sourceTaskId];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        for (const edge of outgoing.get(id) ?? []) {
+            if (!downstream.has(edge.successorId)) {
+                downstream.add(edge.successorId);
+                stack.push(edge.successorId);
+            }
+        }
+    }
+
+    const proposedStart = new Map<number, number>();
+    const startOf = (id: number) => proposedStart.get(id) ?? nodes.get(id)!.start;
+    const changes: RescheduleChange[] = [];
+
+    for (const id of topologicalOrder(Array.from(nodes.keys()), edges)) {
+        if (!downstream.has(id)) continue;
+        const node = nodes.get(id)!;
+        const required = Math.max(...(incoming.get(id) ?? []).map(edge => {
+            const predStart = startOf(edge.predecessorId);
+            return requiredSuccessorStart(edge, predStart, predStart + nodes.get(edge.predecessorId)!.duration, node.duration);
+        }));
+        if (required <= node.start) continue;
+
+        const shiftDays = required - node.start;
+        proposedStart.set(id, required);
+
+        // Land on working days but keep the stored times of day
+        const currentStartDate = new Date(node.task.startDate ?? node.task.dueDate!);
+        const currentDueDate = new Date(node.task.dueDate ?? node.task.startDate!);
+        const proposedStartDay = addWorkingDays(rules, origin, required);
+        changes.push({
+            taskId: id,
+            title: node.task.title,
+            currentStartDate,
+            currentDueDate,
+            proposedStartDate: withTimeOf(proposedStartDay, currentStartDate),
+            proposedDueDate: withTimeOf(addWorkingDays(rules, proposedStartDay, node.duration - 1), currentDueDate),
+            shiftDays,
+        });
+    }
+
+    return { sourceTaskId, changes };
+}
+
+async function loadProjectNetwork(
+    projectId: number
+): Promise<{ tasks: Task[]; dependencies: TaskDependency[]; rules: WorkCalendarRules }> {
+    const [tasks, dependencies, rules] = await Promise.all([
+        storage.tasks.getTasksForProject(projectId),
+        storage.tasks.getDependenciesForProject(projectId),
+        getProjectCalendarRules(projectId),
+    ]);
+    return { tasks, dependencies, rules };
+}
+
+export async function getProjectSchedule(projectId: number): Promise<ProjectScheduleAnalysis> {
+    const { tasks, dependencies, rules } = await loadProjectNetwork(projectId);
+    return analyzeSchedule(tasks, dependencies, rules);
+}
+
+/**
+ * Rejects a new dependency that would make the project's task graph cyclic.
+ * @throws HttpError 409 with the offending chain of task ids.
+ */
+export async function assertDependencyIsAcyclic(projectId: number, predecessorId: number, successorId: number): Promise<void> {
+    const dependencies = await storage.tasks.getDependenciesForProject(projectId);
+    const cycle = findDependencyCycle(dependencies, predecessorId, successorId);
+    if (cycle) {
+        throw new HttpError(
+            409,
+            `Adding this dependency would create a cycle: ${cycle.map(id => `Task ${id}`).join(' -> ')}.`,
+            { cycle }
+        );
+    }
+}
+
+export async function previewDownstreamShift(projectId: number, taskId: number): Promise<RescheduleProposal> {
+    const { tasks, dependencies, rules } = await loadProjectNetwork(projectId);
+    if (!tasks.some(task => task.id === taskId)) {
+        throw new HttpError(404, 'Task not found in this project.');
+    }
+    return planDownstreamShift(tasks, dependencies, taskId, rules);
+}
+
+/**
+ * Recomputes the downstream shift for a task and writes it in one transaction. The plan is
+ * always rebuilt from the stored dates rather than trusted from the client.
+ */
+export async function applyDownstreamShift(projectId: number, taskId: number, actorId: number): Promise<RescheduleProposal> {
+    const proposal = await previewDownstreamShift(projectId, taskId);
+    if (proposal.changes.length === 0) {
+        return proposal;
+    }
+
+    await storage.tasks.rescheduleTasks(proposal.changes.map(change => ({
+        taskId: change.taskId,
+        startDate: change.proposedStartDate,
+        dueDate: change.proposedDueDate,
+    })));
+
+    for (const change of proposal.changes) {
+        await recordAuditEvent({
+            projectId,
+            actorId,
+            entityType: 'task',
+            entityId: change.taskId,
+            action: 'rescheduled',
+            before: { startDate: change.currentStartDate, dueDate: change.currentDueDate },
+            after: { startDate: change.proposedStartDate, dueDate: change.proposedDueDate },
+            metadata: { sourceTaskId: taskId, shiftDays: change.shiftDays },
+        });
+    }
+
+    logger(`[applyDownstreamShift] Shifted ${proposal.changes.length} task(s) after task ${taskId} in project ${projectId}`, 'Scheduling');
+    return proposal;
+}
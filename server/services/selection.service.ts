@@ -0,0 +1,433 @@
+// server/services/selection.service.ts
+import { z } from 'zod';
+import { randomBytes } from 'crypto';
+import { storage } from '@server/storage/index';
+import {
+    Selection,
+    SelectionOption,
+    SelectionWithUsers,
+    Invoice,
+    User,
+    selectionOptionSchema,
+} from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { sendSelectionDeadlineReminderEmail } from '@server/email';
+import { recordAuditEvent } from './audit.service';
+import { isProjectArchived } from './project-archive.service';
+import { PaymentService } from './payment.service';
+
+const paymentService = new PaymentService();
+
+// Clients are first reminded this many days before a selection deadline
+const REMINDER_LEAD_DAYS = 3;
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000; // hourly
+const CHANGE_ORDER_CLAIM_STALE_MS = 5 * 60 * 1000; // A billing claim older than this was abandoned
+
+// Option ids are optional on input; new options get one assigned
+const selectionOptionInputSchema = selectionOptionSchema.extend({
+    id: selectionOptionSchema.shape.id.optional(),
+});
+
+export const selectionInputSchema = z.object({
+    category: z.string().trim().min(1).max(100),
+    title: z.string().trim().min(1).max(200),
+    description: z.string().max(5000).optional().nullable(),
+    options: z.array(selectionOptionInputSchema).max(50).default([]),
+    allowance: z.coerce.number().min(0).optional().nullable(),
+    selectionDeadline: z.coerce.date().optional().nullable(),
+});
+
+export const selectionUpdateSchema = selectionInputSchema.partial();
+
+export const chooseSelectionSchema = z.object({
+    optionId: z.string().min(1),
+});
+
+export type SelectionInput = z.infer<typeof selectionInputSchema>;
+export type SelectionUpdateInput = z.infer<typeof selectionUpdateSchema>;
+
+function normalizeOptions(options: z.infer<typeof selectionOptionInputSchema>[]): SelectionOption[] {
+    const normalized = options.map(option => ({
+        ...option,
+        id: option.id || `opt_${randomBytes(6).toString('hex')}`,
+    }));
+
+    const ids = new Set(normalized.map(option => option.id));
+    if (ids.size !== normalized.length) {
+        throw new HttpError(400, 'Selection option ids must be unique.');
+    }
+    return normalized;
+}
+
+export function getSelectionOptions(selection: Pick<Selection, 'options'>): SelectionOption[] {
+    return Array.isArray(selection.options) ? (selection.options as SelectionOption[]) : [];
+}
+
+/**
+ * Difference between the chosen option's price and the allowance. Positive means the client
+ * chose above the allowance. Null when there is no allowance or nothing has been chosen.
+ */
+export function getAllowanceDelta(selection: Pick<Selection, 'allowance' | 'selectedPrice'>): number | null {
+    if (selection.allowance === null || selection.selectedPrice === null) {
+        return null;
+    }
+    return parseFloat((parseFloat(selection.selectedPrice) - parseFloat(selection.allowance)).toFixed(2));
+}
+
+async function getSelectionOrThrow(projectId: number, selectionId: number): Promise<SelectionWithUsers> {
+    const selection = await storage.selections.getSelectionById(projectId, selectionId);
+    if (!selection) {
+        throw new HttpError(404, 'Selection not found.');
+    }
+    return selection;
+}
+
+export async function getProjectSelections(projectId: number): Promise<SelectionWithUsers[]> {
+    return storage.selections.getSelectionsForProject(projectId);
+}
+
+export async function getSelection(projectId: number, selectionId: number): Promise<SelectionWithUsers> {
+    return getSelectionOrThrow(projectId, selectionId);
+}
+
+/**
+ * Selections across every (non-archived) project the user can see.
+ */
+export async function getSelectionsForUser(user: User): Promise<SelectionWithUsers[]> {
+    const projects = user.role.toLowerCase() === 'admin'
+        ? await storage.projects.getAllProjects()
+        : await storage.projects.getProjectsForUser(String(user.id));
+    return storage.selections.getSelectionsForProjects(projects.map(project => project.id));
+}
+
+export async function createSelection(projectId: number, actorId: number, input: SelectionInput): Promise<Selection> {
+    const selection = await storage.selections.createSelection({
+        projectId,
+        category: input.category,
+        title: input.title,
+        description: input.description ?? null,
+        options: normalizeOptions(input.options),
+        allowance: input.allowance != null ? input.allowance.toFixed(2) : null,
+        selectionDeadline: input.selectionDeadline ?? null,
+        status: 'pending',
+        createdById: actorId,
+    });
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'selection',
+        entityId: selection.id,
+        action: 'created',
+        after: selection,
+    });
+
+    return selection;
+}
+
+export async function updateSelection(
+    projectId: number,
+    selectionId: number,
+    actorId: number,
+    input: SelectionUpdateInput
+): Promise<Selection> {
+    const existing = await getSelectionOrThrow(projectId, selectionId);
+    if (existing.status === 'approved') {
+        throw new HttpError(409, 'Approved selections cannot be edited.');
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (input.category !== undefined) updateData.category = input.category;
+    if (input.title !== undefined) updateData.title = input.title;
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.selectionDeadline !== undefined) {
+        updateData.selectionDeadline = input.selectionDeadline;
+        updateData.reminderSentAt = null; // A new deadline restarts the reminder cadence
+    }
+    if (input.allowance !== undefined) {
+        updateData.allowance = input.allowance != null ? input.allowance.toFixed(2) : null;
+    }
+    if (input.options !== undefined) {
+        const options = normalizeOptions(input.options);
+        updateData.options = options;
+
+        // Clear the client's choice if the option they picked was removed
+        if (existing.selectedOption && !options.some(option => option.id === existing.selectedOption)) {
+            Object.assign(updateData, {
+                status: 'pending',
+                selectedOption: null,
+                selectedPrice: null,
+                selectedById: null,
+                selectedAt: null,
+            });
+        }
+    }
+
+    const updated = await storage.selections.updateSelection(selectionId, updateData);
+    if (!updated) {
+        throw new HttpError(404, 'Selection not found.');
+    }
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'selection',
+        entityId: selectionId,
+        action: 'updated',
+        before: existing,
+        after: updated,
+    });
+
+    return updated;
+}
+
+export async function deleteSelection(projectId: number, selectionId: number, actorId: number): Promise<void> {
+    const existing = await getSelectionOrThrow(projectId, selectionId);
+    if (existing.changeOrderInvoiceId) {
+        throw new HttpError(409, 'Selection has been invoiced and cannot be deleted.');
+    }
+
+    await storage.selections.deleteSelection(selectionId);
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'selection',
+        entityId: selectionId,
+        action: 'deleted',
+        before: existing,
+    });
+}
+
+/**
+ * Records the client's choice. The choice can be changed until a PM approves it.
+ */
+export async function chooseSelectionOption(
+    projectId: number,
+    selectionId: number,
+    actorId: number,
+    optionId: string
+): Promise<Selection> {
+    const existing = await getSelectionOrThrow(projectId, selectionId);
+    if (existing.status === 'approved') {
+        throw new HttpError(409, 'This selection has already been approved.');
+    }
+
+    const option = getSelectionOptions(existing).find(o => o.id === optionId);
+    if (!option) {
+        throw new HttpError(400, 'Selected option does not exist on this selection.');
+    }
+
+    const updated = await storage.selections.updateSelection(selectionId, {
+        status: 'selected',
+        selectedOption: option.id,
+        selectedPrice: option.price.toFixed(2),
+        selectedById: actorId,
+        selectedAt: new Date(),
+    });
+    if (!updated) {
+        throw new HttpError(404, 'Selection not found.');
+    }
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'selection',
+        entityId: selectionId,
+        action: 'selected',
+        before: existing,
+        after: updated,
+        metadata: { optionId: option.id, optionName: option.name, price: option.price },
+    });
+
+    return updated;
+}
+
+/**
+ * PM sign-off on the client's choice. Locks the selection.
+ */
+export async function approveSelection(projectId: number, selectionId: number, actorId: number): Promise<Selection> {
+    const existing = await getSelectionOrThrow(projectId, selectionId);
+    if (existing.status !== 'selected') {
+        throw new HttpError(409, existing.status === 'approved'
+            ? 'This selection has already been approved.'
+            : 'The client has not chosen an option yet.');
+    }
+
+    const updated = await storage.selections.updateSelection(selectionId, {
+        status: 'approved',
+        approvedById: actorId,
+        approvedAt: new Date(),
+    });
+    if (!updated) {
+        throw new HttpError(404, 'Selection not found.');
+    }
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'selection',
+        entityId: selectionId,
+        action: 'approved',
+        before: existing,
+        after: updated,
+        metadata: { optionId: existing.selectedOption, selectedById: existing.selectedById },
+    });
+
+    return updated;
+}
+
+/**
+ * Bills the amount an approved selection went over its allowance as a change-order invoice.
+ */
+export async function createSelectionChangeOrderInvoice(
+    projectId: number,
+    selectionId: number,
+    actorId: number
+): Promise<{ selection: Selection; invoice: Invoice }> {
+    const existing = await getSelectionOrThrow(projectId, selectionId);
+    if (existing.status !== 'approved') {
+        throw new HttpError(409, 'Only approved selections can be invoiced.');
+    }
+    if (existing.changeOrderInvoiceId) {
+        throw new HttpError(409, 'A change order invoice already exists for this selection.');
+    }
+
+    const delta = getAllowanceDelta(existing);
+    if (delta === null) {
+        throw new HttpError(400, 'Selection has no allowance to compare against.');
+    }
+    if (delta <= 0) {
+        throw new HttpError(400, 'Selection is within its allowance; there is nothing to invoice.');
+    }
+
+    // Claim the selection first so two concurrent requests can't both create an invoice
+    const claimed = await storage.selections.claimForChangeOrderBilling(
+        selectionId,
+        new Date(Date.now() - CHANGE_ORDER_CLAIM_STALE_MS)
+    );
+    if (!claimed) {
+        throw new HttpError(409, 'A change order invoice already exists for this selection.');
+    }
+
+    const option = getSelectionOptions(existing).find(o => o.id === existing.selectedOption);
+    let invoice: Invoice;
+    try {
+        invoice = await paymentService.createChangeOrderInvoice(
+            projectId,
+            delta,
+            `Selection upgrade: ${existing.title}${option ? ` (${option.name})` : ''} - $${delta.toFixed(2)} over $${parseFloat(existing.allowance!).toFixed(2)} allowance`
+        );
+    } catch (error) {
+        await storage.selections.releaseChangeOrderClaim(selectionId);
+        throw error;
+    }
+
+    const updated = await storage.selections.updateSelection(selectionId, { changeOrderInvoiceId: invoice.id });
+
+    await recordAuditEvent({
+        projectId,
+        actorId,
+        entityType: 'selection',
+        entityId: selectionId,
+        action: 'billed',
+        metadata: { invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, amount: delta },
+    });
+
+    return { selection: updated ?? existing, invoice };
+}
+
+/**
+ * Emails clients about pending selections. Each selection gets one reminder when its deadline
+ * is within REMINDER_LEAD_DAYS and one more once it is past due. Archived projects are skipped.
+ */
+export async function sendSelectionDeadlineReminders(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() + REMINDER_LEAD_DAYS * 24 * 60 * 60 * 1000);
+    const dueSelections = await storage.selections.getPendingSelectionsDueBy(cutoff);
+
+    const selectionsByProject = new Map<number, { selection: Selection; overdue: boolean }[]>();
+    for (const selection of dueSelections) {
+        const deadline = selection.selectionDeadline!;
+        const overdue = deadline <= now;
+        const alreadyReminded = selection.reminderSentAt !== null
+            && (!overdue || selection.reminderSentAt >= deadline);
+        if (alreadyReminded) continue;
+
+        const entries = selectionsByProject.get(selection.projectId) ?? [];
+        entries.push({ selection, overdue });
+        selectionsByProject.set(selection.projectId, entries);
+    }
+
+    let remindedCount = 0;
+    for (const [projectId, entries] of Array.from(selectionsByProject.entries())) {
+        const project = await storage.projects.getProjectById(projectId);
+        if (!project || isProjectArchived(project)) continue;
+
+        const recipients = project.clients.length > 0
+            ? project.clients.map(client => ({ email: client.email, firstName: client.firstName }))
+            : project.customerEmail
+                ? [{ email: project.customerEmail, firstName: project.customerName || 'there' }]
+                : [];
+        if (recipients.length === 0) {
+            logger(`[sendSelectionDeadlineReminders] Project ${projectId} has no client email; skipping`, 'Selections');
+            continue;
+        }
+
+        // Overdue and upcoming selections go out as separate emails
+        for (const overdue of [true, false]) {
+            const group = entries.filter(entry => entry.overdue === overdue).map(entry => entry.selection);
+            if (group.length === 0) continue;
+
+            let sent = false;
+            for (const recipient of recipients) {
+                sent = await sendSelectionDeadlineReminderEmail({
+                    recipientEmail: recipient.email,
+                    recipientFirstName: recipient.firstName,
+                    projectName: project.name,
+                    selections: group.map(selection => ({
+                        title: selection.title,
+                        category: selection.category,
+                        deadline: selection.selectionDeadline!,
+                    })),
+                    overdue,
+                }) || sent;
+            }
+
+            if (sent) {
+                for (const selection of group) {
+                    await storage.selections.updateSelection(selection.id, { reminderSentAt: now });
+                }
+                remindedCount += group.length;
+            }
+        }
+    }
+
+    if (remindedCount > 0) {
+        logger(`[sendSelectionDeadlineReminders] Sent reminders for ${remindedCount} selection(s)`, 'Selections');
+    }
+    return remindedCount;
+}
+
+let reminderTimer: NodeJS.Timeout | null = null;
+let reminderRunInProgress = false;
+
+export function startSelectionReminderScheduler(): void {
+    if (reminderTimer) return;
+
+    const run = async () => {
+        if (reminderRunInProgress) return;
+        reminderRunInProgress = true;
+        try {
+            await sendSelectionDeadlineReminders();
+        } catch (error) {
+            logger(`[SelectionReminders] Run failed: ${error instanceof Error ? error.message : error}`, 'Selections');
+        } finally {
+            reminderRunInProgress = false;
+        }
+    };
+
+    reminderTimer = setInterval(run, REMINDER_INTERVAL_MS);
+    reminderTimer.unref();
+    setImmediate(() => { void run(); });
+}
@@ -0,0 +1,138 @@
+// server/services/stripe-webhook.service.ts
+import type Stripe from 'stripe';
+import { storage } from '@server/storage/index';
+import { WebhookEvent, WebhookEventStatus } from '@shared/schema';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { paymentService } from './payment.service';
+
+// A delivery still "processing" after this long is assumed to have crashed and may be replayed
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+export interface StripeEventResult {
+  duplicate: boolean;
+  event: WebhookEvent;
+}
+
+/**
+ * Runs the business handling for one Stripe event. Handlers must be safe to run again for the
+ * same event, since failed events are retried by Stripe and replayed by admins.
+ */
+async function dispatchStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await paymentService.handlePaymentSuccess(event.data.object.id);
+      console.log(`[Webhook] Successfully processed payment: ${event.data.object.id}`);
+      break;
+
+    case 'payment_intent.processing':
+      await paymentService.handlePaymentProcessing(event.data.object);
+      console.log(`[Webhook] Recorded processing bank payment: ${event.data.object.id}`);
+      break;
+
+    case 'payment_intent.payment_failed':
+      await paymentService.handlePaymentFailure(event.data.object);
+      console.log(`[Webhook] Recorded failed payment: ${event.data.object.id}`);
+      break;
+
+    case 'charge.refunded':
+      await paymentService.handleChargeRefunded(event.data.object);
+      console.log(`[Webhook] Recorded refunds for charge: ${event.data.object.id}`);
+      break;
+
+    case 'charge.dispute.created':
+      await paymentService.handleDisputeCreated(event.data.object);
+      console.log(`[Webhook] Recorded dispute: ${event.data.object.id}`);
+      break;
+
+    case 'charge.dispute.closed':
+      await paymentService.handleDisputeClosed(event.data.object);
+      console.log(`[Webhook] Closed dispute: ${event.data.object.id} (${event.data.object.status})`);
+      break;
+
+    case 'charge.dispute.updated':
+    case 'charge.dispute.funds_withdrawn':
+    case 'charge.dispute.funds_reinstated':
+      // Balances are adjusted on created/closed; these only carry evidence and fund movements
+      console.log(`[Webhook] Dispute ${event.data.object.id} ${event.type.split('.').pop()}`);
+      break;
+
+    case 'customer.created':
+      console.log(`[Webhook] Customer created: ${event.data.object.id}`);
+      break;
+
+    case 'invoice.payment_succeeded':
+      console.log(`[Webhook] Invoice payment succeeded: ${event.data.object.id}`);
+      break;
+
+    default:
+      console.log(`[Webhook] Unhandled event type: ${event.type}`);
+  }
+}
+
+async function runLedgerEntry(entry: WebhookEvent, event: Stripe.Event): Promise<WebhookEvent> {
+  try {
+    await dispatchStripeEvent(event);
+    return (await storage.webhookEvents.markProcessed(entry.id)) ?? entry;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await storage.webhookEvents.markFailed(entry.id, message);
+    throw error;
+  }
+}
+
+/**
+ * Records a verified Stripe event in the webhook ledger and processes it once.
+ * Redeliveries of processed events are skipped; redeliveries of failed or stale in-flight
+ * events are processed again. A redelivery while another is still in flight is answered with
+ * a 409, and processing errors are rethrown, so Stripe keeps retrying in both cases.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<StripeEventResult> {
+  const { event: entry, claimed } = await storage.webhookEvents.claimEvent({
+    provider: 'stripe',
+    eventId: event.id,
+    type: event.type,
+    payload: event,
+  }, new Date(Date.now() - STALE_PROCESSING_MS));
+
+  if (!claimed && entry.status === 'processing') {
+    // Not acknowledged yet: if that delivery crashed, a later retry takes the event over
+    throw new HttpError(409, `Stripe event ${event.id} is still being processed.`);
+  }
+  if (!claimed) {
+    logger(`[handleStripeEvent] Skipping duplicate delivery of ${event.id} (${event.type}), status ${entry.status}`, 'StripeWebhook');
+    return { duplicate: true, event: entry };
+  }
+
+  return { duplicate: false, event: await runLedgerEntry(entry, event) };
+}
+
+export async function listWebhookEvents(status: WebhookEventStatus | undefined, limit: number): Promise<WebhookEvent[]> {
+  return storage.webhookEvents.getEvents({ status, limit });
+}
+
+/**
+ * Re-runs a stored event from its saved payload. Only failed events, or events stuck in
+ * processing, can be replayed; processed events are rejected to avoid double handling.
+ */
+export async function replayWebhookEvent(id: number, actorId: number): Promise<WebhookEvent> {
+  const existing = await storage.webhookEvents.getEventById(id);
+  if (!existing) {
+    throw new HttpError(404, 'Webhook event not found.');
+  }
+
+  const entry = await storage.webhookEvents.claimForReplay(id, new Date(Date.now() - STALE_PROCESSING_MS));
+  if (!entry) {
+    throw new HttpError(409, existing.status === 'processed'
+      ? 'This event has already been processed.'
+      : 'This event is being processed right now. Try again in a few minutes.');
+  }
+
+  logger(`[replayWebhookEvent] User ${actorId} replaying ${entry.eventId} (${entry.type}), attempt ${entry.attempts}`, 'StripeWebhook');
+  try {
+    return await runLedgerEntry(entry, entry.payload as Stripe.Event);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new HttpError(502, `Replay failed: ${message}`);
+  }
+}
@@ -1,5 +1,6 @@
 import Stripe from 'stripe';
 import { HttpError } from '../errors';
+import { STRIPE_PAYMENT_METHOD_TYPES, type StripePaymentMethodType } from '@shared/schema';
 
 let stripe: Stripe | null = null;
 
@@ -18,6 +19,7 @@ export interface CreatePaymentIntentOptions {
   customerName?: string;
   description?: string;
   metadata?: Record<string, string>;
+  paymentMethodTypes?: StripePaymentMethodType[]; // Defaults to cards and US bank accounts (ACH)
 }
 
 export interface CreateCustomerOptions {
@@ -50,8 +52,13 @@ export class StripeService {
         currency: options.currency || 'usd',
         description: options.description,
         metadata: options.metadata || {},
-        automatic_payment_methods: {
-          enabled: true,
+        payment_method_types: [...(options.paymentMethodTypes || STRIPE_PAYMENT_METHOD_TYPES)],
+        payment_method_options: {
+          // Instant verification through Financial Connections, falling back to microdeposits
+          us_bank_account: {
+            verification_method: 'automatic',
+            financial_connections: { permissions: ['payment_method'] },
+          },
         },
       });
 
@@ -143,6 +150,51 @@ export class StripeService {
     }
   }
 
+  async updatePaymentIntent(
+    paymentIntentId: string,
+    params: { amount?: number; metadata?: Record<string, string>; paymentMethodTypes?: StripePaymentMethodType[] }
+  ): Promise<Stripe.PaymentIntent> {
+    this.checkStripeAvailable();
+    
+    try {
+      return await stripe!.paymentIntents.update(paymentIntentId, {
+        ...(params.amount !== undefined && { amount: Math.round(params.amount) }),
+        ...(params.metadata && { metadata: params.metadata }),
+        ...(params.paymentMethodTypes && { payment_method_types: params.paymentMethodTypes }),
+      });
+    } catch (error: any) {
+      console.error('Error updating payment intent:', error);
+      throw new HttpError(400, `Payment intent update failed: ${error.message}`);
+    }
+  }
+
+  async cancelPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+    this.checkStripeAvailable();
+    
+    try {
+      return await stripe!.paymentIntents.cancel(paymentIntentId);
+    } catch (error: any) {
+      console.error('Error cancelling payment intent:', error);
+      throw new HttpError(400, `Payment intent cancellation failed: ${error.message}`);
+    }
+  }
+
+  // Stripe's search index lags writes by up to a minute, so very recent intents may be missing
+  async searchPaymentIntentsByMetadata(metadata: Record<string, string>): Promise<Stripe.PaymentIntent[]> {
+    this.checkStripeAvailable();
+    
+    try {
+      const query = Object.entries(metadata)
+        .map(([key, value]) => `metadata['${key}']:'${value}'`)
+        .join(' AND ');
+      const result = await stripe!.paymentIntents.search({ query, limit: 100 });
+      return result.data;
+    } catch (error: any) {
+      console.error('Error searching payment intents:', error);
+      throw new HttpError(400, `Payment intent search failed: ${error.message}`);
+    }
+  }
+
   async confirmPaymentIntent(
     paymentIntentId: string,
     paymentMethodId?: string
@@ -163,25 +215,49 @@ export class StripeService {
     }
   }
 
-  async createRefund(chargeId: string, amount?: number): Promise<Stripe.Refund> {
+  async getCharge(chargeId: string): Promise<Stripe.Charge> {
+    this.checkStripeAvailable();
+    
+    try {
+      return await stripe!.charges.retrieve(chargeId);
+    } catch (error: any) {
+      console.error('Error retrieving charge:', error);
+      throw new HttpError(404, `Charge not found: ${error.message}`);
+    }
+  }
+
+  async createRefund(chargeId: string, amount?: number, metadata?: Record<string, string>, idempotencyKey?: string): Promise<Stripe.Refund> {
     this.checkStripeAvailable();
     
     try {
       const refundData: Stripe.RefundCreateParams = {
         charge: chargeId,
+        metadata: metadata || {},
       };
 
       if (amount) {
         refundData.amount = Math.round(amount);
       }
 
-      return await stripe!.refunds.create(refundData);
+      return await stripe!.refunds.create(refundData, idempotencyKey ? { idempotencyKey } : undefined);
     } catch (error: any) {
       console.error('Error creating refund:', error);
       throw new HttpError(400, `Refund creation failed: ${error.message}`);
     }
   }
 
+  async listRefunds(chargeId: string): Promise<Stripe.Refund[]> {
+    this.checkStripeAvailable();
+    
+    try {
+      const refunds = await stripe!.refunds.list({ charge: chargeId, limit: 100 });
+      return refunds.data;
+    } catch (error: any) {
+      console.error('Error listing refunds:', error);
+      throw new HttpError(400, `Refund lookup failed: ${error.message}`);
+    }
+  }
+
   async constructEvent(body: string | Buffer, signature: string): Promise<Stripe.Event> {
     this.checkStripeAvailable();
     
@@ -0,0 +1,477 @@
+// server/services/tax-rate.service.ts
+import { z } from 'zod';
+import { XMLParser } from 'fast-xml-parser';
+import { storage } from '@server/storage/index';
+import type {
+  InsertTaxJurisdictionRate,
+  QuoteWithDetails,
+  TaxJurisdictionRate,
+  TaxRateLookupRecord,
+  TaxRateSource,
+} from '@shared/schema';
+import type { TaxRateImportResult, TaxRateLookupResult } from '@shared/tax-rates';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+
+const DOR_RATE_URL = 'https://webgis.dor.wa.gov/webapi/AddressRates.aspx';
+const DOR_TIMEOUT_MS = 8000;
+const LOOKUP_TTL_DAYS = 30; // Also cut off at the end of the quarter, when DOR rates change
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only used when neither DOR nor an imported table knows the address, and always flagged
+const FALLBACK_TAX_RATE = 10.6;
+
+// DOR result codes: 0 = address found, 1 = ZIP+4 used, 2 = 5-digit ZIP used; anything else is no match
+const DOR_MATCH_LEVELS: Record<string, 'address' | 'zip'> = { '0': 'address', '1': 'zip', '2': 'zip' };
+
+export const taxRateLookupSchema = z.object({
+  address: z.string().trim().min(3, 'Address is required'),
+  city: z.string().trim().optional().default(''),
+  zip: z.string().trim().optional().default(''),
+  locationCode: z.string().trim().nullable().optional(), // Last known code, used when DOR is unreachable
+});
+
+export type TaxRateLookupInput = z.infer<typeof taxRateLookupSchema>;
+
+export const taxRateImportSchema = z.object({
+  fileName: z.string().max(255).optional(),
+  // For files without an effective date column: the first day of the quarter they cover
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD.').optional(),
+});
+
+interface DorRate {
+  locationCode: string;
+  jurisdiction: string | null;
+  rate: number;
+  matchLevel: 'address' | 'zip';
+}
+
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const roundRate = (rate: number) => Math.round(rate * 1000) / 1000;
+
+function addressKey(input: TaxRateLookupInput): string {
+  return [input.address, input.city, input.zip]
+    .map(part => (part ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim())
+    .join('|');
+}
+
+// Cached rates never outlive the quarter they were looked up in
+function lookupExpiry(now: Date): Date {
+  const nextQuarter = new Date(Date.UTC(now.getUTCFullYear(), Math.floor(now.getUTCMonth() / 3) * 3 + 3, 1));
+  return new Date(Math.min(now.getTime() + LOOKUP_TTL_DAYS * DAY_MS, nextQuarter.getTime()));
+}
+
+// Attributes are grouped under '$' because <response> has both a rate attribute and a <rate> child
+const dorResponseParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  attributesGroupName: '$',
+  parseAttributeValue: false,
+  removeNSPrefix: true,
+  transformAttributeName: name => name.toLowerCase(),
+});
+
+type XmlAttributes = Record<string, string | undefined>;
+
+// Throws when the body isn't well-formed XML or has no <response> element
+function parseDorResponse(xml: string): { result: XmlAttributes; rate: XmlAttributes } {
+  const parsed = dorResponseParser.parse(xml, true);
+  const response = parsed?.response;
+  if (!response || typeof response !== 'object' || !response.$) {
+    throw new Error('DOR response had no result');
+  }
+  const rateElement = Array.isArray(response.rate) ? response.rate[0] : response.rate;
+  return { result: response.$, rate: rateElement?.$ ?? {} };
+}
+
+/** Asks the DOR address rate service. Null when DOR has no match; throws when it can't be reached. */
+async function fetchDorRate(input: TaxRateLookupInput): Promise<DorRate | null> {
+  const params = new URLSearchParams({
+    output: 'xml',
+    addr: input.address,
+    ...(input.city && { city: input.city }),
+    ...(input.zip && { zip: input.zip }),
+  });
+  const response = await fetch(`${DOR_RATE_URL}?${params.toString()}`, { signal: AbortSignal.timeout(DOR_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`DOR responded with ${response.status}`);
+  }
+
+  const { result, rate: rateElement } = parseDorResponse(await response.text());
+  const matchLevel = DOR_MATCH_LEVELS[result.code ?? ''];
+  if (!matchLevel) return null;
+
+  // A match without a usable rate or location code is a response we don't understand, not "no match"
+  const combined = parseFloat(result.rate ?? '') ||
+    (parseFloat(rateElement.staterate ?? '') || 0) + (parseFloat(rateElement.localrate ?? '') || 0);
+  const locationCode = result.loccode || rateElement.code;
+  if (!(combined > 0 && combined < 1) || !locationCode) {
+    throw new Error('DOR response had no usable rate');
+  }
+
+  return {
+    locationCode,
+    jurisdiction: rateElement.name ?? null,
+    rate: roundRate(combined * 100),
+    matchLevel,
+  };
+}
+
+function fromLookup(lookup: TaxRateLookupRecord, cached: boolean, warning: string | null = null): TaxRateLookupResult {
+  return {
+    taxRate: parseFloat(lookup.rate),
+    locationCode: lookup.locationCode,
+    jurisdiction: lookup.jurisdiction,
+    source: 'dor_api',
+    isFallback: false,
+    matchLevel: lookup.matchLevel as TaxRateLookupResult['matchLevel'],
+    cached,
+    checkedAt: new Date(lookup.lookedUpAt).toISOString(),
+    warning: warning ?? (lookup.matchLevel === 'zip'
+      ? 'DOR matched this address by ZIP code only. Confirm the jurisdiction if the job is near a city boundary.'
+      : null),
+  };
+}
+
+function fromTable(rate: TaxJurisdictionRate, now: Date, warning: string): TaxRateLookupResult {
+  return {
+    taxRate: parseFloat(rate.combinedRate),
+    locationCode: rate.locationCode,
+    jurisdiction: rate.jurisdiction,
+    source: 'dor_table',
+    isFallback: false,
+    matchLevel: null,
+    cached: false,
+    checkedAt: now.toISOString(),
+    warning,
+  };
+}
+
+/**
+ * Combined sales tax rate for a WA address. Recent lookups come from the cache; otherwise DOR is
+ * asked and the answer cached. When DOR can't answer, a known location code is priced from the
+ * imported quarterly tables. Anything else is a fallback rate, flagged as such.
+ */
+export async function lookupTaxRate(input: TaxRateLookupInput, now: Date = new Date()): Promise<TaxRateLookupResult> {
+  const key = addressKey(input);
+  const cached = await storage.taxRates.getLookup(key);
+  if (cached && new Date(cached.expiresAt) > now) {
+    return fromLookup(cached, true);
+  }
+
+  let problem: string;
+  try {
+    const dor = await fetchDorRate(input);
+    if (dor) {
+      const saved = await storage.taxRates.saveLookup({
+        addressKey: key,
+        address: input.address,
+        city: input.city || null,
+        zip: input.zip || null,
+        locationCode: dor.locationCode,
+        jurisdiction: dor.jurisdiction,
+        rate: dor.rate.toFixed(3),
+        matchLevel: dor.matchLevel,
+        lookedUpAt: now,
+        expiresAt: lookupExpiry(now),
+      });
+
+      const table = await storage.taxRates.getJurisdictionRate(dor.locationCode, dateKey(now));
+      const tableRate = table ? parseFloat(table.combinedRate) : null;
+      return fromLookup(saved, false, tableRate !== null && Math.abs(tableRate - dor.rate) > 0.001
+        ? `The imported DOR table lists ${tableRate}% for location ${dor.locationCode}. Check which one is current.`
+        : null);
+    }
+    problem = 'DOR could not find this address';
+  } catch (error) {
+    problem = 'The DOR rate service could not be reached';
+    logger(`[lookupTaxRate] DOR lookup failed: ${error instanceof Error ? error.message : error}`, 'TaxRates');
+  }
+
+  const locationCode = cached?.locationCode ?? input.locationCode ?? null;
+  if (locationCode) {
+    const table = await storage.taxRates.getJurisdictionRate(locationCode, dateKey(now));
+    if (table) {
+      return fromTable(table, now, `${problem}, so the rate comes from the imported DOR table for location ${locationCode}.`);
+    }
+  }
+  if (cached) {
+    return {
+      ...fromLookup(cached, true),
+      source: 'fallback',
+      isFallback: true,
+      warning: `${problem}. This is the rate DOR gave on ${dateKey(new Date(cached.lookedUpAt))} and it may be out of date.`,
+    };
+  }
+  return {
+    taxRate: FALLBACK_TAX_RATE,
+    locationCode: null,
+    jurisdiction: null,
+    source: 'fallback',
+    isFallback: true,
+    matchLevel: null,
+    cached: false,
+    checkedAt: now.toISOString(),
+    warning: `${problem}. ${FALLBACK_TAX_RATE}% is only an estimate; confirm the rate before sending the quote.`,
+  };
+}
+
+// Customer addresses are stored as one line, e.g. "123 Main St, Seattle, WA 98101"
+function splitCustomerAddress(customerAddress: string): { address: string; city: string; zip: string } {
+  const parts = customerAddress.split(',').map(part => part.trim()).filter(Boolean);
+  const zip = customerAddress.match(/\b(\d{5})(?:-\d{4})?\s*$/)?.[1] ?? '';
+  const city = parts.length >= 3 ? parts[parts.length - 2] : parts.length === 2 ? parts[1].replace(/\b(WA|Washington)?\s*\d{5}(-\d{4})?$/i, '').trim() : '';
+  return { address: parts[0] ?? customerAddress, city, zip };
+}
+
+/** Looks the quote's customer address up again and applies the rate and its jurisdiction to the quote. */
+export async function refreshQuoteTaxRate(quoteId: number): Promise<{ quote: QuoteWithDetails; lookup: TaxRateLookupResult }> {
+  const quote = await storage.quotes.getQuoteById(quoteId);
+  if (!quote) {
+    throw new HttpError(404, 'Quote not found.');
+  }
+  if (!quote.customerAddress || quote.customerAddress.trim().length < 3) {
+    throw new HttpError(400, 'Add the customer address to look up its tax rate.');
+  }
+
+  const lookup = await lookupTaxRate({
+    ...splitCustomerAddress(quote.customerAddress),
+    locationCode: quote.taxLocationCode,
+  });
+  await storage.quotes.updateTaxJurisdiction(quoteId, {
+    taxRate: lookup.taxRate.toFixed(2),
+    taxLocationCode: lookup.locationCode,
+    taxJurisdiction: lookup.jurisdiction,
+    taxRateSource: lookup.source,
+    taxRateCheckedAt: new Date(lookup.checkedAt),
+  });
+  logger(`[refreshQuoteTaxRate] Quote ${quote.quoteNumber} taxed at ${lookup.taxRate}% (${lookup.source})`, 'TaxRates');
+
+  return { quote: await storage.quotes.getQuoteById(quoteId), lookup };
+}
+
+export interface QuoteTaxRateOrigin {
+  taxLocationCode: string | null;
+  taxJurisdiction: string | null;
+  taxRateSource: TaxRateSource | null;
+  taxRateCheckedAt: Date | null;
+}
+
+/**
+ * Where a quote's tax rate came from, worked out here rather than taken from the client. Saving a
+ * quote never waits on DOR: the rate is checked against the cached lookup for the customer address,
+ * or the imported table for its last known location code. A match carries that source and
+ * jurisdiction. A rate the estimator typed over a known one is manual; anything that can't be
+ * checked is unverified and has to be confirmed before the quote is sent.
+ * @param rateEntered - Whether this save set the rate, as opposed to keeping the one on file.
+ */
+export async function resolveQuoteTaxRateOrigin(
+  quote: { customerAddress?: string | null; taxRate: string; isManualTax?: boolean | null },
+  rateEntered: boolean,
+  now: Date = new Date(),
+): Promise<QuoteTaxRateOrigin> {
+  const manual: QuoteTaxRateOrigin = { taxLocationCode: null, taxJurisdiction: null, taxRateSource: 'manual', taxRateCheckedAt: now };
+  const unverified: QuoteTaxRateOrigin = { taxLocationCode: null, taxJurisdiction: null, taxRateSource: 'unverified', taxRateCheckedAt: null };
+  if (quote.isManualTax) {
+    return manual;
+  }
+  if (!quote.customerAddress || quote.customerAddress.trim().length < 3) {
+    return rateEntered ? manual : unverified;
+  }
+
+  // Quotes keep two decimals; DOR rates can have three
+  const matches = (rate: string) => Math.abs(parseFloat(rate) - parseFloat(quote.taxRate)) < 0.005;
+
+  const cached = await storage.taxRates.getLookup(addressKey(splitCustomerAddress(quote.customerAddress)));
+  if (cached && new Date(cached.expiresAt) > now) {
+    if (!matches(cached.rate)) return rateEntered ? manual : unverified;
+    return {
+      taxLocationCode: cached.locationCode,
+      taxJurisdiction: cached.jurisdiction,
+      taxRateSource: 'dor_api',
+      taxRateCheckedAt: new Date(cached.lookedUpAt),
+    };
+  }
+
+  const table = cached ? await storage.taxRates.getJurisdictionRate(cached.locationCode, dateKey(now)) : null;
+  if (table) {
+    if (!matches(table.combinedRate)) return rateEntered ? manual : unverified;
+    return {
+      taxLocationCode: table.locationCode,
+      taxJurisdiction: table.jurisdiction,
+      taxRateSource: 'dor_table',
+      taxRateCheckedAt: now,
+    };
+  }
+  return unverified;
+}
+
+/** Blocks sending a quote whose tax rate is an unconfirmed fallback or was never checked. */
+export function requireConfirmedTaxRate(quote: QuoteWithDetails): void {
+  if (quote.isManualTax) return;
+  if (quote.taxRateSource === 'fallback') {
+    throw new HttpError(
+      409,
+      `The ${quote.taxRate}% tax rate on this quote is an estimate. Look the rate up again or enter it by hand before sending.`
+    );
+  }
+  if (quote.taxRateSource === 'unverified') {
+    throw new HttpError(
+      409,
+      `The ${quote.taxRate}% tax rate on this quote hasn't been checked against DOR. Look the rate up again or enter it by hand before sending.`
+    );
+  }
+}
+
+// --- DOR quarterly rate tables ---
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+}
+
+// Header names seen in DOR downloads, compared without case, spaces or punctuation
+const TABLE_COLUMNS = {
+  jurisdiction: ['location', 'locationname', 'jurisdiction', 'name'],
+  county: ['county'],
+  locationCode: ['locationcode', 'loccode', 'code'],
+  stateRate: ['staterate'],
+  localRate: ['localrate'],
+  combinedRate: ['combinedsalestax', 'combinedsalestaxrate', 'combinedrate', 'totalrate', 'rate'],
+  effectiveFrom: ['effectivedate', 'effectivestartdate', 'effective'],
+  effectiveUntil: ['expirationdate', 'expiration', 'effectiveenddate', 'enddate'],
+} as const;
+
+type TableColumn = keyof typeof TABLE_COLUMNS;
+
+function findColumns(header: string[]): Partial<Record<TableColumn, number>> {
+  const names = header.map(name => name.toLowerCase().replace(/[^a-z]/g, ''));
+  const columns: Partial<Record<TableColumn, number>> = {};
+  for (const [column, aliases] of Object.entries(TABLE_COLUMNS) as [TableColumn, readonly string[]][]) {
+    const index = aliases.map(alias => names.indexOf(alias)).find(found => found >= 0);
+    if (index !== undefined) columns[column] = index;
+  }
+  return columns;
+}
+
+function parseTableDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  return null;
+}
+
+const parseRate = (value: string | undefined) => (value ? parseFloat(value.replace('%', '')) : NaN);
+
+/**
+ * Imports a DOR local sales tax rate table (CSV, one row per location code). DOR publishes rates
+ * as decimals or percentages depending on the file; both are stored as percentages. Importing the
+ * same quarter again replaces its rates.
+ */
+export async function importDorRateTable(
+  csv: string,
+  options: z.infer<typeof taxRateImportSchema>,
+  importedById: number
+): Promise<TaxRateImportResult> {
+  const rows = parseCsv(csv.replace(/^﻿/, ''));
+  const headerIndex = rows.findIndex(row => findColumns(row).locationCode !== undefined);
+  if (headerIndex < 0) {
+    throw new HttpError(400, 'No "Location Code" column was found. Upload the DOR rate table as a CSV file.');
+  }
+  const columns = findColumns(rows[headerIndex]);
+  if (columns.combinedRate === undefined && (columns.stateRate === undefined || columns.localRate === undefined)) {
+    throw new HttpError(400, 'The file needs a combined rate column, or state and local rate columns.');
+  }
+  if (columns.effectiveFrom === undefined && !options.effectiveFrom) {
+    throw new HttpError(400, 'The file has no effective date column. Choose the date the rates take effect.');
+  }
+
+  const dataRows = rows.slice(headerIndex + 1);
+  const cell = (row: string[], column: TableColumn) => {
+    const index = columns[column];
+    return index === undefined ? undefined : row[index];
+  };
+  const combinedOf = (row: string[]) => columns.combinedRate !== undefined
+    ? parseRate(cell(row, 'combinedRate'))
+    : parseRate(cell(row, 'stateRate')) + parseRate(cell(row, 'localRate'));
+
+  // Combined WA rates are well above 1%, so a combined rate below 1 means the file uses decimals
+  const sample = dataRows.map(combinedOf).find(rate => !isNaN(rate) && rate > 0);
+  const scale = sample !== undefined && sample < 1 ? 100 : 1;
+  const toPercent = (rate: number) => (isNaN(rate) ? null : roundRate(rate * scale).toFixed(3));
+
+  const byKey = new Map<string, InsertTaxJurisdictionRate>();
+  let skipped = 0;
+  for (const row of dataRows) {
+    const locationCode = cell(row, 'locationCode')?.trim();
+    const combinedRate = toPercent(combinedOf(row));
+    const effectiveFrom = parseTableDate(cell(row, 'effectiveFrom')) ?? options.effectiveFrom ?? null;
+    if (!locationCode || !combinedRate || !effectiveFrom) {
+      skipped++;
+      continue;
+    }
+    byKey.set(`${locationCode}|${effectiveFrom}`, {
+      locationCode,
+      jurisdiction: cell(row, 'jurisdiction')?.trim() || locationCode,
+      county: cell(row, 'county')?.trim() || null,
+      stateRate: toPercent(parseRate(cell(row, 'stateRate'))),
+      localRate: toPercent(parseRate(cell(row, 'localRate'))),
+      combinedRate,
+      effectiveFrom,
+      effectiveUntil: parseTableDate(cell(row, 'effectiveUntil')),
+      sourceFile: options.fileName ?? null,
+      importedById,
+    });
+  }
+
+  const values = Array.from(byKey.values());
+  if (values.length === 0) {
+    throw new HttpError(400, 'No rates were found in the file.');
+  }
+  const imported = await storage.taxRates.importJurisdictionRates(values);
+  const effectiveFrom = Array.from(new Set(values.map(value => value.effectiveFrom))).sort();
+  logger(`[importDorRateTable] Imported ${imported} location rates effective ${effectiveFrom.join(', ')} (${skipped} rows skipped)`, 'TaxRates');
+
+  return { imported, skipped, effectiveFrom };
+}
+
+export async function getRateTables() {
+  return storage.taxRates.getRateTables();
+}
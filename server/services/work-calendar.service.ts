@@ -0,0 +1,218 @@
+// server/services/work-calendar.service.ts
+import { z } from 'zod';
+import { storage } from '@server/storage/index';
+import {
+  CALENDAR_EXCEPTION_TYPES,
+  CalendarException,
+  WorkCalendar,
+  WorkCalendarWithExceptions,
+} from '@shared/schema';
+import {
+  DEFAULT_CALENDAR_RULES,
+  WorkCalendarRules,
+  nextWorkingDay,
+  withTimeOf,
+} from '@shared/work-calendar';
+import { HttpError } from '@server/errors';
+import { log as logger } from '@server/vite';
+import { recordAuditEvent } from './audit.service';
+
+export const calendarSettingsSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  workDays: z.array(z.number().int().min(0).max(6))
+    .min(1, 'At least one workday is required.')
+    .transform(days => Array.from(new Set(days)).sort()),
+  hoursPerDay: z.number().min(1).max(24).default(8),
+});
+
+export const calendarExceptionSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format.'),
+  type: z.enum(CALENDAR_EXCEPTION_TYPES).default('holiday'),
+  description: z.string().trim().max(200).optional().nullable(),
+});
+
+export type CalendarSettingsInput = z.infer<typeof calendarSettingsSchema>;
+export type CalendarExceptionInput = z.infer<typeof calendarExceptionSchema>;
+
+export interface ProjectCalendarView {
+  projectCalendar: WorkCalendarWithExceptions | null;
+  companyCalendar: WorkCalendarWithExceptions | null;
+  rules: WorkCalendarRules;
+}
+
+function toRules(
+  company: WorkCalendarWithExceptions | null,
+  project: WorkCalendarWithExceptions | null
+): WorkCalendarRules {
+  const base = project ?? company;
+  if (!base) return DEFAULT_CALENDAR_RULES;
+
+  const nonWorkingDates = new Set<string>();
+  company?.exceptions.forEach(exception => nonWorkingDates.add(exception.date));
+  project?.exceptions.forEach(exception => nonWorkingDates.add(exception.date));
+
+  return {
+    workDays: base.workDays,
+    nonWorkingDates: Array.from(nonWorkingDates).sort(),
+    hoursPerDay: parseFloat(base.hoursPerDay),
+  };
+}
+
+/**
+ * Calendar that scheduling uses for a project: the project's workdays if it has its own
+ * calendar (otherwise the company's), with both calendars' non-working days.
+ */
+export async function getProjectCalendarRules(projectId: number): Promise<WorkCalendarRules> {
+  const [company, project] = await Promise.all([
+    storage.workCalendars.getCompanyCalendar(),
+    storage.workCalendars.getProjectCalendar(projectId),
+  ]);
+  return toRules(company, project);
+}
+
+export async function getProjectCalendarView(projectId: number): Promise<ProjectCalendarView> {
+  const [companyCalendar, projectCalendar] = await Promise.all([
+    storage.workCalendars.getCompanyCalendar(),
+    storage.workCalendars.getProjectCalendar(projectId),
+  ]);
+  return { projectCalendar, companyCalendar, rules: toRules(companyCalendar, projectCalendar) };
+}
+
+export async function getCompanyCalendar(): Promise<{ calendar: WorkCalendarWithExceptions | null; rules: WorkCalendarRules }> {
+  const calendar = await storage.workCalendars.getCompanyCalendar();
+  return { calendar, rules: toRules(calendar, null) };
+}
+
+/** Moves a date forward to the project's next working day, keeping its time of day. */
+export async function snapToProjectWorkingDay(projectId: number, date: Date): Promise<Date> {
+  const rules = await getProjectCalendarRules(projectId);
+  return withTimeOf(nextWorkingDay(rules, date), date);
+}
+
+export async function saveCompanyCalendar(actorId: number, input: CalendarSettingsInput): Promise<WorkCalendar> {
+  const calendar = await storage.workCalendars.saveCompanyCalendar({
+    name: input.name ?? 'Company calendar',
+    workDays: input.workDays,
+    hoursPerDay: input.hoursPerDay.toString(),
+  });
+  logger(`[saveCompanyCalendar] Company calendar updated by user ${actorId}: workdays ${input.workDays.join(',')}`, 'WorkCalendar');
+  return calendar;
+}
+
+async function requireProject(projectId: number) {
+  const project = await storage.projects.getProjectById(projectId);
+  if (!project) {
+    throw new HttpError(404, 'Project not found.');
+  }
+  return project;
+}
+
+export async function saveProjectCalendar(projectId: number, actorId: number, input: CalendarSettingsInput): Promise<WorkCalendar> {
+  const project = await requireProject(projectId);
+  const before = await storage.workCalendars.getProjectCalendar(projectId);
+
+  const calendar = await storage.workCalendars.saveProjectCalendar(projectId, {
+    name: input.name ?? `${project.name} calendar`,
+    workDays: input.workDays,
+    hoursPerDay: input.hoursPerDay.toString(),
+  });
+
+  await recordAuditEvent({
+    projectId,
+    actorId,
+    entityType: 'project',
+    entityId: projectId,
+    action: 'calendar_updated',
+    before: before ? { workDays: before.workDays.join(','), hoursPerDay: before.hoursPerDay } : null,
+    after: { workDays: calendar.workDays.join(','), hoursPerDay: calendar.hoursPerDay },
+  });
+  return calendar;
+}
+
+/** Drops the project's own calendar, including its rain days, so the company calendar applies. */
+export async function resetProjectCalendar(projectId: number, actorId: number): Promise<void> {
+  await requireProject(projectId);
+  const removed = await storage.workCalendars.deleteProjectCalendar(projectId);
+  if (!removed) {
+    throw new HttpError(404, 'This project already uses the company calendar.');
+  }
+
+  await recordAuditEvent({
+    projectId,
+    actorId,
+    entityType: 'project',
+    entityId: projectId,
+    action: 'calendar_reset',
+  });
+}
+
+async function getOrCreateCompanyCalendar(): Promise<WorkCalendar> {
+  return (await storage.workCalendars.getCompanyCalendar())
+    ?? storage.workCalendars.saveCompanyCalendar({ name: 'Company calendar', workDays: DEFAULT_CALENDAR_RULES.workDays, hoursPerDay: '8' });
+}
+
+export async function addCompanyNonWorkingDay(actorId: number, input: CalendarExceptionInput): Promise<CalendarException> {
+  const calendar = await getOrCreateCompanyCalendar();
+  return storage.workCalendars.upsertException({ calendarId: calendar.id, ...input, createdById: actorId });
+}
+
+export async function removeCompanyNonWorkingDay(exceptionId: number): Promise<void> {
+  const calendar = await storage.workCalendars.getCompanyCalendar();
+  const removed = calendar ? await storage.workCalendars.removeException(calendar.id, exceptionId) : false;
+  if (!removed) {
+    throw new HttpError(404, 'Non-working day not found.');
+  }
+}
+
+/**
+ * Marks a day as non-working for one project (typically a rain day). Projects without their
+ * own calendar get one that copies the company workdays first.
+ */
+export async function addProjectNonWorkingDay(
+  projectId: number,
+  actorId: number,
+  input: CalendarExceptionInput
+): Promise<CalendarException> {
+  const project = await requireProject(projectId);
+
+  let calendar: WorkCalendar | null = await storage.workCalendars.getProjectCalendar(projectId);
+  if (!calendar) {
+    const company = await storage.workCalendars.getCompanyCalendar();
+    calendar = await storage.workCalendars.saveProjectCalendar(projectId, {
+      name: `${project.name} calendar`,
+      workDays: company?.workDays ?? DEFAULT_CALENDAR_RULES.workDays,
+      hoursPerDay: company?.hoursPerDay ?? '8',
+    });
+  }
+
+  const exception = await storage.workCalendars.upsertException({ calendarId: calendar.id, ...input, createdById: actorId });
+
+  await recordAuditEvent({
+    projectId,
+    actorId,
+    entityType: 'project',
+    entityId: projectId,
+    action: 'non_working_day_added',
+    metadata: { date: exception.date, type: exception.type, description: exception.description },
+  });
+  return exception;
+}
+
+export async function removeProjectNonWorkingDay(projectId: number, actorId: number, exceptionId: number): Promise<void> {
+  const calendar = await storage.workCalendars.getProjectCalendar(projectId);
+  const exception = calendar?.exceptions.find(e => e.id === exceptionId);
+  if (!calendar || !exception) {
+    throw new HttpError(404, 'Non-working day not found on this project calendar.');
+  }
+
+  await storage.workCalendars.removeException(calendar.id, exceptionId);
+
+  await recordAuditEvent({
+    projectId,
+    actorId,
+    entityType: 'project',
+    entityId: projectId,
+    action: 'non_working_day_removed',
+    metadata: { date: exception.date, type: exception.type },
+  });
+}
@@ -17,6 +17,20 @@ import { IDailyLogRepository, dailyLogRepository } from './repositories/dailyLog
 import { IMediaRepository, mediaRepository } from './repositories/media.repository'; // Import instance for injection
 import { IQuoteRepository, quoteRepository } from './repositories/quote.repository';
 import { IMilestoneRepository, milestoneRepository } from './repositories/milestone.repository';
+import { IAuditRepository, auditRepository } from './repositories/audit.repository';
+import { IProjectExportRepository, projectExportRepository } from './repositories/projectExport.repository';
+import { IProjectMemberRepository, projectMemberRepository } from './repositories/projectMember.repository';
+import { ISelectionRepository, selectionRepository } from './repositories/selection.repository';
+import { IChangeOrderRepository, changeOrderRepository } from './repositories/changeOrder.repository';
+import { IWorkCalendarRepository, workCalendarRepository } from './repositories/workCalendar.repository';
+import { IWebhookEventRepository, webhookEventRepository } from './repositories/webhookEvent.repository';
+import { IInvoiceActivityRepository, invoiceActivityRepository } from './repositories/invoiceActivity.repository';
+import { IQuoteRevisionRepository, quoteRevisionRepository } from './repositories/quoteRevision.repository';
+import { IQuoteSignatureRepository, quoteSignatureRepository } from './repositories/quoteSignature.repository';
+import { IQuoteFollowUpRepository, quoteFollowUpRepository } from './repositories/quoteFollowUp.repository';
+import { ITaxRateRepository, taxRateRepository } from './repositories/taxRate.repository';
+import { ICostCatalogRepository, costCatalogRepository } from './repositories/costCatalog.repository';
+import { IQuoteTemplateRepository, quoteTemplateRepository } from './repositories/quoteTemplate.repository';
 // *** ADDED: Import PunchListRepository CLASS and INTERFACE ***
 import { PunchListRepository, IPunchListRepository } from './repositories/punchList.repository';
 import { PaymentRepository, IPaymentRepository } from './repositories/payment.repository';
@@ -37,6 +51,20 @@ export interface StorageAggregate {
     media: IMediaRepository;
     quotes: IQuoteRepository;
     milestones: IMilestoneRepository;
+    auditEvents: IAuditRepository;
+    projectExports: IProjectExportRepository;
+    projectMembers: IProjectMemberRepository;
+    selections: ISelectionRepository;
+    changeOrders: IChangeOrderRepository;
+    workCalendars: IWorkCalendarRepository;
+    webhookEvents: IWebhookEventRepository;
+    invoiceActivities: IInvoiceActivityRepository;
+    quoteRevisions: IQuoteRevisionRepository;
+    quoteSignatures: IQuoteSignatureRepository;
+    quoteFollowUps: IQuoteFollowUpRepository;
+    taxRates: ITaxRateRepository;
+    costCatalog: ICostCatalogRepository;
+    quoteTemplates: IQuoteTemplateRepository;
     sessionStore: session.Store;
     // Permission helper functions
     projectManagerHasProjectAccess: (userId: number, projectId: number) => Promise<boolean>;
@@ -102,6 +130,20 @@ export const storage: StorageAggregate = {
     media: mediaRepository,
     quotes: quoteRepository,
     milestones: milestoneRepository,
+    auditEvents: auditRepository,
+    projectExports: projectExportRepository,
+    projectMembers: projectMemberRepository,
+    selections: selectionRepository,
+    changeOrders: changeOrderRepository,
+    workCalendars: workCalendarRepository,
+    webhookEvents: webhookEventRepository,
+    invoiceActivities: invoiceActivityRepository,
+    quoteRevisions: quoteRevisionRepository,
+    quoteSignatures: quoteSignatureRepository,
+    quoteFollowUps: quoteFollowUpRepository,
+    taxRates: taxRateRepository,
+    costCatalog: costCatalogRepository,
+    quoteTemplates: quoteTemplateRepository,
     sessionStore,
     projectManagerHasProjectAccess,
     clientHasProjectAccess,
@@ -0,0 +1,78 @@
+// server/storage/repositories/audit.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, gte, lte, desc, count, SQL } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+export interface AuditEventFilters {
+    actorId?: number;
+    entityType?: string;
+    entityId?: number;
+    action?: string;
+    startDate?: Date;
+    endDate?: Date;
+    limit: number;
+    offset: number;
+}
+
+export interface IAuditRepository {
+    createEvent(data: schema.InsertAuditEvent): Promise<schema.AuditEvent>;
+    getEventsForProject(projectId: number, filters: AuditEventFilters): Promise<{ entries: schema.AuditEventWithActor[]; total: number }>;
+}
+
+class AuditRepository implements IAuditRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    async createEvent(data: schema.InsertAuditEvent): Promise<schema.AuditEvent> {
+        try {
+            const result = await this.dbOrTx.insert(schema.auditEvents)
+                .values(data)
+                .returning();
+            return result[0];
+        } catch (error) {
+            console.error('Error creating audit event:', error);
+            throw new Error('Database error while creating audit event.');
+        }
+    }
+
+    async getEventsForProject(projectId: number, filters: AuditEventFilters): Promise<{ entries: schema.AuditEventWithActor[]; total: number }> {
+        try {
+            const conditions: SQL[] = [eq(schema.auditEvents.projectId, projectId)];
+            if (filters.actorId !== undefined) conditions.push(eq(schema.auditEvents.actorId, filters.actorId));
+            if (filters.entityType) conditions.push(eq(schema.auditEvents.entityType, filters.entityType));
+            if (filters.entityId !== undefined) conditions.push(eq(schema.auditEvents.entityId, filters.entityId));
+            if (filters.action) conditions.push(eq(schema.auditEvents.action, filters.action));
+            if (filters.startDate) conditions.push(gte(schema.auditEvents.createdAt, filters.startDate));
+            if (filters.endDate) conditions.push(lte(schema.auditEvents.createdAt, filters.endDate));
+
+            const whereClause = and(...conditions);
+
+            const entries = await this.dbOrTx.query.auditEvents.findMany({
+                where: whereClause,
+                orderBy: [desc(schema.auditEvents.createdAt), desc(schema.auditEvents.id)],
+                limit: filters.limit,
+                offset: filters.offset,
+                with: {
+                    actor: { columns: { id: true, firstName: true, lastName: true, role: true } }
+                }
+            });
+
+            const [{ total }] = await this.dbOrTx
+                .select({ total: count() })
+                .from(schema.auditEvents)
+                .where(whereClause);
+
+            return { entries: entries as schema.AuditEventWithActor[], total: Number(total) };
+        } catch (error) {
+            console.error(`Error fetching audit events for project ${projectId}:`, error);
+            throw new Error('Database error while fetching audit events.');
+        }
+    }
+}
+
+// Export an instance for convenience
+export const auditRepository = new AuditRepository();
@@ -0,0 +1,162 @@
+// server/storage/repositories/changeOrder.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, asc, desc, inArray, count } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+type NewLineItem = Omit<schema.InsertChangeOrderLineItem, 'changeOrderId'>;
+
+const withLineItems = {
+    lineItems: { orderBy: [asc(schema.changeOrderLineItems.sortOrder), asc(schema.changeOrderLineItems.id)] },
+    createdBy: { columns: { id: true, firstName: true, lastName: true } },
+} as const;
+
+export interface IChangeOrderRepository {
+    getChangeOrdersForProject(projectId: number): Promise<schema.ChangeOrderWithLineItems[]>;
+    getChangeOrderById(projectId: number, changeOrderId: number): Promise<schema.ChangeOrderWithLineItems | null>;
+    getChangeOrderByAccessToken(token: string): Promise<schema.ChangeOrderWithLineItems | null>;
+    countChangeOrdersForProject(projectId: number): Promise<number>;
+    createChangeOrder(data: schema.InsertChangeOrder, lineItems: NewLineItem[]): Promise<schema.ChangeOrderWithLineItems>;
+    updateChangeOrder(changeOrderId: number, data: Partial<schema.InsertChangeOrder>, lineItems?: NewLineItem[]): Promise<schema.ChangeOrderWithLineItems | null>;
+    transitionStatus(changeOrderId: number, fromStatuses: string[], data: Partial<schema.InsertChangeOrder>): Promise<schema.ChangeOrder | null>;
+    deleteChangeOrder(changeOrderId: number): Promise<boolean>;
+}
+
+class ChangeOrderRepository implements IChangeOrderRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    async getChangeOrdersForProject(projectId: number): Promise<schema.ChangeOrderWithLineItems[]> {
+        try {
+            return await this.dbOrTx.query.changeOrders.findMany({
+                where: eq(schema.changeOrders.projectId, projectId),
+                orderBy: [desc(schema.changeOrders.createdAt), desc(schema.changeOrders.id)],
+                with: withLineItems,
+            });
+        } catch (error) {
+            console.error(`Error fetching change orders for project ${projectId}:`, error);
+            throw new Error('Database error while fetching change orders.');
+        }
+    }
+
+    async getChangeOrderById(projectId: number, changeOrderId: number): Promise<schema.ChangeOrderWithLineItems | null> {
+        try {
+            const changeOrder = await this.dbOrTx.query.changeOrders.findFirst({
+                where: and(
+                    eq(schema.changeOrders.id, changeOrderId),
+                    eq(schema.changeOrders.projectId, projectId)
+                ),
+                with: withLineItems,
+            });
+            return changeOrder ?? null;
+        } catch (error) {
+            console.error(`Error fetching change order ${changeOrderId}:`, error);
+            throw new Error('Database error while fetching change order.');
+        }
+    }
+
+    async getChangeOrderByAccessToken(token: string): Promise<schema.ChangeOrderWithLineItems | null> {
+        try {
+            const changeOrder = await this.dbOrTx.query.changeOrders.findFirst({
+                where: eq(schema.changeOrders.accessToken, token),
+                with: withLineItems,
+            });
+            return changeOrder ?? null;
+        } catch (error) {
+            console.error('Error fetching change order by access token:', error);
+            throw new Error('Database error while fetching change order.');
+        }
+    }
+
+    async countChangeOrdersForProject(projectId: number): Promise<number> {
+        try {
+            const [{ total }] = await this.dbOrTx
+                .select({ total: count() })
+                .from(schema.changeOrders)
+                .where(eq(schema.changeOrders.projectId, projectId));
+            return Number(total);
+        } catch (error) {
+            console.error(`Error counting change orders for project ${projectId}:`, error);
+            throw new Error('Database error while counting change orders.');
+        }
+    }
+
+    async createChangeOrder(data: schema.InsertChangeOrder, lineItems: NewLineItem[]): Promise<schema.ChangeOrderWithLineItems> {
+        try {
+            const changeOrderId = await this.dbOrTx.transaction(async (tx: any) => {
+                const [created] = await tx.insert(schema.changeOrders).values(data).returning();
+                if (lineItems.length > 0) {
+                    await tx.insert(schema.changeOrderLineItems)
+                        .values(lineItems.map(item => ({ ...item, changeOrderId: created.id })));
+                }
+                return created.id as number;
+            });
+            return (await this.getChangeOrderById(data.projectId, changeOrderId))!;
+        } catch (error) {
+            console.error('Error creating change order:', error);
+            throw new Error('Database error while creating change order.');
+        }
+    }
+
+    // Replaces the line items when provided
+    async updateChangeOrder(changeOrderId: number, data: Partial<schema.InsertChangeOrder>, lineItems?: NewLineItem[]): Promise<schema.ChangeOrderWithLineItems | null> {
+        try {
+            const updated = await this.dbOrTx.transaction(async (tx: any) => {
+                const [row] = await tx.update(schema.changeOrders)
+                    .set({ ...data, updatedAt: new Date() })
+                    .where(eq(schema.changeOrders.id, changeOrderId))
+                    .returning();
+                if (!row) return null;
+
+                if (lineItems) {
+                    await tx.delete(schema.changeOrderLineItems)
+                        .where(eq(schema.changeOrderLineItems.changeOrderId, changeOrderId));
+                    if (lineItems.length > 0) {
+                        await tx.insert(schema.changeOrderLineItems)
+                            .values(lineItems.map(item => ({ ...item, changeOrderId })));
+                    }
+                }
+                return row as schema.ChangeOrder;
+            });
+            return updated ? this.getChangeOrderById(updated.projectId, changeOrderId) : null;
+        } catch (error) {
+            console.error(`Error updating change order ${changeOrderId}:`, error);
+            throw new Error('Database error while updating change order.');
+        }
+    }
+
+    // Updates only while the change order is in one of the given statuses; null means it was not
+    async transitionStatus(changeOrderId: number, fromStatuses: string[], data: Partial<schema.InsertChangeOrder>): Promise<schema.ChangeOrder | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.changeOrders)
+                .set({ ...data, updatedAt: new Date() })
+                .where(and(
+                    eq(schema.changeOrders.id, changeOrderId),
+                    inArray(schema.changeOrders.status, fromStatuses)
+                ))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error updating status of change order ${changeOrderId}:`, error);
+            throw new Error('Database error while updating change order status.');
+        }
+    }
+
+    async deleteChangeOrder(changeOrderId: number): Promise<boolean> {
+        try {
+            const result = await this.dbOrTx.delete(schema.changeOrders)
+                .where(eq(schema.changeOrders.id, changeOrderId))
+                .returning({ id: schema.changeOrders.id });
+            return result.length > 0;
+        } catch (error) {
+            console.error(`Error deleting change order ${changeOrderId}:`, error);
+            throw new Error('Database error while deleting change order.');
+        }
+    }
+}
+
+// Export an instance for convenience
+export const changeOrderRepository = new ChangeOrderRepository();
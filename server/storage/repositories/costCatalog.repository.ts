@@ -0,0 +1,125 @@
+// server/storage/repositories/costCatalog.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, asc, inArray, sql, SQL } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+export interface CatalogItemFilter {
+    itemIds?: number[];
+    category?: string;
+}
+
+export interface CatalogPriceChange {
+    pricePercentage?: number; // +5 raises prices 5%, -5 lowers them
+    markupPercentage?: number; // Replaces the markup
+}
+
+export interface ICostCatalogRepository {
+    getItems(includeInactive?: boolean): Promise<schema.CostCatalogItem[]>;
+    getItemById(itemId: number): Promise<schema.CostCatalogItem | null>;
+    getItemsByIds(itemIds: number[]): Promise<schema.CostCatalogItem[]>;
+    createItem(data: schema.InsertCostCatalogItem): Promise<schema.CostCatalogItem>;
+    updateItem(itemId: number, data: Partial<schema.InsertCostCatalogItem>): Promise<schema.CostCatalogItem | null>;
+    bulkUpdatePrices(filter: CatalogItemFilter, change: CatalogPriceChange): Promise<schema.CostCatalogItem[]>;
+}
+
+class CostCatalogRepository implements ICostCatalogRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    async getItems(includeInactive = false): Promise<schema.CostCatalogItem[]> {
+        try {
+            return await this.dbOrTx.query.costCatalogItems.findMany({
+                where: includeInactive ? undefined : eq(schema.costCatalogItems.isActive, true),
+                orderBy: [asc(schema.costCatalogItems.category), asc(schema.costCatalogItems.description)],
+            });
+        } catch (error) {
+            console.error('Error fetching cost catalog items:', error);
+            throw new Error('Database error while fetching cost catalog.');
+        }
+    }
+
+    async getItemById(itemId: number): Promise<schema.CostCatalogItem | null> {
+        try {
+            const result = await this.dbOrTx.query.costCatalogItems.findFirst({
+                where: eq(schema.costCatalogItems.id, itemId),
+            });
+            return result ?? null;
+        } catch (error) {
+            console.error(`Error fetching cost catalog item ${itemId}:`, error);
+            throw new Error('Database error while fetching cost catalog item.');
+        }
+    }
+
+    async getItemsByIds(itemIds: number[]): Promise<schema.CostCatalogItem[]> {
+        if (itemIds.length === 0) return [];
+        try {
+            return await this.dbOrTx.query.costCatalogItems.findMany({
+                where: inArray(schema.costCatalogItems.id, itemIds),
+            });
+        } catch (error) {
+            console.error('Error fetching cost catalog items by id:', error);
+            throw new Error('Database error while fetching cost catalog items.');
+        }
+    }
+
+    async createItem(data: schema.InsertCostCatalogItem): Promise<schema.CostCatalogItem> {
+        try {
+            const [created] = await this.dbOrTx.insert(schema.costCatalogItems).values(data).returning();
+            return created;
+        } catch (error) {
+            console.error('Error creating cost catalog item:', error);
+            throw new Error('Database error while creating cost catalog item.');
+        }
+    }
+
+    async updateItem(itemId: number, data: Partial<schema.InsertCostCatalogItem>): Promise<schema.CostCatalogItem | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.costCatalogItems)
+                .set({ ...data, updatedAt: new Date() })
+                .where(eq(schema.costCatalogItems.id, itemId))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error updating cost catalog item ${itemId}:`, error);
+            throw new Error('Database error while updating cost catalog item.');
+        }
+    }
+
+    /**
+     * Reprices active catalog items in one statement. Items can be picked by id, by category,
+     * or both; with neither, every active item is updated.
+     */
+    async bulkUpdatePrices(filter: CatalogItemFilter, change: CatalogPriceChange): Promise<schema.CostCatalogItem[]> {
+        const conditions: SQL[] = [eq(schema.costCatalogItems.isActive, true)];
+        if (filter.itemIds && filter.itemIds.length > 0) {
+            conditions.push(inArray(schema.costCatalogItems.id, filter.itemIds));
+        }
+        if (filter.category) {
+            conditions.push(eq(schema.costCatalogItems.category, filter.category));
+        }
+
+        const updates: Record<string, unknown> = { updatedAt: new Date() };
+        if (change.pricePercentage !== undefined) {
+            updates.defaultUnitPrice = sql`round(${schema.costCatalogItems.defaultUnitPrice} * ${1 + change.pricePercentage / 100}, 2)`;
+        }
+        if (change.markupPercentage !== undefined) {
+            updates.markupPercentage = change.markupPercentage.toFixed(2);
+        }
+
+        try {
+            return await this.dbOrTx.update(schema.costCatalogItems)
+                .set(updates)
+                .where(and(...conditions))
+                .returning();
+        } catch (error) {
+            console.error('Error bulk updating cost catalog prices:', error);
+            throw new Error('Database error while updating cost catalog prices.');
+        }
+    }
+}
+
+export const costCatalogRepository = new CostCatalogRepository();
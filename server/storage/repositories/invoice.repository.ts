@@ -1,7 +1,7 @@
 // server/storage/repositories/invoice.repository.ts
 import { NeonDatabase } from 'drizzle-orm/neon-serverless';
 import type { PgTransaction } from 'drizzle-orm/pg-core';
-import { eq, and, or, sql, desc, asc } from 'drizzle-orm';
+import { eq, and, or, sql, desc, asc, inArray, lte } from 'drizzle-orm';
 import * as schema from '../../../shared/schema';
 import { db } from '../../db';
 import { HttpError } from '../../errors';
@@ -14,8 +14,17 @@ export interface IInvoiceRepository {
     getInvoicesForClient(clientId: number): Promise<schema.Invoice[]>; // Get invoices for a specific client
     getInvoiceById(invoiceId: number): Promise<InvoiceWithPayments | null>; // Fetch with payments
     getInvoiceByPaymentIntentId(paymentIntentId: string): Promise<schema.Invoice | null>; // Find invoice by Stripe payment intent ID
-    createInvoice(invoiceData: Omit<schema.InsertInvoice, 'amount'> & { amount: string }): Promise<schema.Invoice | null>;
+    getOpenInvoicesDueBy(cutoff: Date): Promise<schema.Invoice[]>; // Issued, unpaid invoices due on or before the cutoff
+    createInvoice(
+        invoiceData: Omit<schema.InsertInvoice, 'amount'> & { amount: string },
+        lineItems?: Omit<schema.InsertInvoiceLineItem, 'invoiceId'>[]
+    ): Promise<schema.Invoice | null>;
     updateInvoice(invoiceId: number, invoiceData: Partial<Omit<schema.InsertInvoice, 'id' | 'projectId'>>): Promise<schema.Invoice | null>;
+    replaceLineItems(
+        invoiceId: number,
+        invoiceData: Partial<Omit<schema.InsertInvoice, 'id' | 'projectId'>>,
+        lineItems: Omit<schema.InsertInvoiceLineItem, 'invoiceId'>[]
+    ): Promise<schema.Invoice | null>; // Swap the items and their totals together
     deleteInvoice(invoiceId: number): Promise<boolean>; // Consider implications for payments
     recordPayment(paymentData: schema.InsertPayment): Promise<schema.Payment | null>;
 }
@@ -101,6 +110,13 @@ class InvoiceRepository implements IInvoiceRepository {
                     billingAddress: schema.invoices.billingAddress,
                     lateFeePercentage: schema.invoices.lateFeePercentage,
                     gracePeriodDays: schema.invoices.gracePeriodDays,
+                    grossAmount: schema.invoices.grossAmount,
+                    retainagePercentage: schema.invoices.retainagePercentage,
+                    retainageAmount: schema.invoices.retainageAmount,
+                    subtotal: schema.invoices.subtotal,
+                    discountAmount: schema.invoices.discountAmount,
+                    taxRate: schema.invoices.taxRate,
+                    taxAmount: schema.invoices.taxAmount,
                     updatedAt: schema.invoices.updatedAt,
                     milestoneId: schema.invoices.milestoneId
                 })
@@ -135,10 +151,17 @@ class InvoiceRepository implements IInvoiceRepository {
                 .where(eq(schema.payments.invoiceId, invoiceId))
                 .orderBy(asc(schema.payments.paymentDate));
 
-            // Return invoice with payments
+            const lineItems = await this.dbOrTx
+                .select()
+                .from(schema.invoiceLineItems)
+                .where(eq(schema.invoiceLineItems.invoiceId, invoiceId))
+                .orderBy(asc(schema.invoiceLineItems.sortOrder), asc(schema.invoiceLineItems.id));
+
+            // Return invoice with payments and line items
             return {
                 ...invoice[0],
-                payments: payments || []
+                payments: payments || [],
+                lineItems: lineItems || []
             } as InvoiceWithPayments;
         } catch (error) {
             console.error(`Error fetching invoice ${invoiceId}:`, error);
@@ -161,18 +184,44 @@ class InvoiceRepository implements IInvoiceRepository {
         }
     }
 
-    async createInvoice(invoiceData: Omit<schema.InsertInvoice, 'amount'> & { amount: string }): Promise<schema.Invoice | null> {
+    async getOpenInvoicesDueBy(cutoff: Date): Promise<schema.Invoice[]> {
         try {
-            const result = await this.dbOrTx.insert(schema.invoices)
-                .values({
-                    ...invoiceData,
-                    // Ensure amount is handled correctly (string/number -> numeric)
-                    // Drizzle/node-postgres usually handles string representations fine
-                    status: invoiceData.status ?? 'draft', // Explicitly default to draft status
-                })
-                .returning();
+            return await this.dbOrTx
+                .select()
+                .from(schema.invoices)
+                .where(and(
+                    inArray(schema.invoices.status, ['pending', 'partially_paid', 'overdue']),
+                    lte(schema.invoices.dueDate, cutoff)
+                ))
+                .orderBy(asc(schema.invoices.dueDate));
+        } catch (error) {
+            console.error('Error fetching open invoices:', error);
+            throw new Error('Database error while fetching open invoices.');
+        }
+    }
 
-            return result.length > 0 ? result[0] : null;
+    async createInvoice(
+        invoiceData: Omit<schema.InsertInvoice, 'amount'> & { amount: string },
+        lineItems: Omit<schema.InsertInvoiceLineItem, 'invoiceId'>[] = []
+    ): Promise<schema.Invoice | null> {
+        try {
+            return await this.dbOrTx.transaction(async (tx: any) => {
+                const result = await tx.insert(schema.invoices)
+                    .values({
+                        ...invoiceData,
+                        // Ensure amount is handled correctly (string/number -> numeric)
+                        // Drizzle/node-postgres usually handles string representations fine
+                        status: invoiceData.status ?? 'draft', // Explicitly default to draft status
+                    })
+                    .returning();
+                if (result.length === 0) return null;
+
+                if (lineItems.length > 0) {
+                    await tx.insert(schema.invoiceLineItems)
+                        .values(lineItems.map(item => ({ ...item, invoiceId: result[0].id })));
+                }
+                return result[0];
+            });
         } catch (error) {
             console.error('Error creating invoice:', error);
             if ((error as any).code === '23503') { // FK violation
@@ -208,6 +257,33 @@ class InvoiceRepository implements IInvoiceRepository {
         }
     }
 
+    async replaceLineItems(
+        invoiceId: number,
+        invoiceData: Partial<Omit<schema.InsertInvoice, 'id' | 'projectId'>>,
+        lineItems: Omit<schema.InsertInvoiceLineItem, 'invoiceId'>[]
+    ): Promise<schema.Invoice | null> {
+        try {
+            return await this.dbOrTx.transaction(async (tx: any) => {
+                const result = await tx.update(schema.invoices)
+                    .set({ ...invoiceData, updatedAt: new Date() })
+                    .where(eq(schema.invoices.id, invoiceId))
+                    .returning();
+                if (result.length === 0) return null;
+
+                await tx.delete(schema.invoiceLineItems)
+                    .where(eq(schema.invoiceLineItems.invoiceId, invoiceId));
+                if (lineItems.length > 0) {
+                    await tx.insert(schema.invoiceLineItems)
+                        .values(lineItems.map(item => ({ ...item, invoiceId })));
+                }
+                return result[0];
+            });
+        } catch (error) {
+            console.error(`Error replacing line items for invoice ${invoiceId}:`, error);
+            throw new Error('Database error while updating invoice line items.');
+        }
+    }
+
     async deleteInvoice(invoiceId: number): Promise<boolean> {
         // IMPORTANT: Decide deletion strategy for associated payments.
         // Option 1: Use DB cascade delete (ON DELETE CASCADE on payments.invoiceId FK)
@@ -250,6 +326,9 @@ class InvoiceRepository implements IInvoiceRepository {
             console.error('Error recording payment:', error);
             if (error.code === '23503') { // FK violation (invoiceId or recordedBy)
                  throw new HttpError(400, 'Invalid invoice or user associated with the payment.');
+            }
+            if (error.code === '23505') { // Payment intent already settled (payments_settled_payment_intent_unique)
+                 throw new HttpError(409, 'This payment has already been recorded.');
             }
              throw new Error('Database error while recording payment.');
         }
@@ -0,0 +1,104 @@
+// server/storage/repositories/invoiceActivity.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, asc, inArray } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+export interface IInvoiceActivityRepository {
+    recordActivity(data: schema.InsertInvoiceActivity): Promise<schema.InvoiceActivity | null>;
+    updateActivity(id: number, data: Partial<schema.InsertInvoiceActivity>): Promise<schema.InvoiceActivity | null>;
+    deleteActivity(id: number): Promise<boolean>;
+    getActivitiesForInvoice(invoiceId: number): Promise<schema.InvoiceActivity[]>;
+    getEventKeysForInvoices(invoiceIds: number[]): Promise<Map<number, Set<string>>>;
+}
+
+class InvoiceActivityRepository implements IInvoiceActivityRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    /**
+     * Adds an entry to an invoice's history. Returns null when an entry with the same
+     * eventKey already exists, so one-time events are only recorded once.
+     */
+    async recordActivity(data: schema.InsertInvoiceActivity): Promise<schema.InvoiceActivity | null> {
+        try {
+            const result = await this.dbOrTx.insert(schema.invoiceActivities)
+                .values(data)
+                .onConflictDoNothing({ target: [schema.invoiceActivities.invoiceId, schema.invoiceActivities.eventKey] })
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error recording activity for invoice ${data.invoiceId}:`, error);
+            throw new Error('Database error while recording invoice activity.');
+        }
+    }
+
+    async updateActivity(id: number, data: Partial<schema.InsertInvoiceActivity>): Promise<schema.InvoiceActivity | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.invoiceActivities)
+                .set(data)
+                .where(eq(schema.invoiceActivities.id, id))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error updating invoice activity ${id}:`, error);
+            throw new Error('Database error while updating invoice activity.');
+        }
+    }
+
+    // Only used to release a keyed entry claimed for work that then failed
+    async deleteActivity(id: number): Promise<boolean> {
+        try {
+            const result = await this.dbOrTx.delete(schema.invoiceActivities)
+                .where(eq(schema.invoiceActivities.id, id))
+                .returning({ id: schema.invoiceActivities.id });
+            return result.length > 0;
+        } catch (error) {
+            console.error(`Error deleting invoice activity ${id}:`, error);
+            throw new Error('Database error while deleting invoice activity.');
+        }
+    }
+
+    async getActivitiesForInvoice(invoiceId: number): Promise<schema.InvoiceActivity[]> {
+        try {
+            return await this.dbOrTx.query.invoiceActivities.findMany({
+                where: eq(schema.invoiceActivities.invoiceId, invoiceId),
+                orderBy: [asc(schema.invoiceActivities.createdAt)],
+            });
+        } catch (error) {
+            console.error(`Error fetching activities for invoice ${invoiceId}:`, error);
+            throw new Error('Database error while fetching invoice activities.');
+        }
+    }
+
+    // Keyed events already recorded for each invoice, used to skip repeat reminders and fees
+    async getEventKeysForInvoices(invoiceIds: number[]): Promise<Map<number, Set<string>>> {
+        const keys = new Map<number, Set<string>>();
+        if (invoiceIds.length === 0) return keys;
+
+        try {
+            const rows: { invoiceId: number; eventKey: string | null }[] = await this.dbOrTx
+                .select({
+                    invoiceId: schema.invoiceActivities.invoiceId,
+                    eventKey: schema.invoiceActivities.eventKey,
+                })
+                .from(schema.invoiceActivities)
+                .where(inArray(schema.invoiceActivities.invoiceId, invoiceIds));
+
+            for (const row of rows) {
+                if (!row.eventKey) continue;
+                if (!keys.has(row.invoiceId)) keys.set(row.invoiceId, new Set());
+                keys.get(row.invoiceId)!.add(row.eventKey);
+            }
+            return keys;
+        } catch (error) {
+            console.error('Error fetching invoice activity keys:', error);
+            throw new Error('Database error while fetching invoice activities.');
+        }
+    }
+}
+
+export const invoiceActivityRepository = new InvoiceActivityRepository();
@@ -1,7 +1,7 @@
 // server/storage/repositories/payment.repository.ts
 import { NeonDatabase } from 'drizzle-orm/neon-serverless';
-import type { PgTransaction } from 'drizzle-orm/pg-core';
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, asc, and, inArray } from 'drizzle-orm';
+import { HttpError } from '../../errors';
 import * as schema from '../../../shared/schema';
 import { db } from '../../db';
 
@@ -9,16 +9,20 @@ import { db } from '../../db';
 export interface IPaymentRepository {
     getAllPayments(): Promise<schema.Payment[]>;
     getPaymentsForInvoice(invoiceId: number): Promise<schema.Payment[]>;
+    getPaymentById(paymentId: number): Promise<schema.Payment | null>;
+    getPaymentsByPaymentIntentId(paymentIntentId: string): Promise<schema.Payment[]>;
+    getPaymentsByChargeId(chargeId: string): Promise<schema.Payment[]>;
     createPayment(paymentData: schema.InsertPayment): Promise<schema.Payment | null>;
     updatePayment(paymentId: number, paymentData: Partial<schema.InsertPayment>): Promise<schema.Payment | null>;
+    transitionPaymentStatus(paymentId: number, fromStatuses: string[], paymentData: Partial<schema.InsertPayment>): Promise<schema.Payment | null>;
     deletePayment(paymentId: number): Promise<boolean>;
 }
 
 // Implementation
 class PaymentRepository implements IPaymentRepository {
-    private dbOrTx: NeonDatabase<typeof schema> | PgTransaction<any, any, any>;
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
 
-    constructor(databaseOrTx: NeonDatabase<typeof schema> | PgTransaction<any, any, any> = db) {
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
         this.dbOrTx = databaseOrTx;
     }
 
@@ -45,6 +49,43 @@ class PaymentRepository implements IPaymentRepository {
         }
     }
 
+    async getPaymentById(paymentId: number): Promise<schema.Payment | null> {
+        try {
+            const payment = await this.dbOrTx.query.payments.findFirst({
+                where: eq(schema.payments.id, paymentId),
+            });
+            return payment ?? null;
+        } catch (error) {
+            console.error(`Error fetching payment ${paymentId}:`, error);
+            throw new Error('Database error while fetching payment.');
+        }
+    }
+
+    async getPaymentsByPaymentIntentId(paymentIntentId: string): Promise<schema.Payment[]> {
+        try {
+            return await this.dbOrTx.query.payments.findMany({
+                where: eq(schema.payments.stripePaymentIntentId, paymentIntentId),
+                orderBy: [asc(schema.payments.createdAt)],
+            });
+        } catch (error) {
+            console.error(`Error fetching payments for payment intent ${paymentIntentId}:`, error);
+            throw new Error('Database error while fetching payments.');
+        }
+    }
+
+    // Includes the original charge plus any refund and dispute rows recorded against it
+    async getPaymentsByChargeId(chargeId: string): Promise<schema.Payment[]> {
+        try {
+            return await this.dbOrTx.query.payments.findMany({
+                where: eq(schema.payments.stripeChargeId, chargeId),
+                orderBy: [asc(schema.payments.createdAt)],
+            });
+        } catch (error) {
+            console.error(`Error fetching payments for charge ${chargeId}:`, error);
+            throw new Error('Database error while fetching payments.');
+        }
+    }
+
     async createPayment(paymentData: schema.InsertPayment): Promise<schema.Payment | null> {
         try {
             const result = await this.dbOrTx.insert(schema.payments)
@@ -52,8 +93,11 @@ class PaymentRepository implements IPaymentRepository {
                 .returning();
 
             return result.length > 0 ? result[0] : null;
-        } catch (error) {
+        } catch (error: any) {
             console.error('Error creating payment:', error);
+            if (error.code === '23505') { // Open payment intent or refund already has its row
+                throw new HttpError(409, 'This payment has already been recorded.');
+            }
             throw new Error('Database error while creating payment.');
         }
     }
@@ -61,7 +105,7 @@ class PaymentRepository implements IPaymentRepository {
     async updatePayment(paymentId: number, paymentData: Partial<schema.InsertPayment>): Promise<schema.Payment | null> {
         try {
             const result = await this.dbOrTx.update(schema.payments)
-                .set(paymentData)
+                .set({ ...paymentData, updatedAt: new Date() })
                 .where(eq(schema.payments.id, paymentId))
                 .returning();
 
@@ -72,6 +116,30 @@ class PaymentRepository implements IPaymentRepository {
         }
     }
 
+    /**
+     * Updates a payment only while it is still in one of `fromStatuses`, so concurrent handlers
+     * settling the same payment don't both act on it. Returns null when the status already moved on.
+     */
+    async transitionPaymentStatus(paymentId: number, fromStatuses: string[], paymentData: Partial<schema.InsertPayment>): Promise<schema.Payment | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.payments)
+                .set({ ...paymentData, updatedAt: new Date() })
+                .where(and(
+                    eq(schema.payments.id, paymentId),
+                    inArray(schema.payments.status, fromStatuses)
+                ))
+                .returning();
+
+            return result.length > 0 ? result[0] : null;
+        } catch (error: any) {
+            console.error(`Error updating status of payment ${paymentId}:`, error);
+            if (error.code === '23505') { // Payment intent already settled on another row
+                throw new HttpError(409, 'This payment has already been recorded.');
+            }
+            throw new Error('Database error while updating payment.');
+        }
+    }
+
     async deletePayment(paymentId: number): Promise<boolean> {
         try {
             const result = await this.dbOrTx.delete(schema.payments)
@@ -1,10 +1,10 @@
 // server/storage/repositories/project.repository.ts
 import { NeonDatabase } from 'drizzle-orm/neon-serverless';
-import { eq, and, or, sql, desc, asc, inArray, exists } from 'drizzle-orm';
+import { eq, ne, and, or, sql, desc, asc, inArray, exists, SQL } from 'drizzle-orm';
 import * as schema from '../../../shared/schema';
 import { db } from '../../db';
 import { HttpError } from '../../errors';
-import { ProjectWithDetails, ClientInfo, ProjectManagerInfo } from '../types';
+import { ProjectWithDetails, ClientInfo, ProjectManagerInfo, ProjectArchiveFilter } from '../types';
 import { sendEmail } from '../../email';
 import { getBaseUrl } from '../../domain.config';
 import { randomBytes } from 'crypto';
@@ -13,9 +13,9 @@ import { randomBytes } from 'crypto';
 
 // Interface for Project Repository
 export interface IProjectRepository {
-    getAllProjects(): Promise<ProjectWithDetails[]>;
-    getProjectsForUser(userId: string): Promise<ProjectWithDetails[]>;
-    getProjectsByManager(managerId: number): Promise<ProjectWithDetails[]>; // Get projects assigned to a specific project manager
+    getAllProjects(archived?: ProjectArchiveFilter): Promise<ProjectWithDetails[]>;
+    getProjectsForUser(userId: string, archived?: ProjectArchiveFilter): Promise<ProjectWithDetails[]>;
+    getProjectsByManager(managerId: number, archived?: ProjectArchiveFilter): Promise<ProjectWithDetails[]>; // Get projects assigned to a specific project manager
     getProjectById(projectId: number): Promise<ProjectWithDetails | null>;
     getProjectByQuoteId(quoteId: number): Promise<schema.Project | null>; // Find project by origin quote ID
     getProject(projectId: number): Promise<schema.Project | null>; // Basic project without relations
@@ -25,6 +25,10 @@ export interface IProjectRepository {
     createProjectWithClients(projectData: Omit<schema.InsertProject, 'totalBudget'> & { totalBudget: string }, clientIds: string[]): Promise<ProjectWithDetails | null>;
     updateProjectDetailsAndClients(projectId: number, projectData: Partial<Omit<schema.InsertProject, 'pmId' | 'id' | 'createdAt' | 'updatedAt' | 'totalBudget'>> & { totalBudget?: string }, clientIds?: string[]): Promise<ProjectWithDetails | null>;
     deleteProject(projectId: number): Promise<boolean>;
+    archiveProject(projectId: number, archivedById: number, reason?: string | null): Promise<schema.Project | null>;
+    restoreProject(projectId: number): Promise<schema.Project | null>;
+    adjustBudgetAndSchedule(projectId: number, budgetDelta: string, scheduleDays: number): Promise<schema.Project | null>; // Apply an approved change order
+    setRetainagePercentage(projectId: number, percentage: string): Promise<schema.Project | null>;
     
     // Method for backward compatibility
     assignClientToProject(clientId: string | number, projectId: string | number): Promise<any>;
@@ -54,9 +58,16 @@ class ProjectRepository implements IProjectRepository {
         return { ...projectBase, clients, projectManager };
     }
 
-    async getAllProjects(): Promise<ProjectWithDetails[]> {
+    private archiveCondition(archived: ProjectArchiveFilter): SQL | undefined {
+        if (archived === 'only') return eq(schema.projects.status, 'archived');
+        if (archived === 'exclude') return ne(schema.projects.status, 'archived');
+        return undefined;
+    }
+
+    async getAllProjects(archived: ProjectArchiveFilter = 'exclude'): Promise<ProjectWithDetails[]> {
         try {
             const projects = await this.db.query.projects.findMany({
+                where: this.archiveCondition(archived),
                 orderBy: [desc(schema.projects.createdAt)],
                 with: {
                     projectManager: { columns: { id: true, firstName: true, lastName: true, email: true } },
@@ -70,13 +81,18 @@ class ProjectRepository implements IProjectRepository {
         }
     }
 
-    async getProjectsForUser(userId: string): Promise<ProjectWithDetails[]> {
+    async getProjectsForUser(userId: string, archived: ProjectArchiveFilter = 'exclude'): Promise<ProjectWithDetails[]> {
          try {
             const projects = await this.db.query.projects.findMany({
-                where: or(
-                    eq(schema.projects.projectManagerId, Number(userId)),
-                    exists(this.db.select({ val: sql`1` }).from(schema.clientProjects)
-                           .where(and(eq(schema.clientProjects.projectId, schema.projects.id), eq(schema.clientProjects.clientId, Number(userId)))))
+                where: and(
+                    or(
+                        eq(schema.projects.projectManagerId, Number(userId)),
+                        exists(this.db.select({ val: sql`1` }).from(schema.clientProjects)
+                               .where(and(eq(schema.clientProjects.projectId, schema.projects.id), eq(schema.clientProjects.clientId, Number(userId))))),
+                        exists(this.db.select({ val: sql`1` }).from(schema.projectMembers)
+                               .where(and(eq(schema.projectMembers.projectId, schema.projects.id), eq(schema.projectMembers.userId, Number(userId)))))
+                    ),
+                    this.archiveCondition(archived)
                 ),
                 orderBy: [desc(schema.projects.createdAt)],
                 with: {
@@ -152,7 +168,12 @@ class ProjectRepository implements IProjectRepository {
             if (project.projectManagerId === Number(userId)) return true;
             if (project.clientProjects?.some(c => c.clientId === Number(userId))) return true;
 
-            return false;
+            // Team members assigned to the project; what they may do there is checked by the permission middleware
+            const membership = await this.db.select({ id: schema.projectMembers.id })
+                                        .from(schema.projectMembers)
+                                        .where(and(eq(schema.projectMembers.projectId, projectId), eq(schema.projectMembers.userId, Number(userId))))
+                                        .limit(1);
+            return membership.length > 0;
         } catch (error) {
             console.error(`Error checking access for user ${userId} to project ${projectId}:`, error);
             throw new Error('Database error while checking project access.');
@@ -307,6 +328,80 @@ class ProjectRepository implements IProjectRepository {
         }
     }
     
+    // Marks a project archived, remembering its status so restore can put it back
+    async archiveProject(projectId: number, archivedById: number, reason?: string | null): Promise<schema.Project | null> {
+        try {
+            const result = await this.db.update(schema.projects)
+                .set({
+                    statusBeforeArchive: sql`${schema.projects.status}`,
+                    status: 'archived',
+                    archivedAt: new Date(),
+                    archivedById,
+                    archiveReason: reason ?? null,
+                    updatedAt: new Date(),
+                })
+                .where(and(eq(schema.projects.id, projectId), ne(schema.projects.status, 'archived')))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error archiving project ${projectId}:`, error);
+            throw new Error('Database error while archiving project.');
+        }
+    }
+
+    async restoreProject(projectId: number): Promise<schema.Project | null> {
+        try {
+            const result = await this.db.update(schema.projects)
+                .set({
+                    status: sql`coalesce(${schema.projects.statusBeforeArchive}, 'completed')`,
+                    statusBeforeArchive: null,
+                    archivedAt: null,
+                    archivedById: null,
+                    archiveReason: null,
+                    updatedAt: new Date(),
+                })
+                .where(and(eq(schema.projects.id, projectId), eq(schema.projects.status, 'archived')))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error restoring project ${projectId}:`, error);
+            throw new Error('Database error while restoring project.');
+        }
+    }
+
+    async adjustBudgetAndSchedule(projectId: number, budgetDelta: string, scheduleDays: number): Promise<schema.Project | null> {
+        try {
+            // Adjusted in SQL so concurrent change orders don't overwrite each other
+            const result = await this.db.update(schema.projects)
+                .set({
+                    totalBudget: sql`${schema.projects.totalBudget} + ${budgetDelta}::numeric`,
+                    ...(scheduleDays !== 0 && {
+                        estimatedCompletionDate: sql`${schema.projects.estimatedCompletionDate} + make_interval(days => ${scheduleDays}::int)`,
+                    }),
+                    updatedAt: new Date(),
+                })
+                .where(eq(schema.projects.id, projectId))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error adjusting budget and schedule for project ${projectId}:`, error);
+            throw new Error('Database error while adjusting project budget.');
+        }
+    }
+
+    async setRetainagePercentage(projectId: number, percentage: string): Promise<schema.Project | null> {
+        try {
+            const result = await this.db.update(schema.projects)
+                .set({ retainagePercentage: percentage, updatedAt: new Date() })
+                .where(eq(schema.projects.id, projectId))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error updating retainage for project ${projectId}:`, error);
+            throw new Error('Database error while updating project retainage.');
+        }
+    }
+
     // DISABLED: Send email notification to client about new portal access with magic link
     // This function has been disabled to prevent duplicate magic links during payment processing
     // Portal notifications are now handled exclusively by PaymentService
@@ -343,10 +438,10 @@ class ProjectRepository implements IProjectRepository {
     }
 
     // Get all projects assigned to a specific project manager
-    async getProjectsByManager(managerId: number): Promise<ProjectWithDetails[]> {
+    async getProjectsByManager(managerId: number, archived: ProjectArchiveFilter = 'exclude'): Promise<ProjectWithDetails[]> {
         try {
             const projects = await this.db.query.projects.findMany({
-                where: eq(schema.projects.projectManagerId, managerId),
+                where: and(eq(schema.projects.projectManagerId, managerId), this.archiveCondition(archived)),
                 orderBy: [desc(schema.projects.updatedAt)],
                 with: {
                     projectManager: { columns: { id: true, firstName: true, lastName: true, email: true } },
@@ -0,0 +1,75 @@
+// server/storage/repositories/projectExport.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, desc } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+export interface IProjectExportRepository {
+    createExport(data: schema.InsertProjectExport): Promise<schema.ProjectExport>;
+    getExportById(projectId: number, exportId: number): Promise<schema.ProjectExport | null>;
+    getExportsForProject(projectId: number): Promise<schema.ProjectExport[]>;
+    updateExport(exportId: number, data: Partial<schema.InsertProjectExport>): Promise<schema.ProjectExport | null>;
+}
+
+class ProjectExportRepository implements IProjectExportRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    async createExport(data: schema.InsertProjectExport): Promise<schema.ProjectExport> {
+        try {
+            const result = await this.dbOrTx.insert(schema.projectExports)
+                .values(data)
+                .returning();
+            return result[0];
+        } catch (error) {
+            console.error('Error creating project export:', error);
+            throw new Error('Database error while creating project export.');
+        }
+    }
+
+    async getExportById(projectId: number, exportId: number): Promise<schema.ProjectExport | null> {
+        try {
+            const result = await this.dbOrTx.query.projectExports.findFirst({
+                where: and(
+                    eq(schema.projectExports.id, exportId),
+                    eq(schema.projectExports.projectId, projectId)
+                ),
+            });
+            return result ?? null;
+        } catch (error) {
+            console.error(`Error fetching project export ${exportId}:`, error);
+            throw new Error('Database error while fetching project export.');
+        }
+    }
+
+    async getExportsForProject(projectId: number): Promise<schema.ProjectExport[]> {
+        try {
+            return await this.dbOrTx.query.projectExports.findMany({
+                where: eq(schema.projectExports.projectId, projectId),
+                orderBy: [desc(schema.projectExports.createdAt)],
+            });
+        } catch (error) {
+            console.error(`Error fetching exports for project ${projectId}:`, error);
+            throw new Error('Database error while fetching project exports.');
+        }
+    }
+
+    async updateExport(exportId: number, data: Partial<schema.InsertProjectExport>): Promise<schema.ProjectExport | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.projectExports)
+                .set({ ...data, updatedAt: new Date() })
+                .where(eq(schema.projectExports.id, exportId))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error updating project export ${exportId}:`, error);
+            throw new Error('Database error while updating project export.');
+        }
+    }
+}
+
+// Export an instance for convenience
+export const projectExportRepository = new ProjectExportRepository();
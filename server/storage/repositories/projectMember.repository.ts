@@ -0,0 +1,86 @@
+// server/storage/repositories/projectMember.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, asc } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+export interface IProjectMemberRepository {
+    upsertMember(data: schema.InsertProjectMember): Promise<schema.ProjectMember>;
+    removeMember(projectId: number, userId: number): Promise<boolean>;
+    getMembership(projectId: number, userId: number): Promise<schema.ProjectMember | null>;
+    getMembersForProject(projectId: number): Promise<schema.ProjectMemberWithUser[]>;
+}
+
+class ProjectMemberRepository implements IProjectMemberRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    // Adds the user to the project, or changes their role if they are already a member
+    async upsertMember(data: schema.InsertProjectMember): Promise<schema.ProjectMember> {
+        try {
+            const result = await this.dbOrTx.insert(schema.projectMembers)
+                .values(data)
+                .onConflictDoUpdate({
+                    target: [schema.projectMembers.projectId, schema.projectMembers.userId],
+                    set: { role: data.role, addedById: data.addedById ?? null, updatedAt: new Date() },
+                })
+                .returning();
+            return result[0];
+        } catch (error) {
+            console.error(`Error saving member ${data.userId} for project ${data.projectId}:`, error);
+            throw new Error('Database error while saving project member.');
+        }
+    }
+
+    async removeMember(projectId: number, userId: number): Promise<boolean> {
+        try {
+            const result = await this.dbOrTx.delete(schema.projectMembers)
+                .where(and(
+                    eq(schema.projectMembers.projectId, projectId),
+                    eq(schema.projectMembers.userId, userId)
+                ))
+                .returning({ id: schema.projectMembers.id });
+            return result.length > 0;
+        } catch (error) {
+            console.error(`Error removing member ${userId} from project ${projectId}:`, error);
+            throw new Error('Database error while removing project member.');
+        }
+    }
+
+    async getMembership(projectId: number, userId: number): Promise<schema.ProjectMember | null> {
+        try {
+            const member = await this.dbOrTx.query.projectMembers.findFirst({
+                where: and(
+                    eq(schema.projectMembers.projectId, projectId),
+                    eq(schema.projectMembers.userId, userId)
+                ),
+            });
+            return member ?? null;
+        } catch (error) {
+            console.error(`Error fetching membership of user ${userId} in project ${projectId}:`, error);
+            throw new Error('Database error while fetching project membership.');
+        }
+    }
+
+    async getMembersForProject(projectId: number): Promise<schema.ProjectMemberWithUser[]> {
+        try {
+            const members = await this.dbOrTx.query.projectMembers.findMany({
+                where: eq(schema.projectMembers.projectId, projectId),
+                orderBy: [asc(schema.projectMembers.createdAt)],
+                with: {
+                    user: { columns: { id: true, firstName: true, lastName: true, email: true, role: true } }
+                }
+            });
+            return members as schema.ProjectMemberWithUser[];
+        } catch (error) {
+            console.error(`Error fetching members for project ${projectId}:`, error);
+            throw new Error('Database error while fetching project members.');
+        }
+    }
+}
+
+// Export an instance for convenience
+export const projectMemberRepository = new ProjectMemberRepository();
@@ -159,6 +159,32 @@ export class QuoteAnalyticsRepository {
     }
   }
 
+  // Page views and the latest one per quote, which drive the follow-up cadence
+  async getViewActivity(quoteIds: number[]): Promise<Map<number, { views: number; lastViewedAt: Date }>> {
+    const activity = new Map<number, { views: number; lastViewedAt: Date }>();
+    if (quoteIds.length === 0) return activity;
+
+    try {
+      const rows = await db
+        .select({
+          quoteId: quoteAnalytics.quoteId,
+          views: count(),
+          lastViewedAt: sql<Date>`MAX(${quoteAnalytics.createdAt})`,
+        })
+        .from(quoteAnalytics)
+        .where(and(inArray(quoteAnalytics.quoteId, quoteIds), eq(quoteAnalytics.event, 'page_view')))
+        .groupBy(quoteAnalytics.quoteId);
+
+      for (const row of rows) {
+        activity.set(row.quoteId, { views: Number(row.views), lastViewedAt: new Date(row.lastViewedAt) });
+      }
+      return activity;
+    } catch (error) {
+      console.error("Error getting quote view activity:", error);
+      throw error;
+    }
+  }
+
   // Get view sessions for a quote
   async getQuoteViewSessions(quoteId: number) {
     try {
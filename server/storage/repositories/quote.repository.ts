@@ -2,6 +2,7 @@ import { db } from "../../db";
 import { 
   quotes, 
   quoteLineItems, 
+  quotePaymentStages,
   quoteMedia, 
   quoteResponses,
   quoteAccessTokens,
@@ -11,9 +12,14 @@ import {
   invoices,
   type InsertQuote,
   type InsertQuoteLineItem,
-  type InsertQuoteResponse
+  type InsertQuoteResponse,
+  type QuotePaymentStage,
+  type Quote,
+  type TaxRateSource
 } from "@shared/schema";
-import { eq, desc, sql } from "drizzle-orm";
+import { legacyPercentagesFromStages, type PaymentStageValues } from "@shared/quote-payment-stages";
+import { calculateQuoteTotals, resolveSelection } from "@shared/quote-options";
+import { eq, asc, desc, sql, and, inArray, isNotNull } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
 import { deleteFromR2 } from "../../r2-upload";
 
@@ -110,9 +116,12 @@ export class QuoteRepository {
         .where(eq(quoteResponses.quoteId, id))
         .orderBy(desc(quoteResponses.createdAt));
 
+      const paymentStages = await this.getPaymentStages(quote.id);
+
       return {
         ...quote,
         lineItems,
+        paymentStages,
         responses
       };
     } catch (error) {
@@ -134,7 +143,10 @@ export class QuoteRepository {
       const lineItemsData = data.lineItems || [];
       console.log("[REPO createQuote] lineItemsData after extraction:", JSON.stringify(lineItemsData, null, 2));
       
-      const { lineItems: _, ...quoteData } = data;
+      const { lineItems: _, paymentStages, ...quoteData } = data;
+      if (paymentStages) {
+        Object.assign(quoteData, legacyPercentagesFromStages(paymentStages));
+      }
 
       const [quote] = await db
         .insert(quotes)
@@ -163,6 +175,19 @@ export class QuoteRepository {
           expiresAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // 90 days
         });
 
+      if (paymentStages) {
+        await db.insert(quotePaymentStages).values(
+          (paymentStages as PaymentStageValues[]).map((stage, index) => ({
+            quoteId: quote.id,
+            label: stage.label,
+            description: stage.description || null,
+            stageType: stage.stageType,
+            percentage: stage.percentage.toFixed(2),
+            sortOrder: index,
+          }))
+        );
+      }
+
       // Create line items if provided
       if (lineItemsData && lineItemsData.length > 0) {
         for (const item of lineItemsData) {
@@ -178,6 +203,8 @@ export class QuoteRepository {
               discountPercentage: item.discountPercentage ? String(item.discountPercentage) : "0",
               discountAmount: item.discountAmount ? String(item.discountAmount) : "0",
               totalPrice: String(item.total || item.quantity * item.unitPrice),
+              unitCost: item.unitCost != null ? String(item.unitCost) : null,
+              markupPercentage: item.markupPercentage != null ? String(item.markupPercentage) : null,
             });
         }
       }
@@ -212,6 +239,11 @@ export class QuoteRepository {
         .where(eq(quotes.id, id))
         .returning();
 
+      // Editing the three legacy percentages directly replaces any staged schedule
+      if (this.hasLegacyPercentages(data)) {
+        await db.delete(quotePaymentStages).where(eq(quotePaymentStages.quoteId, id));
+      }
+
       if (updateData) {
         await this.recalculateQuoteTotals(id);
       }
@@ -286,6 +318,10 @@ export class QuoteRepository {
       console.log(`[QuoteRepository.deleteQuote] Deleting line items...`);
       await db.delete(quoteLineItems).where(eq(quoteLineItems.quoteId, id));
       
+      // Delete quote payment stages
+      console.log(`[QuoteRepository.deleteQuote] Deleting payment stages...`);
+      await db.delete(quotePaymentStages).where(eq(quotePaymentStages.quoteId, id));
+      
       // Delete quote responses
       console.log(`[QuoteRepository.deleteQuote] Deleting responses...`);
       await db.delete(quoteResponses).where(eq(quoteResponses.quoteId, id));
@@ -337,6 +373,11 @@ export class QuoteRepository {
           discountPercentage: data.discountPercentage || "0",
           discountAmount: data.discountAmount || "0",
           totalPrice: data.totalPrice || "0",
+          selectionType: data.selectionType || "required",
+          optionGroup: data.optionGroup || null,
+          isDefaultSelected: data.isDefaultSelected ?? true,
+          unitCost: data.unitCost ?? null,
+          markupPercentage: data.markupPercentage ?? null,
           sortOrder: data.sortOrder || 0,
         })
         .returning();
@@ -433,9 +474,12 @@ export class QuoteRepository {
         .where(eq(quoteResponses.quoteId, quote.id))
         .orderBy(desc(quoteResponses.createdAt));
 
+      const paymentStages = await this.getPaymentStages(quote.id);
+
       return {
         ...quote,
         lineItems,
+        paymentStages,
         responses
       };
     } catch (error) {
@@ -579,6 +623,12 @@ export class QuoteRepository {
     taxRate?: string;
     taxAmount?: string;
     isManualTax?: boolean;
+    taxRateSource?: TaxRateSource;
+    taxRateCheckedAt?: Date;
+    downPaymentPercentage?: string;
+    milestonePaymentPercentage?: string;
+    finalPaymentPercentage?: string;
+    paymentStages?: PaymentStageValues[];
   }) {
     try {
       const updateData: any = {
@@ -600,6 +650,10 @@ export class QuoteRepository {
       if (data.isManualTax !== undefined) {
         updateData.isManualTax = data.isManualTax;
       }
+      if (data.taxRateSource !== undefined) {
+        updateData.taxRateSource = data.taxRateSource;
+        updateData.taxRateCheckedAt = data.taxRateCheckedAt ?? new Date();
+      }
       if (data.downPaymentPercentage !== undefined) {
         updateData.downPaymentPercentage = data.downPaymentPercentage === "" ? "40" : data.downPaymentPercentage;
       }
@@ -610,11 +664,37 @@ export class QuoteRepository {
         updateData.finalPaymentPercentage = data.finalPaymentPercentage === "" ? "20" : data.finalPaymentPercentage;
       }
 
-      const [updatedQuote] = await db
-        .update(quotes)
-        .set(updateData)
-        .where(eq(quotes.id, quoteId))
-        .returning();
+      if (data.paymentStages) {
+        Object.assign(updateData, legacyPercentagesFromStages(data.paymentStages));
+      }
+
+      const updatedQuote = await db.transaction(async (tx) => {
+        const [quote] = await tx
+          .update(quotes)
+          .set(updateData)
+          .where(eq(quotes.id, quoteId))
+          .returning();
+        if (!quote) {
+          return undefined;
+        }
+
+        if (data.paymentStages) {
+          await tx.delete(quotePaymentStages).where(eq(quotePaymentStages.quoteId, quoteId));
+          await tx.insert(quotePaymentStages).values(
+            data.paymentStages.map((stage, index) => ({
+              quoteId,
+              label: stage.label,
+              description: stage.description || null,
+              stageType: stage.stageType,
+              percentage: stage.percentage.toFixed(2),
+              sortOrder: index,
+            }))
+          );
+        } else if (this.hasLegacyPercentages(data)) {
+          await tx.delete(quotePaymentStages).where(eq(quotePaymentStages.quoteId, quoteId));
+        }
+        return quote;
+      });
 
       if (updatedQuote) {
         await this.recalculateQuoteTotals(quoteId);
@@ -627,6 +707,114 @@ export class QuoteRepository {
     }
   }
 
+  // Stored stages in schedule order; empty for quotes that still use the legacy percentages
+  async getPaymentStages(quoteId: number) {
+    return db
+      .select()
+      .from(quotePaymentStages)
+      .where(eq(quotePaymentStages.quoteId, quoteId))
+      .orderBy(asc(quotePaymentStages.sortOrder), asc(quotePaymentStages.id));
+  }
+
+  // Sent quotes still waiting on the customer, for the expiry and follow-up job
+  async getOpenSentQuotes() {
+    try {
+      return await db
+        .select()
+        .from(quotes)
+        .where(and(inArray(quotes.status, ['sent', 'pending']), isNotNull(quotes.sentAt)));
+    } catch (error) {
+      console.error("Error fetching open sent quotes:", error);
+      throw error;
+    }
+  }
+
+  // Only moves a quote that is still open, so a response racing the job wins
+  async markQuoteExpired(quoteId: number) {
+    try {
+      const [quote] = await db
+        .update(quotes)
+        .set({ status: 'expired', updatedAt: new Date() })
+        .where(and(eq(quotes.id, quoteId), inArray(quotes.status, ['sent', 'pending'])))
+        .returning();
+      return quote ?? null;
+    } catch (error) {
+      console.error("Error marking quote expired:", error);
+      throw error;
+    }
+  }
+
+  // Records an owner's sign-off on sending the quote at (or above) the given margin
+  async approveMargin(quoteId: number, approvedById: number, marginPercentage: number) {
+    try {
+      const [quote] = await db
+        .update(quotes)
+        .set({
+          marginApprovedAt: new Date(),
+          marginApprovedById: approvedById,
+          approvedMarginPercentage: marginPercentage.toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(quotes.id, quoteId))
+        .returning();
+      return quote ?? null;
+    } catch (error) {
+      console.error("Error approving quote margin:", error);
+      throw error;
+    }
+  }
+
+  // Applies a looked-up tax rate with its jurisdiction; a looked-up rate replaces any manual tax amount
+  async updateTaxJurisdiction(quoteId: number, data: {
+    taxRate: string;
+    taxLocationCode: string | null;
+    taxJurisdiction: string | null;
+    taxRateSource: TaxRateSource;
+    taxRateCheckedAt: Date;
+  }) {
+    try {
+      const [quote] = await db
+        .update(quotes)
+        .set({ ...data, isManualTax: false, updatedAt: new Date() })
+        .where(eq(quotes.id, quoteId))
+        .returning();
+      if (quote) {
+        await this.recalculateQuoteTotals(quoteId);
+      }
+      return quote ?? null;
+    } catch (error) {
+      console.error("Error updating quote tax jurisdiction:", error);
+      throw error;
+    }
+  }
+
+  // Stores the customer's option choice for the revision they saw; `lock` freezes it for good
+  async saveOptionSelection(quoteId: number, lineItemIds: number[], revisionNumber: number | null, lock = false) {
+    try {
+      const [quote] = await db
+        .update(quotes)
+        .set({
+          selectedLineItemIds: lineItemIds,
+          selectionRevisionNumber: revisionNumber,
+          ...(lock ? { optionsLockedAt: new Date() } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(quotes.id, quoteId))
+        .returning();
+      return quote;
+    } catch (error) {
+      console.error("Error saving quote option selection:", error);
+      throw error;
+    }
+  }
+
+  private hasLegacyPercentages(data: Record<string, unknown>) {
+    return data.downPaymentPercentage !== undefined ||
+      data.milestonePaymentPercentage !== undefined ||
+      data.finalPaymentPercentage !== undefined;
+  }
+
+  // Totals reflect the quoted configuration: required items plus the default options
   private async recalculateQuoteTotals(quoteId: number) {
     try {
       const lineItems = await db
@@ -634,71 +822,33 @@ export class QuoteRepository {
         .from(quoteLineItems)
         .where(eq(quoteLineItems.quoteId, quoteId));
 
-      const subtotal = lineItems.reduce((sum, item) => {
-        return sum + parseFloat(item.totalPrice || "0");
-      }, 0);
-
       const [quote] = await db
         .select()
         .from(quotes)
         .where(eq(quotes.id, quoteId));
 
       if (quote) {
-        // Calculate quote-level discount
-        const discountPercentage = parseFloat(quote.discountPercentage || "0");
-        const discountAmount = parseFloat(quote.discountAmount || "0");
-        
-        let totalDiscount = 0;
-        if (discountPercentage > 0) {
-          totalDiscount = (subtotal * discountPercentage) / 100;
-        } else if (discountAmount > 0) {
-          totalDiscount = discountAmount;
-        }
-        
-        const discountedSubtotal = subtotal - totalDiscount;
-
-        // Calculate tax
-        let taxAmount = 0;
-        if (quote.isManualTax) {
-          // Use manually entered tax amount
-          taxAmount = parseFloat(quote.taxAmount || "0");
-        } else {
-          // Calculate tax based on rate
-          const taxRateValue = parseFloat(quote.taxRate || "10.60");
-          let taxRate;
-          
-          // Handle both old decimal format (0.1060) and new percentage format (10.60)
-          if (taxRateValue <= 1) {
-            // Old decimal format - use as is
-            taxRate = taxRateValue;
-          } else {
-            // New percentage format - convert to decimal
-            taxRate = taxRateValue / 100;
-          }
-          
-          taxAmount = discountedSubtotal * taxRate;
-        }
-
-        const total = discountedSubtotal + taxAmount;
+        const included = new Set(resolveSelection(lineItems));
+        const totals = calculateQuoteTotals(quote, lineItems.filter(item => included.has(item.id)));
 
         await db
           .update(quotes)
           .set({
-            subtotal: subtotal.toString(),
-            discountAmount: totalDiscount.toString(),
-            discountedSubtotal: discountedSubtotal.toString(),
-            taxAmount: taxAmount.toString(),
-            total: total.toString(),
+            subtotal: totals.subtotal.toString(),
+            discountAmount: totals.discountAmount.toString(),
+            discountedSubtotal: totals.discountedSubtotal.toString(),
+            taxAmount: totals.taxAmount.toString(),
+            total: totals.total.toString(),
             updatedAt: new Date(),
           })
           .where(eq(quotes.id, quoteId));
 
         console.log(`Recalculated totals for quote ${quoteId}:`, {
-          subtotal: subtotal.toString(),
-          totalDiscount: totalDiscount.toString(), 
-          discountedSubtotal: discountedSubtotal.toString(),
-          taxAmount: taxAmount.toString(),
-          total: total.toString()
+          subtotal: totals.subtotal.toString(),
+          totalDiscount: totals.discountAmount.toString(), 
+          discountedSubtotal: totals.discountedSubtotal.toString(),
+          taxAmount: totals.taxAmount.toString(),
+          total: totals.total.toString()
         });
       }
     } catch (error) {
@@ -723,6 +873,18 @@ export interface IQuoteRepository {
   deleteLineItem(id: number): Promise<boolean>;
   respondToQuote(token: string, data: InsertQuoteResponse): Promise<any>;
   updateQuoteFinancials(quoteId: number, financials: any): Promise<any>;
+  getPaymentStages(quoteId: number): Promise<QuotePaymentStage[]>;
+  saveOptionSelection(quoteId: number, lineItemIds: number[], revisionNumber: number | null, lock?: boolean): Promise<any>;
+  getOpenSentQuotes(): Promise<Quote[]>;
+  markQuoteExpired(quoteId: number): Promise<Quote | null>;
+  approveMargin(quoteId: number, approvedById: number, marginPercentage: number): Promise<Quote | null>;
+  updateTaxJurisdiction(quoteId: number, data: {
+    taxRate: string;
+    taxLocationCode: string | null;
+    taxJurisdiction: string | null;
+    taxRateSource: TaxRateSource;
+    taxRateCheckedAt: Date;
+  }): Promise<Quote | null>;
 }
 
 // Export an instance for convenience
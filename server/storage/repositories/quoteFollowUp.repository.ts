@@ -0,0 +1,75 @@
+// server/storage/repositories/quoteFollowUp.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, desc, inArray } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+export interface IQuoteFollowUpRepository {
+    recordFollowUp(data: schema.InsertQuoteFollowUp): Promise<schema.QuoteFollowUp | null>;
+    getFollowUpsForQuote(quoteId: number): Promise<schema.QuoteFollowUp[]>;
+    getEventKeysForQuotes(quoteIds: number[]): Promise<Map<number, Set<string>>>;
+}
+
+class QuoteFollowUpRepository implements IQuoteFollowUpRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    /**
+     * Logs a follow-up against a quote. Returns null when one with the same eventKey was
+     * already logged, so each follow-up is only sent once.
+     */
+    async recordFollowUp(data: schema.InsertQuoteFollowUp): Promise<schema.QuoteFollowUp | null> {
+        try {
+            const result = await this.dbOrTx.insert(schema.quoteFollowUps)
+                .values(data)
+                .onConflictDoNothing({ target: [schema.quoteFollowUps.quoteId, schema.quoteFollowUps.eventKey] })
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error recording follow-up for quote ${data.quoteId}:`, error);
+            throw new Error('Database error while recording quote follow-up.');
+        }
+    }
+
+    async getFollowUpsForQuote(quoteId: number): Promise<schema.QuoteFollowUp[]> {
+        try {
+            return await this.dbOrTx.query.quoteFollowUps.findMany({
+                where: eq(schema.quoteFollowUps.quoteId, quoteId),
+                orderBy: [desc(schema.quoteFollowUps.createdAt)],
+            });
+        } catch (error) {
+            console.error(`Error fetching follow-ups for quote ${quoteId}:`, error);
+            throw new Error('Database error while fetching quote follow-ups.');
+        }
+    }
+
+    // Follow-ups already logged for each quote, used to skip repeats
+    async getEventKeysForQuotes(quoteIds: number[]): Promise<Map<number, Set<string>>> {
+        const keys = new Map<number, Set<string>>();
+        if (quoteIds.length === 0) return keys;
+
+        try {
+            const rows: { quoteId: number; eventKey: string }[] = await this.dbOrTx
+                .select({
+                    quoteId: schema.quoteFollowUps.quoteId,
+                    eventKey: schema.quoteFollowUps.eventKey,
+                })
+                .from(schema.quoteFollowUps)
+                .where(inArray(schema.quoteFollowUps.quoteId, quoteIds));
+
+            for (const row of rows) {
+                if (!keys.has(row.quoteId)) keys.set(row.quoteId, new Set());
+                keys.get(row.quoteId)!.add(row.eventKey);
+            }
+            return keys;
+        } catch (error) {
+            console.error('Error fetching quote follow-up keys:', error);
+            throw new Error('Database error while fetching quote follow-ups.');
+        }
+    }
+}
+
+export const quoteFollowUpRepository = new QuoteFollowUpRepository();
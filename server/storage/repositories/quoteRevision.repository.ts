@@ -0,0 +1,92 @@
+// server/storage/repositories/quoteRevision.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, desc, max } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+type NewRevision = Omit<schema.InsertQuoteRevision, 'revisionNumber'>;
+
+const withSender = {
+    sentBy: { columns: { id: true, firstName: true, lastName: true } },
+} as const;
+
+export interface IQuoteRevisionRepository {
+    createRevision(data: NewRevision): Promise<schema.QuoteRevision>;
+    getRevisionsForQuote(quoteId: number): Promise<schema.QuoteRevisionWithSender[]>;
+    getRevision(quoteId: number, revisionNumber: number): Promise<schema.QuoteRevision | null>;
+    getLatestRevision(quoteId: number): Promise<schema.QuoteRevision | null>;
+}
+
+class QuoteRevisionRepository implements IQuoteRevisionRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    /**
+     * Stores the next revision for the quote. Revisions are numbered from 1 and never updated;
+     * the unique (quote, number) constraint rejects a concurrent send that picked the same number.
+     */
+    async createRevision(data: NewRevision): Promise<schema.QuoteRevision> {
+        try {
+            return await this.dbOrTx.transaction(async (tx: any) => {
+                const [{ latest }] = await tx
+                    .select({ latest: max(schema.quoteRevisions.revisionNumber) })
+                    .from(schema.quoteRevisions)
+                    .where(eq(schema.quoteRevisions.quoteId, data.quoteId));
+
+                const [created] = await tx.insert(schema.quoteRevisions)
+                    .values({ ...data, revisionNumber: (latest ?? 0) + 1 })
+                    .returning();
+                return created;
+            });
+        } catch (error) {
+            console.error(`Error creating revision for quote ${data.quoteId}:`, error);
+            throw new Error('Database error while creating quote revision.');
+        }
+    }
+
+    async getRevisionsForQuote(quoteId: number): Promise<schema.QuoteRevisionWithSender[]> {
+        try {
+            return await this.dbOrTx.query.quoteRevisions.findMany({
+                where: eq(schema.quoteRevisions.quoteId, quoteId),
+                orderBy: [desc(schema.quoteRevisions.revisionNumber)],
+                with: withSender,
+            });
+        } catch (error) {
+            console.error(`Error fetching revisions for quote ${quoteId}:`, error);
+            throw new Error('Database error while fetching quote revisions.');
+        }
+    }
+
+    async getRevision(quoteId: number, revisionNumber: number): Promise<schema.QuoteRevision | null> {
+        try {
+            const result = await this.dbOrTx.query.quoteRevisions.findFirst({
+                where: and(
+                    eq(schema.quoteRevisions.quoteId, quoteId),
+                    eq(schema.quoteRevisions.revisionNumber, revisionNumber)
+                ),
+            });
+            return result ?? null;
+        } catch (error) {
+            console.error(`Error fetching revision ${revisionNumber} of quote ${quoteId}:`, error);
+            throw new Error('Database error while fetching quote revision.');
+        }
+    }
+
+    async getLatestRevision(quoteId: number): Promise<schema.QuoteRevision | null> {
+        try {
+            const result = await this.dbOrTx.query.quoteRevisions.findFirst({
+                where: eq(schema.quoteRevisions.quoteId, quoteId),
+                orderBy: [desc(schema.quoteRevisions.revisionNumber)],
+            });
+            return result ?? null;
+        } catch (error) {
+            console.error(`Error fetching latest revision of quote ${quoteId}:`, error);
+            throw new Error('Database error while fetching quote revision.');
+        }
+    }
+}
+
+export const quoteRevisionRepository = new QuoteRevisionRepository();
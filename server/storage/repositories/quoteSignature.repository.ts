@@ -0,0 +1,81 @@
+// server/storage/repositories/quoteSignature.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, isNull } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+type NewSignature = Omit<schema.InsertQuoteSignature, 'quoteId' | 'responseId'>;
+type NewAcceptance = Pick<schema.InsertQuoteResponse, 'customerName' | 'customerEmail' | 'message' | 'ipAddress' | 'userAgent'>;
+
+export interface IQuoteSignatureRepository {
+    createSignedAcceptance(quoteId: number, signature: NewSignature, acceptance: NewAcceptance): Promise<schema.QuoteSignature>;
+    getSignatureForQuote(quoteId: number): Promise<schema.QuoteSignature | null>;
+    linkProjectDocument(signatureId: number, documentId: number): Promise<boolean>;
+}
+
+class QuoteSignatureRepository implements IQuoteSignatureRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    /**
+     * Records the acceptance response and the signature together. The quote's status only becomes
+     * "accepted" once the deposit step creates the project. The unique quote id on
+     * quote_signatures rejects a second signature for the same quote.
+     */
+    async createSignedAcceptance(quoteId: number, signature: NewSignature, acceptance: NewAcceptance): Promise<schema.QuoteSignature> {
+        try {
+            return await this.dbOrTx.transaction(async (tx: any) => {
+                const [response] = await tx.insert(schema.quoteResponses)
+                    .values({ ...acceptance, quoteId, action: 'accepted' })
+                    .returning();
+
+                const [created] = await tx.insert(schema.quoteSignatures)
+                    .values({ ...signature, quoteId, responseId: response.id })
+                    .returning();
+
+                await tx.update(schema.quotes)
+                    .set({ respondedAt: signature.signedAt })
+                    .where(eq(schema.quotes.id, quoteId));
+
+                return created;
+            });
+        } catch (error) {
+            console.error(`Error recording signature for quote ${quoteId}:`, error);
+            throw new Error('Database error while recording quote signature.');
+        }
+    }
+
+    async getSignatureForQuote(quoteId: number): Promise<schema.QuoteSignature | null> {
+        try {
+            const result = await this.dbOrTx.query.quoteSignatures.findFirst({
+                where: eq(schema.quoteSignatures.quoteId, quoteId),
+            });
+            return result ?? null;
+        } catch (error) {
+            console.error(`Error fetching signature for quote ${quoteId}:`, error);
+            throw new Error('Database error while fetching quote signature.');
+        }
+    }
+
+    // Only fills an empty link, so the signature row is otherwise never modified
+    async linkProjectDocument(signatureId: number, documentId: number): Promise<boolean> {
+        try {
+            const result = await this.dbOrTx.update(schema.quoteSignatures)
+                .set({ projectDocumentId: documentId })
+                .where(and(
+                    eq(schema.quoteSignatures.id, signatureId),
+                    isNull(schema.quoteSignatures.projectDocumentId)
+                ))
+                .returning({ id: schema.quoteSignatures.id });
+            return result.length > 0;
+        } catch (error) {
+            console.error(`Error linking document ${documentId} to quote signature ${signatureId}:`, error);
+            throw new Error('Database error while linking signed quote document.');
+        }
+    }
+}
+
+export const quoteSignatureRepository = new QuoteSignatureRepository();
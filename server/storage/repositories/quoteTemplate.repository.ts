@@ -0,0 +1,118 @@
+// server/storage/repositories/quoteTemplate.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, asc, SQL } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+type NewTemplateItem = Omit<schema.InsertQuoteTemplateItem, 'templateId'>;
+
+const withItems = {
+    items: {
+        orderBy: [asc(schema.quoteTemplateItems.sortOrder), asc(schema.quoteTemplateItems.id)],
+        with: { catalogItem: true },
+    },
+} as const;
+
+export interface IQuoteTemplateRepository {
+    getTemplates(options?: { projectType?: string; includeInactive?: boolean }): Promise<schema.QuoteTemplateWithItems[]>;
+    getTemplateById(templateId: number): Promise<schema.QuoteTemplateWithItems | null>;
+    createTemplate(data: schema.InsertQuoteTemplate, items: NewTemplateItem[]): Promise<schema.QuoteTemplateWithItems>;
+    updateTemplate(templateId: number, data: Partial<schema.InsertQuoteTemplate>, items?: NewTemplateItem[]): Promise<schema.QuoteTemplateWithItems | null>;
+    deleteTemplate(templateId: number): Promise<boolean>;
+}
+
+class QuoteTemplateRepository implements IQuoteTemplateRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    async getTemplates(options: { projectType?: string; includeInactive?: boolean } = {}): Promise<schema.QuoteTemplateWithItems[]> {
+        const conditions: SQL[] = [];
+        if (!options.includeInactive) conditions.push(eq(schema.quoteTemplates.isActive, true));
+        if (options.projectType) conditions.push(eq(schema.quoteTemplates.projectType, options.projectType));
+
+        try {
+            return await this.dbOrTx.query.quoteTemplates.findMany({
+                where: conditions.length > 0 ? and(...conditions) : undefined,
+                orderBy: [asc(schema.quoteTemplates.projectType), asc(schema.quoteTemplates.name)],
+                with: withItems,
+            });
+        } catch (error) {
+            console.error('Error fetching quote templates:', error);
+            throw new Error('Database error while fetching quote templates.');
+        }
+    }
+
+    async getTemplateById(templateId: number): Promise<schema.QuoteTemplateWithItems | null> {
+        try {
+            const result = await this.dbOrTx.query.quoteTemplates.findFirst({
+                where: eq(schema.quoteTemplates.id, templateId),
+                with: withItems,
+            });
+            return result ?? null;
+        } catch (error) {
+            console.error(`Error fetching quote template ${templateId}:`, error);
+            throw new Error('Database error while fetching quote template.');
+        }
+    }
+
+    async createTemplate(data: schema.InsertQuoteTemplate, items: NewTemplateItem[]): Promise<schema.QuoteTemplateWithItems> {
+        try {
+            const templateId = await this.dbOrTx.transaction(async (tx: any) => {
+                const [created] = await tx.insert(schema.quoteTemplates).values(data).returning();
+                if (items.length > 0) {
+                    await tx.insert(schema.quoteTemplateItems)
+                        .values(items.map(item => ({ ...item, templateId: created.id })));
+                }
+                return created.id as number;
+            });
+            return (await this.getTemplateById(templateId))!;
+        } catch (error) {
+            console.error('Error creating quote template:', error);
+            throw new Error('Database error while creating quote template.');
+        }
+    }
+
+    // Replaces the items when provided
+    async updateTemplate(templateId: number, data: Partial<schema.InsertQuoteTemplate>, items?: NewTemplateItem[]): Promise<schema.QuoteTemplateWithItems | null> {
+        try {
+            const updated = await this.dbOrTx.transaction(async (tx: any) => {
+                const [row] = await tx.update(schema.quoteTemplates)
+                    .set({ ...data, updatedAt: new Date() })
+                    .where(eq(schema.quoteTemplates.id, templateId))
+                    .returning();
+                if (!row) return null;
+
+                if (items) {
+                    await tx.delete(schema.quoteTemplateItems)
+                        .where(eq(schema.quoteTemplateItems.templateId, templateId));
+                    if (items.length > 0) {
+                        await tx.insert(schema.quoteTemplateItems)
+                            .values(items.map(item => ({ ...item, templateId })));
+                    }
+                }
+                return row as schema.QuoteTemplate;
+            });
+            return updated ? this.getTemplateById(templateId) : null;
+        } catch (error) {
+            console.error(`Error updating quote template ${templateId}:`, error);
+            throw new Error('Database error while updating quote template.');
+        }
+    }
+
+    async deleteTemplate(templateId: number): Promise<boolean> {
+        try {
+            const result = await this.dbOrTx.delete(schema.quoteTemplates)
+                .where(eq(schema.quoteTemplates.id, templateId))
+                .returning({ id: schema.quoteTemplates.id });
+            return result.length > 0;
+        } catch (error) {
+            console.error(`Error deleting quote template ${templateId}:`, error);
+            throw new Error('Database error while deleting quote template.');
+        }
+    }
+}
+
+export const quoteTemplateRepository = new QuoteTemplateRepository();
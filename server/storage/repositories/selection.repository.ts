@@ -0,0 +1,154 @@
+// server/storage/repositories/selection.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, asc, inArray, isNotNull, isNull, lte, lt, or } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+const userSummaryColumns = { id: true, firstName: true, lastName: true } as const;
+
+export interface ISelectionRepository {
+    getSelectionsForProject(projectId: number): Promise<schema.SelectionWithUsers[]>;
+    getSelectionsForProjects(projectIds: number[]): Promise<schema.SelectionWithUsers[]>;
+    getSelectionById(projectId: number, selectionId: number): Promise<schema.SelectionWithUsers | null>;
+    getPendingSelectionsDueBy(cutoff: Date): Promise<schema.Selection[]>;
+    createSelection(data: schema.InsertSelection): Promise<schema.Selection>;
+    updateSelection(selectionId: number, data: Partial<schema.InsertSelection>): Promise<schema.Selection | null>;
+    claimForChangeOrderBilling(selectionId: number, staleBefore: Date): Promise<schema.Selection | null>;
+    releaseChangeOrderClaim(selectionId: number): Promise<void>;
+    deleteSelection(selectionId: number): Promise<boolean>;
+}
+
+class SelectionRepository implements ISelectionRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    async getSelectionsForProject(projectId: number): Promise<schema.SelectionWithUsers[]> {
+        return this.getSelectionsForProjects([projectId]);
+    }
+
+    async getSelectionsForProjects(projectIds: number[]): Promise<schema.SelectionWithUsers[]> {
+        if (projectIds.length === 0) return [];
+        try {
+            const selections = await this.dbOrTx.query.selections.findMany({
+                where: inArray(schema.selections.projectId, projectIds),
+                orderBy: [asc(schema.selections.selectionDeadline), asc(schema.selections.id)],
+                with: {
+                    selectedBy: { columns: userSummaryColumns },
+                    approvedBy: { columns: userSummaryColumns },
+                }
+            });
+            return selections as schema.SelectionWithUsers[];
+        } catch (error) {
+            console.error(`Error fetching selections for projects ${projectIds.join(', ')}:`, error);
+            throw new Error('Database error while fetching selections.');
+        }
+    }
+
+    async getSelectionById(projectId: number, selectionId: number): Promise<schema.SelectionWithUsers | null> {
+        try {
+            const selection = await this.dbOrTx.query.selections.findFirst({
+                where: and(
+                    eq(schema.selections.id, selectionId),
+                    eq(schema.selections.projectId, projectId)
+                ),
+                with: {
+                    selectedBy: { columns: userSummaryColumns },
+                    approvedBy: { columns: userSummaryColumns },
+                }
+            });
+            return (selection as schema.SelectionWithUsers) ?? null;
+        } catch (error) {
+            console.error(`Error fetching selection ${selectionId}:`, error);
+            throw new Error('Database error while fetching selection.');
+        }
+    }
+
+    // Selections still awaiting a client choice whose deadline falls on or before the cutoff
+    async getPendingSelectionsDueBy(cutoff: Date): Promise<schema.Selection[]> {
+        try {
+            return await this.dbOrTx.query.selections.findMany({
+                where: and(
+                    eq(schema.selections.status, 'pending'),
+                    isNotNull(schema.selections.selectionDeadline),
+                    lte(schema.selections.selectionDeadline, cutoff)
+                ),
+                orderBy: [asc(schema.selections.selectionDeadline)],
+            });
+        } catch (error) {
+            console.error('Error fetching selections due for reminders:', error);
+            throw new Error('Database error while fetching selections due for reminders.');
+        }
+    }
+
+    async createSelection(data: schema.InsertSelection): Promise<schema.Selection> {
+        try {
+            const result = await this.dbOrTx.insert(schema.selections)
+                .values(data)
+                .returning();
+            return result[0];
+        } catch (error) {
+            console.error('Error creating selection:', error);
+            throw new Error('Database error while creating selection.');
+        }
+    }
+
+    async updateSelection(selectionId: number, data: Partial<schema.InsertSelection>): Promise<schema.Selection | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.selections)
+                .set({ ...data, updatedAt: new Date() })
+                .where(eq(schema.selections.id, selectionId))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error updating selection ${selectionId}:`, error);
+            throw new Error('Database error while updating selection.');
+        }
+    }
+
+    // Only one request may bill a selection's overage; a claim left by a crashed request goes stale
+    async claimForChangeOrderBilling(selectionId: number, staleBefore: Date): Promise<schema.Selection | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.selections)
+                .set({ changeOrderClaimedAt: new Date(), updatedAt: new Date() })
+                .where(and(
+                    eq(schema.selections.id, selectionId),
+                    isNull(schema.selections.changeOrderInvoiceId),
+                    or(isNull(schema.selections.changeOrderClaimedAt), lt(schema.selections.changeOrderClaimedAt, staleBefore))
+                ))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error claiming selection ${selectionId} for change order billing:`, error);
+            throw new Error('Database error while claiming selection for billing.');
+        }
+    }
+
+    async releaseChangeOrderClaim(selectionId: number): Promise<void> {
+        try {
+            await this.dbOrTx.update(schema.selections)
+                .set({ changeOrderClaimedAt: null, updatedAt: new Date() })
+                .where(and(eq(schema.selections.id, selectionId), isNull(schema.selections.changeOrderInvoiceId)));
+        } catch (error) {
+            console.error(`Error releasing billing claim on selection ${selectionId}:`, error);
+            throw new Error('Database error while releasing selection billing claim.');
+        }
+    }
+
+    async deleteSelection(selectionId: number): Promise<boolean> {
+        try {
+            const result = await this.dbOrTx.delete(schema.selections)
+                .where(eq(schema.selections.id, selectionId))
+                .returning({ id: schema.selections.id });
+            return result.length > 0;
+        } catch (error) {
+            console.error(`Error deleting selection ${selectionId}:`, error);
+            throw new Error('Database error while deleting selection.');
+        }
+    }
+}
+
+// Export an instance for convenience
+export const selectionRepository = new SelectionRepository();
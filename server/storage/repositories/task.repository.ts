@@ -13,12 +13,13 @@ export interface ITaskRepository {
     createTask(taskData: schema.InsertTask): Promise<TaskWithAssignee | null>;
     updateTask(taskId: number, taskData: Partial<Omit<schema.InsertTask, 'id' | 'projectId' | 'createdBy'>>): Promise<TaskWithAssignee | null>;
     deleteTask(taskId: number): Promise<boolean>;
-    addTaskDependency(predecessorId: number, successorId: number): Promise<schema.TaskDependency | null>;
+    addTaskDependency(predecessorId: number, successorId: number, type?: schema.TaskDependencyType, lagDays?: number): Promise<schema.TaskDependency | null>;
     removeTaskDependency(predecessorId: number, successorId: number): Promise<boolean>;
     getTaskById(taskId: number): Promise<TaskWithAssignee | null>;
     getDependenciesForProject(projectId: number): Promise<schema.TaskDependency[]>;
     publishProjectTasks(projectId: number): Promise<boolean>;
     unpublishProjectTasks(projectId: number): Promise<boolean>;
+    rescheduleTasks(updates: { taskId: number; startDate: Date; dueDate: Date }[]): Promise<void>;
 }
 
 // Implementation
@@ -218,7 +219,12 @@ class TaskRepository implements ITaskRepository {
         }
     }
 
-    async addTaskDependency(predecessorId: number, successorId: number): Promise<schema.TaskDependency | null> {
+    async addTaskDependency(
+        predecessorId: number,
+        successorId: number,
+        type: schema.TaskDependencyType = 'FS',
+        lagDays: number = 0
+    ): Promise<schema.TaskDependency | null> {
         if (predecessorId === successorId) throw new Error("Task cannot depend on itself.");
 
         const existingReverse = await this.dbOrTx.query.taskDependencies.findFirst({
@@ -233,7 +239,7 @@ class TaskRepository implements ITaskRepository {
 
         try {
             const result = await this.dbOrTx.insert(schema.taskDependencies)
-                .values({ predecessorId, successorId })
+                .values({ predecessorId, successorId, type, lagDays })
                 .onConflictDoNothing()
                 .returning();
 
@@ -306,6 +312,31 @@ class TaskRepository implements ITaskRepository {
             throw new Error('Database error while unpublishing tasks.');
         }
     }
+
+    /** Moves the dates of several tasks at once; either every task is shifted or none are. */
+    async rescheduleTasks(updates: { taskId: number; startDate: Date; dueDate: Date }[]): Promise<void> {
+        if (updates.length === 0) return;
+
+        const runUpdates = async (tx: NeonDatabase<typeof schema> | PgTransaction<any, any, any>) => {
+            const now = new Date();
+            for (const update of updates) {
+                await tx.update(schema.tasks)
+                    .set({ startDate: update.startDate, dueDate: update.dueDate, updatedAt: now })
+                    .where(eq(schema.tasks.id, update.taskId));
+            }
+        };
+
+        try {
+            if ('_.isTransaction' in this.dbOrTx && (this.dbOrTx as any)._.isTransaction) {
+                await runUpdates(this.dbOrTx);
+            } else {
+                await (this.dbOrTx as NeonDatabase<typeof schema>).transaction(runUpdates);
+            }
+        } catch (error) {
+            console.error(`Error rescheduling ${updates.length} tasks:`, error);
+            throw new Error('Database error while rescheduling tasks.');
+        }
+    }
 }
 
 export const taskRepository = new TaskRepository();
\ No newline at end of file
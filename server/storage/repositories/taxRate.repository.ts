@@ -0,0 +1,124 @@
+// server/storage/repositories/taxRate.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { and, desc, eq, gte, isNull, lte, or, sql } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import type { TaxRateTableSummary } from '../../../shared/tax-rates';
+import { db } from '../../db';
+
+export type TaxRateLookupValues = Omit<schema.TaxRateLookupRecord, 'id'>;
+
+export interface ITaxRateRepository {
+    getLookup(addressKey: string): Promise<schema.TaxRateLookupRecord | null>;
+    saveLookup(data: TaxRateLookupValues): Promise<schema.TaxRateLookupRecord>;
+    getJurisdictionRate(locationCode: string, onDate: string): Promise<schema.TaxJurisdictionRate | null>;
+    importJurisdictionRates(rows: schema.InsertTaxJurisdictionRate[]): Promise<number>;
+    getRateTables(): Promise<TaxRateTableSummary[]>;
+}
+
+class TaxRateRepository implements ITaxRateRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    // Expired lookups are returned too; the caller decides whether a stale rate is still of use
+    async getLookup(addressKey: string): Promise<schema.TaxRateLookupRecord | null> {
+        try {
+            const result = await this.dbOrTx.query.taxRateLookups.findFirst({
+                where: eq(schema.taxRateLookups.addressKey, addressKey),
+            });
+            return result ?? null;
+        } catch (error) {
+            console.error(`Error fetching tax rate lookup for ${addressKey}:`, error);
+            throw new Error('Database error while fetching tax rate lookup.');
+        }
+    }
+
+    async saveLookup(data: TaxRateLookupValues): Promise<schema.TaxRateLookupRecord> {
+        try {
+            const { addressKey, ...values } = data;
+            const result = await this.dbOrTx.insert(schema.taxRateLookups)
+                .values(data)
+                .onConflictDoUpdate({
+                    target: schema.taxRateLookups.addressKey,
+                    set: values,
+                })
+                .returning();
+            return result[0];
+        } catch (error) {
+            console.error(`Error saving tax rate lookup for ${data.addressKey}:`, error);
+            throw new Error('Database error while saving tax rate lookup.');
+        }
+    }
+
+    /** The imported rate in force for a location on a date (YYYY-MM-DD); the latest table wins. */
+    async getJurisdictionRate(locationCode: string, onDate: string): Promise<schema.TaxJurisdictionRate | null> {
+        try {
+            const result = await this.dbOrTx.query.taxJurisdictionRates.findFirst({
+                where: and(
+                    eq(schema.taxJurisdictionRates.locationCode, locationCode),
+                    lte(schema.taxJurisdictionRates.effectiveFrom, onDate),
+                    or(isNull(schema.taxJurisdictionRates.effectiveUntil), gte(schema.taxJurisdictionRates.effectiveUntil, onDate))
+                ),
+                orderBy: [desc(schema.taxJurisdictionRates.effectiveFrom)],
+            });
+            return result ?? null;
+        } catch (error) {
+            console.error(`Error fetching tax rate for location ${locationCode}:`, error);
+            throw new Error('Database error while fetching jurisdiction tax rate.');
+        }
+    }
+
+    // Re-importing a table replaces its rates; location codes must be unique within `rows`
+    async importJurisdictionRates(rows: schema.InsertTaxJurisdictionRate[]): Promise<number> {
+        if (rows.length === 0) return 0;
+
+        try {
+            const result = await this.dbOrTx.insert(schema.taxJurisdictionRates)
+                .values(rows)
+                .onConflictDoUpdate({
+                    target: [schema.taxJurisdictionRates.locationCode, schema.taxJurisdictionRates.effectiveFrom],
+                    set: {
+                        jurisdiction: sql`excluded.jurisdiction`,
+                        county: sql`excluded.county`,
+                        stateRate: sql`excluded.state_rate`,
+                        localRate: sql`excluded.local_rate`,
+                        combinedRate: sql`excluded.combined_rate`,
+                        effectiveUntil: sql`excluded.effective_until`,
+                        sourceFile: sql`excluded.source_file`,
+                        importedById: sql`excluded.imported_by_id`,
+                        importedAt: new Date(),
+                    },
+                })
+                .returning({ id: schema.taxJurisdictionRates.id });
+            return result.length;
+        } catch (error) {
+            console.error('Error importing jurisdiction tax rates:', error);
+            throw new Error('Database error while importing jurisdiction tax rates.');
+        }
+    }
+
+    async getRateTables(): Promise<TaxRateTableSummary[]> {
+        try {
+            const rows = await this.dbOrTx
+                .select({
+                    effectiveFrom: schema.taxJurisdictionRates.effectiveFrom,
+                    effectiveUntil: sql<string | null>`max(${schema.taxJurisdictionRates.effectiveUntil})`,
+                    locations: sql<number>`count(*)::int`,
+                    sourceFile: sql<string | null>`max(${schema.taxJurisdictionRates.sourceFile})`,
+                    importedAt: sql<Date>`max(${schema.taxJurisdictionRates.importedAt})`,
+                })
+                .from(schema.taxJurisdictionRates)
+                .groupBy(schema.taxJurisdictionRates.effectiveFrom)
+                .orderBy(desc(schema.taxJurisdictionRates.effectiveFrom));
+
+            return rows.map((row: any) => ({ ...row, importedAt: new Date(row.importedAt).toISOString() }));
+        } catch (error) {
+            console.error('Error fetching imported tax rate tables:', error);
+            throw new Error('Database error while fetching tax rate tables.');
+        }
+    }
+}
+
+export const taxRateRepository = new TaxRateRepository();
@@ -0,0 +1,150 @@
+// server/storage/repositories/webhookEvent.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, or, lt, desc, sql } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+type NewWebhookEvent = Pick<schema.InsertWebhookEvent, 'provider' | 'eventId' | 'type' | 'payload'>;
+
+export interface IWebhookEventRepository {
+    claimEvent(data: NewWebhookEvent, staleBefore: Date): Promise<{ event: schema.WebhookEvent; claimed: boolean }>;
+    claimForReplay(id: number, staleBefore: Date): Promise<schema.WebhookEvent | null>;
+    markProcessed(id: number): Promise<schema.WebhookEvent | null>;
+    markFailed(id: number, error: string): Promise<schema.WebhookEvent | null>;
+    getEventById(id: number): Promise<schema.WebhookEvent | null>;
+    getEvents(filters: { status?: schema.WebhookEventStatus; limit: number }): Promise<schema.WebhookEvent[]>;
+}
+
+class WebhookEventRepository implements IWebhookEventRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    /**
+     * Records a newly delivered event, or takes over an earlier delivery of it that failed or has
+     * been stuck in processing since before `staleBefore` (its process most likely crashed).
+     * `claimed` is false when the event is already processed or another delivery is processing it.
+     */
+    async claimEvent(data: NewWebhookEvent, staleBefore: Date): Promise<{ event: schema.WebhookEvent; claimed: boolean }> {
+        try {
+            const inserted = await this.dbOrTx.insert(schema.webhookEvents)
+                .values({ ...data, status: 'processing', attempts: 1 })
+                .onConflictDoNothing({ target: schema.webhookEvents.eventId })
+                .returning();
+            if (inserted.length > 0) {
+                return { event: inserted[0], claimed: true };
+            }
+
+            const retried = await this.dbOrTx.update(schema.webhookEvents)
+                .set({
+                    status: 'processing',
+                    attempts: sql`${schema.webhookEvents.attempts} + 1`,
+                    updatedAt: new Date(),
+                })
+                .where(and(
+                    eq(schema.webhookEvents.eventId, data.eventId),
+                    or(
+                        eq(schema.webhookEvents.status, 'failed'),
+                        and(
+                            eq(schema.webhookEvents.status, 'processing'),
+                            lt(schema.webhookEvents.updatedAt, staleBefore)
+                        )
+                    )
+                ))
+                .returning();
+            if (retried.length > 0) {
+                return { event: retried[0], claimed: true };
+            }
+
+            const existing = await this.dbOrTx.query.webhookEvents.findFirst({
+                where: eq(schema.webhookEvents.eventId, data.eventId),
+            });
+            return { event: existing, claimed: false };
+        } catch (error) {
+            console.error(`Error claiming webhook event ${data.eventId}:`, error);
+            throw new Error('Database error while recording webhook event.');
+        }
+    }
+
+    // Failed events, and events stuck in processing since before `staleBefore`, can be re-run
+    async claimForReplay(id: number, staleBefore: Date): Promise<schema.WebhookEvent | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.webhookEvents)
+                .set({
+                    status: 'processing',
+                    attempts: sql`${schema.webhookEvents.attempts} + 1`,
+                    updatedAt: new Date(),
+                })
+                .where(and(
+                    eq(schema.webhookEvents.id, id),
+                    or(
+                        eq(schema.webhookEvents.status, 'failed'),
+                        and(
+                            eq(schema.webhookEvents.status, 'processing'),
+                            lt(schema.webhookEvents.updatedAt, staleBefore)
+                        )
+                    )
+                ))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error claiming webhook event ${id} for replay:`, error);
+            throw new Error('Database error while claiming webhook event.');
+        }
+    }
+
+    async markProcessed(id: number): Promise<schema.WebhookEvent | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.webhookEvents)
+                .set({ status: 'processed', lastError: null, processedAt: new Date(), updatedAt: new Date() })
+                .where(eq(schema.webhookEvents.id, id))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error marking webhook event ${id} processed:`, error);
+            throw new Error('Database error while updating webhook event.');
+        }
+    }
+
+    async markFailed(id: number, errorMessage: string): Promise<schema.WebhookEvent | null> {
+        try {
+            const result = await this.dbOrTx.update(schema.webhookEvents)
+                .set({ status: 'failed', lastError: errorMessage, updatedAt: new Date() })
+                .where(eq(schema.webhookEvents.id, id))
+                .returning();
+            return result[0] ?? null;
+        } catch (error) {
+            console.error(`Error marking webhook event ${id} failed:`, error);
+            throw new Error('Database error while updating webhook event.');
+        }
+    }
+
+    async getEventById(id: number): Promise<schema.WebhookEvent | null> {
+        try {
+            const event = await this.dbOrTx.query.webhookEvents.findFirst({
+                where: eq(schema.webhookEvents.id, id),
+            });
+            return event ?? null;
+        } catch (error) {
+            console.error(`Error fetching webhook event ${id}:`, error);
+            throw new Error('Database error while fetching webhook event.');
+        }
+    }
+
+    async getEvents(filters: { status?: schema.WebhookEventStatus; limit: number }): Promise<schema.WebhookEvent[]> {
+        try {
+            return await this.dbOrTx.query.webhookEvents.findMany({
+                where: filters.status ? eq(schema.webhookEvents.status, filters.status) : undefined,
+                orderBy: [desc(schema.webhookEvents.receivedAt)],
+                limit: filters.limit,
+            });
+        } catch (error) {
+            console.error('Error fetching webhook events:', error);
+            throw new Error('Database error while fetching webhook events.');
+        }
+    }
+}
+
+export const webhookEventRepository = new WebhookEventRepository();
@@ -0,0 +1,139 @@
+// server/storage/repositories/workCalendar.repository.ts
+import { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { eq, and, asc, isNull } from 'drizzle-orm';
+import * as schema from '../../../shared/schema';
+import { db } from '../../db';
+
+type CalendarSettings = Pick<schema.InsertWorkCalendar, 'name' | 'workDays' | 'hoursPerDay'>;
+
+export interface IWorkCalendarRepository {
+    getCompanyCalendar(): Promise<schema.WorkCalendarWithExceptions | null>;
+    getProjectCalendar(projectId: number): Promise<schema.WorkCalendarWithExceptions | null>;
+    saveCompanyCalendar(data: CalendarSettings): Promise<schema.WorkCalendar>;
+    saveProjectCalendar(projectId: number, data: CalendarSettings): Promise<schema.WorkCalendar>;
+    deleteProjectCalendar(projectId: number): Promise<boolean>;
+    upsertException(data: schema.InsertCalendarException): Promise<schema.CalendarException>;
+    removeException(calendarId: number, exceptionId: number): Promise<boolean>;
+}
+
+class WorkCalendarRepository implements IWorkCalendarRepository {
+    private dbOrTx: NeonDatabase<typeof schema> | any; // 'any' covers transaction and node-postgres instances
+
+    constructor(databaseOrTx: NeonDatabase<typeof schema> | any = db) {
+        this.dbOrTx = databaseOrTx;
+    }
+
+    private async findCalendar(where: any): Promise<schema.WorkCalendarWithExceptions | null> {
+        const calendar = await this.dbOrTx.query.workCalendars.findFirst({
+            where,
+            with: {
+                exceptions: { orderBy: [asc(schema.calendarExceptions.date)] }
+            }
+        });
+        return (calendar as schema.WorkCalendarWithExceptions) ?? null;
+    }
+
+    async getCompanyCalendar(): Promise<schema.WorkCalendarWithExceptions | null> {
+        try {
+            return await this.findCalendar(isNull(schema.workCalendars.projectId));
+        } catch (error) {
+            console.error('Error fetching company work calendar:', error);
+            throw new Error('Database error while fetching company work calendar.');
+        }
+    }
+
+    async getProjectCalendar(projectId: number): Promise<schema.WorkCalendarWithExceptions | null> {
+        try {
+            return await this.findCalendar(eq(schema.workCalendars.projectId, projectId));
+        } catch (error) {
+            console.error(`Error fetching work calendar for project ${projectId}:`, error);
+            throw new Error('Database error while fetching project work calendar.');
+        }
+    }
+
+    // There is a single company calendar; a unique constraint can't enforce that on NULL, so update the first one found
+    async saveCompanyCalendar(data: CalendarSettings): Promise<schema.WorkCalendar> {
+        try {
+            const existing = await this.dbOrTx.query.workCalendars.findFirst({
+                where: isNull(schema.workCalendars.projectId),
+                orderBy: [asc(schema.workCalendars.id)],
+            });
+            if (existing) {
+                const result = await this.dbOrTx.update(schema.workCalendars)
+                    .set({ ...data, updatedAt: new Date() })
+                    .where(eq(schema.workCalendars.id, existing.id))
+                    .returning();
+                return result[0];
+            }
+            const result = await this.dbOrTx.insert(schema.workCalendars)
+                .values({ ...data, projectId: null })
+                .returning();
+            return result[0];
+        } catch (error) {
+            console.error('Error saving company work calendar:', error);
+            throw new Error('Database error while saving company work calendar.');
+        }
+    }
+
+    async saveProjectCalendar(projectId: number, data: CalendarSettings): Promise<schema.WorkCalendar> {
+        try {
+            const result = await this.dbOrTx.insert(schema.workCalendars)
+                .values({ ...data, projectId })
+                .onConflictDoUpdate({
+                    target: schema.workCalendars.projectId,
+                    set: { ...data, updatedAt: new Date() },
+                })
+                .returning();
+            return result[0];
+        } catch (error) {
+            console.error(`Error saving work calendar for project ${projectId}:`, error);
+            throw new Error('Database error while saving project work calendar.');
+        }
+    }
+
+    async deleteProjectCalendar(projectId: number): Promise<boolean> {
+        try {
+            const result = await this.dbOrTx.delete(schema.workCalendars)
+                .where(eq(schema.workCalendars.projectId, projectId))
+                .returning({ id: schema.workCalendars.id });
+            return result.length > 0;
+        } catch (error) {
+            console.error(`Error deleting work calendar for project ${projectId}:`, error);
+            throw new Error('Database error while deleting project work calendar.');
+        }
+    }
+
+    // Re-marking a date replaces its type and description
+    async upsertException(data: schema.InsertCalendarException): Promise<schema.CalendarException> {
+        try {
+            const result = await this.dbOrTx.insert(schema.calendarExceptions)
+                .values(data)
+                .onConflictDoUpdate({
+                    target: [schema.calendarExceptions.calendarId, schema.calendarExceptions.date],
+                    set: { type: data.type, description: data.description ?? null, createdById: data.createdById ?? null },
+                })
+                .returning();
+            return result[0];
+        } catch (error) {
+            console.error(`Error saving non-working day ${data.date} for calendar ${data.calendarId}:`, error);
+            throw new Error('Database error while saving non-working day.');
+        }
+    }
+
+    async removeException(calendarId: number, exceptionId: number): Promise<boolean> {
+        try {
+            const result = await this.dbOrTx.delete(schema.calendarExceptions)
+                .where(and(
+                    eq(schema.calendarExceptions.id, exceptionId),
+                    eq(schema.calendarExceptions.calendarId, calendarId)
+                ))
+                .returning({ id: schema.calendarExceptions.id });
+            return result.length > 0;
+        } catch (error) {
+            console.error(`Error removing non-working day ${exceptionId} from calendar ${calendarId}:`, error);
+            throw new Error('Database error while removing non-working day.');
+        }
+    }
+}
+
+export const workCalendarRepository = new WorkCalendarRepository();
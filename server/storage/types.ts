@@ -13,6 +13,9 @@ export type ProjectWithDetails = schema.Project & {
     projectManager: ProjectManagerInfo | null;
 };
 
+// How project listings treat archived projects; listings exclude them by default
+export type ProjectArchiveFilter = 'exclude' | 'include' | 'only';
+
 export type TaskWithAssignee = schema.Task & {
     assignee: Pick<schema.User, 'id' | 'firstName' | 'lastName'> | null; // Use Pick for consistency
     // Note: No creator field as the tasks table doesn't have a created_by column
@@ -46,7 +49,8 @@ export type PunchListItemWithDetails = schema.PunchListItem & {
 };
 
 export type InvoiceWithPayments = schema.Invoice & {
-    payments: schema.Payment[]
+    payments: schema.Payment[];
+    lineItems: schema.InvoiceLineItem[];
 };
 
 // Define other complex types as needed...
\ No newline at end of file
@@ -0,0 +1,43 @@
+// server/utils/csv.ts
+
+/**
+ * Escapes a single value for inclusion in a CSV cell (RFC 4180).
+ * Dates are written as ISO strings, nested objects/arrays as JSON.
+ */
+function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Serializes an array of records to CSV.
+ * @param rows - Records to serialize.
+ * @param columns - Column order; defaults to the union of keys across all rows.
+ */
+export function toCsv(rows: Record<string, unknown>[], columns?: string[]): string {
+  const headers = columns ?? Array.from(
+    rows.reduce((keys, row) => {
+      Object.keys(row).forEach(key => keys.add(key));
+      return keys;
+    }, new Set<string>())
+  );
+
+  const lines = [headers.map(formatCsvValue).join(',')];
+  for (const row of rows) {
+    lines.push(headers.map(header => formatCsvValue(row[header])).join(','));
+  }
+  return lines.join('\r\n');
+}
@@ -0,0 +1,34 @@
+// shared/cost-catalog.ts
+// Catalog pricing shared by the catalog editor, the quote builder and the server.
+// Catalog prices are our cost; quotes use the cost plus the item's markup.
+import type { PaymentStageValues } from './quote-payment-stages';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** Quoted unit price for a catalog cost and markup percentage. */
+export function catalogSellPrice(defaultUnitPrice: string | number, markupPercentage: string | number | null | undefined): number {
+  const cost = Number(defaultUnitPrice) || 0;
+  const markup = Number(markupPercentage) || 0;
+  return roundCents(cost * (1 + markup / 100));
+}
+
+// A template line item priced for a new quote
+export interface TemplateLineItemValues {
+  catalogItemId: number | null;
+  category: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  unitCost: number | null; // Catalog cost, for the quote's internal margin
+}
+
+// Response shape of GET /api/quote-templates/:templateId/apply
+export interface AppliedQuoteTemplate {
+  templateId: number;
+  name: string;
+  projectType: string;
+  scopeDescription: string | null;
+  paymentStages: PaymentStageValues[] | null;
+  lineItems: TemplateLineItemValues[];
+}
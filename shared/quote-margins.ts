@@ -0,0 +1,137 @@
+// shared/quote-margins.ts
+// Internal cost, markup and margin on quote line items, for the quote editor and the owners'
+// margin review. None of it reaches the customer: see withoutInternalCosts.
+import type { QuoteLineItem } from './schema';
+import { calculateQuoteTotals, resolveSelection, type PricedQuote } from './quote-options';
+
+// Margin floor used when QUOTE_MARGIN_FLOOR_PERCENTAGE is not configured
+export const DEFAULT_MARGIN_FLOOR_PERCENTAGE = 20;
+
+type CostedLineItem = Pick<QuoteLineItem, 'id' | 'category' | 'quantity' | 'totalPrice' | 'unitCost'> &
+  Partial<Pick<QuoteLineItem, 'selectionType' | 'optionGroup' | 'isDefaultSelected'>>;
+
+export interface MarginFigures {
+  revenue: number;
+  cost: number;
+  grossProfit: number;
+  marginPercentage: number | null; // Null without revenue
+}
+
+export interface LineItemMargin extends MarginFigures {
+  lineItemId: number;
+  costed: boolean;
+  included: boolean; // In the quoted total; options left out by default are not
+}
+
+export interface CategoryMargin extends MarginFigures {
+  category: string;
+  uncostedItems: number;
+}
+
+export interface QuoteMarginSummary extends MarginFigures {
+  lineItems: LineItemMargin[];
+  categories: CategoryMargin[];
+  uncostedItems: number; // Included items without a cost, left out of the figures
+}
+
+// Response shape of GET /api/quotes/:id/margin
+export interface QuoteMarginReport extends QuoteMarginSummary {
+  floorPercentage: number;
+  belowFloor: boolean;
+  approval: {
+    approvedAt: string;
+    approvedBy: string | null;
+    approvedMarginPercentage: number;
+    coversCurrentMargin: boolean;
+  } | null;
+  requiresApproval: boolean; // Below the floor and not covered by an owner's approval
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function figures(revenue: number, cost: number): MarginFigures {
+  const grossProfit = revenue - cost;
+  return {
+    revenue: roundCents(revenue),
+    cost: roundCents(cost),
+    grossProfit: roundCents(grossProfit),
+    marginPercentage: revenue > 0 ? Math.round((grossProfit / revenue) * 10000) / 100 : null,
+  };
+}
+
+/** Extended cost of a line item, or null when it has not been costed. */
+export function lineItemCost(item: Pick<QuoteLineItem, 'quantity' | 'unitCost'>): number | null {
+  if (item.unitCost == null || item.unitCost === '') return null;
+  return (parseFloat(item.unitCost) || 0) * (parseFloat(item.quantity) || 0);
+}
+
+/** Profit and margin on a line item before any quote-level discount, or null when it is uncosted. */
+export function lineItemMargin(item: Pick<QuoteLineItem, 'quantity' | 'totalPrice' | 'unitCost'>): MarginFigures | null {
+  const cost = lineItemCost(item);
+  return cost === null ? null : figures(parseFloat(item.totalPrice || '0'), cost);
+}
+
+/** Markup a unit price carries over its cost, or null when there is no cost to mark up. */
+export function impliedMarkupPercentage(unitCost: string | number | null | undefined, unitPrice: string | number): number | null {
+  const cost = Number(unitCost);
+  if (unitCost == null || unitCost === '' || !(cost > 0)) return null;
+  return Math.round(((Number(unitPrice) - cost) / cost) * 10000) / 100;
+}
+
+/**
+ * Margins on the quote as quoted: the default configuration, after the quote-level discount and
+ * before tax. Line figures are before that discount; category and quote figures spread it
+ * across items pro rata. Uncosted items are left out rather than counted as pure profit.
+ */
+export function calculateQuoteMargins(quote: PricedQuote, items: CostedLineItem[]): QuoteMarginSummary {
+  const included = new Set(resolveSelection(items));
+  const totals = calculateQuoteTotals(quote, items.filter(item => included.has(item.id)));
+  const discountRatio = totals.subtotal > 0 ? totals.discountedSubtotal / totals.subtotal : 1;
+
+  const lineItems = items.map(item => {
+    const margin = lineItemMargin(item);
+    return {
+      lineItemId: item.id,
+      costed: margin !== null,
+      included: included.has(item.id),
+      ...(margin ?? figures(parseFloat(item.totalPrice || '0'), 0)),
+    };
+  });
+
+  const byCategory = new Map<string, { revenue: number; cost: number; uncostedItems: number }>();
+  let revenue = 0;
+  let cost = 0;
+  let uncostedItems = 0;
+  items.forEach((item, index) => {
+    const line = lineItems[index];
+    if (!line.included) return;
+    const category = byCategory.get(item.category) ?? { revenue: 0, cost: 0, uncostedItems: 0 };
+    byCategory.set(item.category, category);
+    if (!line.costed) {
+      category.uncostedItems++;
+      uncostedItems++;
+      return;
+    }
+    const discountedRevenue = parseFloat(item.totalPrice || '0') * discountRatio;
+    category.revenue += discountedRevenue;
+    category.cost += line.cost;
+    revenue += discountedRevenue;
+    cost += line.cost;
+  });
+
+  return {
+    ...figures(revenue, cost),
+    lineItems,
+    categories: Array.from(byCategory.entries()).map(([category, totalsForCategory]) => ({
+      category,
+      uncostedItems: totalsForCategory.uncostedItems,
+      ...figures(totalsForCategory.revenue, totalsForCategory.cost),
+    })),
+    uncostedItems,
+  };
+}
+
+/** The line item as a customer may see it, with the internal costing cleared. */
+export function withoutInternalCosts<T extends Pick<QuoteLineItem, 'unitCost' | 'markupPercentage'>>(item: T): T {
+  return { ...item, unitCost: null, markupPercentage: null };
+}
@@ -0,0 +1,98 @@
+// shared/quote-options.ts
+// Optional and alternate line items, and the quote totals for a chosen set of items. The server
+// prices the customer's configuration with these; the quote editor uses them to label items.
+import type { Quote, QuoteLineItem, QuoteLineItemSelectionType } from './schema';
+
+type OptionLineItem = Pick<QuoteLineItem, 'id'> &
+  Partial<Pick<QuoteLineItem, 'selectionType' | 'optionGroup' | 'isDefaultSelected'>>;
+
+export type PricedQuote = Pick<Quote, 'discountPercentage' | 'discountAmount' | 'taxRate' | 'taxAmount' | 'isManualTax'>;
+
+export interface QuoteTotals {
+  subtotal: number;
+  discountAmount: number;
+  discountedSubtotal: number;
+  taxAmount: number;
+  total: number;
+}
+
+// Revisions sent before options existed have no selection type; every item was required
+export function selectionTypeOf(item: OptionLineItem): QuoteLineItemSelectionType {
+  return (item.selectionType ?? 'required') as QuoteLineItemSelectionType;
+}
+
+export function hasCustomerOptions(items: OptionLineItem[]): boolean {
+  return items.some(item => selectionTypeOf(item) !== 'required');
+}
+
+// An ungrouped option stands alone
+export const optionGroupKey = (item: OptionLineItem) => item.optionGroup?.trim() || `#${item.id}`;
+
+function groupBy<T extends OptionLineItem>(items: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = optionGroupKey(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Turns the ids a customer asked for into a valid configuration: required items are always in,
+ * grouped optional items come and go together, and each alternate group keeps exactly one item.
+ * Without a request the quoted defaults are used.
+ */
+export function resolveSelection(items: OptionLineItem[], requestedIds?: Iterable<number> | null): number[] {
+  const requested = requestedIds ? new Set(requestedIds) : null;
+  const isDefault = (item: OptionLineItem) => item.isDefaultSelected ?? true;
+  const included = new Set<number>();
+
+  for (const item of items) {
+    if (selectionTypeOf(item) === 'required') included.add(item.id);
+  }
+
+  for (const group of groupBy(items.filter(item => selectionTypeOf(item) === 'optional'))) {
+    const on = requested ? group.some(item => requested.has(item.id)) : group.some(isDefault);
+    if (on) group.forEach(item => included.add(item.id));
+  }
+
+  for (const group of groupBy(items.filter(item => selectionTypeOf(item) === 'alternate'))) {
+    const chosen = (requested && group.find(item => requested.has(item.id))) || group.find(isDefault) || group[0];
+    included.add(chosen.id);
+  }
+
+  return items.filter(item => included.has(item.id)).map(item => item.id);
+}
+
+/** Subtotal, quote-level discount, tax and total over the given line items. */
+export function calculateQuoteTotals(quote: PricedQuote, items: Pick<QuoteLineItem, 'totalPrice'>[]): QuoteTotals {
+  const subtotal = items.reduce((sum, item) => sum + parseFloat(item.totalPrice || "0"), 0);
+
+  const discountPercentage = parseFloat(quote.discountPercentage || "0");
+  const fixedDiscount = parseFloat(quote.discountAmount || "0");
+  let discountAmount = 0;
+  if (discountPercentage > 0) {
+    discountAmount = (subtotal * discountPercentage) / 100;
+  } else if (fixedDiscount > 0) {
+    discountAmount = fixedDiscount;
+  }
+  const discountedSubtotal = subtotal - discountAmount;
+
+  let taxAmount: number;
+  if (quote.isManualTax) {
+    taxAmount = parseFloat(quote.taxAmount || "0");
+  } else {
+    // Handle both old decimal format (0.1060) and new percentage format (10.60)
+    const taxRateValue = parseFloat(quote.taxRate || "10.60");
+    const taxRate = taxRateValue <= 1 ? taxRateValue : taxRateValue / 100;
+    taxAmount = discountedSubtotal * taxRate;
+  }
+
+  return {
+    subtotal,
+    discountAmount,
+    discountedSubtotal,
+    taxAmount,
+    total: discountedSubtotal + taxAmount,
+  };
+}
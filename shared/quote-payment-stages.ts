@@ -0,0 +1,120 @@
+// shared/quote-payment-stages.ts
+// Payment schedule rules shared by the quote financials editor, the customer quote page and
+// the server. A schedule is an ordered list of stages whose percentages add up to 100.
+import { z } from 'zod';
+import { QUOTE_PAYMENT_STAGE_TYPES, type QuotePaymentStageType } from './schema';
+
+export const QUOTE_PAYMENT_STAGE_LABELS: Record<QuotePaymentStageType, string> = {
+  deposit: 'Deposit',
+  progress: 'Progress draw',
+  retainage: 'Retainage',
+  final: 'Final payment',
+};
+
+export const MAX_PAYMENT_STAGES = 20;
+
+// Percentages are stored with two decimals, so allow for rounding when checking the total
+const PERCENTAGE_TOLERANCE = 0.01;
+
+export interface PaymentStageValues {
+  label: string;
+  description?: string | null;
+  stageType: QuotePaymentStageType;
+  percentage: number;
+}
+
+// Legacy three-part schedule stored directly on the quote
+export interface LegacyPaymentPercentages {
+  downPaymentPercentage?: string | number | null;
+  milestonePaymentPercentage?: string | number | null;
+  finalPaymentPercentage?: string | number | null;
+  milestoneDescription?: string | null;
+}
+
+export const paymentStageSchema = z.object({
+  label: z.string().trim().min(1, 'Stage name is required').max(120),
+  description: z.string().max(500).nullish(),
+  stageType: z.enum(QUOTE_PAYMENT_STAGE_TYPES),
+  percentage: z.coerce.number()
+    .gt(0, 'Each stage must be more than 0%')
+    .max(100, 'A stage cannot exceed 100%')
+    .multipleOf(0.01, 'Use at most two decimal places'),
+});
+
+export function sumStagePercentages(stages: Pick<PaymentStageValues, 'percentage'>[]): number {
+  return Math.round(stages.reduce((sum, stage) => sum + Number(stage.percentage || 0), 0) * 100) / 100;
+}
+
+/**
+ * Checks the schedule as a whole: exactly one deposit, listed first (it is collected when the
+ * quote is accepted), and percentages totalling 100%.
+ */
+export const paymentStagesSchema = z.array(paymentStageSchema)
+  .min(1, 'Add at least one payment stage')
+  .max(MAX_PAYMENT_STAGES, `A schedule can have at most ${MAX_PAYMENT_STAGES} stages`)
+  .superRefine((stages, ctx) => {
+    const deposits = stages.filter(stage => stage.stageType === 'deposit').length;
+    if (deposits !== 1 || stages[0]?.stageType !== 'deposit') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'The schedule must start with exactly one deposit stage',
+      });
+    }
+
+    const total = sumStagePercentages(stages);
+    if (Math.abs(total - 100) > PERCENTAGE_TOLERANCE) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Payment stages must add up to 100% (currently ${total}%)`,
+      });
+    }
+  });
+
+/** Builds the equivalent stage list for a quote that only has the legacy three percentages. */
+export function stagesFromLegacyPercentages(quote: LegacyPaymentPercentages): PaymentStageValues[] {
+  const stages: PaymentStageValues[] = [
+    { label: 'Down payment', stageType: 'deposit', percentage: Number(quote.downPaymentPercentage ?? 40) },
+    {
+      label: 'Progress payment',
+      description: quote.milestoneDescription || null,
+      stageType: 'progress',
+      percentage: Number(quote.milestonePaymentPercentage ?? 40),
+    },
+    { label: 'Final payment', stageType: 'final', percentage: Number(quote.finalPaymentPercentage ?? 20) },
+  ];
+  return stages.filter((stage, index) => index === 0 || stage.percentage > 0);
+}
+
+/**
+ * Collapses a stage list into the legacy columns, which older screens and reports still read.
+ * Retainage is released at the end of the job, so it counts towards the final payment.
+ */
+export function legacyPercentagesFromStages(stages: PaymentStageValues[]) {
+  const sumOf = (...types: QuotePaymentStageType[]) =>
+    sumStagePercentages(stages.filter(stage => types.includes(stage.stageType)));
+  const progress = stages.find(stage => stage.stageType === 'progress');
+
+  return {
+    downPaymentPercentage: sumOf('deposit').toFixed(2),
+    milestonePaymentPercentage: sumOf('progress').toFixed(2),
+    finalPaymentPercentage: sumOf('final', 'retainage').toFixed(2),
+    milestoneDescription: progress ? (progress.description || progress.label) : null,
+  };
+}
+
+/** The schedule a quote bills by: its stored stages, or the legacy percentages as stages. */
+export function resolvePaymentStages(
+  quote: LegacyPaymentPercentages & {
+    paymentStages?: { label: string; description?: string | null; stageType: string; percentage: string | number }[] | null;
+  }
+): PaymentStageValues[] {
+  if (quote.paymentStages && quote.paymentStages.length > 0) {
+    return quote.paymentStages.map(stage => ({
+      label: stage.label,
+      description: stage.description ?? null,
+      stageType: stage.stageType as QuotePaymentStageType,
+      percentage: Number(stage.percentage),
+    }));
+  }
+  return stagesFromLegacyPercentages(quote);
+}
@@ -0,0 +1,38 @@
+// shared/quote-signature.ts
+// Signing rules shared by the customer quote page and the server. The wording below is stored
+// with each signature and printed on the signed PDF, so change it only with legal review.
+import { z } from 'zod';
+import { QUOTE_SIGNATURE_TYPES } from './schema';
+
+export const QUOTE_SIGNATURE_CONSENT_TEXT =
+  'I agree to sign this proposal electronically. My electronic signature and initials have the same ' +
+  'legal effect as handwritten ones, and I accept the scope, price, payment schedule and terms shown.';
+
+// Contract terms the customer initials before signing
+export const QUOTE_SIGNATURE_TERMS = [
+  'The work, price and payment schedule are as described in this proposal. Work outside the scope is performed only under a signed change order.',
+  'Payments are due according to the payment schedule. The deposit is due on acceptance and secures the start date.',
+  'Start and completion dates are estimates and may move for weather, permitting, material availability or hidden conditions.',
+  'Prices are valid until the expiry date of this proposal.',
+] as const;
+
+// A drawn signature is a PNG data URL from the signature pad; 300 KB is far above a real one
+export const MAX_DRAWN_SIGNATURE_LENGTH = 300_000;
+
+export const quoteSignatureInputSchema = z.object({
+  signerName: z.string().trim().min(2, 'Enter your full name').max(200),
+  signatureType: z.enum(QUOTE_SIGNATURE_TYPES),
+  signatureData: z.string().trim().min(1, 'A signature is required'),
+  initials: z.string().trim().min(1, 'Initial the terms').max(10),
+  consent: z.literal(true, { errorMap: () => ({ message: 'You must agree to sign electronically' }) }),
+}).superRefine((input, ctx) => {
+  if (input.signatureType === 'drawn') {
+    if (!input.signatureData.startsWith('data:image/png;base64,') || input.signatureData.length > MAX_DRAWN_SIGNATURE_LENGTH) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['signatureData'], message: 'The drawn signature could not be read' });
+    }
+  } else if (input.signatureData.length > 200) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['signatureData'], message: 'The typed signature is too long' });
+  }
+});
+
+export type QuoteSignatureInput = z.infer<typeof quoteSignatureInputSchema>;
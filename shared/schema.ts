@@ -1,6 +1,6 @@
 // shared/schema.ts
 
-import { pgTable, text, serial, integer, decimal, timestamp, boolean, jsonb, foreignKey, pgEnum, uuid as pgUuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, decimal, timestamp, boolean, jsonb, foreignKey, pgEnum, unique, uniqueIndex, date, uuid as pgUuid } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -16,7 +16,7 @@ export const feedbackTypeEnum = pgEnum('feedback_type', ['edit', 'approve', 'rej
 export const invoiceStatusEnum = pgEnum('invoice_status', ['draft', 'pending', 'partially_paid', 'paid', 'overdue', 'cancelled']);
 
 // Define invoice type enum
-export const invoiceTypeEnum = pgEnum('invoice_type', ['down_payment', 'milestone', 'final', 'change_order', 'regular']);
+export const invoiceTypeEnum = pgEnum('invoice_type', ['down_payment', 'milestone', 'final', 'change_order', 'regular', 'retainage_release', 'late_fee']);
 
 // Zoho tokens table for OAuth persistence
 export const zohoTokens = pgTable("zoho_tokens", {
@@ -140,11 +140,14 @@ export const projects = pgTable("projects", {
   startDate: timestamp("start_date"),
   estimatedCompletionDate: timestamp("estimated_completion_date"),
   actualCompletionDate: timestamp("actual_completion_date"),
-  status: text("status").notNull().default("planning"), // planning, in_progress, on_hold, completed
+  status: text("status").notNull().default("planning"), // planning, in_progress, on_hold, completed, archived
   totalBudget: decimal("total_budget", { precision: 10, scale: 2 }).notNull().$type<string>(),
   imageUrl: text("image_url"),
   progress: integer("progress").default(0), // Percentage complete (0-100)
   projectManagerId: integer("project_manager_id").references(() => users.id),
+
+  // Retainage - share of each milestone invoice withheld until closeout
+  retainagePercentage: decimal("retainage_percentage", { precision: 5, scale: 2 }).notNull().default("0.00"),
   
   // Quote integration - track originating quote
   originQuoteId: integer("origin_quote_id").references(() => quotes.id),
@@ -153,6 +156,12 @@ export const projects = pgTable("projects", {
   customerName: text("customer_name"),
   customerEmail: text("customer_email"),
   customerPhone: text("customer_phone"),
+
+  // Archiving - archived projects are read-only and hidden from default listings
+  archivedAt: timestamp("archived_at"),
+  archivedById: integer("archived_by_id").references(() => users.id, { onDelete: 'set null' }),
+  archiveReason: text("archive_reason"),
+  statusBeforeArchive: text("status_before_archive"), // Restored when the project is unarchived
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -189,7 +198,7 @@ export const invoices = pgTable("invoices", {
   quoteId: integer("quote_id").references(() => quotes.id), // Link to originating quote
   milestoneId: integer("milestone_id"), // Link to milestone that generated this invoice
   invoiceNumber: text("invoice_number").notNull(),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Amount due, after any retainage
   description: text("description"),
   issueDate: timestamp("issue_date").notNull(),
   dueDate: timestamp("due_date").notNull(),
@@ -210,11 +219,55 @@ export const invoices = pgTable("invoices", {
   // Payment terms
   lateFeePercentage: decimal("late_fee_percentage", { precision: 5, scale: 2 }).default("0.00"),
   gracePeriodDays: integer("grace_period_days").default(5),
+
+  // Retainage withheld from this invoice; grossAmount is the billed value before the holdback
+  grossAmount: decimal("gross_amount", { precision: 10, scale: 2 }),
+  retainagePercentage: decimal("retainage_percentage", { precision: 5, scale: 2 }).notNull().default("0.00"),
+  retainageAmount: decimal("retainage_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+
+  // Totals of itemized invoices, calculated from invoice_line_items (null for single-amount invoices)
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }), // After line discounts
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0.00"), // Applied to taxable lines
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Itemized charges on an invoice. Priced like quote line items; taxable lines are taxed at
+// the invoice's tax rate.
+export const invoiceLineItems = pgTable("invoice_line_items", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default('1'),
+  unit: text("unit").default("each"), // each, sq ft, hours, %
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }).default('0'),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default('0'),
+  taxable: boolean("taxable").notNull().default(false),
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(), // After discount, before tax
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Invoice activity history: reminders sent, overdue flags and late fees posted by the
+// collections job. One-time events carry an eventKey so later runs skip them.
+export const invoiceActivities = pgTable("invoice_activities", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(), // reminder_sent, marked_overdue, late_fee_applied
+  eventKey: text("event_key"), // e.g. reminder:due, late_fee
+  message: text("message").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }),
+  relatedInvoiceId: integer("related_invoice_id").references(() => invoices.id, { onDelete: 'set null' }), // Late-fee invoice
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  invoiceEventUnique: unique("invoice_activities_invoice_event_unique").on(table.invoiceId, table.eventKey),
+}));
+
 // Payments table for tracking payments against invoices
 export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
@@ -230,15 +283,30 @@ export const payments = pgTable("payments", {
   stripeTransactionId: text("stripe_transaction_id"),
   
   // Payment status tracking
-  status: text("status").notNull().default("pending"), // pending, processing, succeeded, failed, cancelled
+  status: text("status").notNull().default("pending"), // pending, processing, succeeded, failed, cancelled, refunded, disputed, dispute_won (refund and dispute rows carry negative amounts); duplicate marks a repeat recording of a settled intent or refund
   failureReason: text("failure_reason"),
+  // Surcharge (+) or discount (-) charged for the payment method on top of `amount`, which is what the invoice is credited
+  methodAdjustment: decimal("method_adjustment", { precision: 10, scale: 2 }).notNull().default("0.00"),
   
   // Recorded by (admin user who recorded manual payment)
   recordedById: integer("recorded_by_id").references(() => users.id),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // A payment intent settles once; stops webhook retries and the client confirmation from double recording
+  settledPaymentIntentUnique: uniqueIndex("payments_settled_payment_intent_unique")
+    .on(table.stripePaymentIntentId)
+    .where(sql`${table.status} in ('succeeded', 'test_completed')`),
+  // Bank debits sit in "processing" for days; one open row per intent until it settles or fails
+  processingPaymentIntentUnique: uniqueIndex("payments_processing_payment_intent_unique")
+    .on(table.stripePaymentIntentId)
+    .where(sql`${table.status} = 'processing'`),
+  // Each Stripe refund is recorded once, whether the admin refund or the charge.refunded webhook gets there first
+  refundReferenceUnique: uniqueIndex("payments_refund_reference_unique")
+    .on(table.reference)
+    .where(sql`${table.status} = 'refunded'`),
+}));
 
 // Messages table for communication log
 export const messages = pgTable("messages", {
@@ -399,10 +467,20 @@ export const selections = pgTable("selections", {
   category: text("category").notNull(), // flooring, lighting, hardware, etc.
   title: text("title").notNull(),
   description: text("description"),
-  options: jsonb("options"), // Array of selection options with details
+  options: jsonb("options"), // Array of selection options with details (see selectionOptionSchema)
+  allowance: decimal("allowance", { precision: 10, scale: 2 }), // Budgeted amount included in the contract price
   selectionDeadline: timestamp("selection_deadline"),
-  selectedOption: text("selected_option"),
+  selectedOption: text("selected_option"), // id of the chosen option
+  selectedPrice: decimal("selected_price", { precision: 10, scale: 2 }), // Price of the chosen option at the time it was chosen
   status: text("status").notNull().default("pending"), // pending, selected, approved
+  selectedById: integer("selected_by_id").references(() => users.id, { onDelete: 'set null' }),
+  selectedAt: timestamp("selected_at"),
+  approvedById: integer("approved_by_id").references(() => users.id, { onDelete: 'set null' }),
+  approvedAt: timestamp("approved_at"),
+  reminderSentAt: timestamp("reminder_sent_at"), // Last deadline reminder email
+  changeOrderInvoiceId: integer("change_order_invoice_id").references(() => invoices.id, { onDelete: 'set null' }), // Invoice billing the overage above the allowance
+  changeOrderClaimedAt: timestamp("change_order_claimed_at"), // Set while the overage invoice is being created, so only one request bills it
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -441,11 +519,15 @@ export const tasks = pgTable("tasks", {
 });
 
 // --- Task dependencies table ---
+export const TASK_DEPENDENCY_TYPES = ['FS', 'SS', 'FF', 'SF'] as const;
+export type TaskDependencyType = typeof TASK_DEPENDENCY_TYPES[number];
+
 export const taskDependencies = pgTable("task_dependencies", {
   id: serial("id").primaryKey(),
   predecessorId: integer("predecessor_id").notNull().references(() => tasks.id, { onDelete: 'cascade' }),
   successorId: integer("successor_id").notNull().references(() => tasks.id, { onDelete: 'cascade' }),
   type: text("type").default("FS"), // FS (Finish-to-Start), SS, FF, SF
+  lagDays: integer("lag_days").default(0).notNull(), // Days between the linked dates; negative values are leads
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -522,6 +604,12 @@ export const quotes = pgTable("quotes", {
   taxRate: decimal("tax_rate", { precision: 6, scale: 2 }).default('10.60'), // 10.60%
   taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default('0'),
   isManualTax: boolean("is_manual_tax").default(false), // true if tax amount is manually entered
+
+  // Where the tax rate came from; a fallback rate has to be confirmed before the quote is sent
+  taxLocationCode: text("tax_location_code"), // WA DOR location code
+  taxJurisdiction: text("tax_jurisdiction"),
+  taxRateSource: text("tax_rate_source"), // dor_api, dor_table, fallback, manual, unverified; null on older quotes
+  taxRateCheckedAt: timestamp("tax_rate_checked_at"),
   
   total: decimal("total", { precision: 10, scale: 2 }).notNull().default('0'),
   
@@ -551,6 +639,16 @@ export const quotes = pgTable("quotes", {
   // Notes and scope
   projectNotes: text("project_notes"),
   scopeDescription: text("scope_description"),
+
+  // Customer's choice of optional and alternate line items, for the revision it was made on
+  selectedLineItemIds: jsonb("selected_line_item_ids").$type<number[]>(),
+  selectionRevisionNumber: integer("selection_revision_number"),
+  optionsLockedAt: timestamp("options_locked_at"), // Set when the accepted configuration becomes a project
+
+  // Owner sign-off for sending a quote below the margin floor; covers margins down to the approved one
+  marginApprovedAt: timestamp("margin_approved_at"),
+  marginApprovedById: integer("margin_approved_by_id").references(() => users.id, { onDelete: 'set null' }),
+  approvedMarginPercentage: decimal("approved_margin_percentage", { precision: 6, scale: 2 }),
   
   // Tracking
   createdById: integer("created_by_id").notNull().references(() => users.id),
@@ -580,6 +678,16 @@ export const quoteLineItems = pgTable("quote_line_items", {
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default('0'),
   
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+
+  // Customer options: required items are always included, optional items can be added or removed,
+  // and alternates sharing an option group replace each other (e.g. Good / Better / Best)
+  selectionType: text("selection_type").notNull().default("required"), // required, optional, alternate
+  optionGroup: text("option_group"), // Optional items in the same group are toggled together
+  isDefaultSelected: boolean("is_default_selected").notNull().default(true), // Included in the quoted total
+
+  // Internal costing; never shown to the customer. Null cost means the item has not been costed.
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
+  markupPercentage: decimal("markup_percentage", { precision: 6, scale: 2 }),
   
   // Display order
   sortOrder: integer("sort_order").default(0),
@@ -588,6 +696,37 @@ export const quoteLineItems = pgTable("quote_line_items", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Quote payment stages - ordered billing schedule; replaces the down/milestone/final columns when present
+export const quotePaymentStages = pgTable("quote_payment_stages", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: 'cascade' }),
+
+  label: text("label").notNull(), // "Deposit", "Framing complete", "Retainage"
+  description: text("description"),
+  stageType: text("stage_type").notNull().default("progress"), // deposit, progress, retainage, final
+  percentage: decimal("percentage", { precision: 5, scale: 2 }).notNull(),
+
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Immutable snapshot of a quote taken each time it is sent. The customer page shows the
+// latest revision while the live quote keeps being edited as a draft.
+export const quoteRevisions = pgTable("quote_revisions", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: 'cascade' }),
+  revisionNumber: integer("revision_number").notNull(),
+
+  snapshot: jsonb("snapshot").notNull(), // Quote fields, line items and payment stages as sent
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+
+  sentById: integer("sent_by_id").references(() => users.id, { onDelete: 'set null' }),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => ({
+  quoteRevisionUnique: unique("quote_revisions_quote_revision_unique").on(table.quoteId, table.revisionNumber),
+}));
+
 // Quote media table for additional images
 export const quoteMedia = pgTable("quote_media", {
   id: serial("id").primaryKey(),
@@ -618,6 +757,32 @@ export const quoteResponses = pgTable("quote_responses", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Customer e-signature captured when a quote is accepted. Rows are never edited after signing;
+// the only later write links the signed PDF into the resulting project's documents.
+export const quoteSignatures = pgTable("quote_signatures", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().unique().references(() => quotes.id, { onDelete: 'cascade' }),
+  responseId: integer("response_id").references(() => quoteResponses.id, { onDelete: 'set null' }),
+  revisionNumber: integer("revision_number"), // Sent revision that was signed; null for quotes sent before revisions
+
+  signerName: text("signer_name").notNull(),
+  signerEmail: text("signer_email").notNull(),
+  signatureType: text("signature_type").notNull(), // "typed" or "drawn"
+  signatureData: text("signature_data").notNull(), // Typed name, or a PNG data URL of the drawing
+  initials: text("initials").notNull(), // Initials placed against the contract terms
+  consentText: text("consent_text").notNull(), // Exact wording the signer agreed to
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+
+  contentHash: text("content_hash").notNull(), // SHA-256 of the signed quote content, printed on the PDF
+  documentHash: text("document_hash").notNull(), // SHA-256 of the signed PDF file
+  documentUrl: text("document_url").notNull(),
+  documentSize: integer("document_size").notNull(),
+  projectDocumentId: integer("project_document_id").references(() => documents.id, { onDelete: 'set null' }),
+
+  signedAt: timestamp("signed_at").notNull(),
+});
+
 // Quote access tokens table for secure customer access
 export const quoteAccessTokens = pgTable("quote_access_tokens", {
   id: serial("id").primaryKey(),
@@ -627,6 +792,20 @@ export const quoteAccessTokens = pgTable("quote_access_tokens", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Automated follow-ups, expiry and renewal requests on a quote. eventKey makes each one happen once
+export const quoteFollowUps = pgTable("quote_follow_ups", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(), // not_opened, viewed_no_response, expiring_soon, expired, renewal_requested
+  eventKey: text("event_key").notNull(), // e.g. not_opened:2024-05-01 for the send it follows up on
+  recipientEmail: text("recipient_email"), // Null when nothing was emailed
+  message: text("message").notNull(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  quoteFollowUpEventUnique: unique("quote_follow_ups_quote_event_unique").on(table.quoteId, table.eventKey),
+}));
+
 // Quote analytics table for tracking customer interactions
 export const quoteAnalytics = pgTable("quote_analytics", {
   id: serial("id").primaryKey(),
@@ -693,6 +872,237 @@ export const quoteViewSessions = pgTable("quote_view_sessions", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// --- Cost Catalog & Quote Templates ---
+
+// Company cost catalog: line items estimators reuse across quotes. The default unit price is
+// our cost; the quoted unit price adds the item's markup on top.
+export const costCatalogItems = pgTable("cost_catalog_items", {
+  id: serial("id").primaryKey(),
+  category: text("category").notNull(), // "Demolition", "Labor", "Fixtures"
+  description: text("description").notNull(), // "Demo existing tile floor"
+  unit: text("unit").notNull().default("each"), // each, sq ft, linear ft, hours
+  defaultUnitPrice: decimal("default_unit_price", { precision: 10, scale: 2 }).notNull(),
+  markupPercentage: decimal("markup_percentage", { precision: 6, scale: 2 }).notNull().default('0'),
+  isActive: boolean("is_active").notNull().default(true), // Retired items stay linked to templates
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Starting points for new quotes of a project type: line items, scope and payment schedule
+export const quoteTemplates = pgTable("quote_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // "Standard bathroom remodel"
+  projectType: text("project_type").notNull(), // Matches quotes.project_type
+  description: text("description"), // Internal note on when to use the template
+  scopeDescription: text("scope_description"),
+  paymentStages: jsonb("payment_stages"), // PaymentStageValues[]; null keeps the standard schedule
+  isActive: boolean("is_active").notNull().default(true),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const quoteTemplateItems = pgTable("quote_template_items", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull().references(() => quoteTemplates.id, { onDelete: 'cascade' }),
+  // Catalog-linked items are priced from the catalog when the template is applied,
+  // so bulk price updates carry through to templates
+  catalogItemId: integer("catalog_item_id").references(() => costCatalogItems.id, { onDelete: 'set null' }),
+  category: text("category").notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default('1'),
+  unit: text("unit").notNull().default("each"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }), // Fixed price for items not in the catalog
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
+// --- Sales Tax ---
+
+// WA DOR quarterly local sales tax rates by location code, imported for lookups when DOR is unreachable
+export const taxJurisdictionRates = pgTable("tax_jurisdiction_rates", {
+  id: serial("id").primaryKey(),
+  locationCode: text("location_code").notNull(), // DOR location code, e.g. "1726"
+  jurisdiction: text("jurisdiction").notNull(), // "Seattle"
+  county: text("county"),
+  stateRate: decimal("state_rate", { precision: 6, scale: 3 }),
+  localRate: decimal("local_rate", { precision: 6, scale: 3 }),
+  combinedRate: decimal("combined_rate", { precision: 6, scale: 3 }).notNull(), // Percent, e.g. 10.350
+  effectiveFrom: date("effective_from", { mode: 'string' }).notNull(), // YYYY-MM-DD
+  effectiveUntil: date("effective_until", { mode: 'string' }), // Null until a later table says otherwise
+  sourceFile: text("source_file"),
+  importedById: integer("imported_by_id").references(() => users.id, { onDelete: 'set null' }),
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+}, (table) => ({
+  taxJurisdictionRateUnique: unique("tax_jurisdiction_rates_code_effective_unique").on(table.locationCode, table.effectiveFrom),
+}));
+
+// Address lookups against the DOR rate service, reused until they expire
+export const taxRateLookups = pgTable("tax_rate_lookups", {
+  id: serial("id").primaryKey(),
+  addressKey: text("address_key").notNull().unique(), // Normalized street|city|zip
+  address: text("address").notNull(),
+  city: text("city"),
+  zip: text("zip"),
+  locationCode: text("location_code").notNull(),
+  jurisdiction: text("jurisdiction"),
+  rate: decimal("rate", { precision: 6, scale: 3 }).notNull(), // Combined percent
+  matchLevel: text("match_level").notNull(), // address, zip
+  lookedUpAt: timestamp("looked_up_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// --- Audit Log ---
+
+// Audit events record who changed what on project records, with before/after diffs
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: 'cascade' }),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: 'set null' }), // null = system (webhooks, scheduled jobs)
+  entityType: text("entity_type").notNull(), // task, milestone, invoice, payment, punch_list_item, document, project, project_member, selection, change_order
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // created, updated, deleted, completed, billed, sent, paid
+  changes: jsonb("changes"), // { field: { from, to } }
+  metadata: jsonb("metadata"), // Additional context (e.g. invoice number, request source)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// --- Project Exports ---
+
+// Background export jobs producing a ZIP archive of a project's records (closeout handoff / retention)
+export const projectExports = pgTable("project_exports", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  requestedById: integer("requested_by_id").references(() => users.id, { onDelete: 'set null' }),
+  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
+  format: text("format").notNull().default("json"), // json, csv, both
+  includeMedia: boolean("include_media").default(false).notNull(),
+  storageKey: text("storage_key"), // R2 key of the generated ZIP
+  fileSize: integer("file_size"), // in bytes
+  summary: jsonb("summary"), // Record counts per dataset, media files included/skipped
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// --- Project Members ---
+
+// Per-project team roles (supervisors, trade partners, read-only observers). Grants scoped access
+// on top of the global user role; see getProjectPermissions.
+export const PROJECT_MEMBER_ROLES = ['project_manager', 'superintendent', 'subcontractor', 'viewer'] as const;
+export type ProjectMemberRole = typeof PROJECT_MEMBER_ROLES[number];
+
+export const projectMembers = pgTable("project_members", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: text("role").notNull(), // project_manager, superintendent, subcontractor, viewer
+  addedById: integer("added_by_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  projectUserUnique: unique("project_members_project_user_unique").on(table.projectId, table.userId),
+}));
+
+// --- Change Orders ---
+
+// Scope changes after contract signing. Approved by the client through a tokenized public link,
+// after which they are billed and folded into the project budget and schedule.
+export const changeOrders = pgTable("change_orders", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  changeOrderNumber: text("change_order_number").notNull().unique(), // CO-12-003
+  title: text("title").notNull(),
+  description: text("description"),
+  reason: text("reason"), // Why the scope changed (client request, hidden conditions, code requirement...)
+  status: text("status").notNull().default("draft"), // draft, sent, approved, rejected
+
+  // Cost impact (negative totals are credits)
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default('0'),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default('0'),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default('0'),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull().default('0'),
+
+  // Schedule impact
+  scheduleImpactDays: integer("schedule_impact_days").notNull().default(0),
+  createTasks: boolean("create_tasks").default(false).notNull(), // Insert a task per line item on approval
+
+  // Client e-approval
+  accessToken: text("access_token").notNull().unique(),
+  sentAt: timestamp("sent_at"),
+  respondedAt: timestamp("responded_at"),
+  respondedByName: text("responded_by_name"),
+  responseNotes: text("response_notes"),
+
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: 'set null' }), // Originating contract quote
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: 'set null' }), // change_order invoice generated on approval
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Same shape as quote_line_items
+export const changeOrderLineItems = pgTable("change_order_line_items", {
+  id: serial("id").primaryKey(),
+  changeOrderId: integer("change_order_id").notNull().references(() => changeOrders.id, { onDelete: 'cascade' }),
+  category: text("category").notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default('1'),
+  unit: text("unit").default("each"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // Negative for removed scope
+  discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }).default('0'),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default('0'),
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// --- Work Calendars ---
+// The calendar with no project is the company default; a project calendar overrides its
+// workdays, and its non-working days are added to the company's.
+export const CALENDAR_EXCEPTION_TYPES = ['holiday', 'rain_day', 'shutdown'] as const;
+export type CalendarExceptionType = typeof CALENDAR_EXCEPTION_TYPES[number];
+
+export const workCalendars = pgTable("work_calendars", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: 'cascade' }).unique(), // null = company default
+  name: text("name").notNull(),
+  workDays: jsonb("work_days").$type<number[]>().notNull().default([1, 2, 3, 4, 5]), // 0 = Sunday ... 6 = Saturday
+  hoursPerDay: decimal("hours_per_day", { precision: 4, scale: 2 }).notNull().default('8'),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const calendarExceptions = pgTable("calendar_exceptions", {
+  id: serial("id").primaryKey(),
+  calendarId: integer("calendar_id").notNull().references(() => workCalendars.id, { onDelete: 'cascade' }),
+  date: date("date", { mode: 'string' }).notNull(), // YYYY-MM-DD
+  type: text("type").notNull().default("holiday"), // holiday, rain_day, shutdown
+  description: text("description"),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  calendarDateUnique: unique("calendar_exceptions_calendar_date_unique").on(table.calendarId, table.date),
+}));
+
+// Ledger of received webhook events. The provider's event ID is unique, so a redelivered
+// event is recognised and skipped once it has been processed.
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull().default("stripe"),
+  eventId: text("event_id").notNull().unique(), // e.g. evt_1P...
+  type: text("type").notNull(), // e.g. payment_intent.succeeded
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("processing"), // processing, processed, failed
+  attempts: integer("attempts").notNull().default(1),
+  lastError: text("last_error"),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
 
 
 
@@ -743,6 +1153,8 @@ export const projectRelations = relations(projects, ({ many, one }) => ({
   milestones: many(milestones),
   selections: many(selections),
   projectVersions: many(projectVersions),
+  members: many(projectMembers),
+  changeOrders: many(changeOrders),
 }));
 
 export const userRelations = relations(users, ({ many }) => ({
@@ -762,6 +1174,7 @@ export const userRelations = relations(users, ({ many }) => ({
   taskFeedback: many(taskFeedback),
   createdQuotes: many(quotes),
   uploadedQuoteMedia: many(quoteMedia),
+  projectMemberships: many(projectMembers, { relationName: 'ProjectMemberUser' }),
 }));
 
 export const clientProjectRelations = relations(clientProjects, ({ one }) => ({
@@ -778,6 +1191,16 @@ export const invoiceRelations = relations(invoices, ({ one, many }) => ({
     project: one(projects, { fields: [invoices.projectId], references: [projects.id] }),
     document: one(documents, { fields: [invoices.documentId], references: [documents.id] }),
     payments: many(payments),
+    lineItems: many(invoiceLineItems),
+    activities: many(invoiceActivities, { relationName: 'InvoiceActivities' }),
+}));
+
+export const invoiceLineItemRelations = relations(invoiceLineItems, ({ one }) => ({
+    invoice: one(invoices, { fields: [invoiceLineItems.invoiceId], references: [invoices.id] }),
+}));
+
+export const invoiceActivityRelations = relations(invoiceActivities, ({ one }) => ({
+    invoice: one(invoices, { fields: [invoiceActivities.invoiceId], references: [invoices.id], relationName: 'InvoiceActivities' }),
 }));
 
 export const paymentRelations = relations(payments, ({ one }) => ({
@@ -810,6 +1233,9 @@ export const milestoneRelations = relations(milestones, ({ one }) => ({
 
 export const selectionRelations = relations(selections, ({ one }) => ({
     project: one(projects, { fields: [selections.projectId], references: [projects.id] }),
+    selectedBy: one(users, { fields: [selections.selectedById], references: [users.id], relationName: 'SelectionSelectedBy' }),
+    approvedBy: one(users, { fields: [selections.approvedById], references: [users.id], relationName: 'SelectionApprovedBy' }),
+    changeOrderInvoice: one(invoices, { fields: [selections.changeOrderInvoiceId], references: [invoices.id] }),
 }));
 
 export const taskRelations = relations(tasks, ({ one, many }) => ({
@@ -845,17 +1271,39 @@ export const punchListItemRelations = relations(punchListItems, ({ one, many })
 // Quote relations
 export const quoteRelations = relations(quotes, ({ many }) => ({
   lineItems: many(quoteLineItems),
+  paymentStages: many(quotePaymentStages),
+  revisions: many(quoteRevisions),
   media: many(quoteMedia),
   responses: many(quoteResponses),
   accessTokens: many(quoteAccessTokens),
   analytics: many(quoteAnalytics),
   viewSessions: many(quoteViewSessions),
+  followUps: many(quoteFollowUps),
 }));
 
 export const quoteLineItemRelations = relations(quoteLineItems, ({ one }) => ({
   quote: one(quotes, { fields: [quoteLineItems.quoteId], references: [quotes.id] }),
 }));
 
+export const quotePaymentStageRelations = relations(quotePaymentStages, ({ one }) => ({
+  quote: one(quotes, { fields: [quotePaymentStages.quoteId], references: [quotes.id] }),
+}));
+
+export const quoteRevisionRelations = relations(quoteRevisions, ({ one }) => ({
+  quote: one(quotes, { fields: [quoteRevisions.quoteId], references: [quotes.id] }),
+  sentBy: one(users, { fields: [quoteRevisions.sentById], references: [users.id] }),
+}));
+
+export const quoteSignatureRelations = relations(quoteSignatures, ({ one }) => ({
+  quote: one(quotes, { fields: [quoteSignatures.quoteId], references: [quotes.id] }),
+  response: one(quoteResponses, { fields: [quoteSignatures.responseId], references: [quoteResponses.id] }),
+  projectDocument: one(documents, { fields: [quoteSignatures.projectDocumentId], references: [documents.id] }),
+}));
+
+export const quoteFollowUpRelations = relations(quoteFollowUps, ({ one }) => ({
+  quote: one(quotes, { fields: [quoteFollowUps.quoteId], references: [quotes.id] }),
+}));
+
 export const quoteMediaRelations = relations(quoteMedia, ({ one }) => ({
   quote: one(quotes, { fields: [quoteMedia.quoteId], references: [quotes.id] }),
   uploader: one(users, { fields: [quoteMedia.uploadedById], references: [users.id] }),
@@ -877,6 +1325,58 @@ export const quoteViewSessionRelations = relations(quoteViewSessions, ({ one })
   quote: one(quotes, { fields: [quoteViewSessions.quoteId], references: [quotes.id] }),
 }));
 
+export const costCatalogItemRelations = relations(costCatalogItems, ({ one }) => ({
+  createdBy: one(users, { fields: [costCatalogItems.createdById], references: [users.id] }),
+}));
+
+export const quoteTemplateRelations = relations(quoteTemplates, ({ one, many }) => ({
+  items: many(quoteTemplateItems),
+  createdBy: one(users, { fields: [quoteTemplates.createdById], references: [users.id] }),
+}));
+
+export const quoteTemplateItemRelations = relations(quoteTemplateItems, ({ one }) => ({
+  template: one(quoteTemplates, { fields: [quoteTemplateItems.templateId], references: [quoteTemplates.id] }),
+  catalogItem: one(costCatalogItems, { fields: [quoteTemplateItems.catalogItemId], references: [costCatalogItems.id] }),
+}));
+
+export const auditEventRelations = relations(auditEvents, ({ one }) => ({
+  project: one(projects, { fields: [auditEvents.projectId], references: [projects.id] }),
+  actor: one(users, { fields: [auditEvents.actorId], references: [users.id] }),
+}));
+
+export const projectExportRelations = relations(projectExports, ({ one }) => ({
+  project: one(projects, { fields: [projectExports.projectId], references: [projects.id] }),
+  requestedBy: one(users, { fields: [projectExports.requestedById], references: [users.id] }),
+}));
+
+export const changeOrderRelations = relations(changeOrders, ({ one, many }) => ({
+  project: one(projects, { fields: [changeOrders.projectId], references: [projects.id] }),
+  quote: one(quotes, { fields: [changeOrders.quoteId], references: [quotes.id] }),
+  invoice: one(invoices, { fields: [changeOrders.invoiceId], references: [invoices.id] }),
+  createdBy: one(users, { fields: [changeOrders.createdById], references: [users.id] }),
+  lineItems: many(changeOrderLineItems),
+}));
+
+export const changeOrderLineItemRelations = relations(changeOrderLineItems, ({ one }) => ({
+  changeOrder: one(changeOrders, { fields: [changeOrderLineItems.changeOrderId], references: [changeOrders.id] }),
+}));
+
+export const workCalendarRelations = relations(workCalendars, ({ one, many }) => ({
+  project: one(projects, { fields: [workCalendars.projectId], references: [projects.id] }),
+  exceptions: many(calendarExceptions),
+}));
+
+export const calendarExceptionRelations = relations(calendarExceptions, ({ one }) => ({
+  calendar: one(workCalendars, { fields: [calendarExceptions.calendarId], references: [workCalendars.id] }),
+  createdBy: one(users, { fields: [calendarExceptions.createdById], references: [users.id] }),
+}));
+
+export const projectMemberRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, { fields: [projectMembers.projectId], references: [projects.id] }),
+  user: one(users, { fields: [projectMembers.userId], references: [users.id], relationName: 'ProjectMemberUser' }),
+  addedBy: one(users, { fields: [projectMembers.addedById], references: [users.id], relationName: 'ProjectMemberAddedBy' }),
+}));
+
 
 
 
@@ -894,7 +1394,14 @@ export const insertProjectSchema = createInsertSchema(projects)
   .omit({
     id: true,
     createdAt: true,
-    updatedAt: true
+    updatedAt: true,
+    // Managed by the archive/restore endpoints
+    archivedAt: true,
+    archivedById: true,
+    archiveReason: true,
+    statusBeforeArchive: true,
+    // Managed by the retainage endpoint
+    retainagePercentage: true
   })
   .extend({
     startDate: z.union([z.string().datetime(), z.date()]).optional().nullable(),
@@ -931,6 +1438,11 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   updatedAt: true
 });
 
+export const insertInvoiceLineItemSchema = createInsertSchema(invoiceLineItems).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
@@ -979,6 +1491,18 @@ export const updateMilestoneSchema = insertMilestoneSchema.partial().extend({
   completedById: z.number().optional(),
 });
 
+// Shape of each entry in selections.options
+export const selectionOptionSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional().nullable(),
+  price: z.coerce.number().min(0),
+  imageUrl: z.string().url().optional().nullable(),
+  vendor: z.string().max(200).optional().nullable(),
+  sku: z.string().max(100).optional().nullable(),
+  leadTimeDays: z.coerce.number().int().min(0).optional().nullable(),
+});
+
 export const insertSelectionSchema = createInsertSchema(selections).omit({
   id: true,
   createdAt: true,
@@ -1189,9 +1713,23 @@ export type Document = typeof documents.$inferSelect;
 
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoiceLineItem = z.infer<typeof insertInvoiceLineItemSchema>;
+export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
 
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
+// Methods an admin can record by hand; Stripe payments are recorded as 'stripe' (card) or 'ach'
+export const MANUAL_PAYMENT_METHODS = ['check', 'zelle', 'cash', 'bank_transfer'] as const;
+export type ManualPaymentMethod = typeof MANUAL_PAYMENT_METHODS[number];
+
+// Payment rows counted as money received: settled payments plus the negative refund and dispute
+// rows against them. Pending, processing, failed, cancelled and duplicate rows don't count.
+export const COLLECTED_PAYMENT_STATUSES = ['succeeded', 'test_completed', 'refunded', 'disputed', 'dispute_won'] as const;
+export type CollectedPaymentStatus = typeof COLLECTED_PAYMENT_STATUSES[number];
+
+// Stripe payment method types offered on the customer payment page
+export const STRIPE_PAYMENT_METHOD_TYPES = ['card', 'us_bank_account'] as const;
+export type StripePaymentMethodType = typeof STRIPE_PAYMENT_METHOD_TYPES[number];
 
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
@@ -1208,6 +1746,12 @@ export type Milestone = typeof milestones.$inferSelect;
 
 export type InsertSelection = z.infer<typeof insertSelectionSchema>;
 export type Selection = typeof selections.$inferSelect;
+export type SelectionOption = z.infer<typeof selectionOptionSchema>;
+
+export type SelectionWithUsers = Selection & {
+    selectedBy?: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+    approvedBy?: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+};
 
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
@@ -1248,6 +1792,25 @@ export const insertQuoteLineItemSchema = createInsertSchema(quoteLineItems).omit
   discountAmount: z.union([z.string(), z.number().transform(val => val.toString())]).default('0').optional(),
 });
 
+export const QUOTE_LINE_ITEM_SELECTION_TYPES = ['required', 'optional', 'alternate'] as const;
+export type QuoteLineItemSelectionType = typeof QUOTE_LINE_ITEM_SELECTION_TYPES[number];
+
+export const QUOTE_PAYMENT_STAGE_TYPES = ['deposit', 'progress', 'retainage', 'final'] as const;
+export type QuotePaymentStageType = typeof QUOTE_PAYMENT_STAGE_TYPES[number];
+
+export const insertQuotePaymentStageSchema = createInsertSchema(quotePaymentStages).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  stageType: z.enum(QUOTE_PAYMENT_STAGE_TYPES),
+  percentage: z.union([z.string(), z.number().transform(val => val.toString())]),
+});
+
+export const insertQuoteRevisionSchema = createInsertSchema(quoteRevisions).omit({
+  id: true,
+  sentAt: true,
+});
+
 export const insertQuoteMediaSchema = createInsertSchema(quoteMedia).omit({
   id: true,
   createdAt: true,
@@ -1258,6 +1821,29 @@ export const insertQuoteResponseSchema = createInsertSchema(quoteResponses).omit
   createdAt: true,
 });
 
+export const QUOTE_SIGNATURE_TYPES = ['typed', 'drawn'] as const;
+export type QuoteSignatureType = typeof QUOTE_SIGNATURE_TYPES[number];
+
+export const insertQuoteSignatureSchema = createInsertSchema(quoteSignatures).omit({
+  id: true,
+}).extend({
+  signatureType: z.enum(QUOTE_SIGNATURE_TYPES),
+});
+
+// unverified: saved without a lookup or imported table to check the rate against
+export const TAX_RATE_SOURCES = ['dor_api', 'dor_table', 'fallback', 'manual', 'unverified'] as const;
+export type TaxRateSource = typeof TAX_RATE_SOURCES[number];
+
+export const QUOTE_FOLLOW_UP_TYPES = ['not_opened', 'viewed_no_response', 'expiring_soon', 'expired', 'renewal_requested'] as const;
+export type QuoteFollowUpType = typeof QUOTE_FOLLOW_UP_TYPES[number];
+
+export const insertQuoteFollowUpSchema = createInsertSchema(quoteFollowUps).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(QUOTE_FOLLOW_UP_TYPES),
+});
+
 // --- Quote Types ---
 export type InsertQuote = z.infer<typeof insertQuoteSchema>;
 export type Quote = typeof quotes.$inferSelect;
@@ -1265,6 +1851,21 @@ export type Quote = typeof quotes.$inferSelect;
 export type InsertQuoteLineItem = z.infer<typeof insertQuoteLineItemSchema>;
 export type QuoteLineItem = typeof quoteLineItems.$inferSelect;
 
+export type InsertQuotePaymentStage = z.infer<typeof insertQuotePaymentStageSchema>;
+export type QuotePaymentStage = typeof quotePaymentStages.$inferSelect;
+
+export type InsertQuoteRevision = z.infer<typeof insertQuoteRevisionSchema>;
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+
+export type InsertQuoteSignature = z.infer<typeof insertQuoteSignatureSchema>;
+export type QuoteSignature = typeof quoteSignatures.$inferSelect;
+
+export type InsertQuoteFollowUp = z.infer<typeof insertQuoteFollowUpSchema>;
+export type QuoteFollowUp = typeof quoteFollowUps.$inferSelect;
+
+// What the customer page may show about a signature; the drawing, IP and user agent stay internal
+export type QuoteSignatureSummary = Pick<QuoteSignature, 'signerName' | 'signatureType' | 'revisionNumber' | 'documentHash' | 'signedAt'>;
+
 export type InsertQuoteMedia = z.infer<typeof insertQuoteMediaSchema>;
 export type QuoteMedia = typeof quoteMedia.$inferSelect;
 
@@ -1294,10 +1895,194 @@ export type DocumentWithUploader = Document & {
 export type QuoteWithDetails = Quote & {
     creator?: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
     lineItems?: QuoteLineItem[];
+    paymentStages?: QuotePaymentStage[];
     media?: QuoteMedia[];
     responses?: QuoteResponse[];
+    revisionNumber?: number | null; // Set on the customer view: the sent revision being shown
+    signature?: QuoteSignatureSummary | null; // Set on the customer view once the quote is signed
+    includedLineItemIds?: number[]; // Set on the customer view: the line items in the chosen configuration
+};
+
+// Stored in quote_revisions.snapshot; dates are ISO strings once serialized
+export type QuoteRevisionSnapshot = {
+    quote: Partial<Quote>;
+    lineItems: QuoteLineItem[];
+    paymentStages: QuotePaymentStage[];
+};
+
+export type QuoteRevisionWithSender = QuoteRevision & {
+    sentBy?: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+};
+
+export type QuoteRevisionFieldChange = { field: string; from: unknown; to: unknown };
+
+// Line items are matched by id, payment stages by position in the schedule
+export type QuoteRevisionItemChange = {
+    change: 'added' | 'removed' | 'changed';
+    label: string;
+    fields: QuoteRevisionFieldChange[];
+};
+
+export type QuoteRevisionDiff = {
+    fromRevision: number;
+    toRevision: number | null; // null compares against the current draft
+    fields: QuoteRevisionFieldChange[];
+    lineItems: QuoteRevisionItemChange[];
+    paymentStages: QuoteRevisionItemChange[];
 };
 
 export type QuoteLineItemWithDetails = QuoteLineItem & {
     quote?: Pick<Quote, 'id' | 'quoteNumber' | 'title'> | null;
+};
+
+// --- Audit Log Schemas & Types ---
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+export type AuditEventWithActor = AuditEvent & {
+    actor?: Pick<User, 'id' | 'firstName' | 'lastName' | 'role'> | null;
+};
+
+// --- Project Export Schemas & Types ---
+export const insertProjectExportSchema = createInsertSchema(projectExports).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertProjectExport = z.infer<typeof insertProjectExportSchema>;
+export type ProjectExport = typeof projectExports.$inferSelect;
+// --- Project Member Schemas & Types ---
+export const insertProjectMemberSchema = createInsertSchema(projectMembers, {
+  role: z.enum(PROJECT_MEMBER_ROLES),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+export type ProjectMember = typeof projectMembers.$inferSelect;
+
+export type ProjectMemberWithUser = ProjectMember & {
+    user?: Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'role'> | null;
+};
+
+// --- Change Order Schemas & Types ---
+export const insertChangeOrderSchema = createInsertSchema(changeOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertChangeOrderLineItemSchema = createInsertSchema(changeOrderLineItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertChangeOrder = z.infer<typeof insertChangeOrderSchema>;
+export type ChangeOrder = typeof changeOrders.$inferSelect;
+export type InsertChangeOrderLineItem = z.infer<typeof insertChangeOrderLineItemSchema>;
+export type ChangeOrderLineItem = typeof changeOrderLineItems.$inferSelect;
+
+export type ChangeOrderWithLineItems = ChangeOrder & {
+    lineItems: ChangeOrderLineItem[];
+    createdBy?: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+};
+
+
+// --- Work Calendar Schemas & Types ---
+export const insertWorkCalendarSchema = createInsertSchema(workCalendars).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCalendarExceptionSchema = createInsertSchema(calendarExceptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertWorkCalendar = z.infer<typeof insertWorkCalendarSchema>;
+export type WorkCalendar = typeof workCalendars.$inferSelect;
+export type InsertCalendarException = z.infer<typeof insertCalendarExceptionSchema>;
+export type CalendarException = typeof calendarExceptions.$inferSelect;
+
+export type WorkCalendarWithExceptions = WorkCalendar & {
+    exceptions: CalendarException[];
+};
+
+
+// --- Webhook Event Schemas & Types ---
+export const WEBHOOK_EVENT_STATUSES = ['processing', 'processed', 'failed'] as const;
+export type WebhookEventStatus = typeof WEBHOOK_EVENT_STATUSES[number];
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents).omit({
+  id: true,
+  receivedAt: true,
+  updatedAt: true,
+});
+
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+
+
+// --- Invoice Activity Schemas & Types ---
+export const INVOICE_ACTIVITY_TYPES = ['reminder_sent', 'marked_overdue', 'late_fee_applied'] as const;
+export type InvoiceActivityType = typeof INVOICE_ACTIVITY_TYPES[number];
+
+export const insertInvoiceActivitySchema = createInsertSchema(invoiceActivities).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(INVOICE_ACTIVITY_TYPES),
+});
+
+export type InsertInvoiceActivity = z.infer<typeof insertInvoiceActivitySchema>;
+export type InvoiceActivity = typeof invoiceActivities.$inferSelect;
+
+
+// --- Cost Catalog & Quote Template Schemas & Types ---
+export const insertCostCatalogItemSchema = createInsertSchema(costCatalogItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQuoteTemplateSchema = createInsertSchema(quoteTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQuoteTemplateItemSchema = createInsertSchema(quoteTemplateItems).omit({
+  id: true,
+});
+
+export const insertTaxJurisdictionRateSchema = createInsertSchema(taxJurisdictionRates).omit({
+  id: true,
+  importedAt: true,
+});
+
+export type InsertCostCatalogItem = z.infer<typeof insertCostCatalogItemSchema>;
+export type CostCatalogItem = typeof costCatalogItems.$inferSelect;
+
+export type InsertQuoteTemplate = z.infer<typeof insertQuoteTemplateSchema>;
+export type QuoteTemplate = typeof quoteTemplates.$inferSelect;
+
+export type InsertQuoteTemplateItem = z.infer<typeof insertQuoteTemplateItemSchema>;
+export type QuoteTemplateItem = typeof quoteTemplateItems.$inferSelect;
+
+export type InsertTaxJurisdictionRate = z.infer<typeof insertTaxJurisdictionRateSchema>;
+export type TaxJurisdictionRate = typeof taxJurisdictionRates.$inferSelect;
+export type TaxRateLookupRecord = typeof taxRateLookups.$inferSelect;
+
+export type QuoteTemplateWithItems = QuoteTemplate & {
+    items: (QuoteTemplateItem & { catalogItem?: CostCatalogItem | null })[];
 };
\ No newline at end of file
@@ -0,0 +1,32 @@
+// shared/tax-rates.ts
+// Sales tax lookups for quotes, shared by the tax service and the quote screens.
+import type { TaxRateSource } from './schema';
+
+// Response shape of POST /api/quotes/lookup/tax-rate
+export interface TaxRateLookupResult {
+  taxRate: number; // Combined percent, e.g. 10.35
+  locationCode: string | null; // WA DOR location code
+  jurisdiction: string | null;
+  source: Exclude<TaxRateSource, 'manual' | 'unverified'>;
+  isFallback: boolean; // Not confirmed for this address; check it before the quote goes out
+  matchLevel: 'address' | 'zip' | null; // How closely DOR matched the address
+  cached: boolean;
+  checkedAt: string;
+  warning: string | null;
+}
+
+// One imported DOR quarterly table, i.e. the rates sharing an effective date
+export interface TaxRateTableSummary {
+  effectiveFrom: string; // YYYY-MM-DD
+  effectiveUntil: string | null;
+  locations: number;
+  sourceFile: string | null;
+  importedAt: string;
+}
+
+// Response shape of POST /api/tax-rates/import
+export interface TaxRateImportResult {
+  imported: number;
+  skipped: number; // Rows without a location code or rate
+  effectiveFrom: string[];
+}
@@ -0,0 +1,89 @@
+// shared/work-calendar.ts
+// Working-day arithmetic shared by the server scheduler and the client Gantt view.
+// Dates are compared by their UTC calendar day; times of day are carried through unchanged.
+
+export const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5]; // Monday - Friday
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+export interface WorkCalendarRules {
+  workDays: number[]; // 0 = Sunday ... 6 = Saturday
+  nonWorkingDates: string[]; // YYYY-MM-DD holidays, rain days and shutdowns
+  hoursPerDay: number;
+}
+
+export const DEFAULT_CALENDAR_RULES: WorkCalendarRules = {
+  workDays: DEFAULT_WORK_DAYS,
+  nonWorkingDates: [],
+  hoursPerDay: DEFAULT_HOURS_PER_DAY,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against a calendar with no workdays, which would otherwise loop forever
+const MAX_SCAN_DAYS = 3660;
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function compile(rules: WorkCalendarRules) {
+  const workDays = new Set(rules.workDays);
+  const nonWorking = new Set(rules.nonWorkingDates);
+  if (workDays.size === 0) {
+    throw new Error('A work calendar needs at least one workday.');
+  }
+  return (date: Date) => workDays.has(date.getUTCDay()) && !nonWorking.has(toDateKey(date));
+}
+
+export function isWorkingDay(rules: WorkCalendarRules, date: Date): boolean {
+  return compile(rules)(date);
+}
+
+/** Returns the date itself if it is a working day, otherwise the next working day. */
+export function nextWorkingDay(rules: WorkCalendarRules, date: Date): Date {
+  const isWorking = compile(rules);
+  let current = new Date(date.getTime());
+  for (let i = 0; i < MAX_SCAN_DAYS && !isWorking(current); i++) {
+    current = new Date(current.getTime() + DAY_MS);
+  }
+  return current;
+}
+
+/**
+ * Moves a date by a number of working days (negative moves backwards). Zero returns the
+ * date unchanged, even when it falls on a non-working day.
+ */
+export function addWorkingDays(rules: WorkCalendarRules, date: Date, days: number): Date {
+  const isWorking = compile(rules);
+  const step = days < 0 ? -DAY_MS : DAY_MS;
+  let remaining = Math.abs(Math.round(days));
+  let current = new Date(date.getTime());
+  let scanned = 0;
+  while (remaining > 0 && scanned < MAX_SCAN_DAYS * 10) {
+    current = new Date(current.getTime() + step);
+    scanned++;
+    if (isWorking(current)) remaining--;
+  }
+  return current;
+}
+
+/** Counts working days in [start, end). Returns a negative count when end is before start. */
+export function workingDaysBetween(rules: WorkCalendarRules, start: Date, end: Date): number {
+  const isWorking = compile(rules);
+  const from = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const to = Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate());
+  if (to < from) return -workingDaysBetween(rules, end, start);
+
+  let count = 0;
+  for (let t = from; t < to; t += DAY_MS) {
+    if (isWorking(new Date(t))) count++;
+  }
+  return count;
+}
+
+/** Copies the UTC time of day from `source` onto the calendar day of `date`. */
+export function withTimeOf(date: Date, source: Date): Date {
+  const result = new Date(date.getTime());
+  result.setUTCHours(source.getUTCHours(), source.getUTCMinutes(), source.getUTCSeconds(), source.getUTCMilliseconds());
+  return result;
+}